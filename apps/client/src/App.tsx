@@ -9,6 +9,7 @@ const HomePage = lazy(() => import("./pages/HomePage"));
 const MapSearchPage = lazy(() => import("./pages/MapSearchPage"));
 const FavoritesPage = lazy(() => import("./pages/FavoritesPage"));
 const LocationDetailPage = lazy(() => import("./pages/LocationDetailPage"));
+const LocationRequestPage = lazy(() => import("./pages/LocationRequestPage"));
 const AdminPage = lazy(() => import("./pages/AdminPage"));
 const LoginPage = lazy(() => import("./pages/LoginPage"));
 
@@ -30,6 +31,7 @@ function App() {
               <Route path="map-search" element={<MapSearchPage />} />
               <Route path="favorites" element={<FavoritesPage />} />
               <Route path="location/:locationId" element={<LocationDetailPage />} />
+              <Route path="location-request" element={<LocationRequestPage />} />
               <Route path="admin" element={<AdminPage />} />
             </Route>
             <Route path="/admin/login" element={<LoginPage />} />
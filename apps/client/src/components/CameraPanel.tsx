@@ -1,7 +1,13 @@
 import React, { useState } from "react";
+import type { Location } from "@skytree-photo-planner/types";
 import { Icon } from "@skytree-photo-planner/ui";
+import CameraProfileSelector from "./CameraProfileSelector";
+import FramingSummary from "./FramingSummary";
+import { cameraProfileService } from "../services/cameraProfileService";
+import { FramingService } from "../services/framingService";
+import type { LensProfile } from "../utils/cameraProfiles";
 
-// よく使われる焦点距離
+// よく使われる焦点距離（レンズを指定していない場合の選択肢）
 export const COMMON_FOCAL_LENGTHS = [
   { value: 14, name: "14mm (超広角)" },
   { value: 24, name: "24mm (広角)" },
@@ -21,16 +27,40 @@ export interface CameraSettings {
   sensorType: "fullframe" | "apsc" | "micro43";
   aspectRatio: "3:2" | "4:3" | "16:9" | "1:1";
   orientation: "landscape" | "portrait";
+  megapixels?: number; // 有効画素数（MP、未指定の場合は FramingService の既定値）
+  bodyId?: string; // 選択中のカメラボディのプロファイル
+  sensorSize?: { width: number; height: number }; // ボディのセンサーサイズ（mm、sensorType より優先）
+  lensId?: string; // 選択中のレンズのプロファイル
+  teleconverter?: number; // テレコンバーターの倍率（未指定は装着なし）
 }
 
 interface CameraPanelProps {
   cameraSettings: CameraSettings;
   onCameraSettingsChange: (settings: CameraSettings) => void;
+  location?: Pick<Location, "name" | "distanceToSkytree">; // 選択中の地点（指定した場合は構図を表示）
 }
 
+/**
+ * 焦点距離の選択肢
+ * レンズを指定している場合はテレコンバーター込みの焦点距離の範囲（両端と範囲内のよく使われる焦点距離）
+ */
+const getFocalLengthChoices = (lens: LensProfile | undefined, teleconverter: number): number[] => {
+  const commonValues = COMMON_FOCAL_LENGTHS.map((focal) => focal.value);
+  if (!lens) {
+    return commonValues;
+  }
+
+  const min = Math.round(lens.minFocalLength * teleconverter);
+  const max = Math.round(lens.maxFocalLength * teleconverter);
+  return Array.from(
+    new Set([min, ...commonValues.filter((value) => value > min && value < max), max]),
+  );
+};
+
 const CameraPanel: React.FC<CameraPanelProps> = ({
   cameraSettings,
   onCameraSettingsChange,
+  location,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -38,6 +68,17 @@ const CameraPanel: React.FC<CameraPanelProps> = ({
     onCameraSettingsChange({ ...cameraSettings, ...updates });
   };
 
+  const selectedBody = cameraSettings.bodyId
+    ? cameraProfileService.findBody(cameraSettings.bodyId)
+    : undefined;
+  const selectedLens = cameraSettings.lensId
+    ? cameraProfileService.findLens(cameraSettings.lensId)
+    : undefined;
+  const focalLengthChoices = getFocalLengthChoices(
+    selectedLens,
+    cameraSettings.teleconverter || 1,
+  );
+
   const handleFocalLengthChange = (value: string) => {
     const focalLength = parseInt(value) || 50;
     updateSettings({ focalLength });
@@ -109,7 +150,8 @@ const CameraPanel: React.FC<CameraPanelProps> = ({
                 borderRadius: "8px",
               }}
             >
-              {cameraSettings.sensorType === "fullframe" ? "FF" : 
+              {selectedBody && !selectedBody.id.startsWith("generic-") ? selectedBody.name :
+               cameraSettings.sensorType === "fullframe" ? "FF" : 
                cameraSettings.sensorType === "apsc" ? "APS-C" : "m43"}
             </span>
           </div>
@@ -177,45 +219,7 @@ const CameraPanel: React.FC<CameraPanelProps> = ({
                 焦点距離
               </label>
               
-              {/* 1 行目：14, 24, 35, 50, 85 */}
-              <div
-                style={{
-                  display: "grid",
-                  gridTemplateColumns: "repeat(5, 1fr)",
-                  gap: "0.25rem",
-                  marginBottom: "0.25rem",
-                }}
-              >
-                {[14, 24, 35, 50, 85].map((focal) => (
-                  <button
-                    key={focal}
-                    onClick={() => updateSettings({ focalLength: focal })}
-                    aria-label={`焦点距離${focal}mm を選択`}
-                    className="focus:ring-2 focus:ring-blue-500 focus:outline-none"
-                    style={{
-                      padding: "0.25rem 0.125rem",
-                      fontSize: "0.65rem",
-                      border: "1px solid #e5e7eb",
-                      borderRadius: "4px",
-                      backgroundColor:
-                        cameraSettings.focalLength === focal
-                          ? "#3b82f6"
-                          : "white",
-                      color:
-                        cameraSettings.focalLength === focal
-                          ? "white"
-                          : "#374151",
-                      cursor: "pointer",
-                      fontWeight: "500",
-                      transition: "all 0.2s",
-                    }}
-                  >
-                    {focal}
-                  </button>
-                ))}
-              </div>
-              
-              {/* 2 行目：135, 200, 300, 400, 600 */}
+              {/* 選択中のレンズの焦点距離（5 個ずつ折り返す） */}
               <div
                 style={{
                   display: "grid",
@@ -224,7 +228,7 @@ const CameraPanel: React.FC<CameraPanelProps> = ({
                   marginBottom: "0.5rem",
                 }}
               >
-                {[135, 200, 300, 400, 600].map((focal) => (
+                {focalLengthChoices.map((focal) => (
                   <button
                     key={focal}
                     onClick={() => updateSettings({ focalLength: focal })}
@@ -362,7 +366,7 @@ const CameraPanel: React.FC<CameraPanelProps> = ({
             </div>
           </div>
 
-          {/* センサーサイズ（単独配置） */}
+          {/* カメラボディ・レンズのプロファイル */}
           <div>
             <label
               style={{
@@ -373,55 +377,61 @@ const CameraPanel: React.FC<CameraPanelProps> = ({
                 display: "block",
               }}
             >
-              センサーサイズ
+              機材
+            </label>
+            <CameraProfileSelector
+              cameraSettings={cameraSettings}
+              onChange={updateSettings}
+            />
+          </div>
+
+          {/* 有効画素数 */}
+          <div style={{ display: "flex", alignItems: "center", gap: "0.25rem" }}>
+            <label
+              htmlFor="camera-megapixels"
+              style={{ fontSize: "0.7rem", fontWeight: "500", color: "#6b7280" }}
+            >
+              有効画素数
             </label>
-            <div
+            <input
+              id="camera-megapixels"
+              type="number"
+              value={cameraSettings.megapixels ?? FramingService.DEFAULT_MEGAPIXELS}
+              onChange={(e) =>
+                updateSettings({ megapixels: parseFloat(e.target.value) || undefined })
+              }
+              min="1"
+              max="200"
+              className="focus:ring-2 focus:ring-blue-500 focus:outline-none"
               style={{
-                display: "flex",
-                flexDirection: "row",
-                gap: "0.5rem",
+                width: "60px",
+                padding: "0.25rem",
+                fontSize: "0.7rem",
+                border: "1px solid #d1d5db",
+                borderRadius: "4px",
+                textAlign: "center",
               }}
-            >
-              {[
-                { value: "fullframe", label: "フルサイズ" },
-                { value: "apsc", label: "APS-C" },
-                { value: "micro43", label: "マイクロフォーサーズ" },
-              ].map((sensor) => (
-                <label
-                  key={sensor.value}
-                  style={{
-                    display: "flex",
-                    alignItems: "center",
-                    gap: "0.25rem",
-                    cursor: "pointer",
-                    fontSize: "0.65rem",
-                    color: "#374151",
-                    padding: "0.125rem",
-                  }}
-                >
-                  <input
-                    type="radio"
-                    name="sensorType"
-                    value={sensor.value}
-                    checked={cameraSettings.sensorType === sensor.value}
-                    onChange={(e) =>
-                      updateSettings({
-                        sensorType: e.target.value as "fullframe" | "apsc" | "micro43",
-                      })
-                    }
-                    aria-label={`${sensor.label}センサーを選択`}
-                    className="focus:ring-2 focus:ring-blue-500 focus:outline-none"
-                    style={{
-                      width: "12px",
-                      height: "12px",
-                      accentColor: "#3b82f6",
-                    }}
-                  />
-                  {sensor.label}
-                </label>
-              ))}
-            </div>
+            />
+            <span style={{ fontSize: "0.7rem", color: "#6b7280" }}>MP</span>
           </div>
+
+          {/* 選択中の地点での構図 */}
+          {location && (
+            <div>
+              <label
+                style={{
+                  fontSize: "0.7rem",
+                  fontWeight: "500",
+                  color: "#6b7280",
+                  marginBottom: "0.25rem",
+                  display: "block",
+                }}
+              >
+                構図（{location.name}）
+              </label>
+              <FramingSummary location={location} cameraSettings={cameraSettings} />
+            </div>
+          )}
         </div>
       )}
     </div>
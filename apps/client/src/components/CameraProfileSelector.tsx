@@ -0,0 +1,340 @@
+import React, { useState } from "react";
+import type { CameraSettings } from "./CameraPanel";
+import { cameraProfileService } from "../services/cameraProfileService";
+import type { CameraBodyProfile, LensProfile } from "../utils/cameraProfiles";
+
+interface CameraProfileSelectorProps {
+  cameraSettings: CameraSettings;
+  onChange: (updates: Partial<CameraSettings>) => void;
+}
+
+const TELECONVERTER_CHOICES = [1.4, 2];
+
+// センサー幅から一番近いセンサー種別（プロファイルが見つからない場合の代替値）
+const getSensorType = (sensorWidth: number): CameraSettings["sensorType"] =>
+  sensorWidth >= 30 ? "fullframe" : sensorWidth >= 20 ? "apsc" : "micro43";
+
+const clampFocalLength = (focalLength: number, lens: LensProfile, teleconverter: number) =>
+  Math.round(
+    Math.min(
+      Math.max(focalLength, lens.minFocalLength * teleconverter),
+      lens.maxFocalLength * teleconverter,
+    ),
+  );
+
+const inputClassName =
+  "px-1 py-0.5 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+/**
+ * カメラボディ・レンズ・テレコンバーターの選択と、独自プロファイルの登録
+ * ボディを選ぶとセンサーサイズと有効画素数、レンズを選ぶと焦点距離の範囲がカメラ設定に反映される
+ */
+const CameraProfileSelector: React.FC<CameraProfileSelectorProps> = ({
+  cameraSettings,
+  onChange,
+}) => {
+  const [bodies, setBodies] = useState(() => cameraProfileService.getBodies());
+  const [lenses, setLenses] = useState(() => cameraProfileService.getLenses());
+  const [editing, setEditing] = useState<"body" | "lens" | null>(null);
+  const [bodyForm, setBodyForm] = useState({ name: "", sensorWidth: "", sensorHeight: "", megapixels: "" });
+  const [lensForm, setLensForm] = useState({ name: "", minFocalLength: "", maxFocalLength: "", teleconverters: [] as number[] });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const bodyId = cameraSettings.bodyId || `generic-${cameraSettings.sensorType}`;
+  const selectedBody = bodies.find((body) => body.id === bodyId);
+  const selectedLens = lenses.find((lens) => lens.id === cameraSettings.lensId);
+  const teleconverter = cameraSettings.teleconverter || 1;
+
+  const selectBody = (body: CameraBodyProfile) => {
+    onChange({
+      bodyId: body.id,
+      sensorType: getSensorType(body.sensorWidth),
+      sensorSize: { width: body.sensorWidth, height: body.sensorHeight },
+      megapixels: body.megapixels,
+    });
+  };
+
+  const selectLens = (lens: LensProfile | undefined) => {
+    if (!lens) {
+      onChange({ lensId: undefined, teleconverter: undefined });
+      return;
+    }
+    onChange({
+      lensId: lens.id,
+      teleconverter: undefined,
+      focalLength: clampFocalLength(cameraSettings.focalLength, lens, 1),
+    });
+  };
+
+  const selectTeleconverter = (factor: number) => {
+    if (!selectedLens) return;
+    // ズーム位置を保ったまま倍率を掛け替える
+    onChange({
+      teleconverter: factor > 1 ? factor : undefined,
+      focalLength: clampFocalLength(
+        (cameraSettings.focalLength / teleconverter) * factor,
+        selectedLens,
+        factor,
+      ),
+    });
+  };
+
+  const closeForm = () => {
+    setEditing(null);
+    setFormError(null);
+  };
+
+  const handleSaveBody = () => {
+    const saved = cameraProfileService.saveCustomBody({
+      name: bodyForm.name,
+      sensorWidth: parseFloat(bodyForm.sensorWidth),
+      sensorHeight: parseFloat(bodyForm.sensorHeight),
+      megapixels: parseFloat(bodyForm.megapixels),
+    });
+    if (!saved) {
+      setFormError("名前・センサーサイズ・有効画素数を正しく入力してください");
+      return;
+    }
+    setBodies(cameraProfileService.getBodies());
+    setBodyForm({ name: "", sensorWidth: "", sensorHeight: "", megapixels: "" });
+    selectBody(saved);
+    closeForm();
+  };
+
+  const handleSaveLens = () => {
+    const minFocalLength = parseFloat(lensForm.minFocalLength);
+    const saved = cameraProfileService.saveCustomLens({
+      name: lensForm.name,
+      minFocalLength,
+      // 最長焦点距離が空欄の場合は単焦点レンズとして扱う
+      maxFocalLength: lensForm.maxFocalLength ? parseFloat(lensForm.maxFocalLength) : minFocalLength,
+      teleconverters: lensForm.teleconverters,
+    });
+    if (!saved) {
+      setFormError("名前と焦点距離（最短 ≦ 最長）を正しく入力してください");
+      return;
+    }
+    setLenses(cameraProfileService.getLenses());
+    setLensForm({ name: "", minFocalLength: "", maxFocalLength: "", teleconverters: [] });
+    selectLens(saved);
+    closeForm();
+  };
+
+  const handleRemoveBody = () => {
+    if (!selectedBody?.custom) return;
+    cameraProfileService.removeCustomBody(selectedBody.id);
+    setBodies(cameraProfileService.getBodies());
+    onChange({ bodyId: undefined, sensorSize: undefined });
+  };
+
+  const handleRemoveLens = () => {
+    if (!selectedLens?.custom) return;
+    cameraProfileService.removeCustomLens(selectedLens.id);
+    setLenses(cameraProfileService.getLenses());
+    onChange({ lensId: undefined, teleconverter: undefined });
+  };
+
+  return (
+    <div className="space-y-2 text-xs text-gray-700">
+      {/* ボディ */}
+      <div className="flex items-center gap-1">
+        <label htmlFor="camera-body" className="w-16 font-medium text-gray-500">
+          ボディ
+        </label>
+        <select
+          id="camera-body"
+          value={bodyId}
+          onChange={(e) => {
+            const body = bodies.find((candidate) => candidate.id === e.target.value);
+            if (body) selectBody(body);
+          }}
+          className={`${inputClassName} flex-1 min-w-0`}
+        >
+          {bodies.map((body) => (
+            <option key={body.id} value={body.id}>
+              {body.name}
+            </option>
+          ))}
+        </select>
+        {selectedBody?.custom && (
+          <button onClick={handleRemoveBody} className="px-1 text-red-600 hover:underline">
+            削除
+          </button>
+        )}
+      </div>
+      {selectedBody && (
+        <div className="pl-16 text-gray-500">
+          センサー {selectedBody.sensorWidth}×{selectedBody.sensorHeight}mm・{selectedBody.megapixels}MP
+        </div>
+      )}
+
+      {/* レンズ */}
+      <div className="flex items-center gap-1">
+        <label htmlFor="camera-lens" className="w-16 font-medium text-gray-500">
+          レンズ
+        </label>
+        <select
+          id="camera-lens"
+          value={selectedLens?.id || ""}
+          onChange={(e) => selectLens(lenses.find((lens) => lens.id === e.target.value))}
+          className={`${inputClassName} flex-1 min-w-0`}
+        >
+          <option value="">指定なし</option>
+          {lenses.map((lens) => (
+            <option key={lens.id} value={lens.id}>
+              {lens.name}
+            </option>
+          ))}
+        </select>
+        {selectedLens?.custom && (
+          <button onClick={handleRemoveLens} className="px-1 text-red-600 hover:underline">
+            削除
+          </button>
+        )}
+      </div>
+      {selectedLens && selectedLens.teleconverters.length > 0 && (
+        <div className="flex items-center gap-1">
+          <label htmlFor="camera-teleconverter" className="w-16 font-medium text-gray-500">
+            テレコン
+          </label>
+          <select
+            id="camera-teleconverter"
+            value={teleconverter}
+            onChange={(e) => selectTeleconverter(Number(e.target.value))}
+            className={inputClassName}
+          >
+            <option value={1}>なし</option>
+            {selectedLens.teleconverters.map((factor) => (
+              <option key={factor} value={factor}>
+                ×{factor}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* 独自プロファイルの登録 */}
+      <div className="flex gap-3">
+        <button onClick={() => setEditing(editing === "body" ? null : "body")} className="text-blue-700 hover:underline">
+          ＋ ボディを登録
+        </button>
+        <button onClick={() => setEditing(editing === "lens" ? null : "lens")} className="text-blue-700 hover:underline">
+          ＋ レンズを登録
+        </button>
+      </div>
+
+      {editing === "body" && (
+        <div className="p-2 border border-gray-200 rounded space-y-1">
+          <input
+            value={bodyForm.name}
+            onChange={(e) => setBodyForm({ ...bodyForm, name: e.target.value })}
+            placeholder="名前"
+            aria-label="ボディの名前"
+            className={`${inputClassName} w-full`}
+          />
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              value={bodyForm.sensorWidth}
+              onChange={(e) => setBodyForm({ ...bodyForm, sensorWidth: e.target.value })}
+              placeholder="幅"
+              aria-label="センサーの幅（mm）"
+              className={`${inputClassName} w-14`}
+            />
+            ×
+            <input
+              type="number"
+              value={bodyForm.sensorHeight}
+              onChange={(e) => setBodyForm({ ...bodyForm, sensorHeight: e.target.value })}
+              placeholder="高さ"
+              aria-label="センサーの高さ（mm）"
+              className={`${inputClassName} w-14`}
+            />
+            mm
+            <input
+              type="number"
+              value={bodyForm.megapixels}
+              onChange={(e) => setBodyForm({ ...bodyForm, megapixels: e.target.value })}
+              placeholder="画素数"
+              aria-label="有効画素数（MP）"
+              className={`${inputClassName} w-14 ml-2`}
+            />
+            MP
+          </div>
+          {formError && <div className="text-red-600">{formError}</div>}
+          <div className="flex gap-2">
+            <button onClick={handleSaveBody} className="px-2 py-0.5 bg-blue-600 text-white rounded hover:bg-blue-700">
+              保存
+            </button>
+            <button onClick={closeForm} className="px-2 py-0.5 border border-gray-300 rounded hover:bg-gray-50">
+              キャンセル
+            </button>
+          </div>
+        </div>
+      )}
+
+      {editing === "lens" && (
+        <div className="p-2 border border-gray-200 rounded space-y-1">
+          <input
+            value={lensForm.name}
+            onChange={(e) => setLensForm({ ...lensForm, name: e.target.value })}
+            placeholder="名前"
+            aria-label="レンズの名前"
+            className={`${inputClassName} w-full`}
+          />
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              value={lensForm.minFocalLength}
+              onChange={(e) => setLensForm({ ...lensForm, minFocalLength: e.target.value })}
+              placeholder="最短"
+              aria-label="最短焦点距離（mm）"
+              className={`${inputClassName} w-14`}
+            />
+            -
+            <input
+              type="number"
+              value={lensForm.maxFocalLength}
+              onChange={(e) => setLensForm({ ...lensForm, maxFocalLength: e.target.value })}
+              placeholder="最長"
+              aria-label="最長焦点距離（mm、単焦点は空欄）"
+              className={`${inputClassName} w-14`}
+            />
+            mm
+          </div>
+          <div className="flex items-center gap-2">
+            対応テレコン
+            {TELECONVERTER_CHOICES.map((factor) => (
+              <label key={factor} className="flex items-center gap-0.5">
+                <input
+                  type="checkbox"
+                  checked={lensForm.teleconverters.includes(factor)}
+                  onChange={(e) =>
+                    setLensForm({
+                      ...lensForm,
+                      teleconverters: e.target.checked
+                        ? [...lensForm.teleconverters, factor].sort((a, b) => a - b)
+                        : lensForm.teleconverters.filter((value) => value !== factor),
+                    })
+                  }
+                />
+                ×{factor}
+              </label>
+            ))}
+          </div>
+          {formError && <div className="text-red-600">{formError}</div>}
+          <div className="flex gap-2">
+            <button onClick={handleSaveLens} className="px-2 py-0.5 bg-blue-600 text-white rounded hover:bg-blue-700">
+              保存
+            </button>
+            <button onClick={closeForm} className="px-2 py-0.5 border border-gray-300 rounded hover:bg-gray-50">
+              キャンセル
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraProfileSelector;
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef } from "react";
+import type { CaptchaProvider } from "@skytree-photo-planner/types";
+import { uiLogger } from "../utils/logger";
+
+interface CaptchaWidgetProps {
+  provider: CaptchaProvider;
+  siteKey: string;
+  // 認証が完了したらトークン、期限切れ・失敗したら null
+  onToken: (token: string | null) => void;
+}
+
+// Turnstile・reCAPTCHA・hCaptcha に共通の明示的レンダリング API
+interface CaptchaApi {
+  render: (
+    container: HTMLElement,
+    options: {
+      sitekey: string;
+      callback: (token: string) => void;
+      "expired-callback": () => void;
+      "error-callback": () => void;
+    },
+  ) => string | number;
+  remove?: (widgetId: string | number) => void;
+}
+
+const ONLOAD_CALLBACK = "__onCaptchaLoad";
+
+const SCRIPTS: Record<CaptchaProvider, { src: string; global: string }> = {
+  turnstile: {
+    src: `https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit&onload=${ONLOAD_CALLBACK}`,
+    global: "turnstile",
+  },
+  recaptcha: {
+    src: `https://www.google.com/recaptcha/api.js?render=explicit&onload=${ONLOAD_CALLBACK}`,
+    global: "grecaptcha",
+  },
+  hcaptcha: {
+    src: `https://js.hcaptcha.com/1/api.js?render=explicit&onload=${ONLOAD_CALLBACK}`,
+    global: "hcaptcha",
+  },
+};
+
+// スクリプトはページ内で 1 回だけ読み込む
+const loaders: Partial<Record<CaptchaProvider, Promise<CaptchaApi>>> = {};
+
+const loadCaptchaApi = (provider: CaptchaProvider): Promise<CaptchaApi> => {
+  const { src, global } = SCRIPTS[provider];
+  const globals = window as unknown as Record<string, unknown>;
+
+  loaders[provider] ??= new Promise<CaptchaApi>((resolve, reject) => {
+    globals[ONLOAD_CALLBACK] = () => resolve(globals[global] as CaptchaApi);
+    const script = document.createElement("script");
+    script.src = src;
+    script.async = true;
+    script.defer = true;
+    script.onerror = () => {
+      delete loaders[provider];
+      reject(new Error(`${provider} のスクリプトを読み込めませんでした`));
+    };
+    document.head.appendChild(script);
+  });
+  return loaders[provider]!;
+};
+
+/**
+ * 画像認証のウィジェット（公開フォームのスパム対策）
+ * やり直す場合は key を変えて作り直す
+ */
+const CaptchaWidget: React.FC<CaptchaWidgetProps> = ({ provider, siteKey, onToken }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onTokenRef = useRef(onToken);
+  onTokenRef.current = onToken;
+
+  useEffect(() => {
+    let cancelled = false;
+    let widgetId: string | number | undefined;
+    let api: CaptchaApi | undefined;
+
+    loadCaptchaApi(provider)
+      .then((loaded) => {
+        if (cancelled || !containerRef.current) return;
+        api = loaded;
+        widgetId = loaded.render(containerRef.current, {
+          sitekey: siteKey,
+          callback: (token) => onTokenRef.current(token),
+          "expired-callback": () => onTokenRef.current(null),
+          "error-callback": () => onTokenRef.current(null),
+        });
+      })
+      .catch((error) => {
+        uiLogger.error("画像認証の読み込みエラー", error as Error, { provider });
+      });
+
+    return () => {
+      cancelled = true;
+      if (api?.remove && widgetId !== undefined) {
+        api.remove(widgetId);
+      }
+    };
+  }, [provider, siteKey]);
+
+  return <div ref={containerRef} />;
+};
+
+export default CaptchaWidget;
@@ -0,0 +1,39 @@
+import React from "react";
+import { Icon } from "@skytree-photo-planner/ui";
+import { useToastContext } from "../contexts/ToastContext";
+import { uiLogger } from "../utils/logger";
+
+/**
+ * 表示中のページの URL（検索条件を含む共有リンク）をクリップボードにコピーするボタン
+ */
+const CopyLinkButton: React.FC = () => {
+  const toast = useToastContext();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("リンクをコピーしました", {
+        message: "同じ検索条件の画面を開けます",
+        duration: 3000,
+      });
+    } catch (error) {
+      uiLogger.warn("リンクのコピーに失敗しました", error as Error);
+      toast.error("リンクをコピーできませんでした", {
+        message: "アドレスバーの URL をコピーしてください",
+      });
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      className="px-4 py-2 border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 rounded-md font-medium flex items-center gap-2 transition-colors"
+      title="現在の検索条件を含むリンクをコピー"
+    >
+      <Icon name="link" size={16} />
+      リンクをコピー
+    </button>
+  );
+};
+
+export default CopyLinkButton;
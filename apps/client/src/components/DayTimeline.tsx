@@ -0,0 +1,181 @@
+import React, { memo, useState, useEffect } from "react";
+import type { DayTimeline as DayTimelineData, TimelinePhaseType } from "@skytree-photo-planner/types";
+import { Icon } from "@skytree-photo-planner/ui";
+import { apiClient } from "../services/apiClient";
+
+interface DayTimelineProps {
+  locationId: number;
+  date: string; // YYYY-MM-DD（JST）
+  compact?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PHASE_STYLES: Record<TimelinePhaseType, { label: string; color: string }> = {
+  astronomical_twilight: { label: "天文薄明", color: "bg-indigo-900" },
+  nautical_twilight: { label: "航海薄明", color: "bg-indigo-700" },
+  civil_twilight: { label: "市民薄明", color: "bg-indigo-400" },
+  blue_hour: { label: "ブルーアワー", color: "bg-blue-500" },
+  golden_hour: { label: "ゴールデンアワー", color: "bg-amber-400" },
+};
+
+// 薄明の帯とブルー・ゴールデンアワーの帯を 2 段に分けて描画する
+const TWILIGHT_PHASES: TimelinePhaseType[] = [
+  "astronomical_twilight",
+  "nautical_twilight",
+  "civil_twilight",
+];
+
+const formatTime = (time: Date) =>
+  time.toLocaleTimeString("ja-JP", {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Asia/Tokyo",
+  });
+
+/**
+ * 1 日のタイムライン（出入り・薄明・ゴールデン/ブルーアワー・スカイツリー方向の横断）を
+ * 0 時から 24 時の横長の帯で表示する
+ */
+const DayTimeline: React.FC<DayTimelineProps> = memo(({ locationId, date, compact = false }) => {
+  const [timeline, setTimeline] = useState<DayTimelineData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    apiClient.getLocationTimeline(locationId, date).then((result) => {
+      if (!cancelled) {
+        setTimeline(result);
+        setLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [locationId, date]);
+
+  if (loading) {
+    return <div className="text-xs text-gray-500 py-2">タイムラインを計算中...</div>;
+  }
+  if (!timeline) {
+    return <div className="text-xs text-gray-500 py-2">タイムラインを取得できませんでした</div>;
+  }
+
+  const dayStart = new Date(`${date}T00:00:00+09:00`).getTime();
+  const toPercent = (time: Date) =>
+    Math.min(100, Math.max(0, ((time.getTime() - dayStart) / DAY_MS) * 100));
+
+  const markers = [
+    { time: timeline.sun.rise, label: "日の出", icon: "sun" as const, color: "text-orange-500" },
+    { time: timeline.sun.set, label: "日の入り", icon: "sun" as const, color: "text-orange-500" },
+    { time: timeline.moon.rise, label: "月の出", icon: "moon" as const, color: "text-blue-500" },
+    { time: timeline.moon.set, label: "月の入り", icon: "moon" as const, color: "text-blue-500" },
+  ].filter((marker): marker is typeof marker & { time: Date } => marker.time !== undefined);
+
+  const sunRise = timeline.sun.rise;
+  const sunSet = timeline.sun.set;
+
+  const renderBand = (types: TimelinePhaseType[], showDaylight: boolean) => (
+    <div className="relative h-3 bg-gray-800 rounded overflow-hidden">
+      {/* 日中 */}
+      {showDaylight && sunRise && sunSet && sunRise < sunSet && (
+        <div
+          className="absolute top-0 bottom-0 bg-sky-200"
+          style={{
+            left: `${toPercent(sunRise)}%`,
+            width: `${toPercent(sunSet) - toPercent(sunRise)}%`,
+          }}
+        />
+      )}
+      {timeline.phases
+        .filter((phase) => types.includes(phase.type))
+        .map((phase) => (
+          <div
+            key={`${phase.type}-${phase.period}`}
+            className={`absolute top-0 bottom-0 ${PHASE_STYLES[phase.type].color}`}
+            style={{
+              left: `${toPercent(phase.start)}%`,
+              width: `${toPercent(phase.end) - toPercent(phase.start)}%`,
+            }}
+            title={`${PHASE_STYLES[phase.type].label} ${formatTime(phase.start)}〜${formatTime(phase.end)}`}
+          />
+        ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      {/* 帯 */}
+      <div className="relative pt-5">
+        {/* スカイツリー方向の横断 */}
+        {timeline.skytreeCrossings.map((crossing) => (
+          <div
+            key={`${crossing.body}-${crossing.time.getTime()}`}
+            className="absolute top-0 -translate-x-1/2 flex flex-col items-center"
+            style={{ left: `${toPercent(crossing.time)}%` }}
+            title={`${crossing.body === "sun" ? "太陽" : "月"}がスカイツリー方向を通過 ${formatTime(crossing.time)}（高度 ${crossing.elevation.toFixed(1)}°）`}
+          >
+            <Icon
+              name={crossing.body === "sun" ? "sun" : "moon"}
+              size={12}
+              className={crossing.body === "sun" ? "text-orange-500" : "text-blue-500"}
+            />
+            <div className="w-px h-8 bg-red-500" />
+          </div>
+        ))}
+        <div className="space-y-1">
+          {renderBand(TWILIGHT_PHASES, true)}
+          {renderBand(["blue_hour", "golden_hour"], false)}
+        </div>
+        {/* 時刻目盛り */}
+        <div className="relative h-4 text-[10px] text-gray-500">
+          {[0, 6, 12, 18, 24].map((hour) => (
+            <span
+              key={hour}
+              className="absolute -translate-x-1/2"
+              style={{ left: `${(hour / 24) * 100}%` }}
+            >
+              {hour}時
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* 凡例・時刻一覧 */}
+      {!compact && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-600">
+          {(Object.keys(PHASE_STYLES) as TimelinePhaseType[]).map((type) => (
+            <span key={type} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded-sm ${PHASE_STYLES[type].color}`} />
+              {PHASE_STYLES[type].label}
+            </span>
+          ))}
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-px h-3 bg-red-500" />
+            スカイツリー方向の通過
+          </span>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-700">
+        {markers.map((marker) => (
+          <span key={marker.label} className="flex items-center gap-1">
+            <Icon name={marker.icon} size={12} className={marker.color} />
+            {marker.label} {formatTime(marker.time)}
+          </span>
+        ))}
+        {timeline.skytreeCrossings.map((crossing) => (
+          <span key={`${crossing.body}-${crossing.time.getTime()}`} className="flex items-center gap-1">
+            <Icon name="mapPin" size={12} className="text-red-500" />
+            {crossing.body === "sun" ? "太陽" : "月"}通過 {formatTime(crossing.time)}
+            （高度 {crossing.elevation.toFixed(1)}°）
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+DayTimeline.displayName = "DayTimeline";
+
+export default DayTimeline;
@@ -1,17 +1,23 @@
 import React, { memo, useState, useEffect } from "react";
-import { FujiEvent, Location } from "@skytree-photo-planner/types";
+import { AlignmentGeometry, FujiEvent, LineOfSightResult, Location, RefractionModel, SpecialEventType } from "@skytree-photo-planner/types";
 import { useFavorites } from "../hooks/useFavorites";
 import { Icon } from "@skytree-photo-planner/ui";
+import { timeUtils } from "@skytree-photo-planner/utils";
+import DayTimeline from "./DayTimeline";
+import SkyTrackPreview from "./SkyTrackPreview";
+import ShootPlanBuilder from "./ShootPlanBuilder";
+import { CameraSettings } from "./CameraPanel";
 
 interface EventDetailProps {
   date: Date;
   events: FujiEvent[];
   selectedLocationId?: number;
   onLocationSelect?: (location: Location | null) => void;
+  cameraSettings: CameraSettings;
 }
 
 const EventDetail: React.FC<EventDetailProps> = memo(
-  ({ date, events, selectedLocationId, onLocationSelect }) => {
+  ({ date, events, selectedLocationId, onLocationSelect, cameraSettings }) => {
     const {
       isEventFavorite,
       toggleEventFavorite,
@@ -30,6 +36,34 @@ const EventDetail: React.FC<EventDetailProps> = memo(
         return new Set();
       },
     );
+    // 軌跡プレビューを開いているイベント
+    const [previewEventIds, setPreviewEventIds] = useState<Set<string>>(new Set());
+    // 撮影計画を開いているイベント
+    const [planEventIds, setPlanEventIds] = useState<Set<string>>(new Set());
+
+    const togglePlan = (eventId: string) => {
+      setPlanEventIds((prev) => {
+        const next = new Set(prev);
+        if (next.has(eventId)) {
+          next.delete(eventId);
+        } else {
+          next.add(eventId);
+        }
+        return next;
+      });
+    };
+
+    const togglePreview = (eventId: string) => {
+      setPreviewEventIds((prev) => {
+        const next = new Set(prev);
+        if (next.has(eventId)) {
+          next.delete(eventId);
+        } else {
+          next.add(eventId);
+        }
+        return next;
+      });
+    };
 
     // selectedLocationId が変更された時にアコーディオンを更新
     useEffect(() => {
@@ -150,6 +184,69 @@ const EventDetail: React.FC<EventDetailProps> = memo(
       return accuracyMap[accuracy as keyof typeof accuracyMap] || accuracy;
     };
 
+    const formatContactTime = (time: Date | string): string => {
+      return new Date(time).toLocaleTimeString("ja-JP", {
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit"
+      });
+    };
+
+    const formatContactDuration = (seconds: number): string => {
+      const minutes = Math.floor(seconds / 60);
+      const remainder = seconds % 60;
+      return minutes > 0 ? `${minutes}分${remainder}秒` : `${remainder}秒`;
+    };
+
+    const getRefractionModelDisplayName = (model: RefractionModel): string => {
+      const modelMap: Record<RefractionModel, string> = {
+        none: "屈折補正なし",
+        standard: "標準大気",
+        bennett: "Bennett",
+        saemundsson: "Saemundsson"
+      };
+      return modelMap[model] || model;
+    };
+
+    const getAlignmentDisplayName = (alignment: AlignmentGeometry): string => {
+      switch (alignment.classification) {
+        case "centered":
+          return "頂部に中心";
+        case "touching":
+          return "頂部に接する";
+        case "crossing_shaft":
+          return alignment.crossingHeight !== undefined
+            ? `塔体 ${alignment.crossingHeight}m 付近に重なる`
+            : "塔体に重なる";
+        case "beside":
+          return alignment.offsetDiameters !== undefined
+            ? `塔の脇を通過（円盤 ${alignment.offsetDiameters} 個分）`
+            : "塔の脇を通過";
+        default:
+          return "";
+      }
+    };
+
+    const getSpecialEventDisplayName = (type: SpecialEventType): string => {
+      switch (type) {
+        case "solar_eclipse":
+          return "日食";
+        case "lunar_eclipse":
+          return "月食";
+        case "supermoon":
+          return "スーパームーン";
+        default:
+          return "";
+      }
+    };
+
+    const getLineOfSightDisplayName = (lineOfSight: LineOfSightResult): string => {
+      if (lineOfSight.status === "blocked") {
+        return "遮蔽により見えません";
+      }
+      return `上部 ${Math.round(lineOfSight.visibleHeight)}m のみ見通し可`;
+    };
+
 
 
     // 折りたたみボタンで地図連携も含めて制御
@@ -344,6 +441,16 @@ const EventDetail: React.FC<EventDetailProps> = memo(
                                       : "計算中"}
                                   </div>
                                 </div>
+                                {location.id > 0 && (
+                                  <div className="text-xs">
+                                    <div className="text-gray-500 mb-1">この日のタイムライン:</div>
+                                    <DayTimeline
+                                      locationId={location.id}
+                                      date={timeUtils.formatDateString(date)}
+                                      compact
+                                    />
+                                  </div>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -376,6 +483,17 @@ const EventDetail: React.FC<EventDetailProps> = memo(
                                       }`}>
                                       {getAccuracyDisplayName(event.accuracy)}
                                     </span>
+                                    {event.lineOfSight && event.lineOfSight.status !== "clear" && (
+                                      <span
+                                        className={`px-2 py-1 text-xs rounded font-medium border ${event.lineOfSight.status === "blocked"
+                                          ? "bg-red-50 text-red-700 border-red-200"
+                                          : "bg-yellow-50 text-yellow-800 border-yellow-200"
+                                          }`}
+                                        title="地形・建物によるスカイツリーの遮蔽"
+                                      >
+                                        {getLineOfSightDisplayName(event.lineOfSight)}
+                                      </span>
+                                    )}
                                   </div>
                                   <div className="text-right">
                                     <div className="font-medium text-gray-900">
@@ -384,6 +502,15 @@ const EventDetail: React.FC<EventDetailProps> = memo(
                                         minute: "2-digit"
                                       })}
                                     </div>
+                                    {event.contactWindow && (
+                                      <div
+                                        className="text-xs text-gray-500"
+                                        title="円盤の縁がアンテナに接してから離れるまで"
+                                      >
+                                        {formatContactTime(event.contactWindow.firstContact)}〜{formatContactTime(event.contactWindow.lastContact)}
+                                        （{formatContactDuration(event.contactWindow.durationSeconds)}）
+                                      </div>
+                                    )}
                                   </div>
                                 </div>
 
@@ -396,13 +523,65 @@ const EventDetail: React.FC<EventDetailProps> = memo(
                                         <span className="text-xs text-gray-500 ml-1">（見下ろし）</span>
                                       )}
                                     </span>
+                                    {event.alignment && (
+                                      <span className="text-xs text-gray-500" title="天体と塔の重なり方">
+                                        {getAlignmentDisplayName(event.alignment)}
+                                      </span>
+                                    )}
+                                    {event.target && event.target.id !== "tip" && (
+                                      <span className="text-xs text-gray-500" title="天体を重ねる位置">
+                                        {event.target.name}（{event.target.height}m）
+                                      </span>
+                                    )}
+                                    {event.refractionModel && event.refractionModel !== "standard" && (
+                                      <span className="text-xs text-gray-500" title="大気屈折補正モデル">
+                                        {getRefractionModelDisplayName(event.refractionModel)}
+                                      </span>
+                                    )}
                                     {event.moonPhase !== undefined && event.type === "pearl" && (
                                       <span>
                                         {getMoonPhaseName(event.moonPhase).icon} {getMoonPhaseName(event.moonPhase).name}
                                       </span>
                                     )}
+                                    {event.specialEvents && event.specialEvents.length > 0 && (
+                                      <span className="text-xs font-semibold text-purple-700" title="同時に起こる天文現象">
+                                        {event.specialEvents.map(getSpecialEventDisplayName).join("・")}
+                                      </span>
+                                    )}
                                   </div>
                                   <div className="flex items-center gap-2">
+                                    {location.id > 0 && (
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          togglePreview(event.id);
+                                        }}
+                                        className={`px-2 py-1 text-xs rounded transition-colors ${previewEventIds.has(event.id)
+                                          ? "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                          : "bg-gray-50 text-gray-600 hover:bg-gray-100"
+                                          }`}
+                                        title="前後 15 分の天体の軌跡とスカイツリーの重なり"
+                                      >
+                                        <Icon name="eye" size={12} className="inline mr-1" />
+                                        軌跡
+                                      </button>
+                                    )}
+                                    {location.id > 0 && (
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          togglePlan(event.id);
+                                        }}
+                                        className={`px-2 py-1 text-xs rounded transition-colors ${planEventIds.has(event.id)
+                                          ? "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                          : "bg-gray-50 text-gray-600 hover:bg-gray-100"
+                                          }`}
+                                        title="移動・設営の時間から出発時刻を逆算した撮影計画"
+                                      >
+                                        <Icon name="route" size={12} className="inline mr-1" />
+                                        撮影計画
+                                      </button>
+                                    )}
                                     <button
                                       onClick={(e) => {
                                         e.stopPropagation();
@@ -418,6 +597,18 @@ const EventDetail: React.FC<EventDetailProps> = memo(
                                     </button>
                                   </div>
                                 </div>
+
+                                {previewEventIds.has(event.id) && (
+                                  <div className="mt-3">
+                                    <SkyTrackPreview event={event} cameraSettings={cameraSettings} />
+                                  </div>
+                                )}
+
+                                {planEventIds.has(event.id) && (
+                                  <div className="mt-3">
+                                    <ShootPlanBuilder event={event} />
+                                  </div>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { Icon } from "@skytree-photo-planner/ui";
+import type { AlignmentClassification } from "@skytree-photo-planner/types";
 
 export interface FilterOptions {
   distance: "all" | "very_near" | "near" | "medium" | "far" | "very_far"; // 全て | 50km 以内 | 100km 以内 | 200km 以内 | 300km 以内 | 300km 以上
@@ -12,8 +13,16 @@ export interface FilterOptions {
     lunarEclipse: boolean; // 月食
     supermoon: boolean; // スーパームーン
   };
+  alignment: Record<AlignmentClassification, boolean>; // 天体と塔の重なり方（複数選択可能）
 }
 
+const ALIGNMENT_OPTIONS: Array<{ key: AlignmentClassification; label: string }> = [
+  { key: "centered", label: "頂部に中心" },
+  { key: "touching", label: "頂部に接する" },
+  { key: "crossing_shaft", label: "塔体に重なる" },
+  { key: "beside", label: "塔の脇を通過" },
+];
+
 interface FilterPanelProps {
   filters: FilterOptions;
   onFilterChange: (filters: FilterOptions) => void;
@@ -47,6 +56,16 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
     });
   };
 
+  const updateAlignment = (key: AlignmentClassification, value: boolean) => {
+    onFilterChange({
+      ...filters,
+      alignment: {
+        ...filters.alignment,
+        [key]: value,
+      },
+    });
+  };
+
   // デフォルトフィルター設定
   const getDefaultFilters = (): FilterOptions => ({
     distance: "all",
@@ -59,6 +78,12 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
       lunarEclipse: false,
       supermoon: false,
     },
+    alignment: {
+      centered: false,
+      touching: false,
+      crossing_shaft: false,
+      beside: false,
+    },
   });
 
   // パネルが開いている場合に ON とする
@@ -364,6 +389,55 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
             </div>
           </div>
 
+          {/* 重なり方フィルター */}
+          <div>
+            <label
+              style={{
+                display: "block",
+                fontSize: "0.7rem",
+                fontWeight: "500",
+                color: "#6b7280",
+                marginBottom: "0.25rem",
+              }}
+            >
+              重なり方
+            </label>
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "repeat(2, 1fr)",
+                gap: "0.25rem",
+              }}
+            >
+              {ALIGNMENT_OPTIONS.map(({ key, label }) => (
+                <label
+                  key={key}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "0.25rem",
+                    padding: "0.25rem",
+                    backgroundColor: filters.alignment[key]
+                      ? "#ecfccb"
+                      : "#f9fafb",
+                    borderRadius: "4px",
+                    cursor: "pointer",
+                    fontSize: "0.65rem",
+                    border: "1px solid #e5e7eb",
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={filters.alignment[key]}
+                    onChange={(e) => updateAlignment(key, e.target.checked)}
+                    style={{ margin: 0, width: "10px", height: "10px" }}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+
           {/* 特別な天体イベント - コンパクト */}
           <div>
             <label
@@ -0,0 +1,80 @@
+import React, { memo, useState } from "react";
+import type { Location } from "@skytree-photo-planner/types";
+import type { CameraSettings } from "./CameraPanel";
+import { FramingService, framingService } from "../services/framingService";
+
+interface FramingSummaryProps {
+  location: Pick<Location, "distanceToSkytree">;
+  cameraSettings: CameraSettings;
+}
+
+const TARGET_FRACTIONS = [0.3, 0.5, 0.8, 1];
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+/**
+ * 撮影地点とカメラ設定での構図（塔の写る大きさ・太陽と月の大きさ・必要な焦点距離）を表示する
+ */
+const FramingSummary: React.FC<FramingSummaryProps> = memo(({ location, cameraSettings }) => {
+  const [targetFraction, setTargetFraction] = useState(FramingService.DEFAULT_TARGET_FRACTION);
+  const framing = framingService.calculate(location, cameraSettings, targetFraction);
+
+  if (!framing) {
+    return <div className="text-xs text-gray-500">スカイツリーまでの距離が不明なため計算できません</div>;
+  }
+
+  const fitsInFrame = framing.towerFrameRatio <= 1;
+
+  return (
+    <div className="flex gap-3 text-xs text-gray-700">
+      {/* 画面に対する塔の高さの目安 */}
+      <div
+        className="relative flex-shrink-0 border border-gray-300 bg-sky-50 overflow-hidden"
+        style={{
+          width: cameraSettings.orientation === "portrait" ? 40 : 60,
+          height: cameraSettings.orientation === "portrait" ? 60 : 40,
+        }}
+        aria-hidden="true"
+      >
+        <div
+          className="absolute bottom-0 left-1/2 -translate-x-1/2 w-0.5 bg-gray-700"
+          style={{ height: `${Math.min(framing.towerFrameRatio, 1) * 100}%` }}
+        />
+      </div>
+      <div className="space-y-0.5">
+        <div>
+          塔の高さ: 画面の <span className="font-semibold">{formatPercent(framing.towerFrameRatio)}</span>
+          （約 {framing.towerHeightPixels.toLocaleString()}px / {framing.frameHeightPixels.toLocaleString()}px）
+          {!fitsInFrame && <span className="ml-1 text-amber-700">画面に収まりません</span>}
+        </div>
+        <div>
+          見かけの高さ {framing.towerAngle.toFixed(2)}°・縦の画角 {framing.verticalFov.toFixed(1)}°
+        </div>
+        <div>
+          太陽の直径: 塔の {formatPercent(framing.sunToTowerRatio)}（約 {framing.sunDiscPixels}px）・
+          月の直径: 塔の {formatPercent(framing.moonToTowerRatio)}（約 {framing.moonDiscPixels}px）
+        </div>
+        <div className="flex items-center gap-1">
+          塔を画面の
+          <select
+            value={targetFraction}
+            onChange={(e) => setTargetFraction(Number(e.target.value))}
+            aria-label="塔が占める画面の高さの割合"
+            className="px-1 py-0.5 border border-gray-300 rounded"
+          >
+            {TARGET_FRACTIONS.map((fraction) => (
+              <option key={fraction} value={fraction}>
+                {formatPercent(fraction)}
+              </option>
+            ))}
+          </select>
+          にする焦点距離: <span className="font-semibold">{framing.focalLengthForTarget}mm</span>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+FramingSummary.displayName = "FramingSummary";
+
+export default FramingSummary;
@@ -11,6 +11,7 @@ const Layout: React.FC = () => {
     { path: "/", label: "ホーム", icon: "home" as const },
     { path: "/map-search", label: "地図検索", icon: "search" as const },
     { path: "/favorites", label: "お気に入り", icon: "star" as const },
+    { path: "/location-request", label: "地点を提案", icon: "mapPin" as const },
     { path: "/admin", label: "管理", icon: "settings" as const },
   ];
 
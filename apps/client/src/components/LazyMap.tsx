@@ -13,6 +13,8 @@ interface LazyMapProps {
   onLocationSelect: (locationId: number) => void;
   onEventSelect: (eventId: string) => void;
   cameraSettings?: CameraSettings;
+  showLocationsInView?: boolean;
+  viewportFallbackLocations?: Location[];
 }
 
 // Optimized loading fallback for map
@@ -32,7 +34,9 @@ const LazyMap: React.FC<LazyMapProps> = ({
   selectedEventId,
   onLocationSelect,
   onEventSelect: _onEventSelect,
-  cameraSettings
+  cameraSettings,
+  showLocationsInView,
+  viewportFallbackLocations
 }) => {
   // Convert onLocationSelect callback to match SimpleMap interface
   const handleLocationSelect = (location: Location) => {
@@ -53,6 +57,8 @@ const LazyMap: React.FC<LazyMapProps> = ({
         selectedEventId={selectedEventId}
         onLocationSelect={handleLocationSelect}
         onEventSelect={handleEventSelect}
+        showLocationsInView={showLocationsInView}
+        viewportFallbackLocations={viewportFallbackLocations}
         cameraSettings={cameraSettings || {
           showAngles: false,
           focalLength: 50,
@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from "react";
+import type { LocationPhoto, LocationPhotoCategory } from "@skytree-photo-planner/types";
+import { Icon } from "@skytree-photo-planner/ui";
+import { apiClient } from "../services/apiClient";
+
+interface LocationPhotoGalleryProps {
+  locationId: number;
+}
+
+export const PHOTO_CATEGORY_LABELS: Record<LocationPhotoCategory, string> = {
+  skytree_view: "スカイツリー方向の眺め",
+  parking: "駐車場",
+  sample_shot: "過去の作例",
+};
+
+const CATEGORY_ORDER: LocationPhotoCategory[] = ["skytree_view", "parking", "sample_shot"];
+
+const formatTakenAt = (time: Date) =>
+  time.toLocaleString("ja-JP", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Asia/Tokyo",
+  });
+
+/**
+ * 撮影地点の参考写真（種類ごとのサムネイル一覧と拡大表示）
+ * 写真が登録されていない地点では何も表示しない
+ */
+const LocationPhotoGallery: React.FC<LocationPhotoGalleryProps> = ({ locationId }) => {
+  const [photos, setPhotos] = useState<LocationPhoto[]>([]);
+  const [category, setCategory] = useState<LocationPhotoCategory | "all">("all");
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    apiClient.getLocationPhotos(locationId).then((result) => {
+      if (!cancelled) {
+        setPhotos(result || []);
+        setCategory("all");
+        setOpenIndex(null);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [locationId]);
+
+  const visiblePhotos =
+    category === "all" ? photos : photos.filter((photo) => photo.category === category);
+  const openPhoto = openIndex !== null ? visiblePhotos[openIndex] : undefined;
+
+  // 拡大表示中は Esc で閉じ、左右キーで前後の写真に移る
+  useEffect(() => {
+    if (openIndex === null) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpenIndex(null);
+      if (e.key === "ArrowLeft") setOpenIndex(Math.max(0, openIndex - 1));
+      if (e.key === "ArrowRight") setOpenIndex(Math.min(visiblePhotos.length - 1, openIndex + 1));
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [openIndex, visiblePhotos.length]);
+
+  if (photos.length === 0) {
+    return null;
+  }
+
+  const categories = CATEGORY_ORDER.filter((value) =>
+    photos.some((photo) => photo.category === value),
+  );
+
+  return (
+    <div className={"bg-white rounded-lg shadow-sm border border-gray-200 p-6"}>
+      <h2 className={"text-lg font-semibold text-gray-900 mb-4 flex items-center"}>
+        <Icon name="camera" size={18} className="inline mr-2" />{" "}
+        参考写真
+      </h2>
+
+      {categories.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {(["all", ...categories] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => {
+                setCategory(value);
+                setOpenIndex(null);
+              }}
+              className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                category === value
+                  ? "bg-blue-600 text-white border-blue-600"
+                  : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+              }`}
+            >
+              {value === "all" ? "すべて" : PHOTO_CATEGORY_LABELS[value]}
+              <span className="ml-1 opacity-75">
+                {value === "all"
+                  ? photos.length
+                  : photos.filter((photo) => photo.category === value).length}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {visiblePhotos.map((photo, index) => (
+          <button
+            key={photo.id}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className="group text-left"
+          >
+            <div className="aspect-square overflow-hidden rounded-md bg-gray-100">
+              <img
+                src={photo.thumbnailUrl}
+                alt={photo.caption || PHOTO_CATEGORY_LABELS[photo.category]}
+                loading="lazy"
+                className="w-full h-full object-cover group-hover:opacity-90 transition-opacity"
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-600 truncate">
+              {photo.caption || PHOTO_CATEGORY_LABELS[photo.category]}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {openPhoto && openIndex !== null && (
+        <div
+          className="fixed inset-0 z-50 bg-black bg-opacity-80 flex items-center justify-center p-4"
+          onClick={() => setOpenIndex(null)}
+        >
+          <div className="relative max-w-5xl w-full" onClick={(e) => e.stopPropagation()}>
+            <img
+              src={openPhoto.url}
+              alt={openPhoto.caption || PHOTO_CATEGORY_LABELS[openPhoto.category]}
+              className="max-h-[80vh] w-auto mx-auto rounded"
+            />
+            <div className="mt-3 text-sm text-white space-y-1">
+              <p className="font-medium">
+                {PHOTO_CATEGORY_LABELS[openPhoto.category]}
+                {openPhoto.caption && `：${openPhoto.caption}`}
+              </p>
+              <p className="text-gray-300">
+                {openPhoto.takenAt && `撮影日時 ${formatTakenAt(openPhoto.takenAt)}`}
+                {openPhoto.takenAt && openPhoto.gpsLatitude !== null && "　"}
+                {openPhoto.gpsLatitude !== null &&
+                  openPhoto.gpsLongitude !== null &&
+                  `撮影位置 ${openPhoto.gpsLatitude.toFixed(5)}, ${openPhoto.gpsLongitude.toFixed(5)}`}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setOpenIndex(null)}
+              className="absolute top-2 right-2 p-1 rounded-full bg-black bg-opacity-50 text-white hover:bg-opacity-75"
+              aria-label="閉じる"
+            >
+              <Icon name="close" size={20} />
+            </button>
+            {openIndex > 0 && (
+              <button
+                type="button"
+                onClick={() => setOpenIndex(openIndex - 1)}
+                className="absolute left-2 top-1/2 -translate-y-1/2 p-1 rounded-full bg-black bg-opacity-50 text-white hover:bg-opacity-75"
+                aria-label="前の写真"
+              >
+                <Icon name="chevronLeft" size={24} />
+              </button>
+            )}
+            {openIndex < visiblePhotos.length - 1 && (
+              <button
+                type="button"
+                onClick={() => setOpenIndex(openIndex + 1)}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-full bg-black bg-opacity-50 text-white hover:bg-opacity-75"
+                aria-label="次の写真"
+              >
+                <Icon name="chevronRight" size={24} />
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationPhotoGallery;
@@ -0,0 +1,145 @@
+import React, { memo, useMemo, useState } from "react";
+import type { MapComparison, MapComparisonCell } from "@skytree-photo-planner/types";
+import { Icon } from "@skytree-photo-planner/ui";
+
+interface MapComparisonTableProps {
+  comparison: MapComparison;
+}
+
+// 並び順（日付順、または地点の最良イベントの品質スコアの高い順）
+type SortKey = { by: "date" } | { by: "point"; pointId: string };
+
+// 品質スコアの色分け
+const getQualityScoreClass = (score: number): string => {
+  if (score >= 80) return "bg-green-100 text-green-800";
+  if (score >= 60) return "bg-lime-100 text-lime-800";
+  if (score >= 40) return "bg-amber-100 text-amber-800";
+  return "bg-gray-100 text-gray-700";
+};
+
+const formatTime = (time: Date) =>
+  time.toLocaleTimeString("ja-JP", {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Asia/Tokyo",
+  });
+
+const formatDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const weekday = ["日", "月", "火", "水", "木", "金", "土"][
+    new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  ];
+  return `${year}/${month}/${day}（${weekday}）`;
+};
+
+const ComparisonCell: React.FC<{ cell: MapComparisonCell }> = ({ cell }) => {
+  if (!cell.bestEvent) {
+    return <span className="text-gray-300">-</span>;
+  }
+  const { bestEvent } = cell;
+  const isRising = bestEvent.subType === "sunrise" || bestEvent.subType === "rising";
+
+  return (
+    <div
+      className={`inline-flex flex-col items-center rounded px-2 py-1 ${getQualityScoreClass(bestEvent.qualityScore ?? 0)}`}
+    >
+      <span className="flex items-center gap-1 font-semibold">
+        <Icon name={bestEvent.type === "diamond" ? "sun" : "moon"} size={12} />
+        {bestEvent.qualityScore ?? "-"}
+      </span>
+      <span className="text-xs">
+        {isRising ? "昇る" : "沈む"} {formatTime(bestEvent.time)}
+        {cell.eventCount > 1 && `（他 ${cell.eventCount - 1} 件）`}
+      </span>
+    </div>
+  );
+};
+
+/**
+ * 複数地点の比較検索の結果を日付 × 地点の表で表示する
+ * 各セルはその日の最良イベント（品質スコアで色分け）、列見出しのクリックで並び替える
+ */
+const MapComparisonTable: React.FC<MapComparisonTableProps> = memo(({ comparison }) => {
+  const [sortKey, setSortKey] = useState<SortKey>({ by: "date" });
+
+  const sortedRows = useMemo(() => {
+    if (sortKey.by === "date") {
+      return comparison.rows;
+    }
+    const index = comparison.points.findIndex((point) => point.id === sortKey.pointId);
+    const score = (row: (typeof comparison.rows)[number]) =>
+      row.cells[index]?.bestEvent?.qualityScore ?? -1;
+    // 同じスコアの場合は日付順
+    return [...comparison.rows].sort((a, b) => score(b) - score(a));
+  }, [comparison, sortKey]);
+
+  if (comparison.rows.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-600">
+        比較したいずれの地点でもイベントが見つかりませんでした。
+      </div>
+    );
+  }
+
+  const headerClass = (active: boolean) =>
+    `px-3 py-2 font-medium cursor-pointer select-none hover:bg-gray-100 ${
+      active ? "text-blue-700" : "text-gray-700"
+    }`;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-50 border-b">
+          <tr>
+            <th
+              className={`${headerClass(sortKey.by === "date")} text-left`}
+              onClick={() => setSortKey({ by: "date" })}
+            >
+              日付{sortKey.by === "date" && " ▲"}
+            </th>
+            {comparison.points.map((point) => {
+              const active = sortKey.by === "point" && sortKey.pointId === point.id;
+              return (
+                <th
+                  key={point.id}
+                  className={`${headerClass(active)} text-center`}
+                  onClick={() => setSortKey({ by: "point", pointId: point.id })}
+                  title="品質スコアの高い順に並べる"
+                >
+                  {point.label}
+                  {active && " ▼"}
+                </th>
+              );
+            })}
+          </tr>
+          <tr className="text-xs text-gray-500">
+            <td className="px-3 pb-2">集計</td>
+            {comparison.summaries.map((summary) => (
+              <td key={summary.pointId} className="px-3 pb-2 text-center">
+                {summary.eventDays} 日
+                {summary.averageQualityScore !== undefined &&
+                  ` / 平均 ${summary.averageQualityScore} / 最高 ${summary.bestQualityScore}`}
+              </td>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {sortedRows.map((row) => (
+            <tr key={row.date}>
+              <td className="px-3 py-2 whitespace-nowrap text-gray-900">{formatDate(row.date)}</td>
+              {row.cells.map((cell) => (
+                <td key={cell.pointId} className="px-3 py-2 text-center">
+                  <ComparisonCell cell={cell} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+});
+
+MapComparisonTable.displayName = "MapComparisonTable";
+
+export default MapComparisonTable;
@@ -165,7 +165,7 @@ const MapSearchPanel: React.FC<MapSearchPanelProps> = ({
       case "balanced":
         return "中精度・中速（期間制限なし）";
       case "precise":
-        return "高精度・低速（3 ヶ月限定）";
+        return "高精度（期間制限なし）";
       default:
         return "";
     }
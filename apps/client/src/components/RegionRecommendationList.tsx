@@ -0,0 +1,104 @@
+import React, { memo } from "react";
+import type { RegionCandidate, RegionRecommendation } from "@skytree-photo-planner/types";
+import { Icon } from "@skytree-photo-planner/ui";
+
+interface RegionRecommendationListProps {
+  recommendation: RegionRecommendation;
+  onSelect: (candidate: RegionCandidate) => void;
+  limit?: number;
+}
+
+/**
+ * 総合スコアのヒートマップ色（範囲内の最低スコアを青、最高スコアを赤とする）
+ * 地図上の格子の塗り分けと一覧で共通
+ */
+export const getHeatColor = (score: number, min: number, max: number): string => {
+  const ratio = max > min ? (score - min) / (max - min) : 1;
+  return `hsl(${Math.round((1 - ratio) * 240)}, 85%, 50%)`;
+};
+
+const formatTime = (time: Date) =>
+  time.toLocaleString("ja-JP", {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Asia/Tokyo",
+  });
+
+/**
+ * 描いた範囲内のおすすめ地点を総合スコアの高い順に表示する
+ */
+const RegionRecommendationList: React.FC<RegionRecommendationListProps> = memo(
+  ({ recommendation, onSelect, limit = 10 }) => {
+    const { candidates } = recommendation;
+    if (candidates.length === 0) {
+      return (
+        <div className="text-center py-8 text-gray-600">
+          範囲内に検索できる地点がありませんでした。
+        </div>
+      );
+    }
+
+    const scores = candidates.map((candidate) => candidate.score);
+    const minScore = Math.min(...scores);
+    const maxScore = Math.max(...scores);
+
+    return (
+      <div className="space-y-2">
+        {candidates.slice(0, limit).map((candidate) => (
+          <div
+            key={`${candidate.latitude},${candidate.longitude}`}
+            className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg"
+          >
+            <span
+              className="w-8 h-8 rounded-full text-white text-sm font-bold flex items-center justify-center flex-shrink-0"
+              style={{ backgroundColor: getHeatColor(candidate.score, minScore, maxScore) }}
+            >
+              {candidate.rank}
+            </span>
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="font-medium text-gray-900">
+                スコア {candidate.score}
+                <span className="ml-2 text-xs text-gray-500">
+                  {candidate.latitude.toFixed(5)}, {candidate.longitude.toFixed(5)}
+                </span>
+              </div>
+              <div className="text-xs text-gray-600 flex flex-wrap gap-x-3">
+                <span>
+                  イベント {candidate.eventCount} 件（{candidate.eventDays} 日）
+                </span>
+                {candidate.averageQualityScore !== undefined && (
+                  <span>平均品質 {candidate.averageQualityScore}</span>
+                )}
+                <span>スカイツリーまで {(candidate.distance / 1000).toFixed(1)}km</span>
+                <span>見かけの高さ {candidate.apparentHeight.toFixed(1)}°</span>
+              </div>
+              {candidate.bestEvent && (
+                <div className="text-xs text-gray-500 flex items-center gap-1 mt-0.5">
+                  <Icon name={candidate.bestEvent.type === "diamond" ? "sun" : "moon"} size={12} />
+                  最良 {formatTime(candidate.bestEvent.time)}（品質 {candidate.bestEvent.qualityScore ?? "-"}）
+                </div>
+              )}
+            </div>
+            <button
+              onClick={() => onSelect(candidate)}
+              className="px-3 py-1.5 text-xs text-blue-700 border border-blue-200 rounded hover:bg-blue-50 flex-shrink-0"
+            >
+              この地点を選択
+            </button>
+          </div>
+        ))}
+        {candidates.length > limit && (
+          <p className="text-xs text-gray-500 text-center">
+            上位 {limit} 件を表示しています（全 {candidates.length} 地点、格子の間隔 約{recommendation.gridSpacing}m）
+          </p>
+        )}
+      </div>
+    );
+  },
+);
+
+RegionRecommendationList.displayName = "RegionRecommendationList";
+
+export default RegionRecommendationList;
@@ -0,0 +1,175 @@
+import React, { memo, useState } from "react";
+import type { FavoriteShootPlan, FujiEvent } from "@skytree-photo-planner/types";
+import { timeUtils } from "@skytree-photo-planner/utils";
+import { apiClient } from "../services/apiClient";
+import { useFavorites } from "../hooks/useFavorites";
+import { useToastContext } from "../contexts/ToastContext";
+import ShootPlanSheet from "./ShootPlanSheet";
+
+interface ShootPlanBuilderProps {
+  event: FujiEvent;
+}
+
+const DEFAULT_TRAVEL_MINUTES = 60;
+const DEFAULT_SETUP_MINUTES = 30;
+
+/**
+ * イベントの撮影計画を作るフォーム
+ * 移動時間・設営時間を入力すると、イベントの時刻から出発時刻などを逆算した工程表を表示し、
+ * 名前を付けてお気に入りと一緒に保存できる
+ */
+const ShootPlanBuilder: React.FC<ShootPlanBuilderProps> = memo(({ event }) => {
+  const { saveShootPlan } = useFavorites();
+  const toast = useToastContext();
+  const [travelMinutes, setTravelMinutes] = useState(DEFAULT_TRAVEL_MINUTES);
+  const [setupMinutes, setSetupMinutes] = useState(DEFAULT_SETUP_MINUTES);
+  const [plan, setPlan] = useState<FavoriteShootPlan | null>(null);
+  const [name, setName] = useState(
+    () => `${timeUtils.formatDateString(event.time)} ${event.location.name}`,
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleBuild = async () => {
+    setLoading(true);
+    setError(null);
+    const result = await apiClient.getShootPlan(event.location.id, {
+      eventTime: event.time,
+      window: event.contactWindow
+        ? { start: event.contactWindow.firstContact, end: event.contactWindow.lastContact }
+        : undefined,
+      travelMinutes,
+      setupMinutes,
+    });
+    setLoading(false);
+
+    if (!result) {
+      setPlan(null);
+      setError("撮影計画を作成できませんでした");
+      return;
+    }
+
+    setPlan({
+      id: `draft-${event.id}`,
+      name,
+      event: {
+        id: event.id,
+        type: event.type,
+        subType: event.subType,
+        time: event.time.toISOString(),
+        locationId: event.location.id,
+        locationName: event.location.name,
+        locationLatitude: event.location.latitude,
+        locationLongitude: event.location.longitude,
+        azimuth: event.azimuth,
+        elevation: event.elevation || 0,
+      },
+      accessInfo: event.location.accessInfo,
+      parkingInfo: event.location.parkingInfo,
+      travelMinutes: result.travelMinutes,
+      setupMinutes: result.setupMinutes,
+      steps: result.steps.map((step) => ({ ...step, time: step.time.toISOString() })),
+      createdAt: new Date().toISOString(),
+    });
+  };
+
+  const handleSave = () => {
+    if (!plan) return;
+    const saved = saveShootPlan({
+      name: name.trim() || plan.name,
+      event: plan.event,
+      accessInfo: plan.accessInfo,
+      parkingInfo: plan.parkingInfo,
+      travelMinutes: plan.travelMinutes,
+      setupMinutes: plan.setupMinutes,
+      steps: plan.steps,
+    });
+    if (saved) {
+      setPlan(saved);
+      toast.success("撮影計画を保存しました", {
+        message: "お気に入りページの「撮影計画」から確認できます",
+        duration: 3000,
+      });
+    } else {
+      toast.error("撮影計画を保存できませんでした", {
+        message: "ブラウザの保存容量を確認してください",
+      });
+    }
+  };
+
+  const isSaved = plan !== null && !plan.id.startsWith("draft-");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-3 text-xs">
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-500">移動時間（分）</span>
+          <input
+            type="number"
+            min={0}
+            max={24 * 60}
+            step={5}
+            value={travelMinutes}
+            onChange={(e) => setTravelMinutes(Math.max(0, Number(e.target.value) || 0))}
+            className="w-24 px-2 py-1 border border-gray-300 rounded"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-500">設営時間（分）</span>
+          <input
+            type="number"
+            min={0}
+            max={6 * 60}
+            step={5}
+            value={setupMinutes}
+            onChange={(e) => setSetupMinutes(Math.max(0, Number(e.target.value) || 0))}
+            className="w-24 px-2 py-1 border border-gray-300 rounded"
+          />
+        </label>
+        <button
+          className="px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          onClick={handleBuild}
+          disabled={loading}
+        >
+          {loading ? "計算中..." : plan ? "再計算" : "計画を作成"}
+        </button>
+      </div>
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      {plan && (
+        <>
+          <ShootPlanSheet
+            plan={plan}
+            actions={
+              isSaved ? (
+                <span className="px-2 py-1 text-xs text-green-700">保存済み</span>
+              ) : null
+            }
+          />
+          {!isSaved && (
+            <div className="flex items-center gap-2 text-xs">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="計画の名前"
+                className="flex-1 px-2 py-1 border border-gray-300 rounded"
+              />
+              <button
+                className="px-3 py-1.5 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 border border-gray-200"
+                onClick={handleSave}
+              >
+                名前を付けて保存
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+});
+
+ShootPlanBuilder.displayName = "ShootPlanBuilder";
+
+export default ShootPlanBuilder;
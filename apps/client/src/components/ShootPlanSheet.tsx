@@ -0,0 +1,127 @@
+import React, { memo, useRef } from "react";
+import type { FavoriteShootPlan } from "@skytree-photo-planner/types";
+import { Icon } from "@skytree-photo-planner/ui";
+import { useFavorites } from "../hooks/useFavorites";
+import {
+  SHOOT_PLAN_STEP_LABELS,
+  formatPlanTime,
+  formatSkyPosition,
+} from "../utils/shootPlan";
+
+interface ShootPlanSheetProps {
+  plan: FavoriteShootPlan;
+  actions?: React.ReactNode; // 保存・削除など、印刷・書き出し以外の操作
+}
+
+// 撮影の中心になる工程（強調表示する）
+const HIGHLIGHT_STEPS = new Set(["departure", "alignment"]);
+
+/**
+ * 撮影計画の工程表（時刻・工程・太陽と月の位置）
+ * 印刷時はこの表だけを印刷する（index.css の .print-target）
+ */
+const ShootPlanSheet: React.FC<ShootPlanSheetProps> = memo(({ plan, actions }) => {
+  const { exportShootPlanAsIcs } = useFavorites();
+  const sheetRef = useRef<HTMLDivElement>(null);
+
+  const handlePrint = () => {
+    const sheet = sheetRef.current;
+    if (!sheet) return;
+    sheet.classList.add("print-target");
+    document.body.classList.add("printing-plan");
+    window.addEventListener(
+      "afterprint",
+      () => {
+        sheet.classList.remove("print-target");
+        document.body.classList.remove("printing-plan");
+      },
+      { once: true },
+    );
+    window.print();
+  };
+
+  const eventDate = new Date(plan.event.time).toLocaleDateString("ja-JP", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    weekday: "short",
+    timeZone: "Asia/Tokyo",
+  });
+
+  return (
+    <div ref={sheetRef} className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-semibold text-gray-900">{plan.name}</div>
+          <div className="text-xs text-gray-600">
+            {eventDate} {plan.event.locationName}・移動 {plan.travelMinutes}分・設営{" "}
+            {plan.setupMinutes}分
+          </div>
+        </div>
+        <div className="flex gap-1 flex-shrink-0 print:hidden">
+          <button
+            className="px-2 py-1 text-xs rounded bg-gray-50 text-gray-600 hover:bg-gray-100 border border-gray-200"
+            onClick={handlePrint}
+            title="工程表を印刷"
+          >
+            印刷
+          </button>
+          <button
+            className="px-2 py-1 text-xs rounded bg-gray-50 text-gray-600 hover:bg-gray-100 border border-gray-200"
+            onClick={() => exportShootPlanAsIcs(plan)}
+            title="カレンダーアプリ用（.ics）に書き出す"
+          >
+            <Icon name="download" size={12} className="inline mr-1" />
+            .ics
+          </button>
+          {actions}
+        </div>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            <th className="py-1 pr-2 font-medium">時刻</th>
+            <th className="py-1 pr-2 font-medium">工程</th>
+            <th className="py-1 pr-2 font-medium">太陽</th>
+            <th className="py-1 font-medium">月</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.steps.map((step) => (
+            <tr
+              key={step.type}
+              className={`border-b border-gray-100 last:border-b-0 ${HIGHLIGHT_STEPS.has(step.type) ? "font-semibold text-gray-900" : "text-gray-700"}`}
+            >
+              <td className="py-1 pr-2 whitespace-nowrap">{formatPlanTime(step.time)}</td>
+              <td className="py-1 pr-2">{SHOOT_PLAN_STEP_LABELS[step.type]}</td>
+              <td className="py-1 pr-2 whitespace-nowrap">{formatSkyPosition(step.sun)}</td>
+              <td className="py-1 whitespace-nowrap">{formatSkyPosition(step.moon)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {(plan.accessInfo || plan.parkingInfo) && (
+        <div className="text-xs text-gray-700 space-y-1">
+          {plan.accessInfo && (
+            <div>
+              <span className="text-gray-500">アクセス: </span>
+              {plan.accessInfo}
+            </div>
+          )}
+          {plan.parkingInfo && (
+            <div>
+              <span className="text-gray-500">駐車場: </span>
+              {plan.parkingInfo}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+ShootPlanSheet.displayName = "ShootPlanSheet";
+
+export default ShootPlanSheet;
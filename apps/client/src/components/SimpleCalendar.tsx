@@ -1,7 +1,13 @@
 import React, { useMemo } from "react";
-import { CalendarEvent } from "@skytree-photo-planner/types";
+import { CalendarEvent, SpecialEventType } from "@skytree-photo-planner/types";
 import { Icon } from "@skytree-photo-planner/ui";
 
+const SPECIAL_EVENT_LABELS: Record<SpecialEventType, string> = {
+  solar_eclipse: "日食",
+  lunar_eclipse: "月食",
+  supermoon: "スーパームーン",
+};
+
 interface SimpleCalendarProps {
   year: number;
   month: number;
@@ -107,11 +113,21 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({
       (event) => event.type === "pearl",
     ).length;
 
+    // その日に最大となる日食・月食・スーパームーン
+    const specialEventTypes = Array.from(
+      new Set(
+        dayCalendarEvents.flatMap((calendarEvent) =>
+          (calendarEvent.specialEvents ?? []).map((specialEvent) => specialEvent.type),
+        ),
+      ),
+    );
+
     return {
       total: allFujiEvents.length,
       diamond: diamondCount,
       pearl: pearlCount,
       events: allFujiEvents,
+      specialEventTypes,
     };
   };
 
@@ -247,6 +263,17 @@ const SimpleCalendar: React.FC<SimpleCalendarProps> = ({
                         月齢{moonAge.toFixed(1)}
                       </div>
                     )}
+                    {/* 日食・月食・スーパームーン表示 */}
+                    {eventDetails.specialEventTypes.length > 0 && (
+                      <div
+                        className="text-xs font-semibold text-purple-700"
+                        style={{ fontSize: "10px", lineHeight: 1 }}
+                      >
+                        {eventDetails.specialEventTypes
+                          .map((type) => SPECIAL_EVENT_LABELS[type])
+                          .join("・")}
+                      </div>
+                    )}
                   </div>
                 );
               })()}
@@ -1,9 +1,14 @@
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 
 import { Location, FujiEvent, SKYTREE_COORDINATES } from "@skytree-photo-planner/types";
 import { CameraSettings } from "./CameraPanel";
+import { calculateFieldOfView } from "../utils/fieldOfView";
+import { apiClient } from "../services/apiClient";
+
+// 地図の移動が止まってから表示範囲内の地点を読み込むまでの待ち時間（ミリ秒）
+const VIEWPORT_FETCH_DELAY = 300;
 
 // Leaflet のアイコン設定を修正
 delete (L.Icon.Default.prototype as unknown as { _getIconUrl: unknown })
@@ -15,51 +20,6 @@ L.Icon.Default.mergeOptions({
   shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
 });
 
-// 画角計算ヘルパー関数
-const getFieldOfViewAngle = (
-  focalLength: number,
-  sensorType: string,
-  aspectRatio: string = "3:2",
-  orientation: string = "landscape",
-): number => {
-  const sensorDimensions = {
-    fullframe: { width: 36, height: 24 }, // mm
-    apsc: { width: 23.5, height: 15.6 }, // mm (Canon APS-C)
-    micro43: { width: 17.3, height: 13 }, // mm
-  };
-
-  const sensor =
-    sensorDimensions[sensorType as keyof typeof sensorDimensions] ||
-    sensorDimensions.fullframe;
-
-  const aspectRatios = {
-    "3:2": 3 / 2,
-    "4:3": 4 / 3,
-    "16:9": 16 / 9,
-    "1:1": 1 / 1,
-  };
-
-  const ratio =
-    aspectRatios[aspectRatio as keyof typeof aspectRatios] ||
-    aspectRatios["3:2"];
-
-  let actualWidth = sensor.width;
-  let actualHeight = sensor.height;
-
-  if (ratio > sensor.width / sensor.height) {
-    actualHeight = sensor.width / ratio;
-  } else {
-    actualWidth = sensor.height * ratio;
-  }
-
-  // 撮影向きに応じて水平画角を計算（地図表示用）
-  if (orientation === "portrait") {
-    [actualWidth, actualHeight] = [actualHeight, actualWidth];
-  }
-
-  return 2 * Math.atan(actualWidth / (2 * focalLength)) * (180 / Math.PI);
-};
-
 // 指定した方位角と距離の地点を計算
 const getPointAtDistance = (
   lat: number,
@@ -154,6 +114,8 @@ interface SimpleMapProps {
   onEventSelect?: (eventId: string) => void;
   cameraSettings: CameraSettings;
   mapStyle?: React.CSSProperties;
+  showLocationsInView?: boolean; // 表示範囲内の撮影地点を地図の移動に合わせて読み込んで表示する
+  viewportFallbackLocations?: Location[]; // 表示範囲内の撮影地点を読み込めなかった場合に範囲内を表示する撮影地点
 }
 
 const SimpleMap: React.FC<SimpleMapProps> = ({
@@ -165,11 +127,18 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
   onEventSelect,
   cameraSettings,
   mapStyle,
+  showLocationsInView = false,
+  viewportFallbackLocations,
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markersLayerRef = useRef<L.LayerGroup | null>(null);
   const linesLayerRef = useRef<L.LayerGroup | null>(null);
+  const viewportLayerRef = useRef<L.LayerGroup | null>(null);
+  const [viewportLocations, setViewportLocations] = useState<Location[]>([]);
+  // 地図の移動のたびに読み込み直さないよう、読み込み失敗時の代替は参照で持つ
+  const viewportFallbackRef = useRef(viewportFallbackLocations);
+  viewportFallbackRef.current = viewportFallbackLocations;
 
   // 地図の初期化
   useEffect(() => {
@@ -183,14 +152,19 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
     }).addTo(map);
 
     // レイヤーグループを作成
+    const viewportLayer = L.layerGroup().addTo(map);
     const markersLayer = L.layerGroup().addTo(map);
     const linesLayer = L.layerGroup().addTo(map);
     
+    viewportLayerRef.current = viewportLayer;
     markersLayerRef.current = markersLayer;
     linesLayerRef.current = linesLayer;
     mapInstanceRef.current = map;
 
     return () => {
+      if (viewportLayerRef.current) {
+        viewportLayerRef.current = null;
+      }
       if (markersLayerRef.current) {
         markersLayerRef.current = null;
       }
@@ -424,12 +398,8 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
 
         // 画角表示
         if (cameraSettings.showAngles && location.azimuthToSkytree) {
-          const angle = getFieldOfViewAngle(
-            cameraSettings.focalLength,
-            cameraSettings.sensorType,
-            cameraSettings.aspectRatio,
-            cameraSettings.orientation,
-          );
+          // 撮影向きに応じた水平画角（地図表示用）
+          const angle = calculateFieldOfView(cameraSettings).horizontal;
           const distance = location.distanceToSkytree
             ? location.distanceToSkytree
             : 50000; // meters (既にメートル単位)
@@ -544,10 +514,87 @@ const SimpleMap: React.FC<SimpleMapProps> = ({
     cameraSettings.showAngles,
     cameraSettings.focalLength,
     cameraSettings.sensorType,
+    cameraSettings.sensorSize,
     cameraSettings.aspectRatio,
     cameraSettings.orientation,
   ]);
 
+  // 表示範囲内の撮影地点を読み込む（地図の移動・ズームのたびに範囲検索）
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !showLocationsInView) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let requestId = 0;
+
+    const fetchLocationsInView = () => {
+      clearTimeout(timer);
+      timer = setTimeout(async () => {
+        const currentRequest = ++requestId;
+        const bounds = map.getBounds();
+        const result = await apiClient.searchLocations({
+          bounds: {
+            south: bounds.getSouth(),
+            west: bounds.getWest(),
+            north: bounds.getNorth(),
+            east: bounds.getEast(),
+          },
+        });
+        // 古いリクエストの結果は捨てる
+        if (currentRequest !== requestId) return;
+        if (result) {
+          setViewportLocations(result);
+        } else if (viewportFallbackRef.current) {
+          // 範囲検索に失敗した場合は手元の撮影地点から範囲内のものを表示する
+          setViewportLocations(
+            viewportFallbackRef.current.filter((location) =>
+              bounds.contains([location.latitude, location.longitude]),
+            ),
+          );
+        }
+      }, VIEWPORT_FETCH_DELAY);
+    };
+
+    fetchLocationsInView();
+    map.on("moveend", fetchLocationsInView);
+
+    return () => {
+      clearTimeout(timer);
+      requestId++;
+      map.off("moveend", fetchLocationsInView);
+    };
+  }, [showLocationsInView]);
+
+  // 表示範囲内の撮影地点のマーカー（イベントがある地点・指定された地点は上のマーカーで表示済み）
+  useEffect(() => {
+    const viewportLayer = viewportLayerRef.current;
+    if (!viewportLayer) return;
+
+    viewportLayer.clearLayers();
+    if (!showLocationsInView) return;
+
+    const shownIds = new Set([
+      ...(selectedEvents?.map((event) => event.location?.id) || []),
+      ...locations.map((location) => location.id),
+    ]);
+
+    viewportLocations
+      .filter((location) => !shownIds.has(location.id))
+      .forEach((location) => {
+        const marker = L.circleMarker([location.latitude, location.longitude], {
+          radius: 6,
+          color: "white",
+          weight: 2,
+          fillColor: "#9ca3af",
+          fillOpacity: 0.8,
+        }).bindTooltip(location.name);
+        if (onLocationSelect) {
+          marker.on("click", () => onLocationSelect(location));
+        }
+        viewportLayer.addLayer(marker);
+      });
+  }, [showLocationsInView, viewportLocations, locations, selectedEvents, onLocationSelect]);
+
   return (
     <div
       style={{
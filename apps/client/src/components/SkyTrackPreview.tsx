@@ -0,0 +1,165 @@
+import React, { memo, useState, useEffect } from "react";
+import type { FujiEvent, SkyTrack } from "@skytree-photo-planner/types";
+import { apiClient } from "../services/apiClient";
+import { calculateFieldOfView } from "../utils/fieldOfView";
+import { CameraSettings } from "./CameraPanel";
+
+interface SkyTrackPreviewProps {
+  event: FujiEvent;
+  cameraSettings: CameraSettings;
+}
+
+const SKYTREE_HEIGHT = 634; // m
+const PREVIEW_WIDTH = 320; // px
+const LABEL_STEP_MINUTES = 5;
+
+// 塔のシルエット（地上高 m と片側の幅 m の組）。第一・第二展望台の張り出しを含む概形
+const TOWER_OUTLINE: ReadonlyArray<[number, number]> = [
+  [0, 34],
+  [340, 17],
+  [345, 21],
+  [360, 21],
+  [365, 16],
+  [445, 14],
+  [450, 16],
+  [455, 16],
+  [460, 13],
+  [497, 7],
+  [634, 1.5],
+];
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * 整列時刻の前後 15 分の太陽・月の軌跡を、観測地点から見たスカイツリーのシルエットに重ねて描画する
+ * 塔の大きさは distanceToSkytree と elevationToSkytree から、描画範囲はカメラ設定の画角から決める
+ */
+const SkyTrackPreview: React.FC<SkyTrackPreviewProps> = memo(({ event, cameraSettings }) => {
+  const [track, setTrack] = useState<SkyTrack | null>(null);
+  const [loading, setLoading] = useState(true);
+  const body = event.type === "diamond" ? "sun" : "moon";
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    apiClient.getSkyTrack(event.location.id, body, event.time).then((result) => {
+      if (!cancelled) {
+        setTrack(result);
+        setLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [event.location.id, event.time, body]);
+
+  if (loading) {
+    return <div className="text-xs text-gray-500 py-2">軌跡を計算中...</div>;
+  }
+  if (!track || track.samples.length === 0 || !event.location.distanceToSkytree) {
+    return <div className="text-xs text-gray-500 py-2">軌跡を表示できませんでした</div>;
+  }
+
+  const { location } = event;
+  const distance = location.distanceToSkytree;
+  const fov = calculateFieldOfView(cameraSettings);
+  const width = PREVIEW_WIDTH;
+  const height = Math.round((width * fov.vertical) / fov.horizontal);
+  const scale = width / fov.horizontal; // 1 度あたりのピクセル数
+
+  // 塔の頂部・基部の仰角（頂部は地点の elevationToSkytree、基部は頂部から塔の見かけの高さを引く）
+  const topElevation = location.elevationToSkytree || event.elevation;
+  const baseElevation = topElevation - toDegrees(Math.atan2(SKYTREE_HEIGHT, distance));
+  const towerAzimuth = location.azimuthToSkytree || event.azimuth;
+
+  // 画面中央を整列時刻の天体位置に合わせる
+  const centerSample =
+    track.samples.find((sample) => sample.time.getTime() === track.centerTime.getTime()) ??
+    track.samples[Math.floor(track.samples.length / 2)];
+  const toX = (azimuth: number, elevation: number) => {
+    let diff = azimuth - towerAzimuth;
+    if (diff > 180) diff -= 360;
+    if (diff < -180) diff += 360;
+    return width / 2 + diff * Math.cos(toRadians(elevation)) * scale;
+  };
+  const toY = (elevation: number) => height / 2 - (elevation - centerSample.elevation) * scale;
+  const heightToY = (meters: number) =>
+    toY(baseElevation + ((topElevation - baseElevation) * meters) / SKYTREE_HEIGHT);
+  const widthToPx = (meters: number) => toDegrees(Math.atan2(meters, distance)) * scale;
+
+  const towerPoints = [
+    ...TOWER_OUTLINE.map(([meters, halfWidth]) => `${width / 2 + widthToPx(halfWidth)},${heightToY(meters)}`),
+    ...[...TOWER_OUTLINE].reverse().map(([meters, halfWidth]) => `${width / 2 - widthToPx(halfWidth)},${heightToY(meters)}`),
+  ].join(" ");
+  const trackPoints = track.samples
+    .map((sample) => `${toX(sample.azimuth, sample.elevation)},${toY(sample.elevation)}`)
+    .join(" ");
+  const labelSamples = track.samples.filter((sample) => {
+    const minutes = (sample.time.getTime() - track.centerTime.getTime()) / 60000;
+    return minutes !== 0 && minutes % LABEL_STEP_MINUTES === 0;
+  });
+  const horizonY = toY(0);
+  const discRadius = Math.max(1.5, track.angularRadius * scale);
+  const isDiamond = event.type === "diamond";
+
+  return (
+    <div className="space-y-1">
+      <svg
+        width="100%"
+        viewBox={`0 0 ${width} ${height}`}
+        className="rounded border border-gray-200"
+        role="img"
+        aria-label="天体の軌跡とスカイツリーの重なりのプレビュー"
+      >
+        <rect width={width} height={height} fill={isDiamond ? "#fde7c8" : "#1e293b"} />
+        {horizonY >= 0 && horizonY <= height && (
+          <line
+            x1={0}
+            x2={width}
+            y1={horizonY}
+            y2={horizonY}
+            stroke={isDiamond ? "#9ca3af" : "#64748b"}
+            strokeDasharray="4 3"
+          />
+        )}
+        <polyline
+          points={trackPoints}
+          fill="none"
+          stroke={isDiamond ? "#f97316" : "#93c5fd"}
+          strokeWidth={1}
+          strokeDasharray="2 2"
+        />
+        {labelSamples.map((sample) => {
+          const minutes = Math.round((sample.time.getTime() - track.centerTime.getTime()) / 60000);
+          const x = toX(sample.azimuth, sample.elevation);
+          const y = toY(sample.elevation);
+          return (
+            <g key={sample.time.getTime()}>
+              <circle cx={x} cy={y} r={1.5} fill={isDiamond ? "#f97316" : "#93c5fd"} />
+              <text x={x + 3} y={y - 3} fontSize={8} fill={isDiamond ? "#9a3412" : "#cbd5e1"}>
+                {minutes > 0 ? `+${minutes}` : minutes}分
+              </text>
+            </g>
+          );
+        })}
+        <polygon points={towerPoints} fill={isDiamond ? "#374151" : "#0f172a"} />
+        <circle
+          cx={toX(centerSample.azimuth, centerSample.elevation)}
+          cy={toY(centerSample.elevation)}
+          r={discRadius}
+          fill={isDiamond ? "#fb923c" : "#f8fafc"}
+          fillOpacity={0.85}
+        />
+      </svg>
+      <div className="text-xs text-gray-500">
+        前後 15 分の軌跡 ・ 画角 {fov.horizontal.toFixed(1)}° × {fov.vertical.toFixed(1)}°（
+        {cameraSettings.focalLength}mm）
+      </div>
+    </div>
+  );
+});
+
+SkyTrackPreview.displayName = "SkyTrackPreview";
+
+export default SkyTrackPreview;
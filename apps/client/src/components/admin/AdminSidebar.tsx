@@ -72,12 +72,24 @@ const MENU_ITEMS = [
     label: '撮影地点管理',
     subLabel: '地点の登録・編集・削除',
   },
+  {
+    view: 'location-requests' as AdminView,
+    icon: 'clipboardList' as const,
+    label: '追加リクエスト',
+    subLabel: '利用者からの地点提案の審査',
+  },
   {
     view: 'queue' as AdminView,
     icon: 'queue' as const,
     label: 'キュー管理',
     subLabel: '計算ジョブの監視',
   },
+  {
+    view: 'pearl-rejections' as AdminView,
+    icon: 'moon' as const,
+    label: 'パール除外候補',
+    subLabel: '除外されたイベントと理由',
+  },
   {
     view: 'events' as AdminView,
     icon: 'calendar' as const,
@@ -38,7 +38,7 @@ export const initialFormData: LocationFormData = {
   measurementNotes: '',
 };
 
-const PREFECTURES = [
+export const PREFECTURES = [
   '茨城県',
   '埼玉県',
   '千葉県',
@@ -60,6 +60,9 @@ interface LocationFormModalProps {
   loading: boolean;
   onSubmit: (e: React.FormEvent) => void;
   onFormDataChange: (field: keyof LocationFormData, value: string | number) => void;
+  // 追加リクエストの承認など、新規追加以外で使う場合の表示
+  title?: string;
+  submitLabel?: string;
 }
 
 const LocationFormModal: React.FC<LocationFormModalProps> = ({
@@ -70,6 +73,8 @@ const LocationFormModal: React.FC<LocationFormModalProps> = ({
   loading,
   onSubmit,
   onFormDataChange,
+  title,
+  submitLabel,
 }) => {
   const [showLocationPicker, setShowLocationPicker] = useState(false);
 
@@ -113,7 +118,7 @@ const LocationFormModal: React.FC<LocationFormModalProps> = ({
       <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
         <div className="border-b border-gray-200 px-6 py-4 -m-5 mb-6">
           <h2 className="text-xl font-bold text-gray-900">
-            {editingLocation ? '地点編集' : '新規地点追加'}
+            {title ?? (editingLocation ? '地点編集' : '新規地点追加')}
           </h2>
         </div>
         <div className="px-6">
@@ -364,7 +369,7 @@ const LocationFormModal: React.FC<LocationFormModalProps> = ({
                 disabled={loading}
                 className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
-                {loading ? '保存中...' : editingLocation ? '更新' : '追加'}
+                {loading ? '保存中...' : submitLabel ?? (editingLocation ? '更新' : '追加')}
               </button>
             </div>
           </form>
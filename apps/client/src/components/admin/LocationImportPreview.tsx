@@ -0,0 +1,175 @@
+import React from 'react';
+import {
+  LocationImportAction,
+  LocationImportResult,
+} from '@skytree-photo-planner/types';
+
+interface LocationImportPreviewProps {
+  fileName: string;
+  result: LocationImportResult;
+  loading: boolean;
+  onCommit: () => void;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<LocationImportAction, string> = {
+  create: '新規',
+  update: '更新',
+  unchanged: '変更なし',
+  invalid: 'エラー',
+};
+
+const ACTION_STYLES: Record<LocationImportAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+  invalid: 'bg-red-100 text-red-800',
+};
+
+const formatValue = (value: string | number | null) =>
+  value === null || value === '' ? '（空）' : String(value);
+
+/**
+ * インポート内容の確認（ドライランの差分を行ごとに表示し、問題がなければ反映する）
+ */
+const LocationImportPreview: React.FC<LocationImportPreviewProps> = ({
+  fileName,
+  result,
+  loading,
+  onCommit,
+  onClose,
+}) => {
+  const { summary, rows } = result;
+  const hasChanges = summary.createdCount + summary.updatedCount > 0;
+  const canCommit = summary.errorCount === 0 && hasChanges;
+  // 変更なしの行は件数だけ表示する
+  const visibleRows = rows.filter((row) => row.action !== 'unchanged');
+  const warningCount = rows.filter((row) => row.warnings.length > 0).length;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-4xl shadow-lg rounded-md bg-white">
+        <div className="border-b border-gray-200 px-6 py-4 -m-5 mb-6">
+          <h2 className="text-xl font-bold text-gray-900">インポート内容の確認</h2>
+          <p className="text-sm text-gray-600 mt-1">{fileName}</p>
+        </div>
+        <div className="px-6 space-y-4">
+          <div className="flex flex-wrap gap-2 text-sm">
+            <span className={`px-2 py-1 rounded ${ACTION_STYLES.create}`}>
+              新規 {summary.createdCount}件
+            </span>
+            <span className={`px-2 py-1 rounded ${ACTION_STYLES.update}`}>
+              更新 {summary.updatedCount}件
+            </span>
+            <span className={`px-2 py-1 rounded ${ACTION_STYLES.unchanged}`}>
+              変更なし {summary.unchangedCount}件
+            </span>
+            <span className={`px-2 py-1 rounded ${ACTION_STYLES.invalid}`}>
+              エラー {summary.errorCount}件
+            </span>
+          </div>
+
+          {warningCount > 0 && (
+            <p className="text-sm text-amber-700">
+              {warningCount} 件の行に重複の可能性がある地点があります。反映後に「統合」でまとめることもできます。
+            </p>
+          )}
+
+          {summary.errorCount > 0 && (
+            <p className="text-sm text-red-600">
+              エラーの行があるため反映できません。ファイルを修正してから再度インポートしてください。
+            </p>
+          )}
+
+          {visibleRows.length === 0 ? (
+            <p className="text-sm text-gray-600">変更はありません。</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-md">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-500">
+                    <th className="px-3 py-2 font-medium">行</th>
+                    <th className="px-3 py-2 font-medium">操作</th>
+                    <th className="px-3 py-2 font-medium">地点</th>
+                    <th className="px-3 py-2 font-medium">内容</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {visibleRows.map((row) => (
+                    <tr key={row.row} className="align-top">
+                      <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${ACTION_STYLES[row.action]}`}
+                        >
+                          {ACTION_LABELS[row.action]}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-gray-900">
+                        {row.name || '名前なし'}
+                        {row.id !== undefined && (
+                          <span className="text-gray-500 ml-1">（ID {row.id}）</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">
+                        {row.action === 'invalid' ? (
+                          <ul className="text-red-600 space-y-0.5">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <ul className="space-y-0.5">
+                            {row.warnings.map((warning) => (
+                              <li key={warning} className="text-amber-700">
+                                {warning}
+                              </li>
+                            ))}
+                            {row.changes.map((change) => (
+                              <li key={change.field}>
+                                <span className="text-gray-500">{change.field}: </span>
+                                {row.action === 'update' && (
+                                  <>
+                                    <span className="line-through text-gray-400">
+                                      {formatValue(change.before)}
+                                    </span>
+                                    {' → '}
+                                  </>
+                                )}
+                                {formatValue(change.after)}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              キャンセル
+            </button>
+            <button
+              type="button"
+              onClick={onCommit}
+              disabled={loading || !canCommit}
+              className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? '反映中...' : 'インポートを反映'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationImportPreview;
@@ -1,8 +1,16 @@
 import React, { useState, useMemo } from 'react';
 import { flushSync } from 'react-dom';
 import { useNavigate } from 'react-router-dom';
-import { Location } from '@skytree-photo-planner/types';
+import {
+  Location,
+  LocationDuplicateCandidate,
+  LocationFileFormat,
+  LocationImportResult,
+} from '@skytree-photo-planner/types';
 import LocationFormModal, { LocationFormData, initialFormData } from './LocationFormModal';
+import LocationImportPreview from './LocationImportPreview';
+import LocationMergeModal from './LocationMergeModal';
+import LocationPhotoManager from './LocationPhotoManager';
 import { Icon } from '@skytree-photo-planner/ui';
 import { authService } from '../../services/authService';
 import { getComponentLogger } from '@skytree-photo-planner/utils';
@@ -15,6 +23,20 @@ interface LocationManagerProps {
   onLocationsChange: () => void;
 }
 
+interface PendingImport {
+  fileName: string;
+  format: LocationFileFormat;
+  content: string;
+}
+
+// Constants
+// ファイルの拡張子からインポート形式を判定する
+const IMPORT_FORMATS: Record<string, LocationFileFormat> = {
+  json: 'json',
+  csv: 'csv',
+  geojson: 'geojson',
+};
+
 const LocationManager: React.FC<LocationManagerProps> = ({ 
   locations, 
   onLocationsChange 
@@ -27,6 +49,54 @@ const LocationManager: React.FC<LocationManagerProps> = ({
   const [searchTerm, setSearchTerm] = useState('');
   const [filterPrefecture, setFilterPrefecture] = useState('');
   const [showLocationForm, setShowLocationForm] = useState(false);
+  const [exportFormat, setExportFormat] = useState<LocationFileFormat>('json');
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importPreview, setImportPreview] = useState<LocationImportResult | null>(null);
+  const [mergeSource, setMergeSource] = useState<Location | null>(null);
+  const [photoLocation, setPhotoLocation] = useState<Location | null>(null);
+
+  /**
+   * 近くの地点・名前が似ている地点がある場合は保存してよいか確認する
+   */
+  const confirmDuplicates = async (): Promise<boolean> => {
+    if (formData.latitude === '' || formData.longitude === '') return true;
+
+    const query = new URLSearchParams({
+      latitude: String(formData.latitude),
+      longitude: String(formData.longitude),
+      name: formData.name,
+    });
+    if (editingLocation) {
+      query.set('excludeId', String(editingLocation.id));
+    }
+
+    const response = await fetch(`/api/admin/locations/duplicates?${query}`, {
+      headers: {
+        ...authService.getAuthHeaders(),
+      },
+      credentials: 'include',
+    });
+    if (!response.ok) return true; // 確認できない場合は保存時のサーバー側の判定に任せる
+
+    const result = await response.json();
+    const duplicates: LocationDuplicateCandidate[] = result.duplicates || [];
+    if (duplicates.length === 0) return true;
+
+    const list = duplicates
+      .slice(0, 5)
+      .map(
+        (duplicate) =>
+          `・${duplicate.name}（ID ${duplicate.id}、${duplicate.distanceMeters.toLocaleString()}m）`,
+      )
+      .join('\n');
+    if (result.hasExactMatch) {
+      alert(`同じ座標の地点が既に登録されています。\n\n${list}`);
+      return false;
+    }
+    return confirm(
+      `重複の可能性がある地点があります。\n\n${list}\n\nこのまま保存しますか？`,
+    );
+  };
 
   // Event handlers
   const handleSubmit = async (e: React.FormEvent) => {
@@ -34,6 +104,8 @@ const LocationManager: React.FC<LocationManagerProps> = ({
     setLoading(true);
 
     try {
+      if (!(await confirmDuplicates())) return;
+
       const url = editingLocation
         ? `/api/admin/locations/${editingLocation.id}`
         : '/api/admin/locations';
@@ -70,6 +142,9 @@ const LocationManager: React.FC<LocationManagerProps> = ({
         });
       } else if (response.status === 401) {
         navigate('/admin/login');
+      } else if (response.status === 409) {
+        const errorData = await response.json().catch(() => ({}));
+        alert(errorData.message || '同じ座標の地点が既に登録されています。');
       } else {
         const errorData = await response.text();
         logger.error('地点保存エラー', new Error(`${response.status}: ${errorData}`));
@@ -234,13 +309,16 @@ const LocationManager: React.FC<LocationManagerProps> = ({
   const handleExportLocations = async () => {
     try {
       setLoading(true);
-      const response = await fetch('/api/admin/locations/export', {
-        method: 'GET',
-        headers: {
-          ...authService.getAuthHeaders(),
+      const response = await fetch(
+        `/api/admin/locations/export?format=${exportFormat}`,
+        {
+          method: 'GET',
+          headers: {
+            ...authService.getAuthHeaders(),
+          },
+          credentials: 'include',
         },
-        credentials: 'include',
-      });
+      );
 
       if (response.status === 401) {
         authService.clearAuth();
@@ -257,7 +335,7 @@ const LocationManager: React.FC<LocationManagerProps> = ({
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `locations_export_${new Date().toISOString().split('T')[0]}.json`;
+      a.download = `locations_export_${new Date().toISOString().split('T')[0]}.${exportFormat}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -270,6 +348,42 @@ const LocationManager: React.FC<LocationManagerProps> = ({
     }
   };
 
+  /**
+   * インポート API の呼び出し（dryRun の場合は差分だけを受け取る）
+   * 不正な行があって反映されなかった場合（422）も差分を返す
+   */
+  const requestImport = async (
+    file: PendingImport,
+    dryRun: boolean,
+  ): Promise<LocationImportResult | null> => {
+    const response = await fetch(
+      `/api/admin/locations/import?dryRun=${dryRun}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ format: file.format, content: file.content }),
+      },
+    );
+
+    if (response.status === 401) {
+      // 認証エラーの場合はログインページにリダイレクト
+      authService.clearAuth();
+      navigate('/admin/login');
+      return null;
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok && response.status !== 422) {
+      throw new Error(
+        data.message || `HTTP ${response.status}: インポートに失敗しました`,
+      );
+    }
+    return data as LocationImportResult;
+  };
+
   const handleImportLocations = async (
     event: React.ChangeEvent<HTMLInputElement>,
   ) => {
@@ -277,53 +391,61 @@ const LocationManager: React.FC<LocationManagerProps> = ({
     if (!file) return;
 
     try {
-      setLoading(true);
-      const text = await file.text();
-      const data = JSON.parse(text);
-
-      if (!Array.isArray(data)) {
-        throw new Error('無効なファイル形式です。配列形式の JSON が必要です。');
+      const extension = file.name.split('.').pop()?.toLowerCase();
+      const format = IMPORT_FORMATS[extension ?? ''];
+      if (!format) {
+        throw new Error('.json・.csv・.geojson のファイルを選択してください。');
       }
 
-      const response = await fetch('/api/admin/locations/import', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(data),
-      });
-
-      if (response.status === 401) {
-        // 認証エラーの場合はログインページにリダイレクト
-        authService.clearAuth();
-        navigate('/admin/login');
-        return;
+      setLoading(true);
+      const pending: PendingImport = {
+        fileName: file.name,
+        format,
+        content: await file.text(),
+      };
+      const result = await requestImport(pending, true);
+      if (result) {
+        setPendingImport(pending);
+        setImportPreview(result);
       }
+    } catch (error) {
+      logger.error('インポートエラー', error as Error);
+      alert(
+        `インポートに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`,
+      );
+    } finally {
+      setLoading(false);
+      // ファイル入力をリセット
+      event.target.value = '';
+    }
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          errorData.message ||
-            `HTTP ${response.status}: インポートに失敗しました`,
-        );
-      }
+  const closeImportPreview = () => {
+    setPendingImport(null);
+    setImportPreview(null);
+  };
 
-      const result = await response.json();
+  const handleCommitImport = async () => {
+    if (!pendingImport) return;
 
-      if (result.success) {
-        const { createdCount, updatedCount, errorCount } = result.summary;
-        let message = `インポートが完了しました。\n`;
-        message += `新規作成: ${createdCount}件\n`;
-        message += `更新: ${updatedCount}件\n`;
-        if (errorCount > 0) {
-          message += `エラー: ${errorCount}件`;
-        }
-        alert(message);
-        onLocationsChange(); // リストを更新
-      } else {
-        throw new Error(result.message || 'インポートに失敗しました');
+    try {
+      setLoading(true);
+      const result = await requestImport(pendingImport, false);
+      if (!result) return;
+
+      if (!result.applied) {
+        // 確認後にデータが変わった場合など。最新の差分を表示し直す
+        setImportPreview(result);
+        alert('エラーの行があるため、インポートを反映しませんでした。');
+        return;
       }
+
+      const { createdCount, updatedCount } = result.summary;
+      closeImportPreview();
+      alert(
+        `インポートが完了しました。\n新規作成: ${createdCount}件\n更新: ${updatedCount}件`,
+      );
+      onLocationsChange(); // リストを更新
     } catch (error) {
       logger.error('インポートエラー', error as Error);
       alert(
@@ -331,8 +453,6 @@ const LocationManager: React.FC<LocationManagerProps> = ({
       );
     } finally {
       setLoading(false);
-      // ファイル入力をリセット
-      event.target.value = '';
     }
   };
 
@@ -361,10 +481,20 @@ const LocationManager: React.FC<LocationManagerProps> = ({
               撮影地点管理
             </h1>
             <p className="text-gray-600 mt-1">
-              撮影地点の追加・編集・削除を行います。エクスポート/インポート機能では、ID がある地点は更新、ない地点は新規登録されます。
+              撮影地点の追加・編集・削除を行います。エクスポート/インポート（JSON・CSV・GeoJSON）では、ID がある地点は更新、ない地点は新規登録されます。インポートは反映前に差分を確認できます。重複した地点は「統合」でまとめられます。「写真」ではスカイツリー方向の眺め・駐車場・過去の作例の写真を登録できます。
             </p>
           </div>
           <div className="flex items-center space-x-3">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as LocationFileFormat)}
+              className="px-2 py-2 border border-gray-300 rounded-md text-sm"
+              aria-label="エクスポート形式"
+            >
+              <option value="json">JSON</option>
+              <option value="csv">CSV</option>
+              <option value="geojson">GeoJSON</option>
+            </select>
             <button
               onClick={handleExportLocations}
               className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors flex items-center space-x-2"
@@ -384,7 +514,7 @@ const LocationManager: React.FC<LocationManagerProps> = ({
             <input
               id="import-file"
               type="file"
-              accept=".json"
+              accept=".json,.csv,.geojson"
               onChange={handleImportLocations}
               className="hidden"
             />
@@ -536,6 +666,20 @@ const LocationManager: React.FC<LocationManagerProps> = ({
                       >
                         編集
                       </button>
+                      <button
+                        onClick={() => setPhotoLocation(location)}
+                        className="text-purple-600 hover:text-purple-900 mr-3"
+                        title="参考写真の追加・編集"
+                      >
+                        写真
+                      </button>
+                      <button
+                        onClick={() => setMergeSource(location)}
+                        className="text-orange-600 hover:text-orange-900 mr-3"
+                        title="重複した地点を別の地点に統合"
+                      >
+                        統合
+                      </button>
                       <button
                         onClick={() => handleDelete(location)}
                         className="text-red-600 hover:text-red-900"
@@ -563,6 +707,38 @@ const LocationManager: React.FC<LocationManagerProps> = ({
         onSubmit={handleSubmit}
         onFormDataChange={handleFormDataChange}
       />
+
+      {pendingImport && importPreview && (
+        <LocationImportPreview
+          fileName={pendingImport.fileName}
+          result={importPreview}
+          loading={loading}
+          onCommit={handleCommitImport}
+          onClose={closeImportPreview}
+        />
+      )}
+
+      {photoLocation && (
+        <LocationPhotoManager
+          location={photoLocation}
+          onClose={() => setPhotoLocation(null)}
+        />
+      )}
+
+      {mergeSource && (
+        <LocationMergeModal
+          source={mergeSource}
+          locations={locations}
+          onClose={() => setMergeSource(null)}
+          onMerged={(result) => {
+            setMergeSource(null);
+            alert(
+              `「${result.location.name}」に統合しました。\n付け替えたイベント: ${result.movedEventCount}件\n重複のため削除したイベント: ${result.droppedEventCount}件\n付け替えた写真: ${result.movedPhotoCount}件`,
+            );
+            onLocationsChange();
+          }}
+        />
+      )}
     </>
   );
 };
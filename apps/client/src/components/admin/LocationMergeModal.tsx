@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Location,
+  LocationDuplicateCandidate,
+  LocationMergeResult,
+} from '@skytree-photo-planner/types';
+import { authService } from '../../services/authService';
+import { getComponentLogger } from '@skytree-photo-planner/utils';
+
+const logger = getComponentLogger('LocationMergeModal');
+
+interface LocationMergeModalProps {
+  source: Location;
+  locations: Location[];
+  onClose: () => void;
+  onMerged: (result: LocationMergeResult) => void;
+}
+
+/**
+ * 重複した地点の統合
+ * 統合元のイベントを統合先に付け替え、統合先で未入力の説明などを補ってから統合元を削除する
+ */
+const LocationMergeModal: React.FC<LocationMergeModalProps> = ({
+  source,
+  locations,
+  onClose,
+  onMerged,
+}) => {
+  const [candidates, setCandidates] = useState<LocationDuplicateCandidate[]>([]);
+  const [targetId, setTargetId] = useState<number | ''>('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 統合元の重複候補を統合先の候補として先に表示する
+  useEffect(() => {
+    const fetchCandidates = async () => {
+      try {
+        const query = new URLSearchParams({
+          latitude: String(source.latitude),
+          longitude: String(source.longitude),
+          name: source.name,
+          excludeId: String(source.id),
+        });
+        const response = await authService.authenticatedFetch(
+          `/api/admin/locations/duplicates?${query}`,
+        );
+        if (response.ok) {
+          const result = await response.json();
+          setCandidates(result.duplicates || []);
+          if (result.duplicates?.length > 0) {
+            setTargetId(result.duplicates[0].id);
+          }
+        }
+      } catch (fetchError) {
+        logger.error('重複候補取得エラー', fetchError as Error);
+      }
+    };
+    fetchCandidates();
+  }, [source]);
+
+  const target = locations.find((location) => location.id === targetId);
+
+  const handleMerge = async () => {
+    if (!target) return;
+    if (
+      !confirm(
+        `「${source.name}」を「${target.name}」に統合しますか？\n\n「${source.name}」のイベントは「${target.name}」に付け替えられ、「${source.name}」は削除されます。`,
+      )
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await authService.authenticatedFetch('/api/admin/locations/merge', {
+        method: 'POST',
+        body: JSON.stringify({ sourceId: source.id, targetId: target.id }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || `HTTP ${response.status}: 統合に失敗しました`);
+      }
+      onMerged(result as LocationMergeResult);
+    } catch (mergeError) {
+      logger.error('地点統合エラー', mergeError as Error);
+      setError(mergeError instanceof Error ? mergeError.message : '統合に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const otherLocations = locations.filter((location) => location.id !== source.id);
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+        <div className="border-b border-gray-200 px-6 py-4 -m-5 mb-6">
+          <h2 className="text-xl font-bold text-gray-900">地点の統合</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            統合元: {source.name}（ID {source.id}）
+          </p>
+        </div>
+        <div className="px-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            統合元のイベント・参考写真を統合先に付け替え、統合元を削除します。統合先に同じ日・種類のイベントがある場合は統合先のものを残します。統合先で未入力の説明・アクセス情報・駐車場情報・計測メモは統合元の値で補います。
+          </p>
+
+          {candidates.length > 0 && (
+            <div>
+              <div className="text-sm font-medium text-gray-700 mb-1">重複の可能性がある地点</div>
+              <ul className="border border-gray-200 rounded-md divide-y divide-gray-100">
+                {candidates.map((candidate) => (
+                  <li key={candidate.id}>
+                    <label className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="radio"
+                        name="merge-target"
+                        checked={targetId === candidate.id}
+                        onChange={() => setTargetId(candidate.id)}
+                      />
+                      <span className="flex-1 text-gray-900">
+                        {candidate.name}
+                        <span className="text-gray-500 ml-1">（ID {candidate.id}）</span>
+                      </span>
+                      <span className="text-gray-500 whitespace-nowrap">
+                        {candidate.distanceMeters.toLocaleString()}m
+                        {candidate.reasons.includes('similar_name') && '・名前が類似'}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">統合先</label>
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value ? Number(e.target.value) : '')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">選択してください</option>
+              {otherLocations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}（ID {location.id}・{location.prefecture}）
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              キャンセル
+            </button>
+            <button
+              type="button"
+              onClick={handleMerge}
+              disabled={loading || !target}
+              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? '統合中...' : '統合する'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationMergeModal;
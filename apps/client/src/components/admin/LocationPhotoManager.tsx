@@ -0,0 +1,302 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Location,
+  LocationPhoto,
+  LocationPhotoCategory,
+} from '@skytree-photo-planner/types';
+import { apiClient } from '../../services/apiClient';
+import { authService } from '../../services/authService';
+import { PHOTO_CATEGORY_LABELS } from '../LocationPhotoGallery';
+import { getComponentLogger } from '@skytree-photo-planner/utils';
+
+const logger = getComponentLogger('LocationPhotoManager');
+
+interface LocationPhotoManagerProps {
+  location: Location;
+  onClose: () => void;
+}
+
+// 写真ごとの編集中の値
+interface PhotoDraft {
+  category: LocationPhotoCategory;
+  caption: string;
+}
+
+const CATEGORIES = Object.keys(PHOTO_CATEGORY_LABELS) as LocationPhotoCategory[];
+
+/**
+ * 撮影地点の参考写真の管理（アップロード・種類と説明の編集・削除）
+ * サムネイルの生成と撮影日時・GPS 位置の読み取りはサーバーで行う
+ */
+const LocationPhotoManager: React.FC<LocationPhotoManagerProps> = ({ location, onClose }) => {
+  const [photos, setPhotos] = useState<LocationPhoto[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, PhotoDraft>>({});
+  const [files, setFiles] = useState<File[]>([]);
+  const [uploadCategory, setUploadCategory] = useState<LocationPhotoCategory>('skytree_view');
+  const [uploadCaption, setUploadCaption] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPhotos = useCallback(async () => {
+    const result = await apiClient.getLocationPhotos(location.id);
+    setPhotos(result || []);
+    setDrafts(
+      Object.fromEntries(
+        (result || []).map((photo) => [
+          photo.id,
+          { category: photo.category, caption: photo.caption || '' },
+        ]),
+      ),
+    );
+  }, [location.id]);
+
+  useEffect(() => {
+    loadPhotos();
+  }, [loadPhotos]);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (files.length === 0) return;
+    const form = e.currentTarget as HTMLFormElement;
+
+    setLoading(true);
+    setError(null);
+    try {
+      // 1 枚ずつ送り、失敗した時点で止める
+      for (const file of files) {
+        const body = new FormData();
+        body.append('photo', file);
+        body.append('category', uploadCategory);
+        if (uploadCaption.trim()) {
+          body.append('caption', uploadCaption.trim());
+        }
+
+        const response = await authService.authenticatedFetch(
+          `/api/admin/locations/${location.id}/photos`,
+          { method: 'POST', body },
+        );
+        if (!response.ok) {
+          const result = await response.json().catch(() => ({}));
+          throw new Error(
+            `${file.name}: ${result.message || `HTTP ${response.status}: アップロードに失敗しました`}`,
+          );
+        }
+      }
+
+      setFiles([]);
+      setUploadCaption('');
+      form.reset();
+    } catch (uploadError) {
+      logger.error('参考写真アップロードエラー', uploadError as Error);
+      setError(uploadError instanceof Error ? uploadError.message : 'アップロードに失敗しました');
+    } finally {
+      await loadPhotos();
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (photo: LocationPhoto) => {
+    const draft = drafts[photo.id];
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await authService.authenticatedFetch(
+        `/api/admin/location-photos/${photo.id}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify({ category: draft.category, caption: draft.caption.trim() || null }),
+        },
+      );
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.message || `HTTP ${response.status}: 更新に失敗しました`);
+      }
+      await loadPhotos();
+    } catch (saveError) {
+      logger.error('参考写真更新エラー', saveError as Error);
+      setError(saveError instanceof Error ? saveError.message : '更新に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (photo: LocationPhoto) => {
+    if (!confirm('この写真を削除しますか？')) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await authService.authenticatedFetch(
+        `/api/admin/location-photos/${photo.id}`,
+        { method: 'DELETE' },
+      );
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.message || `HTTP ${response.status}: 削除に失敗しました`);
+      }
+      await loadPhotos();
+    } catch (deleteError) {
+      logger.error('参考写真削除エラー', deleteError as Error);
+      setError(deleteError instanceof Error ? deleteError.message : '削除に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDraft = (id: number, changes: Partial<PhotoDraft>) => {
+    setDrafts((current) => ({ ...current, [id]: { ...current[id], ...changes } }));
+  };
+
+  const isChanged = (photo: LocationPhoto) =>
+    drafts[photo.id] &&
+    (drafts[photo.id].category !== photo.category ||
+      drafts[photo.id].caption !== (photo.caption || ''));
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white">
+        <div className="border-b border-gray-200 px-6 py-4 -m-5 mb-6">
+          <h2 className="text-xl font-bold text-gray-900">参考写真</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {location.name}（ID {location.id}）
+          </p>
+        </div>
+        <div className="px-6 space-y-6">
+          <form onSubmit={handleUpload} className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">画像ファイル</label>
+                <input
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  multiple
+                  onChange={(e) => setFiles(Array.from(e.target.files || []))}
+                  className="w-full text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">種類</label>
+                <select
+                  value={uploadCategory}
+                  onChange={(e) => setUploadCategory(e.target.value as LocationPhotoCategory)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {CATEGORIES.map((category) => (
+                    <option key={category} value={category}>
+                      {PHOTO_CATEGORY_LABELS[category]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">説明（任意）</label>
+              <input
+                type="text"
+                value={uploadCaption}
+                maxLength={200}
+                onChange={(e) => setUploadCaption(e.target.value)}
+                placeholder="例: 2025年2月のダイヤモンドスカイツリー"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              JPEG・PNG・WebP（1 枚 15MB まで）。撮影日時と GPS 位置は写真の EXIF から読み取ります。
+            </p>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={loading || files.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {loading ? '処理中...' : `アップロード${files.length > 1 ? `（${files.length}枚）` : ''}`}
+              </button>
+            </div>
+          </form>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {photos.length === 0 ? (
+            <p className="text-sm text-gray-600">写真はまだ登録されていません。</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md max-h-96 overflow-y-auto">
+              {photos.map((photo) => (
+                <li key={photo.id} className="flex gap-3 p-3">
+                  <a href={photo.url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                    <img
+                      src={photo.thumbnailUrl}
+                      alt={photo.caption || PHOTO_CATEGORY_LABELS[photo.category]}
+                      className="w-24 h-24 object-cover rounded"
+                    />
+                  </a>
+                  <div className="flex-1 space-y-2 text-sm">
+                    <div className="flex gap-2">
+                      <select
+                        value={drafts[photo.id]?.category ?? photo.category}
+                        onChange={(e) =>
+                          updateDraft(photo.id, { category: e.target.value as LocationPhotoCategory })
+                        }
+                        className="px-2 py-1 border border-gray-300 rounded-md"
+                      >
+                        {CATEGORIES.map((category) => (
+                          <option key={category} value={category}>
+                            {PHOTO_CATEGORY_LABELS[category]}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={drafts[photo.id]?.caption ?? ''}
+                        maxLength={200}
+                        onChange={(e) => updateDraft(photo.id, { caption: e.target.value })}
+                        placeholder="説明"
+                        className="flex-1 px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {photo.width}×{photo.height}
+                      {photo.takenAt && `・撮影 ${photo.takenAt.toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}`}
+                      {photo.gpsLatitude !== null &&
+                        photo.gpsLongitude !== null &&
+                        `・GPS ${photo.gpsLatitude.toFixed(5)}, ${photo.gpsLongitude.toFixed(5)}`}
+                    </p>
+                    <div className="flex gap-3">
+                      <button
+                        type="button"
+                        onClick={() => handleSave(photo)}
+                        disabled={loading || !isChanged(photo)}
+                        className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                      >
+                        保存
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(photo)}
+                        disabled={loading}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                      >
+                        削除
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-center justify-end pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              閉じる
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationPhotoManager;
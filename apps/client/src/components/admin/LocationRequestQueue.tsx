@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { getComponentLogger, timeUtils } from '@skytree-photo-planner/utils';
+import type { LocationRequestResponse, LocationRequestStatus } from '@skytree-photo-planner/types';
+import { LocationDuplicateCandidate } from '@skytree-photo-planner/types';
+import LocationFormModal, { LocationFormData, initialFormData } from './LocationFormModal';
+import { authService } from '../../services/authService';
+
+const logger = getComponentLogger('LocationRequestQueue');
+
+// Constants
+const STATUS_LABELS: Record<LocationRequestStatus, string> = {
+  pending: '審査待ち',
+  approved: '承認済み',
+  rejected: '却下',
+};
+
+const STATUS_ORDER: LocationRequestStatus[] = ['pending', 'approved', 'rejected'];
+
+interface LocationRequestQueueProps {
+  onLocationsChange: () => void;
+}
+
+/**
+ * 撮影地点の追加リクエストの審査
+ * 承認時は地点の登録フォームで座標・標高などを確定し、地点の作成と天体計算ジョブの登録を行う
+ */
+const LocationRequestQueue: React.FC<LocationRequestQueueProps> = ({ onLocationsChange }) => {
+  // State
+  const [status, setStatus] = useState<LocationRequestStatus>('pending');
+  const [requests, setRequests] = useState<LocationRequestResponse[]>([]);
+  const [counts, setCounts] = useState<Record<LocationRequestStatus, number> | null>(null);
+  const [approving, setApproving] = useState<LocationRequestResponse | null>(null);
+  const [formData, setFormData] = useState<LocationFormData>(initialFormData);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // API functions
+  const fetchRequests = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await authService.authenticatedFetch(
+        `/api/admin/location-requests?status=${status}`,
+      );
+
+      if (response.ok) {
+        const result = await response.json();
+        setRequests(result.requests || []);
+        setCounts(result.counts || null);
+      } else {
+        logger.error('追加リクエスト取得失敗', {
+          status: response.status,
+          statusText: response.statusText,
+        });
+        setError('追加リクエストの取得に失敗しました');
+      }
+    } catch (err) {
+      logger.error('追加リクエスト取得エラー', err as Error);
+      setError('追加リクエストの取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  // Effects
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  /**
+   * 近くの地点・名前が似ている地点がある場合は承認してよいか確認する
+   */
+  const confirmDuplicates = async (): Promise<boolean> => {
+    if (formData.latitude === '' || formData.longitude === '') return true;
+
+    const query = new URLSearchParams({
+      latitude: String(formData.latitude),
+      longitude: String(formData.longitude),
+      name: formData.name,
+    });
+    const response = await authService.authenticatedFetch(`/api/admin/locations/duplicates?${query}`);
+    if (!response.ok) return true; // 確認できない場合は承認時のサーバー側の判定に任せる
+
+    const result = await response.json();
+    const duplicates: LocationDuplicateCandidate[] = result.duplicates || [];
+    if (duplicates.length === 0) return true;
+
+    const list = duplicates
+      .slice(0, 5)
+      .map(
+        (duplicate) =>
+          `・${duplicate.name}（ID ${duplicate.id}、${duplicate.distanceMeters.toLocaleString()}m）`,
+      )
+      .join('\n');
+    if (result.hasExactMatch) {
+      alert(`同じ座標の地点が既に登録されています。\n\n${list}`);
+      return false;
+    }
+    return confirm(`重複の可能性がある地点があります。\n\n${list}\n\nこのまま承認しますか？`);
+  };
+
+  // Event handlers
+  const handleStartApprove = (request: LocationRequestResponse) => {
+    setApproving(request);
+    setFormData({
+      ...initialFormData,
+      name: request.name,
+      prefecture: request.prefecture,
+      latitude: request.suggestedLatitude ?? '',
+      longitude: request.suggestedLongitude ?? '',
+      description: request.description,
+    });
+  };
+
+  const handleApprove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!approving) return;
+    setLoading(true);
+
+    try {
+      if (!(await confirmDuplicates())) return;
+
+      const response = await authService.authenticatedFetch(
+        `/api/admin/location-requests/${approving.id}/approve`,
+        {
+          method: 'POST',
+          body: JSON.stringify(formData),
+        },
+      );
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        alert(result.message || `HTTP ${response.status}: 承認に失敗しました`);
+        return;
+      }
+
+      setApproving(null);
+      onLocationsChange();
+      await fetchRequests();
+    } catch (err) {
+      logger.error('追加リクエスト承認エラー', err as Error);
+      alert('承認に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReject = async (request: LocationRequestResponse) => {
+    if (!confirm(`「${request.name}」のリクエストを却下しますか？`)) return;
+
+    try {
+      const response = await authService.authenticatedFetch(
+        `/api/admin/location-requests/${request.id}/reject`,
+        { method: 'POST' },
+      );
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        alert(result.message || `HTTP ${response.status}: 却下に失敗しました`);
+      }
+      await fetchRequests();
+    } catch (err) {
+      logger.error('追加リクエスト却下エラー', err as Error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* ヘッダー */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">追加リクエスト</h2>
+          <p className="text-gray-600 mt-1">
+            利用者から提案された撮影地点を確認し、承認すると地点として登録します
+          </p>
+        </div>
+        <button
+          onClick={fetchRequests}
+          disabled={loading}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          再読み込み
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="px-6 py-4 border-b border-gray-200 flex gap-2">
+          {STATUS_ORDER.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setStatus(value)}
+              className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                status === value
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {STATUS_LABELS[value]}
+              {counts && <span className="ml-1 opacity-75">{counts[value]}</span>}
+            </button>
+          ))}
+        </div>
+        <div className="p-6">
+          {error ? (
+            <div className="text-center text-red-600 py-8">{error}</div>
+          ) : requests.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">
+              {loading ? '読み込み中...' : `${STATUS_LABELS[status]}のリクエストはありません`}
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {requests.map((request) => (
+                <li key={request.id} className="py-4 first:pt-0 last:pb-0">
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="space-y-1 min-w-0">
+                      <p className="font-medium text-gray-900">
+                        {request.name}
+                        <span className="ml-2 text-sm font-normal text-gray-500">{request.prefecture}</span>
+                      </p>
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+                        {request.description}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        受付 {timeUtils.formatDateTimeString(new Date(request.createdAt))}
+                        {request.suggestedLatitude !== undefined && request.suggestedLongitude !== undefined && (
+                          <>
+                            ・位置{' '}
+                            <a
+                              href={`https://maps.gsi.go.jp/#16/${request.suggestedLatitude}/${request.suggestedLongitude}/`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              {request.suggestedLatitude.toFixed(6)}, {request.suggestedLongitude.toFixed(6)}
+                            </a>
+                          </>
+                        )}
+                        ・IP {request.requesterIp}
+                      </p>
+                      {request.processedAt && (
+                        <p className="text-xs text-gray-500">
+                          {STATUS_LABELS[request.status]} {timeUtils.formatDateTimeString(new Date(request.processedAt))}
+                          {request.locationId && (
+                            <>
+                              ・
+                              <a
+                                href={`/location/${request.locationId}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-blue-600 hover:text-blue-800"
+                              >
+                                地点 ID {request.locationId}
+                              </a>
+                            </>
+                          )}
+                        </p>
+                      )}
+                    </div>
+                    {request.status === 'pending' && (
+                      <div className="flex gap-3 flex-shrink-0 text-sm">
+                        <button
+                          type="button"
+                          onClick={() => handleStartApprove(request)}
+                          disabled={loading}
+                          className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                        >
+                          承認
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleReject(request)}
+                          disabled={loading}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          却下
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <LocationFormModal
+        isOpen={!!approving}
+        onClose={() => setApproving(null)}
+        formData={formData}
+        editingLocation={null}
+        loading={loading}
+        onSubmit={handleApprove}
+        onFormDataChange={(field, value) => setFormData((prev) => ({ ...prev, [field]: value }))}
+        title="追加リクエストの承認"
+        submitLabel="承認して登録"
+      />
+    </div>
+  );
+};
+
+export default LocationRequestQueue;
@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { getComponentLogger, timeUtils } from '@skytree-photo-planner/utils';
+import type { PearlRejection, PearlRejectionReason } from '@skytree-photo-planner/types';
+import { Location } from '@skytree-photo-planner/types';
+import { authService } from '../../services/authService';
+
+const logger = getComponentLogger('PearlRejectionList');
+
+// Constants
+const REASON_LABELS: Record<PearlRejectionReason, string> = {
+  low_illumination: '照度不足',
+  bright_sky: '空が明るすぎる',
+  far_from_full: '満月から遠い',
+};
+
+const REASON_DESCRIPTIONS: Record<PearlRejectionReason, string> = {
+  low_illumination: '月の照度が pearl_min_illumination 未満',
+  bright_sky: '太陽高度が pearl_max_sun_elevation を超える',
+  far_from_full: '満月からの月齢差が pearl_max_days_from_full を超える',
+};
+
+interface PearlRejectionListProps {
+  locations: Location[];
+}
+
+const PearlRejectionList: React.FC<PearlRejectionListProps> = ({ locations }) => {
+  // State
+  const [rejections, setRejections] = useState<PearlRejection[]>([]);
+  const [locationId, setLocationId] = useState<string>('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // API functions
+  const fetchRejections = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = locationId ? `?locationId=${locationId}` : '';
+      const response = await authService.authenticatedFetch(`/api/admin/pearl-rejections${query}`);
+
+      if (response.ok) {
+        const result = await response.json();
+        setRejections(result.data || []);
+      } else {
+        logger.error('パール除外候補取得失敗', {
+          status: response.status,
+          statusText: response.statusText,
+        });
+        setError('除外候補の取得に失敗しました');
+      }
+    } catch (err) {
+      logger.error('パール除外候補取得エラー', err as Error);
+      setError('除外候補の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, [locationId]);
+
+  // Effects
+  useEffect(() => {
+    fetchRejections();
+  }, [fetchRejections]);
+
+  return (
+    <div className="space-y-6">
+      {/* ヘッダー */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">パール除外候補</h2>
+          <p className="text-gray-600 mt-1">
+            採否判定ルールで除外されたパールスカイツリー候補と除外理由を確認します
+          </p>
+        </div>
+        <button
+          onClick={fetchRejections}
+          disabled={loading}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          再読み込み
+        </button>
+      </div>
+
+      {/* 除外理由の説明 */}
+      <div className="bg-white rounded-lg shadow-sm border p-4">
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          {(Object.keys(REASON_LABELS) as PearlRejectionReason[]).map((reason) => (
+            <div key={reason}>
+              <div className="font-medium text-gray-900">{REASON_LABELS[reason]}</div>
+              <div className="text-gray-500 text-xs mt-1">{REASON_DESCRIPTIONS[reason]}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 除外候補一覧 */}
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">
+            除外候補（新しい順）
+          </h2>
+          <select
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+            className="text-sm border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="">すべての地点</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="p-6">
+          {error ? (
+            <div className="text-center text-red-600 py-8">{error}</div>
+          ) : rejections.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">
+              {loading ? '読み込み中...' : '除外された候補はありません'}
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">日時</th>
+                  <th className="py-2">地点</th>
+                  <th className="py-2">種別</th>
+                  <th className="py-2 text-right">照度</th>
+                  <th className="py-2 text-right">満月からの日数</th>
+                  <th className="py-2 text-right">太陽高度</th>
+                  <th className="py-2 pl-4">除外理由</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rejections.map((rejection) => (
+                  <tr key={rejection.id} className="border-b last:border-0">
+                    <td className="py-2">
+                      {timeUtils.formatDateTimeString(new Date(rejection.eventTime))}
+                    </td>
+                    <td className="py-2">{rejection.locationName}</td>
+                    <td className="py-2">{rejection.subType === 'rising' ? '昇る' : '沈む'}</td>
+                    <td className="py-2 text-right">
+                      {Math.round(rejection.moonIllumination * 100)}%
+                    </td>
+                    <td className="py-2 text-right">{rejection.daysFromFull.toFixed(1)} 日</td>
+                    <td className="py-2 text-right">{rejection.sunElevation.toFixed(1)}°</td>
+                    <td className="py-2 pl-4">
+                      <div className="flex flex-wrap gap-1">
+                        {rejection.reasons.map((reason) => (
+                          <span
+                            key={reason}
+                            className="px-2 py-0.5 text-xs rounded bg-red-50 text-red-700 border border-red-200"
+                          >
+                            {REASON_LABELS[reason]}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PearlRejectionList;
@@ -5,8 +5,10 @@
 export type AdminView = 
   | 'dashboard'
   | 'locations'
+  | 'location-requests'
   | 'events'
   | 'queue'
+  | 'pearl-rejections'
   | 'users'
   | 'data'
   | 'settings';
\ No newline at end of file
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from "react";
 import {
   FavoriteLocation,
   FavoriteEvent,
+  FavoriteShootPlan,
   Location,
   SkytreeEvent,
 } from "@skytree-photo-planner/types";
@@ -11,6 +12,7 @@ export interface UseFavoritesState {
   favoriteLocations: FavoriteLocation[];
   favoriteEvents: FavoriteEvent[];
   upcomingFavoriteEvents: FavoriteEvent[];
+  shootPlans: FavoriteShootPlan[];
   stats: {
     totalLocations: number;
     totalEvents: number;
@@ -32,6 +34,12 @@ export interface UseFavoritesActions {
   toggleEventFavorite: (event: SkytreeEvent) => boolean;
   clearAllFavorites: () => boolean;
   exportFavorites: () => void;
+  exportUpcomingEventsAsIcs: (alarmMinutesBefore: number) => number;
+  saveShootPlan: (
+    plan: Omit<FavoriteShootPlan, "id" | "createdAt">,
+  ) => FavoriteShootPlan | null;
+  removeShootPlan: (planId: string) => boolean;
+  exportShootPlanAsIcs: (plan: FavoriteShootPlan) => void;
   importFavorites: (jsonData: string) => boolean;
   refreshFavorites: () => void;
 }
@@ -44,6 +52,7 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
   const [upcomingFavoriteEvents, setUpcomingFavoriteEvents] = useState<
     FavoriteEvent[]
   >([]);
+  const [shootPlans, setShootPlans] = useState<FavoriteShootPlan[]>([]);
   const [stats, setStats] = useState({
     totalLocations: 0,
     totalEvents: 0,
@@ -60,6 +69,7 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
     const locations = favoritesService.getFavoriteLocations();
     const events = favoritesService.getFavoriteEvents();
     const upcomingEvents = favoritesService.getUpcomingFavoriteEvents();
+    const plans = favoritesService.getShootPlans();
     const currentStats = favoritesService.getFavoritesStats();
 
     // Debug: Retrieved favorites data
@@ -67,6 +77,7 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
     setFavoriteLocations(locations);
     setFavoriteEvents(events);
     setUpcomingFavoriteEvents(upcomingEvents);
+    setShootPlans(plans);
     setStats(currentStats);
 
     // Debug: State updated
@@ -174,6 +185,38 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
     favoritesService.exportFavorites();
   }, []);
 
+  const exportUpcomingEventsAsIcs = useCallback(
+    (alarmMinutesBefore: number): number =>
+      favoritesService.exportUpcomingEventsAsIcs(alarmMinutesBefore),
+    [],
+  );
+
+  const saveShootPlan = useCallback(
+    (plan: Omit<FavoriteShootPlan, "id" | "createdAt">): FavoriteShootPlan | null => {
+      const saved = favoritesService.saveShootPlan(plan);
+      if (saved) {
+        refreshFavorites();
+      }
+      return saved;
+    },
+    [refreshFavorites],
+  );
+
+  const removeShootPlan = useCallback(
+    (planId: string): boolean => {
+      const success = favoritesService.removeShootPlan(planId);
+      if (success) {
+        refreshFavorites();
+      }
+      return success;
+    },
+    [refreshFavorites],
+  );
+
+  const exportShootPlanAsIcs = useCallback((plan: FavoriteShootPlan): void => {
+    favoritesService.exportShootPlanAsIcs(plan);
+  }, []);
+
   const importFavorites = useCallback(
     (jsonData: string): boolean => {
       const success = favoritesService.importFavorites(jsonData);
@@ -190,6 +233,7 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
     favoriteLocations,
     favoriteEvents,
     upcomingFavoriteEvents,
+    shootPlans,
     stats,
 
     // Actions
@@ -203,6 +247,10 @@ export function useFavorites(): UseFavoritesState & UseFavoritesActions {
     toggleEventFavorite,
     clearAllFavorites,
     exportFavorites,
+    exportUpcomingEventsAsIcs,
+    saveShootPlan,
+    removeShootPlan,
+    exportShootPlanAsIcs,
     importFavorites,
     refreshFavorites,
   };
@@ -5,7 +5,9 @@ import { AdminView } from '../components/admin/types';
 // Performance: Lazy load heavy admin components
 const Dashboard = lazy(() => import('../components/admin/Dashboard'));
 const LocationManager = lazy(() => import('../components/admin/LocationManager'));
+const LocationRequestQueue = lazy(() => import('../components/admin/LocationRequestQueue'));
 const QueueManager = lazy(() => import('../components/admin/QueueManager'));
+const PearlRejectionList = lazy(() => import('../components/admin/PearlRejectionList'));
 const SystemSettingsManager = lazy(() => import('../components/admin/SystemSettingsManager'));
 import { Icon } from '@skytree-photo-planner/ui';
 import { useLocationData } from '../hooks/useLocationData';
@@ -127,12 +129,26 @@ const AdminPage: React.FC = () => {
           </Suspense>
         );
       
+      case 'location-requests':
+        return (
+          <Suspense fallback={<AdminLoadingFallback component="追加リクエスト" />}>
+            <LocationRequestQueue onLocationsChange={loadLocations} />
+          </Suspense>
+        );
+
       case 'queue':
         return (
           <Suspense fallback={<AdminLoadingFallback component="キュー管理" />}>
             <QueueManager />
           </Suspense>
         );
+
+      case 'pearl-rejections':
+        return (
+          <Suspense fallback={<AdminLoadingFallback component="パール除外候補" />}>
+            <PearlRejectionList locations={locations} />
+          </Suspense>
+        );
       
       case 'settings':
         return (
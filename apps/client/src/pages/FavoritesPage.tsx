@@ -6,6 +6,7 @@ import { Icon } from "@skytree-photo-planner/ui";
 import { getLocationNearby } from "../utils/geocoding";
 import { uiLogger } from "../utils/logger";
 import { FavoriteEvent } from "@skytree-photo-planner/types";
+import ShootPlanSheet from "../components/ShootPlanSheet";
 
 const FavoritesPage: React.FC = () => {
   const navigate = useNavigate();
@@ -13,21 +14,26 @@ const FavoritesPage: React.FC = () => {
     favoriteLocations,
     favoriteEvents,
     upcomingFavoriteEvents,
+    shootPlans,
     stats,
     removeLocationFromFavorites,
     removeEventFromFavorites,
     clearAllFavorites,
     exportFavorites,
+    exportUpcomingEventsAsIcs,
+    removeShootPlan,
     importFavorites,
   } = useFavorites();
 
-  const [activeTab, setActiveTab] = useState<"upcoming" | "past" | "locations">(
-    "upcoming",
-  );
+  const [activeTab, setActiveTab] = useState<
+    "upcoming" | "past" | "locations" | "plans"
+  >("upcoming");
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [importData, setImportData] = useState("");
   const [locationAddresses, setLocationAddresses] = useState<Map<number, string>>(new Map());
+  // カレンダーへの書き出しで何分前に通知するか（到着の目安）
+  const [icsAlarmMinutes, setIcsAlarmMinutes] = useState(60);
 
   // 過去のイベントを取得
   const pastEvents = favoriteEvents
@@ -56,7 +62,7 @@ const FavoritesPage: React.FC = () => {
       upcomingFavoriteEvents.forEach((event) => allIds.add(`event-${event.id}`));
     } else if (activeTab === "past") {
       pastEvents.forEach((event) => allIds.add(`event-${event.id}`));
-    } else {
+    } else if (activeTab === "locations") {
       favoriteLocations.forEach((location) =>
         allIds.add(`location-${location.id}`),
       );
@@ -96,6 +102,14 @@ const FavoritesPage: React.FC = () => {
     exportFavorites();
   };
 
+  const handleExportIcs = () => {
+    const count = exportUpcomingEventsAsIcs(icsAlarmMinutes);
+    uiLogger.info("お気に入りイベントをカレンダー形式で書き出し", {
+      count,
+      alarmMinutes: icsAlarmMinutes,
+    });
+  };
+
   const handleImport = () => {
     try {
       const success = importFavorites(importData);
@@ -240,6 +254,16 @@ const FavoritesPage: React.FC = () => {
               >
                 保存地点 ({stats.totalLocations})
               </button>
+              <button
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  activeTab === "plans"
+                    ? "bg-blue-100 text-blue-700 border border-blue-200"
+                    : "text-gray-600 hover:text-gray-800 hover:bg-gray-100"
+                }`}
+                onClick={() => setActiveTab("plans")}
+              >
+                撮影計画 ({shootPlans.length})
+              </button>
             </div>
 
             <div className="flex gap-2">
@@ -270,6 +294,29 @@ const FavoritesPage: React.FC = () => {
                 <Icon name="download" size={14} className="mr-1 inline" />
                 エクスポート
               </button>
+              <div className="flex items-center border border-gray-200 rounded-md">
+                <button
+                  className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-l-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={handleExportIcs}
+                  disabled={upcomingFavoriteEvents.length === 0}
+                  title="今後のお気に入りイベントをカレンダーアプリ用（.ics）に書き出す"
+                >
+                  <Icon name="calendar" size={14} className="mr-1 inline" />
+                  カレンダーに追加
+                </button>
+                <select
+                  className="px-1 py-1.5 text-sm text-gray-600 bg-transparent border-l border-gray-200 focus:outline-none"
+                  value={icsAlarmMinutes}
+                  onChange={(e) => setIcsAlarmMinutes(Number(e.target.value))}
+                  title="通知のタイミング"
+                >
+                  <option value={0}>通知なし</option>
+                  <option value={30}>30分前</option>
+                  <option value={60}>1時間前</option>
+                  <option value={120}>2時間前</option>
+                  <option value={180}>3時間前</option>
+                </select>
+              </div>
               <button
                 className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors border border-gray-200"
                 onClick={() => setShowImportDialog(true)}
@@ -557,6 +604,44 @@ const FavoritesPage: React.FC = () => {
               )}
             </div>
           )}
+
+          {activeTab === "plans" && (
+            <div className="p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <Icon name="route" size={18} className="mr-2 text-blue-600" />
+                撮影計画
+              </h2>
+              {shootPlans.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">
+                  <Icon name="route" size={48} className="mx-auto mb-4 text-gray-300" />
+                  <p className="text-lg">保存した撮影計画はありません</p>
+                  <p className="text-sm mt-2">イベント詳細の「撮影計画」から計画を作成して保存してください</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {shootPlans.map((plan) => (
+                    <ShootPlanSheet
+                      key={plan.id}
+                      plan={plan}
+                      actions={
+                        <button
+                          className="px-2 py-1 text-xs rounded bg-red-50 text-red-600 hover:bg-red-100 border border-red-200"
+                          onClick={() => {
+                            if (confirm(`撮影計画「${plan.name}」を削除しますか？`)) {
+                              removeShootPlan(plan.id);
+                            }
+                          }}
+                        >
+                          <Icon name="trash" size={12} className="inline mr-1" />
+                          削除
+                        </button>
+                      }
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* インポートダイアログ */}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { useLocation, useSearchParams, useNavigate } from "react-router-dom";
 import { Icon } from "@skytree-photo-planner/ui";
 import { uiLogger } from "../utils/logger";
@@ -15,11 +15,28 @@ import LazyMap from "../components/LazyMap";
 import FilterPanel, { FilterOptions } from "../components/FilterPanel";
 import CameraPanel, { CameraSettings } from "../components/CameraPanel";
 import EventDetail from "../components/EventDetail";
+import CopyLinkButton from "../components/CopyLinkButton";
+import { fromCalendarLinkParams, toCalendarLinkParams } from "../utils/shareLink";
+
+// 距離フィルターの範囲（スカイツリーからの距離、km）
+const DISTANCE_FILTER_RANGES: Record<
+  Exclude<FilterOptions["distance"], "all">,
+  { min?: number; max?: number }
+> = {
+  very_near: { max: 50 },
+  near: { max: 100 },
+  medium: { max: 200 },
+  far: { max: 300 },
+  very_far: { min: 300 },
+};
 
 const HomePage: React.FC = () => {
   const location = useLocation();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
+  // 状態から書き込んだ共有リンクのクエリ（URL の変化が自分の書き込みによるものかの判定に使う）
+  const lastLinkQueryRef = useRef<string | null>(null);
+  const [isLinkRestored, setIsLinkRestored] = useState(false);
 
   const [calendarData, setCalendarData] = useState<CalendarResponse | null>(
     null,
@@ -48,6 +65,12 @@ const HomePage: React.FC = () => {
       lunarEclipse: false,
       supermoon: false,
     },
+    alignment: {
+      centered: false,
+      touching: false,
+      crossing_shaft: false,
+      beside: false,
+    },
   });
   const [cameraSettings, setCameraSettings] = useState<CameraSettings>({
     showAngles: false,
@@ -59,11 +82,12 @@ const HomePage: React.FC = () => {
 
 
 
-  // URL パラメータから日付や地点 ID を処理
+  // URL パラメータ（共有リンク）から日付・地点・イベント・フィルター・撮影設定を復元
   useEffect(() => {
-    const dateParam = searchParams.get("date");
-    const locationIdParam = searchParams.get("locationId");
-    const eventIdParam = searchParams.get("eventId");
+    if (searchParams.toString() === lastLinkQueryRef.current) {
+      return;
+    }
+    const link = fromCalendarLinkParams(searchParams);
 
     // お気に入りから遷移した場合の状態を復元
     if (location.state) {
@@ -89,33 +113,66 @@ const HomePage: React.FC = () => {
       }
     }
     // URL パラメータから日付を処理
-    else if (dateParam) {
-      try {
-        const date = new Date(dateParam);
-        if (!isNaN(date.getTime())) {
-          setSelectedDate(date);
-          setCurrentYear(date.getFullYear());
-          setCurrentMonth(date.getMonth() + 1);
-        }
-      } catch (error) {
-        uiLogger.warn("Invalid date parameter:", error as Error, { dateParam });
-      }
+    else if (link.date) {
+      setSelectedDate(link.date);
+      setCurrentYear(link.date.getFullYear());
+      setCurrentMonth(link.date.getMonth() + 1);
+    } else if (link.month) {
+      setCurrentYear(link.month.year);
+      setCurrentMonth(link.month.month);
     }
 
     // URL パラメータから地点 ID を処理
-    if (locationIdParam) {
-      const locationId = parseInt(locationIdParam);
-      if (!isNaN(locationId)) {
-        setSelectedLocationId(locationId);
-      }
+    if (link.locationId !== undefined) {
+      setSelectedLocationId(link.locationId);
     }
 
     // URL パラメータからイベント ID を処理
-    if (eventIdParam) {
-      setSelectedEventId(eventIdParam);
+    if (link.eventId) {
+      setSelectedEventId(link.eventId);
+    }
+
+    if (link.filters) {
+      setFilters(link.filters);
     }
+    if (link.cameraSettings) {
+      setCameraSettings(link.cameraSettings);
+    }
+    setIsLinkRestored(true);
   }, [searchParams, location.state]);
 
+  // 表示中の状態を共有リンクとして URL に反映（履歴は増やさない）
+  // 復元前に書き込むと開いたリンクの内容を既定値で上書きするため、復元後から反映する
+  useEffect(() => {
+    if (!isLinkRestored) {
+      return;
+    }
+    const query = toCalendarLinkParams({
+      date: selectedDate ?? undefined,
+      month: { year: currentYear, month: currentMonth },
+      locationId: selectedLocationId,
+      eventId: selectedEventId,
+      filters,
+      cameraSettings,
+    }).toString();
+    if (query === searchParams.toString()) {
+      return;
+    }
+    lastLinkQueryRef.current = query;
+    setSearchParams(query, { replace: true });
+  }, [
+    isLinkRestored,
+    selectedDate,
+    currentYear,
+    currentMonth,
+    selectedLocationId,
+    selectedEventId,
+    filters,
+    cameraSettings,
+    searchParams,
+    setSearchParams,
+  ]);
+
   // カレンダーデータを取得
   useEffect(() => {
     const loadCalendar = async () => {
@@ -186,6 +243,32 @@ const HomePage: React.FC = () => {
     loadLocations();
   }, []);
 
+  // 距離フィルターに当てはまる地点 ID をサーバーの範囲検索で取得（null は絞り込みなし）
+  const [distanceLocationIds, setDistanceLocationIds] = useState<Set<number> | null>(null);
+
+  useEffect(() => {
+    const distance = filters.distance;
+    if (distance === "all") {
+      setDistanceLocationIds(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadDistanceLocations = async () => {
+      const result = await apiClient.searchLocations({
+        distanceKm: DISTANCE_FILTER_RANGES[distance],
+      });
+      if (cancelled) return;
+      // 取得に失敗した場合は絞り込まずに表示する
+      setDistanceLocationIds(result ? new Set(result.map((location) => location.id)) : null);
+    };
+
+    loadDistanceLocations();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters.distance]);
+
   // locations 読み込み後に、お気に入りから来た地点 ID の存在確認
   useEffect(() => {
     if (locations.length > 0 && selectedLocationId) {
@@ -318,26 +401,9 @@ const HomePage: React.FC = () => {
     }
 
     const filtered = allEvents.filter((event) => {
-      // 距離フィルター
-      if (filters.distance !== "all") {
-        const distance = (event.location.distanceToSkytree || 0) / 1000; // メートルからキロメートルに変換
-        switch (filters.distance) {
-          case "very_near":
-            if (distance > 50) return false;
-            break;
-          case "near":
-            if (distance > 100) return false;
-            break;
-          case "medium":
-            if (distance > 200) return false;
-            break;
-          case "far":
-            if (distance > 300) return false;
-            break;
-          case "very_far":
-            if (distance <= 300) return false;
-            break;
-        }
+      // 距離フィルター（範囲検索の結果に含まれる地点のみ）
+      if (distanceLocationIds && !distanceLocationIds.has(event.location.id)) {
+        return false;
       }
 
       // イベントタイプフィルター（複数選択可能）
@@ -367,46 +433,33 @@ const HomePage: React.FC = () => {
         if (!matchesFilter) return false;
       }
 
-      // 特別イベントフィルター
+      // 重なり方フィルター（複数選択可能、分類のないイベントは除外）
+      const hasAlignmentFilter = Object.values(filters.alignment).some(Boolean);
+      if (
+        hasAlignmentFilter &&
+        (!event.alignment || !filters.alignment[event.alignment.classification])
+      ) {
+        return false;
+      }
+
+      // 特別イベントフィルター（複数選択可能、同時に起こる日食・月食・スーパームーンで判定）
       const hasSpecialEventFilter =
         filters.specialEvents.solarEclipse ||
         filters.specialEvents.lunarEclipse ||
         filters.specialEvents.supermoon;
 
       if (hasSpecialEventFilter) {
-        // 現在は基本的なダイヤモンドスカイツリー・パールスカイツリーのみなので、
-        // 特別イベントフィルターが有効な場合は結果を制限
-        // 将来的には実際の日食・月食・スーパームーンデータと照合
-
-        // 月相データがある場合の簡易的な判定（スーパームーン近似）
-        if (
-          filters.specialEvents.supermoon &&
-          event.type === "pearl" &&
-          event.moonIllumination !== undefined
-        ) {
-          // 満月に近い場合（照度 90% 以上）をスーパームーン近似として扱う
-          if (event.moonIllumination >= 0.9) {
-            return true;
-          }
-        }
+        const specialEvents = event.specialEvents ?? [];
+        let matchesFilter = false;
 
-        // 日食・月食は現在データがないため除外
-        if (
-          filters.specialEvents.solarEclipse ||
-          filters.specialEvents.lunarEclipse
-        ) {
-          return false;
-        }
+        if (filters.specialEvents.solarEclipse && specialEvents.includes("solar_eclipse"))
+          matchesFilter = true;
+        if (filters.specialEvents.lunarEclipse && specialEvents.includes("lunar_eclipse"))
+          matchesFilter = true;
+        if (filters.specialEvents.supermoon && specialEvents.includes("supermoon"))
+          matchesFilter = true;
 
-        // スーパームーンのみの場合で条件に合わない場合は除外
-        if (
-          filters.specialEvents.supermoon &&
-          (event.type !== "pearl" ||
-            !event.moonIllumination ||
-            event.moonIllumination < 0.9)
-        ) {
-          return false;
-        }
+        if (!matchesFilter) return false;
       }
 
       return true;
@@ -419,7 +472,7 @@ const HomePage: React.FC = () => {
     });
     
     return filtered;
-  }, [dayEvents, elevationVirtualEvents, filters]);
+  }, [dayEvents, elevationVirtualEvents, filters, distanceLocationIds]);
 
   // 初回の検索後に最初の地点を自動選択（日付が変更された時のみ）
   const [hasAutoSelected, setHasAutoSelected] = useState(false);
@@ -539,14 +592,17 @@ const HomePage: React.FC = () => {
               <h1 className="text-2xl font-bold text-gray-900">
                 日付検索
               </h1>
-              <button
-                onClick={() => navigate("/map-search")}
-                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium flex items-center gap-2 transition-colors"
-                title="地図で選択した地点のイベントを検索"
-              >
-                <Icon name="search" size={16} />
-                地図検索
-              </button>
+              <div className="flex gap-2">
+                <CopyLinkButton />
+                <button
+                  onClick={() => navigate("/map-search")}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium flex items-center gap-2 transition-colors"
+                  title="地図で選択した地点のイベントを検索"
+                >
+                  <Icon name="search" size={16} />
+                  地図検索
+                </button>
+              </div>
             </div>
 
             <SimpleCalendar
@@ -595,13 +651,15 @@ const HomePage: React.FC = () => {
 
             {selectedDate && !isDateSearchLoading && filteredEvents.length > 0 && (
               <LazyMap
-                locations={locations}
+                locations={locations.filter((location) => location.id === selectedLocationId)}
                 events={filteredEvents}
                 selectedLocationId={selectedLocationId}
                 selectedEventId={selectedEventId}
                 onLocationSelect={(locationId) => setSelectedLocationId(locationId)}
                 onEventSelect={(eventId) => setSelectedEventId(eventId)}
                 cameraSettings={cameraSettings}
+                showLocationsInView
+                viewportFallbackLocations={locations}
               />
             )}
 
@@ -619,6 +677,10 @@ const HomePage: React.FC = () => {
                 <CameraPanel
                   cameraSettings={cameraSettings}
                   onCameraSettingsChange={setCameraSettings}
+                  location={
+                    filteredEvents.find((event) => event.location.id === selectedLocationId)
+                      ?.location
+                  }
                 />
               </div>
             )}
@@ -630,6 +692,7 @@ const HomePage: React.FC = () => {
                 date={selectedDate}
                 events={filteredEvents}
                 selectedLocationId={selectedLocationId}
+                cameraSettings={cameraSettings}
                 onLocationSelect={(location) => {
                   if (location) {
                     setSelectedLocationId(location.id);
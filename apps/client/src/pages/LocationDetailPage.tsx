@@ -6,6 +6,9 @@ import { timeUtils } from "@skytree-photo-planner/utils";
 import { useFavorites } from "../hooks/useFavorites";
 import { getComponentLogger } from "@skytree-photo-planner/utils";
 import SimpleMap from "../components/SimpleMap";
+import DayTimeline from "../components/DayTimeline";
+import LocationPhotoGallery from "../components/LocationPhotoGallery";
+import CameraPanel, { CameraSettings } from "../components/CameraPanel";
 import { Icon } from "@skytree-photo-planner/ui";
 import { getLocationNearby } from "../utils/geocoding";
 
@@ -25,6 +28,16 @@ const LocationDetailPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [locationAddress, setLocationAddress] = useState<string | null>(null);
+  const [timelineDate, setTimelineDate] = useState<string>(() =>
+    timeUtils.formatDateString(new Date()),
+  );
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>({
+    showAngles: false,
+    focalLength: 50,
+    sensorType: "fullframe",
+    aspectRatio: "3:2",
+    orientation: "landscape",
+  });
 
   useEffect(() => {
     const loadLocationDetail = async () => {
@@ -423,6 +436,25 @@ const LocationDetailPage: React.FC = () => {
               </div>
             </div>
 
+            {/* 1 日のタイムライン（登録済み地点のみ） */}
+            {location.id > 0 && (
+              <div className={"bg-white rounded-lg shadow-sm border border-gray-200 p-6"}>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className={"text-lg font-semibold text-gray-900 flex items-center"}>
+                    <Icon name="clock" size={18} className="inline mr-2" />{" "}
+                    1 日のタイムライン
+                  </h2>
+                  <input
+                    type="date"
+                    value={timelineDate}
+                    onChange={(e) => e.target.value && setTimelineDate(e.target.value)}
+                    className="text-sm border border-gray-300 rounded px-2 py-1"
+                  />
+                </div>
+                <DayTimeline locationId={location.id} date={timelineDate} />
+              </div>
+            )}
+
             {/* アクセス情報 */}
             {(location.accessInfo ||
               location.parkingInfo ||
@@ -469,11 +501,24 @@ const LocationDetailPage: React.FC = () => {
               </div>
             )}
 
+            {/* 参考写真（登録済み地点のみ） */}
+            {location.id > 0 && <LocationPhotoGallery locationId={location.id} />}
+
             {/* 今後のイベント */}
             <div className={"bg-white rounded-lg shadow-sm border border-gray-200 p-6"}>
               <h2 className={"text-lg font-semibold text-gray-900 mb-4 flex items-center"}>
                 <Icon name="calendar" size={18} className="inline mr-2" />{" "}
                 今後の撮影チャンス
+                <a
+                  href={apiClient.getLocationCalendarFeedUrl(
+                    location.id,
+                    new Date().getFullYear(),
+                  )}
+                  className="ml-auto text-sm font-normal text-blue-600 hover:text-blue-800"
+                  title="この URL をカレンダーアプリに登録すると、今年のイベントを購読できます"
+                >
+                  カレンダーに追加 (.ics)
+                </a>
               </h2>
 
               {upcomingEvents.length === 0 ? (
@@ -576,17 +621,18 @@ const LocationDetailPage: React.FC = () => {
                   onLocationSelect={() => {
                     logger.debug('地図で地点選択', { location });
                   }}
-                  cameraSettings={{
-                    showAngles: false,
-                    focalLength: 50,
-                    sensorType: "fullframe",
-                    aspectRatio: "3:2",
-                    orientation: "landscape",
-                  }}
+                  cameraSettings={cameraSettings}
                   mapStyle={{ aspectRatio: "1 / 1", height: "400px" }}
                 />
               </div>
             </div>
+
+            {/* 撮影設定と構図（塔・太陽・月の写る大きさ） */}
+            <CameraPanel
+              cameraSettings={cameraSettings}
+              onCameraSettingsChange={setCameraSettings}
+              location={location}
+            />
           </div>
         </div>
       </div>
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from "react";
+import type { LocationRequestConfig } from "@skytree-photo-planner/types";
+import { Icon } from "@skytree-photo-planner/ui";
+import { apiClient } from "../services/apiClient";
+import CaptchaWidget from "../components/CaptchaWidget";
+import LocationPicker from "../components/LocationPicker";
+import { PREFECTURES } from "../components/admin/LocationFormModal";
+
+interface RequestForm {
+  name: string;
+  prefecture: string;
+  description: string;
+  coordinates: { latitude: number; longitude: number } | null;
+}
+
+const EMPTY_FORM: RequestForm = {
+  name: "",
+  prefecture: "",
+  description: "",
+  coordinates: null,
+};
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+/**
+ * 撮影地点の追加リクエスト（一般の利用者からの提案）
+ * 管理者が内容を確認して承認すると撮影地点として登録される
+ */
+const LocationRequestPage: React.FC = () => {
+  const [config, setConfig] = useState<LocationRequestConfig | null>(null);
+  const [form, setForm] = useState<RequestForm>(EMPTY_FORM);
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  // 送信に失敗したら画像認証を作り直す
+  const [captchaKey, setCaptchaKey] = useState(0);
+  const [showPicker, setShowPicker] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [completedMessage, setCompletedMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiClient
+      .getLocationRequestConfig()
+      .then(setConfig)
+      .catch(() => setError("フォームの読み込みに失敗しました。時間をおいて再度お試しください。"));
+  }, []);
+
+  const captchaRequired = !!config?.captcha;
+
+  const updateForm = (changes: Partial<RequestForm>) => {
+    setForm((current) => ({ ...current, ...changes }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (captchaRequired && !captchaToken) {
+      setError("画像認証を完了してください。");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const message = await apiClient.submitLocationRequest({
+        name: form.name.trim(),
+        prefecture: form.prefecture,
+        description: form.description.trim(),
+        suggestedCoordinates: form.coordinates ?? undefined,
+        captchaToken: captchaToken ?? "",
+      });
+      setCompletedMessage(message);
+      setForm(EMPTY_FORM);
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "送信に失敗しました。");
+      setCaptchaToken(null);
+      setCaptchaKey((key) => key + 1);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto p-8">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+            <Icon name="mapPin" size={24} className="mr-3 text-blue-600" />
+            撮影地点を提案する
+          </h1>
+          <p className="text-gray-600 mb-6">
+            スカイツリーを撮影できる場所を教えてください。管理者が確認したうえで撮影地点として登録し、ダイヤモンド・パールスカイツリーの日時を計算します。
+          </p>
+
+          {completedMessage ? (
+            <div className="space-y-4">
+              <div className="bg-green-50 border border-green-200 rounded-md p-4 text-green-800 flex items-start">
+                <Icon name="checkCircle" size={20} className="mr-2 mt-0.5 flex-shrink-0" />
+                <p>{completedMessage}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  setCompletedMessage(null);
+                  setCaptchaToken(null);
+                  setCaptchaKey((key) => key + 1);
+                }}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                別の地点を提案する
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    地点名 <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    maxLength={100}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    placeholder="例: 旧中川 ふれあい橋"
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    都道府県 <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    value={form.prefecture}
+                    onChange={(e) => updateForm({ prefecture: e.target.value })}
+                    className={inputClassName}
+                    required
+                  >
+                    <option value="">選択してください</option>
+                    {PREFECTURES.map((prefecture) => (
+                      <option key={prefecture} value={prefecture}>
+                        {prefecture}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  説明 <span className="text-red-500">*</span>
+                </label>
+                <textarea
+                  value={form.description}
+                  maxLength={1000}
+                  rows={5}
+                  onChange={(e) => updateForm({ description: e.target.value })}
+                  placeholder="撮影できる場所の様子、見え方、アクセス・駐車場などを書いてください"
+                  className={inputClassName}
+                  required
+                />
+                <p className="text-xs text-gray-500 mt-1">{form.description.length} / 1000</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">位置（任意）</label>
+                <div className="flex flex-wrap items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setShowPicker(true)}
+                    className="px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors flex items-center"
+                  >
+                    <Icon name="map" size={16} className="mr-1" />
+                    地図で選択
+                  </button>
+                  {form.coordinates && (
+                    <>
+                      <span className="text-sm text-gray-700">
+                        緯度 {form.coordinates.latitude.toFixed(6)}°, 経度{" "}
+                        {form.coordinates.longitude.toFixed(6)}°
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => updateForm({ coordinates: null })}
+                        className="text-sm text-red-600 hover:text-red-800"
+                      >
+                        クリア
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {config?.captcha && (
+                <CaptchaWidget
+                  key={captchaKey}
+                  provider={config.captcha.provider}
+                  siteKey={config.captcha.siteKey}
+                  onToken={setCaptchaToken}
+                />
+              )}
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={submitting || !config || (captchaRequired && !captchaToken)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {submitting ? "送信中..." : "提案を送信"}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {showPicker && (
+        <LocationPicker
+          onLocationSelect={(latitude, longitude) => {
+            updateForm({ coordinates: { latitude, longitude } });
+            setShowPicker(false);
+          }}
+          initialLat={form.coordinates?.latitude}
+          initialLng={form.coordinates?.longitude}
+          onClose={() => setShowPicker(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LocationRequestPage;
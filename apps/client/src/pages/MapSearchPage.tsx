@@ -1,14 +1,35 @@
 import React, { useState, useRef } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import { Icon } from "@skytree-photo-planner/ui";
 import { useFavorites } from "../hooks/useFavorites";
 import { MapPin } from "lucide-react";
+import type {
+  AlignmentLine,
+  AlignmentTarget,
+  MapComparison,
+  MapSearchJobHandle,
+  MapSearchJobStatus,
+  RegionCandidate,
+  RegionRecommendation,
+} from "@skytree-photo-planner/types";
+import { timeUtils } from "@skytree-photo-planner/utils";
 import { mapLogger } from "../utils/logger";
 import { apiClient } from "../services/apiClient";
+import type {
+  MapCompareRequest,
+  MapSearchEvent,
+  MapSearchRequest,
+  RegionRecommendationRequest,
+} from "../services/apiClient";
+import CopyLinkButton from "../components/CopyLinkButton";
+import MapComparisonTable from "../components/MapComparisonTable";
+import RegionRecommendationList, { getHeatColor } from "../components/RegionRecommendationList";
 import { fetchElevation } from "../utils/elevationApi";
 import { reverseGeocode, generateGoogleMapsNavUrl, generateGoogleMapsViewUrl } from "../utils/geocodingApi";
+import { fromMapSearchLinkParams, toMapSearchLinkParams } from "../utils/shareLink";
+import type { MapSearchLinkState } from "../utils/shareLink";
 
 // 検索モード定義
 export type SearchMode = "auto" | "fast" | "balanced" | "precise";
@@ -26,6 +47,7 @@ export interface MapSearchParams {
   // 検索条件
   scene: ShootingScene;
   searchMode: SearchMode;
+  target: string; // 目標点 ID（空文字は頂部基準の従来判定）
   
   // 検索範囲
   startDate: Date;
@@ -44,6 +66,7 @@ export interface MapSearchResult {
   qualityScore: number;
   moonPhase?: number;
   moonIllumination?: number;
+  target?: AlignmentTarget;
 }
 
 const MapSearchPage: React.FC = () => {
@@ -52,39 +75,160 @@ const MapSearchPage: React.FC = () => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<L.Map | null>(null);
   const markerRef = useRef<L.Marker | null>(null);
+  const alignmentLineLayerRef = useRef<L.LayerGroup | null>(null);
+  const comparisonLayerRef = useRef<L.LayerGroup | null>(null);
+  const regionLayerRef = useRef<L.LayerGroup | null>(null);
+
+  // 共有リンク（URL パラメータ）の検索条件は初期状態として一度だけ読む
+  const [urlParams, setUrlParams] = useSearchParams();
+  const [initialLink] = useState(() => fromMapSearchLinkParams(urlParams));
+  const hasRunLinkSearchRef = useRef(false);
+  // 最後に実行した検索の種類（共有リンクを開いたときに同じ検索を実行する）
+  const [lastRun, setLastRun] = useState<MapSearchLinkState["run"]>(initialLink.run);
 
   // 検索条件の状態管理
   const [searchParams, setSearchParams] = useState<MapSearchParams>({
-    latitude: 35.7100069,
-    longitude: 139.8108103,
-    elevation: 0,
-    scene: "all",
-    searchMode: "auto",
-    startDate: new Date(),
-    endDate: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), // 3 ヶ月後
+    latitude: initialLink.point?.latitude ?? 35.7100069,
+    longitude: initialLink.point?.longitude ?? 139.8108103,
+    elevation: initialLink.point?.elevation ?? 0,
+    scene: initialLink.scene ?? "all",
+    searchMode: initialLink.searchMode ?? "auto",
+    target: initialLink.target ?? "",
+    startDate: initialLink.startDate ?? new Date(),
+    endDate: initialLink.endDate ?? new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), // 3 ヶ月後
   });
 
   const [isSearching, setIsSearching] = useState(false);
   const [searchResults, setSearchResults] = useState<MapSearchResult[]>([]);
+  // 地図検索ジョブ（キューで非同期実行）の状態
+  const [searchJob, setSearchJob] = useState<MapSearchJobHandle | null>(null);
+  const [searchProgress, setSearchProgress] = useState<MapSearchJobStatus | null>(null);
+  const [searchNotice, setSearchNotice] = useState<string | null>(null);
+  const stopWatchingSearchJobRef = useRef<(() => void) | null>(null);
+  // 比較検索（複数の候補地点）の状態
+  const [comparisonPoints, setComparisonPoints] = useState<MapCompareRequest["points"]>(
+    initialLink.comparisonPoints ?? [],
+  );
+  const [comparison, setComparison] = useState<MapComparison | null>(null);
+  // 範囲内のおすすめ地点の状態（描画中は地図クリックで頂点を追加する）
+  const [regionPolygon, setRegionPolygon] = useState<RegionRecommendationRequest["polygon"]>(
+    initialLink.polygon ?? [],
+  );
+  const [isDrawingRegion, setIsDrawingRegion] = useState(false);
+  const isDrawingRegionRef = useRef(false);
+  const [regionRecommendation, setRegionRecommendation] = useState<RegionRecommendation | null>(null);
   const [isLoadingElevation, setIsLoadingElevation] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
-  const [isLocationSelected, setIsLocationSelected] = useState(false);
+  const [isLocationSelected, setIsLocationSelected] = useState(initialLink.point !== undefined);
   const [locationAddress, setLocationAddress] = useState<string>("");
   
   // 検索結果表示用の状態
   const [currentPage, setCurrentPage] = useState(1);
   const [resultsPerPage] = useState(12);
-  const [sortBy, setSortBy] = useState<"time" | "accuracy">("time");
-  const [filterType, setFilterType] = useState<"all" | "diamond" | "pearl">("all");
+  const [sortBy, setSortBy] = useState<"time" | "accuracy">(initialLink.sortBy ?? "time");
+  const [filterType, setFilterType] = useState<"all" | "diamond" | "pearl">(
+    initialLink.filterType ?? "all",
+  );
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [addressSearchQuery, setAddressSearchQuery] = useState<string>("");
   const [isSearchingAddress, setIsSearchingAddress] = useState(false);
+  const [alignmentTargets, setAlignmentTargets] = useState<AlignmentTarget[]>([]);
+
+  // 整列線（日付から撮影地点を求める逆検索）の状態
+  const [alignmentLineParams, setAlignmentLineParams] = useState<{
+    date: string;
+    scene: "diamond" | "pearl";
+    startTime: string;
+    endTime: string;
+  }>({
+    date: timeUtils.formatDateString(new Date()),
+    scene: "diamond",
+    startTime: "04:00",
+    endTime: "20:00",
+  });
+  const [alignmentLine, setAlignmentLine] = useState<AlignmentLine | null>(null);
+  const [isLoadingAlignmentLine, setIsLoadingAlignmentLine] = useState(false);
+  const [alignmentLineError, setAlignmentLineError] = useState<string | null>(null);
   
   // スカイツリーの座標
   const SKYTREE_LAT = 35.7100069;
   const SKYTREE_LNG = 139.8108103;
   const SKYTREE_HEIGHT = 634; // スカイツリーの高さ（m）
+  const MAX_COMPARISON_POINTS = 5;
+  const METERS_PER_DEGREE = 111195; // 緯度 1 度あたりの距離（m）
+
+
+  // ページを離れたら地図検索ジョブの進捗の購読を解除
+  React.useEffect(() => {
+    return () => {
+      stopWatchingSearchJobRef.current?.();
+    };
+  }, []);
+
+  // 共有リンクで開いた場合は地点の住所を取得し、リンク作成時と同じ検索を実行
+  React.useEffect(() => {
+    if (hasRunLinkSearchRef.current) return;
+    hasRunLinkSearchRef.current = true;
 
+    if (initialLink.point) {
+      reverseGeocode(initialLink.point.latitude, initialLink.point.longitude)
+        .then(setLocationAddress)
+        .catch((error) => mapLogger.warn("住所取得エラー", error as Error, initialLink.point));
+    }
+    if (initialLink.run === "search" && initialLink.point) {
+      handleSearch();
+    } else if (initialLink.run === "compare" && comparisonPoints.length > 0) {
+      handleCompare();
+    } else if (initialLink.run === "region" && regionPolygon.length >= 3) {
+      handleRecommendRegion();
+    }
+    // 初回表示時のみ実行（検索条件は共有リンクから初期化済み）
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // 表示中の検索条件を共有リンクとして URL に反映（履歴は増やさない）
+  React.useEffect(() => {
+    const query = toMapSearchLinkParams({
+      point: isLocationSelected
+        ? {
+            latitude: searchParams.latitude,
+            longitude: searchParams.longitude,
+            elevation: searchParams.elevation,
+          }
+        : undefined,
+      scene: searchParams.scene,
+      searchMode: searchParams.searchMode,
+      target: searchParams.target,
+      startDate: searchParams.startDate,
+      endDate: searchParams.endDate,
+      comparisonPoints,
+      polygon: isDrawingRegion ? undefined : regionPolygon,
+      run: lastRun,
+      sortBy,
+      filterType,
+    }).toString();
+    if (query !== urlParams.toString()) {
+      setUrlParams(query, { replace: true });
+    }
+  }, [
+    searchParams,
+    isLocationSelected,
+    comparisonPoints,
+    regionPolygon,
+    isDrawingRegion,
+    lastRun,
+    sortBy,
+    filterType,
+    urlParams,
+    setUrlParams,
+  ]);
+
+  // 目標点一覧の取得
+  React.useEffect(() => {
+    apiClient.getAlignmentTargets().then((response) => {
+      setAlignmentTargets(response.targets);
+    });
+  }, []);
 
   // 地図の初期化
   React.useEffect(() => {
@@ -149,6 +293,13 @@ const MapSearchPage: React.FC = () => {
     // 地図クリックイベント
     map.on("click", (e: L.LeafletMouseEvent) => {
       const { lat, lng } = e.latlng;
+      if (isDrawingRegionRef.current) {
+        setRegionPolygon((prev) => [
+          ...prev,
+          { latitude: Number(lat.toFixed(6)), longitude: Number(lng.toFixed(6)) },
+        ]);
+        return;
+      }
       marker.setLatLng([lat, lng]);
       updateLocationWithElevation(lat, lng);
     });
@@ -162,6 +313,182 @@ const MapSearchPage: React.FC = () => {
     };
   }, []);
 
+  // 整列線の描画（時間が連続する区間ごとに折れ線を引き、30 分ごとに時刻を表示）
+  React.useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    alignmentLineLayerRef.current?.remove();
+    alignmentLineLayerRef.current = null;
+    if (!alignmentLine || alignmentLine.points.length === 0) return;
+
+    const layer = L.layerGroup().addTo(map);
+    alignmentLineLayerRef.current = layer;
+    const color = alignmentLine.type === "diamond" ? "#f97316" : "#3b82f6";
+    const stepMs = alignmentLine.stepMinutes * 60 * 1000;
+
+    const segments: AlignmentLine["points"][] = [];
+    alignmentLine.points.forEach((point, index) => {
+      const previous = alignmentLine.points[index - 1];
+      if (!previous || point.time.getTime() - previous.time.getTime() > stepMs) {
+        segments.push([]);
+      }
+      segments[segments.length - 1].push(point);
+    });
+    segments.forEach((segment) => {
+      L.polyline(
+        segment.map((point) => [point.latitude, point.longitude] as [number, number]),
+        { color, weight: 3, opacity: 0.8 },
+      ).addTo(layer);
+    });
+
+    alignmentLine.points.forEach((point) => {
+      const time = point.time.toLocaleTimeString("ja-JP", {
+        hour: "2-digit",
+        minute: "2-digit",
+        timeZone: "Asia/Tokyo",
+      });
+      const heightText =
+        point.requiredObserverHeight > 0
+          ? `必要な海抜高度 約${point.requiredObserverHeight}m`
+          : "地上から撮影可能";
+      const circle = L.circleMarker([point.latitude, point.longitude], {
+        radius: 3,
+        color,
+        fillColor: color,
+        fillOpacity: 1,
+        bubblingMouseEvents: false,
+      })
+        .addTo(layer)
+        .bindPopup(
+          `<b>${time}</b><br>スカイツリーまで ${(point.distance / 1000).toFixed(1)}km<br>` +
+            `天体の高度 ${point.bodyElevation.toFixed(1)}°<br>${heightText}`,
+        );
+      // 地図クリックと同じ処理で点の位置を撮影地点として選択
+      circle.on("click", () => {
+        map.fire("click", { latlng: L.latLng(point.latitude, point.longitude) });
+      });
+
+      if (point.time.getMinutes() % 30 === 0) {
+        circle.bindTooltip(time, {
+          permanent: true,
+          direction: "right",
+          className: "text-xs",
+        });
+      }
+    });
+
+    map.fitBounds(
+      L.latLngBounds(
+        alignmentLine.points.map((point) => [point.latitude, point.longitude] as [number, number]),
+      ),
+      { padding: [40, 40] },
+    );
+  }, [alignmentLine]);
+
+  // 比較地点の描画（番号付きの円で表示）
+  React.useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    comparisonLayerRef.current?.remove();
+    comparisonLayerRef.current = null;
+    if (comparisonPoints.length === 0) return;
+
+    const layer = L.layerGroup().addTo(map);
+    comparisonLayerRef.current = layer;
+    comparisonPoints.forEach((point, index) => {
+      L.circleMarker([point.latitude, point.longitude], {
+        radius: 8,
+        color: "#7c3aed",
+        fillColor: "#7c3aed",
+        fillOpacity: 0.6,
+      })
+        .addTo(layer)
+        .bindTooltip(`${index + 1}`, { permanent: true, direction: "center", className: "text-xs" })
+        .bindPopup(point.label ?? `地点 ${index + 1}`);
+    });
+  }, [comparisonPoints]);
+
+  // 範囲とおすすめ地点のヒートマップの描画（格子点ごとに総合スコアで塗り分けた四角形）
+  React.useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    regionLayerRef.current?.remove();
+    regionLayerRef.current = null;
+    if (regionPolygon.length === 0) return;
+
+    const layer = L.layerGroup().addTo(map);
+    regionLayerRef.current = layer;
+    const latLngs = regionPolygon.map(
+      (vertex) => [vertex.latitude, vertex.longitude] as [number, number],
+    );
+    if (isDrawingRegion) {
+      L.polyline(latLngs, { color: "#0f766e", weight: 2, dashArray: "6 4" }).addTo(layer);
+      latLngs.forEach((latLng) => {
+        L.circleMarker(latLng, { radius: 4, color: "#0f766e", fillOpacity: 1 }).addTo(layer);
+      });
+      return;
+    }
+    L.polygon(latLngs, {
+      color: "#0f766e",
+      weight: 2,
+      fillOpacity: regionRecommendation ? 0 : 0.1,
+      interactive: false,
+    }).addTo(layer);
+
+    if (!regionRecommendation || regionRecommendation.candidates.length === 0) return;
+    const scores = regionRecommendation.candidates.map((candidate) => candidate.score);
+    const minScore = Math.min(...scores);
+    const maxScore = Math.max(...scores);
+    // 格子の半分の大きさ（度）
+    const halfLatitude = regionRecommendation.gridSpacing / 2 / METERS_PER_DEGREE;
+    regionRecommendation.candidates.forEach((candidate) => {
+      const halfLongitude =
+        halfLatitude / Math.cos((candidate.latitude * Math.PI) / 180);
+      const color = getHeatColor(candidate.score, minScore, maxScore);
+      const cell = L.rectangle(
+        [
+          [candidate.latitude - halfLatitude, candidate.longitude - halfLongitude],
+          [candidate.latitude + halfLatitude, candidate.longitude + halfLongitude],
+        ],
+        { color, weight: 0, fillColor: color, fillOpacity: 0.5, bubblingMouseEvents: false },
+      )
+        .addTo(layer)
+        .bindTooltip(
+          `${candidate.rank} 位 スコア ${candidate.score}（イベント ${candidate.eventCount} 件）`,
+          { permanent: candidate.rank <= 3, direction: "top", className: "text-xs" },
+        );
+      // 地図クリックと同じ処理で格子点を撮影地点として選択
+      cell.on("click", () => {
+        map.fire("click", { latlng: L.latLng(candidate.latitude, candidate.longitude) });
+      });
+    });
+  }, [regionPolygon, isDrawingRegion, regionRecommendation]);
+
+  // 整列線の取得
+  const handleShowAlignmentLine = async () => {
+    try {
+      setIsLoadingAlignmentLine(true);
+      setAlignmentLineError(null);
+      const line = await apiClient.getAlignmentLine(alignmentLineParams);
+      setAlignmentLine(line);
+      if (line.points.length === 0) {
+        setAlignmentLineError("指定した時間帯に重なる地点はありません");
+      }
+      mapLogger.info("整列線取得完了", {
+        ...alignmentLineParams,
+        pointCount: line.points.length,
+      });
+    } catch (error) {
+      mapLogger.error("整列線取得エラー", error as Error, { alignmentLineParams });
+      setAlignmentLineError("整列線の計算に失敗しました");
+    } finally {
+      setIsLoadingAlignmentLine(false);
+    }
+  };
+
   // 検索パラメータの更新
   const updateSearchParams = (updates: Partial<MapSearchParams>) => {
     setSearchParams((prev) => ({ ...prev, ...updates }));
@@ -197,14 +524,109 @@ const MapSearchPage: React.FC = () => {
     }
   };
 
+  const toMapSearchResult = (event: MapSearchEvent): MapSearchResult => ({
+    id: event.id,
+    type: event.type,
+    subType: event.subType,
+    time: event.time,
+    azimuth: event.azimuth,
+    elevation: event.elevation,
+    accuracy: event.accuracy,
+    qualityScore: event.qualityScore,
+    moonPhase: event.moonPhase,
+    moonIllumination: event.moonIllumination,
+    target: event.target,
+  });
+
+  // 地図検索ジョブの終了処理
+  const finishSearchJob = () => {
+    stopWatchingSearchJobRef.current?.();
+    stopWatchingSearchJobRef.current = null;
+    setSearchJob(null);
+    setIsSearching(false);
+  };
+
+  // 完了した地図検索ジョブの結果を全ページ読み込む
+  const loadSearchJobResults = async (job: MapSearchJobHandle) => {
+    const results: MapSearchResult[] = [];
+    let page = 1;
+    let totalPages = 1;
+    do {
+      const response = await apiClient.getMapSearchJobResults(job, page);
+      results.push(...response.events.map(toMapSearchResult));
+      totalPages = response.pagination.totalPages;
+      page++;
+    } while (page <= totalPages);
+    return results;
+  };
+
+  // 完了した比較検索ジョブの比較表を全ページ読み込む
+  const loadCompareJobResults = async (job: MapSearchJobHandle) => {
+    let result: MapComparison | null = null;
+    let page = 1;
+    let totalPages = 1;
+    do {
+      const response = await apiClient.getMapCompareJobResults(job, page);
+      result = result
+        ? { ...result, rows: [...result.rows, ...response.comparison.rows] }
+        : response.comparison;
+      totalPages = response.pagination.totalPages;
+      page++;
+    } while (page <= totalPages);
+    return result;
+  };
+
+  // 新しい検索の開始時に前回の結果・進捗をクリア
+  const startNewSearch = () => {
+    setIsSearching(true);
+    setHasSearched(true);
+    setSearchResults([]);
+    setComparison(null);
+    setRegionRecommendation(null);
+    setSearchProgress(null);
+    setSearchNotice(null);
+  };
+
+  // 地図検索ジョブの進捗を購読し、完了したら onCompleted で結果を読み込む
+  const watchSearchJob = (job: MapSearchJobHandle, onCompleted: () => Promise<void>) => {
+    const { jobId } = job;
+    setSearchJob(job);
+    stopWatchingSearchJobRef.current = apiClient.watchMapSearchJob(job, {
+      onProgress: setSearchProgress,
+      onFinish: async (status) => {
+        setSearchProgress(status);
+        try {
+          if (status.state === "completed") {
+            await onCompleted();
+          } else if (status.state === "cancelled") {
+            setSearchNotice("検索を中断しました");
+          } else {
+            setSearchNotice("検索中にエラーが発生しました");
+            mapLogger.error("地図検索ジョブ失敗", new Error(status.error ?? "Unknown error"), { jobId });
+          }
+        } catch (error) {
+          setSearchNotice("検索結果の取得に失敗しました");
+          mapLogger.error("地図検索結果取得エラー", error as Error, { jobId });
+        } finally {
+          finishSearchJob();
+        }
+      },
+      onError: (message) => {
+        setSearchNotice(message);
+        finishSearchJob();
+      },
+    });
+  };
+
   // 検索実行
   const handleSearch = async () => {
     try {
-      setIsSearching(true);
-      setHasSearched(true);
+      startNewSearch();
+      setLastRun("search");
+      setCurrentPage(1);
       mapLogger.info("地図検索開始", { searchParams });
 
-      const response = await apiClient.mapSearch({
+      const request: MapSearchRequest = {
         latitude: searchParams.latitude,
         longitude: searchParams.longitude,
         elevation: searchParams.elevation,
@@ -212,34 +634,158 @@ const MapSearchPage: React.FC = () => {
         searchMode: searchParams.searchMode,
         startDate: searchParams.startDate,
         endDate: searchParams.endDate,
-      });
+        target: searchParams.target || undefined,
+      };
+      const job = await apiClient.createMapSearchJob(request);
 
-      const results = response.events.map((event): MapSearchResult => ({
-        id: event.id,
-        type: event.type,
-        subType: event.subType,
-        time: event.time,
-        azimuth: event.azimuth,
-        elevation: event.elevation,
-        accuracy: event.accuracy,
-        qualityScore: event.qualityScore,
-        moonPhase: event.moonPhase,
-        moonIllumination: event.moonIllumination,
-      }));
-
-      setSearchResults(results);
-      mapLogger.info("地図検索完了", { 
-        totalResults: results.length,
-        searchParams: response.searchParams,
-        metadata: response.metadata 
+      // 地図検索はジョブでのみ実行する（長期間の検索に対応するため同期 API はない）
+      if (!job) {
+        setSearchNotice("現在地図検索を利用できません。時間をおいて再度お試しください");
+        setIsSearching(false);
+        return;
+      }
+
+      watchSearchJob(job, async () => {
+        const results = await loadSearchJobResults(job);
+        setSearchResults(results);
+        mapLogger.info("地図検索完了", { jobId: job.jobId, totalResults: results.length });
       });
     } catch (error) {
       mapLogger.error("地図検索エラー", error as Error, { searchParams });
-    } finally {
+      setSearchNotice("検索中にエラーが発生しました");
+      setIsSearching(false);
+    }
+  };
+
+  // 比較地点の追加（現在選択している地点）
+  const handleAddComparisonPoint = () => {
+    if (comparisonPoints.length >= MAX_COMPARISON_POINTS) return;
+    setComparisonPoints((prev) => [
+      ...prev,
+      {
+        label: locationAddress || `地点 ${prev.length + 1}`,
+        latitude: searchParams.latitude,
+        longitude: searchParams.longitude,
+        elevation: searchParams.elevation,
+      },
+    ]);
+  };
+
+  const handleRemoveComparisonPoint = (index: number) => {
+    setComparisonPoints((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // 比較検索の実行（進捗・中断は地図検索ジョブと共通）
+  const handleCompare = async () => {
+    try {
+      startNewSearch();
+      setLastRun("compare");
+      mapLogger.info("比較検索開始", { pointCount: comparisonPoints.length });
+
+      const request: MapCompareRequest = {
+        points: comparisonPoints,
+        scene: searchParams.scene,
+        searchMode: searchParams.searchMode,
+        startDate: searchParams.startDate,
+        endDate: searchParams.endDate,
+        target: searchParams.target || undefined,
+      };
+      const job = await apiClient.createMapCompareJob(request);
+
+      // 比較検索はジョブでのみ実行する（計算量が多く同期 API はない）
+      if (!job) {
+        setSearchNotice("現在比較検索を利用できません。時間をおいて再度お試しください");
+        setIsSearching(false);
+        return;
+      }
+
+      watchSearchJob(job, async () => {
+        const result = await loadCompareJobResults(job);
+        setComparison(result);
+        mapLogger.info("比較検索完了", { jobId: job.jobId, rowCount: result.rows.length });
+      });
+    } catch (error) {
+      mapLogger.error("比較検索エラー", error as Error, { pointCount: comparisonPoints.length });
+      setSearchNotice("比較検索中にエラーが発生しました");
+      setIsSearching(false);
+    }
+  };
+
+  // 範囲の描画開始（前回の範囲とおすすめ地点はクリア）
+  const handleStartDrawingRegion = () => {
+    isDrawingRegionRef.current = true;
+    setIsDrawingRegion(true);
+    setRegionPolygon([]);
+    setRegionRecommendation(null);
+  };
+
+  const handleFinishDrawingRegion = () => {
+    isDrawingRegionRef.current = false;
+    setIsDrawingRegion(false);
+  };
+
+  const handleClearRegion = () => {
+    handleFinishDrawingRegion();
+    setRegionPolygon([]);
+    setRegionRecommendation(null);
+  };
+
+  // おすすめ地点を撮影地点として選択
+  const handleSelectRegionCandidate = (candidate: RegionCandidate) => {
+    markerRef.current?.setLatLng([candidate.latitude, candidate.longitude]);
+    mapRef.current?.panTo([candidate.latitude, candidate.longitude]);
+    updateLocationWithElevation(candidate.latitude, candidate.longitude);
+  };
+
+  // 範囲内のおすすめ地点の検索（進捗・中断は地図検索ジョブと共通）
+  const handleRecommendRegion = async () => {
+    try {
+      startNewSearch();
+      setLastRun("region");
+      mapLogger.info("おすすめ地点検索開始", { vertexCount: regionPolygon.length });
+
+      const request: RegionRecommendationRequest = {
+        polygon: regionPolygon,
+        scene: searchParams.scene,
+        startDate: searchParams.startDate,
+        endDate: searchParams.endDate,
+        target: searchParams.target || undefined,
+      };
+      const job = await apiClient.createRegionRecommendationJob(request);
+
+      // おすすめ地点はジョブでのみ検索する（計算量が多く同期 API はない）
+      if (!job) {
+        setSearchNotice("現在おすすめ地点の検索を利用できません。時間をおいて再度お試しください");
+        setIsSearching(false);
+        return;
+      }
+
+      watchSearchJob(job, async () => {
+        const result = await apiClient.getRegionRecommendationJobResults(job);
+        setRegionRecommendation(result);
+        mapLogger.info("おすすめ地点検索完了", {
+          jobId: job.jobId,
+          candidateCount: result.candidates.length,
+        });
+      });
+    } catch (error) {
+      mapLogger.error("おすすめ地点検索エラー", error as Error, { vertexCount: regionPolygon.length });
+      setSearchNotice(
+        error instanceof Error ? error.message : "おすすめ地点の検索中にエラーが発生しました",
+      );
       setIsSearching(false);
     }
   };
 
+  // 地図検索ジョブの中断（終了は進捗の購読で受け取る）
+  const handleCancelSearch = async () => {
+    if (!searchJob) return;
+    const cancelled = await apiClient.cancelMapSearchJob(searchJob);
+    if (!cancelled) {
+      mapLogger.warn("地図検索ジョブを中断できませんでした", undefined, { jobId: searchJob.jobId });
+    }
+  };
+
   // 検索モードの説明
   const getSearchModeDescription = (mode: SearchMode): string => {
     switch (mode) {
@@ -250,7 +796,7 @@ const MapSearchPage: React.FC = () => {
       case "balanced":
         return "中精度・中速（1 分間隔計算）";
       case "precise":
-        return "高精度・低速（10 秒間隔計算、最大 3 ヶ月）";
+        return "高精度（横断時刻を秒未満の精度で計算）";
       default:
         return "";
     }
@@ -582,14 +1128,17 @@ const MapSearchPage: React.FC = () => {
               <h1 className="text-2xl font-bold text-gray-900">
                 地図検索
               </h1>
-              <button
-                onClick={() => navigate("/")}
-                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium flex items-center gap-2 transition-colors"
-                title="日付検索に切り替え"
-              >
-                <Icon name="calendar" size={16} />
-                日付検索
-              </button>
+              <div className="flex gap-2">
+                <CopyLinkButton />
+                <button
+                  onClick={() => navigate("/")}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium flex items-center gap-2 transition-colors"
+                  title="日付検索に切り替え"
+                >
+                  <Icon name="calendar" size={16} />
+                  日付検索
+                </button>
+              </div>
             </div>
             <div className="space-y-6">
               <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
@@ -812,7 +1361,64 @@ const MapSearchPage: React.FC = () => {
                       <p className="text-gray-600">
                         ダイヤモンド・パールスカイツリーのイベントを検索しています
                       </p>
+                      {searchJob && (
+                        <div className="max-w-sm mx-auto mt-6 space-y-2">
+                          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-blue-600 transition-all"
+                              style={{
+                                width: `${
+                                  searchProgress && searchProgress.progress.totalDays > 0
+                                    ? Math.round((searchProgress.progress.processedDays / searchProgress.progress.totalDays) * 100)
+                                    : 0
+                                }%`,
+                              }}
+                            />
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {!searchProgress || searchProgress.state === "waiting"
+                              ? "順番待ち..."
+                              : `${searchProgress.progress.processedDays} / ${searchProgress.progress.totalDays} 日（候補 ${searchProgress.progress.eventsFound} 件）`}
+                          </p>
+                          <button
+                            onClick={handleCancelSearch}
+                            className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+                          >
+                            検索を中断
+                          </button>
+                        </div>
+                      )}
                     </div>
+                  ) : regionRecommendation ? (
+                    <>
+                      <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-lg font-semibold text-gray-900">
+                          範囲内のおすすめ地点（{regionRecommendation.candidates.length} 地点）
+                        </h2>
+                        <span className="text-xs text-gray-500">
+                          イベント数・品質・見かけの大きさ・距離の総合スコア
+                        </span>
+                      </div>
+                      <RegionRecommendationList
+                        recommendation={regionRecommendation}
+                        onSelect={handleSelectRegionCandidate}
+                      />
+                    </>
+                  ) : comparison ? (
+                    <>
+                      <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-lg font-semibold text-gray-900">
+                          比較結果（{comparison.points.length} 地点・{comparison.rows.length} 日）
+                        </h2>
+                        <div className="flex items-center gap-2 text-xs text-gray-600">
+                          <span className="px-2 py-0.5 rounded bg-green-100">80 以上</span>
+                          <span className="px-2 py-0.5 rounded bg-lime-100">60 以上</span>
+                          <span className="px-2 py-0.5 rounded bg-amber-100">40 以上</span>
+                          <span className="px-2 py-0.5 rounded bg-gray-100">40 未満</span>
+                        </div>
+                      </div>
+                      <MapComparisonTable comparison={comparison} />
+                    </>
                   ) : searchResults.length > 0 ? (
                     <>
                       {/* 結果ヘッダー・コントロール */}
@@ -987,6 +1593,11 @@ const MapSearchPage: React.FC = () => {
                     </>
                   ) : (
                     <div className="text-center py-8">
+                      {searchNotice && (
+                        <p className="text-sm text-amber-700 bg-amber-50 p-2 rounded mb-4">
+                          {searchNotice}
+                        </p>
+                      )}
                       <Icon name="searchX" size={48} className="mx-auto text-gray-400 mb-4" />
                       <h3 className="text-lg font-medium text-gray-900 mb-2">
                         検索結果がありません
@@ -1061,6 +1672,159 @@ const MapSearchPage: React.FC = () => {
                 </div>
               </div>
 
+              {/* 範囲からおすすめ地点を探す */}
+              <div className="bg-white rounded-lg shadow-sm border p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-1">範囲からおすすめ地点を探す</h2>
+                <p className="text-xs text-gray-500 mb-4">
+                  地図をクリックして範囲を囲むと、範囲内の格子点を検索条件の期間・シーン（最大 180 日）で検索し、イベント数・品質・スカイツリーの見かけの大きさ・距離から順位を付けます。
+                </p>
+                {isDrawingRegion ? (
+                  <div className="space-y-2">
+                    <p className="text-xs text-teal-700 bg-teal-50 p-2 rounded">
+                      地図をクリックして頂点を追加（{regionPolygon.length} 点）
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleFinishDrawingRegion}
+                        disabled={regionPolygon.length < 3}
+                        className="flex-1 px-3 py-2 text-sm bg-teal-600 hover:bg-teal-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-md"
+                      >
+                        範囲を確定
+                      </button>
+                      <button
+                        onClick={handleClearRegion}
+                        className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                      >
+                        取り消し
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleStartDrawingRegion}
+                        disabled={isSearching}
+                        className="flex-1 px-3 py-2 text-sm text-teal-700 border border-teal-300 rounded-md hover:bg-teal-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {regionPolygon.length > 0 ? "範囲を描き直す" : "範囲を描く"}
+                      </button>
+                      {regionPolygon.length > 0 && (
+                        <button
+                          onClick={handleClearRegion}
+                          disabled={isSearching}
+                          className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          クリア
+                        </button>
+                      )}
+                    </div>
+                    <button
+                      onClick={handleRecommendRegion}
+                      disabled={isSearching || regionPolygon.length < 3}
+                      className="w-full px-4 py-2 bg-teal-600 hover:bg-teal-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-md font-medium"
+                    >
+                      おすすめ地点を検索
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* 整列線（日付から撮影地点を探す） */}
+              <div className="bg-white rounded-lg shadow-sm border p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-1">日付から撮影地点を探す</h2>
+                <p className="text-xs text-gray-500 mb-4">
+                  指定日に天体が頂部に重なる地点を線で表示します。点をクリックするとその地点を選択します
+                </p>
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs text-gray-600">日付</label>
+                      <input
+                        type="date"
+                        value={alignmentLineParams.date}
+                        onChange={(e) =>
+                          e.target.value &&
+                          setAlignmentLineParams((prev) => ({ ...prev, date: e.target.value }))
+                        }
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600">撮影シーン</label>
+                      <select
+                        value={alignmentLineParams.scene}
+                        onChange={(e) =>
+                          setAlignmentLineParams((prev) => ({
+                            ...prev,
+                            scene: e.target.value as "diamond" | "pearl",
+                          }))
+                        }
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      >
+                        <option value="diamond">ダイヤモンド</option>
+                        <option value="pearl">パール</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600">開始時刻</label>
+                      <input
+                        type="time"
+                        value={alignmentLineParams.startTime}
+                        onChange={(e) =>
+                          setAlignmentLineParams((prev) => ({ ...prev, startTime: e.target.value }))
+                        }
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600">終了時刻</label>
+                      <input
+                        type="time"
+                        value={alignmentLineParams.endTime}
+                        onChange={(e) =>
+                          setAlignmentLineParams((prev) => ({ ...prev, endTime: e.target.value }))
+                        }
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+                  {alignmentLineError && (
+                    <p className="text-xs text-red-600">{alignmentLineError}</p>
+                  )}
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleShowAlignmentLine}
+                      disabled={isLoadingAlignmentLine}
+                      className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-md text-sm font-medium flex items-center justify-center"
+                    >
+                      {isLoadingAlignmentLine ? (
+                        <>
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                          計算中...
+                        </>
+                      ) : (
+                        <>
+                          <Icon name="route" size={16} className="mr-2" />
+                          整列線を表示
+                        </>
+                      )}
+                    </button>
+                    {alignmentLine && (
+                      <button
+                        onClick={() => {
+                          setAlignmentLine(null);
+                          setAlignmentLineError(null);
+                        }}
+                        className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md text-sm"
+                      >
+                        クリア
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
               {/* 検索条件 - 地点選択後に表示 */}
               {isLocationSelected && (
                 <div className="bg-white rounded-lg shadow-sm border p-6">
@@ -1132,6 +1896,30 @@ const MapSearchPage: React.FC = () => {
                           {getSearchModeDescription(searchParams.searchMode)}
                         </p>
                       </div>
+
+                      {/* 目標点 */}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          重ねる位置
+                        </label>
+                        <select
+                          value={searchParams.target}
+                          onChange={(e) =>
+                            updateSearchParams({ target: e.target.value })
+                          }
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">指定なし（方位のみで判定）</option>
+                          {alignmentTargets.map((target) => (
+                            <option key={target.id} value={target.id}>
+                              {target.name}（{target.height}m）
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">
+                          指定すると天体の高度がその位置への仰角と一致する日時のみを検索
+                        </p>
+                      </div>
                     </div>
 
                     {/* 検索範囲 */}
@@ -1207,6 +1995,58 @@ const MapSearchPage: React.FC = () => {
                 </div>
               )}
 
+              {/* 比較検索 - 複数の候補地点を同じ条件で比較 */}
+              {isLocationSelected && (
+                <div className="bg-white rounded-lg shadow-sm border p-6">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-1">候補地点を比較</h2>
+                  <p className="text-xs text-gray-500 mb-4">
+                    地図で選んだ地点を {MAX_COMPARISON_POINTS} 件まで追加し、検索条件と同じ期間・シーンで日ごとの最良イベントを比較します。
+                  </p>
+
+                  {comparisonPoints.length > 0 && (
+                    <ul className="space-y-2 mb-3">
+                      {comparisonPoints.map((point, index) => (
+                        <li
+                          key={`${point.latitude},${point.longitude},${index}`}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <span className="w-5 h-5 bg-violet-600 text-white rounded-full flex items-center justify-center text-xs font-bold flex-shrink-0">
+                            {index + 1}
+                          </span>
+                          <span className="flex-1 truncate" title={point.label}>
+                            {point.label}
+                          </span>
+                          <button
+                            onClick={() => handleRemoveComparisonPoint(index)}
+                            disabled={isSearching}
+                            className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-50"
+                          >
+                            削除
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="space-y-2">
+                    <button
+                      onClick={handleAddComparisonPoint}
+                      disabled={isSearching || comparisonPoints.length >= MAX_COMPARISON_POINTS}
+                      className="w-full px-3 py-2 text-sm text-violet-700 border border-violet-300 rounded-md hover:bg-violet-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      選択中の地点を追加
+                    </button>
+                    <button
+                      onClick={handleCompare}
+                      disabled={isSearching || comparisonPoints.length < 2}
+                      className="w-full px-4 py-2 bg-violet-600 hover:bg-violet-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-md font-medium"
+                    >
+                      比較検索（{comparisonPoints.length} 地点）
+                    </button>
+                  </div>
+                </div>
+              )}
+
           </div>
         </div>
 
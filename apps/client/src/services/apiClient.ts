@@ -1,6 +1,56 @@
-import { CalendarResponse, LocationsResponse } from "@skytree-photo-planner/types";
+import { AlignmentLine, AlignmentLineResponse, AlignmentTarget, CalendarResponse, DayTimeline, DayTimelineResponse, LocationFileFormat, LocationPhoto, LocationPhotosResponse, LocationRequestBody, LocationRequestConfig, LocationSearchResponse, LocationSearchResult, LocationsResponse, MapComparison, MapComparisonResponse, MapSearchJobHandle, MapSearchJobStatus, RegionRecommendation, RegionRecommendationResponse, ShootPlan, ShootPlanResponse, SkyTrack, SkyTrackResponse, SkytreeEvent, SkytreeEventResponse, SpecialEventResponse } from "@skytree-photo-planner/types";
 import { apiLogger } from "../utils/logger";
 
+// 地図検索の結果イベント
+export interface MapSearchEvent {
+  id: string;
+  type: "diamond" | "pearl";
+  subType: "sunrise" | "sunset" | "rising" | "setting";
+  time: Date;
+  azimuth: number;
+  elevation: number;
+  accuracy: "perfect" | "excellent" | "good" | "fair";
+  qualityScore: number;
+  moonPhase?: number;
+  moonIllumination?: number;
+  target?: AlignmentTarget;
+}
+
+// 地図検索の条件
+export interface MapSearchRequest {
+  latitude: number;
+  longitude: number;
+  elevation?: number;
+  scene?: "all" | "diamond" | "pearl";
+  searchMode?: "auto" | "fast" | "balanced" | "precise";
+  startDate: Date;
+  endDate: Date;
+  target?: string; // 目標点 ID（未指定の場合は従来どおり頂部基準）
+  targetHeight?: number; // 任意の目標点の高さ（m）
+}
+
+// 比較検索の条件（地点以外は地図検索と共通）
+export interface MapCompareRequest
+  extends Omit<MapSearchRequest, "latitude" | "longitude" | "elevation"> {
+  points: Array<{
+    label?: string;
+    latitude: number;
+    longitude: number;
+    elevation?: number;
+  }>;
+}
+
+// 範囲内のおすすめ地点の条件（polygon は地図上で描いた多角形の頂点）
+export interface RegionRecommendationRequest {
+  polygon: Array<{ latitude: number; longitude: number }>;
+  elevation?: number;
+  scene?: "all" | "diamond" | "pearl";
+  startDate: Date;
+  endDate: Date;
+  target?: string;
+  targetHeight?: number;
+}
+
 class ApiClient {
   private baseUrl: string;
 
@@ -11,6 +61,24 @@ class ApiClient {
         : "http://localhost:3001/api";
   }
 
+  /**
+   * 地点の年間イベントの ICS フィードの URL（カレンダーアプリで購読する）
+   */
+  getLocationCalendarFeedUrl(
+    locationId: number,
+    year: number,
+    alarmMinutesBefore?: number,
+  ): string {
+    const url = new URL(
+      `${this.baseUrl}/calendar/location/${locationId}/${year}.ics`,
+      window.location.origin,
+    );
+    if (alarmMinutesBefore !== undefined) {
+      url.searchParams.set("alarm", String(alarmMinutesBefore));
+    }
+    return url.toString();
+  }
+
   async getMonthlyCalendar(
     year: number,
     month: number,
@@ -23,13 +91,19 @@ class ApiClient {
       const data = await response.json();
 
       // 日付文字列を Date オブジェクトに変換
-      const events = data.events.map((event: { date: string; events: Array<{ time: string; [key: string]: unknown }> }) => ({
+      const events = data.events.map((event: { date: string; events: Array<{ time: string; [key: string]: unknown }>; specialEvents?: SpecialEventResponse[] }) => ({
         ...event,
         date: new Date(event.date),
         events: event.events.map((e) => ({
           ...e,
           time: new Date(e.time),
         })),
+        specialEvents: (event.specialEvents ?? []).map((special) => ({
+          ...special,
+          peakTime: new Date(special.peakTime),
+          startTime: new Date(special.startTime),
+          endTime: new Date(special.endTime),
+        })),
       }));
 
       return {
@@ -64,6 +138,56 @@ class ApiClient {
     }
   }
 
+  /**
+   * 範囲条件による撮影地点の検索（中心指定時は中心からの距離順、それ以外はスカイツリーに近い順）
+   * 失敗した場合は null
+   */
+  async searchLocations(params: {
+    center?: { latitude: number; longitude: number; radiusKm?: number };
+    bounds?: { south: number; west: number; north: number; east: number };
+    distanceKm?: { min?: number; max?: number }; // スカイツリーまでの距離
+    azimuth?: { from: number; to: number }; // スカイツリーへの方位角
+    limit?: number;
+  }): Promise<LocationSearchResult[] | null> {
+    try {
+      const query = new URLSearchParams();
+      if (params.center) {
+        query.set("lat", String(params.center.latitude));
+        query.set("lng", String(params.center.longitude));
+        if (params.center.radiusKm !== undefined) {
+          query.set("radiusKm", String(params.center.radiusKm));
+        }
+      }
+      if (params.bounds) {
+        const { west, south, east, north } = params.bounds;
+        query.set("bbox", [west, south, east, north].map((value) => value.toFixed(6)).join(","));
+      }
+      if (params.distanceKm?.min !== undefined) {
+        query.set("minDistanceKm", String(params.distanceKm.min));
+      }
+      if (params.distanceKm?.max !== undefined) {
+        query.set("maxDistanceKm", String(params.distanceKm.max));
+      }
+      if (params.azimuth) {
+        query.set("azimuthFrom", String(params.azimuth.from));
+        query.set("azimuthTo", String(params.azimuth.to));
+      }
+      if (params.limit !== undefined) {
+        query.set("limit", String(params.limit));
+      }
+
+      const response = await fetch(`${this.baseUrl}/locations?${query}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data: LocationSearchResponse = await response.json();
+      return data.locations;
+    } catch (error) {
+      apiLogger.error("Failed to search locations:", error as Error);
+      return null;
+    }
+  }
+
   async getDayEvents(date: string) {
     try {
       const response = await fetch(`${this.baseUrl}/events/${date}`);
@@ -138,60 +262,348 @@ class ApiClient {
     }
   }
 
-  async mapSearch(params: {
-    latitude: number;
-    longitude: number;
-    elevation?: number;
-    scene?: "all" | "diamond" | "pearl";
-    searchMode?: "auto" | "fast" | "balanced" | "precise";
-    startDate: Date;
-    endDate: Date;
-  }): Promise<{
-    success: boolean;
-    events: Array<{
-      id: string;
-      type: "diamond" | "pearl";
-      subType: "sunrise" | "sunset" | "rising" | "setting";
-      time: Date;
-      azimuth: number;
-      elevation: number;
-      accuracy: "perfect" | "excellent" | "good" | "fair";
-      qualityScore: number;
-      moonPhase?: number;
-      moonIllumination?: number;
-    }>;
-    searchParams: {
-      latitude: number;
-      longitude: number;
-      elevation: number;
-      scene: string;
-      searchMode: string;
-      startDate: string;
-      endDate: string;
+  /**
+   * 地図検索ジョブを登録してジョブ ID とトークンを返す
+   * キューが利用できない（503）場合は null を返す（同期 API はない）
+   */
+  async createMapSearchJob(params: MapSearchRequest): Promise<MapSearchJobHandle | null> {
+    try {
+      return await this.postMapSearchJob(this.toMapSearchBody(params));
+    } catch (error) {
+      apiLogger.error("地図検索ジョブ登録 API エラー:", error as Error, { params });
+      throw error;
+    }
+  }
+
+  /**
+   * 比較検索ジョブを登録してジョブ ID とトークンを返す
+   * 進捗の購読・中断は地図検索ジョブと共通。キューが利用できない場合は null（同期 API はない）
+   */
+  async createMapCompareJob(params: MapCompareRequest): Promise<MapSearchJobHandle | null> {
+    try {
+      return await this.postMapSearchJob(this.toMapCompareBody(params));
+    } catch (error) {
+      apiLogger.error("比較検索ジョブ登録 API エラー:", error as Error, {
+        pointCount: params.points.length,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 範囲内のおすすめ地点ジョブを登録してジョブ ID とトークンを返す
+   * 進捗の購読・中断は地図検索ジョブと共通。キューが利用できない場合は null（同期 API はない）
+   */
+  async createRegionRecommendationJob(
+    params: RegionRecommendationRequest,
+  ): Promise<MapSearchJobHandle | null> {
+    try {
+      return await this.postMapSearchJob(this.toRegionRecommendationBody(params));
+    } catch (error) {
+      apiLogger.error("おすすめ地点ジョブ登録 API エラー:", error as Error, {
+        vertexCount: params.polygon.length,
+      });
+      throw error;
+    }
+  }
+
+  private async postMapSearchJob(body: object): Promise<MapSearchJobHandle | null> {
+    const response = await fetch(`${this.baseUrl}/map-search/jobs`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      credentials: "include",
+      body: JSON.stringify(body),
+    });
+
+    if (response.status === 503) {
+      return null;
+    }
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+    }
+
+    const data: MapSearchJobHandle = await response.json();
+    return { jobId: data.jobId, token: data.token };
+  }
+
+  // 地図検索ジョブの進捗・結果の取得と中断には登録時のトークンが必要
+  private mapSearchJobHeaders(job: MapSearchJobHandle): HeadersInit {
+    return { "X-Map-Search-Token": job.token };
+  }
+
+
+  /**
+   * 地図検索ジョブの進捗を Server-Sent Events で購読
+   * 終了（completed / failed / cancelled）またはエラーで自動的に接続を閉じる
+   * 戻り値の関数で購読を解除する
+   */
+  watchMapSearchJob(
+    job: MapSearchJobHandle,
+    handlers: {
+      onProgress: (status: MapSearchJobStatus) => void;
+      onFinish: (status: MapSearchJobStatus) => void;
+      onError: (message: string) => void;
+    },
+  ): () => void {
+    // EventSource はヘッダーを送れないため、トークンはクエリで渡す
+    const source = new EventSource(
+      `${this.baseUrl}/map-search/jobs/${job.jobId}/events?token=${encodeURIComponent(job.token)}`,
+      { withCredentials: true },
+    );
+    const parse = (event: Event) => JSON.parse((event as MessageEvent).data);
+
+    source.addEventListener("progress", (event) => handlers.onProgress(parse(event)));
+    for (const state of ["completed", "failed", "cancelled"]) {
+      source.addEventListener(state, (event) => {
+        source.close();
+        handlers.onFinish(parse(event));
+      });
+    }
+    source.addEventListener("error", (event) => {
+      source.close();
+      // サーバーから送られた error イベントはメッセージを持つ（接続エラーは持たない）
+      const message = (event as MessageEvent).data
+        ? parse(event).message
+        : "進捗の取得が切断されました";
+      apiLogger.error("地図検索ジョブ進捗エラー:", new Error(message), { jobId: job.jobId });
+      handlers.onError(message);
+    });
+
+    return () => source.close();
+  }
+
+  /**
+   * 完了した地図検索ジョブの結果をページ単位で取得
+   */
+  async getMapSearchJobResults(
+    job: MapSearchJobHandle,
+    page: number,
+    limit: number = 100,
+  ): Promise<{
+    events: MapSearchEvent[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
     };
-    metadata: {
-      totalEvents: number;
-      searchInterval: number;
-      isLimited: boolean;
-      originalTotal: number;
+  }> {
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/map-search/jobs/${job.jobId}/results?page=${page}&limit=${limit}`,
+        { headers: this.mapSearchJobHeaders(job), credentials: "include" },
+      );
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      // 日付文字列を Date オブジェクトに変換
+      return {
+        events: data.events.map((event: Omit<MapSearchEvent, "time"> & { time: string }) => ({
+          ...event,
+          time: new Date(event.time),
+        })),
+        pagination: data.pagination,
+      };
+    } catch (error) {
+      apiLogger.error("地図検索ジョブ結果取得 API エラー:", error as Error, {
+        jobId: job.jobId,
+        page,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 完了した比較検索ジョブの比較表を行（日付）単位のページで取得
+   */
+  async getMapCompareJobResults(
+    job: MapSearchJobHandle,
+    page: number,
+    limit: number = 100,
+  ): Promise<{
+    comparison: MapComparison;
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
     };
   }> {
     try {
-      const response = await fetch(`${this.baseUrl}/map-search`, {
+      const response = await fetch(
+        `${this.baseUrl}/map-search/jobs/${job.jobId}/results?page=${page}&limit=${limit}`,
+        { headers: this.mapSearchJobHeaders(job), credentials: "include" },
+      );
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+      }
+
+      const data: {
+        comparison: MapComparisonResponse;
+        pagination: { page: number; limit: number; total: number; totalPages: number };
+      } = await response.json();
+      return {
+        comparison: this.toMapComparison(data.comparison),
+        pagination: data.pagination,
+      };
+    } catch (error) {
+      apiLogger.error("比較検索ジョブ結果取得 API エラー:", error as Error, {
+        jobId: job.jobId,
+        page,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 完了したおすすめ地点ジョブの結果を取得
+   */
+  async getRegionRecommendationJobResults(job: MapSearchJobHandle): Promise<RegionRecommendation> {
+    try {
+      const response = await fetch(`${this.baseUrl}/map-search/jobs/${job.jobId}/results`, {
+        headers: this.mapSearchJobHeaders(job),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+      }
+
+      const data: { recommendation: RegionRecommendationResponse } = await response.json();
+      return this.toRegionRecommendation(data.recommendation);
+    } catch (error) {
+      apiLogger.error("おすすめ地点ジョブ結果取得 API エラー:", error as Error, {
+        jobId: job.jobId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 地図検索ジョブを中断
+   */
+  async cancelMapSearchJob(job: MapSearchJobHandle): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/map-search/jobs/${job.jobId}`, {
+        method: "DELETE",
+        headers: this.mapSearchJobHeaders(job),
+        credentials: "include",
+      });
+      return response.ok;
+    } catch (error) {
+      apiLogger.error("地図検索ジョブ中断 API エラー:", error as Error, { jobId: job.jobId });
+      return false;
+    }
+  }
+
+  private toMapSearchBody(params: MapSearchRequest) {
+    return {
+      latitude: params.latitude,
+      longitude: params.longitude,
+      elevation: params.elevation || 0,
+      scene: params.scene || "all",
+      searchMode: params.searchMode || "auto",
+      startDate: params.startDate.toISOString(),
+      endDate: params.endDate.toISOString(),
+      target: params.target,
+      targetHeight: params.targetHeight,
+    };
+  }
+
+  private toMapCompareBody(params: MapCompareRequest) {
+    return {
+      points: params.points.map((point) => ({
+        label: point.label,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        elevation: point.elevation || 0,
+      })),
+      scene: params.scene || "all",
+      searchMode: params.searchMode || "auto",
+      startDate: params.startDate.toISOString(),
+      endDate: params.endDate.toISOString(),
+      target: params.target,
+      targetHeight: params.targetHeight,
+    };
+  }
+
+  private toRegionRecommendationBody(params: RegionRecommendationRequest) {
+    return {
+      polygon: params.polygon,
+      elevation: params.elevation || 0,
+      scene: params.scene || "all",
+      startDate: params.startDate.toISOString(),
+      endDate: params.endDate.toISOString(),
+      target: params.target,
+      targetHeight: params.targetHeight,
+    };
+  }
+
+  // 日付文字列を Date オブジェクトに変換
+  private toMapComparison(comparison: MapComparisonResponse): MapComparison {
+    return {
+      ...comparison,
+      startDate: new Date(comparison.startDate),
+      endDate: new Date(comparison.endDate),
+      rows: comparison.rows.map((row) => ({
+        ...row,
+        cells: row.cells.map((cell) => ({
+          ...cell,
+          bestEvent: cell.bestEvent && this.toSkytreeEvent(cell.bestEvent),
+        })),
+      })),
+    };
+  }
+
+  // 日付文字列を Date オブジェクトに変換
+  private toRegionRecommendation(recommendation: RegionRecommendationResponse): RegionRecommendation {
+    return {
+      ...recommendation,
+      startDate: new Date(recommendation.startDate),
+      endDate: new Date(recommendation.endDate),
+      candidates: recommendation.candidates.map((candidate) => ({
+        ...candidate,
+        bestEvent: candidate.bestEvent && this.toSkytreeEvent(candidate.bestEvent),
+      })),
+    };
+  }
+
+  private toSkytreeEvent(event: SkytreeEventResponse): SkytreeEvent {
+    return {
+      ...event,
+      time: new Date(event.time),
+      contactWindow: event.contactWindow && {
+        ...event.contactWindow,
+        firstContact: new Date(event.contactWindow.firstContact),
+        center: new Date(event.contactWindow.center),
+        lastContact: new Date(event.contactWindow.lastContact),
+      },
+    };
+  }
+
+  async getAlignmentLine(params: {
+    date: string; // YYYY-MM-DD（JST）
+    scene: "diamond" | "pearl";
+    startTime?: string; // HH:mm（JST）
+    endTime?: string; // HH:mm（JST）
+    stepMinutes?: number;
+  }): Promise<AlignmentLine> {
+    try {
+      const response = await fetch(`${this.baseUrl}/map-search/alignment-line`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         credentials: "include",
-        body: JSON.stringify({
-          latitude: params.latitude,
-          longitude: params.longitude,
-          elevation: params.elevation || 0,
-          scene: params.scene || "all",
-          searchMode: params.searchMode || "auto",
-          startDate: params.startDate.toISOString(),
-          endDate: params.endDate.toISOString(),
-        }),
+        body: JSON.stringify(params),
       });
 
       if (!response.ok) {
@@ -199,26 +611,220 @@ class ApiClient {
         throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
       }
 
-      const data = await response.json();
-      
+      const data: { line: AlignmentLineResponse } = await response.json();
+
       // 日付文字列を Date オブジェクトに変換
-      const eventsWithDates = data.events.map((event: any) => ({
-        ...event,
-        time: new Date(event.time),
-      }));
+      return {
+        ...data.line,
+        startTime: new Date(data.line.startTime),
+        endTime: new Date(data.line.endTime),
+        points: data.line.points.map((point) => ({
+          ...point,
+          time: new Date(point.time),
+        })),
+      };
+    } catch (error) {
+      apiLogger.error("整列線 API エラー:", error as Error, { params });
+      throw error;
+    }
+  }
+
+  async getAlignmentTargets(): Promise<{
+    targets: AlignmentTarget[];
+    maxCustomHeight: number;
+  }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/alignment-targets`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    } catch (error) {
+      apiLogger.error("Failed to fetch alignment targets:", error as Error);
+      return { targets: [], maxCustomHeight: 634 };
+    }
+  }
+
+  async getLocationTimeline(
+    locationId: number,
+    date: string,
+  ): Promise<DayTimeline | null> {
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/locations/${locationId}/timeline/${date}`,
+      );
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data: { timeline: DayTimelineResponse } = await response.json();
+      const { timeline } = data;
+      const toDate = (time?: string) => (time ? new Date(time) : undefined);
 
+      // 時刻文字列を Date オブジェクトに変換
       return {
-        ...data,
-        events: eventsWithDates,
+        ...timeline,
+        sun: { rise: toDate(timeline.sun.rise), set: toDate(timeline.sun.set) },
+        moon: { rise: toDate(timeline.moon.rise), set: toDate(timeline.moon.set) },
+        phases: timeline.phases.map((phase) => ({
+          ...phase,
+          start: new Date(phase.start),
+          end: new Date(phase.end),
+        })),
+        skytreeCrossings: timeline.skytreeCrossings.map((crossing) => ({
+          ...crossing,
+          time: new Date(crossing.time),
+        })),
       };
     } catch (error) {
-      apiLogger.error("地図検索 API エラー:", error as Error, { params });
+      apiLogger.error("Failed to fetch location timeline:", error as Error, {
+        locationId,
+        date,
+      });
+      return null;
+    }
+  }
+
+  async getLocationPhotos(locationId: number): Promise<LocationPhoto[] | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/locations/${locationId}/photos`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data: LocationPhotosResponse = await response.json();
+
+      // 日時文字列を Date オブジェクトに変換
+      return data.photos.map((photo) => ({
+        ...photo,
+        takenAt: photo.takenAt ? new Date(photo.takenAt) : null,
+        createdAt: new Date(photo.createdAt),
+      }));
+    } catch (error) {
+      apiLogger.error("Failed to fetch location photos:", error as Error, { locationId });
+      return null;
+    }
+  }
+
+  /**
+   * 撮影地点の追加リクエストのフォーム設定（キャプチャの種類・サイトキー）
+   */
+  async getLocationRequestConfig(): Promise<LocationRequestConfig> {
+    try {
+      const response = await fetch(`${this.baseUrl}/location-requests/config`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data: LocationRequestConfig = await response.json();
+      return { captcha: data.captcha };
+    } catch (error) {
+      apiLogger.error("Failed to fetch location request config:", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * 撮影地点の追加リクエストを送信し、受付メッセージを返す
+   */
+  async submitLocationRequest(body: LocationRequestBody): Promise<string> {
+    try {
+      const response = await fetch(`${this.baseUrl}/location-requests`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || `HTTP error! status: ${response.status}`);
+      }
+      return data.message;
+    } catch (error) {
+      apiLogger.error("追加リクエスト送信 API エラー:", error as Error, { name: body.name });
       throw error;
     }
   }
 
-  async exportLocations(): Promise<Blob> {
-    const response = await fetch(`${this.baseUrl}/admin/locations/export`, {
+  async getSkyTrack(
+    locationId: number,
+    body: "sun" | "moon",
+    time: Date,
+  ): Promise<SkyTrack | null> {
+    try {
+      const params = new URLSearchParams({ body, time: time.toISOString() });
+      const response = await fetch(
+        `${this.baseUrl}/locations/${locationId}/sky-track?${params}`,
+      );
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data: { track: SkyTrackResponse } = await response.json();
+
+      // 時刻文字列を Date オブジェクトに変換
+      return {
+        ...data.track,
+        centerTime: new Date(data.track.centerTime),
+        samples: data.track.samples.map((sample) => ({
+          ...sample,
+          time: new Date(sample.time),
+        })),
+      };
+    } catch (error) {
+      apiLogger.error("Failed to fetch sky track:", error as Error, {
+        locationId,
+        body,
+      });
+      return null;
+    }
+  }
+
+  async getShootPlan(
+    locationId: number,
+    params: {
+      eventTime: Date;
+      window?: { start: Date; end: Date };
+      travelMinutes: number;
+      setupMinutes: number;
+    },
+  ): Promise<ShootPlan | null> {
+    try {
+      const query = new URLSearchParams({
+        time: params.eventTime.toISOString(),
+        travelMinutes: String(params.travelMinutes),
+        setupMinutes: String(params.setupMinutes),
+      });
+      if (params.window) {
+        query.set("windowStart", params.window.start.toISOString());
+        query.set("windowEnd", params.window.end.toISOString());
+      }
+      const response = await fetch(
+        `${this.baseUrl}/locations/${locationId}/shoot-plan?${query}`,
+      );
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data: { plan: ShootPlanResponse } = await response.json();
+
+      // 時刻文字列を Date オブジェクトに変換
+      return {
+        ...data.plan,
+        eventTime: new Date(data.plan.eventTime),
+        steps: data.plan.steps.map((step) => ({
+          ...step,
+          time: new Date(step.time),
+        })),
+      };
+    } catch (error) {
+      apiLogger.error("Failed to fetch shoot plan:", error as Error, {
+        locationId,
+      });
+      return null;
+    }
+  }
+
+  async exportLocations(format: LocationFileFormat = "json"): Promise<Blob> {
+    const response = await fetch(`${this.baseUrl}/admin/locations/export?format=${format}`, {
       method: "GET",
       credentials: "include",
     });
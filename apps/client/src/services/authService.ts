@@ -198,7 +198,8 @@ class AuthService {
     options: RequestInit = {},
   ): Promise<Response> {
     const headers = {
-      "Content-Type": "application/json",
+      // FormData（ファイルのアップロード）は multipart の境界を含む Content-Type をブラウザに設定させる
+      ...(options.body instanceof FormData ? {} : { "Content-Type": "application/json" }),
       ...options.headers,
     };
 
@@ -0,0 +1,158 @@
+import {
+  BUNDLED_CAMERA_BODIES,
+  BUNDLED_LENSES,
+  CameraBodyProfile,
+  LensProfile,
+} from "../utils/cameraProfiles";
+
+const STORAGE_KEY = "skytree-photo-planner-camera-profiles";
+
+interface CustomCameraProfiles {
+  bodies: CameraBodyProfile[];
+  lenses: LensProfile[];
+}
+
+/**
+ * カメラボディ・レンズのプロファイル管理サービス
+ * 同梱のカタログとローカルストレージに保存したユーザー独自のプロファイルをまとめて扱う
+ */
+export class CameraProfileService {
+  private storage: Storage;
+
+  constructor(storage: Storage = localStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * 選択できるカメラボディ一覧（同梱 → ユーザー登録の順）
+   */
+  getBodies(): CameraBodyProfile[] {
+    return [...BUNDLED_CAMERA_BODIES, ...this.getCustomProfiles().bodies];
+  }
+
+  /**
+   * 選択できるレンズ一覧（同梱 → ユーザー登録の順）
+   */
+  getLenses(): LensProfile[] {
+    return [...BUNDLED_LENSES, ...this.getCustomProfiles().lenses];
+  }
+
+  findBody(bodyId: string): CameraBodyProfile | undefined {
+    return this.getBodies().find((body) => body.id === bodyId);
+  }
+
+  findLens(lensId: string): LensProfile | undefined {
+    return this.getLenses().find((lens) => lens.id === lensId);
+  }
+
+  /**
+   * ユーザー独自のカメラボディを保存（入力値が不正な場合は null）
+   */
+  saveCustomBody(
+    body: Omit<CameraBodyProfile, "id" | "custom">,
+  ): CameraBodyProfile | null {
+    if (
+      !body.name.trim() ||
+      !(body.sensorWidth > 0) ||
+      !(body.sensorHeight > 0) ||
+      !(body.megapixels > 0)
+    ) {
+      return null;
+    }
+
+    const profiles = this.getCustomProfiles();
+    const saved: CameraBodyProfile = {
+      ...body,
+      name: body.name.trim(),
+      id: this.createId(),
+      custom: true,
+    };
+    profiles.bodies.push(saved);
+    return this.saveCustomProfiles(profiles) ? saved : null;
+  }
+
+  /**
+   * ユーザー独自のレンズを保存（入力値が不正な場合は null）
+   */
+  saveCustomLens(lens: Omit<LensProfile, "id" | "custom">): LensProfile | null {
+    if (
+      !lens.name.trim() ||
+      !(lens.minFocalLength > 0) ||
+      !(lens.maxFocalLength >= lens.minFocalLength) ||
+      lens.teleconverters.some((factor) => !(factor > 1))
+    ) {
+      return null;
+    }
+
+    const profiles = this.getCustomProfiles();
+    const saved: LensProfile = {
+      ...lens,
+      name: lens.name.trim(),
+      id: this.createId(),
+      custom: true,
+    };
+    profiles.lenses.push(saved);
+    return this.saveCustomProfiles(profiles) ? saved : null;
+  }
+
+  removeCustomBody(bodyId: string): boolean {
+    const profiles = this.getCustomProfiles();
+    const initialLength = profiles.bodies.length;
+    profiles.bodies = profiles.bodies.filter((body) => body.id !== bodyId);
+
+    if (profiles.bodies.length === initialLength) {
+      return false; // 削除対象が見つからなかった
+    }
+
+    return this.saveCustomProfiles(profiles);
+  }
+
+  removeCustomLens(lensId: string): boolean {
+    const profiles = this.getCustomProfiles();
+    const initialLength = profiles.lenses.length;
+    profiles.lenses = profiles.lenses.filter((lens) => lens.id !== lensId);
+
+    if (profiles.lenses.length === initialLength) {
+      return false; // 削除対象が見つからなかった
+    }
+
+    return this.saveCustomProfiles(profiles);
+  }
+
+  private getCustomProfiles(): CustomCameraProfiles {
+    try {
+      const data = this.storage.getItem(STORAGE_KEY);
+
+      if (!data) {
+        return { bodies: [], lenses: [] };
+      }
+
+      const parsed = JSON.parse(data) as CustomCameraProfiles;
+
+      // データ構造の検証
+      return {
+        bodies: Array.isArray(parsed.bodies) ? parsed.bodies : [],
+        lenses: Array.isArray(parsed.lenses) ? parsed.lenses : [],
+      };
+    } catch (error) {
+      // ローカルストレージのエラーは通常の動作であり、ログ出力不要
+      return { bodies: [], lenses: [] };
+    }
+  }
+
+  private saveCustomProfiles(profiles: CustomCameraProfiles): boolean {
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+      return true;
+    } catch (error) {
+      // ローカルストレージの保存エラーは通常の動作であり、ログ出力不要
+      return false;
+    }
+  }
+
+  private createId(): string {
+    return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
+
+export const cameraProfileService = new CameraProfileService();
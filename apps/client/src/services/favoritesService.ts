@@ -1,13 +1,18 @@
 import {
   FavoriteLocation,
   FavoriteEvent,
+  FavoriteShootPlan,
   Favorites,
   Location,
   FujiEvent,
 } from "@skytree-photo-planner/types";
+import { buildIcsCalendar, createSkytreeIcsEvent } from "@skytree-photo-planner/utils";
 import { uiLogger } from "../utils/logger";
+import { SHOOT_PLAN_STEP_LABELS, formatShootPlanLines } from "../utils/shootPlan";
 
 const STORAGE_KEY = "skytree-photo-planner-favorites";
+// 撮影計画をカレンダーに書き出すときの出発前の通知（分）
+const PLAN_ALARM_MINUTES = 15;
 
 /**
  * ローカルストレージベースのお気に入り管理サービス
@@ -225,6 +230,83 @@ export class FavoritesService {
       .reverse(); // 最新から順番に
   }
 
+  /**
+   * 保存した撮影計画一覧を取得（イベント時刻順）
+   */
+  getShootPlans(): FavoriteShootPlan[] {
+    const favorites = this.getFavorites();
+    return (favorites.plans ?? [])
+      .slice()
+      .sort(
+        (a, b) => new Date(a.event.time).getTime() - new Date(b.event.time).getTime(),
+      );
+  }
+
+  /**
+   * 撮影計画に名前を付けて保存（保存できなかった場合は null）
+   */
+  saveShootPlan(
+    plan: Omit<FavoriteShootPlan, "id" | "createdAt">,
+  ): FavoriteShootPlan | null {
+    const favorites = this.getFavorites();
+    const saved: FavoriteShootPlan = {
+      ...plan,
+      id: `plan-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: new Date().toISOString(),
+    };
+    favorites.plans = [...(favorites.plans ?? []), saved];
+    return this.saveFavorites(favorites) ? saved : null;
+  }
+
+  /**
+   * 撮影計画を削除
+   */
+  removeShootPlan(planId: string): boolean {
+    const favorites = this.getFavorites();
+    const plans = favorites.plans ?? [];
+    const remaining = plans.filter((plan) => plan.id !== planId);
+
+    if (remaining.length === plans.length) {
+      return false; // 削除対象が見つからなかった
+    }
+
+    favorites.plans = remaining;
+    return this.saveFavorites(favorites);
+  }
+
+  /**
+   * 撮影計画を iCalendar（ICS）形式でエクスポート
+   * 出発から重なり終わりまでを 1 件の予定とし、出発の少し前に通知する
+   */
+  exportShootPlanAsIcs(plan: FavoriteShootPlan): void {
+    const start = plan.steps[0];
+    const end = plan.steps[plan.steps.length - 1];
+    const ics = buildIcsCalendar(
+      [
+        {
+          uid: `${plan.id}@skytree-photo-planner`,
+          start: new Date(start.time),
+          end: new Date(end.time),
+          summary: `${plan.name}（${SHOOT_PLAN_STEP_LABELS[start.type]}〜）`,
+          description: formatShootPlanLines(plan).join("\n"),
+          location: plan.event.locationName,
+          geo:
+            plan.event.locationLatitude !== undefined &&
+            plan.event.locationLongitude !== undefined
+              ? {
+                  latitude: plan.event.locationLatitude,
+                  longitude: plan.event.locationLongitude,
+                }
+              : undefined,
+          url: `${window.location.origin}/location/${plan.event.locationId}`,
+          alarmMinutesBefore: PLAN_ALARM_MINUTES,
+        },
+      ],
+      { name: plan.name },
+    );
+    this.downloadFile(ics, 'text/calendar;charset=utf-8', `skytree-plan-${plan.id}.ics`);
+  }
+
   /**
    * お気に入りデータをクリア
    */
@@ -244,18 +326,73 @@ export class FavoritesService {
   exportFavorites(): void {
     const favorites = this.getFavorites();
     const jsonString = JSON.stringify(favorites, null, 2);
-    
+
     // JSON ファイルとしてダウンロード
-    const blob = new Blob([jsonString], { type: 'application/json' });
+    this.downloadFile(
+      jsonString,
+      'application/json',
+      `skytree-favorites-${new Date().toISOString().split('T')[0]}.json`,
+    );
+  }
+
+  /**
+   * 今後のお気に入りイベントを iCalendar（ICS）形式でエクスポート
+   * UID はサーバーの購読用フィードと同じ形式のため、両方を取り込んでも重複しない
+   */
+  exportUpcomingEventsAsIcs(alarmMinutesBefore: number): number {
+    const favorites = this.getFavorites();
+    const events = this.getUpcomingFavoriteEvents().map((event) => {
+      // 撮影地点もお気に入りにあればアクセス情報を説明に入れる
+      const favoriteLocation = favorites.locations.find(
+        (location) => location.id === event.locationId,
+      );
+      return createSkytreeIcsEvent(
+        {
+          type: event.type,
+          subType: event.subType,
+          time: new Date(event.time),
+          azimuth: event.azimuth,
+          elevation: event.elevation,
+          location: {
+            id: event.locationId,
+            name: event.locationName,
+            latitude: event.locationLatitude ?? favoriteLocation?.latitude,
+            longitude: event.locationLongitude ?? favoriteLocation?.longitude,
+            accessInfo: favoriteLocation?.accessInfo,
+          },
+        },
+        {
+          alarmMinutesBefore,
+          url: `${window.location.origin}/location/${event.locationId}`,
+        },
+      );
+    });
+
+    const ics = buildIcsCalendar(events, {
+      name: 'お気に入りのダイヤモンド・パールスカイツリー',
+    });
+    this.downloadFile(
+      ics,
+      'text/calendar;charset=utf-8',
+      `skytree-favorites-${new Date().toISOString().split('T')[0]}.ics`,
+    );
+    return events.length;
+  }
+
+  /**
+   * 文字列をファイルとしてダウンロード
+   */
+  private downloadFile(content: string, type: string, filename: string): void {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
-    
+
     const link = document.createElement('a');
     link.href = url;
-    link.download = `skytree-favorites-${new Date().toISOString().split('T')[0]}.json`;
+    link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-    
+
     // メモリ解放
     URL.revokeObjectURL(url);
   }
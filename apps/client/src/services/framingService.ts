@@ -0,0 +1,90 @@
+import type { Location } from "@skytree-photo-planner/types";
+import type { CameraSettings } from "../components/CameraPanel";
+import { calculateFieldOfView, calculateFrameSize, getSensorArea } from "../utils/fieldOfView";
+
+const SKYTREE_HEIGHT = 634; // m
+
+// 平均的な見かけの直径（度）
+const DISC_DIAMETERS = {
+  sun: 0.533,
+  moon: 0.518,
+};
+
+export interface FramingResult {
+  towerAngle: number; // スカイツリーの見かけの高さ（度）
+  verticalFov: number; // 縦方向の画角（度）
+  frameHeightPixels: number; // 写る範囲の縦方向の画素数
+  towerHeightPixels: number;
+  towerFrameRatio: number; // 画面の高さに対する塔の高さの割合（0-1、1 を超えると収まらない）
+  sunDiscPixels: number;
+  moonDiscPixels: number;
+  sunToTowerRatio: number; // 塔の高さに対する太陽の直径の割合
+  moonToTowerRatio: number;
+  targetFraction: number;
+  focalLengthForTarget: number; // 塔の高さが画面の targetFraction になる焦点距離（mm）
+}
+
+/**
+ * 撮影地点とカメラ設定から、画面に写るスカイツリーと太陽・月の大きさを計算するサービス
+ *
+ * 塔の見かけの高さは地点の distanceToSkytree から求める（SkyTrackPreview と同じ近似）
+ * 画面上の大きさは中心射影（f・tanθ）で計算する
+ */
+export class FramingService {
+  static readonly DEFAULT_MEGAPIXELS = 24;
+  static readonly DEFAULT_TARGET_FRACTION = 0.8;
+
+  /**
+   * 地点とカメラ設定の構図を計算（地点の距離が不明な場合は null）
+   */
+  calculate(
+    location: Pick<Location, "distanceToSkytree">,
+    settings: Pick<
+      CameraSettings,
+      "focalLength" | "sensorType" | "sensorSize" | "aspectRatio" | "orientation" | "megapixels"
+    >,
+    targetFraction: number = FramingService.DEFAULT_TARGET_FRACTION,
+  ): FramingResult | null {
+    if (!location.distanceToSkytree || location.distanceToSkytree <= 0) {
+      return null;
+    }
+
+    const towerAngle = this.toDegrees(Math.atan2(SKYTREE_HEIGHT, location.distanceToSkytree));
+    const frame = calculateFrameSize(settings);
+    const megapixels = settings.megapixels || FramingService.DEFAULT_MEGAPIXELS;
+    // 画素ピッチ（mm）はセンサー全体の面積と画素数から求める
+    const pixelPitch = Math.sqrt(getSensorArea(settings) / (megapixels * 1e6));
+    const frameHeightPixels = frame.height / pixelPitch;
+
+    // センサー上の大きさ（mm）を画面の高さに対する割合に変換
+    const toFrameRatio = (angle: number) =>
+      (settings.focalLength * Math.tan(this.toRadians(angle))) / frame.height;
+    const towerFrameRatio = toFrameRatio(towerAngle);
+
+    return {
+      towerAngle,
+      verticalFov: calculateFieldOfView(settings).vertical,
+      frameHeightPixels: Math.round(frameHeightPixels),
+      towerHeightPixels: Math.round(towerFrameRatio * frameHeightPixels),
+      towerFrameRatio,
+      sunDiscPixels: Math.round(toFrameRatio(DISC_DIAMETERS.sun) * frameHeightPixels),
+      moonDiscPixels: Math.round(toFrameRatio(DISC_DIAMETERS.moon) * frameHeightPixels),
+      sunToTowerRatio: DISC_DIAMETERS.sun / towerAngle,
+      moonToTowerRatio: DISC_DIAMETERS.moon / towerAngle,
+      targetFraction,
+      focalLengthForTarget: Math.round(
+        (targetFraction * frame.height) / Math.tan(this.toRadians(towerAngle)),
+      ),
+    };
+  }
+
+  private toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+  }
+
+  private toDegrees(radians: number): number {
+    return (radians * 180) / Math.PI;
+  }
+}
+
+export const framingService = new FramingService();
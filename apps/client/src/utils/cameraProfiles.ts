@@ -0,0 +1,66 @@
+/**
+ * カメラボディのプロファイル（センサーサイズ・有効画素数）
+ */
+export interface CameraBodyProfile {
+  id: string;
+  name: string;
+  sensorWidth: number; // mm
+  sensorHeight: number; // mm
+  megapixels: number; // MP
+  custom?: boolean; // ユーザーが登録したプロファイル
+}
+
+/**
+ * レンズのプロファイル（焦点距離の範囲・対応テレコンバーター）
+ * 単焦点レンズは minFocalLength と maxFocalLength を同じ値にする
+ */
+export interface LensProfile {
+  id: string;
+  name: string;
+  minFocalLength: number; // mm
+  maxFocalLength: number; // mm
+  teleconverters: number[]; // 装着できるテレコンバーターの倍率（例: 1.4, 2）
+  custom?: boolean;
+}
+
+// センサーサイズのみ指定する汎用ボディ（id は generic-<sensorType>）
+export const GENERIC_CAMERA_BODIES: CameraBodyProfile[] = [
+  { id: "generic-fullframe", name: "フルサイズ（汎用）", sensorWidth: 36, sensorHeight: 24, megapixels: 24 },
+  { id: "generic-apsc", name: "APS-C（汎用）", sensorWidth: 23.5, sensorHeight: 15.6, megapixels: 24 },
+  { id: "generic-micro43", name: "マイクロフォーサーズ（汎用）", sensorWidth: 17.3, sensorHeight: 13, megapixels: 20 },
+];
+
+// 同梱のカメラボディ（メーカー公称値）
+export const BUNDLED_CAMERA_BODIES: CameraBodyProfile[] = [
+  ...GENERIC_CAMERA_BODIES,
+  { id: "canon-eos-r5", name: "Canon EOS R5", sensorWidth: 36, sensorHeight: 24, megapixels: 45 },
+  { id: "canon-eos-r6m2", name: "Canon EOS R6 Mark II", sensorWidth: 35.9, sensorHeight: 23.9, megapixels: 24.2 },
+  { id: "canon-eos-r7", name: "Canon EOS R7", sensorWidth: 22.3, sensorHeight: 14.8, megapixels: 32.5 },
+  { id: "canon-eos-r10", name: "Canon EOS R10", sensorWidth: 22.3, sensorHeight: 14.9, megapixels: 24.2 },
+  { id: "nikon-z8", name: "Nikon Z8", sensorWidth: 35.9, sensorHeight: 23.9, megapixels: 45.7 },
+  { id: "nikon-z6iii", name: "Nikon Z6III", sensorWidth: 35.9, sensorHeight: 23.9, megapixels: 24.5 },
+  { id: "nikon-z50", name: "Nikon Z50", sensorWidth: 23.5, sensorHeight: 15.7, megapixels: 20.9 },
+  { id: "sony-a7iv", name: "Sony α7 IV", sensorWidth: 35.9, sensorHeight: 23.9, megapixels: 33 },
+  { id: "sony-a7rv", name: "Sony α7R V", sensorWidth: 35.7, sensorHeight: 23.8, megapixels: 61 },
+  { id: "sony-a6700", name: "Sony α6700", sensorWidth: 23.3, sensorHeight: 15.5, megapixels: 26 },
+  { id: "fujifilm-xt5", name: "FUJIFILM X-T5", sensorWidth: 23.5, sensorHeight: 15.6, megapixels: 40.2 },
+  { id: "fujifilm-gfx100s", name: "FUJIFILM GFX100S", sensorWidth: 43.8, sensorHeight: 32.9, megapixels: 102 },
+  { id: "om-system-om1", name: "OM SYSTEM OM-1", sensorWidth: 17.4, sensorHeight: 13, megapixels: 20.4 },
+  { id: "panasonic-gh6", name: "Panasonic LUMIX GH6", sensorWidth: 17.3, sensorHeight: 13, megapixels: 25.2 },
+];
+
+// 同梱のレンズ
+export const BUNDLED_LENSES: LensProfile[] = [
+  { id: "canon-rf24-105-f4", name: "Canon RF24-105mm F4 L IS USM", minFocalLength: 24, maxFocalLength: 105, teleconverters: [] },
+  { id: "canon-rf100-500", name: "Canon RF100-500mm F4.5-7.1 L IS USM", minFocalLength: 100, maxFocalLength: 500, teleconverters: [1.4, 2] },
+  { id: "nikon-z24-120-f4", name: "NIKKOR Z 24-120mm f/4 S", minFocalLength: 24, maxFocalLength: 120, teleconverters: [] },
+  { id: "nikon-z100-400", name: "NIKKOR Z 100-400mm f/4.5-5.6 VR S", minFocalLength: 100, maxFocalLength: 400, teleconverters: [1.4, 2] },
+  { id: "sony-fe24-70-gm2", name: "Sony FE 24-70mm F2.8 GM II", minFocalLength: 24, maxFocalLength: 70, teleconverters: [] },
+  { id: "sony-fe200-600", name: "Sony FE 200-600mm F5.6-6.3 G OSS", minFocalLength: 200, maxFocalLength: 600, teleconverters: [1.4, 2] },
+  { id: "fujifilm-xf16-80", name: "FUJINON XF16-80mm F4 R OIS WR", minFocalLength: 16, maxFocalLength: 80, teleconverters: [] },
+  { id: "fujifilm-xf100-400", name: "FUJINON XF100-400mm F4.5-5.6 R LM OIS WR", minFocalLength: 100, maxFocalLength: 400, teleconverters: [1.4, 2] },
+  { id: "om-12-40-pro", name: "M.ZUIKO DIGITAL ED 12-40mm F2.8 PRO II", minFocalLength: 12, maxFocalLength: 40, teleconverters: [] },
+  { id: "om-100-400", name: "M.ZUIKO DIGITAL ED 100-400mm F5.0-6.3 IS", minFocalLength: 100, maxFocalLength: 400, teleconverters: [1.4, 2] },
+  { id: "sigma-150-600-sports", name: "SIGMA 150-600mm F5-6.3 DG DN OS | Sports", minFocalLength: 150, maxFocalLength: 600, teleconverters: [1.4, 2] },
+  { id: "tamron-150-500", name: "TAMRON 150-500mm F/5-6.7 Di III VC VXD", minFocalLength: 150, maxFocalLength: 500, teleconverters: [] },
+];
@@ -0,0 +1,79 @@
+import type { CameraSettings } from "../components/CameraPanel";
+
+// ボディのプロファイルを選んでいない場合のセンサーサイズ
+const SENSOR_DIMENSIONS = {
+  fullframe: { width: 36, height: 24 }, // mm
+  apsc: { width: 23.5, height: 15.6 }, // mm
+  micro43: { width: 17.3, height: 13 }, // mm
+};
+
+const ASPECT_RATIOS = {
+  "3:2": 3 / 2,
+  "4:3": 4 / 3,
+  "16:9": 16 / 9,
+  "1:1": 1 / 1,
+};
+
+/**
+ * カメラ設定のセンサーサイズ（mm）
+ * ボディのプロファイルで指定されたサイズを優先し、なければセンサー種別の代表値を使う
+ */
+export const getSensorDimensions = (
+  settings: Pick<CameraSettings, "sensorType" | "sensorSize">,
+): { width: number; height: number } =>
+  settings.sensorSize || SENSOR_DIMENSIONS[settings.sensorType] || SENSOR_DIMENSIONS.fullframe;
+
+/**
+ * カメラ設定から写る範囲のセンサー上の大きさ（mm）を計算
+ * アスペクト比に合わせてセンサーをトリミングし、撮影向きに応じて縦横を入れ替える
+ */
+export const calculateFrameSize = (
+  settings: Pick<CameraSettings, "sensorType" | "sensorSize" | "aspectRatio" | "orientation">,
+): { width: number; height: number } => {
+  const sensor = getSensorDimensions(settings);
+  const ratio = ASPECT_RATIOS[settings.aspectRatio] || ASPECT_RATIOS["3:2"];
+
+  let actualWidth = sensor.width;
+  let actualHeight = sensor.height;
+
+  if (ratio > sensor.width / sensor.height) {
+    actualHeight = sensor.width / ratio;
+  } else {
+    actualWidth = sensor.height * ratio;
+  }
+
+  if (settings.orientation === "portrait") {
+    [actualWidth, actualHeight] = [actualHeight, actualWidth];
+  }
+
+  return { width: actualWidth, height: actualHeight };
+};
+
+/**
+ * センサー全体の面積（mm²）。画素数から画素ピッチを求めるのに使う
+ */
+export const getSensorArea = (
+  settings: Pick<CameraSettings, "sensorType" | "sensorSize">,
+): number => {
+  const sensor = getSensorDimensions(settings);
+  return sensor.width * sensor.height;
+};
+
+/**
+ * カメラ設定から水平・垂直の画角（度）を計算
+ */
+export const calculateFieldOfView = (
+  settings: Pick<
+    CameraSettings,
+    "focalLength" | "sensorType" | "sensorSize" | "aspectRatio" | "orientation"
+  >,
+): { horizontal: number; vertical: number } => {
+  const frame = calculateFrameSize(settings);
+  const toAngle = (size: number) =>
+    2 * Math.atan(size / (2 * settings.focalLength)) * (180 / Math.PI);
+
+  return {
+    horizontal: toAngle(frame.width),
+    vertical: toAngle(frame.height),
+  };
+};
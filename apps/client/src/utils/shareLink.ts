@@ -0,0 +1,283 @@
+import type { AlignmentClassification } from "@skytree-photo-planner/types";
+import { timeUtils } from "@skytree-photo-planner/utils";
+import type { CameraSettings } from "../components/CameraPanel";
+import type { FilterOptions } from "../components/FilterPanel";
+import type { SearchMode, ShootingScene } from "../pages/MapSearchPage";
+import type { MapCompareRequest, RegionRecommendationRequest } from "../services/apiClient";
+import { uiLogger } from "./logger";
+
+/**
+ * 共有リンク（URL クエリパラメータ）のスキーマ
+ *
+ * v: スキーマのバージョン。キーの意味を変える場合はバージョンを上げ、古いバージョンの読み込みを残す
+ * v を含まないリンクは v1 以前の日付検索リンク（date・locationId・eventId のみ）として v1 と同じく読む
+ */
+export const SHARE_LINK_VERSION = 1;
+
+/**
+ * 日付検索（カレンダー）の共有状態
+ */
+export interface CalendarLinkState {
+  date?: Date;
+  month?: { year: number; month: number }; // 日付を選んでいない場合の表示月
+  locationId?: number;
+  eventId?: string;
+  filters?: FilterOptions;
+  cameraSettings?: CameraSettings;
+}
+
+/**
+ * 地図検索の共有状態
+ */
+export interface MapSearchLinkState {
+  point?: { latitude: number; longitude: number; elevation: number };
+  scene?: ShootingScene;
+  searchMode?: SearchMode;
+  target?: string;
+  startDate?: Date;
+  endDate?: Date;
+  comparisonPoints?: MapCompareRequest["points"];
+  polygon?: RegionRecommendationRequest["polygon"];
+  run?: "search" | "compare" | "region"; // リンクを開いたときに実行する検索
+  sortBy?: "time" | "accuracy";
+  filterType?: "all" | "diamond" | "pearl";
+}
+
+const EVENT_TYPE_FILTERS = ["diamondSunrise", "diamondSunset", "pearlMoonrise", "pearlMoonset"] as const;
+const SPECIAL_EVENT_FILTERS = ["solarEclipse", "lunarEclipse", "supermoon"] as const;
+const ALIGNMENT_FILTERS: AlignmentClassification[] = ["centered", "touching", "crossing_shaft", "beside"];
+const DISTANCE_FILTERS: FilterOptions["distance"][] = ["all", "very_near", "near", "medium", "far", "very_far"];
+const SENSOR_TYPES: CameraSettings["sensorType"][] = ["fullframe", "apsc", "micro43"];
+const ASPECT_RATIOS: CameraSettings["aspectRatio"][] = ["3:2", "4:3", "16:9", "1:1"];
+const SCENES: ShootingScene[] = ["all", "diamond", "pearl"];
+const SEARCH_MODES: SearchMode[] = ["auto", "fast", "balanced", "precise"];
+const RUN_KINDS: NonNullable<MapSearchLinkState["run"]>[] = ["search", "compare", "region"];
+
+const pickOne = <T extends string>(value: string | null, choices: readonly T[]): T | undefined =>
+  choices.find((choice) => choice === value);
+
+const parseNumber = (value: string | null): number | undefined => {
+  if (value === null || value === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// YYYY-MM-DD をローカル時刻の 0 時として読む（timeUtils.formatDateString の逆変換）
+const parseDate = (value: string | null): Date | undefined => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const parseList = (value: string | null): string[] => (value ? value.split(",") : []);
+
+/**
+ * 対応しているバージョンのリンクか（対応していない場合は何も読まない）
+ */
+const checkVersion = (params: URLSearchParams): boolean => {
+  const version = params.get("v");
+  if (version === null || Number(version) === SHARE_LINK_VERSION) {
+    return true;
+  }
+  uiLogger.warn("対応していない共有リンクのバージョンです", undefined, { version });
+  return false;
+};
+
+const appendCameraSettings = (params: URLSearchParams, settings: CameraSettings) => {
+  params.set("fl", String(settings.focalLength));
+  params.set("sensor", settings.sensorType);
+  params.set("ar", settings.aspectRatio);
+  params.set("ori", settings.orientation);
+  if (settings.showAngles) params.set("fov", "1");
+  if (settings.megapixels) params.set("mp", String(settings.megapixels));
+  if (settings.bodyId) params.set("body", settings.bodyId);
+  // 独自ボディのプロファイルは開いた側にないため、センサーサイズもリンクに含める
+  if (settings.sensorSize) params.set("ss", `${settings.sensorSize.width}x${settings.sensorSize.height}`);
+  if (settings.lensId) params.set("lens", settings.lensId);
+  if (settings.teleconverter) params.set("tc", String(settings.teleconverter));
+};
+
+const readCameraSettings = (params: URLSearchParams): CameraSettings | undefined => {
+  const focalLength = parseNumber(params.get("fl"));
+  if (!focalLength || focalLength <= 0) return undefined;
+
+  const [sensorWidth, sensorHeight] = (params.get("ss") ?? "").split("x").map(Number);
+  return {
+    showAngles: params.get("fov") === "1",
+    focalLength,
+    sensorType: pickOne(params.get("sensor"), SENSOR_TYPES) ?? "fullframe",
+    aspectRatio: pickOne(params.get("ar"), ASPECT_RATIOS) ?? "3:2",
+    orientation: params.get("ori") === "portrait" ? "portrait" : "landscape",
+    megapixels: parseNumber(params.get("mp")),
+    bodyId: params.get("body") || undefined,
+    sensorSize:
+      sensorWidth > 0 && sensorHeight > 0 ? { width: sensorWidth, height: sensorHeight } : undefined,
+    lensId: params.get("lens") || undefined,
+    teleconverter: parseNumber(params.get("tc")),
+  };
+};
+
+/**
+ * 日付検索の状態を URL クエリパラメータに変換
+ */
+export const toCalendarLinkParams = (state: CalendarLinkState): URLSearchParams => {
+  const params = new URLSearchParams({ v: String(SHARE_LINK_VERSION) });
+  if (state.date) {
+    params.set("date", timeUtils.formatDateString(state.date));
+  } else if (state.month) {
+    params.set("month", `${state.month.year}-${String(state.month.month).padStart(2, "0")}`);
+  }
+  if (state.locationId !== undefined) params.set("locationId", String(state.locationId));
+  if (state.eventId) params.set("eventId", state.eventId);
+
+  if (state.filters) {
+    const { filters } = state;
+    if (filters.distance !== "all") params.set("distance", filters.distance);
+    const types = EVENT_TYPE_FILTERS.filter((key) => filters[key]);
+    if (types.length > 0) params.set("types", types.join(","));
+    const special = SPECIAL_EVENT_FILTERS.filter((key) => filters.specialEvents[key]);
+    if (special.length > 0) params.set("special", special.join(","));
+    const alignment = ALIGNMENT_FILTERS.filter((key) => filters.alignment[key]);
+    if (alignment.length > 0) params.set("align", alignment.join(","));
+  }
+
+  if (state.cameraSettings) appendCameraSettings(params, state.cameraSettings);
+  return params;
+};
+
+/**
+ * URL クエリパラメータから日付検索の状態を読む（含まれない・不正な項目は undefined）
+ */
+export const fromCalendarLinkParams = (params: URLSearchParams): CalendarLinkState => {
+  if (!checkVersion(params)) return {};
+
+  const monthMatch = params.get("month")?.match(/^(\d{4})-(\d{2})$/);
+  const locationId = parseNumber(params.get("locationId"));
+  const types = parseList(params.get("types"));
+  const special = parseList(params.get("special"));
+  const alignment = parseList(params.get("align"));
+  // v1 のリンクは既定値のフィルターを省略するため、v があればフィルターを含むとみなす
+  const hasFilters =
+    params.has("v") ||
+    params.has("distance") ||
+    params.has("types") ||
+    params.has("special") ||
+    params.has("align");
+
+  return {
+    date: parseDate(params.get("date")),
+    month: monthMatch ? { year: Number(monthMatch[1]), month: Number(monthMatch[2]) } : undefined,
+    locationId: locationId !== undefined && Number.isInteger(locationId) ? locationId : undefined,
+    eventId: params.get("eventId") || undefined,
+    filters: hasFilters
+      ? {
+          distance: pickOne(params.get("distance"), DISTANCE_FILTERS) ?? "all",
+          diamondSunrise: types.includes("diamondSunrise"),
+          diamondSunset: types.includes("diamondSunset"),
+          pearlMoonrise: types.includes("pearlMoonrise"),
+          pearlMoonset: types.includes("pearlMoonset"),
+          specialEvents: {
+            solarEclipse: special.includes("solarEclipse"),
+            lunarEclipse: special.includes("lunarEclipse"),
+            supermoon: special.includes("supermoon"),
+          },
+          alignment: {
+            centered: alignment.includes("centered"),
+            touching: alignment.includes("touching"),
+            crossing_shaft: alignment.includes("crossing_shaft"),
+            beside: alignment.includes("beside"),
+          },
+        }
+      : undefined,
+    cameraSettings: readCameraSettings(params),
+  };
+};
+
+/**
+ * 地図検索の状態を URL クエリパラメータに変換
+ * 比較地点は cmp を繰り返し「緯度,経度,標高,名前」、範囲は poly に「緯度,経度」を ; 区切りで並べる
+ */
+export const toMapSearchLinkParams = (state: MapSearchLinkState): URLSearchParams => {
+  const params = new URLSearchParams({ v: String(SHARE_LINK_VERSION) });
+  if (state.point) {
+    params.set("lat", String(state.point.latitude));
+    params.set("lng", String(state.point.longitude));
+    params.set("elev", String(state.point.elevation));
+  }
+  if (state.scene) params.set("scene", state.scene);
+  if (state.searchMode) params.set("mode", state.searchMode);
+  if (state.target) params.set("target", state.target);
+  if (state.startDate) params.set("from", timeUtils.formatDateString(state.startDate));
+  if (state.endDate) params.set("to", timeUtils.formatDateString(state.endDate));
+  state.comparisonPoints?.forEach((point) => {
+    params.append(
+      "cmp",
+      [point.latitude, point.longitude, point.elevation, point.label ?? ""].join(","),
+    );
+  });
+  if (state.polygon && state.polygon.length > 0) {
+    params.set(
+      "poly",
+      state.polygon.map((vertex) => `${vertex.latitude},${vertex.longitude}`).join(";"),
+    );
+  }
+  if (state.run) params.set("run", state.run);
+  if (state.sortBy && state.sortBy !== "time") params.set("sort", state.sortBy);
+  if (state.filterType && state.filterType !== "all") params.set("show", state.filterType);
+  return params;
+};
+
+/**
+ * URL クエリパラメータから地図検索の状態を読む（含まれない・不正な項目は undefined）
+ */
+export const fromMapSearchLinkParams = (params: URLSearchParams): MapSearchLinkState => {
+  if (!checkVersion(params)) return {};
+
+  const latitude = parseNumber(params.get("lat"));
+  const longitude = parseNumber(params.get("lng"));
+  const isValidPoint = (lat?: number, lng?: number) =>
+    lat !== undefined && lng !== undefined && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+  const comparisonPoints = params
+    .getAll("cmp")
+    .map((value) => {
+      const [lat, lng, elevation, ...label] = value.split(",");
+      return {
+        label: label.join(",") || undefined,
+        latitude: Number(lat),
+        longitude: Number(lng),
+        elevation: parseNumber(elevation) ?? 0,
+      };
+    })
+    .filter((point) => isValidPoint(point.latitude, point.longitude));
+  const polygon = (params.get("poly") ?? "")
+    .split(";")
+    .filter(Boolean)
+    .map((value) => {
+      const [lat, lng] = value.split(",").map(Number);
+      return { latitude: lat, longitude: lng };
+    })
+    .filter((vertex) => isValidPoint(vertex.latitude, vertex.longitude));
+
+  return {
+    point:
+      isValidPoint(latitude, longitude)
+        ? {
+            latitude: latitude as number,
+            longitude: longitude as number,
+            elevation: parseNumber(params.get("elev")) ?? 0,
+          }
+        : undefined,
+    scene: pickOne(params.get("scene"), SCENES),
+    searchMode: pickOne(params.get("mode"), SEARCH_MODES),
+    target: params.get("target") || undefined,
+    startDate: parseDate(params.get("from")),
+    endDate: parseDate(params.get("to")),
+    comparisonPoints: comparisonPoints.length > 0 ? comparisonPoints : undefined,
+    polygon: polygon.length >= 3 ? polygon : undefined,
+    run: pickOne(params.get("run"), RUN_KINDS),
+    sortBy: params.get("sort") === "accuracy" ? "accuracy" : undefined,
+    filterType: pickOne(params.get("show"), ["all", "diamond", "pearl"] as const),
+  };
+};
@@ -0,0 +1,37 @@
+import type { FavoriteShootPlan, ShootPlanStepType, SkyPosition } from "@skytree-photo-planner/types";
+
+export const SHOOT_PLAN_STEP_LABELS: Record<ShootPlanStepType, string> = {
+  departure: "出発",
+  arrival: "到着・設営開始",
+  setup_complete: "設営完了・撮影開始",
+  blue_hour_start: "ブルーアワー開始",
+  blue_hour_end: "ブルーアワー終了",
+  first_contact: "重なり始め",
+  alignment: "頂部に重なる",
+  last_contact: "重なり終わり",
+};
+
+export const formatPlanTime = (time: string | Date): string =>
+  new Date(time).toLocaleTimeString("ja-JP", {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Asia/Tokyo",
+  });
+
+export const formatSkyPosition = (position?: SkyPosition): string =>
+  position
+    ? `方位 ${position.azimuth.toFixed(1)}° / 高度 ${position.elevation.toFixed(1)}°`
+    : "-";
+
+/**
+ * 撮影計画の工程を 1 行ずつのテキストにする（印刷・カレンダーの説明用）
+ */
+export const formatShootPlanLines = (plan: FavoriteShootPlan): string[] => {
+  const lines = plan.steps.map(
+    (step) =>
+      `${formatPlanTime(step.time)} ${SHOOT_PLAN_STEP_LABELS[step.type]}（太陽: ${formatSkyPosition(step.sun)}、月: ${formatSkyPosition(step.moon)}）`,
+  );
+  if (plan.accessInfo) lines.push(`アクセス: ${plan.accessInfo}`);
+  if (plan.parkingInfo) lines.push(`駐車場: ${plan.parkingInfo}`);
+  return lines;
+};
@@ -0,0 +1,56 @@
+import type { ISystemSettingsService } from "../services/interfaces/ISystemSettingsService";
+import { RefractionCalculator } from "../services/astronomical/RefractionCalculator";
+import { PearlGatingEvaluator } from "../services/astronomical/PearlGatingEvaluator";
+import { LocationDuplicateDetector } from "../services/LocationDuplicateDetector";
+import { LineOfSightCalculator } from "../services/astronomical/LineOfSightCalculator";
+
+/**
+ * DB を使わずデフォルト値を返す設定サービス
+ */
+export class DefaultSettingsService implements ISystemSettingsService {
+  async getSetting<T = unknown>(_settingKey: string, defaultValue?: T): Promise<T> {
+    return defaultValue as T;
+  }
+
+  async getNumberSetting(_key: string, defaultValue: number): Promise<number> {
+    return defaultValue;
+  }
+
+  async getStringSetting(_settingKey: string, defaultValue?: string): Promise<string> {
+    return defaultValue;
+  }
+
+  async getBooleanSetting(_settingKey: string, defaultValue?: boolean): Promise<boolean> {
+    return defaultValue;
+  }
+
+  async getPerformanceSettings() {
+    return {
+      workerConcurrency: 1,
+      jobDelay: 0,
+      processingDelay: 0,
+      enableLowPriorityMode: false,
+      maxActiveJobs: 1,
+    };
+  }
+
+  async getRefractionSettings() {
+    return RefractionCalculator.DEFAULT_SETTINGS;
+  }
+
+  async getPearlGatingRules() {
+    return PearlGatingEvaluator.DEFAULT_RULES;
+  }
+
+  async getLocationDuplicateRules() {
+    return LocationDuplicateDetector.DEFAULT_RULES;
+  }
+
+  async getTerrainOcclusionSettings() {
+    return LineOfSightCalculator.DEFAULT_SETTINGS;
+  }
+
+  async updateSetting(): Promise<void> {
+    // ベンチマークでは設定を変更しない
+  }
+}
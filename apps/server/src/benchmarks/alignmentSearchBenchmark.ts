@@ -0,0 +1,123 @@
+import type { Location, SkytreeEvent } from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import { SkytreeAlignmentCalculator } from "../services/astronomical/SkytreeAlignmentCalculator";
+import type {
+  AlignmentPrecisionSettings,
+  AlignmentSearchStrategy,
+} from "../services/astronomical/SkytreeAlignmentCalculator";
+import { benchmarkLocations } from "./fixtures/benchmarkLocations";
+import { compareAlignmentEvents } from "./compareAlignmentEvents";
+import { DefaultSettingsService } from "./DefaultSettingsService";
+
+/**
+ * 整列検索方式のベンチマーク
+ *
+ * 固定刻み走査（scan）と求根（root_finding）で同じ地点・期間を検索し、
+ * 実行時間と検出イベントの一致度を比較する
+ *
+ * 使い方:
+ *   npm run benchmark:alignment --workspace=apps/server -- --year=2026 --days=365 --interval=10 --scene=all
+ */
+
+const logger = getComponentLogger("AlignmentSearchBenchmark");
+
+interface BenchmarkOptions {
+  year: number;
+  days: number;
+  interval: number;
+  scene: "all" | "diamond" | "pearl";
+  locationLimit: number;
+}
+
+interface StrategyRun {
+  strategy: AlignmentSearchStrategy;
+  elapsedMs: number;
+  events: SkytreeEvent[];
+}
+
+function parseOptions(argv: string[]): BenchmarkOptions {
+  const args = new Map(
+    argv
+      .filter((arg) => arg.startsWith("--"))
+      .map((arg) => {
+        const [key, value] = arg.slice(2).split("=");
+        return [key, value ?? ""] as const;
+      }),
+  );
+
+  const scene = args.get("scene");
+  return {
+    year: parseInt(args.get("year") ?? "", 10) || new Date().getFullYear(),
+    days: parseInt(args.get("days") ?? "", 10) || 365,
+    interval: parseInt(args.get("interval") ?? "", 10) || 10,
+    scene: scene === "diamond" || scene === "pearl" ? scene : "all",
+    locationLimit: parseInt(args.get("locations") ?? "", 10) || benchmarkLocations.length,
+  };
+}
+
+async function runStrategy(
+  calculator: SkytreeAlignmentCalculator,
+  location: Location,
+  options: BenchmarkOptions,
+  strategy: AlignmentSearchStrategy,
+): Promise<StrategyRun> {
+  const precisionSettings: AlignmentPrecisionSettings = {
+    searchInterval: options.interval,
+    toleranceLevel: "high",
+    strategy,
+  };
+  const events: SkytreeEvent[] = [];
+  const startedAt = process.hrtime.bigint();
+
+  for (let day = 0; day < options.days; day++) {
+    const date = new Date(Date.UTC(options.year, 0, 1 + day));
+    if (options.scene !== "pearl") {
+      events.push(...(await calculator.findDiamondSkytree(date, location, precisionSettings)));
+    }
+    if (options.scene !== "diamond") {
+      events.push(...(await calculator.findPearlSkytree(date, location, precisionSettings)));
+    }
+  }
+
+  const elapsedMs = Number(process.hrtime.bigint() - startedAt) / 1e6;
+  return { strategy, elapsedMs, events };
+}
+
+async function main(): Promise<void> {
+  const options = parseOptions(process.argv.slice(2));
+  const calculator = new SkytreeAlignmentCalculator(new DefaultSettingsService());
+  const locations = benchmarkLocations.slice(0, options.locationLimit);
+
+  logger.info("整列検索ベンチマーク開始", { ...options, locations: locations.length });
+
+  let totalScanMs = 0;
+  let totalRootMs = 0;
+  for (const location of locations) {
+    const scan = await runStrategy(calculator, location, options, "scan");
+    const root = await runStrategy(calculator, location, options, "root_finding");
+    const { scanOnlyEvents, ...comparison } = compareAlignmentEvents(scan.events, root.events);
+
+    totalScanMs += scan.elapsedMs;
+    totalRootMs += root.elapsedMs;
+
+    logger.info("地点別結果", {
+      location: location.name,
+      scan: { elapsedMs: Math.round(scan.elapsedMs), events: scan.events.length },
+      rootFinding: { elapsedMs: Math.round(root.elapsedMs), events: root.events.length },
+      speedup: Math.round((scan.elapsedMs / Math.max(root.elapsedMs, 1)) * 10) / 10,
+      comparison,
+      scanOnlyEvents: scanOnlyEvents.map((event) => `${event.type}-${event.subType} ${event.time.toISOString()}`),
+    });
+  }
+
+  logger.info("整列検索ベンチマーク完了", {
+    scanElapsedMs: Math.round(totalScanMs),
+    rootFindingElapsedMs: Math.round(totalRootMs),
+    speedup: Math.round((totalScanMs / Math.max(totalRootMs, 1)) * 10) / 10,
+  });
+}
+
+main().catch((error) => {
+  logger.error("整列検索ベンチマークエラー", error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+import type { SkytreeEvent } from "@skytree-photo-planner/types";
+
+/**
+ * 走査結果と求根結果の対応付け
+ * 同じ日・同じ種別・同じ昇降のイベントを時刻が最も近いもの同士で対応させる
+ */
+export interface ComparisonResult {
+  matched: number;
+  scanOnly: number;
+  scanOnlyEvents: SkytreeEvent[]; // 求根結果に対応するイベントがない走査結果
+  rootOnly: number;
+  meanTimeDiffSeconds: number;
+  maxTimeDiffSeconds: number;
+}
+
+export function compareAlignmentEvents(
+  scanEvents: SkytreeEvent[],
+  rootEvents: SkytreeEvent[],
+): ComparisonResult {
+  const groupKey = (event: SkytreeEvent) =>
+    `${event.type}-${event.subType}-${event.time.toISOString().slice(0, 10)}`;
+
+  const rootGroups = new Map<string, SkytreeEvent[]>();
+  for (const event of rootEvents) {
+    const key = groupKey(event);
+    rootGroups.set(key, [...(rootGroups.get(key) ?? []), event]);
+  }
+
+  let matched = 0;
+  const scanOnlyEvents: SkytreeEvent[] = [];
+  const timeDiffs: number[] = [];
+  for (const event of scanEvents) {
+    const group = rootGroups.get(groupKey(event));
+    if (!group || group.length === 0) {
+      scanOnlyEvents.push(event);
+      continue;
+    }
+
+    // 最も時刻が近いイベントと対応付ける
+    let bestIndex = 0;
+    for (let i = 1; i < group.length; i++) {
+      if (
+        Math.abs(group[i].time.getTime() - event.time.getTime()) <
+        Math.abs(group[bestIndex].time.getTime() - event.time.getTime())
+      ) {
+        bestIndex = i;
+      }
+    }
+    timeDiffs.push(Math.abs(group[bestIndex].time.getTime() - event.time.getTime()) / 1000);
+    group.splice(bestIndex, 1);
+    matched++;
+  }
+
+  const rootOnly = Array.from(rootGroups.values()).reduce((sum, group) => sum + group.length, 0);
+
+  return {
+    matched,
+    scanOnly: scanOnlyEvents.length,
+    scanOnlyEvents,
+    rootOnly,
+    meanTimeDiffSeconds:
+      timeDiffs.length > 0
+        ? Math.round((timeDiffs.reduce((sum, diff) => sum + diff, 0) / timeDiffs.length) * 10) / 10
+        : 0,
+    maxTimeDiffSeconds: timeDiffs.length > 0 ? Math.round(Math.max(...timeDiffs) * 10) / 10 : 0,
+  };
+}
@@ -0,0 +1,29 @@
+import type { Location } from "@skytree-photo-planner/types";
+
+/**
+ * ベンチマーク用の撮影地点フィクスチャ
+ * 方位・距離が偏らないよう、スカイツリーを囲む代表的な撮影地を選定
+ */
+const fixtures: Array<Pick<Location, "name" | "prefecture" | "latitude" | "longitude" | "elevation">> = [
+  { name: "芝公園", prefecture: "東京都", latitude: 35.6586, longitude: 139.7454, elevation: 20 },
+  { name: "葛西臨海公園", prefecture: "東京都", latitude: 35.6405, longitude: 139.86, elevation: 3 },
+  { name: "荒川河川敷（足立区）", prefecture: "東京都", latitude: 35.7632, longitude: 139.809, elevation: 5 },
+  { name: "江戸川河川敷（市川市）", prefecture: "千葉県", latitude: 35.73, longitude: 139.905, elevation: 4 },
+  { name: "文京シビックセンター", prefecture: "東京都", latitude: 35.7081, longitude: 139.7521, elevation: 105 },
+  { name: "横浜ランドマークタワー", prefecture: "神奈川県", latitude: 35.4547, longitude: 139.6314, elevation: 273 },
+];
+
+export const benchmarkLocations: Location[] = fixtures.map((fixture, index) => ({
+  id: -(index + 1),
+  ...fixture,
+  description: null,
+  accessInfo: null,
+  measurementNotes: null,
+  parkingInfo: null,
+  azimuthToSkytree: 0,
+  elevationToSkytree: 0,
+  distanceToSkytree: 0,
+  status: "active",
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+}));
@@ -1,14 +1,34 @@
 import { Request, Response } from "express";
-import { CalendarService } from "../services/interfaces/CalendarService";
+import { AlignmentClassification } from "@skytree-photo-planner/types";
+import {
+  CalendarService,
+  CalendarQueryOptions,
+} from "../services/interfaces/CalendarService";
+import { AlignmentTargetService } from "../services/AlignmentTargetService";
+import {
+  CalendarFeedEventType,
+  CalendarFeedService,
+} from "../services/CalendarFeedService";
 import { getComponentLogger } from "@skytree-photo-planner/utils";
 
 export class CalendarController {
+  private static readonly ALIGNMENT_CLASSIFICATIONS: readonly AlignmentClassification[] = [
+    "centered",
+    "touching",
+    "crossing_shaft",
+    "beside",
+  ];
+
   private logger = getComponentLogger("calendar-controller");
 
-  constructor(private calendarService: CalendarService) {}
+  constructor(
+    private calendarService: CalendarService,
+    private alignmentTargetService: AlignmentTargetService,
+    private calendarFeedService: CalendarFeedService,
+  ) {}
 
   // 月間カレンダーデータを取得（キャッシュ対応）
-  // GET /api/calendar/:year/:month
+  // GET /api/calendar/:year/:month?target=tembo_deck&alignment=centered,touching
   async getMonthlyCalendar(req: Request, res: Response) {
     const startTime = Date.now();
 
@@ -38,9 +58,20 @@ export class CalendarController {
         });
       }
 
-      this.logger.info("月間カレンダー取得リクエスト", { year, month });
+      const parsed = await this.parseQueryOptions(req);
+      if ("error" in parsed) {
+        return res.status(400).json(parsed.error);
+      }
+      const { options } = parsed;
 
-      const result = await this.calendarService.getMonthlyCalendar(year, month);
+      this.logger.info("月間カレンダー取得リクエスト", {
+        year,
+        month,
+        targetId: options.target?.id,
+        alignments: options.alignments,
+      });
+
+      const result = await this.calendarService.getMonthlyCalendar(year, month, options);
 
       const processingTime = Date.now() - startTime;
       this.logger.info("月間カレンダー取得完了", {
@@ -68,7 +99,7 @@ export class CalendarController {
   }
 
   // 日別イベント取得
-  // GET /api/events/:date
+  // GET /api/events/:date?target=tembo_deck
   async getDayEvents(req: Request, res: Response) {
     try {
       const { date } = req.params;
@@ -81,9 +112,19 @@ export class CalendarController {
         });
       }
 
-      this.logger.info("日別イベント取得リクエスト", { date });
+      const parsed = await this.parseQueryOptions(req);
+      if ("error" in parsed) {
+        return res.status(400).json(parsed.error);
+      }
+      const { options } = parsed;
 
-      const result = await this.calendarService.getDayEvents(date);
+      this.logger.info("日別イベント取得リクエスト", {
+        date,
+        targetId: options.target?.id,
+        alignments: options.alignments,
+      });
+
+      const result = await this.calendarService.getDayEvents(date, options);
 
       this.logger.info("日別イベント取得完了", {
         date,
@@ -138,7 +179,7 @@ export class CalendarController {
   }
 
   // 地点別年間イベント取得
-  // GET /api/calendar/location/:locationId/:year
+  // GET /api/calendar/location/:locationId/:year?targetHeight=450
   async getLocationYearlyEvents(req: Request, res: Response) {
     try {
       const locationId = parseInt(req.params.locationId);
@@ -158,14 +199,23 @@ export class CalendarController {
         });
       }
 
+      const parsed = await this.parseQueryOptions(req);
+      if ("error" in parsed) {
+        return res.status(400).json(parsed.error);
+      }
+      const { options } = parsed;
+
       this.logger.info("地点別年間イベント取得リクエスト", {
         locationId,
         year,
+        targetId: options.target?.id,
+        alignments: options.alignments,
       });
 
       const events = await this.calendarService.getLocationYearlyEvents(
         locationId,
         year,
+        options,
       );
 
       this.logger.info("地点別年間イベント取得完了", {
@@ -189,6 +239,148 @@ export class CalendarController {
     }
   }
 
+  // 地点別年間イベントの ICS フィード
+  // GET /api/calendar/location/:locationId/:year.ics?alarm=60&targetHeight=450
+  async getLocationYearlyIcs(req: Request, res: Response) {
+    try {
+      const locationId = parseInt(req.params.locationId);
+      const year = parseInt(req.params.year);
+
+      if (isNaN(locationId) || isNaN(year)) {
+        return res.status(400).json({
+          error: "Invalid parameters",
+          message: "locationId と year は数値で指定してください。",
+        });
+      }
+
+      if (year < 2020 || year > 2030) {
+        return res.status(400).json({
+          error: "Invalid year range",
+          message: "年は 2020 年から 2030 年の範囲で指定してください。",
+        });
+      }
+
+      const alarmMinutesBefore = this.parseAlarmMinutes(req);
+      if (alarmMinutesBefore === null) {
+        return res.status(400).json({
+          error: "Invalid alarm",
+          message: `alarm は 0〜${CalendarFeedService.MAX_ALARM_MINUTES} 分で指定してください。`,
+        });
+      }
+
+      const parsed = await this.parseQueryOptions(req);
+      if ("error" in parsed) {
+        return res.status(400).json(parsed.error);
+      }
+
+      const ics = await this.calendarFeedService.getLocationYearlyFeed(
+        locationId,
+        year,
+        parsed.options,
+        { alarmMinutesBefore },
+      );
+      if (ics === null) {
+        return res.status(404).json({
+          error: "Not found",
+          message: "指定された地点が見つかりません。",
+        });
+      }
+
+      this.sendIcs(res, `skytree-location-${locationId}-${year}.ics`, ics);
+    } catch (error) {
+      this.logger.error("地点別年間フィード取得エラー", {
+        locationId: req.params.locationId,
+        year: req.params.year,
+        error,
+      });
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "カレンダーフィードの作成に失敗しました。",
+      });
+    }
+  }
+
+  // 今後のイベントの ICS フィード（種類・地点・重なり方で絞り込み）
+  // GET /api/calendar/feed.ics?types=diamond_sunrise,pearl&locationId=1&alignment=centered&days=90&alarm=60
+  async getEventFeedIcs(req: Request, res: Response) {
+    try {
+      const types =
+        typeof req.query.types === "string" && req.query.types
+          ? req.query.types.split(",")
+          : [];
+      if (
+        types.some(
+          (type) => !CalendarFeedService.EVENT_TYPES.includes(type as CalendarFeedEventType),
+        )
+      ) {
+        return res.status(400).json({
+          error: "Invalid types",
+          message: `types は ${CalendarFeedService.EVENT_TYPES.join(" / ")} から指定してください。`,
+        });
+      }
+
+      const locationId =
+        typeof req.query.locationId === "string" ? parseInt(req.query.locationId) : undefined;
+      if (locationId !== undefined && isNaN(locationId)) {
+        return res.status(400).json({
+          error: "Invalid locationId",
+          message: "locationId は数値で指定してください。",
+        });
+      }
+
+      const days =
+        typeof req.query.days === "string"
+          ? parseInt(req.query.days)
+          : CalendarFeedService.DEFAULT_FEED_DAYS;
+      if (isNaN(days) || days < 1 || days > CalendarFeedService.MAX_FEED_DAYS) {
+        return res.status(400).json({
+          error: "Invalid days",
+          message: `days は 1〜${CalendarFeedService.MAX_FEED_DAYS} 日で指定してください。`,
+        });
+      }
+
+      const alarmMinutesBefore = this.parseAlarmMinutes(req);
+      if (alarmMinutesBefore === null) {
+        return res.status(400).json({
+          error: "Invalid alarm",
+          message: `alarm は 0〜${CalendarFeedService.MAX_ALARM_MINUTES} 分で指定してください。`,
+        });
+      }
+
+      // 事前計算済みのイベントから作るため、目標点の指定は受け付けない
+      const parsed = await this.parseQueryOptions(req);
+      if ("error" in parsed) {
+        return res.status(400).json(parsed.error);
+      }
+      if (parsed.options.target) {
+        return res.status(400).json({
+          error: "Invalid target",
+          message: "イベントフィードでは目標点を指定できません。",
+        });
+      }
+
+      const ics = await this.calendarFeedService.getEventFeed(
+        {
+          types: types as CalendarFeedEventType[],
+          locationId,
+          alignments: parsed.options.alignments,
+          days,
+        },
+        { alarmMinutesBefore },
+      );
+
+      this.sendIcs(res, "skytree-events.ics", ics);
+    } catch (error) {
+      this.logger.error("イベントフィード取得エラー", { query: req.query, error });
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "カレンダーフィードの作成に失敗しました。",
+      });
+    }
+  }
+
   // カレンダー統計情報取得
   // GET /api/calendar/stats/:year
   async getCalendarStats(req: Request, res: Response) {
@@ -228,4 +420,84 @@ export class CalendarController {
       });
     }
   }
+
+  /**
+   * 通知のタイミング（alarm: イベントの何分前か）を解決（不正な値は null）
+   */
+  private parseAlarmMinutes(req: Request): number | null {
+    if (typeof req.query.alarm !== "string") {
+      return CalendarFeedService.DEFAULT_ALARM_MINUTES;
+    }
+    const alarm = parseInt(req.query.alarm);
+    return isNaN(alarm) || alarm < 0 || alarm > CalendarFeedService.MAX_ALARM_MINUTES
+      ? null
+      : alarm;
+  }
+
+  /**
+   * カレンダーアプリで購読できるよう text/calendar で返す
+   */
+  private sendIcs(res: Response, filename: string, ics: string) {
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+    res.setHeader("Cache-Control", "public, max-age=3600");
+    res.send(ics);
+  }
+
+  /**
+   * クエリの取得条件を解決
+   * - target: 目標点 ID / targetHeight: 任意の目標点の高さ（m）
+   * - alignment: 重なり方の分類（カンマ区切りで複数指定可）
+   */
+  private async parseQueryOptions(
+    req: Request,
+  ): Promise<
+    | { options: CalendarQueryOptions }
+    | { error: { error: string; message: string } }
+  > {
+    const options: CalendarQueryOptions = {};
+
+    const targetId =
+      typeof req.query.target === "string" ? req.query.target : undefined;
+    const targetHeight =
+      typeof req.query.targetHeight === "string"
+        ? parseFloat(req.query.targetHeight)
+        : undefined;
+    if (targetId !== undefined || targetHeight !== undefined) {
+      const target = await this.alignmentTargetService.resolveTarget(
+        targetId,
+        targetHeight,
+      );
+      if (!target) {
+        return {
+          error: {
+            error: "Invalid target",
+            message: `目標点は target（登録済みの目標点 ID）または targetHeight（0〜${AlignmentTargetService.MAX_TARGET_HEIGHT}m）で指定してください。`,
+          },
+        };
+      }
+      options.target = target;
+    }
+
+    if (typeof req.query.alignment === "string" && req.query.alignment) {
+      const alignments = req.query.alignment.split(",");
+      const invalid = alignments.filter(
+        (alignment) =>
+          !CalendarController.ALIGNMENT_CLASSIFICATIONS.includes(
+            alignment as AlignmentClassification,
+          ),
+      );
+      if (invalid.length > 0) {
+        return {
+          error: {
+            error: "Invalid alignment",
+            message: `alignment は ${CalendarController.ALIGNMENT_CLASSIFICATIONS.join(" / ")} から指定してください。`,
+          },
+        };
+      }
+      options.alignments = alignments as AlignmentClassification[];
+    }
+
+    return { options };
+  }
 }
@@ -1,21 +1,64 @@
 import { Request, Response } from "express";
 import { LocationService } from "../services/LocationService";
+import { LocationImportService } from "../services/LocationImportService";
+import { LocationFileConverter } from "../services/LocationFileConverter";
+import { ShootPlanCalculator } from "../services/astronomical/ShootPlanCalculator";
+import type { LocationFileFormat, LocationSpatialQuery } from "@skytree-photo-planner/types";
 import { getComponentLogger } from "@skytree-photo-planner/utils";
 
 const logger = getComponentLogger("LocationController");
 
+// 16 方位（北から時計回り）
+const COMPASS_DIRECTIONS = [
+  "N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE",
+  "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW",
+];
+
 /**
  * リファクタリング後の LocationController
  * DI パターンを使用して依存関係を注入
  */
 export class LocationController {
-  constructor(private locationService: LocationService) {}
+  private fileConverter = new LocationFileConverter();
+
+  constructor(
+    private locationService: LocationService,
+    private locationImportService: LocationImportService,
+  ) {}
 
   /**
    * 全ての撮影地点を取得
+   * 範囲条件（lat・lng・radiusKm、bbox、minDistanceKm・maxDistanceKm、azimuthFrom・azimuthTo、direction）を
+   * 指定した場合は条件に合う地点を距離順に返す
    */
   async getLocations(req: Request, res: Response): Promise<void> {
     try {
+      const spatial = this.parseSpatialQuery(req.query);
+      if (spatial) {
+        if ("message" in spatial) {
+          res.status(400).json({
+            success: false,
+            error: "Validation error",
+            message: spatial.message,
+          });
+          return;
+        }
+
+        const locations = await this.locationService.searchLocationsByArea(spatial.query);
+
+        logger.info("撮影地点範囲検索成功", {
+          query: spatial.query,
+          locationCount: locations.length,
+        });
+
+        res.json({
+          success: true,
+          locations,
+          count: locations.length,
+        });
+        return;
+      }
+
       const locations = await this.locationService.getAllLocations();
 
       logger.info("撮影地点一覧取得成功", {
@@ -74,7 +117,7 @@ export class LocationController {
       });
     } catch (error) {
       logger.error("撮影地点詳細取得エラー", error, {
-        locationId: req.params.id,
+        locationId: parseInt(req.params.id),
       });
       res.status(500).json({
         success: false,
@@ -84,6 +127,232 @@ export class LocationController {
     }
   }
 
+  /**
+   * 撮影地点の 1 日のタイムライン（出入り・薄明・スカイツリー方向の横断）を取得
+   */
+  async getLocationTimeline(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      const { date } = req.params;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid date",
+          message: "日付は YYYY-MM-DD 形式で指定してください。",
+        });
+        return;
+      }
+
+      const timeline = await this.locationService.getLocationTimeline(id, date);
+
+      if (!timeline) {
+        res.status(404).json({
+          success: false,
+          error: "Location not found",
+          message: "指定された撮影地点が見つかりません。",
+        });
+        return;
+      }
+
+      logger.info("タイムライン取得成功", {
+        locationId: id,
+        date,
+        phaseCount: timeline.phases.length,
+        crossingCount: timeline.skytreeCrossings.length,
+      });
+
+      res.json({
+        success: true,
+        timeline,
+      });
+    } catch (error) {
+      logger.error("タイムライン取得エラー", error, {
+        locationId: parseInt(req.params.id),
+        date: req.params.date,
+      });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "タイムラインの取得中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 撮影地点から見た整列時刻前後の太陽・月の軌跡を取得
+   * クエリ: time（ISO 8601 形式の中心時刻）、body（sun / moon）
+   */
+  async getSkyTrack(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      const body = req.query.body;
+      if (body !== "sun" && body !== "moon") {
+        res.status(400).json({
+          success: false,
+          error: "Invalid body",
+          message: "body は sun または moon を指定してください。",
+        });
+        return;
+      }
+
+      const centerTime = new Date(String(req.query.time ?? ""));
+      if (isNaN(centerTime.getTime())) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid time",
+          message: "time は ISO 8601 形式で指定してください。",
+        });
+        return;
+      }
+
+      const track = await this.locationService.getSkyTrack(id, body, centerTime);
+
+      if (!track) {
+        res.status(404).json({
+          success: false,
+          error: "Location not found",
+          message: "指定された撮影地点が見つかりません。",
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        track,
+      });
+    } catch (error) {
+      logger.error("軌跡取得エラー", error, {
+        locationId: parseInt(req.params.id),
+        body: req.query.body,
+        time: req.query.time,
+      });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "軌跡の取得中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * イベントの時刻から移動・設営の時間を逆算した撮影計画を取得
+   * クエリ: time（イベントの時刻）、travelMinutes・setupMinutes（分）、
+   * windowStart・windowEnd（重なり始め・重なり終わり、任意）
+   */
+  async getShootPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      const eventTime = new Date(String(req.query.time ?? ""));
+      if (isNaN(eventTime.getTime())) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid time",
+          message: "time は ISO 8601 形式で指定してください。",
+        });
+        return;
+      }
+
+      const travelMinutes = Number(req.query.travelMinutes ?? 0);
+      const setupMinutes = Number(req.query.setupMinutes ?? 0);
+      if (
+        !Number.isFinite(travelMinutes) ||
+        travelMinutes < 0 ||
+        travelMinutes > ShootPlanCalculator.MAX_TRAVEL_MINUTES ||
+        !Number.isFinite(setupMinutes) ||
+        setupMinutes < 0 ||
+        setupMinutes > ShootPlanCalculator.MAX_SETUP_MINUTES
+      ) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid duration",
+          message: `travelMinutes は 0〜${ShootPlanCalculator.MAX_TRAVEL_MINUTES} 分、setupMinutes は 0〜${ShootPlanCalculator.MAX_SETUP_MINUTES} 分で指定してください。`,
+        });
+        return;
+      }
+
+      let window: { start: Date; end: Date } | undefined;
+      if (req.query.windowStart !== undefined || req.query.windowEnd !== undefined) {
+        const start = new Date(String(req.query.windowStart ?? ""));
+        const end = new Date(String(req.query.windowEnd ?? ""));
+        if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+          res.status(400).json({
+            success: false,
+            error: "Invalid window",
+            message: "windowStart と windowEnd は ISO 8601 形式で、windowStart ≦ windowEnd となるよう指定してください。",
+          });
+          return;
+        }
+        window = { start, end };
+      }
+
+      const plan = await this.locationService.getShootPlan(id, {
+        eventTime,
+        window,
+        travelMinutes,
+        setupMinutes,
+      });
+
+      if (!plan) {
+        res.status(404).json({
+          success: false,
+          error: "Location not found",
+          message: "指定された撮影地点が見つかりません。",
+        });
+        return;
+      }
+
+      logger.info("撮影計画取得成功", {
+        locationId: id,
+        eventTime: eventTime.toISOString(),
+        travelMinutes,
+        setupMinutes,
+        stepCount: plan.steps.length,
+      });
+
+      res.json({
+        success: true,
+        plan,
+      });
+    } catch (error) {
+      logger.error("撮影計画取得エラー", error, {
+        locationId: parseInt(req.params.id),
+        time: req.query.time,
+      });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "撮影計画の作成中にエラーが発生しました。",
+      });
+    }
+  }
+
   /**
    * 新しい撮影地点を作成
    */
@@ -143,16 +412,31 @@ export class LocationController {
         measurementNotes,
       };
 
+      // 近くの地点・名前が似ている地点は警告として返す（座標が完全に一致する場合のみ登録しない）
+      const duplicates = await this.locationService.findDuplicateCandidates(createData);
+      const exactDuplicate = this.locationService.findExactDuplicate(createData, duplicates);
+      if (exactDuplicate) {
+        res.status(409).json({
+          success: false,
+          error: "Duplicate location",
+          message: `同じ座標の地点（ID ${exactDuplicate.id}「${exactDuplicate.name}」）が既に登録されています。`,
+          duplicates,
+        });
+        return;
+      }
+
       const location = await this.locationService.createLocation(createData);
 
       logger.info("撮影地点作成成功", {
         locationId: location.id,
         locationName: location.name,
+        duplicateCount: duplicates.length,
       });
 
       res.status(201).json({
         success: true,
         location,
+        duplicates,
         message: "撮影地点が正常に作成されました。天体計算を開始します。",
       });
     } catch (error) {
@@ -230,6 +514,33 @@ export class LocationController {
       if (measurementNotes !== undefined)
         updateData.measurementNotes = measurementNotes;
 
+      const currentLocation = await this.locationService.getLocationById(id);
+      if (!currentLocation) {
+        res.status(404).json({
+          success: false,
+          error: "Location not found",
+          message: "指定された撮影地点が見つかりません。",
+        });
+        return;
+      }
+
+      const target = {
+        name: updateData.name ?? currentLocation.name,
+        latitude: updateData.latitude ?? currentLocation.latitude,
+        longitude: updateData.longitude ?? currentLocation.longitude,
+      };
+      const duplicates = await this.locationService.findDuplicateCandidates(target, id);
+      const exactDuplicate = this.locationService.findExactDuplicate(target, duplicates);
+      if (exactDuplicate) {
+        res.status(409).json({
+          success: false,
+          error: "Duplicate location",
+          message: `同じ座標の地点（ID ${exactDuplicate.id}「${exactDuplicate.name}」）が既に登録されています。`,
+          duplicates,
+        });
+        return;
+      }
+
       const location = await this.locationService.updateLocation(
         id,
         updateData,
@@ -252,11 +563,12 @@ export class LocationController {
       res.json({
         success: true,
         location,
+        duplicates,
         message: "撮影地点が正常に更新されました。",
       });
     } catch (error) {
       logger.error("撮影地点更新エラー", error, {
-        locationId: req.params.id,
+        locationId: parseInt(req.params.id),
       });
       res.status(500).json({
         success: false,
@@ -291,7 +603,7 @@ export class LocationController {
       });
     } catch (error) {
       logger.error("撮影地点削除エラー", error, {
-        locationId: req.params.id,
+        locationId: parseInt(req.params.id),
       });
       res.status(500).json({
         success: false,
@@ -301,6 +613,101 @@ export class LocationController {
     }
   }
 
+  /**
+   * 重複の疑いがある地点を確認（登録・更新前のチェック用）
+   * ?latitude=&longitude=&name=&excludeId=
+   */
+  async checkDuplicates(req: Request, res: Response): Promise<void> {
+    try {
+      const latitude = parseFloat(req.query.latitude as string);
+      const longitude = parseFloat(req.query.longitude as string);
+      const name = typeof req.query.name === "string" ? req.query.name : undefined;
+      const excludeId = req.query.excludeId ? parseInt(req.query.excludeId as string) : undefined;
+
+      if (isNaN(latitude) || isNaN(longitude)) {
+        res.status(400).json({
+          success: false,
+          error: "Validation error",
+          message: "latitude と longitude を指定してください。",
+        });
+        return;
+      }
+
+      const duplicates = await this.locationService.findDuplicateCandidates(
+        { name, latitude, longitude },
+        excludeId !== undefined && !isNaN(excludeId) ? excludeId : undefined,
+      );
+
+      res.json({
+        success: true,
+        duplicates,
+        hasExactMatch: !!this.locationService.findExactDuplicate(
+          { latitude, longitude },
+          duplicates,
+        ),
+      });
+    } catch (error) {
+      logger.error("重複地点確認エラー", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "重複地点の確認中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 撮影地点を統合（統合元のイベントを統合先に付け替えて統合元を削除）
+   * 本文: { sourceId, targetId }
+   */
+  async mergeLocations(req: Request, res: Response): Promise<void> {
+    try {
+      const sourceId = parseInt(req.body?.sourceId);
+      const targetId = parseInt(req.body?.targetId);
+
+      if (isNaN(sourceId) || isNaN(targetId) || sourceId === targetId) {
+        res.status(400).json({
+          success: false,
+          error: "Validation error",
+          message: "統合元と統合先に異なる地点の ID を指定してください。",
+        });
+        return;
+      }
+
+      const result = await this.locationService.mergeLocations(sourceId, targetId);
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: "Location not found",
+          message: "指定された撮影地点が見つかりません。",
+        });
+        return;
+      }
+
+      logger.info("撮影地点統合成功", {
+        sourceId,
+        targetId,
+        movedEventCount: result.movedEventCount,
+      });
+
+      res.json({
+        success: true,
+        ...result,
+        message: "撮影地点を統合しました。",
+      });
+    } catch (error) {
+      logger.error("撮影地点統合エラー", error, {
+        sourceId: req.body?.sourceId,
+        targetId: req.body?.targetId,
+      });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "撮影地点の統合中にエラーが発生しました。",
+      });
+    }
+  }
+
   /**
    * 撮影地点を検索
    */
@@ -343,22 +750,37 @@ export class LocationController {
   }
 
   /**
-   * 撮影地点データを JSON 形式でエクスポート
+   * 撮影地点データをエクスポート（?format=json|csv|geojson、既定は json）
    */
   async exportLocations(req: Request, res: Response): Promise<void> {
     try {
+      const format = this.parseFileFormat(req.query.format);
+      if (!format) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid format",
+          message: `format は ${LocationFileConverter.FORMATS.join(" / ")} で指定してください。`,
+        });
+        return;
+      }
+
       const locations = await this.locationService.getAllLocations();
+      const { content, contentType, extension } = this.fileConverter.serialize(
+        format,
+        locations,
+      );
 
       logger.info("撮影地点エクスポート成功", {
         locationCount: locations.length,
+        format,
       });
 
-      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Content-Type", contentType);
       res.setHeader(
         "Content-Disposition",
-        `attachment; filename="locations_export_${new Date().toISOString().split("T")[0]}.json"`,
+        `attachment; filename="locations_export_${new Date().toISOString().split("T")[0]}.${extension}"`,
       );
-      res.json(locations);
+      res.send(content);
     } catch (error) {
       logger.error("撮影地点エクスポートエラー", error);
       res.status(500).json({
@@ -370,123 +792,62 @@ export class LocationController {
   }
 
   /**
-   * JSON 形式の撮影地点データをインポート（重複データはスキップ）
-   */
-  /**
-   * JSON 形式の撮影地点データをインポート（ID がある場合は更新、ない場合は新規登録）
+   * 撮影地点データをインポート（ID がある場合は更新、ない場合は新規登録）
+   * 本文は従来の JSON 配列、または { format, content }。?dryRun=true の場合は差分だけを返す
+   * 不正な行が 1 件でもあると何も反映しない
    */
   async importLocations(req: Request, res: Response): Promise<void> {
     try {
-      logger.info("撮影地点インポート開始", {
-        bodyType: typeof req.body,
-        isArray: Array.isArray(req.body),
-        bodyLength: Array.isArray(req.body) ? req.body.length : "N/A",
-      });
-
-      const locations = req.body;
-
-      if (!Array.isArray(locations)) {
-        logger.warn("無効なデータ形式", {
-          bodyType: typeof req.body,
-          body: req.body,
+      const body = req.body;
+      const format = Array.isArray(body) ? "json" : this.parseFileFormat(body?.format);
+      if (!format) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid format",
+          message: `format は ${LocationFileConverter.FORMATS.join(" / ")} で指定してください。`,
         });
+        return;
+      }
+
+      const parsed = this.fileConverter.parse(
+        format,
+        Array.isArray(body) ? body : body?.content,
+      );
+      if ("error" in parsed) {
+        logger.warn("無効なインポートデータ", { format, error: parsed.error });
         res.status(400).json({
           success: false,
           error: "Invalid data format",
-          message: "配列形式の JSON が必要です。",
+          message: parsed.error,
         });
         return;
       }
 
-      let createdCount = 0;
-      let updatedCount = 0;
-      let errorCount = 0;
-      const errors: string[] = [];
-
-      for (const locationData of locations) {
-        try {
-          // 必須フィールドのバリデーション
-          if (
-            !locationData.name ||
-            locationData.latitude === undefined ||
-            locationData.longitude === undefined ||
-            locationData.elevation === undefined
-          ) {
-            errors.push(
-              `地点「${locationData.name || "名前なし"}」: 必須フィールドが不足しています`,
-            );
-            errorCount++;
-            continue;
-          }
-
-          const upsertData = {
-            id: locationData.id ? parseInt(locationData.id) : undefined,
-            name: locationData.name,
-            prefecture: locationData.prefecture || null,
-            accessInfo: locationData.accessInfo,
-            parkingInfo: locationData.parkingInfo,
-            latitude: parseFloat(locationData.latitude),
-            longitude: parseFloat(locationData.longitude),
-            elevation: parseFloat(locationData.elevation),
-            description: locationData.description || null,
-            azimuthToSkytree: locationData.azimuthToSkytree
-              ? parseFloat(locationData.azimuthToSkytree)
-              : undefined,
-            elevationToSkytree: locationData.elevationToSkytree
-              ? parseFloat(locationData.elevationToSkytree)
-              : undefined,
-            distanceToSkytree: locationData.distanceToSkytree
-              ? parseFloat(locationData.distanceToSkytree)
-              : undefined,
-            measurementNotes: locationData.measurementNotes || undefined,
-          };
-
-          const result = await this.locationService.upsertLocation(upsertData);
-          
-          if (result.isNew) {
-            createdCount++;
-            logger.debug("地点新規作成", {
-              locationId: result.location.id,
-              locationName: result.location.name,
-            });
-          } else {
-            updatedCount++;
-            logger.debug("地点更新", {
-              locationId: result.location.id,
-              locationName: result.location.name,
-            });
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : "不明なエラー";
-          errors.push(
-            `地点「${locationData.name || "名前なし"}」: ${errorMessage}`,
-          );
-          errorCount++;
-          logger.warn("地点インポートエラー", {
-            locationName: locationData.name,
-            locationId: locationData.id,
-            error: errorMessage,
-          });
-        }
-      }
+      const dryRun = req.query.dryRun === "true";
+      logger.info("撮影地点インポート開始", {
+        format,
+        dryRun,
+        recordCount: parsed.records.length,
+      });
 
-      logger.info("撮影地点インポート完了", {
-        totalCount: locations.length,
-        createdCount,
-        updatedCount,
-        errorCount,
+      const result = await this.locationImportService.importLocations(parsed.records, {
+        dryRun,
       });
 
+      if (!dryRun && !result.applied) {
+        res.status(422).json({
+          success: false,
+          error: "Invalid rows",
+          message: `${result.summary.errorCount} 件の不正な行があるため、インポートしませんでした。`,
+          ...result,
+        });
+        return;
+      }
+
       res.json({
         success: true,
-        message: "インポートが完了しました。",
-        summary: {
-          totalCount: locations.length,
-          createdCount,
-          updatedCount,
-          errorCount,
-        },
-        errors: errors.length > 0 ? errors : undefined,
+        message: dryRun ? "インポート内容を確認しました。" : "インポートが完了しました。",
+        ...result,
       });
     } catch (error) {
       logger.error("撮影地点インポートエラー", error);
@@ -497,6 +858,120 @@ export class LocationController {
       });
     }
   }
+
+  /**
+   * 範囲検索の条件を解析（条件がない場合は null、不正な場合は message を返す）
+   * 距離は km で受け取り、メートルに変換する
+   */
+  private parseSpatialQuery(
+    params: Request["query"],
+  ): { query: LocationSpatialQuery } | { message: string } | null {
+    const hasParam = (key: string) => params[key] !== undefined && params[key] !== "";
+    const toNumber = (key: string) => (hasParam(key) ? Number(params[key]) : undefined);
+    const isValid = (value: number | undefined) => value === undefined || Number.isFinite(value);
+    const query: LocationSpatialQuery = {};
+
+    if (hasParam("lat") || hasParam("lng") || hasParam("radiusKm")) {
+      const latitude = toNumber("lat");
+      const longitude = toNumber("lng");
+      const radiusKm = toNumber("radiusKm");
+      if (
+        latitude === undefined ||
+        longitude === undefined ||
+        !isValid(latitude) ||
+        !isValid(longitude) ||
+        Math.abs(latitude) > 90 ||
+        Math.abs(longitude) > 180
+      ) {
+        return { message: "lat と lng には有効な緯度・経度を指定してください。" };
+      }
+      if (!isValid(radiusKm) || (radiusKm !== undefined && radiusKm <= 0)) {
+        return { message: "radiusKm は正の数で指定してください。" };
+      }
+      query.center = {
+        latitude,
+        longitude,
+        radiusMeters: radiusKm !== undefined ? radiusKm * 1000 : undefined,
+      };
+    }
+
+    if (hasParam("bbox")) {
+      const values = String(params.bbox).split(",").map(Number);
+      const [west, south, east, north] = values;
+      if (
+        values.length !== 4 ||
+        !values.every(Number.isFinite) ||
+        south > north ||
+        Math.abs(south) > 90 ||
+        Math.abs(north) > 90 ||
+        Math.abs(west) > 180 ||
+        Math.abs(east) > 180
+      ) {
+        return { message: "bbox は 西端経度,南端緯度,東端経度,北端緯度 の形式で指定してください。" };
+      }
+      query.bounds = { south, west, north, east };
+    }
+
+    if (hasParam("minDistanceKm") || hasParam("maxDistanceKm")) {
+      const min = toNumber("minDistanceKm");
+      const max = toNumber("maxDistanceKm");
+      if (!isValid(min) || !isValid(max) || (min !== undefined && max !== undefined && min > max)) {
+        return { message: "minDistanceKm・maxDistanceKm は minDistanceKm ≦ maxDistanceKm となる数値で指定してください。" };
+      }
+      query.distanceToSkytree = {
+        min: min !== undefined ? min * 1000 : undefined,
+        max: max !== undefined ? max * 1000 : undefined,
+      };
+    }
+
+    if (hasParam("direction")) {
+      // スカイツリーから見た地点の方角（16 方位）。地点からスカイツリーへの方位角は反対向きになる
+      const index = COMPASS_DIRECTIONS.indexOf(String(params.direction).toUpperCase());
+      if (index < 0) {
+        return { message: `direction は ${COMPASS_DIRECTIONS.join(" / ")} のいずれかで指定してください。` };
+      }
+      const azimuth = (index * 22.5 + 180) % 360;
+      query.azimuthToSkytree = {
+        from: (azimuth - 11.25 + 360) % 360,
+        to: (azimuth + 11.25) % 360,
+      };
+    } else if (hasParam("azimuthFrom") || hasParam("azimuthTo")) {
+      const from = toNumber("azimuthFrom");
+      const to = toNumber("azimuthTo");
+      if (
+        from === undefined ||
+        to === undefined ||
+        !isValid(from) ||
+        !isValid(to) ||
+        from < 0 ||
+        from >= 360 ||
+        to < 0 ||
+        to >= 360
+      ) {
+        return { message: "azimuthFrom と azimuthTo は 0 以上 360 未満の方位角で指定してください。" };
+      }
+      query.azimuthToSkytree = { from, to };
+    }
+
+    if (Object.keys(query).length === 0) {
+      return null;
+    }
+
+    if (hasParam("limit")) {
+      const limit = Number(params.limit);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        return { message: "limit は正の整数で指定してください。" };
+      }
+      query.limit = limit;
+    }
+
+    return { query };
+  }
+
+  private parseFileFormat(value: unknown): LocationFileFormat | null {
+    if (value === undefined || value === "") return "json";
+    return LocationFileConverter.FORMATS.find((format) => format === value) ?? null;
+  }
 }
 
 export default LocationController;
@@ -0,0 +1,280 @@
+import { Request, Response } from "express";
+import path from "path";
+import type { LocationPhotoCategory } from "@skytree-photo-planner/types";
+import { LocationService } from "../services/LocationService";
+import { LocationPhotoService } from "../services/LocationPhotoService";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+
+const logger = getComponentLogger("LocationPhotoController");
+
+// 説明の最大文字数（DB の列長と合わせる）
+const MAX_CAPTION_LENGTH = 200;
+
+// 配信するファイルの Content-Type（拡張子から判定）
+const FILE_CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+/**
+ * 撮影地点の参考写真 API
+ */
+export class LocationPhotoController {
+  constructor(
+    private locationService: LocationService,
+    private locationPhotoService: LocationPhotoService,
+  ) {}
+
+  /**
+   * 地点の参考写真一覧
+   * GET /api/locations/:id/photos
+   */
+  async getPhotos(req: Request, res: Response): Promise<void> {
+    try {
+      const locationId = parseInt(req.params.id);
+      if (isNaN(locationId)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      const photos = await this.locationPhotoService.getPhotos(locationId);
+      res.json({ success: true, photos });
+    } catch (error) {
+      logger.error("参考写真一覧取得エラー", error, { locationId: parseInt(req.params.id) });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "写真の取得中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 参考写真のアップロード（multipart/form-data: photo, category, caption）
+   * POST /api/admin/locations/:id/photos
+   */
+  async uploadPhoto(req: Request, res: Response): Promise<void> {
+    try {
+      const locationId = parseInt(req.params.id);
+      if (isNaN(locationId)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: "Validation error",
+          message: "photo に画像ファイルを指定してください。",
+        });
+        return;
+      }
+
+      const meta = this.parseMeta(req.body, true);
+      if ("message" in meta) {
+        res.status(400).json({
+          success: false,
+          error: "Validation error",
+          message: meta.message,
+        });
+        return;
+      }
+
+      const location = await this.locationService.getLocationById(locationId);
+      if (!location) {
+        res.status(404).json({
+          success: false,
+          error: "Location not found",
+          message: "指定された撮影地点が見つかりません。",
+        });
+        return;
+      }
+
+      const result = await this.locationPhotoService.addPhoto(
+        locationId,
+        { buffer: req.file.buffer },
+        {
+          category: meta.values.category as LocationPhotoCategory,
+          caption: meta.values.caption ?? null,
+        },
+      );
+      if ("error" in result) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid image",
+          message: result.error,
+        });
+        return;
+      }
+
+      res.status(201).json({ success: true, photo: result.photo });
+    } catch (error) {
+      logger.error("参考写真アップロードエラー", error, { locationId: parseInt(req.params.id) });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "写真の保存中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 参考写真の種類・説明を更新
+   * PUT /api/admin/location-photos/:photoId
+   */
+  async updatePhoto(req: Request, res: Response): Promise<void> {
+    try {
+      const photoId = parseInt(req.params.photoId);
+      if (isNaN(photoId)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      const meta = this.parseMeta(req.body, false);
+      if ("message" in meta) {
+        res.status(400).json({
+          success: false,
+          error: "Validation error",
+          message: meta.message,
+        });
+        return;
+      }
+
+      const photo = await this.locationPhotoService.updatePhoto(photoId, meta.values);
+      if (!photo) {
+        res.status(404).json({
+          success: false,
+          error: "Photo not found",
+          message: "指定された写真が見つかりません。",
+        });
+        return;
+      }
+
+      res.json({ success: true, photo });
+    } catch (error) {
+      logger.error("参考写真更新エラー", error, { photoId: req.params.photoId });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "写真の更新中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 参考写真の削除（ファイルも削除する）
+   * DELETE /api/admin/location-photos/:photoId
+   */
+  async deletePhoto(req: Request, res: Response): Promise<void> {
+    try {
+      const photoId = parseInt(req.params.photoId);
+      if (isNaN(photoId)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      const deleted = await this.locationPhotoService.deletePhoto(photoId);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: "Photo not found",
+          message: "指定された写真が見つかりません。",
+        });
+        return;
+      }
+
+      res.json({ success: true, message: "写真を削除しました。" });
+    } catch (error) {
+      logger.error("参考写真削除エラー", error, { photoId: req.params.photoId });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "写真の削除中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * ストレージに保存した写真ファイルの配信（キーごとに内容は変わらないため長期キャッシュ）
+   * GET /api/photos/*
+   */
+  async serveFile(req: Request, res: Response): Promise<void> {
+    const key = req.params[0];
+    const contentType = FILE_CONTENT_TYPES[path.extname(key).toLowerCase()];
+
+    try {
+      const data = contentType ? await this.locationPhotoService.readFile(key) : null;
+      if (!data) {
+        res.status(404).json({
+          success: false,
+          error: "Not found",
+          message: "指定された写真が見つかりません。",
+        });
+        return;
+      }
+
+      res.set("Content-Type", contentType);
+      res.set("Cache-Control", "public, max-age=31536000, immutable");
+      res.send(data);
+    } catch (error) {
+      // ストレージ外を指すキーもここに来る
+      logger.warn("写真ファイル配信エラー", { key, error });
+      res.status(404).json({
+        success: false,
+        error: "Not found",
+        message: "指定された写真が見つかりません。",
+      });
+    }
+  }
+
+  /**
+   * 種類・説明の検証（アップロード時は種類が必須）
+   */
+  private parseMeta(
+    body: Record<string, unknown> | undefined,
+    requireCategory: boolean,
+  ):
+    | { values: { category?: LocationPhotoCategory; caption?: string | null } }
+    | { message: string } {
+    const values: { category?: LocationPhotoCategory; caption?: string | null } = {};
+    const category = body?.category;
+    const caption = body?.caption;
+
+    if (category !== undefined || requireCategory) {
+      if (!LocationPhotoService.CATEGORIES.includes(category as LocationPhotoCategory)) {
+        return {
+          message: `category は ${LocationPhotoService.CATEGORIES.join(" / ")} のいずれかで指定してください。`,
+        };
+      }
+      values.category = category as LocationPhotoCategory;
+    }
+
+    if (caption !== undefined && caption !== null) {
+      if (typeof caption !== "string" || caption.length > MAX_CAPTION_LENGTH) {
+        return { message: `caption は ${MAX_CAPTION_LENGTH} 文字以内の文字列で指定してください。` };
+      }
+      values.caption = caption.trim() || null;
+    } else if (caption === null) {
+      values.caption = null;
+    }
+
+    return { values };
+  }
+}
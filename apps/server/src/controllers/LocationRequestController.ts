@@ -0,0 +1,360 @@
+import { Request, Response } from "express";
+import type {
+  ApproveLocationRequestBody,
+  LocationRequestStatus,
+} from "@skytree-photo-planner/types";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import type { LocationRequestInput } from "../repositories/interfaces/LocationRequestRepository";
+import type {
+  LocationRequestReviewResult,
+  LocationRequestService,
+} from "../services/LocationRequestService";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+
+const logger = getComponentLogger("LocationRequestController");
+
+// 文字数の上限（地点名・都道府県は DB の列長と合わせる）
+const MAX_NAME_LENGTH = 100;
+const MAX_PREFECTURE_LENGTH = 20;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+const STATUSES: LocationRequestStatus[] = ["pending", "approved", "rejected"];
+
+// 承認時に上書きできる文字列の項目
+type ApproveTextField =
+  | "name"
+  | "prefecture"
+  | "description"
+  | "accessInfo"
+  | "parkingInfo"
+  | "measurementNotes";
+
+// 承認時に指定できるスカイツリーまでの値（未指定の場合は自動計算）
+type ApproveMetricField = "azimuthToSkytree" | "elevationToSkytree" | "distanceToSkytree";
+
+/**
+ * 撮影地点の追加リクエスト API
+ */
+export class LocationRequestController {
+  constructor(private locationRequestService: LocationRequestService) {}
+
+  /**
+   * 追加リクエストのフォーム設定（キャプチャのサイトキーなど）
+   * GET /api/location-requests/config
+   */
+  getConfig(req: Request, res: Response): void {
+    res.json({ success: true, ...this.locationRequestService.getConfig() });
+  }
+
+  /**
+   * 追加リクエストの送信（一般公開）
+   * POST /api/location-requests
+   */
+  async submitRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = this.parseRequestBody(req.body);
+      if ("message" in parsed) {
+        res.status(400).json({
+          success: false,
+          error: "Validation error",
+          message: parsed.message,
+        });
+        return;
+      }
+
+      const result = await this.locationRequestService.submitRequest(
+        { ...parsed.values, requesterIp: req.ip || "unknown" },
+        parsed.captchaToken,
+      );
+      if ("error" in result) {
+        if (result.error === "captcha_unavailable") {
+          res.status(503).json({
+            success: false,
+            error: "Service unavailable",
+            message: "現在撮影地点の追加リクエストを受け付けていません。時間をおいて再度お試しください。",
+          });
+        } else {
+          res.status(400).json({
+            success: false,
+            error: "Captcha verification failed",
+            message: "画像認証を確認できませんでした。もう一度お試しください。",
+          });
+        }
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        id: result.request.id,
+        message: "撮影地点の追加リクエストを受け付けました。管理者の確認後に公開されます。",
+      });
+    } catch (error) {
+      logger.error("追加リクエスト受付エラー", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "リクエストの送信中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 追加リクエスト一覧（審査待ちキュー）
+   * GET /api/admin/location-requests?status=pending
+   */
+  async getRequests(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as LocationRequestStatus | undefined;
+      if (status !== undefined && !STATUSES.includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: "Validation error",
+          message: `status は ${STATUSES.join(" / ")} のいずれかで指定してください。`,
+        });
+        return;
+      }
+
+      const result = await this.locationRequestService.getRequests(status);
+      res.json({ success: true, ...result });
+    } catch (error) {
+      logger.error("追加リクエスト一覧取得エラー", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "追加リクエストの取得中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 追加リクエストを承認して地点を作成（天体計算ジョブも登録される）
+   * POST /api/admin/location-requests/:id/approve
+   */
+  async approveRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      const parsed = this.parseApproveBody(req.body);
+      if ("message" in parsed) {
+        res.status(400).json({
+          success: false,
+          error: "Validation error",
+          message: parsed.message,
+        });
+        return;
+      }
+
+      const result = await this.locationRequestService.approveRequest(
+        id,
+        req.admin!.id,
+        parsed.values,
+      );
+      if (this.sendReviewError(res, result)) {
+        return;
+      }
+
+      res.json({
+        success: true,
+        ...result,
+        message: "追加リクエストを承認し、撮影地点を作成しました。天体計算を開始します。",
+      });
+    } catch (error) {
+      logger.error("追加リクエスト承認エラー", error, { locationRequestId: parseInt(req.params.id) });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "追加リクエストの承認中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 追加リクエストを却下
+   * POST /api/admin/location-requests/:id/reject
+   */
+  async rejectRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid ID",
+          message: "有効な ID を指定してください。",
+        });
+        return;
+      }
+
+      const result = await this.locationRequestService.rejectRequest(id, req.admin!.id);
+      if (this.sendReviewError(res, result)) {
+        return;
+      }
+
+      res.json({ success: true, ...result, message: "追加リクエストを却下しました。" });
+    } catch (error) {
+      logger.error("追加リクエスト却下エラー", error, { locationRequestId: parseInt(req.params.id) });
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: "追加リクエストの却下中にエラーが発生しました。",
+      });
+    }
+  }
+
+  /**
+   * 審査できなかった場合のレスポンス
+   * @returns レスポンスを返した場合は true
+   */
+  private sendReviewError(res: Response, result: LocationRequestReviewResult): boolean {
+    if (!("error" in result)) {
+      return false;
+    }
+
+    if ("exactDuplicate" in result) {
+      res.status(409).json({
+        success: false,
+        error: "Duplicate location",
+        message: `同じ座標の地点（ID ${result.exactDuplicate.id}「${result.exactDuplicate.name}」）が既に登録されています。`,
+        duplicates: result.duplicates,
+      });
+    } else if (result.error === "not_found") {
+      res.status(404).json({
+        success: false,
+        error: "Request not found",
+        message: "指定された追加リクエストが見つかりません。",
+      });
+    } else {
+      res.status(409).json({
+        success: false,
+        error: "Already processed",
+        message: "この追加リクエストは既に審査済みです。",
+      });
+    }
+    return true;
+  }
+
+  /**
+   * 公開フォームの入力の検証
+   */
+  private parseRequestBody(
+    body: Record<string, unknown> | undefined,
+  ):
+    | { values: Omit<LocationRequestInput, "requesterIp">; captchaToken: string }
+    | { message: string } {
+    const name = this.parseText(body?.name, MAX_NAME_LENGTH);
+    if (!name) {
+      return { message: `name（地点名）は ${MAX_NAME_LENGTH} 文字以内で入力してください。` };
+    }
+    const prefecture = this.parseText(body?.prefecture, MAX_PREFECTURE_LENGTH);
+    if (!prefecture) {
+      return { message: `prefecture（都道府県）は ${MAX_PREFECTURE_LENGTH} 文字以内で入力してください。` };
+    }
+    const description = this.parseText(body?.description, MAX_DESCRIPTION_LENGTH);
+    if (!description) {
+      return {
+        message: `description（説明）は ${MAX_DESCRIPTION_LENGTH} 文字以内で入力してください。`,
+      };
+    }
+
+    const values: Omit<LocationRequestInput, "requesterIp"> = { name, prefecture, description };
+    const coordinates = body?.suggestedCoordinates as
+      | { latitude?: unknown; longitude?: unknown }
+      | null
+      | undefined;
+    if (coordinates !== undefined && coordinates !== null) {
+      const { latitude, longitude } = coordinates;
+      if (
+        typeof latitude !== "number" ||
+        typeof longitude !== "number" ||
+        !isFinite(latitude) ||
+        !isFinite(longitude) ||
+        Math.abs(latitude) > 90 ||
+        Math.abs(longitude) > 180
+      ) {
+        return { message: "suggestedCoordinates には有効な緯度・経度を指定してください。" };
+      }
+      values.suggestedLatitude = latitude;
+      values.suggestedLongitude = longitude;
+    }
+
+    const captchaToken = body?.captchaToken ?? "";
+    if (typeof captchaToken !== "string") {
+      return { message: "captchaToken は文字列で指定してください。" };
+    }
+
+    return { values, captchaToken };
+  }
+
+  /**
+   * 承認時に確定する地点情報の検証
+   */
+  private parseApproveBody(
+    body: Record<string, unknown> | undefined,
+  ): { values: ApproveLocationRequestBody } | { message: string } {
+    const toNumber = (value: unknown) =>
+      typeof value === "number" || (typeof value === "string" && value.trim() !== "")
+        ? Number(value)
+        : NaN;
+    const [latitude, longitude, elevation] = [body?.latitude, body?.longitude, body?.elevation].map(
+      toNumber,
+    );
+    if (!isFinite(latitude) || !isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return { message: "latitude・longitude には有効な緯度・経度を指定してください。" };
+    }
+    if (!isFinite(elevation)) {
+      return { message: "elevation（標高）を数値で指定してください。" };
+    }
+
+    const values: ApproveLocationRequestBody = { latitude, longitude, elevation };
+    const texts: Array<[ApproveTextField, number, string]> = [
+      ["name", MAX_NAME_LENGTH, "地点名"],
+      ["prefecture", MAX_PREFECTURE_LENGTH, "都道府県"],
+      ["description", MAX_DESCRIPTION_LENGTH, "説明"],
+      ["accessInfo", MAX_DESCRIPTION_LENGTH, "アクセス情報"],
+      ["parkingInfo", MAX_DESCRIPTION_LENGTH, "駐車場情報"],
+      ["measurementNotes", MAX_DESCRIPTION_LENGTH, "計測メモ"],
+    ];
+    for (const [key, maxLength, label] of texts) {
+      if (body?.[key] === undefined || body[key] === null || body[key] === "") {
+        continue;
+      }
+      const text = this.parseText(body[key], maxLength);
+      if (!text) {
+        return { message: `${key}（${label}）は ${maxLength} 文字以内の文字列で指定してください。` };
+      }
+      values[key] = text;
+    }
+
+    const metrics: ApproveMetricField[] = ["azimuthToSkytree", "elevationToSkytree", "distanceToSkytree"];
+    for (const key of metrics) {
+      if (body?.[key] === undefined || body[key] === null || body[key] === "") {
+        continue;
+      }
+      const value = toNumber(body[key]);
+      if (!isFinite(value)) {
+        return { message: `${key} は数値で指定してください。` };
+      }
+      values[key] = value;
+    }
+
+    return { values };
+  }
+
+  /**
+   * 前後の空白を除いた文字列（空・長すぎる・文字列でない場合は null）
+   */
+  private parseText(value: unknown, maxLength: number): string | null {
+    if (typeof value !== "string") {
+      return null;
+    }
+    const text = value.trim();
+    return text && text.length <= maxLength ? text : null;
+  }
+}
@@ -0,0 +1,111 @@
+import type { Request, Response } from "express";
+import type { LocationImportService } from "../../services/LocationImportService";
+import type { LocationService } from "../../services/LocationService";
+import { LocationController } from "../LocationController";
+
+jest.mock("../../database/prisma", () => ({
+  PrismaClientManager: { getInstance: () => ({}) },
+}));
+
+const createController = () => {
+  const locationService = {
+    searchLocationsByArea: jest.fn().mockResolvedValue([]),
+    getAllLocations: jest.fn().mockResolvedValue([]),
+  };
+  const controller = new LocationController(
+    locationService as unknown as LocationService,
+    {} as LocationImportService,
+  );
+  return { controller, locationService };
+};
+
+const getLocations = async (query: Record<string, string>) => {
+  const { controller, locationService } = createController();
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+
+  await controller.getLocations({ query } as unknown as Request, res as unknown as Response);
+
+  return {
+    statusCode: res.status.mock.calls[0]?.[0] ?? 200,
+    body: res.json.mock.calls[0][0],
+    spatialQuery: locationService.searchLocationsByArea.mock.calls[0]?.[0],
+    locationService,
+  };
+};
+
+describe("LocationController.getLocations の範囲条件", () => {
+  it("範囲条件がない場合は全地点を返す", async () => {
+    const { locationService } = await getLocations({});
+
+    expect(locationService.getAllLocations).toHaveBeenCalled();
+    expect(locationService.searchLocationsByArea).not.toHaveBeenCalled();
+  });
+
+  it("中心・半径（km）・件数の上限を m 単位の条件にする", async () => {
+    const { spatialQuery } = await getLocations({ lat: "35.71", lng: "139.81", radiusKm: "2.5", limit: "10" });
+
+    expect(spatialQuery).toEqual({
+      center: { latitude: 35.71, longitude: 139.81, radiusMeters: 2500 },
+      limit: 10,
+    });
+  });
+
+  it("bbox（西,南,東,北）と距離の範囲（km）を条件にする", async () => {
+    const { spatialQuery } = await getLocations({
+      bbox: "139.7,35.6,139.9,35.8",
+      minDistanceKm: "2",
+    });
+
+    expect(spatialQuery).toEqual({
+      bounds: { south: 35.6, west: 139.7, north: 35.8, east: 139.9 },
+      distanceToSkytree: { min: 2000, max: undefined },
+    });
+  });
+
+  describe("16 方位の方角", () => {
+    // スカイツリーから見て北にある地点は、地点からスカイツリーを南（180 度）に見る
+    it.each([
+      { direction: "N", from: 168.75, to: 191.25 },
+      { direction: "e", from: 258.75, to: 281.25 },
+      { direction: "NNW", from: 146.25, to: 168.75 },
+      // スカイツリーの南にある地点は北を向くため、扇形が 0 度をまたぐ
+      { direction: "S", from: 348.75, to: 11.25 },
+      { direction: "SSW", from: 11.25, to: 33.75 },
+    ])("$direction は地点からスカイツリーへの方位角 $from〜$to 度の扇形にする", async ({ direction, from, to }) => {
+      const { spatialQuery } = await getLocations({ direction });
+
+      expect(spatialQuery).toEqual({ azimuthToSkytree: { from, to } });
+    });
+
+    it("方角を指定した場合は azimuthFrom・azimuthTo より優先する", async () => {
+      const { spatialQuery } = await getLocations({ direction: "N", azimuthFrom: "10", azimuthTo: "20" });
+
+      expect(spatialQuery).toEqual({ azimuthToSkytree: { from: 168.75, to: 191.25 } });
+    });
+  });
+
+  it("北をまたぐ方位角の範囲はそのまま渡す", async () => {
+    const { spatialQuery } = await getLocations({ azimuthFrom: "350", azimuthTo: "10" });
+
+    expect(spatialQuery).toEqual({ azimuthToSkytree: { from: 350, to: 10 } });
+  });
+
+  it.each([
+    { name: "緯度なしの半径", query: { lng: "139.81", radiusKm: "1" } },
+    { name: "0 以下の半径", query: { lat: "35.71", lng: "139.81", radiusKm: "0" } },
+    { name: "南端が北端より北の bbox", query: { bbox: "139.7,35.8,139.9,35.6" } },
+    { name: "要素が 3 つの bbox", query: { bbox: "139.7,35.6,139.9" } },
+    { name: "下限が上限より大きい距離", query: { minDistanceKm: "10", maxDistanceKm: "5" } },
+    { name: "16 方位にない方角", query: { direction: "NORTH" } },
+    { name: "360 度の方位角", query: { azimuthFrom: "350", azimuthTo: "360" } },
+    { name: "片方のみの方位角", query: { azimuthFrom: "10" } },
+    { name: "整数でない件数の上限", query: { direction: "N", limit: "1.5" } },
+  ])("$name は 400 を返す", async ({ query }) => {
+    const { statusCode, body, locationService } = await getLocations(query);
+
+    expect(statusCode).toBe(400);
+    expect(body).toMatchObject({ success: false, error: "Validation error" });
+    expect(locationService.searchLocationsByArea).not.toHaveBeenCalled();
+  });
+});
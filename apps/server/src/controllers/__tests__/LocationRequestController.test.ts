@@ -0,0 +1,134 @@
+import type { Request, Response } from "express";
+import type { AuthenticatedRequest } from "../../middleware/auth";
+import type { LocationRequestService } from "../../services/LocationRequestService";
+import { LocationRequestController } from "../LocationRequestController";
+
+const DUPLICATE = {
+  id: 10,
+  name: "隅田公園",
+  prefecture: "東京都",
+  latitude: 35.7125,
+  longitude: 139.8039,
+  distanceMeters: 0,
+  nameSimilarity: 0.5,
+  reasons: ["nearby" as const],
+};
+
+const createController = (service: Partial<Record<keyof LocationRequestService, jest.Mock>>) =>
+  new LocationRequestController(service as unknown as LocationRequestService);
+
+const createResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return {
+    res: res as unknown as Response,
+    statusCode: () => res.status.mock.calls[0]?.[0] ?? 200,
+    body: () => res.json.mock.calls[0][0],
+  };
+};
+
+describe("LocationRequestController", () => {
+  describe("submitRequest", () => {
+    const submit = async (result: unknown) => {
+      const submitRequest = jest.fn().mockResolvedValue(result);
+      const response = createResponse();
+      await createController({ submitRequest }).submitRequest(
+        {
+          body: { name: "汐入公園", prefecture: "東京都", description: "川沿い", captchaToken: "token" },
+          ip: "203.0.113.9",
+        } as unknown as Request,
+        response.res,
+      );
+      return { submitRequest, statusCode: response.statusCode(), body: response.body() };
+    };
+
+    it("受け付けたリクエストの ID を 201 で返す", async () => {
+      const { submitRequest, statusCode, body } = await submit({ request: { id: 3 } });
+
+      expect(submitRequest).toHaveBeenCalledWith(
+        { name: "汐入公園", prefecture: "東京都", description: "川沿い", requesterIp: "203.0.113.9" },
+        "token",
+      );
+      expect(statusCode).toBe(201);
+      expect(body).toMatchObject({ success: true, id: 3 });
+    });
+
+    it("キャプチャの検証に失敗した場合は 400 を返す", async () => {
+      const { statusCode, body } = await submit({ error: "captcha_failed" });
+
+      expect(statusCode).toBe(400);
+      expect(body).toMatchObject({ success: false, error: "Captcha verification failed" });
+    });
+
+    it("キャプチャが未設定で受け付けられない場合は 503 を返す", async () => {
+      const { statusCode, body } = await submit({ error: "captcha_unavailable" });
+
+      expect(statusCode).toBe(503);
+      expect(body).toMatchObject({ success: false, error: "Service unavailable" });
+    });
+  });
+
+  describe("approveRequest", () => {
+    const approve = async (result: unknown) => {
+      const approveRequest = jest.fn().mockResolvedValue(result);
+      const response = createResponse();
+      await createController({ approveRequest }).approveRequest(
+        {
+          params: { id: "1" },
+          body: { latitude: "35.7125", longitude: "139.8039", elevation: "3" },
+          admin: { id: 7 },
+        } as unknown as AuthenticatedRequest,
+        response.res,
+      );
+      return { approveRequest, statusCode: response.statusCode(), body: response.body() };
+    };
+
+    it("座標が完全に一致する地点がある場合は 409 と重複候補を返す", async () => {
+      const { approveRequest, statusCode, body } = await approve({
+        error: "duplicate",
+        exactDuplicate: DUPLICATE,
+        duplicates: [DUPLICATE],
+      });
+
+      expect(approveRequest).toHaveBeenCalledWith(1, 7, {
+        latitude: 35.7125,
+        longitude: 139.8039,
+        elevation: 3,
+      });
+      expect(statusCode).toBe(409);
+      expect(body).toEqual({
+        success: false,
+        error: "Duplicate location",
+        message: "同じ座標の地点（ID 10「隅田公園」）が既に登録されています。",
+        duplicates: [DUPLICATE],
+      });
+    });
+
+    it.each([
+      { error: "already_processed", statusCode: 409, response: "Already processed" },
+      { error: "not_found", statusCode: 404, response: "Request not found" },
+    ])("$error は $statusCode を返す", async ({ error, statusCode, response }) => {
+      const result = await approve({ error });
+
+      expect(result.statusCode).toBe(statusCode);
+      expect(result.body).toMatchObject({ success: false, error: response });
+    });
+
+    it("地点の作成に失敗した場合は 500 を返す", async () => {
+      const approveRequest = jest.fn().mockRejectedValue(new Error("地点の作成に失敗"));
+      const response = createResponse();
+
+      await createController({ approveRequest }).approveRequest(
+        {
+          params: { id: "1" },
+          body: { latitude: 35.7, longitude: 139.8, elevation: 3 },
+          admin: { id: 7 },
+        } as unknown as AuthenticatedRequest,
+        response.res,
+      );
+
+      expect(response.statusCode()).toBe(500);
+      expect(response.body()).toMatchObject({ success: false, error: "Internal server error" });
+    });
+  });
+});
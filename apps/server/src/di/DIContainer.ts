@@ -163,14 +163,22 @@ export class DIContainer {
         }
       }
 
-      // パフォーマンス設定の初期化
+      // パフォーマンス設定・天体計算設定の初期化
       if (this.has("SystemSettingsService")) {
-        const systemSettingsService = this.resolve("SystemSettingsService") as { initializePerformanceSettings?: () => Promise<void> };
+        const systemSettingsService = this.resolve("SystemSettingsService") as {
+          initializePerformanceSettings?: () => Promise<void>;
+          initializeAstronomicalSettings?: () => Promise<void>;
+        };
         if (systemSettingsService && typeof systemSettingsService.initializePerformanceSettings === 'function') {
           systemSettingsService.initializePerformanceSettings().catch((error: unknown) => {
             logger.warn("パフォーマンス設定初期化失敗", error);
           });
         }
+        if (systemSettingsService && typeof systemSettingsService.initializeAstronomicalSettings === 'function') {
+          systemSettingsService.initializeAstronomicalSettings().catch((error: unknown) => {
+            logger.warn("天体計算設定初期化失敗", { error: error as Error });
+          });
+        }
       }
       
       logger.info("依存関係注入の設定完了");
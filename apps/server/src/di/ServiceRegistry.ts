@@ -10,14 +10,31 @@ import { AuthRepository } from "../repositories/interfaces/AuthRepository";
 import { PrismaAuthRepository } from "../repositories/PrismaAuthRepository";
 import { SystemSettingsRepository } from "../repositories/interfaces/SystemSettingsRepository";
 import { PrismaSystemSettingsRepository } from "../repositories/PrismaSystemSettingsRepository";
+import { PearlRejectionRepository } from "../repositories/interfaces/PearlRejectionRepository";
+import { PrismaPearlRejectionRepository } from "../repositories/PrismaPearlRejectionRepository";
+import { LocationPhotoRepository } from "../repositories/interfaces/LocationPhotoRepository";
+import { PrismaLocationPhotoRepository } from "../repositories/PrismaLocationPhotoRepository";
+import { LocationRequestRepository } from "../repositories/interfaces/LocationRequestRepository";
+import { PrismaLocationRequestRepository } from "../repositories/PrismaLocationRequestRepository";
 
 // Service インターフェースと実装
 import { SkytreeAstronomicalCalculator, SkytreeAstronomicalCalculatorImpl } from "../services/SkytreeAstronomicalCalculator";
 import { SkytreeAlignmentCalculator } from "../services/astronomical/SkytreeAlignmentCalculator";
+import { AlignmentLineCalculator } from "../services/astronomical/AlignmentLineCalculator";
+import { ElevationProfileProvider } from "../services/interfaces/ElevationProfileProvider";
+import { LocalDemTileProvider } from "../services/terrain/LocalDemTileProvider";
+import { FileElevationProfileProvider } from "../services/terrain/FileElevationProfileProvider";
+import { PhotoStorage } from "../services/interfaces/PhotoStorage";
+import { LocalPhotoStorage } from "../services/storage/LocalPhotoStorage";
+import { CaptchaVerifier } from "../services/interfaces/CaptchaVerifier";
+import { SiteVerifyCaptchaVerifier } from "../services/captcha/SiteVerifyCaptchaVerifier";
 import { EventService } from "../services/interfaces/EventService";
 import { EventServiceImpl } from "../services/EventServiceImpl";
 import { EventCacheService } from "../services/EventCacheService";
 import { LocationService } from "../services/LocationService";
+import { LocationImportService } from "../services/LocationImportService";
+import { LocationPhotoService } from "../services/LocationPhotoService";
+import { LocationRequestService } from "../services/LocationRequestService";
 import { QueueService as QueueServiceImpl } from "../services/QueueService";
 import { QueueService } from "../services/interfaces/QueueService";
 import { CalendarService } from "../services/interfaces/CalendarService";
@@ -26,13 +43,23 @@ import { AuthService } from "../services/interfaces/AuthService";
 import { AuthServiceImpl } from "../services/AuthService";
 import { SystemSettingsService } from "../services/SystemSettingsService";
 import { BatchCalculationService } from "../services/BatchCalculationService";
+import { AlignmentTargetService } from "../services/AlignmentTargetService";
+import { MapSearchService } from "../services/MapSearchService";
+import { RegionRecommendationService } from "../services/RegionRecommendationService";
+import { RedisService, redisService } from "../services/RedisService";
+import { PearlRejectionService } from "../services/PearlRejectionService";
+import { SpecialEventService } from "../services/SpecialEventService";
 
 // Controller
 import { LocationController } from "../controllers/LocationController";
+import { LocationPhotoController } from "../controllers/LocationPhotoController";
+import { LocationRequestController } from "../controllers/LocationRequestController";
 import { CalendarController } from "../controllers/CalendarController";
+import { CalendarFeedService } from "../services/CalendarFeedService";
 import { AuthController } from "../controllers/AuthController";
 
 import { getComponentLogger } from "@skytree-photo-planner/utils";
+import path from "path";
 
 const logger = getComponentLogger("ServiceRegistry");
 
@@ -81,18 +108,148 @@ export class ServiceRegistry {
       return new PrismaSystemSettingsRepository();
     });
 
+    container.registerSingleton("PearlRejectionRepository", () => {
+      logger.debug("PrismaPearlRejectionRepository インスタンス作成");
+      return new PrismaPearlRejectionRepository();
+    });
+
+    // PearlRejectionService の登録（採否判定で除外したパール候補の記録）
+    container.registerSingleton("PearlRejectionService", (container) => {
+      logger.debug("PearlRejectionService インスタンス作成");
+      const repository = container.resolve<PearlRejectionRepository>("PearlRejectionRepository");
+      return new PearlRejectionService(repository);
+    });
+
+    // ElevationProfileProvider の登録（見通し判定用の標高データ、未設定なら判定なし）
+    container.registerSingleton("ElevationProfileProvider", () => {
+      if (process.env.DEM_TILE_DIR) {
+        const zoom = parseInt(process.env.DEM_TILE_ZOOM || "15");
+        logger.info("LocalDemTileProvider を使用", {
+          tileDir: process.env.DEM_TILE_DIR,
+          zoom,
+        });
+        return new LocalDemTileProvider(process.env.DEM_TILE_DIR, zoom);
+      }
+      if (process.env.TERRAIN_PROFILE_FILE) {
+        logger.info("FileElevationProfileProvider を使用", {
+          filePath: process.env.TERRAIN_PROFILE_FILE,
+        });
+        return new FileElevationProfileProvider(process.env.TERRAIN_PROFILE_FILE);
+      }
+      logger.info("標高データ未設定のため見通し判定を無効化");
+      return null;
+    });
+
+    container.registerSingleton("LocationPhotoRepository", () => {
+      logger.debug("PrismaLocationPhotoRepository インスタンス作成");
+      return new PrismaLocationPhotoRepository();
+    });
+
+    // PhotoStorage の登録（撮影地点の参考写真の保存先）
+    container.registerSingleton("PhotoStorage", () => {
+      const baseDir = process.env.PHOTO_STORAGE_DIR || path.resolve(process.cwd(), "data/photos");
+      logger.info("LocalPhotoStorage を使用", { baseDir });
+      return new LocalPhotoStorage(baseDir);
+    });
+
+    // LocationPhotoService の登録（参考写真のサムネイル生成・EXIF 読み取り）
+    container.registerSingleton("LocationPhotoService", (container) => {
+      logger.debug("LocationPhotoService インスタンス作成");
+      const repository = container.resolve<LocationPhotoRepository>("LocationPhotoRepository");
+      const storage = container.resolve<PhotoStorage>("PhotoStorage");
+      return new LocationPhotoService(repository, storage);
+    });
+
+    container.registerSingleton("LocationRequestRepository", () => {
+      logger.debug("PrismaLocationRequestRepository インスタンス作成");
+      return new PrismaLocationRequestRepository();
+    });
+
+    // CaptchaVerifier の登録（撮影地点の追加リクエストのスパム対策）
+    // 未設定の場合、本番環境では追加リクエストを受け付けず、それ以外の環境では検証なしで受け付ける
+    container.registerSingleton("CaptchaVerifier", () => {
+      const provider = process.env.CAPTCHA_PROVIDER;
+      if (!provider) {
+        if (process.env.NODE_ENV === "production") {
+          logger.error("本番環境でキャプチャが未設定のため追加リクエストを受け付けない", {
+            recommendation: "CAPTCHA_PROVIDER・CAPTCHA_SITE_KEY・CAPTCHA_SECRET_KEY を設定してください",
+          });
+        } else {
+          logger.info("キャプチャ未設定のため追加リクエストの画像認証を無効化");
+        }
+        return null;
+      }
+
+      const siteKey = process.env.CAPTCHA_SITE_KEY;
+      const secretKey = process.env.CAPTCHA_SECRET_KEY;
+      if (
+        !SiteVerifyCaptchaVerifier.PROVIDERS.includes(provider as CaptchaVerifier["name"]) ||
+        !siteKey ||
+        !secretKey
+      ) {
+        logger.warn("キャプチャ設定が不正なため画像認証を無効化", {
+          provider,
+          hasSiteKey: !!siteKey,
+          hasSecretKey: !!secretKey,
+          acceptsRequests: process.env.NODE_ENV !== "production",
+        });
+        return null;
+      }
+
+      logger.info("SiteVerifyCaptchaVerifier を使用", { provider });
+      return new SiteVerifyCaptchaVerifier(
+        provider as CaptchaVerifier["name"],
+        siteKey,
+        secretKey,
+      );
+    });
+
     // SkytreeAstronomicalCalculator の登録
     container.registerSingleton("AstronomicalCalculator", (container) => {
       logger.debug("SkytreeAstronomicalCalculatorImpl インスタンス作成");
       const systemSettingsService = container.resolve<SystemSettingsService>("SystemSettingsService");
-      return new SkytreeAstronomicalCalculatorImpl(systemSettingsService);
+      const elevationProfileProvider =
+        container.resolve<ElevationProfileProvider | null>("ElevationProfileProvider");
+      // 事前計算（キャッシュ生成）の除外候補のみ記録する
+      const pearlRejectionService =
+        container.resolve<PearlRejectionService>("PearlRejectionService");
+      return new SkytreeAstronomicalCalculatorImpl(
+        systemSettingsService,
+        elevationProfileProvider,
+        pearlRejectionService,
+      );
     });
 
     // SkytreeAlignmentCalculator の登録
     container.registerSingleton("SkytreeAlignmentCalculator", (container) => {
       logger.debug("SkytreeAlignmentCalculator インスタンス作成");
       const systemSettingsService = container.resolve<SystemSettingsService>("SystemSettingsService");
-      return new SkytreeAlignmentCalculator(systemSettingsService);
+      const elevationProfileProvider =
+        container.resolve<ElevationProfileProvider | null>("ElevationProfileProvider");
+      return new SkytreeAlignmentCalculator(
+        systemSettingsService,
+        elevationProfileProvider,
+      );
+    });
+
+    // AlignmentLineCalculator の登録（日付から撮影地点を求める逆検索）
+    container.registerSingleton("AlignmentLineCalculator", (container) => {
+      logger.debug("AlignmentLineCalculator インスタンス作成");
+      const systemSettingsService = container.resolve<SystemSettingsService>("SystemSettingsService");
+      return new AlignmentLineCalculator(systemSettingsService);
+    });
+
+    // AlignmentTargetService の登録（整列判定の目標点）
+    container.registerSingleton("AlignmentTargetService", (container) => {
+      logger.debug("AlignmentTargetService インスタンス作成");
+      const systemSettingsService = container.resolve<SystemSettingsService>("SystemSettingsService");
+      return new AlignmentTargetService(systemSettingsService);
+    });
+
+    // SpecialEventService の登録（日食・月食・スーパームーン）
+    container.registerSingleton("SpecialEventService", () => {
+      logger.debug("SpecialEventService インスタンス作成");
+      return new SpecialEventService();
     });
 
     // EventCacheService の登録
@@ -118,6 +275,48 @@ export class ServiceRegistry {
       return queueService;
     });
 
+    // RedisService の登録（Redis 無効化モードではキャッシュなし）
+    container.registerSingleton("RedisService", () => {
+      if (process.env.DISABLE_REDIS === "true") {
+        logger.info("Redis 無効化モード: RedisService のキャッシュは使用しません");
+        return null;
+      }
+      return redisService;
+    });
+
+    // MapSearchService の登録（地図検索の日付ループ、日別結果を Redis にキャッシュ）
+    container.registerSingleton("MapSearchService", (container) => {
+      logger.debug("MapSearchService インスタンス作成");
+      const skytreeAlignmentCalculator =
+        container.resolve<SkytreeAlignmentCalculator>("SkytreeAlignmentCalculator");
+      const systemSettingsService = container.resolve<SystemSettingsService>("SystemSettingsService");
+      const cacheService = container.resolve<RedisService | null>("RedisService");
+      const mapSearchService = new MapSearchService(
+        skytreeAlignmentCalculator,
+        systemSettingsService,
+        cacheService,
+      );
+
+      // QueueService に MapSearchService を注入（地図検索ジョブの処理用）
+      const queueService = container.resolve<QueueService>("QueueService");
+      queueService.setMapSearchService(mapSearchService);
+
+      return mapSearchService;
+    });
+
+    // RegionRecommendationService の登録（描いた範囲内のおすすめ地点の格子探索）
+    container.registerSingleton("RegionRecommendationService", (container) => {
+      logger.debug("RegionRecommendationService インスタンス作成");
+      const mapSearchService = container.resolve<MapSearchService>("MapSearchService");
+      const regionRecommendationService = new RegionRecommendationService(mapSearchService);
+
+      // QueueService に RegionRecommendationService を注入（おすすめ地点ジョブの処理用）
+      const queueService = container.resolve<QueueService>("QueueService");
+      queueService.setRegionRecommendationService(regionRecommendationService);
+
+      return regionRecommendationService;
+    });
+
     // EventService の登録
     container.registerSingleton("EventService", (container) => {
       logger.debug("EventServiceImpl インスタンス作成");
@@ -169,10 +368,44 @@ export class ServiceRegistry {
       // EventService を先に解決して、QueueService に注入されることを保証
       container.resolve<EventService>("EventService");
       const queueService = container.resolve<QueueService>("QueueService");
+      const systemSettingsService = container.resolve<SystemSettingsService>("SystemSettingsService");
+      const locationPhotoService = container.resolve<LocationPhotoService>("LocationPhotoService");
       return new LocationService(
         locationRepository,
         astronomicalCalculator,
         queueService,
+        systemSettingsService,
+        locationPhotoService,
+      );
+    });
+
+    // LocationImportService の登録（CSV・GeoJSON などからの一括取り込み）
+    container.registerSingleton("LocationImportService", (container) => {
+      logger.debug("LocationImportService インスタンス作成");
+      const locationRepository =
+        container.resolve<LocationRepository>("LocationRepository");
+      const locationService = container.resolve<LocationService>("LocationService");
+      const queueService = container.resolve<QueueService>("QueueService");
+      const systemSettingsService = container.resolve<SystemSettingsService>("SystemSettingsService");
+      return new LocationImportService(
+        locationRepository,
+        locationService,
+        queueService,
+        systemSettingsService,
+      );
+    });
+
+    // LocationRequestService の登録（追加リクエストの受付・審査）
+    container.registerSingleton("LocationRequestService", (container) => {
+      logger.debug("LocationRequestService インスタンス作成");
+      const repository = container.resolve<LocationRequestRepository>("LocationRequestRepository");
+      const locationService = container.resolve<LocationService>("LocationService");
+      const captchaVerifier = container.resolve<CaptchaVerifier | null>("CaptchaVerifier");
+      return new LocationRequestService(
+        repository,
+        locationService,
+        captchaVerifier,
+        process.env.NODE_ENV === "production",
       );
     });
 
@@ -183,7 +416,21 @@ export class ServiceRegistry {
         container.resolve<CalendarRepository>("CalendarRepository");
       const astronomicalCalculator = container.resolve<SkytreeAstronomicalCalculator>("AstronomicalCalculator");
       const locationRepository = container.resolve<LocationRepository>("LocationRepository");
-      return new CalendarServiceImpl(calendarRepository, astronomicalCalculator, locationRepository);
+      const specialEventService = container.resolve<SpecialEventService>("SpecialEventService");
+      return new CalendarServiceImpl(
+        calendarRepository,
+        astronomicalCalculator,
+        locationRepository,
+        specialEventService,
+      );
+    });
+
+    // CalendarFeedService の登録
+    container.registerSingleton("CalendarFeedService", (container) => {
+      logger.debug("CalendarFeedService インスタンス作成");
+      const calendarService = container.resolve<CalendarService>("CalendarService");
+      const locationRepository = container.resolve<LocationRepository>("LocationRepository");
+      return new CalendarFeedService(calendarService, locationRepository);
     });
 
     // AuthService の登録
@@ -213,14 +460,40 @@ export class ServiceRegistry {
       logger.debug("LocationController インスタンス作成");
       const locationService =
         container!.resolve<LocationService>("LocationService");
-      return new LocationController(locationService);
+      const locationImportService =
+        container!.resolve<LocationImportService>("LocationImportService");
+      return new LocationController(locationService, locationImportService);
+    });
+
+    container.register("LocationPhotoController", (container?: DIContainer) => {
+      logger.debug("LocationPhotoController インスタンス作成");
+      const locationService =
+        container!.resolve<LocationService>("LocationService");
+      const locationPhotoService =
+        container!.resolve<LocationPhotoService>("LocationPhotoService");
+      return new LocationPhotoController(locationService, locationPhotoService);
+    });
+
+    container.register("LocationRequestController", (container?: DIContainer) => {
+      logger.debug("LocationRequestController インスタンス作成");
+      const locationRequestService =
+        container!.resolve<LocationRequestService>("LocationRequestService");
+      return new LocationRequestController(locationRequestService);
     });
 
     container.register("CalendarController", (container?: DIContainer) => {
       logger.debug("CalendarController インスタンス作成");
       const calendarService =
         container!.resolve<CalendarService>("CalendarService");
-      return new CalendarController(calendarService);
+      const alignmentTargetService =
+        container!.resolve<AlignmentTargetService>("AlignmentTargetService");
+      const calendarFeedService =
+        container!.resolve<CalendarFeedService>("CalendarFeedService");
+      return new CalendarController(
+        calendarService,
+        alignmentTargetService,
+        calendarFeedService,
+      );
     });
 
     container.register("AuthController", (container?: DIContainer) => {
@@ -4,6 +4,22 @@ import helmet from "helmet";
 import cookieParser from "cookie-parser";
 import path from "path";
 
+// 撮影地点の追加リクエストで使うキャプチャのウィジェット配信元（CAPTCHA_PROVIDER 設定時のみ CSP で許可）
+const CAPTCHA_CSP_SOURCES: Record<string, { script: string[]; frame: string[] }> = {
+  turnstile: {
+    script: ["https://challenges.cloudflare.com"],
+    frame: ["https://challenges.cloudflare.com"],
+  },
+  recaptcha: {
+    script: ["https://www.google.com/recaptcha/", "https://www.gstatic.com/recaptcha/"],
+    frame: ["https://www.google.com/recaptcha/", "https://recaptcha.google.com/recaptcha/"],
+  },
+  hcaptcha: {
+    script: ["https://hcaptcha.com", "https://*.hcaptcha.com"],
+    frame: ["https://hcaptcha.com", "https://*.hcaptcha.com"],
+  },
+};
+
 export function setupMiddleware(app: Express): void {
   // プロキシ信頼設定（本番環境ではプロキシ経由でアクセスされることが多い）
   if (process.env.NODE_ENV === "production") {
@@ -14,6 +30,7 @@ export function setupMiddleware(app: Express): void {
   }
 
   // セキュリティヘッダー
+  const captchaSources = CAPTCHA_CSP_SOURCES[process.env.CAPTCHA_PROVIDER || ""];
   app.use(
     helmet({
       contentSecurityPolicy: process.env.NODE_ENV === "production" ? {
@@ -27,6 +44,7 @@ export function setupMiddleware(app: Express): void {
           scriptSrc: [
             "'self'",
             // 本番環境では 'unsafe-eval' は除去（セキュリティ強化）
+            ...(captchaSources?.script ?? []),
           ],
           imgSrc: [
             "'self'", 
@@ -42,7 +60,7 @@ export function setupMiddleware(app: Express): void {
             "'self'",
             "https:", // API 通信用
           ],
-          frameSrc: ["'none'"],
+          frameSrc: captchaSources ? captchaSources.frame : ["'none'"],
           objectSrc: ["'none'"],
           mediaSrc: ["'self'"],
           manifestSrc: ["'self'"],
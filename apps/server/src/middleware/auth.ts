@@ -251,3 +251,83 @@ export const adminApiRateLimit = rateLimit({
            (req.ip === "127.0.0.1" || req.ip === "::1");
   },
 });
+
+/**
+ * 撮影地点の追加リクエスト用レート制限
+ * 公開フォームからの送信: 1 時間で 5 回まで（スパム対策）
+ */
+export const locationRequestRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 時間
+  max: 5, // 最大 5 件の送信
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn("追加リクエストのレート制限に達しました", {
+      ip: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+    res.status(429).json({
+      success: false,
+      error: "Too many location requests",
+      message: "送信回数が上限に達しました。1 時間後に再試行してください。",
+    });
+  },
+  skip: (req) => {
+    // 開発環境では localhost からの制限をスキップ
+    return process.env.NODE_ENV === "development" &&
+           (req.ip === "127.0.0.1" || req.ip === "::1");
+  },
+});
+
+// 目標点指定のカレンダー API 用レート制限（事前計算を使えずリアルタイム計算になるため）
+export const alignmentTargetRateLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 分
+  max: 10, // 最大 10 リクエスト
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn("目標点指定のレート制限に達しました", {
+      ip: req.ip,
+      path: req.path,
+      userAgent: req.get("User-Agent"),
+    });
+    res.status(429).json({
+      success: false,
+      error: "Too many alignment target requests",
+      message: "目標点を指定したリクエストが多すぎます。1 分後に再試行してください。",
+    });
+  },
+  skip: (req) => {
+    // 目標点を指定しないリクエストは事前計算済みのイベントを返すため制限しない
+    if (req.query.target === undefined && req.query.targetHeight === undefined) {
+      return true;
+    }
+    // 開発環境では localhost からの制限をスキップ
+    return process.env.NODE_ENV === "development" &&
+           (req.ip === "127.0.0.1" || req.ip === "::1");
+  },
+});
+
+// 地図検索ジョブ登録用レート制限（ジョブは CPU 負荷の高い検索を 1 件ずつ処理するため）
+export const mapSearchJobRateLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 分
+  max: 5, // 最大 5 件の登録
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn("地図検索ジョブ登録のレート制限に達しました", {
+      ip: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+    res.status(429).json({
+      success: false,
+      error: "Too many map search jobs",
+      message: "検索の回数が上限に達しました。1 分後に再試行してください。",
+    });
+  },
+  skip: (req) => {
+    // 開発環境では localhost からの制限をスキップ
+    return process.env.NODE_ENV === "development" &&
+           (req.ip === "127.0.0.1" || req.ip === "::1");
+  },
+});
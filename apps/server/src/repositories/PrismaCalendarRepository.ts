@@ -116,6 +116,32 @@ export class PrismaCalendarRepository implements CalendarRepository {
     );
   }
 
+  async getEventsInRange(
+    startTime: Date,
+    endTime: Date,
+    locationId?: number,
+  ): Promise<SkytreeEvent[]> {
+    const events = await this.prisma.locationEvent.findMany({
+      where: {
+        locationId,
+        eventTime: {
+          gte: startTime,
+          lte: endTime,
+        },
+      },
+      include: {
+        location: true,
+      },
+      orderBy: {
+        eventTime: 'asc',
+      },
+    });
+
+    return events.map((event: LocationEventWithLocation) =>
+      this.mapToSkytreeEvent(event),
+    );
+  }
+
   async getLocationYearlyEvents(
     locationId: number,
     year: number,
@@ -305,6 +331,32 @@ export class PrismaCalendarRepository implements CalendarRepository {
       moonPhase: event.moonPhase || 0,
       accuracy:
         (event.accuracy as "perfect" | "excellent" | "good" | "fair") || "fair",
+      lineOfSight: event.occlusionStatus
+        ? {
+            status: event.occlusionStatus,
+            visibleHeight: event.visibleHeight ?? 0,
+          }
+        : undefined,
+      refractionModel: event.refractionModel ?? undefined,
+      contactWindow:
+        event.firstContactTime && event.centerTime && event.lastContactTime
+          ? {
+              firstContact: event.firstContactTime,
+              center: event.centerTime,
+              lastContact: event.lastContactTime,
+              durationSeconds: Math.round(
+                (event.lastContactTime.getTime() - event.firstContactTime.getTime()) / 1000,
+              ),
+              angularRadius: event.angularRadius ?? 0,
+            }
+          : undefined,
+      alignment: event.alignmentClassification
+        ? {
+            classification: event.alignmentClassification,
+            crossingHeight: event.crossingHeight ?? undefined,
+            offsetDiameters: event.offsetDiameters ?? undefined,
+          }
+        : undefined,
     };
   }
 }
@@ -0,0 +1,69 @@
+import { LocationPhoto as PrismaLocationPhoto } from "@prisma/client";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import {
+  LocationPhotoInput,
+  LocationPhotoRecord,
+  LocationPhotoRepository,
+} from "./interfaces/LocationPhotoRepository";
+import { PrismaClientManager } from "../database/prisma";
+
+export class PrismaLocationPhotoRepository implements LocationPhotoRepository {
+  private readonly logger = getComponentLogger("PrismaLocationPhotoRepository");
+  private readonly prisma = PrismaClientManager.getInstance();
+
+  async findByLocationId(locationId: number): Promise<LocationPhotoRecord[]> {
+    const photos = await this.prisma.locationPhoto.findMany({
+      where: { locationId },
+      orderBy: { createdAt: "asc" },
+    });
+    return photos.map((photo) => this.toRecord(photo));
+  }
+
+  async findById(id: number): Promise<LocationPhotoRecord | null> {
+    const photo = await this.prisma.locationPhoto.findUnique({ where: { id } });
+    return photo ? this.toRecord(photo) : null;
+  }
+
+  async create(photo: LocationPhotoInput): Promise<LocationPhotoRecord> {
+    try {
+      return this.toRecord(await this.prisma.locationPhoto.create({ data: photo }));
+    } catch (error) {
+      this.logger.error("参考写真の保存に失敗", {
+        locationId: photo.locationId,
+        storageKey: photo.storageKey,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  async update(
+    id: number,
+    data: Partial<Pick<LocationPhotoRecord, "category" | "caption">>,
+  ): Promise<LocationPhotoRecord> {
+    return this.toRecord(await this.prisma.locationPhoto.update({ where: { id }, data }));
+  }
+
+  async delete(id: number): Promise<void> {
+    await this.prisma.locationPhoto.delete({ where: { id } });
+  }
+
+  private toRecord(photo: PrismaLocationPhoto): LocationPhotoRecord {
+    return {
+      id: photo.id,
+      locationId: photo.locationId,
+      category: photo.category,
+      caption: photo.caption,
+      storageKey: photo.storageKey,
+      thumbnailKey: photo.thumbnailKey,
+      contentType: photo.contentType,
+      fileSize: photo.fileSize,
+      width: photo.width,
+      height: photo.height,
+      takenAt: photo.takenAt,
+      gpsLatitude: photo.gpsLatitude,
+      gpsLongitude: photo.gpsLongitude,
+      createdAt: photo.createdAt,
+    };
+  }
+}
@@ -1,7 +1,10 @@
+import { Prisma } from "@prisma/client";
 import { Location, CreateLocationRequest } from "@skytree-photo-planner/types";
+import type { LocationSpatialQuery } from "@skytree-photo-planner/types";
 import { getComponentLogger } from "@skytree-photo-planner/utils";
 import { PrismaClientManager } from "../database/prisma";
 import { LocationRepository } from "./interfaces/LocationRepository";
+import type { LocationImportData } from "./interfaces/LocationRepository";
 
 const logger = getComponentLogger("PrismaLocationRepository");
 
@@ -137,6 +140,142 @@ export class PrismaLocationRepository implements LocationRepository {
     logger.info("撮影地点削除成功", { locationId: id });
   }
 
+  async importBatch(operations: {
+    creates: LocationImportData[];
+    updates: Array<{ id: number; data: Partial<LocationImportData> }>;
+  }): Promise<{ created: Location[]; updated: Location[] }> {
+    logger.debug("撮影地点一括反映開始", {
+      createCount: operations.creates.length,
+      updateCount: operations.updates.length,
+    });
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const created = [];
+      for (const data of operations.creates) {
+        created.push(await tx.location.create({ data }));
+      }
+      const updated = [];
+      for (const { id, data } of operations.updates) {
+        updated.push(await tx.location.update({ where: { id }, data }));
+      }
+      return { created, updated };
+    });
+
+    logger.info("撮影地点一括反映成功", {
+      createdCount: result.created.length,
+      updatedCount: result.updated.length,
+    });
+
+    return {
+      created: result.created.map(this.formatLocation),
+      updated: result.updated.map(this.formatLocation),
+    };
+  }
+
+  async merge(
+    sourceId: number,
+    targetId: number,
+    fill: Partial<Pick<LocationImportData, "description" | "accessInfo" | "parkingInfo" | "measurementNotes">>,
+  ): Promise<{
+    location: Location;
+    movedEventCount: number;
+    droppedEventCount: number;
+    movedRejectionCount: number;
+    movedPhotoCount: number;
+  }> {
+    logger.debug("撮影地点統合開始", { sourceId, targetId });
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      // 統合先に同じ日・種類のイベントがある場合は統合先を残す（一意制約のため）
+      const targetEventKeys = new Set(
+        (
+          await tx.locationEvent.findMany({
+            where: { locationId: targetId },
+            select: { eventDate: true, eventType: true },
+          })
+        ).map((event) => `${event.eventDate.toISOString()}_${event.eventType}`),
+      );
+      const sourceEvents = await tx.locationEvent.findMany({
+        where: { locationId: sourceId },
+        select: { id: true, eventDate: true, eventType: true },
+      });
+      const droppedEventIds = sourceEvents
+        .filter((event) =>
+          targetEventKeys.has(`${event.eventDate.toISOString()}_${event.eventType}`),
+        )
+        .map((event) => event.id);
+      await tx.locationEvent.deleteMany({ where: { id: { in: droppedEventIds } } });
+      const movedEvents = await tx.locationEvent.updateMany({
+        where: { locationId: sourceId },
+        data: { locationId: targetId },
+      });
+
+      const targetRejectionKeys = new Set(
+        (
+          await tx.pearlRejection.findMany({
+            where: { locationId: targetId },
+            select: { eventTime: true, eventType: true },
+          })
+        ).map((rejection) => `${rejection.eventTime.toISOString()}_${rejection.eventType}`),
+      );
+      const sourceRejections = await tx.pearlRejection.findMany({
+        where: { locationId: sourceId },
+        select: { id: true, eventTime: true, eventType: true },
+      });
+      await tx.pearlRejection.deleteMany({
+        where: {
+          id: {
+            in: sourceRejections
+              .filter((rejection) =>
+                targetRejectionKeys.has(
+                  `${rejection.eventTime.toISOString()}_${rejection.eventType}`,
+                ),
+              )
+              .map((rejection) => rejection.id),
+          },
+        },
+      });
+      const movedRejections = await tx.pearlRejection.updateMany({
+        where: { locationId: sourceId },
+        data: { locationId: targetId },
+      });
+
+      // 参考写真は重複の判定をせずすべて付け替える
+      const movedPhotos = await tx.locationPhoto.updateMany({
+        where: { locationId: sourceId },
+        data: { locationId: targetId },
+      });
+
+      // 承認済みの追加リクエストは統合先の地点を指すようにする
+      await tx.locationRequest.updateMany({
+        where: { locationId: sourceId },
+        data: { locationId: targetId },
+      });
+
+      const location = await tx.location.update({ where: { id: targetId }, data: fill });
+      await tx.location.delete({ where: { id: sourceId } });
+
+      return {
+        location,
+        movedEventCount: movedEvents.count,
+        droppedEventCount: droppedEventIds.length,
+        movedRejectionCount: movedRejections.count,
+        movedPhotoCount: movedPhotos.count,
+      };
+    });
+
+    logger.info("撮影地点統合成功", {
+      sourceId,
+      targetId,
+      movedEventCount: result.movedEventCount,
+      droppedEventCount: result.droppedEventCount,
+      movedRejectionCount: result.movedRejectionCount,
+      movedPhotoCount: result.movedPhotoCount,
+    });
+
+    return { ...result, location: this.formatLocation(result.location) };
+  }
+
   async updateSkytreeMetrics(
     id: number,
     metrics: {
@@ -163,6 +302,71 @@ export class PrismaLocationRepository implements LocationRepository {
     });
   }
 
+  async findBySpatialQuery(query: LocationSpatialQuery): Promise<Location[]> {
+    logger.debug("範囲検索開始", { query });
+
+    const conditions: Prisma.LocationWhereInput[] = [];
+
+    if (query.bounds) {
+      const { south, west, north, east } = query.bounds;
+      conditions.push({ latitude: { gte: south, lte: north } });
+      // 経度 180 度をまたぐ範囲は 2 つに分ける
+      conditions.push(
+        west <= east
+          ? { longitude: { gte: west, lte: east } }
+          : { OR: [{ longitude: { gte: west } }, { longitude: { lte: east } }] },
+      );
+    }
+
+    if (query.center?.radiusMeters !== undefined) {
+      // 円に外接する範囲（緯度 1 度 ≒ 111.32km）
+      const { latitude, longitude, radiusMeters } = query.center;
+      const latDelta = radiusMeters / 111320;
+      const lngDelta =
+        radiusMeters / (111320 * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+      conditions.push({
+        latitude: { gte: latitude - latDelta, lte: latitude + latDelta },
+        longitude: { gte: longitude - lngDelta, lte: longitude + lngDelta },
+      });
+    }
+
+    if (query.distanceToSkytree) {
+      conditions.push({
+        distanceToSkytree: {
+          gte: query.distanceToSkytree.min,
+          lte: query.distanceToSkytree.max,
+        },
+      });
+    }
+
+    if (query.azimuthToSkytree) {
+      const { from, to } = query.azimuthToSkytree;
+      // 北（0 度）をまたぐ扇形は 2 つの範囲に分ける
+      conditions.push(
+        from <= to
+          ? { azimuthToSkytree: { gte: from, lte: to } }
+          : {
+              OR: [
+                { azimuthToSkytree: { gte: from } },
+                { azimuthToSkytree: { lte: to } },
+              ],
+            },
+      );
+    }
+
+    const locations = await this.prisma.location.findMany({
+      where: { AND: conditions },
+      orderBy: { distanceToSkytree: "asc" },
+    });
+
+    logger.info("範囲検索成功", {
+      query,
+      locationCount: locations.length,
+    });
+
+    return locations.map(this.formatLocation);
+  }
+
   async findByCondition(condition: {
     prefecture?: string;
     minElevation?: number;
@@ -0,0 +1,100 @@
+import { LocationRequest as PrismaLocationRequest } from "@prisma/client";
+import { LocationRequest, LocationRequestStatus } from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import {
+  LocationRequestDecision,
+  LocationRequestInput,
+  LocationRequestRepository,
+} from "./interfaces/LocationRequestRepository";
+import { PrismaClientManager } from "../database/prisma";
+
+export class PrismaLocationRequestRepository implements LocationRequestRepository {
+  private readonly logger = getComponentLogger("PrismaLocationRequestRepository");
+  private readonly prisma = PrismaClientManager.getInstance();
+
+  async create(request: LocationRequestInput): Promise<LocationRequest> {
+    try {
+      return this.toRequest(
+        await this.prisma.locationRequest.create({
+          data: {
+            ...request,
+            suggestedLatitude: request.suggestedLatitude ?? null,
+            suggestedLongitude: request.suggestedLongitude ?? null,
+          },
+        }),
+      );
+    } catch (error) {
+      this.logger.error("追加リクエストの保存に失敗", { name: request.name, error });
+      throw error;
+    }
+  }
+
+  async findById(id: number): Promise<LocationRequest | null> {
+    const request = await this.prisma.locationRequest.findUnique({ where: { id } });
+    return request ? this.toRequest(request) : null;
+  }
+
+  async findByStatus(status?: LocationRequestStatus): Promise<LocationRequest[]> {
+    const requests = await this.prisma.locationRequest.findMany({
+      where: status ? { status } : undefined,
+      orderBy: { createdAt: status === "pending" ? "asc" : "desc" },
+    });
+    return requests.map((request) => this.toRequest(request));
+  }
+
+  async countByStatus(): Promise<Record<LocationRequestStatus, number>> {
+    const groups = await this.prisma.locationRequest.groupBy({
+      by: ["status"],
+      _count: { _all: true },
+    });
+    const counts: Record<LocationRequestStatus, number> = { pending: 0, approved: 0, rejected: 0 };
+    for (const group of groups) {
+      counts[group.status] = group._count._all;
+    }
+    return counts;
+  }
+
+  async decideIfPending(
+    id: number,
+    decision: LocationRequestDecision,
+  ): Promise<LocationRequest | null> {
+    const result = await this.prisma.locationRequest.updateMany({
+      where: { id, status: "pending" },
+      data: { ...decision, processedAt: new Date() },
+    });
+    if (result.count === 0) {
+      return null;
+    }
+    return this.findById(id);
+  }
+
+  async revertToPending(id: number): Promise<void> {
+    await this.prisma.locationRequest.update({
+      where: { id },
+      data: { status: "pending", processedAt: null, processedBy: null, locationId: null },
+    });
+  }
+
+  async setLocationId(id: number, locationId: number): Promise<LocationRequest> {
+    return this.toRequest(
+      await this.prisma.locationRequest.update({ where: { id }, data: { locationId } }),
+    );
+  }
+
+  private toRequest(request: PrismaLocationRequest): LocationRequest {
+    return {
+      id: request.id,
+      name: request.name,
+      prefecture: request.prefecture,
+      description: request.description,
+      suggestedLatitude: request.suggestedLatitude ?? undefined,
+      suggestedLongitude: request.suggestedLongitude ?? undefined,
+      requesterIp: request.requesterIp,
+      status: request.status,
+      createdAt: request.createdAt,
+      processedAt: request.processedAt ?? undefined,
+      processedBy: request.processedBy ?? undefined,
+      locationId: request.locationId ?? undefined,
+    };
+  }
+}
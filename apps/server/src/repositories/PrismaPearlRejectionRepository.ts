@@ -0,0 +1,99 @@
+import { PearlRejection as PrismaPearlRejection } from "@prisma/client";
+import { PearlRejection } from "@skytree-photo-planner/types";
+import { getComponentLogger, timeUtils } from "@skytree-photo-planner/utils";
+import {
+  PearlRejectionInput,
+  PearlRejectionRepository,
+} from "./interfaces/PearlRejectionRepository";
+import { PrismaClientManager } from "../database/prisma";
+
+export class PrismaPearlRejectionRepository implements PearlRejectionRepository {
+  private readonly logger = getComponentLogger("PrismaPearlRejectionRepository");
+  private readonly prisma = PrismaClientManager.getInstance();
+
+  async upsert(rejection: PearlRejectionInput): Promise<void> {
+    const eventType =
+      rejection.subType === "rising" ? "pearl_moonrise" : "pearl_moonset";
+    const dateString = timeUtils.formatDateString(rejection.eventTime);
+    const data = {
+      eventDate: new Date(`${dateString}T00:00:00Z`),
+      azimuth: rejection.azimuth,
+      moonIllumination: rejection.moonIllumination,
+      daysFromFull: rejection.daysFromFull,
+      sunElevation: rejection.sunElevation,
+      reasons: rejection.reasons,
+      calculationYear: parseInt(dateString.slice(0, 4), 10),
+    };
+
+    try {
+      await this.prisma.pearlRejection.upsert({
+        where: {
+          locationId_eventTime_eventType: {
+            locationId: rejection.locationId,
+            eventTime: rejection.eventTime,
+            eventType,
+          },
+        },
+        update: data,
+        create: {
+          locationId: rejection.locationId,
+          eventTime: rejection.eventTime,
+          eventType,
+          ...data,
+        },
+      });
+    } catch (error) {
+      this.logger.error("パール除外候補の保存に失敗", {
+        locationId: rejection.locationId,
+        eventTime: rejection.eventTime.toISOString(),
+        error,
+      });
+      throw error;
+    }
+  }
+
+  async findMany(query: {
+    locationId?: number;
+    from?: Date;
+    to?: Date;
+    limit: number;
+  }): Promise<PearlRejection[]> {
+    try {
+      const rejections = await this.prisma.pearlRejection.findMany({
+        where: {
+          locationId: query.locationId,
+          eventTime: {
+            gte: query.from,
+            lte: query.to,
+          },
+        },
+        include: { location: { select: { name: true } } },
+        orderBy: { eventTime: "desc" },
+        take: query.limit,
+      });
+
+      return rejections.map((rejection) => this.toDomainModel(rejection));
+    } catch (error) {
+      this.logger.error("パール除外候補の取得に失敗", { query, error });
+      throw error;
+    }
+  }
+
+  private toDomainModel(
+    rejection: PrismaPearlRejection & { location: { name: string } },
+  ): PearlRejection {
+    return {
+      id: rejection.id,
+      locationId: rejection.locationId,
+      locationName: rejection.location.name,
+      eventTime: rejection.eventTime,
+      subType: rejection.eventType === "pearl_moonrise" ? "rising" : "setting",
+      azimuth: rejection.azimuth,
+      moonIllumination: rejection.moonIllumination,
+      daysFromFull: rejection.daysFromFull,
+      sunElevation: rejection.sunElevation,
+      reasons: rejection.reasons,
+      createdAt: rejection.createdAt,
+    };
+  }
+}
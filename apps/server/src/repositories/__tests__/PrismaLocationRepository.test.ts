@@ -0,0 +1,241 @@
+import { PrismaLocationRepository } from "../PrismaLocationRepository";
+
+// Prisma Client は生成・接続せず、リポジトリごとにトランザクションの代替を差し込む
+jest.mock("../../database/prisma", () => ({
+  PrismaClientManager: { getInstance: () => ({}) },
+}));
+
+interface Row {
+  id: number;
+  locationId: number;
+  [key: string]: unknown;
+}
+
+type Where = { locationId?: number; id?: { in: number[] } };
+
+/**
+ * Prisma のテーブルのメモリ上の代替（統合で使う findMany・deleteMany・updateMany のみ）
+ * 一意制約に反する更新は Prisma と同じく例外にする
+ */
+const createTable = (rows: Row[], uniqueFields: string[] = []) => {
+  const matches = (row: Row, where: Where) =>
+    (where.locationId === undefined || row.locationId === where.locationId) &&
+    (where.id === undefined || where.id.in.includes(row.id));
+  const uniqueKey = (row: Row) =>
+    [row.locationId, ...uniqueFields.map((field) => String(row[field]))].join("_");
+
+  return {
+    rows,
+    findMany: jest.fn(async ({ where }: { where: Where }) =>
+      rows.filter((row) => matches(row, where)),
+    ),
+    deleteMany: jest.fn(async ({ where }: { where: Where }) => {
+      const deleted = rows.filter((row) => matches(row, where));
+      deleted.forEach((row) => rows.splice(rows.indexOf(row), 1));
+      return { count: deleted.length };
+    }),
+    updateMany: jest.fn(
+      async ({ where, data }: { where: Where; data: { locationId: number } }) => {
+        const updated = rows.filter((row) => matches(row, where));
+        updated.forEach((row) => Object.assign(row, data));
+        if (uniqueFields.length > 0 && new Set(rows.map(uniqueKey)).size !== rows.length) {
+          throw new Error("Unique constraint failed");
+        }
+        return { count: updated.length };
+      },
+    ),
+  };
+};
+
+const SOURCE_ID = 1;
+const TARGET_ID = 2;
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+const time = (dateTime: string) => new Date(`${dateTime}Z`);
+
+const createLocationRow = (id: number) => ({
+  id,
+  name: `地点 ${id}`,
+  prefecture: "東京都",
+  latitude: 35.7 + id / 1000,
+  longitude: 139.8,
+  elevation: 2,
+  description: null,
+  accessInfo: null,
+  measurementNotes: null,
+  parkingInfo: null,
+  azimuthToSkytree: 200,
+  elevationToSkytree: 5,
+  distanceToSkytree: 5,
+  status: "active",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+});
+
+// トランザクションの中で使うテーブルを差し替えたリポジトリを作る
+const createRepository = (tables: {
+  events: Row[];
+  rejections: Row[];
+  photos?: Row[];
+}) => {
+  const tx = {
+    locationEvent: createTable(tables.events, ["eventDate", "eventType"]),
+    pearlRejection: createTable(tables.rejections, ["eventTime", "eventType"]),
+    locationPhoto: createTable(tables.photos ?? []),
+    locationRequest: createTable([]),
+    location: {
+      update: jest.fn(async ({ where, data }: { where: { id: number }; data: object }) => ({
+        ...createLocationRow(where.id),
+        ...data,
+      })),
+      delete: jest.fn(async ({ where }: { where: { id: number } }) => createLocationRow(where.id)),
+    },
+  };
+  const prisma = {
+    $transaction: jest.fn(async (callback: (client: typeof tx) => Promise<unknown>) =>
+      callback(tx),
+    ),
+  };
+  const repository = new PrismaLocationRepository();
+  Object.assign(repository, { prisma });
+  return { repository, tx };
+};
+
+describe("PrismaLocationRepository.merge", () => {
+  it("統合先に同じ日・種類のイベントがある場合は統合元のイベントを削除する", async () => {
+    const { repository, tx } = createRepository({
+      events: [
+        { id: 11, locationId: SOURCE_ID, eventDate: day("2026-01-20"), eventType: "diamond_sunset" },
+        { id: 12, locationId: SOURCE_ID, eventDate: day("2026-01-20"), eventType: "pearl_moonrise" },
+        { id: 13, locationId: SOURCE_ID, eventDate: day("2026-01-21"), eventType: "diamond_sunset" },
+        { id: 21, locationId: TARGET_ID, eventDate: day("2026-01-20"), eventType: "diamond_sunset" },
+      ],
+      rejections: [],
+    });
+
+    const result = await repository.merge(SOURCE_ID, TARGET_ID, {});
+
+    expect(result).toMatchObject({ movedEventCount: 2, droppedEventCount: 1 });
+    expect(tx.locationEvent.rows.map((event) => [event.id, event.locationId])).toEqual([
+      [12, TARGET_ID],
+      [13, TARGET_ID],
+      [21, TARGET_ID],
+    ]);
+    expect(tx.location.delete).toHaveBeenCalledWith({ where: { id: SOURCE_ID } });
+  });
+
+  it("統合先に同じパールの除外記録がある場合は統合元の記録を削除する", async () => {
+    const { repository, tx } = createRepository({
+      events: [],
+      rejections: [
+        { id: 31, locationId: SOURCE_ID, eventTime: time("2026-01-20T08:15:00"), eventType: "pearl_moonrise" },
+        { id: 32, locationId: SOURCE_ID, eventTime: time("2026-01-20T08:15:00"), eventType: "pearl_moonset" },
+        { id: 41, locationId: TARGET_ID, eventTime: time("2026-01-20T08:15:00"), eventType: "pearl_moonrise" },
+      ],
+    });
+
+    const result = await repository.merge(SOURCE_ID, TARGET_ID, {});
+
+    expect(result.movedRejectionCount).toBe(1);
+    expect(tx.pearlRejection.rows.map((rejection) => [rejection.id, rejection.locationId])).toEqual([
+      [32, TARGET_ID],
+      [41, TARGET_ID],
+    ]);
+  });
+
+  it("参考写真はすべて付け替え、補完する項目を統合先に反映する", async () => {
+    const { repository, tx } = createRepository({
+      events: [],
+      rejections: [],
+      photos: [
+        { id: 51, locationId: SOURCE_ID },
+        { id: 52, locationId: SOURCE_ID },
+        { id: 61, locationId: TARGET_ID },
+      ],
+    });
+
+    const result = await repository.merge(SOURCE_ID, TARGET_ID, { accessInfo: "駅から徒歩 5 分" });
+
+    expect(result.movedPhotoCount).toBe(2);
+    expect(result.location).toMatchObject({ id: TARGET_ID, accessInfo: "駅から徒歩 5 分" });
+    expect(tx.location.update).toHaveBeenCalledWith({
+      where: { id: TARGET_ID },
+      data: { accessInfo: "駅から徒歩 5 分" },
+    });
+  });
+});
+
+type RangeFilter = { gte?: number; lte?: number };
+type SpatialWhere = {
+  AND?: SpatialWhere[];
+  OR?: SpatialWhere[];
+  [field: string]: RangeFilter | SpatialWhere[] | undefined;
+};
+
+/**
+ * 範囲検索で使う Prisma の条件（AND・OR・gte・lte）をメモリ上で評価する
+ * Prisma と同じく undefined の条件は無視する
+ */
+const matchesSpatialWhere = (row: Record<string, unknown>, where: SpatialWhere): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === "AND") return (condition as SpatialWhere[]).every((c) => matchesSpatialWhere(row, c));
+    if (key === "OR") return (condition as SpatialWhere[]).some((c) => matchesSpatialWhere(row, c));
+    const { gte, lte } = condition as RangeFilter;
+    const value = row[key] as number;
+    return (gte === undefined || value >= gte) && (lte === undefined || value <= lte);
+  });
+
+describe("PrismaLocationRepository.findBySpatialQuery", () => {
+  // スカイツリー（35.7101, 139.8107）の周辺。方位角は地点からスカイツリーを見る向き
+  const rows = [
+    { ...createLocationRow(1), latitude: 35.75, longitude: 139.81, azimuthToSkytree: 181, distanceToSkytree: 4400 },
+    { ...createLocationRow(2), latitude: 35.67, longitude: 139.81, azimuthToSkytree: 359, distanceToSkytree: 4500 },
+    { ...createLocationRow(3), latitude: 35.67, longitude: 139.8, azimuthToSkytree: 8, distanceToSkytree: 4600 },
+    { ...createLocationRow(4), latitude: 35.71, longitude: 139.86, azimuthToSkytree: 270, distanceToSkytree: 4400 },
+    { ...createLocationRow(5), latitude: 35.67, longitude: 139.86, azimuthToSkytree: 320, distanceToSkytree: 7000 },
+    { ...createLocationRow(6), latitude: 35.71, longitude: 139.7, azimuthToSkytree: 90, distanceToSkytree: 10000 },
+  ];
+
+  const search = async (query: Parameters<PrismaLocationRepository["findBySpatialQuery"]>[0]) => {
+    const findMany = jest.fn(async ({ where }: { where: SpatialWhere }) =>
+      rows
+        .filter((row) => matchesSpatialWhere(row, where))
+        .sort((a, b) => a.distanceToSkytree - b.distanceToSkytree),
+    );
+    const repository = new PrismaLocationRepository();
+    Object.assign(repository, { prisma: { location: { findMany } } });
+    const locations = await repository.findBySpatialQuery(query);
+    return { ids: locations.map((location) => location.id), where: findMany.mock.calls[0][0].where };
+  };
+
+  it("北（0 度）をまたぐ方位角の扇形は 2 つの範囲の OR で検索する", async () => {
+    const { ids, where } = await search({ azimuthToSkytree: { from: 350, to: 10 } });
+
+    expect(ids).toEqual([2, 3]);
+    expect(where.AND).toEqual([
+      { OR: [{ azimuthToSkytree: { gte: 350 } }, { azimuthToSkytree: { lte: 10 } }] },
+    ]);
+  });
+
+  it("北をまたがない扇形は 1 つの範囲で検索する", async () => {
+    const { ids } = await search({ azimuthToSkytree: { from: 170, to: 280 } });
+
+    expect(ids).toEqual([1, 4]);
+  });
+
+  it("中心と半径は円に外接する範囲で絞り込み、円の外側の角の地点も返す（半径での絞り込みはサービスで行う）", async () => {
+    // 半径 5km の外接範囲は緯度 ±0.0449 度・経度 ±0.0553 度。地点 5 は角にあり、中心から約 6.3km
+    const { ids } = await search({
+      center: { latitude: 35.71, longitude: 139.81, radiusMeters: 5000 },
+    });
+
+    expect(ids).toEqual([1, 4, 2, 3, 5]);
+  });
+
+  it("経度 180 度をまたぐ範囲・距離の下限のみの条件も検索できる", async () => {
+    const crossing = await search({ bounds: { south: 35, west: 139.75, north: 36, east: -179 } });
+    expect(crossing.ids).toEqual([1, 4, 2, 3, 5]);
+
+    const far = await search({ distanceToSkytree: { min: 5000 } });
+    expect(far.ids).toEqual([5, 6]);
+  });
+});
@@ -16,6 +16,13 @@ export interface CalendarRepository {
     year: number,
   ): Promise<SkytreeEvent[]>;
 
+  // 期間内のイベント取得（地点指定時はその地点のみ）
+  getEventsInRange(
+    startTime: Date,
+    endTime: Date,
+    locationId?: number,
+  ): Promise<SkytreeEvent[]>;
+
   // カレンダー統計情報取得
   getCalendarStats(year: number): Promise<CalendarStats>;
 
@@ -0,0 +1,58 @@
+import { LocationPhotoCategory } from "@skytree-photo-planner/types";
+
+/**
+ * 保存済みの参考写真（ファイルはストレージのキーで参照する）
+ */
+export interface LocationPhotoRecord {
+  id: number;
+  locationId: number;
+  category: LocationPhotoCategory;
+  caption: string | null;
+  storageKey: string;
+  thumbnailKey: string;
+  contentType: string;
+  fileSize: number;
+  width: number;
+  height: number;
+  takenAt: Date | null;
+  gpsLatitude: number | null;
+  gpsLongitude: number | null;
+  createdAt: Date;
+}
+
+/**
+ * 参考写真の保存データ（ID・作成日時は保存時に決まる）
+ */
+export type LocationPhotoInput = Omit<LocationPhotoRecord, "id" | "createdAt">;
+
+export interface LocationPhotoRepository {
+  /**
+   * 地点の参考写真を登録順に取得する
+   * @param locationId 地点 ID
+   */
+  findByLocationId(locationId: number): Promise<LocationPhotoRecord[]>;
+
+  /**
+   * ID で参考写真を取得する
+   * @returns 存在しない場合は null
+   */
+  findById(id: number): Promise<LocationPhotoRecord | null>;
+
+  /**
+   * 参考写真を登録する
+   */
+  create(photo: LocationPhotoInput): Promise<LocationPhotoRecord>;
+
+  /**
+   * 種類・説明を更新する
+   */
+  update(
+    id: number,
+    data: Partial<Pick<LocationPhotoRecord, "category" | "caption">>,
+  ): Promise<LocationPhotoRecord>;
+
+  /**
+   * 参考写真を削除する（ファイルの削除は呼び出し側で行う）
+   */
+  delete(id: number): Promise<void>;
+}
@@ -1,4 +1,24 @@
 import { Location, CreateLocationRequest } from "@skytree-photo-planner/types";
+import type { LocationSpatialQuery, LocationStatus } from "@skytree-photo-planner/types";
+
+/**
+ * インポートで書き込む撮影地点の項目（説明などの任意項目は null で消去）
+ */
+export interface LocationImportData {
+  name: string;
+  prefecture: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  status?: LocationStatus;
+  description?: string | null;
+  accessInfo?: string | null;
+  parkingInfo?: string | null;
+  measurementNotes?: string | null;
+  azimuthToSkytree: number;
+  elevationToSkytree: number;
+  distanceToSkytree: number;
+}
 
 /**
  * Location リポジトリインターフェース
@@ -57,6 +77,38 @@ export interface LocationRepository {
     },
   ): Promise<void>;
 
+  /**
+   * 複数の撮影地点の作成・更新を 1 つのトランザクションで反映
+   * 1 件でも失敗した場合はすべて取り消す
+   */
+  importBatch(operations: {
+    creates: LocationImportData[];
+    updates: Array<{ id: number; data: Partial<LocationImportData> }>;
+  }): Promise<{ created: Location[]; updated: Location[] }>;
+
+  /**
+   * 統合元の地点を統合先にまとめる（1 つのトランザクションで反映）
+   * 統合元のイベント・除外候補・参考写真を統合先に付け替え、統合先に同じものがある場合は統合元の分を削除する。
+   * fill の項目で統合先を更新した後、統合元を削除する
+   */
+  merge(
+    sourceId: number,
+    targetId: number,
+    fill: Partial<Pick<LocationImportData, "description" | "accessInfo" | "parkingInfo" | "measurementNotes">>,
+  ): Promise<{
+    location: Location;
+    movedEventCount: number;
+    droppedEventCount: number;
+    movedRejectionCount: number;
+    movedPhotoCount: number;
+  }>;
+
+  /**
+   * 範囲条件で撮影地点を絞り込む
+   * 円の条件は外接する緯度・経度の範囲で絞るだけなので、正確な距離での判定は呼び出し側で行う
+   */
+  findBySpatialQuery(query: LocationSpatialQuery): Promise<Location[]>;
+
   /**
    * 条件に基づいて撮影地点を検索
    */
@@ -0,0 +1,58 @@
+import { LocationRequest, LocationRequestStatus } from "@skytree-photo-planner/types";
+
+/**
+ * 追加リクエストの保存データ（審査状態・ID・作成日時は保存時に決まる）
+ */
+export type LocationRequestInput = Pick<
+  LocationRequest,
+  "name" | "prefecture" | "description" | "suggestedLatitude" | "suggestedLongitude" | "requesterIp"
+>;
+
+/**
+ * 審査結果（承認の場合は作成した地点の ID を記録する）
+ */
+export interface LocationRequestDecision {
+  status: Exclude<LocationRequestStatus, "pending">;
+  processedBy: number;
+  locationId?: number;
+}
+
+export interface LocationRequestRepository {
+  /**
+   * 追加リクエストを登録する
+   */
+  create(request: LocationRequestInput): Promise<LocationRequest>;
+
+  /**
+   * ID で追加リクエストを取得する
+   * @returns 存在しない場合は null
+   */
+  findById(id: number): Promise<LocationRequest | null>;
+
+  /**
+   * 追加リクエストを取得する（未審査は古い順、審査済みは新しい順）
+   * @param status 指定しない場合はすべて
+   */
+  findByStatus(status?: LocationRequestStatus): Promise<LocationRequest[]>;
+
+  /**
+   * 審査状態ごとの件数
+   */
+  countByStatus(): Promise<Record<LocationRequestStatus, number>>;
+
+  /**
+   * 未審査の場合のみ審査結果を記録する（同時に審査された場合に二重に処理しないため）
+   * @returns 既に審査済みの場合は null
+   */
+  decideIfPending(id: number, decision: LocationRequestDecision): Promise<LocationRequest | null>;
+
+  /**
+   * 承認を取り消して未審査に戻す（地点の作成に失敗した場合に使う）
+   */
+  revertToPending(id: number): Promise<void>;
+
+  /**
+   * 承認で作成した地点の ID を記録する
+   */
+  setLocationId(id: number, locationId: number): Promise<LocationRequest>;
+}
@@ -0,0 +1,30 @@
+import { PearlRejection } from "@skytree-photo-planner/types";
+
+/**
+ * 除外候補の保存データ（ID・作成日時・地点名は保存時に決まる）
+ */
+export type PearlRejectionInput = Omit<
+  PearlRejection,
+  "id" | "locationName" | "createdAt"
+>;
+
+export interface PearlRejectionRepository {
+  /**
+   * 除外候補を作成または更新する
+   * 同じ地点・時刻・種別の候補は最新の判定結果で上書きする
+   * @param rejection 除外候補
+   */
+  upsert(rejection: PearlRejectionInput): Promise<void>;
+
+  /**
+   * 除外候補を新しい順に取得する
+   * @param query 地点・期間・件数の絞り込み条件
+   * @returns 除外候補のリスト（地点名付き）
+   */
+  findMany(query: {
+    locationId?: number;
+    from?: Date;
+    to?: Date;
+    limit: number;
+  }): Promise<PearlRejection[]>;
+}
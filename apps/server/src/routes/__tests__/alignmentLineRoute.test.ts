@@ -0,0 +1,53 @@
+import type { AlignmentLine } from "@skytree-photo-planner/types";
+import { AlignmentLineCalculator } from "../../services/astronomical/AlignmentLineCalculator";
+import { RefractionCalculator } from "../../services/astronomical/RefractionCalculator";
+import type { ISystemSettingsService } from "../../services/interfaces/ISystemSettingsService";
+import { captureRoutes, invokeRoute } from "./routeTestUtils";
+
+jest.mock("../../database/prisma", () => ({
+  PrismaClientManager: { getInstance: () => ({}) },
+}));
+
+const ROUTE = "POST /api/map-search/alignment-line";
+
+const createRoutes = () => {
+  const settingsService = {
+    getRefractionSettings: async () => RefractionCalculator.DEFAULT_SETTINGS,
+  } as unknown as ISystemSettingsService;
+  return captureRoutes({
+    AlignmentLineCalculator: new AlignmentLineCalculator(settingsService),
+  });
+};
+
+describe("POST /api/map-search/alignment-line", () => {
+  it("指定日・時間帯の整列線を返す", async () => {
+    const response = await invokeRoute(createRoutes(), ROUTE, {
+      body: { date: "2026-01-20", scene: "diamond", startTime: "15:00", endTime: "16:00", stepMinutes: 10 },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const { line } = response.body as { line: AlignmentLine };
+    expect(line).toMatchObject({ date: "2026-01-20", type: "diamond", stepMinutes: 10 });
+    expect(line.points.map((point) => point.time.toISOString())).toEqual([
+      "2026-01-20T06:00:00.000Z",
+      "2026-01-20T06:10:00.000Z",
+      "2026-01-20T06:20:00.000Z",
+      "2026-01-20T06:30:00.000Z",
+      "2026-01-20T06:40:00.000Z",
+      "2026-01-20T06:50:00.000Z",
+      "2026-01-20T07:00:00.000Z",
+    ]);
+  });
+
+  it.each([
+    { name: "日付の形式", body: { date: "2026/01/20", scene: "diamond" } },
+    { name: "scene", body: { date: "2026-01-20", scene: "sun" } },
+    { name: "時間帯の順序", body: { date: "2026-01-20", scene: "pearl", startTime: "18:00", endTime: "06:00" } },
+    { name: "stepMinutes の範囲", body: { date: "2026-01-20", scene: "pearl", stepMinutes: 60 } },
+  ])("$name が不正な場合は 400", async ({ body }) => {
+    const response = await invokeRoute(createRoutes(), ROUTE, { body });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.body).toMatchObject({ success: false });
+  });
+});
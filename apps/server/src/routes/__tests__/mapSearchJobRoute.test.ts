@@ -0,0 +1,61 @@
+import { mapSearchJobRateLimit } from "../../middleware/auth";
+import { captureRoutes, invokeRoute } from "./routeTestUtils";
+
+jest.mock("../../database/prisma", () => ({
+  PrismaClientManager: { getInstance: () => ({}) },
+}));
+
+describe("地図検索のルート", () => {
+  it("同期の地図検索は登録せず、検索はレート制限付きのジョブ登録のみ受け付ける", () => {
+    const routes = captureRoutes();
+
+    expect(routes.has("POST /api/map-search")).toBe(false);
+    expect(routes.get("POST /api/map-search/jobs")?.[0]).toBe(mapSearchJobRateLimit);
+  });
+
+  it("キューが利用できない場合は 503 を返す", async () => {
+    const queueService = { scheduleMapSearch: jest.fn().mockResolvedValue(null) };
+    const routes = captureRoutes({ QueueService: queueService });
+
+    const response = await invokeRoute(routes, "POST /api/map-search/jobs", {
+      body: {
+        latitude: 35.6586,
+        longitude: 139.7454,
+        startDate: "2026-10-19T00:00:00.000Z",
+        endDate: "2027-10-19T00:00:00.000Z",
+      },
+    });
+
+    expect(queueService.scheduleMapSearch).toHaveBeenCalledTimes(1);
+    expect(response.statusCode).toBe(503);
+    expect(response.body).toMatchObject({ success: false });
+  });
+
+  it.each([
+    { name: "頂点が 2 個のみ", polygon: [{ latitude: 35.75, longitude: 139.8 }, { latitude: 35.77, longitude: 139.8 }] },
+    { name: "頂点が配列でない", polygon: { latitude: 35.75, longitude: 139.8 } },
+    {
+      name: "頂点の座標が数値でない",
+      polygon: [
+        { latitude: 35.75, longitude: 139.8 },
+        { latitude: 35.77, longitude: 139.8 },
+        { latitude: "north", longitude: 139.83 },
+      ],
+    },
+  ])("おすすめ地点の範囲が不正な場合（$name）は 400 を返し、ジョブを登録しない", async ({ polygon }) => {
+    const queueService = { scheduleRegionRecommendation: jest.fn() };
+    const routes = captureRoutes({ QueueService: queueService });
+
+    const response = await invokeRoute(routes, "POST /api/map-search/jobs", {
+      body: {
+        polygon,
+        startDate: "2026-01-01T00:00:00.000Z",
+        endDate: "2026-01-31T00:00:00.000Z",
+      },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.body).toMatchObject({ success: false });
+    expect(queueService.scheduleRegionRecommendation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import type { Express, Request, Response } from "express";
+import type { DIContainer } from "../../di/DIContainer";
+import { setupRoutes } from "../index";
+
+type Handler = (req: Request, res: Response, next: () => void) => unknown;
+
+export interface CapturedResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+/**
+ * setupRoutes が登録したルートを「メソッド パス」ごとに記録する（HTTP サーバーは起動しない）
+ * services にないサービスは呼び出しても何もしない代替を返す
+ */
+export const captureRoutes = (services: Record<string, unknown> = {}): Map<string, Handler[]> => {
+  const routes = new Map<string, Handler[]>();
+  const register =
+    (method: string) =>
+    (path: unknown, ...handlers: Handler[]) => {
+      if (typeof path === "string") {
+        routes.set(`${method} ${path}`, handlers);
+      }
+      return app;
+    };
+  const app = {
+    get: register("GET"),
+    post: register("POST"),
+    put: register("PUT"),
+    patch: register("PATCH"),
+    delete: register("DELETE"),
+    use: register("USE"),
+  };
+  const noop = new Proxy({}, { get: () => () => undefined });
+  const container = {
+    resolve: (name: string) => (name in services ? services[name] : noop),
+  };
+
+  setupRoutes(app as unknown as Express, container as unknown as DIContainer);
+  return routes;
+};
+
+/**
+ * ルートの最後のハンドラー（ミドルウェアを除く本体）を呼び出してレスポンスを返す
+ */
+export const invokeRoute = async (
+  routes: Map<string, Handler[]>,
+  route: string,
+  req: { body?: unknown; params?: Record<string, string>; query?: Record<string, unknown> },
+): Promise<CapturedResponse> => {
+  const handlers = routes.get(route);
+  if (!handlers) {
+    throw new Error(`${route} は登録されていません`);
+  }
+
+  const captured: CapturedResponse = { statusCode: 200, body: undefined };
+  const res = {
+    status(code: number) {
+      captured.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      captured.body = body;
+      return res;
+    },
+  };
+  await handlers[handlers.length - 1](
+    { params: {}, query: {}, ...req } as unknown as Request,
+    res as unknown as Response,
+    () => undefined,
+  );
+  return captured;
+};
@@ -1,8 +1,12 @@
-import { Express, Request, Response } from "express";
+import { Express, NextFunction, Request, Response } from "express";
+import multer from "multer";
 import { AuthenticatedRequest } from "../middleware/auth";
 import path from "path";
 import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type { MapComparisonPoint } from "@skytree-photo-planner/types";
 import LocationController from "../controllers/LocationController";
+import { LocationPhotoController } from "../controllers/LocationPhotoController";
+import { LocationRequestController } from "../controllers/LocationRequestController";
 import { CalendarController } from "../controllers/CalendarController";
 import { AuthController } from "../controllers/AuthController";
 import { BackgroundJobController } from "../controllers/BackgroundJobController";
@@ -10,16 +14,61 @@ import {
   authenticateAdmin,
   authRateLimit,
   adminApiRateLimit,
+  locationRequestRateLimit,
+  alignmentTargetRateLimit,
+  mapSearchJobRateLimit,
 } from "../middleware/auth";
 import { DIContainer } from "../di/DIContainer";
 import { createSystemSettingsRouter } from "./systemSettings";
 import { QueueService } from "../services/interfaces/QueueService";
 import { LocationRepository } from "../repositories/interfaces/LocationRepository";
-import { SkytreeEvent } from "@skytree-photo-planner/types";
-import { SkytreeAlignmentCalculator } from "../services/astronomical/SkytreeAlignmentCalculator";
+import { MapSearchService } from "../services/MapSearchService";
+import { RedisService } from "../services/RedisService";
+import type { MapCompareParams, MapSearchParams } from "../services/MapSearchService";
+import { RegionRecommendationService } from "../services/RegionRecommendationService";
+import type { RegionRecommendationParams } from "../services/RegionRecommendationService";
+import { AlignmentLineCalculator } from "../services/astronomical/AlignmentLineCalculator";
+import { AlignmentTargetService } from "../services/AlignmentTargetService";
+import { PearlRejectionService } from "../services/PearlRejectionService";
+import { LocationPhotoService } from "../services/LocationPhotoService";
 
 const serverLogger = getComponentLogger("server");
 
+// 参考写真のアップロード（multipart/form-data の photo フィールドをメモリ上で受け取る）
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: LocationPhotoService.MAX_FILE_SIZE, files: 1 },
+}).single("photo");
+
+function handlePhotoUpload(req: Request, res: Response, next: NextFunction): void {
+  photoUpload(req, res, (error: unknown) => {
+    if (!error) {
+      next();
+      return;
+    }
+    const tooLarge = error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE";
+    res.status(tooLarge ? 413 : 400).json({
+      success: false,
+      error: "Upload error",
+      message: tooLarge
+        ? `ファイルサイズは ${LocationPhotoService.MAX_FILE_SIZE / 1024 / 1024}MB 以下にしてください。`
+        : "写真のアップロードに失敗しました。",
+    });
+  });
+}
+
+// 地図検索ジョブの進捗を送信する間隔
+const MAP_SEARCH_PROGRESS_INTERVAL_MS = 1000;
+
+// 地図検索ジョブのトークン（EventSource はヘッダーを送れないため、クエリの token も受け付ける）
+function getMapSearchToken(req: Request): string | undefined {
+  const header = req.get("X-Map-Search-Token");
+  if (header) {
+    return header;
+  }
+  return typeof req.query.token === "string" ? req.query.token : undefined;
+}
+
 export function setupRoutes(app: Express, container: DIContainer): void {
   // コントローラーのインスタンス化（DI コンテナから取得）
   const locationController = container.resolve(
@@ -31,6 +80,12 @@ export function setupRoutes(app: Express, container: DIContainer): void {
   const authController = container.resolve(
     "AuthController",
   ) as AuthController;
+  const locationPhotoController = container.resolve(
+    "LocationPhotoController",
+  ) as LocationPhotoController;
+  const locationRequestController = container.resolve(
+    "LocationRequestController",
+  ) as LocationRequestController;
   const backgroundJobController = new BackgroundJobController(container);
 
   // ヘルスチェック
@@ -70,6 +125,25 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     },
   );
 
+  // 管理者向けキャッシュ統計（地図検索キャッシュのヒット・ミス数を含む）
+  app.get(
+    "/api/admin/cache/stats",
+    authenticateAdmin,
+    async (req: Request, res: Response) => {
+      try {
+        const redisService = container.resolve("RedisService") as RedisService | null;
+        if (!redisService) {
+          return res.json({ enabled: false });
+        }
+        const stats = await redisService.getCacheStats();
+        res.json({ enabled: true, ...stats });
+      } catch (error) {
+        serverLogger.error("キャッシュ統計取得エラー", error);
+        res.status(500).json({ error: "Failed to get cache stats" });
+      }
+    },
+  );
+
   // 同時実行数の取得
   app.get(
     "/api/admin/queue/concurrency",
@@ -253,6 +327,37 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     "/api/locations/:id",
     locationController.getLocation.bind(locationController),
   );
+  app.get(
+    "/api/locations/:id/timeline/:date",
+    locationController.getLocationTimeline.bind(locationController),
+  );
+  app.get(
+    "/api/locations/:id/sky-track",
+    locationController.getSkyTrack.bind(locationController),
+  );
+  app.get(
+    "/api/locations/:id/shoot-plan",
+    locationController.getShootPlan.bind(locationController),
+  );
+  app.get(
+    "/api/locations/:id/photos",
+    locationPhotoController.getPhotos.bind(locationPhotoController),
+  );
+  // 参考写真のファイル配信（ローカル保存）
+  app.get(
+    "/api/photos/*",
+    locationPhotoController.serveFile.bind(locationPhotoController),
+  );
+  // 撮影地点の追加リクエスト（一般公開、管理者の審査後に地点を作成する）
+  app.get(
+    "/api/location-requests/config",
+    locationRequestController.getConfig.bind(locationRequestController),
+  );
+  app.post(
+    "/api/location-requests",
+    locationRequestRateLimit,
+    locationRequestController.submitRequest.bind(locationRequestController),
+  );
   app.post(
     "/api/locations",
     locationController.createLocation.bind(locationController),
@@ -269,18 +374,31 @@ export function setupRoutes(app: Express, container: DIContainer): void {
   // イベント API
   app.get(
     "/api/calendar/:year/:month",
+    alignmentTargetRateLimit,
     calendarController.getMonthlyCalendar.bind(calendarController),
   );
   app.get(
     "/api/events/:date",
+    alignmentTargetRateLimit,
     calendarController.getDayEvents.bind(calendarController),
   );
   app.get(
     "/api/events/upcoming",
     calendarController.getUpcomingEvents.bind(calendarController),
   );
+  // ICS フィード（.ics なしの JSON のルートより先に登録する）
+  app.get(
+    "/api/calendar/location/:locationId/:year.ics",
+    alignmentTargetRateLimit,
+    calendarController.getLocationYearlyIcs.bind(calendarController),
+  );
+  app.get(
+    "/api/calendar/feed.ics",
+    calendarController.getEventFeedIcs.bind(calendarController),
+  );
   app.get(
     "/api/calendar/location/:locationId/:year",
+    alignmentTargetRateLimit,
     calendarController.getLocationYearlyEvents.bind(calendarController),
   );
   app.get(
@@ -288,206 +406,347 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     calendarController.getCalendarStats.bind(calendarController),
   );
 
-  // 地図検索 API
+  // 整列判定の目標点一覧
+  app.get("/api/alignment-targets", async (req: Request, res: Response) => {
+    try {
+      const alignmentTargetService = container.resolve(
+        "AlignmentTargetService",
+      ) as AlignmentTargetService;
+      const targets = await alignmentTargetService.getTargets();
+      res.json({
+        targets,
+        maxCustomHeight: AlignmentTargetService.MAX_TARGET_HEIGHT,
+      });
+    } catch (error) {
+      serverLogger.error("目標点一覧取得エラー", error as Error);
+      res.status(500).json({ error: "Failed to get alignment targets" });
+    }
+  });
+
+  // 地図検索ジョブの進捗・結果の取得と中断は、登録時に返したトークンを持つ登録者のみ
+  const requireMapSearchToken = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const queueService = container.resolve("QueueService") as QueueService;
+      if (!(await queueService.verifyMapSearchToken(req.params.jobId, getMapSearchToken(req)))) {
+        return res.status(403).json({
+          success: false,
+          error: "Forbidden",
+          message: "地図検索ジョブのトークンが正しくありません",
+        });
+      }
+      next();
+    } catch (error) {
+      serverLogger.error("地図検索ジョブのトークン検証エラー", error as Error);
+      res.status(500).json({
+        success: false,
+        message: "地図検索ジョブのトークン検証中にエラーが発生しました",
+      });
+    }
+  };
+
+  // 地図検索ジョブの登録（points を指定した場合は比較検索、polygon を指定した場合はおすすめ地点のジョブ）
   app.post(
-    "/api/map-search",
+    "/api/map-search/jobs",
+    mapSearchJobRateLimit,
     async (req: Request, res: Response) => {
       try {
-        const {
-          latitude,
-          longitude,
-          elevation = 0,
-          scene = "all",
-          searchMode = "auto",
-          startDate,
-          endDate,
-        } = req.body;
-
-        // バリデーション
-        if (!latitude || !longitude || !startDate || !endDate) {
+        const parsed =
+          req.body?.polygon !== undefined
+            ? await parseRegionRecommendationRequest(req.body, container)
+            : req.body?.points !== undefined
+              ? await parseMapCompareRequest(req.body, container)
+              : await parseMapSearchRequest(req.body, container);
+        if ("message" in parsed) {
           return res.status(400).json({
             success: false,
-            message: "緯度、経度、開始日、終了日は必須です",
+            message: parsed.message,
           });
         }
 
-        // 日付範囲チェック（検索モードに応じた制限）
-        const start = new Date(startDate);
-        const end = new Date(endDate);
-        const daysDiff = (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24);
-        
-        // 最大範囲制限（全モード共通: 3 年）
-        if (daysDiff > 1095) { // 3 年 = 365 * 3
-          return res.status(400).json({
+        // 各サービスを解決して QueueService に注入されることを保証
+        container.resolve("MapSearchService");
+        container.resolve("RegionRecommendationService");
+        const queueService = container.resolve("QueueService") as QueueService;
+        const { params } = parsed;
+        const job =
+          "polygon" in params
+            ? await queueService.scheduleRegionRecommendation(params)
+            : "points" in params
+              ? await queueService.scheduleMapCompare(params)
+              : await queueService.scheduleMapSearch(params);
+        if (!job) {
+          return res.status(503).json({
             success: false,
-            message: "検索範囲は最大 3 年以内で指定してください",
+            message: "キューが利用できないため地図検索ジョブを登録できません",
           });
         }
 
-        // 高精度モードの場合は 3 ヶ月制限
-        if (searchMode === "precise" && daysDiff > 90) {
+        res.status(202).json({
+          success: true,
+          jobId: job.jobId,
+          token: job.token,
+        });
+      } catch (error) {
+        serverLogger.error("地図検索ジョブ登録 API エラー", error as Error);
+        res.status(500).json({
+          success: false,
+          message: "地図検索ジョブの登録中にエラーが発生しました",
+        });
+      }
+    }
+  );
+
+  // 地図検索ジョブの進捗（Server-Sent Events）
+  app.get(
+    "/api/map-search/jobs/:jobId/events",
+    requireMapSearchToken,
+    async (req: Request, res: Response) => {
+      const { jobId } = req.params;
+      const queueService = container.resolve("QueueService") as QueueService;
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      const send = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      let closed = false;
+      let timer: NodeJS.Timeout | null = null;
+      const close = () => {
+        closed = true;
+        if (timer) {
+          clearTimeout(timer);
+        }
+        res.end();
+      };
+      req.on("close", close);
+
+      // 状態をポーリングして、進捗と終了（completed / failed / cancelled）を送信
+      const poll = async () => {
+        try {
+          const status = await queueService.getMapSearchJobStatus(jobId);
+          if (closed) return;
+          if (!status) {
+            send("error", { message: "地図検索ジョブが見つかりません" });
+            return close();
+          }
+
+          send("progress", status);
+          if (status.state === "completed" || status.state === "failed" || status.state === "cancelled") {
+            send(status.state, status);
+            return close();
+          }
+        } catch (error) {
+          serverLogger.error("地図検索ジョブ進捗取得エラー", error as Error, { jobId });
+          send("error", { message: "地図検索ジョブの進捗を取得できませんでした" });
+          return close();
+        }
+        timer = setTimeout(poll, MAP_SEARCH_PROGRESS_INTERVAL_MS);
+      };
+      await poll();
+    }
+  );
+
+  // 地図検索ジョブの結果（ページ単位）
+  app.get(
+    "/api/map-search/jobs/:jobId/results",
+    requireMapSearchToken,
+    async (req: Request, res: Response) => {
+      try {
+        const { jobId } = req.params;
+        const page = req.query.page !== undefined ? parseInt(req.query.page as string) : 1;
+        const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string) : 50;
+        if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1 || limit > 200) {
           return res.status(400).json({
             success: false,
-            message: "高精度モードの検索範囲は最大 3 ヶ月以内で指定してください",
+            message: "page は 1 以上、limit は 1〜200 の範囲で指定してください",
           });
         }
 
-        // 長期間検索の場合は警告ログ
-        if (daysDiff > 365) {
-          serverLogger.warn("長期間検索実行", {
-            daysDiff,
-            searchMode,
-            latitude,
-            longitude,
-            estimatedProcessingTime: `約${Math.ceil(daysDiff / 7)}分`
+        const queueService = container.resolve("QueueService") as QueueService;
+        const status = await queueService.getMapSearchJobStatus(jobId);
+        if (!status) {
+          return res.status(404).json({
+            success: false,
+            message: "地図検索ジョブが見つかりません",
           });
         }
+        if (status.kind === "region") {
+          const recommendation =
+            status.state === "completed"
+              ? await queueService.getRegionRecommendationResults(jobId)
+              : null;
+          if (!recommendation) {
+            return res.status(409).json({
+              success: false,
+              message: "地図検索ジョブが完了していません",
+              state: status.state,
+            });
+          }
 
-        // 一時的な仮想地点を作成
-        const virtualLocation = {
-          id: -999999, // 一意な負の値
-          name: "地図検索地点",
-          prefecture: "検索地点",
-          latitude: parseFloat(latitude),
-          longitude: parseFloat(longitude),
-          elevation: parseFloat(elevation) || 0,
-          distanceToSkytree: null,
-          azimuthToSkytree: null,
-          elevationToSkytree: null,
-          description: "地図検索による一時地点",
-          accessInfo: null,
-          parkingInfo: null,
-          measurementNotes: null,
-          status: "active" as const,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-
-        // スカイツリー計算サービスを取得
-        const skytreeAlignmentCalculator = container.resolve("SkytreeAlignmentCalculator") as SkytreeAlignmentCalculator;
-        
-        const events = [];
-        const currentDate = new Date(start);
-        const endDateTime = new Date(end);
-
-        // 検索モードに応じた精度設定（検索間隔は全て 1 日単位で統一）
-        const searchInterval = 1; // 全モード共通で日単位検索
-        let precisionSettings: { searchInterval: number; toleranceLevel: "high" | "medium" | "low" };
-        
-        switch (searchMode) {
-          case "fast":
-            precisionSettings = {
-              searchInterval: 300, // 5 分間隔（低精度・高速）
-              toleranceLevel: "low"
-            };
-            break;
-          case "balanced":
-            precisionSettings = {
-              searchInterval: 60, // 1 分間隔（中精度・中速）
-              toleranceLevel: "medium"
-            };
-            break;
-          case "precise":
-            precisionSettings = {
-              searchInterval: 10, // 10 秒間隔（高精度・低速）
-              toleranceLevel: "high"
-            };
-            break;
-          case "auto":
-            // 期間に応じて自動選択（精度のみ調整、検索間隔は 1 日固定）
-            if (daysDiff > 730) { // 2 年以上
-              precisionSettings = { searchInterval: 300, toleranceLevel: "low" };
-            } else if (daysDiff > 180) { // 6 ヶ月以上
-              precisionSettings = { searchInterval: 120, toleranceLevel: "medium" };
-            } else {
-              precisionSettings = { searchInterval: 30, toleranceLevel: "high" };
-            }
-            break;
-          default:
-            precisionSettings = { searchInterval: 60, toleranceLevel: "medium" };
+          return res.json({
+            success: true,
+            recommendation,
+          });
         }
 
-        // 日付ループで検索実行
-        while (currentDate <= endDateTime) {
-          try {
-            // 撮影シーンに応じてイベント検索
-            if (scene === "all" || scene === "diamond") {
-              const diamondEvents = await skytreeAlignmentCalculator.findDiamondSkytree(
-                new Date(currentDate),
-                virtualLocation,
-                precisionSettings
-              );
-              events.push(...diamondEvents);
-            }
-
-            if (scene === "all" || scene === "pearl") {
-              const pearlEvents = await skytreeAlignmentCalculator.findPearlSkytree(
-                new Date(currentDate),
-                virtualLocation,
-                precisionSettings
-              );
-              events.push(...pearlEvents);
-            }
-          } catch (error) {
-            serverLogger.warn("地図検索での日付処理エラー", {
-              error: error as Error,
-              date: currentDate.toISOString(),
-              latitude,
-              longitude,
+        if (status.kind === "compare") {
+          // 比較検索ジョブは比較表の行（日付）単位でページ分割
+          const compareResults =
+            status.state === "completed"
+              ? await queueService.getMapCompareResults(jobId, page, limit)
+              : null;
+          if (!compareResults) {
+            return res.status(409).json({
+              success: false,
+              message: "地図検索ジョブが完了していません",
+              state: status.state,
             });
           }
 
-          // 次の日付へ
-          currentDate.setDate(currentDate.getDate() + searchInterval);
+          return res.json({
+            success: true,
+            comparison: compareResults.comparison,
+            pagination: {
+              page: compareResults.page,
+              limit: compareResults.limit,
+              total: compareResults.total,
+              totalPages: compareResults.totalPages,
+            },
+          });
         }
 
-        // 高度レンジ × 昇る/沈む × イベントタイプでグループ化して、各グループで最も精度の良いものを選択
-        const filteredEvents = filterEventsByElevationRange(events);
+        const results =
+          status.state === "completed"
+            ? await queueService.getMapSearchResults(jobId, page, limit)
+            : null;
+        if (!results) {
+          return res.status(409).json({
+            success: false,
+            message: "地図検索ジョブが完了していません",
+            state: status.state,
+          });
+        }
 
-        // 結果をソート（時間順）
-        const sortedEvents = filteredEvents.sort((a, b) => 
-          new Date(a.time).getTime() - new Date(b.time).getTime()
-        );
+        res.json({
+          success: true,
+          events: results.events,
+          searchParams: results.searchParams,
+          pagination: {
+            page: results.page,
+            limit: results.limit,
+            total: results.total,
+            totalPages: results.totalPages,
+          },
+          metadata: {
+            totalEvents: results.total,
+            searchInterval: results.searchInterval,
+          },
+        });
+      } catch (error) {
+        serverLogger.error("地図検索ジョブ結果取得 API エラー", error as Error);
+        res.status(500).json({
+          success: false,
+          message: "地図検索ジョブの結果取得中にエラーが発生しました",
+        });
+      }
+    }
+  );
 
-        // 最大 100 件に制限
-        const limitedEvents = sortedEvents.slice(0, 100);
+  // 地図検索ジョブの中断
+  app.delete(
+    "/api/map-search/jobs/:jobId",
+    requireMapSearchToken,
+    async (req: Request, res: Response) => {
+      try {
+        const queueService = container.resolve("QueueService") as QueueService;
+        const cancelled = await queueService.cancelMapSearch(req.params.jobId);
+        if (!cancelled) {
+          return res.status(404).json({
+            success: false,
+            message: "中断できる地図検索ジョブが見つかりません",
+          });
+        }
 
-        serverLogger.info("地図検索完了", {
-          latitude,
-          longitude,
-          elevation,
+        res.json({ success: true });
+      } catch (error) {
+        serverLogger.error("地図検索ジョブ中断 API エラー", error as Error);
+        res.status(500).json({
+          success: false,
+          message: "地図検索ジョブの中断中にエラーが発生しました",
+        });
+      }
+    }
+  );
+
+  // 整列線 API（日付から撮影地点を求める逆検索）
+  app.post(
+    "/api/map-search/alignment-line",
+    async (req: Request, res: Response) => {
+      try {
+        const {
+          date,
           scene,
-          searchMode,
-          searchInterval,
-          dateRange: `${start.toISOString()} - ${end.toISOString()}`,
-          totalEvents: limitedEvents.length,
+          startTime,
+          endTime,
+          stepMinutes = AlignmentLineCalculator.DEFAULT_STEP_MINUTES,
+        } = req.body;
+        const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+        // バリデーション
+        if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+          return res.status(400).json({
+            success: false,
+            message: "日付は YYYY-MM-DD 形式で指定してください",
+          });
+        }
+        if (scene !== "diamond" && scene !== "pearl") {
+          return res.status(400).json({
+            success: false,
+            message: "scene は diamond または pearl を指定してください",
+          });
+        }
+        if (
+          (startTime !== undefined && !timePattern.test(startTime)) ||
+          (endTime !== undefined && !timePattern.test(endTime)) ||
+          (startTime !== undefined && endTime !== undefined && startTime >= endTime)
+        ) {
+          return res.status(400).json({
+            success: false,
+            message: "時間帯は HH:mm 形式で、開始時刻を終了時刻より前に指定してください",
+          });
+        }
+        const step = parseInt(stepMinutes);
+        if (isNaN(step) || step < 1 || step > 30) {
+          return res.status(400).json({
+            success: false,
+            message: "stepMinutes は 1〜30 の範囲で指定してください",
+          });
+        }
+
+        const alignmentLineCalculator = container.resolve(
+          "AlignmentLineCalculator",
+        ) as AlignmentLineCalculator;
+        const line = await alignmentLineCalculator.calculateAlignmentLine({
+          date,
+          type: scene,
+          startTime,
+          endTime,
+          stepMinutes: step,
         });
 
         res.json({
           success: true,
-          events: limitedEvents,
-          searchParams: {
-            latitude: parseFloat(latitude),
-            longitude: parseFloat(longitude),
-            elevation: parseFloat(elevation) || 0,
-            scene,
-            searchMode,
-            startDate: start.toISOString(),
-            endDate: end.toISOString(),
-          },
-          metadata: {
-            totalEvents: limitedEvents.length,
-            searchInterval,
-            isLimited: sortedEvents.length > 100,
-            originalTotal: sortedEvents.length,
-          },
+          line,
         });
       } catch (error) {
-        serverLogger.error("地図検索 API エラー", error as Error);
+        serverLogger.error("整列線 API エラー", error as Error);
         res.status(500).json({
           success: false,
-          message: "地図検索中にエラーが発生しました",
-          error: error instanceof Error ? error.message : "Unknown error",
+          message: "整列線の計算中にエラーが発生しました",
         });
       }
     }
@@ -596,6 +855,32 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     authenticateAdmin,
     locationController.getLocations.bind(locationController),
   );
+  // 重複地点の確認・統合（/:id より先に登録する）
+  app.get(
+    "/api/admin/locations/duplicates",
+    adminApiRateLimit,
+    authenticateAdmin,
+    locationController.checkDuplicates.bind(locationController),
+  );
+  app.post(
+    "/api/admin/locations/merge",
+    adminApiRateLimit,
+    authenticateAdmin,
+    locationController.mergeLocations.bind(locationController),
+  );
+  // Export/Import 機能
+  app.get(
+    "/api/admin/locations/export",
+    adminApiRateLimit,
+    authenticateAdmin,
+    locationController.exportLocations.bind(locationController),
+  );
+  app.post(
+    "/api/admin/locations/import",
+    adminApiRateLimit,
+    authenticateAdmin,
+    locationController.importLocations.bind(locationController),
+  );
   app.get(
     "/api/admin/locations/:id",
     authenticateAdmin,
@@ -619,18 +904,46 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     authenticateAdmin,
     locationController.deleteLocation.bind(locationController),
   );
-  // Export/Import 機能
+
+  // 参考写真の管理
+  app.post(
+    "/api/admin/locations/:id/photos",
+    adminApiRateLimit,
+    authenticateAdmin,
+    handlePhotoUpload,
+    locationPhotoController.uploadPhoto.bind(locationPhotoController),
+  );
+  app.put(
+    "/api/admin/location-photos/:photoId",
+    adminApiRateLimit,
+    authenticateAdmin,
+    locationPhotoController.updatePhoto.bind(locationPhotoController),
+  );
+  app.delete(
+    "/api/admin/location-photos/:photoId",
+    adminApiRateLimit,
+    authenticateAdmin,
+    locationPhotoController.deletePhoto.bind(locationPhotoController),
+  );
+
+  // 撮影地点の追加リクエストの審査
   app.get(
-    "/api/admin/locations/export",
+    "/api/admin/location-requests",
     adminApiRateLimit,
     authenticateAdmin,
-    locationController.exportLocations.bind(locationController),
+    locationRequestController.getRequests.bind(locationRequestController),
   );
   app.post(
-    "/api/admin/locations/import",
+    "/api/admin/location-requests/:id/approve",
     adminApiRateLimit,
     authenticateAdmin,
-    locationController.importLocations.bind(locationController),
+    locationRequestController.approveRequest.bind(locationRequestController),
+  );
+  app.post(
+    "/api/admin/location-requests/:id/reject",
+    adminApiRateLimit,
+    authenticateAdmin,
+    locationRequestController.rejectRequest.bind(locationRequestController),
   );
 
   // システム設定管理 API
@@ -640,6 +953,52 @@ export function setupRoutes(app: Express, container: DIContainer): void {
     createSystemSettingsRouter(container),
   );
 
+  // パールスカイツリー除外候補 API（採否判定で除外された理由の確認用）
+  app.get(
+    "/api/admin/pearl-rejections",
+    authenticateAdmin,
+    async (req: Request, res: Response) => {
+      try {
+        const pearlRejectionService = container.resolve(
+          "PearlRejectionService",
+        ) as PearlRejectionService;
+        const { locationId, from, to, limit } = req.query;
+
+        const parsedLocationId = locationId ? parseInt(locationId as string, 10) : undefined;
+        const parsedFrom = from ? new Date(from as string) : undefined;
+        const parsedTo = to ? new Date(to as string) : undefined;
+        const parsedLimit = limit ? parseInt(limit as string, 10) : undefined;
+
+        if (
+          (parsedLocationId !== undefined && isNaN(parsedLocationId)) ||
+          (parsedFrom && isNaN(parsedFrom.getTime())) ||
+          (parsedTo && isNaN(parsedTo.getTime())) ||
+          (parsedLimit !== undefined && isNaN(parsedLimit))
+        ) {
+          return res.status(400).json({
+            success: false,
+            message: "locationId・limit は数値、from・to は日付で指定してください",
+          });
+        }
+
+        const rejections = await pearlRejectionService.getRejections({
+          locationId: parsedLocationId,
+          from: parsedFrom,
+          to: parsedTo,
+          limit: parsedLimit,
+        });
+
+        res.json({
+          success: true,
+          data: rejections,
+        });
+      } catch (error) {
+        serverLogger.error("パール除外候補取得エラー", error);
+        res.status(500).json({ error: "Failed to get pearl rejections" });
+      }
+    },
+  );
+
   // パフォーマンス設定 API
   app.get(
     "/api/admin/performance-settings",
@@ -704,43 +1063,210 @@ export function setupRoutes(app: Express, container: DIContainer): void {
 }
 
 /**
- * 高度レンジ × 昇る/沈む × イベントタイプでイベントをフィルタリング
+ * 地図検索リクエストの検証と目標点の解決
+ * 不正な場合は message を返す
+ */
+async function parseMapSearchRequest(
+  body: Request["body"],
+  container: DIContainer,
+): Promise<{ params: MapSearchParams } | { message: string }> {
+  const { latitude, longitude, elevation = 0, startDate, endDate } = body;
+
+  // バリデーション
+  if (!latitude || !longitude || !startDate || !endDate) {
+    return { message: "緯度、経度、開始日、終了日は必須です" };
+  }
+
+  const parsed = await parseMapSearchConditions(body, container, { latitude, longitude });
+  if ("message" in parsed) {
+    return parsed;
+  }
+
+  return {
+    params: {
+      ...parsed.conditions,
+      latitude: parseFloat(latitude),
+      longitude: parseFloat(longitude),
+      elevation: parseFloat(elevation) || 0,
+    },
+  };
+}
+
+/**
+ * 比較検索リクエストの検証（points は 2〜MAX_COMPARE_POINTS 件の候補地点）
+ * 地点 ID はリクエストの順に p1, p2, ... を振る
+ */
+async function parseMapCompareRequest(
+  body: Request["body"],
+  container: DIContainer,
+): Promise<{ params: MapCompareParams } | { message: string }> {
+  const { points, startDate, endDate } = body;
+
+  if (
+    !Array.isArray(points) ||
+    points.length < 2 ||
+    points.length > MapSearchService.MAX_COMPARE_POINTS
+  ) {
+    return {
+      message: `比較する地点は 2〜${MapSearchService.MAX_COMPARE_POINTS} 件で指定してください`,
+    };
+  }
+  if (!startDate || !endDate) {
+    return { message: "開始日、終了日は必須です" };
+  }
+
+  const comparisonPoints: MapComparisonPoint[] = [];
+  for (const [index, point] of points.entries()) {
+    const latitude = parseFloat(point?.latitude);
+    const longitude = parseFloat(point?.longitude);
+    if (isNaN(latitude) || isNaN(longitude)) {
+      return { message: `地点 ${index + 1} の緯度、経度は必須です` };
+    }
+    comparisonPoints.push({
+      id: `p${index + 1}`,
+      label:
+        typeof point.label === "string" && point.label.trim()
+          ? point.label.trim()
+          : `地点 ${index + 1}`,
+      latitude,
+      longitude,
+      elevation: parseFloat(point.elevation) || 0,
+    });
+  }
+
+  const parsed = await parseMapSearchConditions(body, container, {
+    pointCount: comparisonPoints.length,
+  });
+  if ("message" in parsed) {
+    return parsed;
+  }
+
+  return {
+    params: {
+      ...parsed.conditions,
+      points: comparisonPoints,
+    },
+  };
+}
+
+/**
+ * おすすめ地点リクエストの検証（polygon は 3〜MAX_POLYGON_VERTICES 件の頂点）
+ * 計算量を抑えるため検索期間は RegionRecommendationService.MAX_SEARCH_DAYS 以内
  */
-function filterEventsByElevationRange(events: SkytreeEvent[]): SkytreeEvent[] {
-  const groupMap = new Map<string, SkytreeEvent[]>();
-  
-  for (const event of events) {
-    const elevation = event.elevation || 0;
-    const eventType = event.type; // diamond or pearl
-    const subType = event.subType; // sunrise, sunset, rising, setting
-    
-    // 高度レンジを計算（5 度刻み）
-    const rangeSize = 5;
-    const rangeStart = Math.floor(elevation / rangeSize) * rangeSize;
-    const maxElevation = eventType === "diamond" ? 30 : 60;
-    const rangeEnd = Math.min(rangeStart + rangeSize - 1, maxElevation);
-    
-    // 昇る/沈むを判定
-    const riseSetType = (subType === "sunrise" || subType === "rising") ? "昇る" : "沈む";
-    
-    // グループキーを作成
-    const groupKey = `${eventType}-${rangeStart}-${rangeEnd}度-${riseSetType}`;
-    
-    if (!groupMap.has(groupKey)) {
-      groupMap.set(groupKey, []);
+async function parseRegionRecommendationRequest(
+  body: Request["body"],
+  container: DIContainer,
+): Promise<{ params: RegionRecommendationParams } | { message: string }> {
+  const { polygon, elevation = 0, startDate, endDate } = body;
+
+  if (
+    !Array.isArray(polygon) ||
+    polygon.length < 3 ||
+    polygon.length > RegionRecommendationService.MAX_POLYGON_VERTICES
+  ) {
+    return {
+      message: `範囲は 3〜${RegionRecommendationService.MAX_POLYGON_VERTICES} 個の頂点で指定してください`,
+    };
+  }
+  if (!startDate || !endDate) {
+    return { message: "開始日、終了日は必須です" };
+  }
+
+  const vertices: RegionRecommendationParams["polygon"] = [];
+  for (const vertex of polygon) {
+    const latitude = parseFloat(vertex?.latitude);
+    const longitude = parseFloat(vertex?.longitude);
+    if (isNaN(latitude) || isNaN(longitude)) {
+      return { message: "範囲の頂点には緯度、経度を指定してください" };
     }
-    groupMap.get(groupKey)!.push(event);
+    vertices.push({ latitude, longitude });
   }
-  
-  // 各グループで最も精度の良いイベントを選択
-  const filteredEvents: SkytreeEvent[] = [];
-  for (const groupEvents of groupMap.values()) {
-    // qualityScore が最も高いイベントを選択
-    const bestEvent = groupEvents.reduce((best, current) => 
-      (current.qualityScore || 0) > (best.qualityScore || 0) ? current : best
-    );
-    filteredEvents.push(bestEvent);
+
+  const parsed = await parseMapSearchConditions(body, container, {
+    vertexCount: vertices.length,
+  });
+  if ("message" in parsed) {
+    return parsed;
   }
-  
-  return filteredEvents;
+  const { scene, startDate: start, endDate: end, target } = parsed.conditions;
+  if (MapSearchService.getDaysDiff(start, end) > RegionRecommendationService.MAX_SEARCH_DAYS) {
+    return {
+      message: `おすすめ地点の検索範囲は最大 ${RegionRecommendationService.MAX_SEARCH_DAYS} 日以内で指定してください`,
+    };
+  }
+
+  return {
+    params: {
+      polygon: vertices,
+      elevation: parseFloat(elevation) || 0,
+      scene,
+      startDate: start,
+      endDate: end,
+      target,
+    },
+  };
+}
+
+/**
+ * 地図検索・比較検索・おすすめ地点で共通の条件（期間・シーン・検索モード・目標点）の検証
+ * logContext は長期間検索の警告ログに含める
+ */
+async function parseMapSearchConditions(
+  body: Request["body"],
+  container: DIContainer,
+  logContext: Record<string, unknown>,
+): Promise<{ conditions: Omit<MapCompareParams, "points"> } | { message: string }> {
+  const {
+    scene = "all",
+    searchMode = "auto",
+    startDate,
+    endDate,
+    target: targetId,
+    targetHeight,
+  } = body;
+
+  // 日付範囲チェック（最大範囲制限は全モード共通: 3 年）
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  const daysDiff = MapSearchService.getDaysDiff(start, end);
+  if (daysDiff > MapSearchService.MAX_SEARCH_DAYS) {
+    return { message: "検索範囲は最大 3 年以内で指定してください" };
+  }
+
+  // 長期間検索の場合は警告ログ
+  if (daysDiff > 365) {
+    serverLogger.warn("長期間検索実行", {
+      daysDiff,
+      searchMode,
+      ...logContext,
+      estimatedProcessingTime: `約${Math.ceil(daysDiff / 7)}分`
+    });
+  }
+
+  // 目標点（未指定の場合は従来どおり頂部基準の判定）
+  const alignmentTargetService = container.resolve(
+    "AlignmentTargetService",
+  ) as AlignmentTargetService;
+  const hasTarget = targetId !== undefined || targetHeight !== undefined;
+  const target = hasTarget
+    ? await alignmentTargetService.resolveTarget(
+        typeof targetId === "string" ? targetId : undefined,
+        targetHeight !== undefined ? parseFloat(targetHeight) : undefined,
+      )
+    : null;
+  if (hasTarget && !target) {
+    return {
+      message: `目標点は登録済みの目標点 ID または 0〜${AlignmentTargetService.MAX_TARGET_HEIGHT}m の高さで指定してください`,
+    };
+  }
+
+  return {
+    conditions: {
+      scene,
+      searchMode,
+      startDate: start,
+      endDate: end,
+      target: target ?? undefined,
+    },
+  };
 }
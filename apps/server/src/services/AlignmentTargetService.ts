@@ -0,0 +1,107 @@
+import { DEFAULT_ALIGNMENT_TARGETS } from "@skytree-photo-planner/types";
+import type { AlignmentTarget } from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type { ISystemSettingsService } from "./interfaces/ISystemSettingsService";
+
+const logger = getComponentLogger("AlignmentTargetService");
+
+/**
+ * 整列判定の目標点を管理するサービス
+ * 目標点一覧はシステム設定 alignment_targets（JSON 配列）で管理し、任意の高さも指定できる
+ */
+export class AlignmentTargetService {
+  static readonly CUSTOM_TARGET_ID = "custom";
+  // 目標点の高さはアンテナ頂部（634m）まで
+  static readonly MAX_TARGET_HEIGHT = 634;
+
+  constructor(private settingsService: ISystemSettingsService) {}
+
+  /**
+   * 頂部（アンテナ先端）の目標点か
+   * 頂部は事前計算済みのイベントと同じ従来判定を使う
+   */
+  static isSummit(target: AlignmentTarget): boolean {
+    return target.height >= AlignmentTargetService.MAX_TARGET_HEIGHT;
+  }
+
+  /**
+   * 目標点一覧を取得（設定が不正な場合は標準の目標点を使用）
+   */
+  async getTargets(): Promise<AlignmentTarget[]> {
+    const raw = await this.settingsService.getStringSetting("alignment_targets", "");
+    if (!raw) {
+      return [...DEFAULT_ALIGNMENT_TARGETS];
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      const targets = Array.isArray(parsed)
+        ? parsed.filter((item): item is AlignmentTarget => this.isValidTarget(item))
+        : [];
+
+      if (targets.length === 0) {
+        logger.warn("alignment_targets に有効な目標点がないため標準の目標点を使用", { raw });
+        return [...DEFAULT_ALIGNMENT_TARGETS];
+      }
+      return targets;
+    } catch (error) {
+      logger.warn("alignment_targets の解析に失敗、標準の目標点を使用", {
+        error: error as Error,
+      });
+      return [...DEFAULT_ALIGNMENT_TARGETS];
+    }
+  }
+
+  /**
+   * リクエストの目標点指定を解決
+   * targetHeight が指定された場合は任意高度の目標点（1m 単位に丸める）、targetId の場合は一覧から検索する
+   * 該当する目標点がない・高さが範囲外の場合は null を返す
+   */
+  async resolveTarget(
+    targetId?: string,
+    targetHeight?: number,
+  ): Promise<AlignmentTarget | null> {
+    if (targetHeight !== undefined) {
+      // 1m 未満の差は仰角にほぼ影響しないため丸め、計算結果のキャッシュを共有できるようにする
+      const height = Math.round(targetHeight);
+      if (!this.isValidHeight(height)) {
+        return null;
+      }
+      return {
+        id: AlignmentTargetService.CUSTOM_TARGET_ID,
+        name: `任意高度（${height}m）`,
+        height,
+      };
+    }
+
+    if (!targetId) {
+      return null;
+    }
+
+    const targets = await this.getTargets();
+    return targets.find((target) => target.id === targetId) ?? null;
+  }
+
+  private isValidTarget(item: unknown): boolean {
+    if (typeof item !== "object" || item === null) {
+      return false;
+    }
+    const target = item as Partial<AlignmentTarget>;
+    return (
+      typeof target.id === "string" &&
+      target.id.length > 0 &&
+      target.id !== AlignmentTargetService.CUSTOM_TARGET_ID &&
+      typeof target.name === "string" &&
+      typeof target.height === "number" &&
+      this.isValidHeight(target.height)
+    );
+  }
+
+  private isValidHeight(height: number): boolean {
+    return (
+      isFinite(height) &&
+      height > 0 &&
+      height <= AlignmentTargetService.MAX_TARGET_HEIGHT
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import type { AlignmentClassification, SkytreeEvent } from "@skytree-photo-planner/types";
+import {
+  buildIcsCalendar,
+  createSkytreeIcsEvent,
+  getComponentLogger,
+} from "@skytree-photo-planner/utils";
+import type { CalendarQueryOptions, CalendarService } from "./interfaces/CalendarService";
+import type { LocationRepository } from "../repositories/interfaces/LocationRepository";
+
+const logger = getComponentLogger("CalendarFeedService");
+
+// フィードで絞り込むイベントの種類（種類のみ、または種類_サブタイプ）
+export type CalendarFeedEventType =
+  | "diamond"
+  | "pearl"
+  | "diamond_sunrise"
+  | "diamond_sunset"
+  | "pearl_rising"
+  | "pearl_setting";
+
+export interface CalendarFeedFilter {
+  types?: CalendarFeedEventType[]; // 未指定なら全種類
+  locationId?: number;
+  alignments?: AlignmentClassification[];
+  days: number; // 現在から何日先までのイベントを含めるか
+}
+
+export interface CalendarFeedOptions {
+  alarmMinutesBefore: number; // 到着目安の通知（イベントの何分前か、0 は通知なし）
+}
+
+/**
+ * イベントを iCalendar（ICS）形式のフィードにするサービス
+ *
+ * UID は地点・種類・日付から作るため、イベントを再計算しても購読側で重複しない
+ */
+export class CalendarFeedService {
+  static readonly EVENT_TYPES: readonly CalendarFeedEventType[] = [
+    "diamond",
+    "pearl",
+    "diamond_sunrise",
+    "diamond_sunset",
+    "pearl_rising",
+    "pearl_setting",
+  ];
+  static readonly DEFAULT_ALARM_MINUTES = 60;
+  static readonly MAX_ALARM_MINUTES = 24 * 60;
+  static readonly DEFAULT_FEED_DAYS = 90;
+  static readonly MAX_FEED_DAYS = 366;
+  private static readonly REFRESH_INTERVAL_HOURS = 12;
+
+  constructor(
+    private calendarService: CalendarService,
+    private locationRepository: LocationRepository,
+  ) {}
+
+  /**
+   * 地点の年間イベントのフィード（地点が存在しない場合は null）
+   */
+  async getLocationYearlyFeed(
+    locationId: number,
+    year: number,
+    queryOptions: CalendarQueryOptions,
+    feedOptions: CalendarFeedOptions,
+  ): Promise<string | null> {
+    const location = await this.locationRepository.findById(locationId);
+    if (!location) {
+      return null;
+    }
+
+    const events = await this.calendarService.getLocationYearlyEvents(
+      locationId,
+      year,
+      queryOptions,
+    );
+
+    logger.info("地点別年間フィード作成", {
+      locationId,
+      year,
+      targetId: queryOptions.target?.id,
+      eventCount: events.length,
+    });
+
+    return buildIcsCalendar(
+      events.map((event) => this.toIcsEvent(event, feedOptions)),
+      {
+        name: `${location.name}のダイヤモンド・パールスカイツリー ${year}`,
+        description: `${location.name}（${location.prefecture}）から見えるダイヤモンド・パールスカイツリー`,
+        refreshIntervalHours: CalendarFeedService.REFRESH_INTERVAL_HOURS,
+      },
+    );
+  }
+
+  /**
+   * 今後のイベントを種類・地点・重なり方で絞り込んだフィード
+   */
+  async getEventFeed(
+    filter: CalendarFeedFilter,
+    feedOptions: CalendarFeedOptions,
+  ): Promise<string> {
+    const startTime = new Date();
+    const endTime = new Date(startTime.getTime() + filter.days * 24 * 60 * 60 * 1000);
+    const events = (
+      await this.calendarService.getEventsInRange(startTime, endTime, {
+        locationId: filter.locationId,
+        alignments: filter.alignments,
+      })
+    ).filter((event) => this.matchesTypes(event, filter.types));
+
+    logger.info("イベントフィード作成", {
+      types: filter.types,
+      locationId: filter.locationId,
+      alignments: filter.alignments,
+      days: filter.days,
+      eventCount: events.length,
+    });
+
+    return buildIcsCalendar(
+      events.map((event) => this.toIcsEvent(event, feedOptions)),
+      {
+        name: "ダイヤモンド・パールスカイツリー",
+        description: `今後 ${filter.days} 日間のダイヤモンド・パールスカイツリー`,
+        refreshIntervalHours: CalendarFeedService.REFRESH_INTERVAL_HOURS,
+      },
+    );
+  }
+
+  private matchesTypes(event: SkytreeEvent, types?: CalendarFeedEventType[]): boolean {
+    if (!types || types.length === 0) {
+      return true;
+    }
+    return types.some(
+      (type) => type === event.type || type === `${event.type}_${event.subType}`,
+    );
+  }
+
+  private toIcsEvent(event: SkytreeEvent, feedOptions: CalendarFeedOptions) {
+    return createSkytreeIcsEvent(
+      {
+        type: event.type,
+        subType: event.subType,
+        time: event.time,
+        window: event.contactWindow
+          ? { start: event.contactWindow.firstContact, end: event.contactWindow.lastContact }
+          : undefined,
+        azimuth: event.azimuth,
+        elevation: event.elevation,
+        qualityScore: event.qualityScore,
+        targetId: event.target?.id,
+        location: event.location,
+      },
+      {
+        alarmMinutesBefore: feedOptions.alarmMinutesBefore,
+        url: process.env.FRONTEND_URL
+          ? `${process.env.FRONTEND_URL}/location/${event.location.id}`
+          : undefined,
+      },
+    );
+  }
+}
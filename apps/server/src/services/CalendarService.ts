@@ -1,25 +1,46 @@
-import { SkytreeEvent, CalendarStats, Location } from "@skytree-photo-planner/types";
+import {
+  SkytreeEvent,
+  CalendarStats,
+  Location,
+  AlignmentTarget,
+  AlignmentClassification,
+  SpecialEvent,
+} from "@skytree-photo-planner/types";
 import { getComponentLogger, timeUtils } from "@skytree-photo-planner/utils";
-import { CalendarService } from "./interfaces/CalendarService";
+import { CalendarService, CalendarQueryOptions } from "./interfaces/CalendarService";
 import { CalendarRepository } from "../repositories/interfaces/CalendarRepository";
 import { SkytreeAstronomicalCalculator } from "./SkytreeAstronomicalCalculator";
+import type { AlignmentPrecisionSettings } from "./astronomical/SkytreeAlignmentCalculator";
 import { LocationRepository } from "../repositories/interfaces/LocationRepository";
 import { CoordinateCalculator } from "./astronomical/CoordinateCalculator";
+import { SpecialEventService } from "./SpecialEventService";
+import { AlignmentTargetService } from "./AlignmentTargetService";
 
 const logger = getComponentLogger("calendar-service");
 
 export class CalendarServiceImpl implements CalendarService {
+  // 目標点指定のリアルタイム計算結果のキャッシュ（地点の追加・設定変更を反映するため 1 時間で破棄）
+  private static readonly TARGET_CACHE_TTL_MS = 60 * 60 * 1000;
+  private static readonly TARGET_CACHE_MAX_SIZE = 200;
+
   private coordinateCalc = new CoordinateCalculator();
+  // 計算中の Promise も保持し、同じ条件の同時リクエストで計算を重複させない
+  private targetEventCache = new Map<
+    string,
+    { expiresAt: number; events: Promise<SkytreeEvent[]> }
+  >();
 
   constructor(
     private calendarRepository: CalendarRepository,
     private astronomicalCalculator: SkytreeAstronomicalCalculator,
-    private locationRepository: LocationRepository
+    private locationRepository: LocationRepository,
+    private specialEventService: SpecialEventService,
   ) {}
 
   async getMonthlyCalendar(
     year: number,
     month: number,
+    options: CalendarQueryOptions = {},
   ): Promise<{
     year: number;
     month: number;
@@ -27,16 +48,31 @@ export class CalendarServiceImpl implements CalendarService {
       date: string;
       type: string;
       events: SkytreeEvent[];
+      specialEvents: SpecialEvent[];
     }>;
   }> {
     const startTime = Date.now();
 
     try {
-      logger.info("月間カレンダーデータ取得開始", { year, month });
-
-      const events = await this.calendarRepository.getMonthlyEvents(
-        year,
-        month,
+      const { alignments } = options;
+      const target = this.getRealtimeTarget(options.target);
+      logger.info("月間カレンダーデータ取得開始", { year, month, targetId: target?.id, alignments });
+
+      // 事前計算済みのイベントは頂部基準のため、頂部以外の目標点指定時はリアルタイム計算
+      const calculatedEvents = target
+        ? await this.getCachedTargetEvents(
+            `month:${year}-${month}:${target.height}`,
+            async () =>
+              this.astronomicalCalculator.calculateMonthlyEvents(
+                year,
+                month,
+                await this.calendarRepository.getActiveLocations(),
+                this.getTargetPrecisionSettings(target),
+              ),
+          )
+        : await this.calendarRepository.getMonthlyEvents(year, month);
+      const events = this.specialEventService.annotateEvents(
+        this.filterByAlignment(calculatedEvents, alignments),
       );
 
       // カレンダーの日付範囲を動的に計算
@@ -65,6 +101,20 @@ export class CalendarServiceImpl implements CalendarService {
         eventsByDate.get(dateStr)!.push(event);
       });
 
+      // 日食・月食・スーパームーンを日付ごとにグループ化（食は最大の日に表示）
+      const specialEventsByDate = new Map<string, SpecialEvent[]>();
+      const calendarEndOfDay = new Date(calendarEndDate);
+      calendarEndOfDay.setHours(23, 59, 59, 999);
+      this.specialEventService
+        .getSpecialEvents(calendarStartDate, calendarEndOfDay)
+        .forEach((specialEvent) => {
+          const dateStr = timeUtils.formatDateString(specialEvent.peakTime);
+          specialEventsByDate.set(dateStr, [
+            ...(specialEventsByDate.get(dateStr) ?? []),
+            specialEvent,
+          ]);
+        });
+
       // 42 日分すべての日付に対してレスポンスを作成
       const responseEvents = [];
       const currentDate = new Date(calendarStartDate);
@@ -82,6 +132,7 @@ export class CalendarServiceImpl implements CalendarService {
           events: dayEvents.sort(
             (a, b) => new Date(a.time).getTime() - new Date(b.time).getTime(),
           ),
+          specialEvents: specialEventsByDate.get(dateStr) ?? [],
         });
 
         currentDate.setDate(currentDate.getDate() + 1);
@@ -107,10 +158,28 @@ export class CalendarServiceImpl implements CalendarService {
     }
   }
 
-  async getDayEvents(date: string): Promise<{ events: SkytreeEvent[] }> {
+  async getDayEvents(
+    date: string,
+    options: CalendarQueryOptions = {},
+  ): Promise<{ events: SkytreeEvent[] }> {
     try {
+      const { alignments } = options;
+      const target = this.getRealtimeTarget(options.target);
       
-      logger.info("日別イベント取得開始（リアルタイム計算）", { date });
+      logger.info("日別イベント取得開始（リアルタイム計算）", { date, targetId: target?.id, alignments });
+
+      if (target) {
+        return {
+          events: this.specialEventService.annotateEvents(
+            this.filterByAlignment(
+              await this.getCachedTargetEvents(`day:${date}:${target.height}`, () =>
+                this.calculateTargetDayEvents(date, target),
+              ),
+              alignments,
+            ),
+          ),
+        };
+      }
       
       // まずキャッシュされたイベントを確認
       let events = await this.calendarRepository.getDayEvents(date);
@@ -174,9 +243,9 @@ export class CalendarServiceImpl implements CalendarService {
       }
       
       // 時刻順でソート
-      const sortedEvents = events.sort(
-        (a, b) => new Date(a.time).getTime() - new Date(b.time).getTime(),
-      );
+      const sortedEvents = this.specialEventService
+        .annotateEvents(this.filterByAlignment(events, alignments))
+        .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
       
       
       logger.info("日別イベント取得完了", {
@@ -213,13 +282,36 @@ export class CalendarServiceImpl implements CalendarService {
   async getLocationYearlyEvents(
     locationId: number,
     year: number,
+    options: CalendarQueryOptions = {},
   ): Promise<SkytreeEvent[]> {
     try {
-      logger.info("地点別年間イベント取得開始", { locationId, year });
-
-      const events = await this.calendarRepository.getLocationYearlyEvents(
-        locationId,
-        year,
+      const { alignments } = options;
+      const target = this.getRealtimeTarget(options.target);
+      logger.info("地点別年間イベント取得開始", { locationId, year, targetId: target?.id, alignments });
+
+      let events: SkytreeEvent[];
+      if (target) {
+        events = await this.getCachedTargetEvents(
+          `location:${locationId}:${year}:${target.height}`,
+          async () => {
+            const location = await this.locationRepository.findById(locationId);
+            return location
+              ? this.astronomicalCalculator.calculateLocationYearlyEvents(
+                  location,
+                  year,
+                  this.getTargetPrecisionSettings(target),
+                )
+              : [];
+          },
+        );
+      } else {
+        events = await this.calendarRepository.getLocationYearlyEvents(
+          locationId,
+          year,
+        );
+      }
+      events = this.specialEventService.annotateEvents(
+        this.filterByAlignment(events, alignments),
       );
 
       logger.info("地点別年間イベント取得完了", {
@@ -235,6 +327,34 @@ export class CalendarServiceImpl implements CalendarService {
     }
   }
 
+  async getEventsInRange(
+    startTime: Date,
+    endTime: Date,
+    options: { locationId?: number; alignments?: AlignmentClassification[] } = {},
+  ): Promise<SkytreeEvent[]> {
+    try {
+      const events = this.specialEventService.annotateEvents(
+        this.filterByAlignment(
+          await this.calendarRepository.getEventsInRange(startTime, endTime, options.locationId),
+          options.alignments,
+        ),
+      );
+
+      logger.info("期間内イベント取得完了", {
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        locationId: options.locationId,
+        alignments: options.alignments,
+        eventCount: events.length,
+      });
+
+      return events;
+    } catch (error) {
+      logger.error("期間内イベント取得エラー", { startTime, endTime, ...options, error });
+      throw error;
+    }
+  }
+
   async getCalendarStats(year: number): Promise<CalendarStats> {
     try {
       logger.info("カレンダー統計情報取得開始", { year });
@@ -259,6 +379,115 @@ export class CalendarServiceImpl implements CalendarService {
   }
 
 
+  /**
+   * 目標点を指定した日別イベントをアクティブな地点についてリアルタイム計算
+   */
+  private async calculateTargetDayEvents(
+    date: string,
+    target: AlignmentTarget,
+  ): Promise<SkytreeEvent[]> {
+    const targetDate = new Date(date);
+    const locations = await this.calendarRepository.getActiveLocations();
+    const precisionSettings = this.getTargetPrecisionSettings(target);
+
+    const [diamondEvents, pearlEvents] = await Promise.all([
+      this.astronomicalCalculator.calculateDiamondSkytree(targetDate, locations, precisionSettings),
+      this.astronomicalCalculator.calculatePearlSkytree(targetDate, locations, precisionSettings),
+    ]);
+
+    logger.info("目標点指定の日別イベント計算完了", {
+      date,
+      targetId: target.id,
+      targetHeight: target.height,
+      locationCount: locations.length,
+      diamondEventCount: diamondEvents.length,
+      pearlEventCount: pearlEvents.length,
+    });
+
+    return [...diamondEvents, ...pearlEvents].sort(
+      (a, b) => new Date(a.time).getTime() - new Date(b.time).getTime(),
+    );
+  }
+
+  /**
+   * リアルタイム計算が必要な目標点
+   * 頂部の目標点は事前計算済みのイベント（頂部基準の従来判定）と同じ結果にするため null を返す
+   */
+  private getRealtimeTarget(target: AlignmentTarget | undefined): AlignmentTarget | null {
+    if (!target || AlignmentTargetService.isSummit(target)) {
+      return null;
+    }
+    return target;
+  }
+
+  /**
+   * 目標点指定のリアルタイム計算結果をキャッシュから取得（なければ計算してキャッシュ）
+   * キーには目標点 ID ではなく高さを使い、同じ高さの目標点で結果を共有する
+   */
+  private async getCachedTargetEvents(
+    key: string,
+    calculate: () => Promise<SkytreeEvent[]>,
+  ): Promise<SkytreeEvent[]> {
+    const now = Date.now();
+    const cached = this.targetEventCache.get(key);
+    if (cached && cached.expiresAt > now) {
+      logger.debug("目標点指定のイベントをキャッシュから取得", { key });
+      return cached.events;
+    }
+
+    if (this.targetEventCache.size >= CalendarServiceImpl.TARGET_CACHE_MAX_SIZE) {
+      for (const [cachedKey, entry] of this.targetEventCache) {
+        if (entry.expiresAt <= now) {
+          this.targetEventCache.delete(cachedKey);
+        }
+      }
+      if (this.targetEventCache.size >= CalendarServiceImpl.TARGET_CACHE_MAX_SIZE) {
+        const oldestKey = this.targetEventCache.keys().next().value;
+        if (oldestKey !== undefined) {
+          this.targetEventCache.delete(oldestKey);
+        }
+      }
+    }
+
+    const events = calculate();
+    this.targetEventCache.set(key, {
+      expiresAt: now + CalendarServiceImpl.TARGET_CACHE_TTL_MS,
+      events,
+    });
+    // 失敗した計算結果はキャッシュしない
+    events.catch(() => {
+      if (this.targetEventCache.get(key)?.events === events) {
+        this.targetEventCache.delete(key);
+      }
+    });
+    return events;
+  }
+
+  /**
+   * 目標点指定時の整列検索設定
+   * 地点数 × 日数のリアルタイム計算になるため求根方式を使用
+   */
+  private getTargetPrecisionSettings(target: AlignmentTarget): AlignmentPrecisionSettings {
+    return { strategy: "root_finding", target };
+  }
+
+  /**
+   * 重なり方の分類でイベントを絞り込み（分類のないイベントは除外）
+   */
+  private filterByAlignment(
+    events: SkytreeEvent[],
+    alignments?: AlignmentClassification[],
+  ): SkytreeEvent[] {
+    if (!alignments || alignments.length === 0) {
+      return events;
+    }
+    return events.filter(
+      (event) =>
+        event.alignment !== undefined &&
+        alignments.includes(event.alignment.classification),
+    );
+  }
+
   private determineEventType(events: SkytreeEvent[]): string {
     const hasDepth = events.some((event) => event.type === "diamond");
     const hasPearl = events.some((event) => event.type === "pearl");
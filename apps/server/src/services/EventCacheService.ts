@@ -1,5 +1,6 @@
 import { prisma } from "../database/prisma";
 import { SkytreeAstronomicalCalculator } from "./SkytreeAstronomicalCalculator";
+import type { AlignmentPrecisionSettings } from "./astronomical/SkytreeAlignmentCalculator";
 import { Location } from "@skytree-photo-planner/types";
 import { SkytreeEvent } from "@skytree-photo-planner/types";
 import { getComponentLogger, StructuredLogger } from "@skytree-photo-planner/utils";
@@ -9,6 +10,11 @@ import { getComponentLogger, StructuredLogger } from "@skytree-photo-planner/uti
  * 事前計算されたダイヤモンド・パールスカイツリーデータの管理
  */
 export class EventCacheService {
+  // 事前計算では採否判定で除外したパール候補も記録する
+  private static readonly BATCH_PRECISION_SETTINGS: AlignmentPrecisionSettings = {
+    recordPearlRejections: true,
+  };
+
   private astronomicalCalculator: SkytreeAstronomicalCalculator;
   private logger: StructuredLogger;
 
@@ -37,6 +43,12 @@ export class EventCacheService {
           calculationYear: year,
         },
       });
+      // 除外したパール候補も再計算で記録し直すため削除
+      await prisma.pearlRejection.deleteMany({
+        where: {
+          calculationYear: year,
+        },
+      });
       this.logger.info("既存データ削除完了", {
         year,
         deletedCount: deletedCount.count,
@@ -108,6 +120,7 @@ export class EventCacheService {
                 await this.astronomicalCalculator.calculateLocationYearlyEvents(
                   location,
                   year,
+                  EventCacheService.BATCH_PRECISION_SETTINGS,
                 );
               return { location, events };
             } catch (error) {
@@ -163,6 +176,16 @@ export class EventCacheService {
                 calculationYear: year,
                 eventType: this.getEventType(event),
                 accuracy: this.mapAccuracy(event.accuracy),
+                occlusionStatus: event.lineOfSight?.status ?? null,
+                visibleHeight: event.lineOfSight?.visibleHeight ?? null,
+                refractionModel: event.refractionModel ?? null,
+                firstContactTime: event.contactWindow?.firstContact ?? null,
+                centerTime: event.contactWindow?.center ?? null,
+                lastContactTime: event.contactWindow?.lastContact ?? null,
+                angularRadius: event.contactWindow?.angularRadius ?? null,
+                alignmentClassification: event.alignment?.classification ?? null,
+                crossingHeight: event.alignment?.crossingHeight ?? null,
+                offsetDiameters: event.alignment?.offsetDiameters ?? null,
               },
             }),
           ),
@@ -264,12 +287,24 @@ export class EventCacheService {
           },
         },
       });
+      // 除外したパール候補も再計算で記録し直すため削除
+      await prisma.pearlRejection.deleteMany({
+        where: {
+          locationId: locationId,
+          calculationYear: year,
+          eventTime: {
+            gte: monthStart,
+            lte: monthEnd,
+          },
+        },
+      });
 
       // 月間イベントを計算
       const events = await this.astronomicalCalculator.calculateMonthlyEvents(
         year,
         month,
         [locationTyped],
+        EventCacheService.BATCH_PRECISION_SETTINGS,
       );
 
       // データベースに保存
@@ -289,6 +324,16 @@ prisma.locationEvent.create({
               calculationYear: year,
               eventType: this.getEventType(event),
               accuracy: this.mapAccuracy(event.accuracy),
+              occlusionStatus: event.lineOfSight?.status ?? null,
+              visibleHeight: event.lineOfSight?.visibleHeight ?? null,
+              refractionModel: event.refractionModel ?? null,
+              firstContactTime: event.contactWindow?.firstContact ?? null,
+              centerTime: event.contactWindow?.center ?? null,
+              lastContactTime: event.contactWindow?.lastContact ?? null,
+              angularRadius: event.contactWindow?.angularRadius ?? null,
+              alignmentClassification: event.alignment?.classification ?? null,
+              crossingHeight: event.alignment?.crossingHeight ?? null,
+              offsetDiameters: event.alignment?.offsetDiameters ?? null,
             },
           }),
         ),
@@ -390,16 +435,30 @@ prisma.locationEvent.create({
           },
         },
       });
+      // 除外したパール候補も再計算で記録し直すため削除
+      await prisma.pearlRejection.deleteMany({
+        where: {
+          locationId: locationId,
+          calculationYear: year,
+          eventTime: {
+            gte: dayStart,
+            lte: dayEnd,
+          },
+        },
+      });
 
       // その日のイベントを計算
       const date = new Date(year, month - 1, day, 12, 0, 0, 0); // JST 正午基準
       const diamondEvents =
-        await this.astronomicalCalculator.calculateDiamondSkytree(date, [
-          locationTyped,
-        ]);
+        await this.astronomicalCalculator.calculateDiamondSkytree(
+          date,
+          [locationTyped],
+          EventCacheService.BATCH_PRECISION_SETTINGS,
+        );
       const pearlEvents = await this.astronomicalCalculator.calculatePearlSkytree(
         date,
         [locationTyped],
+        EventCacheService.BATCH_PRECISION_SETTINGS,
       );
       const events = [...diamondEvents, ...pearlEvents];
 
@@ -420,6 +479,16 @@ prisma.locationEvent.create({
               calculationYear: year,
               eventType: this.getEventType(event),
               accuracy: this.mapAccuracy(event.accuracy),
+              occlusionStatus: event.lineOfSight?.status ?? null,
+              visibleHeight: event.lineOfSight?.visibleHeight ?? null,
+              refractionModel: event.refractionModel ?? null,
+              firstContactTime: event.contactWindow?.firstContact ?? null,
+              centerTime: event.contactWindow?.center ?? null,
+              lastContactTime: event.contactWindow?.lastContact ?? null,
+              angularRadius: event.contactWindow?.angularRadius ?? null,
+              alignmentClassification: event.alignment?.classification ?? null,
+              crossingHeight: event.alignment?.crossingHeight ?? null,
+              offsetDiameters: event.alignment?.offsetDiameters ?? null,
             },
           }),
         ),
@@ -511,12 +580,20 @@ prisma.locationEvent.create({
           calculationYear: year,
         },
       });
+      // 除外したパール候補も再計算で記録し直すため削除
+      await prisma.pearlRejection.deleteMany({
+        where: {
+          locationId: locationId,
+          calculationYear: year,
+        },
+      });
 
       // 年間イベントを計算
       const events =
         await this.astronomicalCalculator.calculateLocationYearlyEvents(
           locationTyped,
           year,
+          EventCacheService.BATCH_PRECISION_SETTINGS,
         );
 
       // データベースに保存
@@ -536,6 +613,16 @@ prisma.locationEvent.create({
               calculationYear: year,
               eventType: this.getEventType(event),
               accuracy: this.mapAccuracy(event.accuracy),
+              occlusionStatus: event.lineOfSight?.status ?? null,
+              visibleHeight: event.lineOfSight?.visibleHeight ?? null,
+              refractionModel: event.refractionModel ?? null,
+              firstContactTime: event.contactWindow?.firstContact ?? null,
+              centerTime: event.contactWindow?.center ?? null,
+              lastContactTime: event.contactWindow?.lastContact ?? null,
+              angularRadius: event.contactWindow?.angularRadius ?? null,
+              alignmentClassification: event.alignment?.classification ?? null,
+              crossingHeight: event.alignment?.crossingHeight ?? null,
+              offsetDiameters: event.alignment?.offsetDiameters ?? null,
             },
           }),
         ),
@@ -0,0 +1,141 @@
+import type {
+  Location,
+  LocationDuplicateCandidate,
+  LocationDuplicateReason,
+  LocationDuplicateRules,
+} from "@skytree-photo-planner/types";
+import { CoordinateCalculator } from "./astronomical/CoordinateCalculator";
+
+/**
+ * 重複の疑いがある撮影地点を探すクラス
+ *
+ * 指定した半径以内にある地点と、名前が似ている地点（正規化した名前の編集距離で判定）を候補にする。
+ * 判定は警告用で、登録・更新を止めるのは座標が完全に一致する場合（DB の一意制約）のみ
+ */
+export class LocationDuplicateDetector {
+  static readonly DEFAULT_RULES: LocationDuplicateRules = {
+    radiusMeters: 100,
+    nameSimilarity: 0.8,
+  };
+
+  private coordinateCalc = new CoordinateCalculator();
+
+  /**
+   * 重複候補を近い順に返す
+   */
+  findCandidates(
+    target: { name?: string; latitude: number; longitude: number },
+    locations: Location[],
+    rules: LocationDuplicateRules,
+    excludeId?: number,
+  ): LocationDuplicateCandidate[] {
+    const targetName = target.name ? this.normalizeName(target.name) : "";
+    const candidates: LocationDuplicateCandidate[] = [];
+
+    for (const location of locations) {
+      if (location.id === excludeId) continue;
+
+      const distanceMeters = this.coordinateCalc.calculateDistance(target, location);
+      const nameSimilarity = targetName
+        ? this.calculateSimilarity(targetName, this.normalizeName(location.name))
+        : 0;
+
+      const reasons: LocationDuplicateReason[] = [];
+      if (distanceMeters <= rules.radiusMeters) reasons.push("nearby");
+      if (targetName && nameSimilarity >= rules.nameSimilarity) reasons.push("similar_name");
+      if (reasons.length === 0) continue;
+
+      candidates.push({
+        id: location.id,
+        name: location.name,
+        prefecture: location.prefecture,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        distanceMeters: Math.round(distanceMeters),
+        nameSimilarity: Math.round(nameSimilarity * 100) / 100,
+        reasons,
+      });
+    }
+
+    return candidates.sort((a, b) => a.distanceMeters - b.distanceMeters);
+  }
+
+  /**
+   * 座標が完全に一致する候補（一意制約に反するため登録できない）
+   */
+  findExactMatch(
+    target: { latitude: number; longitude: number },
+    candidates: LocationDuplicateCandidate[],
+  ): LocationDuplicateCandidate | undefined {
+    return candidates.find(
+      (candidate) =>
+        candidate.latitude === target.latitude && candidate.longitude === target.longitude,
+    );
+  }
+
+  /**
+   * 候補を 1 行の説明にする（インポートの警告・ログ用）
+   */
+  describe(candidate: LocationDuplicateCandidate): string {
+    const details = [
+      candidate.reasons.includes("nearby") ? `距離 ${candidate.distanceMeters}m` : null,
+      candidate.reasons.includes("similar_name") ? "名前が類似" : null,
+    ].filter(Boolean);
+    return `ID ${candidate.id}「${candidate.name}」と重複の可能性があります（${details.join("・")}）`;
+  }
+
+  /**
+   * 不正な値を既定値で補完
+   */
+  static normalizeRules(rules: Partial<LocationDuplicateRules>): LocationDuplicateRules {
+    const defaults = LocationDuplicateDetector.DEFAULT_RULES;
+    const isFiniteNumber = (value: unknown): value is number =>
+      typeof value === "number" && isFinite(value);
+
+    return {
+      radiusMeters:
+        isFiniteNumber(rules.radiusMeters) && rules.radiusMeters >= 0
+          ? rules.radiusMeters
+          : defaults.radiusMeters,
+      nameSimilarity:
+        isFiniteNumber(rules.nameSimilarity) &&
+        rules.nameSimilarity > 0 &&
+        rules.nameSimilarity <= 1
+          ? rules.nameSimilarity
+          : defaults.nameSimilarity,
+    };
+  }
+
+  /**
+   * 全角・半角、大文字・小文字、空白と記号の違いを無視する
+   */
+  private normalizeName(name: string): string {
+    return name
+      .normalize("NFKC")
+      .toLowerCase()
+      .replace(/[\s・･\-－_()（）「」『』【】.,、。]/g, "");
+  }
+
+  /**
+   * 編集距離（レーベンシュタイン距離）による類似度（0-1）
+   */
+  private calculateSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (!a || !b) return 0;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+      }
+      previous = current;
+    }
+
+    return 1 - previous[b.length] / Math.max(a.length, b.length);
+  }
+}
@@ -0,0 +1,253 @@
+import type { Location, LocationFileFormat } from "@skytree-photo-planner/types";
+
+/**
+ * インポートファイルの 1 件分（列・プロパティがない項目はキーを持たない）
+ */
+export interface LocationImportRecord {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+// エクスポート・インポートする項目（CSV の列順）
+export const LOCATION_FILE_FIELDS = [
+  "id",
+  "name",
+  "prefecture",
+  "latitude",
+  "longitude",
+  "elevation",
+  "status",
+  "description",
+  "accessInfo",
+  "parkingInfo",
+  "measurementNotes",
+  "azimuthToSkytree",
+  "elevationToSkytree",
+  "distanceToSkytree",
+] as const;
+
+export type LocationFileField = (typeof LOCATION_FILE_FIELDS)[number];
+
+const UTF8_BOM = "\uFEFF";
+
+/**
+ * 撮影地点と JSON・CSV・GeoJSON の相互変換
+ *
+ * - CSV は RFC 4180 形式。表計算ソフトで文字化けしないよう BOM 付きで出力し、読み込み時は BOM を除く
+ * - GeoJSON は Point の FeatureCollection。座標は [経度, 緯度, 標高]、その他の項目は properties
+ */
+export class LocationFileConverter {
+  static readonly FORMATS: readonly LocationFileFormat[] = ["json", "csv", "geojson"];
+
+  private static readonly CONTENT_TYPES: Record<LocationFileFormat, string> = {
+    json: "application/json; charset=utf-8",
+    csv: "text/csv; charset=utf-8",
+    geojson: "application/geo+json; charset=utf-8",
+  };
+
+  serialize(
+    format: LocationFileFormat,
+    locations: Location[],
+  ): { content: string; contentType: string; extension: string } {
+    const content =
+      format === "csv"
+        ? this.toCsv(locations)
+        : format === "geojson"
+          ? JSON.stringify(this.toGeoJson(locations), null, 2)
+          : JSON.stringify(locations.map((location) => this.pickFields(location)), null, 2);
+
+    return {
+      content,
+      contentType: LocationFileConverter.CONTENT_TYPES[format],
+      extension: format,
+    };
+  }
+
+  /**
+   * ファイルの内容を読み込む（JSON は配列、CSV は文字列、GeoJSON は文字列またはオブジェクト）
+   */
+  parse(
+    format: LocationFileFormat,
+    content: unknown,
+  ): { records: LocationImportRecord[] } | { error: string } {
+    switch (format) {
+      case "csv":
+        return typeof content === "string"
+          ? this.parseCsv(content)
+          : { error: "CSV は文字列で指定してください。" };
+      case "geojson":
+        return this.parseGeoJson(content);
+      default:
+        return this.parseJson(content);
+    }
+  }
+
+  private pickFields(location: Location): Record<LocationFileField, unknown> {
+    return Object.fromEntries(
+      LOCATION_FILE_FIELDS.map((field) => [field, location[field] ?? null]),
+    ) as Record<LocationFileField, unknown>;
+  }
+
+  private toCsv(locations: Location[]): string {
+    const lines = [LOCATION_FILE_FIELDS.join(",")];
+    for (const location of locations) {
+      const values = this.pickFields(location);
+      lines.push(LOCATION_FILE_FIELDS.map((field) => this.escapeCsv(values[field])).join(","));
+    }
+    return UTF8_BOM + lines.join("\r\n") + "\r\n";
+  }
+
+  private escapeCsv(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private toGeoJson(locations: Location[]) {
+    return {
+      type: "FeatureCollection",
+      features: locations.map((location) => {
+        const { latitude, longitude, elevation, ...properties } = this.pickFields(location);
+        return {
+          type: "Feature",
+          geometry: {
+            type: "Point",
+            coordinates: [longitude, latitude, elevation],
+          },
+          properties,
+        };
+      }),
+    };
+  }
+
+  private parseJson(content: unknown): { records: LocationImportRecord[] } | { error: string } {
+    const data = typeof content === "string" ? this.tryParseJson(content) : content;
+    if (!Array.isArray(data)) {
+      return { error: "配列形式の JSON が必要です。" };
+    }
+    return {
+      records: data.map((item, index) => ({
+        row: index + 1,
+        values: this.pickKnownFields(item),
+      })),
+    };
+  }
+
+  private parseGeoJson(content: unknown): { records: LocationImportRecord[] } | { error: string } {
+    const data = (typeof content === "string" ? this.tryParseJson(content) : content) as {
+      type?: unknown;
+      features?: unknown;
+    } | null;
+    if (!data || data.type !== "FeatureCollection" || !Array.isArray(data.features)) {
+      return { error: "GeoJSON は FeatureCollection 形式で指定してください。" };
+    }
+
+    return {
+      records: data.features.map((feature: unknown, index: number) => {
+        const { geometry, properties } = (feature ?? {}) as {
+          geometry?: { type?: unknown; coordinates?: unknown };
+          properties?: unknown;
+        };
+        const values = this.pickKnownFields(properties);
+        // ジオメトリが Point でない場合は座標なしとして扱い、検証でエラーにする
+        if (geometry?.type === "Point" && Array.isArray(geometry.coordinates)) {
+          const [longitude, latitude, elevation] = geometry.coordinates;
+          values.longitude = longitude;
+          values.latitude = latitude;
+          if (elevation !== undefined) {
+            values.elevation = elevation;
+          }
+        }
+        return { row: index + 1, values };
+      }),
+    };
+  }
+
+  private parseCsv(content: string): { records: LocationImportRecord[] } | { error: string } {
+    const rows = this.splitCsv(content.startsWith(UTF8_BOM) ? content.slice(1) : content);
+    if (rows === null) {
+      return { error: "CSV の引用符が閉じられていません。" };
+    }
+
+    const [header, ...body] = rows;
+    const columns = (header ?? []).map((column) => column.trim());
+    if (!columns.includes("name")) {
+      return { error: "CSV の 1 行目に列名（name など）が必要です。" };
+    }
+
+    const records: LocationImportRecord[] = [];
+    body.forEach((cells, index) => {
+      // 空行は無視する
+      if (cells.every((cell) => cell.trim() === "")) return;
+      const values: Record<string, unknown> = {};
+      columns.forEach((column, columnIndex) => {
+        if ((LOCATION_FILE_FIELDS as readonly string[]).includes(column)) {
+          values[column] = cells[columnIndex] ?? "";
+        }
+      });
+      records.push({ row: index + 1, values });
+    });
+    return { records };
+  }
+
+  /**
+   * CSV を行・セルに分割（引用符が閉じていない場合は null）
+   */
+  private splitCsv(content: string): string[][] | null {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ",") {
+        row.push(cell);
+        cell = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && content[i + 1] === "\n") i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = "";
+      } else {
+        cell += char;
+      }
+    }
+
+    if (quoted) return null;
+    if (cell !== "" || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  private pickKnownFields(item: unknown): Record<string, unknown> {
+    if (!item || typeof item !== "object") return {};
+    return Object.fromEntries(
+      Object.entries(item).filter(([key]) =>
+        (LOCATION_FILE_FIELDS as readonly string[]).includes(key),
+      ),
+    );
+  }
+
+  private tryParseJson(content: string): unknown {
+    try {
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,377 @@
+import type {
+  Location,
+  LocationDuplicateRules,
+  LocationFieldChange,
+  LocationImportResult,
+  LocationImportRowDiff,
+  LocationStatus,
+} from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type {
+  LocationImportData,
+  LocationRepository,
+} from "../repositories/interfaces/LocationRepository";
+import type { QueueService } from "./interfaces/QueueService";
+import type { ISystemSettingsService } from "./interfaces/ISystemSettingsService";
+import type { LocationService } from "./LocationService";
+import type { LocationImportRecord } from "./LocationFileConverter";
+import { LocationDuplicateDetector } from "./LocationDuplicateDetector";
+
+const logger = getComponentLogger("LocationImportService");
+
+type TextField = "name" | "prefecture" | "description" | "accessInfo" | "parkingInfo" | "measurementNotes";
+type NumberField =
+  | "latitude"
+  | "longitude"
+  | "elevation"
+  | "azimuthToSkytree"
+  | "elevationToSkytree"
+  | "distanceToSkytree";
+
+const TEXT_FIELDS: readonly TextField[] = [
+  "name",
+  "prefecture",
+  "description",
+  "accessInfo",
+  "parkingInfo",
+  "measurementNotes",
+];
+const NUMBER_FIELDS: readonly NumberField[] = [
+  "latitude",
+  "longitude",
+  "elevation",
+  "azimuthToSkytree",
+  "elevationToSkytree",
+  "distanceToSkytree",
+];
+const METRIC_FIELDS = ["azimuthToSkytree", "elevationToSkytree", "distanceToSkytree"] as const;
+const REQUIRED_FIELDS = ["name", "prefecture", "latitude", "longitude", "elevation"] as const;
+const MAX_LENGTHS: Partial<Record<TextField, number>> = { name: 100, prefecture: 20 };
+const STATUSES: readonly LocationStatus[] = ["active", "restricted"];
+// 差分に含める項目の順番
+const DIFF_FIELDS: ReadonlyArray<keyof LocationImportData> = [
+  "name",
+  "prefecture",
+  "latitude",
+  "longitude",
+  "elevation",
+  "status",
+  "description",
+  "accessInfo",
+  "parkingInfo",
+  "measurementNotes",
+  "azimuthToSkytree",
+  "elevationToSkytree",
+  "distanceToSkytree",
+];
+
+/**
+ * 空欄・null は値の消去（null）、列やプロパティがない項目はキーなしとして扱う
+ */
+type ImportFields = {
+  [K in keyof LocationImportData]?: LocationImportData[K] | null;
+};
+
+interface PreparedRow {
+  diff: LocationImportRowDiff;
+  data?: LocationImportData | Partial<LocationImportData>;
+  positionChanged: boolean;
+}
+
+/**
+ * 撮影地点のインポート
+ *
+ * 反映前に全行の差分（create / update / unchanged / invalid と項目ごとの変更）を作る。
+ * invalid の行が 1 件でもある場合は何も反映せず、反映は 1 つのトランザクションで行う。
+ * 既存の地点と重複の疑いがある行は警告を付ける（反映は妨げない）
+ */
+export class LocationImportService {
+  private duplicateDetector = new LocationDuplicateDetector();
+
+  constructor(
+    private locationRepository: LocationRepository,
+    private locationService: LocationService,
+    private queueService: QueueService,
+    private settingsService: ISystemSettingsService,
+  ) {}
+
+  async importLocations(
+    records: LocationImportRecord[],
+    options: { dryRun: boolean },
+  ): Promise<LocationImportResult> {
+    const [existing, duplicateRules] = await Promise.all([
+      this.locationRepository.findAll(),
+      this.settingsService.getLocationDuplicateRules(),
+    ]);
+    const prepared = this.prepareRows(records, existing, duplicateRules);
+    const rows = prepared.map((row) => row.diff);
+    const summary = this.summarize(rows);
+
+    if (options.dryRun || summary.errorCount > 0) {
+      logger.info("撮影地点インポートの差分作成", {
+        dryRun: options.dryRun,
+        ...summary,
+      });
+      return { dryRun: options.dryRun, applied: false, summary, rows };
+    }
+
+    const creates = prepared.filter((row) => row.diff.action === "create");
+    const updates = prepared.filter((row) => row.diff.action === "update");
+    const { created } = await this.locationRepository.importBatch({
+      creates: creates.map((row) => row.data as LocationImportData),
+      updates: updates.map((row) => ({
+        id: row.diff.id as number,
+        data: row.data as Partial<LocationImportData>,
+      })),
+    });
+    creates.forEach((row, index) => {
+      row.diff.id = created[index]?.id;
+    });
+
+    // 新しい地点と位置が変わった地点は天体計算をやり直す（当年・翌年の 2 年分）
+    const recalculateIds = [
+      ...created.map((location) => location.id),
+      ...updates.filter((row) => row.positionChanged).map((row) => row.diff.id as number),
+    ];
+    this.scheduleCalculations(recalculateIds);
+
+    logger.info("撮影地点インポート完了", {
+      ...summary,
+      recalculateCount: recalculateIds.length,
+    });
+
+    return { dryRun: false, applied: true, summary, rows };
+  }
+
+  private prepareRows(
+    records: LocationImportRecord[],
+    existing: Location[],
+    duplicateRules: LocationDuplicateRules,
+  ): PreparedRow[] {
+    const existingById = new Map(existing.map((location) => [location.id, location]));
+    const idByCoordinates = new Map(
+      existing.map((location) => [this.coordinateKey(location), location.id]),
+    );
+    const seenIds = new Set<number>();
+    const seenCoordinates = new Map<string, number>();
+
+    return records.map((record) => {
+      const { id, fields, errors } = this.normalize(record.values);
+      const name = typeof fields.name === "string" ? fields.name : undefined;
+      const invalid = (messages: string[]): PreparedRow => ({
+        diff: {
+          row: record.row,
+          action: "invalid",
+          id,
+          name,
+          changes: [],
+          errors: messages,
+          warnings: [],
+        },
+        positionChanged: false,
+      });
+
+      if (errors.length > 0) return invalid(errors);
+
+      const current = id !== undefined ? existingById.get(id) : undefined;
+      if (id !== undefined) {
+        if (!current) return invalid([`ID ${id} の地点が見つかりません`]);
+        if (seenIds.has(id)) return invalid([`ID ${id} がファイル内で重複しています`]);
+        seenIds.add(id);
+      } else {
+        const missing = REQUIRED_FIELDS.filter(
+          (field) => fields[field] === undefined || fields[field] === null,
+        );
+        if (missing.length > 0) {
+          return invalid([`新規登録には ${missing.join(", ")} が必要です`]);
+        }
+      }
+
+      const merged = { ...current, ...fields } as LocationImportData;
+      const positionChanged =
+        !current ||
+        ["latitude", "longitude", "elevation"].some(
+          (field) =>
+            fields[field as NumberField] !== undefined &&
+            !this.isSameValue(fields[field as NumberField], current[field as NumberField]),
+        );
+
+      // 方位角・仰角・距離は、空欄の場合と位置が変わって指定がない場合に計算し直す
+      const needsMetrics = METRIC_FIELDS.some(
+        (field) => fields[field] === null || (positionChanged && fields[field] === undefined),
+      );
+      if (needsMetrics) {
+        const calculated = this.locationService.calculateSkytreeMetricsFor(
+          merged.latitude,
+          merged.longitude,
+          merged.elevation,
+        );
+        for (const field of METRIC_FIELDS) {
+          if (fields[field] === null || (positionChanged && fields[field] === undefined)) {
+            merged[field] = calculated[field];
+          }
+        }
+      }
+
+      const coordinateKey = this.coordinateKey(merged);
+      const conflictId = idByCoordinates.get(coordinateKey);
+      if (conflictId !== undefined && conflictId !== id) {
+        return invalid([`同じ座標の地点（ID ${conflictId}）が既に登録されています`]);
+      }
+      const conflictRow = seenCoordinates.get(coordinateKey);
+      if (conflictRow !== undefined) {
+        return invalid([`${conflictRow} 件目と同じ座標です`]);
+      }
+      seenCoordinates.set(coordinateKey, record.row);
+
+      const warnings = this.duplicateDetector
+        .findCandidates(merged, existing, duplicateRules, id)
+        .map((candidate) => this.duplicateDetector.describe(candidate));
+
+      if (!current) {
+        const changes = DIFF_FIELDS.filter(
+          (field) => merged[field] !== undefined && merged[field] !== null,
+        ).map((field) => this.change(field, null, merged[field]));
+        return {
+          diff: { row: record.row, action: "create", name, changes, errors: [], warnings },
+          data: merged,
+          positionChanged: true,
+        };
+      }
+
+      const changes: LocationFieldChange[] = [];
+      const data: Partial<LocationImportData> = {};
+      for (const field of DIFF_FIELDS) {
+        const before = current[field as keyof Location] as string | number | null | undefined;
+        const after = merged[field];
+        if (after !== undefined && !this.isSameValue(before, after)) {
+          changes.push(this.change(field, before, after));
+          (data as Record<string, unknown>)[field] = after;
+        }
+      }
+
+      // 変更のない行は既存の状態のままなので警告しない
+      return {
+        diff: {
+          row: record.row,
+          action: changes.length > 0 ? "update" : "unchanged",
+          id,
+          name: name ?? current.name,
+          changes,
+          errors: [],
+          warnings: changes.length > 0 ? warnings : [],
+        },
+        data,
+        positionChanged,
+      };
+    });
+  }
+
+  /**
+   * ファイルの値を型に合わせて変換し、形式の誤りを集める
+   */
+  private normalize(values: Record<string, unknown>): {
+    id?: number;
+    fields: ImportFields;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+    const fields: ImportFields = {};
+    const isBlank = (value: unknown) =>
+      value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+
+    let id: number | undefined;
+    if (!isBlank(values.id)) {
+      const parsed = Number(values.id);
+      if (Number.isInteger(parsed) && parsed > 0) {
+        id = parsed;
+      } else {
+        errors.push("id は正の整数で指定してください");
+      }
+    }
+
+    for (const field of TEXT_FIELDS) {
+      if (!(field in values)) continue;
+      const value = isBlank(values[field]) ? null : String(values[field]).trim();
+      const maxLength = MAX_LENGTHS[field];
+      if (value === null && (field === "name" || field === "prefecture")) {
+        errors.push(`${field} は空にできません`);
+      } else if (value !== null && maxLength && value.length > maxLength) {
+        errors.push(`${field} は ${maxLength} 文字以内で指定してください`);
+      }
+      fields[field] = value;
+    }
+
+    for (const field of NUMBER_FIELDS) {
+      if (!(field in values)) continue;
+      if (isBlank(values[field])) {
+        if (field === "latitude" || field === "longitude" || field === "elevation") {
+          errors.push(`${field} は空にできません`);
+        }
+        fields[field] = null;
+        continue;
+      }
+      const value = Number(values[field]);
+      if (!Number.isFinite(value)) {
+        errors.push(`${field} は数値で指定してください`);
+      } else if (field === "latitude" && (value < -90 || value > 90)) {
+        errors.push("latitude は -90〜90 の範囲で指定してください");
+      } else if (field === "longitude" && (value < -180 || value > 180)) {
+        errors.push("longitude は -180〜180 の範囲で指定してください");
+      }
+      fields[field] = value;
+    }
+
+    if ("status" in values && !isBlank(values.status)) {
+      const status = String(values.status).trim() as LocationStatus;
+      if (STATUSES.includes(status)) {
+        fields.status = status;
+      } else {
+        errors.push(`status は ${STATUSES.join(" / ")} で指定してください`);
+      }
+    }
+
+    return { id, fields, errors };
+  }
+
+  private summarize(rows: LocationImportRowDiff[]): LocationImportResult["summary"] {
+    const count = (action: LocationImportRowDiff["action"]) =>
+      rows.filter((row) => row.action === action).length;
+    return {
+      totalCount: rows.length,
+      createdCount: count("create"),
+      updatedCount: count("update"),
+      unchangedCount: count("unchanged"),
+      errorCount: count("invalid"),
+    };
+  }
+
+  private scheduleCalculations(locationIds: number[]): void {
+    const currentYear = new Date().getFullYear();
+    for (const locationId of locationIds) {
+      // 非同期でジョブを登録（レスポンスを待たない）
+      this.queueService
+        .scheduleLocationCalculation(locationId, currentYear, currentYear + 1, "normal")
+        .catch((error) => {
+          logger.error("天体計算ジョブ追加エラー", error, { locationId });
+        });
+    }
+  }
+
+  private change(field: string, before: unknown, after: unknown): LocationFieldChange {
+    const toValue = (value: unknown) =>
+      value === undefined || value === null ? null : (value as string | number);
+    return { field, before: toValue(before), after: toValue(after) };
+  }
+
+  private isSameValue(a: unknown, b: unknown): boolean {
+    if (typeof a === "number" && typeof b === "number") {
+      return Math.abs(a - b) < 1e-9;
+    }
+    return (a ?? null) === (b ?? null);
+  }
+
+  private coordinateKey(location: { latitude: number; longitude: number }): string {
+    return `${location.latitude},${location.longitude}`;
+  }
+}
@@ -0,0 +1,246 @@
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import * as exifr from "exifr";
+import type { LocationPhoto, LocationPhotoCategory } from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type {
+  LocationPhotoRecord,
+  LocationPhotoRepository,
+} from "../repositories/interfaces/LocationPhotoRepository";
+import type { PhotoStorage } from "./interfaces/PhotoStorage";
+
+const logger = getComponentLogger("LocationPhotoService");
+
+// アップロードできる画像形式（sharp が判定した形式）と保存時の拡張子・Content-Type・画質
+const FORMATS: Record<string, { extension: string; contentType: string; options: { quality?: number } }> = {
+  jpeg: { extension: "jpg", contentType: "image/jpeg", options: { quality: 90 } },
+  png: { extension: "png", contentType: "image/png", options: {} },
+  webp: { extension: "webp", contentType: "image/webp", options: { quality: 90 } },
+};
+
+// EXIF にタイムゾーンがない場合は日本時間とみなす
+const DEFAULT_EXIF_OFFSET = "+09:00";
+
+/**
+ * 撮影地点の参考写真（スカイツリー方向の眺め・駐車場・過去の作例）
+ *
+ * 画像の形式はファイルの内容から判定し、元画像は EXIF の向きを反映したうえでメタデータ
+ * （GPS 位置・機器のシリアル番号など）を含めずに保存し直す
+ * 一覧表示用に長辺 THUMBNAIL_SIZE の JPEG サムネイルを生成する
+ * 撮影日時・GPS 位置は保存し直す前の EXIF から取得する（ない場合は null）
+ */
+export class LocationPhotoService {
+  static readonly CATEGORIES: readonly LocationPhotoCategory[] = [
+    "skytree_view",
+    "parking",
+    "sample_shot",
+  ];
+  static readonly MAX_FILE_SIZE = 15 * 1024 * 1024;
+  static readonly CONTENT_TYPES = Object.values(FORMATS).map((format) => format.contentType);
+  private static readonly THUMBNAIL_SIZE = 480;
+
+  constructor(
+    private repository: LocationPhotoRepository,
+    private storage: PhotoStorage,
+  ) {}
+
+  async getPhotos(locationId: number): Promise<LocationPhoto[]> {
+    const records = await this.repository.findByLocationId(locationId);
+    return records.map((record) => this.toPhoto(record));
+  }
+
+  /**
+   * 写真を保存し、サムネイルの生成と EXIF の読み取りを行う
+   */
+  async addPhoto(
+    locationId: number,
+    file: { buffer: Buffer },
+    meta: { category: LocationPhotoCategory; caption: string | null },
+  ): Promise<{ photo: LocationPhoto } | { error: string }> {
+    let image: {
+      data: Buffer;
+      format: (typeof FORMATS)[string];
+      width: number;
+      height: number;
+      thumbnail: Buffer;
+    };
+    try {
+      const { format: detectedFormat } = await sharp(file.buffer).metadata();
+      const format = detectedFormat ? FORMATS[detectedFormat] : undefined;
+      if (!detectedFormat || !format) {
+        return { error: "JPEG・PNG・WebP の画像を指定してください。" };
+      }
+
+      // 縦位置で撮影した写真は EXIF の向きを画素に反映してから、メタデータを含めずに書き出す
+      const { data, info } = await sharp(file.buffer)
+        .rotate()
+        .toFormat(detectedFormat, format.options)
+        .toBuffer({ resolveWithObject: true });
+      const thumbnail = await sharp(data)
+        .resize(LocationPhotoService.THUMBNAIL_SIZE, LocationPhotoService.THUMBNAIL_SIZE, {
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+      image = { data, format, width: info.width, height: info.height, thumbnail };
+    } catch (error) {
+      logger.warn("画像の読み込みに失敗", { locationId, fileSize: file.buffer.length, error });
+      return { error: "画像を読み込めませんでした。ファイルが壊れていないか確認してください。" };
+    }
+
+    const exif = await this.readExif(file.buffer);
+    const baseKey = `locations/${locationId}/${randomUUID()}`;
+    const storageKey = `${baseKey}.${image.format.extension}`;
+    const thumbnailKey = `${baseKey}_thumb.jpg`;
+
+    await this.storage.save(storageKey, image.data, image.format.contentType);
+    await this.storage.save(thumbnailKey, image.thumbnail, "image/jpeg");
+
+    try {
+      const record = await this.repository.create({
+        locationId,
+        category: meta.category,
+        caption: meta.caption,
+        storageKey,
+        thumbnailKey,
+        contentType: image.format.contentType,
+        fileSize: image.data.length,
+        width: image.width,
+        height: image.height,
+        ...exif,
+      });
+
+      logger.info("参考写真登録", {
+        locationId,
+        photoId: record.id,
+        category: record.category,
+        hasTakenAt: record.takenAt !== null,
+        hasGps: record.gpsLatitude !== null,
+      });
+
+      return { photo: this.toPhoto(record) };
+    } catch (error) {
+      // レコードを保存できなかった場合は保存済みのファイルを残さない
+      await this.deleteFiles([storageKey, thumbnailKey]);
+      throw error;
+    }
+  }
+
+  /**
+   * 種類・説明を更新
+   * @returns 写真が存在しない場合は null
+   */
+  async updatePhoto(
+    id: number,
+    data: { category?: LocationPhotoCategory; caption?: string | null },
+  ): Promise<LocationPhoto | null> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return null;
+    }
+    return this.toPhoto(await this.repository.update(id, data));
+  }
+
+  /**
+   * 写真とファイルを削除
+   * @returns 写真が存在しない場合は false
+   */
+  async deletePhoto(id: number): Promise<boolean> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      return false;
+    }
+
+    await this.repository.delete(id);
+    await this.deleteFiles([existing.storageKey, existing.thumbnailKey]);
+    logger.info("参考写真削除", { locationId: existing.locationId, photoId: id });
+    return true;
+  }
+
+  /**
+   * 地点のすべての写真ファイルのキー（地点の削除後にファイルを消すために使う）
+   */
+  async getStorageKeys(locationId: number): Promise<string[]> {
+    const records = await this.repository.findByLocationId(locationId);
+    return records.flatMap((record) => [record.storageKey, record.thumbnailKey]);
+  }
+
+  /**
+   * ファイルを削除（失敗してもログのみ。レコードは削除済みのため処理は続ける）
+   */
+  async deleteFiles(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        logger.warn("写真ファイル削除失敗", { key, error });
+      }
+    }
+  }
+
+  /**
+   * ストレージからファイルを読み込む（ローカル保存のファイル配信用）
+   */
+  readFile(key: string): Promise<Buffer | null> {
+    return this.storage.read(key);
+  }
+
+  /**
+   * EXIF の撮影日時・GPS 位置（読み取れない項目は null）
+   */
+  private async readExif(
+    buffer: Buffer,
+  ): Promise<Pick<LocationPhotoRecord, "takenAt" | "gpsLatitude" | "gpsLongitude">> {
+    try {
+      const exif = (await exifr.parse(buffer, { reviveValues: false })) ?? {};
+      const isCoordinate = (value: unknown): value is number =>
+        typeof value === "number" && isFinite(value);
+      const hasGps = isCoordinate(exif.latitude) && isCoordinate(exif.longitude);
+
+      return {
+        takenAt: this.parseExifDate(
+          exif.DateTimeOriginal ?? exif.CreateDate,
+          exif.OffsetTimeOriginal ?? exif.OffsetTime,
+        ),
+        gpsLatitude: hasGps ? exif.latitude : null,
+        gpsLongitude: hasGps ? exif.longitude : null,
+      };
+    } catch (error) {
+      logger.debug("EXIF なし", { error });
+      return { takenAt: null, gpsLatitude: null, gpsLongitude: null };
+    }
+  }
+
+  /**
+   * EXIF の日時（"YYYY:MM:DD HH:MM:SS"）を Date に変換
+   */
+  private parseExifDate(value: unknown, offset: unknown): Date | null {
+    if (typeof value !== "string") return null;
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return null;
+
+    const [, year, month, day, hour, minute, second] = match;
+    const zone =
+      typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : DEFAULT_EXIF_OFFSET;
+    const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private toPhoto(record: LocationPhotoRecord): LocationPhoto {
+    return {
+      id: record.id,
+      locationId: record.locationId,
+      category: record.category,
+      caption: record.caption,
+      url: this.storage.getUrl(record.storageKey),
+      thumbnailUrl: this.storage.getUrl(record.thumbnailKey),
+      width: record.width,
+      height: record.height,
+      takenAt: record.takenAt,
+      gpsLatitude: record.gpsLatitude,
+      gpsLongitude: record.gpsLongitude,
+      createdAt: record.createdAt,
+    };
+  }
+}
@@ -0,0 +1,190 @@
+import type {
+  ApproveLocationRequestBody,
+  Location,
+  LocationDuplicateCandidate,
+  LocationRequest,
+  LocationRequestConfig,
+  LocationRequestStatus,
+} from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type {
+  LocationRequestInput,
+  LocationRequestRepository,
+} from "../repositories/interfaces/LocationRequestRepository";
+import type { CaptchaVerifier } from "./interfaces/CaptchaVerifier";
+import { LocationService } from "./LocationService";
+
+const logger = getComponentLogger("LocationRequestService");
+
+/**
+ * 審査の結果
+ * 座標が完全に一致する地点がある場合は承認せず、重複候補を返す
+ */
+export type LocationRequestReviewResult =
+  | {
+      request: LocationRequest;
+      location?: Location;
+      duplicates?: LocationDuplicateCandidate[];
+    }
+  | { error: "not_found" | "already_processed" }
+  | {
+      error: "duplicate";
+      exactDuplicate: LocationDuplicateCandidate;
+      duplicates: LocationDuplicateCandidate[];
+    };
+
+/**
+ * 追加リクエストの受付結果
+ * キャプチャ必須でキャプチャ検証サービスが未設定の場合は captcha_unavailable
+ */
+export type LocationRequestSubmitResult =
+  | { request: LocationRequest }
+  | { error: "captcha_failed" | "captcha_unavailable" };
+
+/**
+ * 撮影地点の追加リクエスト（一般利用者からの提案と管理者の審査）
+ *
+ * 承認すると LocationService で地点を作成する（天体計算ジョブの登録も LocationService が行う）
+ * キャプチャ検証サービスが未設定の場合、requireCaptcha（本番環境）なら受け付けず、それ以外はトークンの検証を行わない
+ */
+export class LocationRequestService {
+  constructor(
+    private repository: LocationRequestRepository,
+    private locationService: LocationService,
+    private captchaVerifier: CaptchaVerifier | null,
+    private requireCaptcha = false,
+  ) {}
+
+  /**
+   * 追加リクエストのフォームで使う設定
+   */
+  getConfig(): LocationRequestConfig {
+    return {
+      captcha: this.captchaVerifier
+        ? { provider: this.captchaVerifier.name, siteKey: this.captchaVerifier.siteKey }
+        : null,
+    };
+  }
+
+  /**
+   * キャプチャを検証して追加リクエストを登録する
+   */
+  async submitRequest(
+    request: LocationRequestInput,
+    captchaToken: string,
+  ): Promise<LocationRequestSubmitResult> {
+    if (!this.captchaVerifier && this.requireCaptcha) {
+      logger.error("キャプチャ未設定のため追加リクエストを受け付けない", { ip: request.requesterIp });
+      return { error: "captcha_unavailable" };
+    }
+
+    if (this.captchaVerifier) {
+      const verified = await this.captchaVerifier.verify(captchaToken, request.requesterIp);
+      if (!verified) {
+        logger.warn("追加リクエストのキャプチャ検証失敗", {
+          provider: this.captchaVerifier.name,
+          ip: request.requesterIp,
+        });
+        return { error: "captcha_failed" };
+      }
+    }
+
+    const created = await this.repository.create(request);
+    logger.info("追加リクエスト受付", {
+      locationRequestId: created.id,
+      name: created.name,
+      hasCoordinates: created.suggestedLatitude !== undefined,
+    });
+    return { request: created };
+  }
+
+  async getRequests(status?: LocationRequestStatus): Promise<{
+    requests: LocationRequest[];
+    counts: Record<LocationRequestStatus, number>;
+  }> {
+    const [requests, counts] = await Promise.all([
+      this.repository.findByStatus(status),
+      this.repository.countByStatus(),
+    ]);
+    return { requests, counts };
+  }
+
+  /**
+   * 追加リクエストを承認し、地点を作成する
+   * 地点名・都道府県・説明は指定がなければリクエストの値を使う
+   */
+  async approveRequest(
+    id: number,
+    adminId: number,
+    data: ApproveLocationRequestBody,
+  ): Promise<LocationRequestReviewResult> {
+    const request = await this.repository.findById(id);
+    if (!request) {
+      return { error: "not_found" };
+    }
+    if (request.status !== "pending") {
+      return { error: "already_processed" };
+    }
+
+    const createData = {
+      ...data,
+      name: data.name ?? request.name,
+      prefecture: data.prefecture ?? request.prefecture,
+      description: data.description ?? request.description,
+    };
+
+    const duplicates = await this.locationService.findDuplicateCandidates(createData);
+    const exactDuplicate = this.locationService.findExactDuplicate(createData, duplicates);
+    if (exactDuplicate) {
+      return { error: "duplicate", exactDuplicate, duplicates };
+    }
+
+    // 先に承認済みにしておき、同時に承認された場合に地点を二重に作成しない
+    const claimed = await this.repository.decideIfPending(id, {
+      status: "approved",
+      processedBy: adminId,
+    });
+    if (!claimed) {
+      return { error: "already_processed" };
+    }
+
+    let location: Location;
+    try {
+      location = await this.locationService.createLocation(createData);
+    } catch (error) {
+      await this.repository.revertToPending(id);
+      throw error;
+    }
+
+    const approved = await this.repository.setLocationId(id, location.id);
+    logger.info("追加リクエスト承認", {
+      locationRequestId: id,
+      locationId: location.id,
+      adminId,
+      duplicateCount: duplicates.length,
+    });
+
+    return { request: approved, location, duplicates };
+  }
+
+  /**
+   * 追加リクエストを却下する
+   */
+  async rejectRequest(id: number, adminId: number): Promise<LocationRequestReviewResult> {
+    const request = await this.repository.findById(id);
+    if (!request) {
+      return { error: "not_found" };
+    }
+
+    const rejected = await this.repository.decideIfPending(id, {
+      status: "rejected",
+      processedBy: adminId,
+    });
+    if (!rejected) {
+      return { error: "already_processed" };
+    }
+
+    logger.info("追加リクエスト却下", { locationRequestId: id, adminId });
+    return { request: rejected };
+  }
+}
@@ -1,8 +1,25 @@
 import { Location, CreateLocationRequest, SKYTREE_COORDINATES } from "@skytree-photo-planner/types";
+import type {
+  DayTimeline,
+  LocationDuplicateCandidate,
+  LocationMergeResult,
+  LocationSearchResult,
+  LocationSpatialQuery,
+  ShootPlan,
+  SkyTrack,
+} from "@skytree-photo-planner/types";
 import { getComponentLogger } from "@skytree-photo-planner/utils";
 import { LocationRepository } from "../repositories/interfaces/LocationRepository";
 import { SkytreeAstronomicalCalculator } from "./SkytreeAstronomicalCalculator";
 import { QueueService } from "./interfaces/QueueService";
+import type { ISystemSettingsService } from "./interfaces/ISystemSettingsService";
+import { DayTimelineCalculator } from "./astronomical/DayTimelineCalculator";
+import { SkyTrackCalculator } from "./astronomical/SkyTrackCalculator";
+import { ShootPlanCalculator } from "./astronomical/ShootPlanCalculator";
+import type { ShootPlanParams } from "./astronomical/ShootPlanCalculator";
+import { LocationDuplicateDetector } from "./LocationDuplicateDetector";
+import { CoordinateCalculator } from "./astronomical/CoordinateCalculator";
+import { LocationPhotoService } from "./LocationPhotoService";
 
 const logger = getComponentLogger("LocationService");
 
@@ -18,10 +35,18 @@ const FALLBACK_SKYTREE_COORDINATES = {
  * Repository パターンでデータアクセス層と Controller 層を分離
  */
 export class LocationService {
+  private dayTimelineCalc = new DayTimelineCalculator();
+  private skyTrackCalc = new SkyTrackCalculator();
+  private shootPlanCalc = new ShootPlanCalculator();
+  private duplicateDetector = new LocationDuplicateDetector();
+  private coordinateCalc = new CoordinateCalculator();
+
   constructor(
     private locationRepository: LocationRepository,
     private astronomicalCalculator: SkytreeAstronomicalCalculator,
     private queueService: QueueService,
+    private settingsService: ISystemSettingsService,
+    private photoService: LocationPhotoService,
   ) {}
 
   /**
@@ -117,6 +142,67 @@ export class LocationService {
     return await this.locationRepository.findById(id);
   }
 
+  /**
+   * 地点・日付（YYYY-MM-DD, JST）の 1 日のタイムラインを取得
+   * 地点が存在しない場合は null
+   */
+  async getLocationTimeline(id: number, date: string): Promise<DayTimeline | null> {
+    const location = await this.locationRepository.findById(id);
+    if (!location) {
+      return null;
+    }
+    return this.dayTimelineCalc.calculateTimeline(location, date);
+  }
+
+  /**
+   * 地点から見た中心時刻の前後の太陽・月の軌跡を取得
+   * イベントと同じ大気屈折補正の設定で計算する。地点が存在しない場合は null
+   */
+  async getSkyTrack(
+    id: number,
+    body: "sun" | "moon",
+    centerTime: Date,
+  ): Promise<SkyTrack | null> {
+    const location = await this.locationRepository.findById(id);
+    if (!location) {
+      return null;
+    }
+    const refraction = await this.settingsService.getRefractionSettings();
+    return this.skyTrackCalc.calculateTrack(location, body, centerTime, refraction);
+  }
+
+  /**
+   * イベントの時刻から移動・設営の時間を逆算した撮影計画を取得
+   * 各工程の太陽・月の位置はイベントと同じ大気屈折補正の設定で計算する。地点が存在しない場合は null
+   */
+  async getShootPlan(id: number, params: ShootPlanParams): Promise<ShootPlan | null> {
+    const location = await this.locationRepository.findById(id);
+    if (!location) {
+      return null;
+    }
+    const refraction = await this.settingsService.getRefractionSettings();
+    return this.shootPlanCalc.calculatePlan(location, params, refraction);
+  }
+
+  /**
+   * 座標からスカイツリーへの方位角・仰角・距離を計算（インポートの事前確認用）
+   */
+  calculateSkytreeMetricsFor(
+    latitude: number,
+    longitude: number,
+    elevation: number,
+  ): { azimuthToSkytree: number; elevationToSkytree: number; distanceToSkytree: number } {
+    const metrics = this.calculateSkytreeMetrics(latitude, longitude, elevation);
+    return {
+      azimuthToSkytree: metrics.azimuth,
+      elevationToSkytree: this.calculateSkytreeElevationSafely(
+        this.createLocationObject({ latitude, longitude, elevation }),
+        "インポート",
+      ),
+      distanceToSkytree: metrics.distance,
+    };
+  }
+
   /**
    * 新しい地点の作成
    * ユーザー入力値を優先し、未入力の場合のみ自動計算
@@ -531,12 +617,77 @@ export class LocationService {
   async deleteLocation(id: number): Promise<boolean> {
     logger.info("地点削除開始", { locationId: id });
 
+    // 写真のレコードは地点と一緒に削除されるため、ファイルのキーを先に取得しておく
+    const photoKeys = await this.photoService.getStorageKeys(id);
     await this.locationRepository.delete(id);
-    logger.info("地点削除完了", { locationId: id });
+    await this.photoService.deleteFiles(photoKeys);
+    logger.info("地点削除完了", { locationId: id, deletedPhotoFileCount: photoKeys.length });
 
     return true;
   }
 
+  /**
+   * 重複の疑いがある地点（設定した半径以内・名前が類似）を近い順に取得
+   * 更新時は excludeId に自身の ID を指定する
+   */
+  async findDuplicateCandidates(
+    target: { name?: string; latitude: number; longitude: number },
+    excludeId?: number,
+  ): Promise<LocationDuplicateCandidate[]> {
+    const [locations, rules] = await Promise.all([
+      this.locationRepository.findAll(),
+      this.settingsService.getLocationDuplicateRules(),
+    ]);
+    return this.duplicateDetector.findCandidates(target, locations, rules, excludeId);
+  }
+
+  /**
+   * 座標が完全に一致する重複候補（一意制約のため登録・更新できない）
+   */
+  findExactDuplicate(
+    target: { latitude: number; longitude: number },
+    candidates: LocationDuplicateCandidate[],
+  ): LocationDuplicateCandidate | undefined {
+    return this.duplicateDetector.findExactMatch(target, candidates);
+  }
+
+  /**
+   * 統合元の地点を統合先にまとめる
+   * イベントは統合先に付け替え、統合先で未入力の説明・アクセス情報などは統合元の値で補う
+   */
+  async mergeLocations(sourceId: number, targetId: number): Promise<LocationMergeResult | null> {
+    logger.info("地点統合開始", { sourceId, targetId });
+
+    const [source, target] = await Promise.all([
+      this.locationRepository.findById(sourceId),
+      this.locationRepository.findById(targetId),
+    ]);
+    if (!source || !target) {
+      return null;
+    }
+
+    const fill: Partial<
+      Pick<Location, "description" | "accessInfo" | "parkingInfo" | "measurementNotes">
+    > = {};
+    for (const field of ["description", "accessInfo", "parkingInfo", "measurementNotes"] as const) {
+      if (!target[field] && source[field]) {
+        fill[field] = source[field];
+      }
+    }
+
+    const result = await this.locationRepository.merge(sourceId, targetId, fill);
+
+    logger.info("地点統合完了", {
+      sourceId,
+      targetId,
+      filledFields: Object.keys(fill),
+      movedEventCount: result.movedEventCount,
+      droppedEventCount: result.droppedEventCount,
+    });
+
+    return { ...result, sourceId };
+  }
+
   /**
    * 条件による地点の検索
    */
@@ -548,6 +699,31 @@ export class LocationService {
     return await this.locationRepository.findByCondition(condition);
   }
 
+  /**
+   * 範囲条件による地点の検索
+   * 中心を指定した場合は中心からの距離順（半径があれば円内のみ）、それ以外はスカイツリーに近い順
+   */
+  async searchLocationsByArea(query: LocationSpatialQuery): Promise<LocationSearchResult[]> {
+    const locations = await this.locationRepository.findBySpatialQuery(query);
+    const center = query.center;
+
+    let results: LocationSearchResult[] = locations;
+    if (center) {
+      results = locations
+        .map((location) => ({
+          ...location,
+          distanceFromCenter: Math.round(this.coordinateCalc.calculateDistance(center, location)),
+        }))
+        .filter(
+          (location) =>
+            center.radiusMeters === undefined || location.distanceFromCenter <= center.radiusMeters,
+        )
+        .sort((a, b) => a.distanceFromCenter - b.distanceFromCenter);
+    }
+
+    return query.limit !== undefined ? results.slice(0, query.limit) : results;
+  }
+
   /**
    * スカイツリーへの距離・方位角を計算
    */
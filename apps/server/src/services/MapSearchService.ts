@@ -0,0 +1,555 @@
+import type {
+  AlignmentTarget,
+  Location,
+  MapComparison,
+  MapComparisonCell,
+  MapComparisonPoint,
+  MapComparisonPointSummary,
+  MapComparisonRow,
+  MapSearchJobProgress,
+  SkytreeEvent,
+} from "@skytree-photo-planner/types";
+import { createHash } from "crypto";
+import { getComponentLogger, timeUtils } from "@skytree-photo-planner/utils";
+import type {
+  AlignmentPrecisionSettings,
+  SkytreeAlignmentCalculator,
+} from "./astronomical/SkytreeAlignmentCalculator";
+import { AlignmentTargetService } from "./AlignmentTargetService";
+import type { ISystemSettingsService } from "./interfaces/ISystemSettingsService";
+import { RedisService } from "./RedisService";
+import type { MapSearchCacheKey } from "./RedisService";
+
+const logger = getComponentLogger("MapSearchService");
+
+export type MapSearchScene = "all" | "diamond" | "pearl";
+export type MapSearchMode = "auto" | "fast" | "balanced" | "precise";
+
+/**
+ * 地図検索の条件（目標点は解決済みのもの）
+ */
+export interface MapSearchParams {
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  scene: MapSearchScene;
+  searchMode: MapSearchMode;
+  startDate: Date;
+  endDate: Date;
+  target?: AlignmentTarget;
+}
+
+/**
+ * 比較検索の条件（地点以外は地図検索と共通）
+ */
+export interface MapCompareParams
+  extends Omit<MapSearchParams, "latitude" | "longitude" | "elevation"> {
+  points: MapComparisonPoint[];
+}
+
+export interface MapCompareResult {
+  comparison: MapComparison;
+  cancelled: boolean;
+}
+
+export interface MapSearchResult {
+  events: SkytreeEvent[]; // 時刻順（件数の上限なし）
+  searchInterval: number;
+  cancelled: boolean;
+}
+
+export interface MapSearchOptions {
+  // 進捗の通知（PROGRESS_INTERVAL_DAYS 日ごとと最終日）
+  onProgress?: (progress: MapSearchJobProgress) => Promise<void> | void;
+  // 中断の確認（進捗の通知と同じ間隔で確認する）
+  isCancelled?: () => Promise<boolean> | boolean;
+}
+
+// イベント種別ごとの日別結果キャッシュ（cached は読み込んだ結果、pending は未保存の計算結果）
+type MapSearchDayCache = Map<
+  "diamond" | "pearl",
+  {
+    key: MapSearchCacheKey;
+    cached: Map<string, SkytreeEvent[]>;
+    pending: Map<string, SkytreeEvent[]>;
+  }
+>;
+
+/**
+ * 地図上の任意地点でダイヤモンド・パールスカイツリーを日付ループで検索するサービス
+ * 地図検索ジョブ（単一地点・比較・おすすめ地点）から使う
+ *
+ * RedisService がある場合は日別・イベント種別ごとの結果をキャッシュする
+ * キャッシュのキーと計算結果を一致させるため、地点はキーと同じ丸めた座標・標高（約 1m 単位）で計算する
+ */
+export class MapSearchService {
+  static readonly MAX_SEARCH_DAYS = 1095; // 3 年 = 365 * 3
+  static readonly MAX_COMPARE_POINTS = 5;
+  private static readonly PROGRESS_INTERVAL_DAYS = 7;
+  private static readonly SEARCH_INTERVAL_DAYS = 1; // 全モード共通で日単位検索
+
+  constructor(
+    private skytreeAlignmentCalculator: SkytreeAlignmentCalculator,
+    private settingsService: ISystemSettingsService,
+    private redisService: RedisService | null = null,
+  ) {}
+
+  /**
+   * 検索期間の日数
+   */
+  static getDaysDiff(startDate: Date, endDate: Date): number {
+    return (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+  }
+
+  /**
+   * 日付ループで検索を実行
+   * 中断された場合は cancelled = true とそれまでの結果を返す
+   */
+  async search(
+    params: MapSearchParams,
+    options: MapSearchOptions = {},
+  ): Promise<MapSearchResult> {
+    const { events, searchInterval, processedDays, totalDays, cached, cancelled } =
+      await this.collectEvents(params, options);
+
+    // 高度レンジ × 昇る/沈む × イベントタイプでグループ化して、各グループで最も精度の良いものを選択
+    const sortedEvents = this.filterEventsByElevationRange(events).sort(
+      (a, b) => new Date(a.time).getTime() - new Date(b.time).getTime(),
+    );
+
+    logger.info("地図検索完了", {
+      latitude: params.latitude,
+      longitude: params.longitude,
+      elevation: params.elevation,
+      scene: params.scene,
+      searchMode: params.searchMode,
+      searchInterval,
+      targetId: params.target?.id,
+      dateRange: `${params.startDate.toISOString()} - ${params.endDate.toISOString()}`,
+      processedDays,
+      totalDays,
+      totalEvents: sortedEvents.length,
+      cacheEnabled: cached,
+      cancelled,
+    });
+
+    return { events: sortedEvents, searchInterval, cancelled };
+  }
+
+  /**
+   * 複数の候補地点を同じ条件で検索し、日付 × 地点の比較表を作成
+   * 地点は順に検索し、進捗は全地点の合計日数で通知する
+   */
+  async compare(
+    params: MapCompareParams,
+    options: MapSearchOptions = {},
+  ): Promise<MapCompareResult> {
+    const daysPerPoint = this.getSearchDates(params.startDate, params.endDate).length;
+    const totalDays = daysPerPoint * params.points.length;
+    const eventsByPoint = new Map<string, SkytreeEvent[]>();
+    let eventsFound = 0;
+    let cancelled = false;
+
+    for (const [index, point] of params.points.entries()) {
+      const result = await this.collectEvents(
+        { ...params, ...point },
+        {
+          onProgress: (progress) =>
+            options.onProgress?.({
+              processedDays: index * daysPerPoint + progress.processedDays,
+              totalDays,
+              eventsFound: eventsFound + progress.eventsFound,
+            }),
+          isCancelled: options.isCancelled,
+        },
+      );
+      eventsByPoint.set(point.id, result.events);
+      eventsFound += result.events.length;
+      if (result.cancelled) {
+        cancelled = true;
+        break;
+      }
+    }
+
+    const comparison = this.buildComparison(params, eventsByPoint);
+
+    logger.info("比較検索完了", {
+      pointCount: params.points.length,
+      scene: params.scene,
+      searchMode: params.searchMode,
+      targetId: params.target?.id,
+      dateRange: `${params.startDate.toISOString()} - ${params.endDate.toISOString()}`,
+      totalDays,
+      eventsFound,
+      rowCount: comparison.rows.length,
+      cancelled,
+    });
+
+    return { comparison, cancelled };
+  }
+
+  /**
+   * 日付ループで 1 地点のイベントを収集（高度レンジによる絞り込み前）
+   */
+  private async collectEvents(
+    params: MapSearchParams,
+    options: MapSearchOptions,
+  ): Promise<{
+    events: SkytreeEvent[];
+    searchInterval: number;
+    processedDays: number;
+    totalDays: number;
+    cached: boolean;
+    cancelled: boolean;
+  }> {
+    const { latitude, longitude, scene, searchMode, startDate, endDate } = params;
+    const searchInterval = MapSearchService.SEARCH_INTERVAL_DAYS;
+    const virtualLocation = this.createVirtualLocation(
+      this.redisService ? { ...params, ...RedisService.quantizeMapSearchPoint(params) } : params,
+    );
+    const precisionSettings = this.getPrecisionSettings(
+      searchMode,
+      MapSearchService.getDaysDiff(startDate, endDate),
+    );
+    // 頂部の目標点は目標点なし（頂部基準の従来判定）と同じにする（カレンダーと共通）
+    if (params.target && !AlignmentTargetService.isSummit(params.target)) {
+      precisionSettings.target = params.target;
+    }
+
+    const dates = this.getSearchDates(startDate, endDate);
+    const totalDays = dates.length;
+
+    // 撮影シーンに応じて検索するイベント種別
+    const types: Array<"diamond" | "pearl"> =
+      scene === "all" ? ["diamond", "pearl"] : [scene];
+    const cache = await this.loadCache(virtualLocation, types, precisionSettings, dates);
+
+    const events: SkytreeEvent[] = [];
+    let processedDays = 0;
+    let cancelled = false;
+
+    for (const date of dates) {
+      const dateString = timeUtils.formatDateString(date);
+      for (const type of types) {
+        const cachedEvents = cache?.get(type).cached.get(dateString);
+        if (cachedEvents) {
+          events.push(...cachedEvents);
+          continue;
+        }
+
+        try {
+          const dayEvents =
+            type === "diamond"
+              ? await this.skytreeAlignmentCalculator.findDiamondSkytree(
+                  new Date(date),
+                  virtualLocation,
+                  precisionSettings,
+                )
+              : await this.skytreeAlignmentCalculator.findPearlSkytree(
+                  new Date(date),
+                  virtualLocation,
+                  precisionSettings,
+                );
+          events.push(...dayEvents);
+          cache?.get(type).pending.set(dateString, dayEvents);
+        } catch (error) {
+          logger.warn("地図検索での日付処理エラー", {
+            error: error as Error,
+            date: date.toISOString(),
+            type,
+            latitude,
+            longitude,
+          });
+        }
+      }
+      processedDays++;
+
+      if (
+        processedDays % MapSearchService.PROGRESS_INTERVAL_DAYS === 0 ||
+        processedDays === totalDays
+      ) {
+        await this.flushCache(cache);
+        await options.onProgress?.({
+          processedDays,
+          totalDays,
+          eventsFound: events.length,
+        });
+        if (processedDays < totalDays && (await options.isCancelled?.())) {
+          cancelled = true;
+          break;
+        }
+      }
+    }
+
+    return {
+      events,
+      searchInterval,
+      processedDays,
+      totalDays,
+      cached: !!cache,
+      cancelled,
+    };
+  }
+
+  /**
+   * 検索する日付の一覧（開始日から 1 日ずつ）
+   */
+  private getSearchDates(startDate: Date, endDate: Date): Date[] {
+    const dates: Date[] = [];
+    for (
+      const currentDate = new Date(startDate);
+      currentDate <= endDate;
+      currentDate.setDate(currentDate.getDate() + MapSearchService.SEARCH_INTERVAL_DAYS)
+    ) {
+      dates.push(new Date(currentDate));
+    }
+    return dates;
+  }
+
+  /**
+   * 地点ごとのイベントから比較表を作成
+   * 行はいずれかの地点でイベントがある日のみ、セルはその日の qualityScore が最も高いイベント
+   */
+  private buildComparison(
+    params: MapCompareParams,
+    eventsByPoint: Map<string, SkytreeEvent[]>,
+  ): MapComparison {
+    const cellsByDate = new Map<string, Map<string, SkytreeEvent[]>>();
+    for (const [pointId, events] of eventsByPoint) {
+      for (const event of events) {
+        const date = timeUtils.formatDateString(new Date(event.time));
+        if (!cellsByDate.has(date)) {
+          cellsByDate.set(date, new Map());
+        }
+        const cell = cellsByDate.get(date)!;
+        cell.set(pointId, [...(cell.get(pointId) ?? []), event]);
+      }
+    }
+
+    const rows: MapComparisonRow[] = Array.from(cellsByDate.keys())
+      .sort()
+      .map((date) => ({
+        date,
+        cells: params.points.map((point): MapComparisonCell => {
+          const events = cellsByDate.get(date)!.get(point.id) ?? [];
+          return {
+            pointId: point.id,
+            eventCount: events.length,
+            bestEvent: events.length > 0 ? this.selectBestEvent(events) : undefined,
+          };
+        }),
+      }));
+
+    const summaries = params.points.map((point, index): MapComparisonPointSummary => {
+      const scores = rows
+        .map((row) => row.cells[index].bestEvent?.qualityScore)
+        .filter((score): score is number => score !== undefined);
+      return {
+        pointId: point.id,
+        eventDays: rows.filter((row) => row.cells[index].eventCount > 0).length,
+        totalEvents: eventsByPoint.get(point.id)?.length ?? 0,
+        bestQualityScore: scores.length > 0 ? Math.max(...scores) : undefined,
+        averageQualityScore:
+          scores.length > 0
+            ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10
+            : undefined,
+      };
+    });
+
+    return {
+      scene: params.scene,
+      startDate: params.startDate,
+      endDate: params.endDate,
+      points: params.points,
+      rows,
+      summaries,
+    };
+  }
+
+  /**
+   * qualityScore が最も高いイベント（同点の場合は先に見つかったもの）
+   */
+  private selectBestEvent(events: SkytreeEvent[]): SkytreeEvent {
+    return events.reduce((best, current) =>
+      (current.qualityScore || 0) > (best.qualityScore || 0) ? current : best
+    );
+  }
+
+  /**
+   * イベント種別ごとに日別結果のキャッシュを読み込む（RedisService がない場合は null）
+   * pending には計算した日の結果をためて、進捗の通知ごとに保存する
+   */
+  private async loadCache(
+    location: Location,
+    types: Array<"diamond" | "pearl">,
+    precisionSettings: AlignmentPrecisionSettings,
+    dates: Date[],
+  ): Promise<MapSearchDayCache | null> {
+    if (!this.redisService) {
+      return null;
+    }
+
+    const settingsHash = await this.getSettingsHash(precisionSettings);
+    const dateStrings = dates.map((date) => timeUtils.formatDateString(date));
+    const cache: MapSearchDayCache = new Map();
+    for (const type of types) {
+      const key: MapSearchCacheKey = {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        elevation: location.elevation,
+        type,
+        settingsHash,
+      };
+      cache.set(type, {
+        key,
+        cached: await this.redisService.getMapSearchDays(key, dateStrings),
+        pending: new Map(),
+      });
+    }
+    return cache;
+  }
+
+  /**
+   * 計算済みでキャッシュ未保存の日別結果を保存
+   */
+  private async flushCache(
+    cache: MapSearchDayCache | null,
+  ): Promise<void> {
+    if (!cache || !this.redisService) {
+      return;
+    }
+    for (const entry of cache.values()) {
+      await this.redisService.cacheMapSearchDays(entry.key, entry.pending);
+      entry.pending.clear();
+    }
+  }
+
+  /**
+   * 計算結果に影響する設定（精度設定・目標点・大気屈折・パールの判定条件・検索方式・見通し判定）のハッシュ
+   * 設定や標高データのプロバイダーが変わると別のキャッシュを使う
+   */
+  private async getSettingsHash(
+    precisionSettings: AlignmentPrecisionSettings,
+  ): Promise<string> {
+    const [refraction, pearlRules, defaultStrategy, terrainOcclusion] = await Promise.all([
+      this.settingsService.getRefractionSettings(),
+      this.settingsService.getPearlGatingRules(),
+      this.settingsService.getStringSetting("alignment_search_strategy", "scan"),
+      this.settingsService.getTerrainOcclusionSettings(),
+    ]);
+    const fingerprint = JSON.stringify({
+      searchInterval: precisionSettings.searchInterval,
+      toleranceLevel: precisionSettings.toleranceLevel,
+      strategy: precisionSettings.strategy ?? defaultStrategy,
+      targetHeight: precisionSettings.target?.height ?? null,
+      refraction,
+      pearlRules,
+      terrainOcclusion,
+      elevationProvider: this.skytreeAlignmentCalculator.getElevationProviderName(),
+    });
+    return createHash("sha1").update(fingerprint).digest("hex").slice(0, 12);
+  }
+
+  /**
+   * 一時的な仮想地点を作成
+   */
+  private createVirtualLocation(params: {
+    latitude: number;
+    longitude: number;
+    elevation: number;
+  }): Location {
+    return {
+      id: -999999, // 一意な負の値
+      name: "地図検索地点",
+      prefecture: "検索地点",
+      latitude: params.latitude,
+      longitude: params.longitude,
+      elevation: params.elevation,
+      distanceToSkytree: null,
+      azimuthToSkytree: null,
+      elevationToSkytree: null,
+      description: "地図検索による一時地点",
+      accessInfo: null,
+      parkingInfo: null,
+      measurementNotes: null,
+      status: "active",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+
+  /**
+   * 検索モードに応じた精度設定（検索間隔は全て 1 日単位で統一）
+   */
+  private getPrecisionSettings(
+    searchMode: MapSearchMode,
+    daysDiff: number,
+  ): AlignmentPrecisionSettings {
+    switch (searchMode) {
+      case "fast":
+        return {
+          searchInterval: 300, // 5 分間隔（低精度・高速）
+          toleranceLevel: "low",
+        };
+      case "balanced":
+        return {
+          searchInterval: 60, // 1 分間隔（中精度・中速）
+          toleranceLevel: "medium",
+        };
+      case "precise":
+        return {
+          searchInterval: 10,
+          toleranceLevel: "high",
+          strategy: "root_finding", // 方位角の横断時刻を求根（サブ秒精度、期間によらず高速）
+        };
+      case "auto":
+        // 期間に応じて自動選択（精度のみ調整、検索間隔は 1 日固定）
+        if (daysDiff > 730) { // 2 年以上
+          return { searchInterval: 300, toleranceLevel: "low" };
+        } else if (daysDiff > 180) { // 6 ヶ月以上
+          return { searchInterval: 120, toleranceLevel: "medium" };
+        }
+        return { searchInterval: 30, toleranceLevel: "high" };
+      default:
+        return { searchInterval: 60, toleranceLevel: "medium" };
+    }
+  }
+
+  /**
+   * 高度レンジ × 昇る/沈む × イベントタイプでイベントをフィルタリング
+   */
+  private filterEventsByElevationRange(events: SkytreeEvent[]): SkytreeEvent[] {
+    const groupMap = new Map<string, SkytreeEvent[]>();
+
+    for (const event of events) {
+      const elevation = event.elevation || 0;
+      const eventType = event.type; // diamond or pearl
+      const subType = event.subType; // sunrise, sunset, rising, setting
+
+      // 高度レンジを計算（5 度刻み）
+      const rangeSize = 5;
+      const rangeStart = Math.floor(elevation / rangeSize) * rangeSize;
+      const maxElevation = eventType === "diamond" ? 30 : 60;
+      const rangeEnd = Math.min(rangeStart + rangeSize - 1, maxElevation);
+
+      // 昇る/沈むを判定
+      const riseSetType = (subType === "sunrise" || subType === "rising") ? "昇る" : "沈む";
+
+      // グループキーを作成
+      const groupKey = `${eventType}-${rangeStart}-${rangeEnd}度-${riseSetType}`;
+
+      if (!groupMap.has(groupKey)) {
+        groupMap.set(groupKey, []);
+      }
+      groupMap.get(groupKey)!.push(event);
+    }
+
+    // 各グループで最も精度の良いイベントを選択
+    const filteredEvents: SkytreeEvent[] = [];
+    for (const groupEvents of groupMap.values()) {
+      filteredEvents.push(this.selectBestEvent(groupEvents));
+    }
+
+    return filteredEvents;
+  }
+}
@@ -0,0 +1,51 @@
+import type { PearlRejection } from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type {
+  PearlRejectionInput,
+  PearlRejectionRepository,
+} from "../repositories/interfaces/PearlRejectionRepository";
+import type { PearlRejectionRecorder } from "./interfaces/PearlRejectionRecorder";
+
+const logger = getComponentLogger("PearlRejectionService");
+
+/**
+ * パールスカイツリー除外候補を管理するサービス
+ * 計算時の記録と、管理画面向けの一覧取得を担当する
+ */
+export class PearlRejectionService implements PearlRejectionRecorder {
+  static readonly DEFAULT_LIMIT = 100;
+  static readonly MAX_LIMIT = 500;
+
+  constructor(private repository: PearlRejectionRepository) {}
+
+  /**
+   * 除外候補を記録（保存に失敗してもイベント計算は継続する）
+   */
+  async record(rejection: PearlRejectionInput): Promise<void> {
+    try {
+      await this.repository.upsert(rejection);
+    } catch (error) {
+      logger.warn("パール除外候補の記録に失敗", {
+        locationId: rejection.locationId,
+        reasons: rejection.reasons,
+        error: error as Error,
+      });
+    }
+  }
+
+  /**
+   * 除外候補を新しい順に取得
+   */
+  async getRejections(query: {
+    locationId?: number;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  }): Promise<PearlRejection[]> {
+    const limit = Math.min(
+      Math.max(query.limit ?? PearlRejectionService.DEFAULT_LIMIT, 1),
+      PearlRejectionService.MAX_LIMIT,
+    );
+    return this.repository.findMany({ ...query, limit });
+  }
+}
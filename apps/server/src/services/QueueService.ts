@@ -1,8 +1,26 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
 import { Queue, Worker, Job } from "bullmq";
 import IORedis from "ioredis";
 import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type {
+  MapComparison,
+  MapSearchJobHandle,
+  MapSearchJobProgress,
+  MapSearchJobStatus,
+  RegionRecommendation,
+  SkytreeEvent,
+} from "@skytree-photo-planner/types";
 import { EventService } from "./interfaces/EventService";
 import { QueueService as IQueueService } from "./interfaces/QueueService";
+import type {
+  MapCompareParams,
+  MapSearchParams,
+  MapSearchService,
+} from "./MapSearchService";
+import type {
+  RegionRecommendationParams,
+  RegionRecommendationService,
+} from "./RegionRecommendationService";
 
 interface PerformanceSettings {
   workerConcurrency: number;
@@ -14,15 +32,67 @@ interface PerformanceSettings {
 
 const logger = getComponentLogger("queue-service");
 
+// 地図検索ジョブの結果（BullMQ のジョブの戻り値として Redis に保存）
+// ジョブ名が map-search の場合は単一地点の検索、map-compare の場合は複数地点の比較、
+// map-region の場合は範囲内のおすすめ地点
+type MapSearchJobResult =
+  | {
+      kind: "search";
+      events: SkytreeEvent[];
+      searchInterval: number;
+      cancelled: boolean;
+    }
+  | {
+      kind: "compare";
+      comparison: MapComparison;
+      cancelled: boolean;
+    }
+  | {
+      kind: "region";
+      recommendation: RegionRecommendation;
+      cancelled: boolean;
+    };
+
+// ジョブデータの日付は ISO 文字列で保存する
+type MapSearchJobData = Omit<MapSearchParams, "startDate" | "endDate"> & {
+  startDate: string;
+  endDate: string;
+};
+type MapCompareJobData = Omit<MapCompareParams, "startDate" | "endDate"> & {
+  startDate: string;
+  endDate: string;
+};
+type MapRegionJobData = Omit<RegionRecommendationParams, "startDate" | "endDate"> & {
+  startDate: string;
+  endDate: string;
+};
+
+const MAP_SEARCH_JOB_KINDS: Record<string, MapSearchJobStatus["kind"]> = {
+  "map-search": "search",
+  "map-compare": "compare",
+  "map-region": "region",
+};
+
 /**
  * リファクタリング後の QueueService
  * 依存注入パターンを使用して循環依存を解消
  */
 export class QueueService implements IQueueService {
+  // 地図検索ジョブと結果を保持する時間（秒）
+  static readonly MAP_SEARCH_RETENTION_SECONDS = 60 * 60;
+  private static readonly MAP_SEARCH_CANCEL_KEY_PREFIX = "map-search:cancel:";
+  private static readonly MAP_SEARCH_TOKEN_KEY_PREFIX = "map-search:token:";
+  // トークンは待機・実行中の時間を含め、結果の保持期間が終わるまで有効にしておく
+  private static readonly MAP_SEARCH_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
   private redis: IORedis | null = null;
   private eventCalculationQueue: Queue | null = null;
   private worker: Worker | null = null;
+  private mapSearchQueue: Queue | null = null;
+  private mapSearchWorker: Worker | null = null;
   private eventService: EventService | null = null;
+  private mapSearchService: MapSearchService | null = null;
+  private regionRecommendationService: RegionRecommendationService | null = null;
   private systemSettingsService: { getPerformanceSettings(): Promise<PerformanceSettings>; updateSetting(key: string, value: string | number | boolean, type: string): Promise<void> } | null = null;
 
   constructor(eventService: EventService | null = null, enableWorker: boolean = true) {
@@ -45,6 +115,26 @@ export class QueueService implements IQueueService {
     });
   }
 
+  /**
+   * MapSearchService を後から注入（ワーカーで地図検索ジョブを処理するため）
+   */
+  setMapSearchService(mapSearchService: MapSearchService): void {
+    this.mapSearchService = mapSearchService;
+    logger.info("MapSearchService 注入完了", {
+      hasMapSearchService: !!mapSearchService,
+    });
+  }
+
+  /**
+   * RegionRecommendationService を後から注入（ワーカーでおすすめ地点ジョブを処理するため）
+   */
+  setRegionRecommendationService(regionRecommendationService: RegionRecommendationService): void {
+    this.regionRecommendationService = regionRecommendationService;
+    logger.info("RegionRecommendationService 注入完了", {
+      hasRegionRecommendationService: !!regionRecommendationService,
+    });
+  }
+
   /**
    * SystemSettingsService を後から注入（循環依存対策）
    */
@@ -138,6 +228,16 @@ export class QueueService implements IQueueService {
         enableWorker
       });
 
+      // 地図検索キューを作成（対話的な検索のため遅延・リトライなし）
+      this.mapSearchQueue = new Queue("map-search", {
+        connection: this.redis,
+        defaultJobOptions: {
+          removeOnComplete: { age: QueueService.MAP_SEARCH_RETENTION_SECONDS },
+          removeOnFail: { age: QueueService.MAP_SEARCH_RETENTION_SECONDS },
+          attempts: 1,
+        },
+      });
+
       // ワーカーが有効な場合のみワーカーを作成
       if (enableWorker) {
         // パフォーマンス設定を取得
@@ -179,6 +279,19 @@ export class QueueService implements IQueueService {
         // イベントハンドラーをセットアップ
         this.setupWorkerEventHandlers();
 
+        // 地図検索ワーカーを作成（CPU 負荷が高いため同時実行数は 1 に固定）
+        this.mapSearchWorker = new Worker(
+          "map-search",
+          this.processMapSearchJob.bind(this),
+          {
+            connection: this.redis,
+            concurrency: 1,
+          },
+        );
+        this.mapSearchWorker.on("failed", (job: Job | undefined, error: Error) => {
+          logger.error("地図検索ジョブ失敗", error, { jobId: job?.id });
+        });
+
         logger.info("ワーカー作成完了（動的設定適用）", {
           queueName: "event-calculation",
           concurrency,
@@ -578,6 +691,440 @@ export class QueueService implements IQueueService {
     }
   }
 
+  /**
+   * 地図検索ジョブを登録
+   */
+  async scheduleMapSearch(params: MapSearchParams): Promise<MapSearchJobHandle | null> {
+    if (!this.mapSearchQueue) {
+      logger.warn("キューが無効のため、地図検索ジョブを登録できません");
+      return null;
+    }
+
+    try {
+      const jobData: MapSearchJobData = {
+        ...params,
+        startDate: params.startDate.toISOString(),
+        endDate: params.endDate.toISOString(),
+      };
+      const handle = await this.addMapSearchJob("map-search", jobData);
+
+      logger.info("地図検索ジョブ登録", {
+        jobId: handle.jobId,
+        latitude: params.latitude,
+        longitude: params.longitude,
+        scene: params.scene,
+        searchMode: params.searchMode,
+        dateRange: `${jobData.startDate} - ${jobData.endDate}`,
+      });
+
+      return handle;
+    } catch (error) {
+      logger.error("地図検索ジョブ登録エラー", error);
+      return null;
+    }
+  }
+
+  /**
+   * 比較検索ジョブを登録（状態・中断は地図検索ジョブと共通）
+   */
+  async scheduleMapCompare(params: MapCompareParams): Promise<MapSearchJobHandle | null> {
+    if (!this.mapSearchQueue) {
+      logger.warn("キューが無効のため、比較検索ジョブを登録できません");
+      return null;
+    }
+
+    try {
+      const jobData: MapCompareJobData = {
+        ...params,
+        startDate: params.startDate.toISOString(),
+        endDate: params.endDate.toISOString(),
+      };
+      const handle = await this.addMapSearchJob("map-compare", jobData);
+
+      logger.info("比較検索ジョブ登録", {
+        jobId: handle.jobId,
+        pointCount: params.points.length,
+        scene: params.scene,
+        searchMode: params.searchMode,
+        dateRange: `${jobData.startDate} - ${jobData.endDate}`,
+      });
+
+      return handle;
+    } catch (error) {
+      logger.error("比較検索ジョブ登録エラー", error);
+      return null;
+    }
+  }
+
+  /**
+   * 範囲内のおすすめ地点ジョブを登録（状態・中断は地図検索ジョブと共通）
+   */
+  async scheduleRegionRecommendation(
+    params: RegionRecommendationParams,
+  ): Promise<MapSearchJobHandle | null> {
+    if (!this.mapSearchQueue) {
+      logger.warn("キューが無効のため、おすすめ地点ジョブを登録できません");
+      return null;
+    }
+
+    try {
+      const jobData: MapRegionJobData = {
+        ...params,
+        startDate: params.startDate.toISOString(),
+        endDate: params.endDate.toISOString(),
+      };
+      const handle = await this.addMapSearchJob("map-region", jobData);
+
+      logger.info("おすすめ地点ジョブ登録", {
+        jobId: handle.jobId,
+        vertexCount: params.polygon.length,
+        scene: params.scene,
+        dateRange: `${jobData.startDate} - ${jobData.endDate}`,
+      });
+
+      return handle;
+    } catch (error) {
+      logger.error("おすすめ地点ジョブ登録エラー", error);
+      return null;
+    }
+  }
+
+  /**
+   * 地図検索キューにジョブを追加し、ジョブ ID とトークンを発行
+   * ジョブ ID は推測されないよう UUID とし、トークンはハッシュ値のみ Redis に保存する
+   */
+  private async addMapSearchJob(
+    name: string,
+    data: MapSearchJobData | MapCompareJobData | MapRegionJobData,
+  ): Promise<MapSearchJobHandle> {
+    const jobId = randomUUID();
+    const token = randomBytes(32).toString("base64url");
+    await this.redis!.set(
+      `${QueueService.MAP_SEARCH_TOKEN_KEY_PREFIX}${jobId}`,
+      this.hashMapSearchToken(token),
+      "EX",
+      QueueService.MAP_SEARCH_TOKEN_TTL_SECONDS,
+    );
+    await this.mapSearchQueue!.add(name, data, { jobId });
+    return { jobId, token };
+  }
+
+  /**
+   * 地図検索ジョブのトークンを検証
+   */
+  async verifyMapSearchToken(jobId: string, token: string | undefined): Promise<boolean> {
+    if (!this.redis || !token) {
+      return false;
+    }
+
+    const expected = await this.redis.get(
+      `${QueueService.MAP_SEARCH_TOKEN_KEY_PREFIX}${jobId}`,
+    );
+    if (!expected) {
+      return false;
+    }
+    return timingSafeEqual(
+      Buffer.from(expected, "hex"),
+      Buffer.from(this.hashMapSearchToken(token), "hex"),
+    );
+  }
+
+  private hashMapSearchToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+
+  /**
+   * 地図検索ジョブの状態と進捗を取得（ジョブが存在しない場合は null）
+   */
+  async getMapSearchJobStatus(jobId: string): Promise<MapSearchJobStatus | null> {
+    if (!this.mapSearchQueue) {
+      return null;
+    }
+
+    const job = await this.mapSearchQueue.getJob(jobId);
+    if (!job) {
+      // 待機中に中断したジョブは削除済み
+      return (await this.isMapSearchCancelled(jobId))
+        ? {
+            jobId,
+            kind: "search",
+            state: "cancelled",
+            progress: { processedDays: 0, totalDays: 0, eventsFound: 0 },
+          }
+        : null;
+    }
+
+    const kind = MAP_SEARCH_JOB_KINDS[job.name] ?? "search";
+    const data = job.data as MapSearchJobData | MapCompareJobData | MapRegionJobData;
+    // おすすめ地点の格子点数は処理開始後の進捗で分かる
+    const pointCount = "points" in data ? data.points.length : 1;
+    const progress: MapSearchJobProgress =
+      typeof job.progress === "object" && job.progress !== null
+        ? (job.progress as unknown as MapSearchJobProgress)
+        : {
+            processedDays: 0,
+            totalDays:
+              (Math.floor(
+                (new Date(data.endDate).getTime() - new Date(data.startDate).getTime()) /
+                  (1000 * 60 * 60 * 24),
+              ) + 1) * pointCount,
+            eventsFound: 0,
+          };
+    const state = await job.getState();
+
+    switch (state) {
+      case "completed": {
+        const result = job.returnvalue as MapSearchJobResult;
+        if (result.cancelled) {
+          return { jobId, kind, state: "cancelled", progress };
+        }
+        return {
+          jobId,
+          kind,
+          state: "completed",
+          progress,
+          totalEvents:
+            result.kind === "compare"
+              ? result.comparison.rows.length
+              : result.kind === "region"
+                ? result.recommendation.candidates.length
+                : result.events.length,
+        };
+      }
+      case "failed":
+        return { jobId, kind, state: "failed", progress, error: job.failedReason };
+      case "active":
+        return { jobId, kind, state: "active", progress };
+      default:
+        return { jobId, kind, state: "waiting", progress };
+    }
+  }
+
+  /**
+   * 完了した地図検索ジョブの結果をページ単位で取得
+   * ジョブが存在しない・完了していない場合は null
+   */
+  async getMapSearchResults(
+    jobId: string,
+    page: number,
+    limit: number,
+  ): Promise<{
+    events: SkytreeEvent[];
+    searchParams: MapSearchJobData;
+    searchInterval: number;
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  } | null> {
+    if (!this.mapSearchQueue) {
+      return null;
+    }
+
+    const job = await this.mapSearchQueue.getJob(jobId);
+    if (!job || (await job.getState()) !== "completed") {
+      return null;
+    }
+
+    const result = job.returnvalue as MapSearchJobResult;
+    if (result.cancelled || result.kind !== "search") {
+      return null;
+    }
+
+    const offset = (page - 1) * limit;
+    return {
+      events: result.events.slice(offset, offset + limit),
+      searchParams: job.data as MapSearchJobData,
+      searchInterval: result.searchInterval,
+      total: result.events.length,
+      page,
+      limit,
+      totalPages: Math.ceil(result.events.length / limit),
+    };
+  }
+
+  /**
+   * 完了した比較検索ジョブの比較表を行（日付）単位のページで取得
+   * ジョブが存在しない・完了していない場合は null
+   */
+  async getMapCompareResults(
+    jobId: string,
+    page: number,
+    limit: number,
+  ): Promise<{
+    comparison: MapComparison;
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  } | null> {
+    if (!this.mapSearchQueue) {
+      return null;
+    }
+
+    const job = await this.mapSearchQueue.getJob(jobId);
+    if (!job || (await job.getState()) !== "completed") {
+      return null;
+    }
+
+    const result = job.returnvalue as MapSearchJobResult;
+    if (result.cancelled || result.kind !== "compare") {
+      return null;
+    }
+
+    const { rows } = result.comparison;
+    const offset = (page - 1) * limit;
+    return {
+      comparison: { ...result.comparison, rows: rows.slice(offset, offset + limit) },
+      total: rows.length,
+      page,
+      limit,
+      totalPages: Math.ceil(rows.length / limit),
+    };
+  }
+
+  /**
+   * 完了したおすすめ地点ジョブの結果を取得（候補地点数は格子点数の上限までのためページ分割しない）
+   * ジョブが存在しない・完了していない場合は null
+   */
+  async getRegionRecommendationResults(jobId: string): Promise<RegionRecommendation | null> {
+    if (!this.mapSearchQueue) {
+      return null;
+    }
+
+    const job = await this.mapSearchQueue.getJob(jobId);
+    if (!job || (await job.getState()) !== "completed") {
+      return null;
+    }
+
+    const result = job.returnvalue as MapSearchJobResult;
+    if (result.cancelled || result.kind !== "region") {
+      return null;
+    }
+    return result.recommendation;
+  }
+
+  /**
+   * 地図検索ジョブを中断
+   * 待機中のジョブは削除し、実行中のジョブは中断フラグを立てて日付ループ側で止める
+   */
+  async cancelMapSearch(jobId: string): Promise<boolean> {
+    if (!this.mapSearchQueue || !this.redis) {
+      return false;
+    }
+
+    try {
+      const job = await this.mapSearchQueue.getJob(jobId);
+      if (!job) {
+        return false;
+      }
+
+      const state = await job.getState();
+      if (state === "completed" || state === "failed") {
+        return false;
+      }
+
+      await this.redis.set(
+        `${QueueService.MAP_SEARCH_CANCEL_KEY_PREFIX}${jobId}`,
+        "1",
+        "EX",
+        QueueService.MAP_SEARCH_RETENTION_SECONDS,
+      );
+      if (state !== "active") {
+        await job.remove();
+      }
+
+      logger.info("地図検索ジョブ中断", { jobId, state });
+      return true;
+    } catch (error) {
+      logger.error("地図検索ジョブ中断エラー", error, { jobId });
+      return false;
+    }
+  }
+
+  /**
+   * 地図検索ジョブの中断フラグを確認
+   */
+  private async isMapSearchCancelled(jobId: string): Promise<boolean> {
+    if (!this.redis) {
+      return false;
+    }
+    const flag = await this.redis.get(
+      `${QueueService.MAP_SEARCH_CANCEL_KEY_PREFIX}${jobId}`,
+    );
+    return flag !== null;
+  }
+
+  /**
+   * 地図検索ジョブ（単一地点の検索・複数地点の比較・範囲内のおすすめ地点）の処理
+   */
+  private async processMapSearchJob(job: Job): Promise<MapSearchJobResult> {
+    const mapSearchService = this.mapSearchService;
+    if (!mapSearchService) {
+      logger.error("MapSearchService が設定されていません", { jobId: job.id });
+      throw new Error("MapSearchService is not available");
+    }
+
+    const jobId = job.id!.toString();
+    const options = {
+      onProgress: (progress: MapSearchJobProgress) => job.updateProgress(progress),
+      isCancelled: () => this.isMapSearchCancelled(jobId),
+    };
+
+    // 中断した場合は途中までの結果を保存しない
+    if (job.name === "map-region") {
+      const regionRecommendationService = this.regionRecommendationService;
+      if (!regionRecommendationService) {
+        logger.error("RegionRecommendationService が設定されていません", { jobId: job.id });
+        throw new Error("RegionRecommendationService is not available");
+      }
+      const data = job.data as MapRegionJobData;
+      const result = await regionRecommendationService.recommend(
+        {
+          ...data,
+          startDate: new Date(data.startDate),
+          endDate: new Date(data.endDate),
+        },
+        options,
+      );
+      return result.cancelled
+        ? {
+            kind: "region",
+            recommendation: { ...result.recommendation, candidates: [] },
+            cancelled: true,
+          }
+        : { kind: "region", ...result };
+    }
+
+    if (job.name === "map-compare") {
+      const data = job.data as MapCompareJobData;
+      const result = await mapSearchService.compare(
+        {
+          ...data,
+          startDate: new Date(data.startDate),
+          endDate: new Date(data.endDate),
+        },
+        options,
+      );
+      return result.cancelled
+        ? { kind: "compare", comparison: { ...result.comparison, rows: [] }, cancelled: true }
+        : { kind: "compare", ...result };
+    }
+
+    const data = job.data as MapSearchJobData;
+    const result = await mapSearchService.search(
+      {
+        ...data,
+        startDate: new Date(data.startDate),
+        endDate: new Date(data.endDate),
+      },
+      options,
+    );
+    return result.cancelled
+      ? { kind: "search", events: [], searchInterval: result.searchInterval, cancelled: true }
+      : { kind: "search", ...result };
+  }
+
   /**
    * 優先度を数値に変換
    */
@@ -775,11 +1322,21 @@ export class QueueService implements IQueueService {
       this.worker = null;
     }
 
+    if (this.mapSearchWorker) {
+      await this.mapSearchWorker.close();
+      this.mapSearchWorker = null;
+    }
+
     if (this.eventCalculationQueue) {
       await this.eventCalculationQueue.close();
       this.eventCalculationQueue = null;
     }
 
+    if (this.mapSearchQueue) {
+      await this.mapSearchQueue.close();
+      this.mapSearchQueue = null;
+    }
+
     if (this.redis) {
       await this.redis.quit();
       this.redis = null;
@@ -2,6 +2,18 @@ import Redis from "ioredis";
 import { getComponentLogger } from "@skytree-photo-planner/utils";
 import { SkytreeEvent } from "@skytree-photo-planner/types";
 
+/**
+ * 地図検索の日別結果キャッシュのキー
+ * 座標・標高は quantizeMapSearchPoint で丸めた値を渡す
+ */
+export interface MapSearchCacheKey {
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  type: "diamond" | "pearl";
+  settingsHash: string; // 精度設定・目標点・計算設定のハッシュ
+}
+
 /**
  * Redis 活用拡大サービス
  * 月間イベントキャッシュとセッション管理を統合
@@ -16,14 +28,29 @@ export class RedisService {
     SESSION: "session:",
     USER_FAVORITES: "favorites:",
     LOCATION_CACHE: "location:",
+    MAP_SEARCH_DAY: "map_search_day:",
+  } as const;
+
+  // 統計カウンターのキー（サーバーとワーカーの両方から集計するため Redis に保存）
+  private static readonly STATS_KEYS = {
+    MAP_SEARCH_HITS: "stats:map_search:hits",
+    MAP_SEARCH_MISSES: "stats:map_search:misses",
   } as const;
 
+  // 地図検索キャッシュの座標の丸め（小数 5 桁 = 約 1m）と標高の丸め（m）
+  // 計算も丸めた地点で行うため、入力地点との差が整列時刻に影響しない程度に細かくする
+  static readonly MAP_SEARCH_COORDINATE_DECIMALS = 5;
+  static readonly MAP_SEARCH_ELEVATION_STEP = 1;
+  // SCAN 1 回で走査するキー数の目安
+  private static readonly SCAN_COUNT = 1000;
+
   // キャッシュ TTL 設定（秒）
   private static readonly TTL = {
     MONTHLY_EVENTS: 7 * 24 * 60 * 60, // 7 日
     SESSION: 24 * 60 * 60, // 24 時間
     USER_FAVORITES: 30 * 24 * 60 * 60, // 30 日
     LOCATION_CACHE: 60 * 60, // 1 時間
+    MAP_SEARCH_DAY: 30 * 24 * 60 * 60, // 30 日
   } as const;
 
   constructor() {
@@ -261,6 +288,112 @@ export class RedisService {
 
 
 
+  /**
+   * 地図検索の地点を丸める（同じキャッシュを共有する近傍の地点は同じ座標で計算する）
+   */
+  static quantizeMapSearchPoint(point: {
+    latitude: number;
+    longitude: number;
+    elevation: number;
+  }): { latitude: number; longitude: number; elevation: number } {
+    const factor = Math.pow(10, RedisService.MAP_SEARCH_COORDINATE_DECIMALS);
+    const step = RedisService.MAP_SEARCH_ELEVATION_STEP;
+    return {
+      latitude: Math.round(point.latitude * factor) / factor,
+      longitude: Math.round(point.longitude * factor) / factor,
+      elevation: Math.round(point.elevation / step) * step,
+    };
+  }
+
+  /**
+   * 地図検索の日別結果キャッシュ取得
+   * キャッシュにある日付（YYYY-MM-DD）のみを返し、ヒット・ミス数を記録する
+   */
+  async getMapSearchDays(
+    cacheKey: MapSearchCacheKey,
+    dates: string[],
+  ): Promise<Map<string, SkytreeEvent[]>> {
+    const days = new Map<string, SkytreeEvent[]>();
+    if (dates.length === 0) {
+      return days;
+    }
+
+    try {
+      const values = await this.redis.mget(
+        ...dates.map((date) => this.getMapSearchDayKey(cacheKey, date)),
+      );
+      values.forEach((value, index) => {
+        if (value === null) return;
+        const events = (JSON.parse(value) as SkytreeEvent[]).map((event) => ({
+          ...event,
+          time: new Date(event.time),
+        }));
+        days.set(dates[index], events);
+      });
+
+      const hits = days.size;
+      const misses = dates.length - hits;
+      await this.redis
+        .multi()
+        .incrby(RedisService.STATS_KEYS.MAP_SEARCH_HITS, hits)
+        .incrby(RedisService.STATS_KEYS.MAP_SEARCH_MISSES, misses)
+        .exec();
+
+      this.logger.debug("地図検索キャッシュ取得", {
+        type: cacheKey.type,
+        hits,
+        misses,
+      });
+    } catch (error) {
+      this.logger.error("地図検索キャッシュ取得エラー", error, {
+        type: cacheKey.type,
+        dayCount: dates.length,
+      });
+    }
+
+    return days;
+  }
+
+  /**
+   * 地図検索の日別結果キャッシュ保存（イベントがない日も空配列として保存する）
+   */
+  async cacheMapSearchDays(
+    cacheKey: MapSearchCacheKey,
+    days: Map<string, SkytreeEvent[]>,
+  ): Promise<void> {
+    if (days.size === 0) {
+      return;
+    }
+
+    try {
+      const pipeline = this.redis.pipeline();
+      for (const [date, events] of days) {
+        pipeline.setex(
+          this.getMapSearchDayKey(cacheKey, date),
+          RedisService.TTL.MAP_SEARCH_DAY,
+          JSON.stringify(events),
+        );
+      }
+      await pipeline.exec();
+
+      this.logger.debug("地図検索キャッシュ保存", {
+        type: cacheKey.type,
+        dayCount: days.size,
+      });
+    } catch (error) {
+      this.logger.error("地図検索キャッシュ保存エラー", error, {
+        type: cacheKey.type,
+        dayCount: days.size,
+      });
+    }
+  }
+
+  private getMapSearchDayKey(cacheKey: MapSearchCacheKey, date: string): string {
+    const { latitude, longitude, elevation, type, settingsHash } = cacheKey;
+    const decimals = RedisService.MAP_SEARCH_COORDINATE_DECIMALS;
+    return `${RedisService.PREFIXES.MAP_SEARCH_DAY}${latitude.toFixed(decimals)}:${longitude.toFixed(decimals)}:${elevation}:${type}:${settingsHash}:${date}`;
+  }
+
   /**
    * キャッシュ統計取得
    */
@@ -268,25 +401,44 @@ export class RedisService {
     monthlyEventsCount: number;
     sessionsCount: number;
     favoritesCount: number;
+    mapSearch: {
+      daysCount: number;
+      hits: number;
+      misses: number;
+      hitRate: number; // 0〜1（参照がない場合は 0）
+    };
     memoryUsage: string;
     uptime: number;
   }> {
     try {
-      const [monthlyEventsKeys, sessionKeys, favoritesKeys, info] =
+      const [monthlyEventsKeys, sessionKeys, favoritesKeys, mapSearchDayKeys, counters, info] =
         await Promise.all([
-          this.redis.keys(`${RedisService.PREFIXES.MONTHLY_EVENTS}*`),
-          this.redis.keys(`${RedisService.PREFIXES.SESSION}*`),
-          this.redis.keys(`${RedisService.PREFIXES.USER_FAVORITES}*`),
+          this.scanKeys(`${RedisService.PREFIXES.MONTHLY_EVENTS}*`),
+          this.scanKeys(`${RedisService.PREFIXES.SESSION}*`),
+          this.scanKeys(`${RedisService.PREFIXES.USER_FAVORITES}*`),
+          this.scanKeys(`${RedisService.PREFIXES.MAP_SEARCH_DAY}*`),
+          this.redis.mget(
+            RedisService.STATS_KEYS.MAP_SEARCH_HITS,
+            RedisService.STATS_KEYS.MAP_SEARCH_MISSES,
+          ),
           this.redis.info("memory"),
         ]);
 
       const memoryMatch = info.match(/used_memory_human:(.+)/);
       const uptimeMatch = info.match(/uptime_in_seconds:(\d+)/);
+      const hits = parseInt(counters[0] ?? "0");
+      const misses = parseInt(counters[1] ?? "0");
 
       return {
         monthlyEventsCount: monthlyEventsKeys.length,
         sessionsCount: sessionKeys.length,
         favoritesCount: favoritesKeys.length,
+        mapSearch: {
+          daysCount: mapSearchDayKeys.length,
+          hits,
+          misses,
+          hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+        },
         memoryUsage: memoryMatch ? memoryMatch[1].trim() : "unknown",
         uptime: uptimeMatch ? parseInt(uptimeMatch[1]) : 0,
       };
@@ -296,20 +448,40 @@ export class RedisService {
         monthlyEventsCount: 0,
         sessionsCount: 0,
         favoritesCount: 0,
+        mapSearch: { daysCount: 0, hits: 0, misses: 0, hitRate: 0 },
         memoryUsage: "error",
         uptime: 0,
       };
     }
   }
 
+  /**
+   * パターンに一致するキーを SCAN で取得
+   * KEYS はキー数に比例して Redis をブロックするため使わない
+   */
+  private async scanKeys(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const [nextCursor, batch] = await this.redis.scan(
+        cursor,
+        "MATCH",
+        pattern,
+        "COUNT",
+        RedisService.SCAN_COUNT,
+      );
+      keys.push(...batch);
+      cursor = nextCursor;
+    } while (cursor !== "0");
+    return keys;
+  }
+
   /**
    * キャッシュクリア
    */
   async clearCache(pattern?: string): Promise<number> {
     try {
-      const keys = pattern
-        ? await this.redis.keys(pattern)
-        : await this.redis.keys("*");
+      const keys = await this.scanKeys(pattern ?? "*");
 
       if (keys.length === 0) {
         return 0;
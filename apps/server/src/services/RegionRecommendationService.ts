@@ -0,0 +1,317 @@
+import type {
+  AlignmentTarget,
+  RegionCandidate,
+  RegionRecommendation,
+  SkytreeEvent,
+} from "@skytree-photo-planner/types";
+import { getComponentLogger, timeUtils } from "@skytree-photo-planner/utils";
+import { CoordinateCalculator } from "./astronomical/CoordinateCalculator";
+import type { MapSearchOptions, MapSearchScene, MapSearchService } from "./MapSearchService";
+
+const logger = getComponentLogger("RegionRecommendationService");
+
+type PolygonVertex = { latitude: number; longitude: number };
+
+// 検索済みの格子点（順位付け前）
+type GridSample = Pick<
+  RegionCandidate,
+  "latitude" | "longitude" | "distance" | "azimuth" | "apparentHeight"
+> & { events: SkytreeEvent[] };
+
+/**
+ * 範囲内のおすすめ地点の検索条件
+ */
+export interface RegionRecommendationParams {
+  polygon: PolygonVertex[];
+  elevation: number; // 全格子点に共通の標高（m）
+  scene: MapSearchScene;
+  startDate: Date;
+  endDate: Date;
+  target?: AlignmentTarget;
+}
+
+export interface RegionRecommendationResult {
+  recommendation: RegionRecommendation;
+  cancelled: boolean;
+}
+
+/**
+ * 地図上で描いた範囲（多角形）の中からおすすめの撮影地点を探すサービス
+ *
+ * 範囲内に格子点を置き、各格子点で地図検索（高速モード）を実行して総合スコアで順位付けする
+ * 計算量は「格子点数 × 日数」が MAX_POINT_DAYS 以内になるよう格子の間隔で調整する
+ * 総合スコアはイベント数・品質スコア・スカイツリーの見かけの大きさ・距離の重み付き和
+ */
+export class RegionRecommendationService {
+  static readonly MAX_SEARCH_DAYS = 180;
+  static readonly MAX_POLYGON_VERTICES = 50;
+  private static readonly MAX_GRID_POINTS = 50;
+  private static readonly MAX_POINT_DAYS = 2000;
+  private static readonly MIN_GRID_SPACING = 100; // m
+  private static readonly SKYTREE_HEIGHT = 634;
+  private static readonly METERS_PER_DEGREE = 111195; // 緯度 1 度あたりの距離（地球半径 6371km）
+  // スカイツリー全体が画面に収まりやすい見かけの高さ（度）
+  private static readonly IDEAL_APPARENT_HEIGHT = 5;
+  // 撮影しやすい距離の範囲（m）。外側は 0.5km・50km に向けてスコアを下げる
+  private static readonly PREFERRED_DISTANCE = { min: 2000, max: 20000 };
+  private static readonly DISTANCE_LIMIT = { min: 500, max: 50000 };
+  private static readonly SCORE_WEIGHTS = {
+    events: 0.4,
+    quality: 0.3,
+    apparentSize: 0.15,
+    distance: 0.15,
+  };
+
+  private coordinateCalc = new CoordinateCalculator();
+
+  constructor(private mapSearchService: MapSearchService) {}
+
+  /**
+   * 範囲内の格子点を検索して総合スコアの高い順に返す
+   * 中断された場合は cancelled = true と検索済みの格子点の結果を返す
+   */
+  async recommend(
+    params: RegionRecommendationParams,
+    options: MapSearchOptions = {},
+  ): Promise<RegionRecommendationResult> {
+    const days = Math.max(
+      1,
+      Math.floor(this.getDaysDiff(params.startDate, params.endDate)) + 1,
+    );
+    const maxPoints = Math.max(
+      1,
+      Math.min(
+        RegionRecommendationService.MAX_GRID_POINTS,
+        Math.floor(RegionRecommendationService.MAX_POINT_DAYS / days),
+      ),
+    );
+    const { points, spacing } = this.createGrid(params.polygon, maxPoints);
+    const totalDays = days * points.length;
+
+    const samples: GridSample[] = [];
+    let eventsFound = 0;
+    let cancelled = false;
+
+    for (const [index, point] of points.entries()) {
+      const result = await this.mapSearchService.search(
+        {
+          ...point,
+          elevation: params.elevation,
+          scene: params.scene,
+          searchMode: "fast",
+          startDate: params.startDate,
+          endDate: params.endDate,
+          target: params.target,
+        },
+        {
+          onProgress: (progress) =>
+            options.onProgress?.({
+              processedDays: index * days + progress.processedDays,
+              totalDays,
+              eventsFound: eventsFound + progress.eventsFound,
+            }),
+          isCancelled: options.isCancelled,
+        },
+      );
+      eventsFound += result.events.length;
+      samples.push({ ...this.describePoint(point, params.elevation), events: result.events });
+      if (result.cancelled) {
+        cancelled = true;
+        break;
+      }
+    }
+
+    const recommendation: RegionRecommendation = {
+      scene: params.scene,
+      startDate: params.startDate,
+      endDate: params.endDate,
+      polygon: params.polygon,
+      gridSpacing: Math.round(spacing),
+      candidates: this.rankCandidates(samples),
+    };
+
+    logger.info("おすすめ地点検索完了", {
+      vertexCount: params.polygon.length,
+      gridPoints: points.length,
+      gridSpacing: recommendation.gridSpacing,
+      scene: params.scene,
+      targetId: params.target?.id,
+      dateRange: `${params.startDate.toISOString()} - ${params.endDate.toISOString()}`,
+      totalDays,
+      eventsFound,
+      cancelled,
+    });
+
+    return { recommendation, cancelled };
+  }
+
+  private getDaysDiff(startDate: Date, endDate: Date): number {
+    return (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+  }
+
+  /**
+   * 範囲内に maxPoints 件以下の格子点を置く
+   * 多角形の面積から間隔を決め、形状により件数を超える場合は間隔を広げて置き直す
+   * 範囲が狭く格子点が入らない場合は頂点の重心を使う
+   */
+  private createGrid(
+    polygon: PolygonVertex[],
+    maxPoints: number,
+  ): { points: PolygonVertex[]; spacing: number } {
+    const latitudes = polygon.map((vertex) => vertex.latitude);
+    const longitudes = polygon.map((vertex) => vertex.longitude);
+    const bounds = {
+      south: Math.min(...latitudes),
+      north: Math.max(...latitudes),
+      west: Math.min(...longitudes),
+      east: Math.max(...longitudes),
+    };
+
+    // 狭い範囲のため緯度・経度 1 度あたりの距離は中心緯度で近似する
+    const metersPerLatitude = RegionRecommendationService.METERS_PER_DEGREE;
+    const metersPerLongitude =
+      metersPerLatitude * Math.cos(this.coordinateCalc.toRadians((bounds.south + bounds.north) / 2));
+
+    let area = 0;
+    polygon.forEach((vertex, index) => {
+      const next = polygon[(index + 1) % polygon.length];
+      area +=
+        vertex.longitude * metersPerLongitude * next.latitude * metersPerLatitude -
+        next.longitude * metersPerLongitude * vertex.latitude * metersPerLatitude;
+    });
+    area = Math.abs(area) / 2;
+
+    let spacing = Math.max(
+      RegionRecommendationService.MIN_GRID_SPACING,
+      Math.sqrt(area / maxPoints),
+    );
+    let points: PolygonVertex[] = [];
+    for (;;) {
+      const latitudeStep = spacing / metersPerLatitude;
+      const longitudeStep = spacing / metersPerLongitude;
+      points = [];
+      for (let latitude = bounds.south + latitudeStep / 2; latitude < bounds.north; latitude += latitudeStep) {
+        for (let longitude = bounds.west + longitudeStep / 2; longitude < bounds.east; longitude += longitudeStep) {
+          const point = {
+            latitude: Number(latitude.toFixed(6)),
+            longitude: Number(longitude.toFixed(6)),
+          };
+          if (this.isInsidePolygon(point, polygon)) {
+            points.push(point);
+          }
+        }
+      }
+      if (points.length <= maxPoints) break;
+      spacing *= 1.1;
+    }
+
+    if (points.length === 0) {
+      points = [
+        {
+          latitude: Number((latitudes.reduce((sum, value) => sum + value, 0) / polygon.length).toFixed(6)),
+          longitude: Number((longitudes.reduce((sum, value) => sum + value, 0) / polygon.length).toFixed(6)),
+        },
+      ];
+    }
+
+    return { points, spacing };
+  }
+
+  /**
+   * 点が多角形の内側にあるか（レイキャスティング法）
+   */
+  private isInsidePolygon(point: PolygonVertex, polygon: PolygonVertex[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if (
+        a.latitude > point.latitude !== b.latitude > point.latitude &&
+        point.longitude <
+          ((b.longitude - a.longitude) * (point.latitude - a.latitude)) /
+            (b.latitude - a.latitude) +
+            a.longitude
+      ) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  /**
+   * 格子点のスカイツリーまでの距離・方位角・見かけの高さ
+   */
+  private describePoint(
+    point: PolygonVertex,
+    elevation: number,
+  ): Omit<GridSample, "events"> {
+    const location = { ...point, elevation };
+    const apparentHeight =
+      this.coordinateCalc.calculateElevationToSkytreeTarget(
+        location,
+        RegionRecommendationService.SKYTREE_HEIGHT,
+      ) - this.coordinateCalc.calculateElevationToSkytreeTarget(location, 0);
+
+    return {
+      ...point,
+      distance: Math.round(this.coordinateCalc.calculateDistanceToSkytree(point)),
+      azimuth: Math.round(this.coordinateCalc.calculateAzimuthToSkytree(point) * 10) / 10,
+      apparentHeight: Math.round(apparentHeight * 100) / 100,
+    };
+  }
+
+  /**
+   * 総合スコアを計算して順位を付ける
+   * イベント数は範囲内の最大件数を 1 として正規化する
+   */
+  private rankCandidates(samples: GridSample[]): RegionCandidate[] {
+    const maxEventCount = Math.max(1, ...samples.map((sample) => sample.events.length));
+    const weights = RegionRecommendationService.SCORE_WEIGHTS;
+
+    return samples
+      .map(({ events, ...candidate }): Omit<RegionCandidate, "rank"> => {
+        const averageQualityScore =
+          events.length > 0
+            ? events.reduce((sum, event) => sum + (event.qualityScore ?? 0), 0) / events.length
+            : undefined;
+        const bestEvent = events.reduce<SkytreeEvent | undefined>(
+          (best, event) =>
+            !best || (event.qualityScore ?? 0) > (best.qualityScore ?? 0) ? event : best,
+          undefined,
+        );
+        const score =
+          weights.events * (events.length / maxEventCount) +
+          weights.quality * ((averageQualityScore ?? 0) / 100) +
+          weights.apparentSize *
+            Math.min(candidate.apparentHeight / RegionRecommendationService.IDEAL_APPARENT_HEIGHT, 1) +
+          weights.distance * this.getDistanceScore(candidate.distance);
+
+        return {
+          ...candidate,
+          eventCount: events.length,
+          eventDays: new Set(events.map((event) => timeUtils.formatDateString(event.time))).size,
+          averageQualityScore:
+            averageQualityScore !== undefined ? Math.round(averageQualityScore * 10) / 10 : undefined,
+          bestEvent,
+          score: Math.round(score * 1000) / 10,
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .map((candidate, index) => ({ rank: index + 1, ...candidate }));
+  }
+
+  /**
+   * 距離のスコア（撮影しやすい範囲は 1、範囲外は限界距離に向けて 0 まで下げる）
+   */
+  private getDistanceScore(distance: number): number {
+    const preferred = RegionRecommendationService.PREFERRED_DISTANCE;
+    const limit = RegionRecommendationService.DISTANCE_LIMIT;
+    if (distance < preferred.min) {
+      return Math.max(0, (distance - limit.min) / (preferred.min - limit.min));
+    }
+    if (distance > preferred.max) {
+      return Math.max(0, (limit.max - distance) / (limit.max - preferred.max));
+    }
+    return 1;
+  }
+}
@@ -3,26 +3,39 @@ import {
   SunPosition,
   MoonPosition,
 } from "@skytree-photo-planner/types";
-import { SkytreeEvent } from "@skytree-photo-planner/types";
+import { SkytreeEvent, SKYTREE_COORDINATES } from "@skytree-photo-planner/types";
 import { getComponentLogger, timeUtils, handleCalculationError } from "@skytree-photo-planner/utils";
 import { CoordinateCalculator } from "./astronomical/CoordinateCalculator";
 import { CelestialPositionCalculator } from "./astronomical/CelestialPositionCalculator";
 import { SkytreeAlignmentCalculator } from "./astronomical/SkytreeAlignmentCalculator";
+import type { AlignmentPrecisionSettings } from "./astronomical/SkytreeAlignmentCalculator";
 import { SeasonCalculator } from "./astronomical/SeasonCalculator";
 import type { ISystemSettingsService } from "./interfaces/ISystemSettingsService";
+import type { ElevationProfileProvider } from "./interfaces/ElevationProfileProvider";
+import type { PearlRejectionRecorder } from "./interfaces/PearlRejectionRecorder";
 
 // スカイツリー用のインターフェース
 export interface SkytreeAstronomicalCalculator {
-  calculateDiamondSkytree(date: Date, locations: LocationType[]): Promise<SkytreeEvent[]>;
-  calculatePearlSkytree(date: Date, locations: LocationType[]): Promise<SkytreeEvent[]>;
+  calculateDiamondSkytree(
+    date: Date,
+    locations: LocationType[],
+    precisionSettings?: AlignmentPrecisionSettings,
+  ): Promise<SkytreeEvent[]>;
+  calculatePearlSkytree(
+    date: Date,
+    locations: LocationType[],
+    precisionSettings?: AlignmentPrecisionSettings,
+  ): Promise<SkytreeEvent[]>;
   calculateMonthlyEvents(
     year: number,
     month: number,
     locations: LocationType[],
+    precisionSettings?: AlignmentPrecisionSettings,
   ): Promise<SkytreeEvent[]>;
   calculateLocationYearlyEvents(
     location: LocationType,
     year: number,
+    precisionSettings?: AlignmentPrecisionSettings,
   ): Promise<SkytreeEvent[]>;
   getSunPosition(
     date: Date,
@@ -59,12 +72,24 @@ export class SkytreeAstronomicalCalculatorImpl implements SkytreeAstronomicalCal
   private seasonCalc = new SeasonCalculator();
   private settingsService: ISystemSettingsService;
 
-  constructor(settingsService: ISystemSettingsService) {
+  constructor(
+    settingsService: ISystemSettingsService,
+    elevationProfileProvider?: ElevationProfileProvider | null,
+    pearlRejectionRecorder?: PearlRejectionRecorder | null,
+  ) {
     this.settingsService = settingsService;
-    this.skytreeAlignmentCalc = new SkytreeAlignmentCalculator(this.settingsService);
+    this.skytreeAlignmentCalc = new SkytreeAlignmentCalculator(
+      this.settingsService,
+      elevationProfileProvider,
+      pearlRejectionRecorder,
+    );
   }
 
-  async calculateDiamondSkytree(date: Date, locations: LocationType[]): Promise<SkytreeEvent[]> {
+  async calculateDiamondSkytree(
+    date: Date,
+    locations: LocationType[],
+    precisionSettings?: AlignmentPrecisionSettings,
+  ): Promise<SkytreeEvent[]> {
     this.logger.info("ダイヤモンドスカイツリー計算開始", { 
       date: date.toISOString(), 
       locationCount: locations.length 
@@ -74,7 +99,11 @@ export class SkytreeAstronomicalCalculatorImpl implements SkytreeAstronomicalCal
     const locationPromises = locations.map(async (location) => {
       try {
         this.logger.debug("地点計算開始", { locationId: location.id, locationName: location.name });
-        const locationEvents = await this.skytreeAlignmentCalc.findDiamondSkytree(date, location);
+        const locationEvents = await this.skytreeAlignmentCalc.findDiamondSkytree(
+          date,
+          location,
+          precisionSettings,
+        );
         this.logger.debug("地点計算完了", { 
           locationId: location.id, 
           eventCount: locationEvents.length 
@@ -134,7 +163,11 @@ export class SkytreeAstronomicalCalculatorImpl implements SkytreeAstronomicalCal
     return events;
   }
 
-  async calculatePearlSkytree(date: Date, locations: LocationType[]): Promise<SkytreeEvent[]> {
+  async calculatePearlSkytree(
+    date: Date,
+    locations: LocationType[],
+    precisionSettings?: AlignmentPrecisionSettings,
+  ): Promise<SkytreeEvent[]> {
     this.logger.info("パールスカイツリー計算開始", { 
       date: date.toISOString(), 
       locationCount: locations.length 
@@ -143,7 +176,11 @@ export class SkytreeAstronomicalCalculatorImpl implements SkytreeAstronomicalCal
     // 並列処理でパフォーマンス向上
     const locationPromises = locations.map(async (location) => {
       try {
-        const locationEvents = await this.skytreeAlignmentCalc.findPearlSkytree(date, location);
+        const locationEvents = await this.skytreeAlignmentCalc.findPearlSkytree(
+          date,
+          location,
+          precisionSettings,
+        );
         return { success: true, events: locationEvents, location };
       } catch (error) {
         const structuredError = handleCalculationError(
@@ -210,6 +247,7 @@ export class SkytreeAstronomicalCalculatorImpl implements SkytreeAstronomicalCal
     year: number,
     month: number,
     locations: LocationType[],
+    precisionSettings?: AlignmentPrecisionSettings,
   ): Promise<SkytreeEvent[]> {
     const events: SkytreeEvent[] = [];
     const daysInMonth = new Date(year, month, 0).getDate();
@@ -218,11 +256,11 @@ export class SkytreeAstronomicalCalculatorImpl implements SkytreeAstronomicalCal
       const date = new Date(year, month - 1, day);
       
       // ダイヤモンドスカイツリー
-      const diamondEvents = await this.calculateDiamondSkytree(date, locations);
+      const diamondEvents = await this.calculateDiamondSkytree(date, locations, precisionSettings);
       events.push(...diamondEvents);
 
       // パールスカイツリー
-      const pearlEvents = await this.calculatePearlSkytree(date, locations);
+      const pearlEvents = await this.calculatePearlSkytree(date, locations, precisionSettings);
       events.push(...pearlEvents);
     }
 
@@ -232,11 +270,17 @@ export class SkytreeAstronomicalCalculatorImpl implements SkytreeAstronomicalCal
   async calculateLocationYearlyEvents(
     location: LocationType,
     year: number,
+    precisionSettings?: AlignmentPrecisionSettings,
   ): Promise<SkytreeEvent[]> {
     const events: SkytreeEvent[] = [];
 
     for (let month = 1; month <= 12; month++) {
-      const monthlyEvents = await this.calculateMonthlyEvents(year, month, [location]);
+      const monthlyEvents = await this.calculateMonthlyEvents(
+        year,
+        month,
+        [location],
+        precisionSettings,
+      );
       events.push(...monthlyEvents);
     }
 
@@ -301,7 +345,12 @@ export class SkytreeAstronomicalCalculatorImpl implements SkytreeAstronomicalCal
     return this.seasonCalc.getSeasonMessage(_date, location);
   }
 
-  isVisibleMoonPhase(_date: Date): boolean {
-    return this.celestialCalc.isVisibleMoonPhase(0.1); // 最小照度
+  isVisibleMoonPhase(date: Date): boolean {
+    // 月相（照度）は観測地点によらないため、スカイツリーの座標で計算
+    const moonPosition = this.celestialCalc.calculateMoonPosition(date, SKYTREE_COORDINATES);
+    if (!moonPosition) {
+      return false;
+    }
+    return this.celestialCalc.isVisibleMoonPhase(moonPosition.illumination);
   }
 }
\ No newline at end of file
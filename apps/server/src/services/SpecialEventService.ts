@@ -0,0 +1,123 @@
+import type {
+  SkytreeEvent,
+  SpecialEvent,
+  SpecialEventType,
+} from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import { SpecialEventCalculator } from "./astronomical/SpecialEventCalculator";
+
+const logger = getComponentLogger("SpecialEventService");
+
+/**
+ * 日食・月食・スーパームーンを提供するサービス
+ * 現象は年単位で計算してメモリにキャッシュし、同時に起こる整列イベントに印を付ける
+ */
+export class SpecialEventService {
+  // スーパームーンとみなす満月時刻の前後の幅（時間）
+  static readonly SUPERMOON_WINDOW_HOURS = 24;
+
+  private calculator = new SpecialEventCalculator();
+  private yearCache = new Map<number, SpecialEvent[]>();
+
+  /**
+   * 期間内の特別な天文現象を取得
+   */
+  getSpecialEvents(startDate: Date, endDate: Date): SpecialEvent[] {
+    const events: SpecialEvent[] = [];
+    for (let year = startDate.getFullYear(); year <= endDate.getFullYear(); year++) {
+      events.push(...this.getYearEvents(year));
+    }
+    return events.filter(
+      (event) => event.endTime >= startDate && event.startTime <= endDate,
+    );
+  }
+
+  /**
+   * 整列イベントに同時に起こる現象のタイプを付与
+   * 日食はダイヤモンド、月食・スーパームーンはパールのみが対象
+   */
+  annotateEvents(events: SkytreeEvent[]): SkytreeEvent[] {
+    if (events.length === 0) {
+      return events;
+    }
+
+    const times = events.map((event) => new Date(event.time).getTime());
+    const windowMs = SpecialEventService.SUPERMOON_WINDOW_HOURS * 60 * 60 * 1000;
+    const specialEvents = this.getSpecialEvents(
+      new Date(Math.min(...times) - windowMs),
+      new Date(Math.max(...times) + windowMs),
+    );
+    if (specialEvents.length === 0) {
+      return events;
+    }
+
+    return events.map((event) => {
+      const types = this.findCoincidingTypes(event, specialEvents);
+      return types.length > 0 ? { ...event, specialEvents: types } : event;
+    });
+  }
+
+  private findCoincidingTypes(
+    event: SkytreeEvent,
+    specialEvents: SpecialEvent[],
+  ): SpecialEventType[] {
+    const time = new Date(event.time).getTime();
+    const windowMs = SpecialEventService.SUPERMOON_WINDOW_HOURS * 60 * 60 * 1000;
+    const types = new Set<SpecialEventType>();
+
+    for (const specialEvent of specialEvents) {
+      switch (specialEvent.type) {
+        case "solar_eclipse":
+          if (
+            event.type === "diamond" &&
+            time >= specialEvent.startTime.getTime() &&
+            time <= specialEvent.endTime.getTime()
+          ) {
+            types.add("solar_eclipse");
+          }
+          break;
+        case "lunar_eclipse":
+          if (
+            event.type === "pearl" &&
+            time >= specialEvent.startTime.getTime() &&
+            time <= specialEvent.endTime.getTime()
+          ) {
+            types.add("lunar_eclipse");
+          }
+          break;
+        case "supermoon":
+          if (
+            event.type === "pearl" &&
+            Math.abs(time - specialEvent.peakTime.getTime()) <= windowMs
+          ) {
+            types.add("supermoon");
+          }
+          break;
+      }
+    }
+
+    return Array.from(types);
+  }
+
+  private getYearEvents(year: number): SpecialEvent[] {
+    const cached = this.yearCache.get(year);
+    if (cached) {
+      return cached;
+    }
+
+    const events = this.calculator.findSpecialEvents(
+      new Date(year, 0, 1),
+      new Date(year + 1, 0, 1),
+    );
+    this.yearCache.set(year, events);
+
+    logger.info("特別な天文現象を計算", {
+      year,
+      solarEclipses: events.filter((event) => event.type === "solar_eclipse").length,
+      lunarEclipses: events.filter((event) => event.type === "lunar_eclipse").length,
+      supermoons: events.filter((event) => event.type === "supermoon").length,
+    });
+
+    return events;
+  }
+}
@@ -1,7 +1,18 @@
 import { getComponentLogger } from "@skytree-photo-planner/utils";
-import type { SystemSetting } from "@skytree-photo-planner/types";
+import { DEFAULT_ALIGNMENT_TARGETS } from "@skytree-photo-planner/types";
+import type {
+  LocationDuplicateRules,
+  SystemSetting,
+  RefractionSettings,
+  PearlGatingRules,
+  TerrainOcclusionSettings,
+} from "@skytree-photo-planner/types";
 import type { ISystemSettingsService } from "./interfaces/ISystemSettingsService";
 import type { SystemSettingsRepository } from "../repositories/interfaces/SystemSettingsRepository";
+import { RefractionCalculator } from "./astronomical/RefractionCalculator";
+import { PearlGatingEvaluator } from "./astronomical/PearlGatingEvaluator";
+import { LineOfSightCalculator } from "./astronomical/LineOfSightCalculator";
+import { LocationDuplicateDetector } from "./LocationDuplicateDetector";
 
 const logger = getComponentLogger("SystemSettingsService");
 
@@ -71,6 +82,17 @@ export class SystemSettingsService implements ISystemSettingsService {
       elevation_accuracy_excellent_threshold: 0.25,
       elevation_accuracy_good_threshold: 0.4,
       elevation_accuracy_fair_threshold: 0.6,
+      refraction_model: "standard",
+      refraction_temperature: 10,
+      refraction_pressure: 1010,
+      alignment_search_strategy: "scan",
+      alignment_targets: JSON.stringify(DEFAULT_ALIGNMENT_TARGETS),
+      pearl_min_illumination: PearlGatingEvaluator.DEFAULT_RULES.minIllumination,
+      pearl_max_sun_elevation: PearlGatingEvaluator.DEFAULT_RULES.maxSunElevation,
+      pearl_max_days_from_full: PearlGatingEvaluator.DEFAULT_RULES.maxDaysFromFull,
+      terrain_occlusion_enabled: LineOfSightCalculator.DEFAULT_SETTINGS.enabled,
+      terrain_sample_spacing: LineOfSightCalculator.DEFAULT_SETTINGS.sampleSpacing,
+      terrain_tower_clearance: LineOfSightCalculator.DEFAULT_SETTINGS.towerClearance,
     };
 
     if (hardcodedDefaults[settingKey] !== undefined) {
@@ -280,7 +302,7 @@ export class SystemSettingsService implements ISystemSettingsService {
     if (settingKey.includes('worker_') || settingKey.includes('job_') || settingKey.includes('processing_') || settingKey.includes('concurrency') || settingKey.includes('max_active')) {
       return 'performance';
     }
-    if (settingKey.includes('azimuth_') || settingKey.includes('elevation_') || settingKey.includes('sun_') || settingKey.includes('moon_') || settingKey.includes('search_')) {
+    if (settingKey.includes('azimuth_') || settingKey.includes('elevation_') || settingKey.includes('sun_') || settingKey.includes('moon_') || settingKey.includes('search_') || settingKey.includes('refraction_') || settingKey.includes('alignment_') || settingKey.includes('pearl_') || settingKey.includes('terrain_')) {
       return 'astronomical';
     }
     if (settingKey.includes('ui_') || settingKey.includes('theme_') || settingKey.includes('display_')) {
@@ -323,6 +345,101 @@ export class SystemSettingsService implements ISystemSettingsService {
     };
   }
 
+  /**
+   * 大気屈折補正設定を一括取得
+   * 不正な値が設定されている場合は標準大気の値で補完する
+   */
+  async getRefractionSettings(): Promise<RefractionSettings> {
+    // キャッシュを更新
+    if (Date.now() - this.lastCacheUpdate.getTime() > this.CACHE_DURATION) {
+      await this.refreshCache();
+    }
+
+    const defaults = RefractionCalculator.DEFAULT_SETTINGS;
+    return RefractionCalculator.normalizeSettings({
+      model: await this.getStringSetting("refraction_model", defaults.model),
+      temperature: await this.getNumberSetting(
+        "refraction_temperature",
+        defaults.temperature,
+      ),
+      pressure: await this.getNumberSetting("refraction_pressure", defaults.pressure),
+    });
+  }
+
+  /**
+   * パールスカイツリーの採否判定ルールを一括取得
+   * 不正な値が設定されている場合は既定値で補完する
+   */
+  async getPearlGatingRules(): Promise<PearlGatingRules> {
+    // キャッシュを更新
+    if (Date.now() - this.lastCacheUpdate.getTime() > this.CACHE_DURATION) {
+      await this.refreshCache();
+    }
+
+    const defaults = PearlGatingEvaluator.DEFAULT_RULES;
+    return PearlGatingEvaluator.normalizeRules({
+      minIllumination: await this.getNumberSetting(
+        "pearl_min_illumination",
+        defaults.minIllumination,
+      ),
+      maxSunElevation: await this.getNumberSetting(
+        "pearl_max_sun_elevation",
+        defaults.maxSunElevation,
+      ),
+      maxDaysFromFull: await this.getNumberSetting(
+        "pearl_max_days_from_full",
+        defaults.maxDaysFromFull,
+      ),
+    });
+  }
+
+  /**
+   * 見通し判定の設定を一括取得
+   * 不正な値が設定されている場合は既定値で補完する
+   */
+  async getTerrainOcclusionSettings(): Promise<TerrainOcclusionSettings> {
+    // キャッシュを更新
+    if (Date.now() - this.lastCacheUpdate.getTime() > this.CACHE_DURATION) {
+      await this.refreshCache();
+    }
+
+    const defaults = LineOfSightCalculator.DEFAULT_SETTINGS;
+    return LineOfSightCalculator.normalizeSettings({
+      enabled: await this.getBooleanSetting("terrain_occlusion_enabled", defaults.enabled),
+      sampleSpacing: await this.getNumberSetting(
+        "terrain_sample_spacing",
+        defaults.sampleSpacing,
+      ),
+      towerClearance: await this.getNumberSetting(
+        "terrain_tower_clearance",
+        defaults.towerClearance,
+      ),
+    });
+  }
+
+  /**
+   * 撮影地点の重複判定ルールを一括取得
+   * 不正な値が設定されている場合は既定値で補完する
+   */
+  async getLocationDuplicateRules(): Promise<LocationDuplicateRules> {
+    // キャッシュを更新
+    if (Date.now() - this.lastCacheUpdate.getTime() > this.CACHE_DURATION) {
+      await this.refreshCache();
+    }
+
+    const defaults = LocationDuplicateDetector.DEFAULT_RULES;
+    return LocationDuplicateDetector.normalizeRules({
+      radiusMeters: await this.getNumberSetting(
+        "location_duplicate_radius_m",
+        defaults.radiusMeters,
+      ),
+      nameSimilarity: await this.getNumberSetting(
+        "location_duplicate_name_similarity",
+        defaults.nameSimilarity,
+      ),
+    });
+  }
+
   /**
    * パフォーマンス設定を一括取得（負荷制御用）
    */
@@ -385,6 +502,52 @@ export class SystemSettingsService implements ISystemSettingsService {
     await this.refreshCache();
   }
 
+  /**
+   * 天体計算設定（大気屈折補正・整列検索方式・目標点・パール採否判定・見通し判定）を初期化
+   */
+  async initializeAstronomicalSettings(): Promise<void> {
+    const defaults = RefractionCalculator.DEFAULT_SETTINGS;
+    const pearlDefaults = PearlGatingEvaluator.DEFAULT_RULES;
+    const terrainDefaults = LineOfSightCalculator.DEFAULT_SETTINGS;
+    const defaultSettings = [
+      { key: "refraction_model", value: defaults.model, type: "string", description: "大気屈折補正モデル（none / standard / bennett / saemundsson）。天体の見かけの高度とスカイツリー頂部への仰角の両方に適用される" },
+      { key: "refraction_temperature", value: defaults.temperature, type: "number", description: "大気屈折補正に使用する気温（℃）。saemundsson モデルでのみ使用" },
+      { key: "refraction_pressure", value: defaults.pressure, type: "number", description: "大気屈折補正に使用する気圧（hPa）。saemundsson モデルでのみ使用" },
+      { key: "alignment_search_strategy", value: "scan", type: "string", description: "整列検索の方式（scan: 検索間隔ごとの走査 / root_finding: 方位角の横断時刻を求根で計算）" },
+      { key: "alignment_targets", value: JSON.stringify(DEFAULT_ALIGNMENT_TARGETS), type: "string", description: "整列判定の目標点一覧（JSON 配列。id・name・height（地上からの m）を指定）" },
+      { key: "pearl_min_illumination", value: pearlDefaults.minIllumination, type: "number", description: "パールスカイツリーとする月の最小照度（0-1）。下回る候補は low_illumination として除外" },
+      { key: "pearl_max_sun_elevation", value: pearlDefaults.maxSunElevation, type: "number", description: "パールスカイツリー候補時刻の太陽高度の上限（度）。上回る候補は空が明るすぎる（bright_sky）として除外。既定値 90 では除外しない" },
+      { key: "pearl_max_days_from_full", value: pearlDefaults.maxDaysFromFull, type: "number", description: "満月からの月齢差の上限（日）。上回る候補は far_from_full として除外。既定値 15（朔望月の半分以上）では除外しない" },
+      { key: "terrain_occlusion_enabled", value: terrainDefaults.enabled, type: "boolean", description: "地形・建物による見通し判定の有効化。標高データ（DEM_TILE_DIR または TERRAIN_PROFILE_FILE）が未設定の場合は判定されない" },
+      { key: "terrain_sample_spacing", value: terrainDefaults.sampleSpacing, type: "number", description: "見通し判定で経路上の標高をサンプリングする間隔（m）" },
+      { key: "terrain_tower_clearance", value: terrainDefaults.towerClearance, type: "number", description: "見通し判定のサンプリングから除外するスカイツリー敷地の半径（m）。タワー自身の構造物を障害物と判定しないため" },
+    ];
+
+    for (const setting of defaultSettings) {
+      try {
+        const existing = await this.repository.getByKey(setting.key);
+
+        if (!existing) {
+          await this.repository.upsert(setting.key, setting.value, setting.description);
+
+          logger.info("天体計算設定を初期化", {
+            settingKey: setting.key,
+            value: setting.value,
+            type: setting.type,
+          });
+        }
+      } catch (error) {
+        logger.error("天体計算設定初期化エラー", {
+          settingKey: setting.key,
+          error
+        });
+      }
+    }
+
+    // キャッシュをリフレッシュ
+    await this.refreshCache();
+  }
+
   /**
    * SystemSetting オブジェクトから実際の値を抽出
    */
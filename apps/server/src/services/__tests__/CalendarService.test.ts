@@ -0,0 +1,90 @@
+import type { AlignmentTarget, Location, SkytreeEvent } from "@skytree-photo-planner/types";
+import type { CalendarRepository } from "../../repositories/interfaces/CalendarRepository";
+import type { LocationRepository } from "../../repositories/interfaces/LocationRepository";
+import { CalendarServiceImpl } from "../CalendarService";
+import type { SkytreeAstronomicalCalculator } from "../SkytreeAstronomicalCalculator";
+import type { SpecialEventService } from "../SpecialEventService";
+
+const TIP: AlignmentTarget = { id: "tip", name: "頂部", height: 634 };
+const DECK: AlignmentTarget = { id: "tembo_deck", name: "天望デッキ", height: 350 };
+
+const location = { id: 1, name: "荒川河川敷" } as Location;
+const precomputedEvent = { id: "precomputed" } as SkytreeEvent;
+const calculatedEvent = { id: "calculated" } as SkytreeEvent;
+
+const createService = () => {
+  const calendarRepository = {
+    getLocationYearlyEvents: jest.fn().mockResolvedValue([precomputedEvent]),
+  };
+  const astronomicalCalculator = {
+    calculateLocationYearlyEvents: jest.fn().mockResolvedValue([calculatedEvent]),
+  };
+  const locationRepository = {
+    findById: jest.fn().mockResolvedValue(location),
+  };
+  const specialEventService = {
+    annotateEvents: (events: SkytreeEvent[]) => events,
+  };
+  const service = new CalendarServiceImpl(
+    calendarRepository as unknown as CalendarRepository,
+    astronomicalCalculator as unknown as SkytreeAstronomicalCalculator,
+    locationRepository as unknown as LocationRepository,
+    specialEventService as unknown as SpecialEventService,
+  );
+  return { service, calendarRepository, astronomicalCalculator };
+};
+
+describe("CalendarServiceImpl（目標点指定）", () => {
+  it("頂部の目標点は事前計算済みのイベントを返す", async () => {
+    const { service, calendarRepository, astronomicalCalculator } = createService();
+
+    const events = await service.getLocationYearlyEvents(1, 2026, { target: TIP });
+
+    expect(events).toEqual([precomputedEvent]);
+    expect(calendarRepository.getLocationYearlyEvents).toHaveBeenCalledWith(1, 2026);
+    expect(astronomicalCalculator.calculateLocationYearlyEvents).not.toHaveBeenCalled();
+  });
+
+  it("同じ高さの目標点の計算結果はキャッシュを共有する", async () => {
+    const { service, astronomicalCalculator } = createService();
+
+    const results = await Promise.all([
+      service.getLocationYearlyEvents(1, 2026, { target: DECK }),
+      service.getLocationYearlyEvents(1, 2026, { target: DECK }),
+    ]);
+    await service.getLocationYearlyEvents(1, 2026, {
+      target: { id: "custom", name: "任意高度（350m）", height: 350 },
+    });
+
+    expect(results).toEqual([[calculatedEvent], [calculatedEvent]]);
+    expect(astronomicalCalculator.calculateLocationYearlyEvents).toHaveBeenCalledTimes(1);
+  });
+
+  it("高さ・年・地点が異なる場合は別に計算する", async () => {
+    const { service, astronomicalCalculator } = createService();
+
+    await service.getLocationYearlyEvents(1, 2026, { target: DECK });
+    await service.getLocationYearlyEvents(1, 2027, { target: DECK });
+    await service.getLocationYearlyEvents(2, 2026, { target: DECK });
+    await service.getLocationYearlyEvents(1, 2026, {
+      target: { id: "gain_tower", name: "ゲイン塔", height: 500 },
+    });
+
+    expect(astronomicalCalculator.calculateLocationYearlyEvents).toHaveBeenCalledTimes(4);
+  });
+
+  it("計算に失敗した結果はキャッシュしない", async () => {
+    const { service, astronomicalCalculator } = createService();
+    astronomicalCalculator.calculateLocationYearlyEvents.mockRejectedValueOnce(
+      new Error("計算エラー"),
+    );
+
+    await expect(
+      service.getLocationYearlyEvents(1, 2026, { target: DECK }),
+    ).rejects.toThrow("計算エラー");
+    await expect(service.getLocationYearlyEvents(1, 2026, { target: DECK })).resolves.toEqual([
+      calculatedEvent,
+    ]);
+    expect(astronomicalCalculator.calculateLocationYearlyEvents).toHaveBeenCalledTimes(2);
+  });
+});
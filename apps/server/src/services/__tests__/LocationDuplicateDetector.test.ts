@@ -0,0 +1,123 @@
+import type { Location } from "@skytree-photo-planner/types";
+import { LocationDuplicateDetector } from "../LocationDuplicateDetector";
+
+const detector = new LocationDuplicateDetector();
+const RULES = LocationDuplicateDetector.DEFAULT_RULES;
+const ORIGIN = { latitude: 35.7367, longitude: 139.8361 };
+
+// 緯度 0.001 度は約 111m。name 以外の重複判定に使わない項目は固定値
+const createLocation = (id: number, name: string, latitudeOffset: number): Location => ({
+  id,
+  name,
+  prefecture: "東京都",
+  latitude: ORIGIN.latitude + latitudeOffset,
+  longitude: ORIGIN.longitude,
+  elevation: 2,
+  azimuthToSkytree: 200,
+  elevationToSkytree: 5,
+  distanceToSkytree: 5,
+  status: "active",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+});
+
+describe("LocationDuplicateDetector", () => {
+  describe("名前の正規化", () => {
+    it.each([
+      { name: "ｽｶｲﾂﾘｰ View-Point", other: "スカイツリー　viewpoint" },
+      { name: "ＡＢＣ公園", other: "abc公園" },
+      { name: "隅田公園（桜橋）", other: "隅田公園・桜橋" },
+      { name: "「荒川」河川敷、北側。", other: "荒川河川敷北側" },
+    ])("「$name」と「$other」は同じ名前として扱う", ({ name, other }) => {
+      const [candidate] = detector.findCandidates(
+        { name, ...ORIGIN },
+        [createLocation(1, other, 0.01)],
+        RULES,
+      );
+
+      expect(candidate).toMatchObject({ nameSimilarity: 1, reasons: ["similar_name"] });
+    });
+  });
+
+  describe("名前の類似度のしきい値", () => {
+    // 「荒川河川敷足立区」と「荒川河川敷葛飾区」は 8 文字中 2 文字が異なる（類似度 0.75）
+    const FAR = [createLocation(1, "荒川河川敷（葛飾区）", 0.01)];
+    const target = { name: "荒川河川敷（足立区）", ...ORIGIN };
+
+    it("類似度がしきい値と等しい場合は候補にする", () => {
+      const candidates = detector.findCandidates(target, FAR, { ...RULES, nameSimilarity: 0.75 });
+
+      expect(candidates).toEqual([
+        expect.objectContaining({ id: 1, nameSimilarity: 0.75, reasons: ["similar_name"] }),
+      ]);
+    });
+
+    it("類似度がしきい値未満の場合は候補にしない", () => {
+      expect(detector.findCandidates(target, FAR, RULES)).toEqual([]);
+    });
+
+    it("付記が長い名前は既定のしきい値では候補にしない", () => {
+      expect(
+        detector.findCandidates(
+          { name: "隅田公園", ...ORIGIN },
+          [createLocation(1, "隅田公園（北側の桜橋付近）", 0.01)],
+          RULES,
+        ),
+      ).toEqual([]);
+    });
+
+    it("名前がない場合は距離のみで判定する", () => {
+      const candidates = detector.findCandidates(
+        ORIGIN,
+        [createLocation(1, "荒川河川敷", 0), createLocation(2, "荒川河川敷", 0.01)],
+        RULES,
+      );
+
+      expect(candidates).toEqual([
+        expect.objectContaining({ id: 1, nameSimilarity: 0, reasons: ["nearby"] }),
+      ]);
+    });
+  });
+
+  describe("距離", () => {
+    it("半径以内の地点を近い順に返し、除外する ID は候補にしない", () => {
+      const candidates = detector.findCandidates(
+        { name: "荒川河川敷", ...ORIGIN },
+        [
+          createLocation(1, "堀切橋", 0.0008),
+          createLocation(2, "荒川河川敷", 0.0003),
+          createLocation(3, "四ツ木橋", 0.002),
+          createLocation(4, "荒川河川敷", 0),
+        ],
+        RULES,
+        4,
+      );
+
+      expect(candidates.map((candidate) => [candidate.id, candidate.reasons])).toEqual([
+        [2, ["nearby", "similar_name"]],
+        [1, ["nearby"]],
+      ]);
+      expect(candidates[0].distanceMeters).toBe(33);
+    });
+
+    it("座標が完全に一致する候補のみ一致として返す", () => {
+      const candidates = detector.findCandidates(
+        ORIGIN,
+        [createLocation(1, "荒川河川敷", 0.0003), createLocation(2, "荒川河川敷", 0)],
+        RULES,
+      );
+
+      expect(detector.findExactMatch(ORIGIN, candidates)?.id).toBe(2);
+      expect(detector.findExactMatch({ ...ORIGIN, latitude: 35 }, candidates)).toBeUndefined();
+    });
+  });
+
+  it("不正なルールは既定値で補完する", () => {
+    expect(
+      LocationDuplicateDetector.normalizeRules({ radiusMeters: -1, nameSimilarity: 1.5 }),
+    ).toEqual(RULES);
+    expect(LocationDuplicateDetector.normalizeRules({ radiusMeters: 0, nameSimilarity: 1 })).toEqual(
+      { radiusMeters: 0, nameSimilarity: 1 },
+    );
+  });
+});
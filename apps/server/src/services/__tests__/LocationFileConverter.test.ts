@@ -0,0 +1,121 @@
+import { LocationFileConverter } from "../LocationFileConverter";
+import type { LocationImportRecord } from "../LocationFileConverter";
+
+const converter = new LocationFileConverter();
+
+const parseCsv = (content: string): LocationImportRecord[] => {
+  const result = converter.parse("csv", content);
+  if ("error" in result) throw new Error(result.error);
+  return result.records;
+};
+
+describe("LocationFileConverter", () => {
+  describe("CSV の引用符", () => {
+    it("引用符で囲んだセルのカンマ・改行・二重引用符をそのまま読み込む", () => {
+      const records = parseCsv(
+        [
+          "name,prefecture,description",
+          '"隅田公園, 北側",東京都,"桜橋から\r\n見上げる ""定番"" の地点"',
+          "",
+        ].join("\r\n"),
+      );
+
+      expect(records).toEqual([
+        {
+          row: 1,
+          values: {
+            name: "隅田公園, 北側",
+            prefecture: "東京都",
+            description: '桜橋から\r\n見上げる "定番" の地点',
+          },
+        },
+      ]);
+    });
+
+    it("引用符が閉じていない場合はエラーを返す", () => {
+      expect(converter.parse("csv", 'name,prefecture\n"隅田公園,東京都\n')).toEqual({
+        error: "CSV の引用符が閉じられていません。",
+      });
+    });
+
+    it("エクスポートした CSV を読み込むと同じ値に戻る", () => {
+      const location = {
+        id: 1,
+        name: '隅田公園 "桜橋"',
+        prefecture: "東京都",
+        latitude: 35.7128,
+        longitude: 139.8016,
+        elevation: 3,
+        status: "active" as const,
+        description: "カンマ, と\n改行を含む説明",
+        accessInfo: null,
+        parkingInfo: null,
+        measurementNotes: null,
+        azimuthToSkytree: 250.1,
+        elevationToSkytree: 12.3,
+        distanceToSkytree: 1.2,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const { content } = converter.serialize("csv", [location]);
+      const [record] = parseCsv(content);
+
+      expect(record.values.name).toBe(location.name);
+      expect(record.values.description).toBe(location.description);
+      expect(record.values.accessInfo).toBe("");
+    });
+  });
+
+  describe("空欄と列・プロパティがない項目", () => {
+    it("CSV の空欄は空文字列、列がない項目はキーを持たない", () => {
+      const [record] = parseCsv("id,name,description\n3,隅田公園,\n");
+
+      expect(record.values).toEqual({ id: "3", name: "隅田公園", description: "" });
+      expect("accessInfo" in record.values).toBe(false);
+    });
+
+    it("CSV の行のセルが列より少ない場合は空欄として扱う", () => {
+      const [record] = parseCsv("id,name,description\n3,隅田公園\n");
+
+      expect(record.values).toEqual({ id: "3", name: "隅田公園", description: "" });
+    });
+
+    it("JSON の null はそのまま、プロパティがない項目はキーを持たない", () => {
+      const result = converter.parse("json", [{ id: 3, description: null, unknown: "x" }]);
+
+      expect(result).toEqual({ records: [{ row: 1, values: { id: 3, description: null } }] });
+    });
+
+    it("GeoJSON の座標は経度・緯度・標高の順で、標高がない場合はキーを持たない", () => {
+      const result = converter.parse("geojson", {
+        type: "FeatureCollection",
+        features: [
+          {
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [139.8016, 35.7128] },
+            properties: { name: "隅田公園" },
+          },
+        ],
+      });
+
+      expect(result).toEqual({
+        records: [
+          { row: 1, values: { name: "隅田公園", longitude: 139.8016, latitude: 35.7128 } },
+        ],
+      });
+    });
+  });
+
+  it("空行は無視し、行番号はヘッダーを除いた行の位置", () => {
+    const records = parseCsv("name,prefecture\n隅田公園,東京都\n,\n荒川河川敷,東京都\n");
+
+    expect(records.map((record) => record.row)).toEqual([1, 3]);
+  });
+
+  it("BOM 付きの CSV を読み込む", () => {
+    const [record] = parseCsv("\uFEFFname,prefecture\n隅田公園,東京都\n");
+
+    expect(record.values).toEqual({ name: "隅田公園", prefecture: "東京都" });
+  });
+});
@@ -0,0 +1,215 @@
+import type { Location } from "@skytree-photo-planner/types";
+import type { LocationRepository } from "../../repositories/interfaces/LocationRepository";
+import type { ISystemSettingsService } from "../interfaces/ISystemSettingsService";
+import type { QueueService } from "../interfaces/QueueService";
+import { LocationDuplicateDetector } from "../LocationDuplicateDetector";
+import { LocationFileConverter } from "../LocationFileConverter";
+import { LocationImportService } from "../LocationImportService";
+import type { LocationService } from "../LocationService";
+
+const EXISTING: Location = {
+  id: 1,
+  name: "隅田公園",
+  prefecture: "東京都",
+  latitude: 35.7128,
+  longitude: 139.8016,
+  elevation: 3,
+  description: "桜橋の北側",
+  accessInfo: "浅草駅から徒歩 10 分",
+  parkingInfo: null,
+  measurementNotes: null,
+  azimuthToSkytree: 100,
+  elevationToSkytree: 20,
+  distanceToSkytree: 1.2,
+  status: "active",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+const CALCULATED_METRICS = { azimuthToSkytree: 111, elevationToSkytree: 22, distanceToSkytree: 3.3 };
+
+// リポジトリ・キューなどを差し替えて、差分の作成と反映の有無を確認する
+const createService = () => {
+  const locationRepository = {
+    findAll: jest.fn(async () => [EXISTING]),
+    importBatch: jest.fn(async ({ creates }: { creates: unknown[] }) => ({
+      created: creates.map((_, index) => ({ id: 100 + index })),
+    })),
+  };
+  const locationService = {
+    calculateSkytreeMetricsFor: jest.fn(() => CALCULATED_METRICS),
+  };
+  const queueService = {
+    scheduleLocationCalculation: jest.fn(async () => "job"),
+  };
+  const settingsService = {
+    getLocationDuplicateRules: jest.fn(async () => LocationDuplicateDetector.DEFAULT_RULES),
+  };
+  const service = new LocationImportService(
+    locationRepository as unknown as LocationRepository,
+    locationService as unknown as LocationService,
+    queueService as unknown as QueueService,
+    settingsService as unknown as ISystemSettingsService,
+  );
+  return { service, locationRepository, locationService, queueService };
+};
+
+const importCsv = (
+  service: LocationImportService,
+  content: string,
+  dryRun = false,
+) => {
+  const parsed = new LocationFileConverter().parse("csv", content);
+  if ("error" in parsed) throw new Error(parsed.error);
+  return service.importLocations(parsed.records, { dryRun });
+};
+
+describe("LocationImportService", () => {
+  describe("空欄と列がない項目", () => {
+    it("空欄のセルは値を消去する", async () => {
+      const { service, locationRepository } = createService();
+
+      const result = await importCsv(service, "id,name,description\n1,隅田公園,\n");
+
+      expect(result.rows[0]).toMatchObject({
+        action: "update",
+        changes: [{ field: "description", before: "桜橋の北側", after: null }],
+      });
+      expect(locationRepository.importBatch).toHaveBeenCalledWith({
+        creates: [],
+        updates: [{ id: 1, data: { description: null } }],
+      });
+    });
+
+    it("列がない項目は既存の値のまま変更しない", async () => {
+      const { service, locationRepository } = createService();
+
+      const result = await importCsv(service, "id,name\n1,隅田公園\n");
+
+      expect(result.rows[0]).toMatchObject({ action: "unchanged", changes: [] });
+      expect(locationRepository.importBatch).toHaveBeenCalledWith({
+        creates: [],
+        updates: [],
+      });
+    });
+
+    it("方位角などの空欄は計算し直し、列がない場合は位置が変わらなければ計算しない", async () => {
+      const { service, locationService } = createService();
+
+      const blank = await importCsv(service, "id,name,azimuthToSkytree\n1,隅田公園,\n", true);
+      expect(blank.rows[0].changes).toEqual([
+        { field: "azimuthToSkytree", before: 100, after: CALCULATED_METRICS.azimuthToSkytree },
+      ]);
+      expect(locationService.calculateSkytreeMetricsFor).toHaveBeenCalledTimes(1);
+
+      const missing = await importCsv(service, "id,name,description\n1,隅田公園,桜橋の北側\n", true);
+      expect(missing.rows[0].action).toBe("unchanged");
+      expect(locationService.calculateSkytreeMetricsFor).toHaveBeenCalledTimes(1);
+    });
+
+    it("名前・緯度などの必須項目は空欄にできない", async () => {
+      const { service } = createService();
+
+      const result = await importCsv(service, "id,name,latitude\n1,,\n", true);
+
+      expect(result.rows[0]).toMatchObject({
+        action: "invalid",
+        errors: ["name は空にできません", "latitude は空にできません"],
+      });
+    });
+  });
+
+  describe("ファイル内の重複", () => {
+    it("同じ ID の 2 行目以降は invalid", async () => {
+      const { service } = createService();
+
+      const result = await importCsv(
+        service,
+        "id,name,description\n1,隅田公園,北側\n1,隅田公園,南側\n",
+        true,
+      );
+
+      expect(result.rows.map((row) => row.action)).toEqual(["update", "invalid"]);
+      expect(result.rows[1].errors).toEqual(["ID 1 がファイル内で重複しています"]);
+    });
+
+    it("同じ座標の 2 行目以降は invalid", async () => {
+      const { service } = createService();
+
+      const result = await importCsv(
+        service,
+        [
+          "name,prefecture,latitude,longitude,elevation",
+          "荒川河川敷,東京都,35.7367,139.8361,2",
+          "荒川河川敷（下流）,東京都,35.7367,139.8361,5",
+        ].join("\n"),
+        true,
+      );
+
+      expect(result.rows.map((row) => row.action)).toEqual(["create", "invalid"]);
+      expect(result.rows[1].errors).toEqual(["1 件目と同じ座標です"]);
+    });
+
+    it("既存の地点と同じ座標の新規行は invalid", async () => {
+      const { service } = createService();
+
+      const result = await importCsv(
+        service,
+        `name,prefecture,latitude,longitude,elevation\n隅田公園（別名）,東京都,${EXISTING.latitude},${EXISTING.longitude},3\n`,
+        true,
+      );
+
+      expect(result.rows[0]).toMatchObject({
+        action: "invalid",
+        errors: ["同じ座標の地点（ID 1）が既に登録されています"],
+      });
+    });
+  });
+
+  describe("反映", () => {
+    const CONTENT = [
+      "id,name,prefecture,latitude,longitude,elevation",
+      "1,隅田公園,東京都,35.7129,139.8016,3",
+      ",荒川河川敷,東京都,35.7367,139.8361,2",
+      ",江戸川河川敷,千葉県,north,139.9,2",
+    ].join("\n");
+
+    it("invalid の行が 1 件でもある場合は何も反映しない", async () => {
+      const { service, locationRepository, queueService } = createService();
+
+      const result = await importCsv(service, CONTENT);
+
+      expect(result.applied).toBe(false);
+      expect(result.summary).toMatchObject({
+        createdCount: 1,
+        updatedCount: 1,
+        errorCount: 1,
+      });
+      expect(result.rows[2].errors).toEqual(["latitude は数値で指定してください"]);
+      expect(locationRepository.importBatch).not.toHaveBeenCalled();
+      expect(queueService.scheduleLocationCalculation).not.toHaveBeenCalled();
+    });
+
+    it("すべての行が有効な場合は 1 回でまとめて反映し、新規と位置が変わった地点を計算し直す", async () => {
+      const { service, locationRepository, queueService } = createService();
+
+      const result = await importCsv(service, CONTENT.split("\n").slice(0, 3).join("\n"));
+
+      expect(result.applied).toBe(true);
+      expect(locationRepository.importBatch).toHaveBeenCalledTimes(1);
+      expect(result.rows.map((row) => row.id)).toEqual([1, 100]);
+      expect(
+        queueService.scheduleLocationCalculation.mock.calls.map((call: unknown[]) => call[0]),
+      ).toEqual([100, 1]);
+    });
+
+    it("dryRun では差分のみ返す", async () => {
+      const { service, locationRepository } = createService();
+
+      const result = await importCsv(service, CONTENT.split("\n").slice(0, 3).join("\n"), true);
+
+      expect(result).toMatchObject({ dryRun: true, applied: false });
+      expect(locationRepository.importBatch).not.toHaveBeenCalled();
+    });
+  });
+});
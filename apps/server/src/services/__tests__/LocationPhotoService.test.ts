@@ -0,0 +1,218 @@
+import sharp from "sharp";
+import * as exifr from "exifr";
+import type {
+  LocationPhotoInput,
+  LocationPhotoRecord,
+  LocationPhotoRepository,
+} from "../../repositories/interfaces/LocationPhotoRepository";
+import type { PhotoStorage } from "../interfaces/PhotoStorage";
+import { LocationPhotoService } from "../LocationPhotoService";
+
+// ストレージはメモリ上に保存する
+const createStorage = () => {
+  const files = new Map<string, { data: Buffer; contentType: string }>();
+  const storage = {
+    name: "memory",
+    save: jest.fn(async (key: string, data: Buffer, contentType: string) => {
+      files.set(key, { data, contentType });
+    }),
+    read: jest.fn(async (key: string) => files.get(key)?.data ?? null),
+    delete: jest.fn(async (key: string) => {
+      files.delete(key);
+    }),
+    getUrl: (key: string) => `/api/photos/${key}`,
+  };
+  return { storage, files };
+};
+
+const createRepository = () => {
+  const records = new Map<number, LocationPhotoRecord>();
+  const repository = {
+    findByLocationId: jest.fn(),
+    findById: jest.fn(async (id: number) => records.get(id) ?? null),
+    create: jest.fn(async (photo: LocationPhotoInput) => {
+      const record = { ...photo, id: records.size + 1, createdAt: new Date("2026-10-19T00:00:00Z") };
+      records.set(record.id, record);
+      return record;
+    }),
+    update: jest.fn(),
+    delete: jest.fn(async (id: number) => {
+      records.delete(id);
+    }),
+  };
+  return { repository, records };
+};
+
+const createService = () => {
+  const { storage, files } = createStorage();
+  const { repository, records } = createRepository();
+  const service = new LocationPhotoService(
+    repository as unknown as LocationPhotoRepository,
+    storage as unknown as PhotoStorage,
+  );
+  return { service, storage, files, repository, records };
+};
+
+const META = { category: "skytree_view" as const, caption: null };
+
+// 横 800・縦 600 の画素を 90 度回転して表示する（縦位置で撮影した）JPEG。撮影日時・GPS 位置・機器のシリアル番号を含む
+const createCameraJpeg = () =>
+  sharp({ create: { width: 800, height: 600, channels: 3, background: { r: 40, g: 90, b: 160 } } })
+    .jpeg()
+    .withExif({
+      IFD0: { Make: "TestCamera", Model: "X-1" },
+      IFD2: { DateTimeOriginal: "2026:01:15 17:22:10", BodySerialNumber: "SN12345" },
+      IFD3: {
+        GPSLatitudeRef: "N",
+        GPSLatitude: "35/1 42/1 36/1",
+        GPSLongitudeRef: "E",
+        GPSLongitude: "139/1 48/1 39/1",
+      },
+    })
+    .withMetadata({ orientation: 6 })
+    .toBuffer();
+
+const createPng = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 4, background: { r: 255, g: 255, b: 255, alpha: 1 } } })
+    .png()
+    .toBuffer();
+
+describe("LocationPhotoService", () => {
+  describe("addPhoto", () => {
+    it("保存する元画像から GPS 位置・シリアル番号などのメタデータを取り除き、向きを画素に反映する", async () => {
+      const { service, files } = createService();
+      const original = await createCameraJpeg();
+      expect(await exifr.parse(original)).toMatchObject({ SerialNumber: "SN12345", latitude: 35.71 });
+
+      const result = await service.addPhoto(1, { buffer: original }, META);
+
+      expect(result).toHaveProperty("photo");
+      const stored = [...files.entries()].find(([key]) => key.endsWith(".jpg") && !key.endsWith("_thumb.jpg"));
+      expect(stored).toBeDefined();
+      const [, { data, contentType }] = stored!;
+      expect(contentType).toBe("image/jpeg");
+      expect(await exifr.parse(data)).toBeUndefined();
+      const metadata = await sharp(data).metadata();
+      expect(metadata).toMatchObject({ format: "jpeg", width: 600, height: 800 });
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.orientation).toBeUndefined();
+    });
+
+    it("撮影日時・GPS 位置はメタデータを取り除く前の EXIF から記録する", async () => {
+      const { service } = createService();
+
+      const result = await service.addPhoto(1, { buffer: await createCameraJpeg() }, META);
+
+      if (!("photo" in result)) throw new Error(result.error);
+      expect(result.photo).toMatchObject({ width: 600, height: 800 });
+      // タイムゾーンのない撮影日時は日本時間とみなす
+      expect(result.photo.takenAt).toEqual(new Date("2026-01-15T17:22:10+09:00"));
+      expect(result.photo.gpsLatitude).toBeCloseTo(35.71, 4);
+      expect(result.photo.gpsLongitude).toBeCloseTo(139.8108, 4);
+    });
+
+    it("拡張子・Content-Type はファイルの内容から判定した形式にする", async () => {
+      const { service, files, repository } = createService();
+
+      const result = await service.addPhoto(1, { buffer: await createPng(320, 200) }, META);
+
+      if (!("photo" in result)) throw new Error(result.error);
+      expect(result.photo.url).toMatch(/^\/api\/photos\/locations\/1\/[0-9a-f-]+\.png$/);
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ contentType: "image/png", width: 320, height: 200 }),
+      );
+      const stored = files.get(result.photo.url.replace("/api/photos/", ""))!;
+      expect(stored.contentType).toBe("image/png");
+      expect(repository.create.mock.calls[0][0].fileSize).toBe(stored.data.length);
+    });
+
+    it("長辺 480px の JPEG サムネイルを生成し、小さい画像は拡大しない", async () => {
+      const { service, files } = createService();
+
+      const large = await service.addPhoto(1, { buffer: await createCameraJpeg() }, META);
+      const small = await service.addPhoto(1, { buffer: await createPng(320, 200) }, META);
+
+      if (!("photo" in large) || !("photo" in small)) throw new Error("写真を登録できませんでした");
+      const thumbnailOf = (photo: { thumbnailUrl: string }) =>
+        files.get(photo.thumbnailUrl.replace("/api/photos/", ""))!;
+      expect(large.photo.thumbnailUrl).toMatch(/_thumb\.jpg$/);
+      expect(thumbnailOf(large.photo).contentType).toBe("image/jpeg");
+      expect(await sharp(thumbnailOf(large.photo).data).metadata()).toMatchObject({
+        format: "jpeg",
+        width: 360,
+        height: 480,
+      });
+      expect(await sharp(thumbnailOf(small.photo).data).metadata()).toMatchObject({
+        format: "jpeg",
+        width: 320,
+        height: 200,
+      });
+    });
+
+    it.each([
+      {
+        name: "GIF",
+        createBuffer: () =>
+          sharp({ create: { width: 10, height: 10, channels: 3, background: "#000" } }).gif().toBuffer(),
+        error: "JPEG・PNG・WebP の画像を指定してください。",
+      },
+      {
+        name: "画像でないファイル",
+        createBuffer: async () => Buffer.from("not an image"),
+        error: "画像を読み込めませんでした。ファイルが壊れていないか確認してください。",
+      },
+    ])("$name は保存せずにエラーを返す", async ({ createBuffer, error }) => {
+      const { service, storage, repository } = createService();
+
+      const result = await service.addPhoto(1, { buffer: await createBuffer() }, META);
+
+      expect(result).toEqual({ error });
+      expect(storage.save).not.toHaveBeenCalled();
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it("レコードを保存できなかった場合は保存済みのファイルを削除して例外を投げる", async () => {
+      const { service, files, repository } = createService();
+      repository.create.mockRejectedValueOnce(new Error("DB エラー"));
+
+      await expect(service.addPhoto(1, { buffer: await createPng(32, 32) }, META)).rejects.toThrow("DB エラー");
+
+      expect(files.size).toBe(0);
+    });
+  });
+
+  describe("deletePhoto", () => {
+    it("レコードと元画像・サムネイルのファイルを削除する", async () => {
+      const { service, files, records } = createService();
+      const result = await service.addPhoto(1, { buffer: await createPng(32, 32) }, META);
+      if (!("photo" in result)) throw new Error(result.error);
+      expect(files.size).toBe(2);
+
+      expect(await service.deletePhoto(result.photo.id)).toBe(true);
+
+      expect(records.size).toBe(0);
+      expect(files.size).toBe(0);
+    });
+
+    it("写真が存在しない場合は false を返し、何も削除しない", async () => {
+      const { service, storage, repository } = createService();
+
+      expect(await service.deletePhoto(99)).toBe(false);
+
+      expect(repository.delete).not.toHaveBeenCalled();
+      expect(storage.delete).not.toHaveBeenCalled();
+    });
+
+    it("ファイルの削除に失敗しても残りのファイルの削除を続ける", async () => {
+      const { service, storage, files } = createService();
+      const result = await service.addPhoto(1, { buffer: await createPng(32, 32) }, META);
+      if (!("photo" in result)) throw new Error(result.error);
+      storage.delete.mockRejectedValueOnce(new Error("削除失敗"));
+
+      expect(await service.deletePhoto(result.photo.id)).toBe(true);
+
+      expect(storage.delete).toHaveBeenCalledTimes(2);
+      expect([...files.keys()]).toEqual([result.photo.url.replace("/api/photos/", "")]);
+    });
+  });
+});
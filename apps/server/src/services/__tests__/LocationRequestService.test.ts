@@ -0,0 +1,292 @@
+import type { Location, LocationRequest } from "@skytree-photo-planner/types";
+import type { LocationRepository } from "../../repositories/interfaces/LocationRepository";
+import type {
+  LocationRequestDecision,
+  LocationRequestInput,
+  LocationRequestRepository,
+} from "../../repositories/interfaces/LocationRequestRepository";
+import type { CaptchaVerifier } from "../interfaces/CaptchaVerifier";
+import type { ISystemSettingsService } from "../interfaces/ISystemSettingsService";
+import type { QueueService } from "../interfaces/QueueService";
+import { LocationDuplicateDetector } from "../LocationDuplicateDetector";
+import type { LocationPhotoService } from "../LocationPhotoService";
+import { LocationRequestService } from "../LocationRequestService";
+import { LocationService } from "../LocationService";
+import type { SkytreeAstronomicalCalculator } from "../SkytreeAstronomicalCalculator";
+
+const createLocation = (id: number, name: string, latitude: number, longitude: number): Location => ({
+  id,
+  name,
+  prefecture: "東京都",
+  latitude,
+  longitude,
+  elevation: 2,
+  azimuthToSkytree: 0,
+  elevationToSkytree: 0,
+  distanceToSkytree: 0,
+  status: "active",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+});
+
+const EXISTING = createLocation(10, "隅田公園", 35.7125, 139.8039);
+
+/**
+ * 追加リクエストのテーブルのメモリ上の代替
+ * decideIfPending は Prisma の updateMany（status が pending の行のみ更新）と同じく、確認と更新を分けずに行う
+ */
+const createRepository = (requests: LocationRequest[]) => {
+  const rows = new Map(requests.map((request) => [request.id, { ...request }]));
+  const repository = {
+    create: jest.fn(async (input: LocationRequestInput) => {
+      const created: LocationRequest = {
+        ...input,
+        id: rows.size + 1,
+        status: "pending",
+        createdAt: new Date("2026-10-19T00:00:00Z"),
+      };
+      rows.set(created.id, created);
+      return created;
+    }),
+    findById: jest.fn(async (id: number) => {
+      const row = rows.get(id);
+      return row ? { ...row } : null;
+    }),
+    findByStatus: jest.fn(),
+    countByStatus: jest.fn(),
+    decideIfPending: jest.fn(async (id: number, decision: LocationRequestDecision) => {
+      const row = rows.get(id);
+      if (!row || row.status !== "pending") {
+        return null;
+      }
+      Object.assign(row, decision, { processedAt: new Date() });
+      return { ...row };
+    }),
+    revertToPending: jest.fn(async (id: number) => {
+      Object.assign(rows.get(id)!, {
+        status: "pending",
+        processedAt: undefined,
+        processedBy: undefined,
+        locationId: undefined,
+      });
+    }),
+    setLocationId: jest.fn(async (id: number, locationId: number) => {
+      const row = rows.get(id)!;
+      row.locationId = locationId;
+      return { ...row };
+    }),
+  };
+  return { repository, rows };
+};
+
+const PENDING: LocationRequest = {
+  id: 1,
+  name: "東白鬚公園",
+  prefecture: "東京都",
+  description: "堤防の上から東側が開けている",
+  suggestedLatitude: 35.7279,
+  suggestedLongitude: 139.8196,
+  requesterIp: "203.0.113.5",
+  status: "pending",
+  createdAt: new Date("2026-10-01T00:00:00Z"),
+};
+
+const createService = (
+  options: { captchaVerifier?: CaptchaVerifier | null; requireCaptcha?: boolean } = {},
+) => {
+  const { repository, rows } = createRepository([PENDING]);
+  // 重複候補の検出は LocationService・LocationDuplicateDetector をそのまま使い、地点の作成のみ差し替える
+  const locationService = new LocationService(
+    { findAll: jest.fn().mockResolvedValue([EXISTING]) } as unknown as LocationRepository,
+    {} as SkytreeAstronomicalCalculator,
+    {} as QueueService,
+    {
+      getLocationDuplicateRules: jest.fn().mockResolvedValue(LocationDuplicateDetector.DEFAULT_RULES),
+    } as unknown as ISystemSettingsService,
+    {} as LocationPhotoService,
+  );
+  const createLocationMock = jest
+    .spyOn(locationService, "createLocation")
+    .mockImplementation(async (data) => createLocation(20, data.name, data.latitude, data.longitude));
+  const service = new LocationRequestService(
+    repository as unknown as LocationRequestRepository,
+    locationService,
+    options.captchaVerifier ?? null,
+    options.requireCaptcha,
+  );
+  return { service, repository, rows, createLocationMock };
+};
+
+const APPROVE_BODY = { latitude: 35.7279, longitude: 139.8196, elevation: 3 };
+const ADMIN_ID = 7;
+
+describe("LocationRequestService", () => {
+  describe("submitRequest", () => {
+    const input: LocationRequestInput = {
+      name: "汐入公園",
+      prefecture: "東京都",
+      description: "川沿いの遊歩道",
+      requesterIp: "203.0.113.9",
+    };
+    const createVerifier = (verified: boolean) => ({
+      name: "turnstile" as const,
+      siteKey: "site-key",
+      verify: jest.fn().mockResolvedValue(verified),
+    });
+
+    it("キャプチャのトークンを送信元の IP とあわせて検証してから登録する", async () => {
+      const verifier = createVerifier(true);
+      const { service, repository } = createService({ captchaVerifier: verifier, requireCaptcha: true });
+
+      const result = await service.submitRequest(input, "token");
+
+      expect(verifier.verify).toHaveBeenCalledWith("token", "203.0.113.9");
+      expect(result).toEqual({ request: expect.objectContaining({ name: "汐入公園", status: "pending" }) });
+      expect(repository.create).toHaveBeenCalledWith(input);
+    });
+
+    it("キャプチャの検証に失敗した場合は登録しない", async () => {
+      const { service, repository } = createService({ captchaVerifier: createVerifier(false) });
+
+      expect(await service.submitRequest(input, "token")).toEqual({ error: "captcha_failed" });
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it("キャプチャ必須（本番環境）でキャプチャが未設定の場合は受け付けない", async () => {
+      const { service, repository } = createService({ requireCaptcha: true });
+
+      expect(await service.submitRequest(input, "")).toEqual({ error: "captcha_unavailable" });
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it("キャプチャ必須でない環境でキャプチャが未設定の場合は検証せずに登録する", async () => {
+      const { service, repository } = createService();
+
+      expect(await service.submitRequest(input, "")).toHaveProperty("request");
+      expect(repository.create).toHaveBeenCalled();
+    });
+  });
+
+  describe("approveRequest", () => {
+    it("承認済みにしてから地点を作成し、作成した地点の ID を記録する", async () => {
+      const { service, repository, rows, createLocationMock } = createService();
+
+      const result = await service.approveRequest(PENDING.id, ADMIN_ID, APPROVE_BODY);
+
+      expect(createLocationMock).toHaveBeenCalledWith({
+        ...APPROVE_BODY,
+        name: PENDING.name,
+        prefecture: PENDING.prefecture,
+        description: PENDING.description,
+      });
+      expect(repository.decideIfPending.mock.invocationCallOrder[0]).toBeLessThan(
+        createLocationMock.mock.invocationCallOrder[0],
+      );
+      expect(result).toMatchObject({ location: { id: 20 }, request: { status: "approved", locationId: 20 } });
+      expect(rows.get(PENDING.id)).toMatchObject({ status: "approved", processedBy: ADMIN_ID, locationId: 20 });
+    });
+
+    it("地点の作成に失敗した場合は未審査に戻して例外を投げる", async () => {
+      const { service, repository, rows, createLocationMock } = createService();
+      createLocationMock.mockRejectedValueOnce(new Error("地点の作成に失敗"));
+
+      await expect(service.approveRequest(PENDING.id, ADMIN_ID, APPROVE_BODY)).rejects.toThrow(
+        "地点の作成に失敗",
+      );
+
+      expect(repository.revertToPending).toHaveBeenCalledWith(PENDING.id);
+      expect(repository.setLocationId).not.toHaveBeenCalled();
+      expect(rows.get(PENDING.id)).toMatchObject({ status: "pending", processedBy: undefined });
+
+      // 未審査に戻っているため、もう一度承認できる
+      expect(await service.approveRequest(PENDING.id, ADMIN_ID, APPROVE_BODY)).toHaveProperty("location");
+    });
+
+    it("座標が完全に一致する地点がある場合は承認せず、重複候補を返す", async () => {
+      const { service, repository, rows, createLocationMock } = createService();
+
+      const result = await service.approveRequest(PENDING.id, ADMIN_ID, {
+        ...APPROVE_BODY,
+        name: "隅田公園（台東区側）",
+        latitude: EXISTING.latitude,
+        longitude: EXISTING.longitude,
+      });
+
+      expect(result).toMatchObject({
+        error: "duplicate",
+        exactDuplicate: { id: EXISTING.id, distanceMeters: 0 },
+        duplicates: [expect.objectContaining({ id: EXISTING.id })],
+      });
+      expect(repository.decideIfPending).not.toHaveBeenCalled();
+      expect(createLocationMock).not.toHaveBeenCalled();
+      expect(rows.get(PENDING.id)!.status).toBe("pending");
+    });
+
+    it("近くの地点は重複候補として返すが、座標が異なれば承認する", async () => {
+      const { service } = createService();
+
+      const result = await service.approveRequest(PENDING.id, ADMIN_ID, {
+        ...APPROVE_BODY,
+        latitude: EXISTING.latitude + 0.0001,
+        longitude: EXISTING.longitude,
+      });
+
+      expect(result).toMatchObject({
+        location: { id: 20 },
+        duplicates: [expect.objectContaining({ id: EXISTING.id })],
+      });
+    });
+
+    it.each([
+      { name: "存在しないリクエスト", id: 99, error: "not_found" },
+      { name: "審査済みのリクエスト", id: 2, error: "already_processed" },
+    ])("$name は審査しない", async ({ id, error }) => {
+      const { service, repository, createLocationMock } = createService();
+      repository.findById.mockImplementation(async (requestId: number) =>
+        requestId === 2 ? { ...PENDING, id: 2, status: "rejected" } : null,
+      );
+
+      expect(await service.approveRequest(id, ADMIN_ID, APPROVE_BODY)).toEqual({ error });
+      expect(createLocationMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("同時に審査された場合", () => {
+    it("2 人の管理者が同時に承認しても地点は 1 件だけ作成する", async () => {
+      const { service, createLocationMock } = createService();
+
+      const results = await Promise.all([
+        service.approveRequest(PENDING.id, ADMIN_ID, APPROVE_BODY),
+        service.approveRequest(PENDING.id, ADMIN_ID + 1, APPROVE_BODY),
+      ]);
+
+      expect(createLocationMock).toHaveBeenCalledTimes(1);
+      expect(results.filter((result) => "location" in result)).toHaveLength(1);
+      expect(results).toContainEqual({ error: "already_processed" });
+    });
+
+    it("承認と却下が同時に行われた場合は先に記録した方のみ有効にする", async () => {
+      const { service, rows, createLocationMock } = createService();
+
+      // どちらも未審査の状態を読み込んだ後に審査結果を記録する
+      const [approved, rejected] = await Promise.all([
+        service.approveRequest(PENDING.id, ADMIN_ID, APPROVE_BODY),
+        service.rejectRequest(PENDING.id, ADMIN_ID + 1),
+      ]);
+
+      // 承認は重複候補の検索を待つため、却下が先に記録される
+      expect(rejected).toMatchObject({ request: { status: "rejected", processedBy: ADMIN_ID + 1 } });
+      expect(approved).toEqual({ error: "already_processed" });
+      expect(createLocationMock).not.toHaveBeenCalled();
+      expect(rows.get(PENDING.id)!.status).toBe("rejected");
+    });
+
+    it("承認済みのリクエストは却下できない", async () => {
+      const { service, rows } = createService();
+      await service.approveRequest(PENDING.id, ADMIN_ID, APPROVE_BODY);
+
+      expect(await service.rejectRequest(PENDING.id, ADMIN_ID + 1)).toEqual({ error: "already_processed" });
+      expect(rows.get(PENDING.id)).toMatchObject({ status: "approved", locationId: 20 });
+    });
+  });
+});
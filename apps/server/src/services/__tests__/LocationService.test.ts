@@ -0,0 +1,94 @@
+import type { Location } from "@skytree-photo-planner/types";
+import type { LocationRepository } from "../../repositories/interfaces/LocationRepository";
+import type { LocationPhotoService } from "../LocationPhotoService";
+import type { QueueService } from "../interfaces/QueueService";
+import type { ISystemSettingsService } from "../interfaces/ISystemSettingsService";
+import { LocationService } from "../LocationService";
+import type { SkytreeAstronomicalCalculator } from "../SkytreeAstronomicalCalculator";
+
+const createLocation = (id: number, latitude: number, longitude: number): Location => ({
+  id,
+  name: `地点 ${id}`,
+  prefecture: "東京都",
+  latitude,
+  longitude,
+  elevation: 2,
+  azimuthToSkytree: 0,
+  elevationToSkytree: 0,
+  distanceToSkytree: id * 1000,
+  status: "active",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+});
+
+// 中心（35.71, 139.81）からの距離は地点 1 が約 4.4km、地点 3 が約 1.1km、地点 4 が約 4.5km
+// 地点 2 は半径 5km の円に外接する範囲の角にあり（約 6.3km）、リポジトリの前段の絞り込みは通る
+const CENTER = { latitude: 35.71, longitude: 139.81 };
+const LOCATIONS = [
+  createLocation(1, 35.67, 139.81),
+  createLocation(2, 35.67, 139.86),
+  createLocation(3, 35.72, 139.81),
+  createLocation(4, 35.71, 139.86),
+];
+
+const createService = (locations: Location[] = LOCATIONS) => {
+  const locationRepository = {
+    findBySpatialQuery: jest.fn().mockResolvedValue(locations),
+  };
+  const service = new LocationService(
+    locationRepository as unknown as LocationRepository,
+    {} as SkytreeAstronomicalCalculator,
+    {} as QueueService,
+    {} as ISystemSettingsService,
+    {} as LocationPhotoService,
+  );
+  return { service, locationRepository };
+};
+
+describe("LocationService.searchLocationsByArea", () => {
+  it("半径の外側の地点を除き、中心からの距離順に距離を付けて返す", async () => {
+    const { service, locationRepository } = createService();
+    const query = { center: { ...CENTER, radiusMeters: 5000 } };
+
+    const results = await service.searchLocationsByArea(query);
+
+    expect(locationRepository.findBySpatialQuery).toHaveBeenCalledWith(query);
+    expect(results.map((location) => location.id)).toEqual([3, 1, 4]);
+    expect(results[0].distanceFromCenter).toBeGreaterThan(1000);
+    expect(results[0].distanceFromCenter).toBeLessThan(1200);
+    for (const location of results) {
+      expect(location.distanceFromCenter).toBeLessThanOrEqual(5000);
+    }
+  });
+
+  it("件数の上限は半径で絞り込んだ後に適用する", async () => {
+    const { service } = createService();
+
+    const results = await service.searchLocationsByArea({
+      center: { ...CENTER, radiusMeters: 5000 },
+      limit: 2,
+    });
+
+    expect(results.map((location) => location.id)).toEqual([3, 1]);
+  });
+
+  it("半径を指定しない中心は距離順に並べるだけで絞り込まない", async () => {
+    const { service } = createService();
+
+    const results = await service.searchLocationsByArea({ center: CENTER });
+
+    expect(results.map((location) => location.id)).toEqual([3, 1, 4, 2]);
+  });
+
+  it("中心を指定しない場合はリポジトリの順（スカイツリーまでの距離順）のまま返す", async () => {
+    const { service } = createService();
+
+    const results = await service.searchLocationsByArea({
+      azimuthToSkytree: { from: 350, to: 10 },
+      limit: 3,
+    });
+
+    expect(results.map((location) => location.id)).toEqual([1, 2, 3]);
+    expect(results[0]).not.toHaveProperty("distanceFromCenter");
+  });
+});
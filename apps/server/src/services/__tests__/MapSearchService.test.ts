@@ -0,0 +1,88 @@
+import { DEFAULT_ALIGNMENT_TARGETS } from "@skytree-photo-planner/types";
+import type { AlignmentTarget } from "@skytree-photo-planner/types";
+import type { SkytreeAlignmentCalculator } from "../astronomical/SkytreeAlignmentCalculator";
+import type { ISystemSettingsService } from "../interfaces/ISystemSettingsService";
+import { MapSearchService } from "../MapSearchService";
+import type { MapSearchParams } from "../MapSearchService";
+import type { MapSearchCacheKey, RedisService } from "../RedisService";
+
+const SEARCH_PARAMS: MapSearchParams = {
+  latitude: 35.71,
+  longitude: 139.78,
+  elevation: 0,
+  scene: "all",
+  searchMode: "balanced",
+  startDate: new Date("2026-10-19T00:00:00Z"),
+  endDate: new Date("2026-10-21T00:00:00Z"),
+};
+
+const targetOf = (id: string): AlignmentTarget =>
+  DEFAULT_ALIGNMENT_TARGETS.find((target) => target.id === id)!;
+
+// 計算エンジンの呼び出しごとの日付と精度設定（仮想地点は作成時刻を含むため比較しない）
+const dateAndSettings = (method: jest.Mock) =>
+  (method.mock.calls as unknown[][]).map((call) => [call[0], call[2]]);
+
+// 計算エンジンとキャッシュを差し替え、計算に渡す精度設定とキャッシュのキーを記録する
+const createService = () => {
+  const calculator = {
+    findDiamondSkytree: jest.fn(async () => []),
+    findPearlSkytree: jest.fn(async () => []),
+    getElevationProviderName: jest.fn(() => "none"),
+  };
+  const settingsService = {
+    getRefractionSettings: jest.fn(async () => ({})),
+    getPearlGatingRules: jest.fn(async () => ({})),
+    getStringSetting: jest.fn(async (_key: string, fallback: string) => fallback),
+    getTerrainOcclusionSettings: jest.fn(async () => ({})),
+  };
+  const cacheKeys: MapSearchCacheKey[] = [];
+  const redisService = {
+    getMapSearchDays: jest.fn(async (key: MapSearchCacheKey) => {
+      cacheKeys.push(key);
+      return new Map();
+    }),
+    cacheMapSearchDays: jest.fn(async () => undefined),
+  };
+  const service = new MapSearchService(
+    calculator as unknown as SkytreeAlignmentCalculator,
+    settingsService as unknown as ISystemSettingsService,
+    redisService as unknown as RedisService,
+  );
+  return { service, calculator, cacheKeys };
+};
+
+describe("MapSearchService（目標点）", () => {
+  it("頂部の目標点は目標点なしと同じ条件・キャッシュで検索する", async () => {
+    const withoutTarget = createService();
+    const withTip = createService();
+
+    await withoutTarget.service.search(SEARCH_PARAMS);
+    await withTip.service.search({ ...SEARCH_PARAMS, target: targetOf("tip") });
+
+    for (const method of ["findDiamondSkytree", "findPearlSkytree"] as const) {
+      expect(dateAndSettings(withTip.calculator[method])).toEqual(
+        dateAndSettings(withoutTarget.calculator[method]),
+      );
+    }
+    expect(withTip.cacheKeys).toEqual(withoutTarget.cacheKeys);
+    for (const [, settings] of dateAndSettings(withTip.calculator.findDiamondSkytree)) {
+      expect(settings).not.toHaveProperty("target");
+    }
+  });
+
+  it("頂部以外の目標点は計算に渡し、キャッシュも分ける", async () => {
+    const withoutTarget = createService();
+    const withGainTower = createService();
+
+    await withoutTarget.service.search(SEARCH_PARAMS);
+    await withGainTower.service.search({ ...SEARCH_PARAMS, target: targetOf("gain_tower") });
+
+    for (const [, settings] of dateAndSettings(withGainTower.calculator.findDiamondSkytree)) {
+      expect(settings).toMatchObject({ target: targetOf("gain_tower") });
+    }
+    expect(withGainTower.cacheKeys[0].settingsHash).not.toBe(
+      withoutTarget.cacheKeys[0].settingsHash,
+    );
+  });
+});
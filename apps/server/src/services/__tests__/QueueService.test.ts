@@ -0,0 +1,76 @@
+import { QueueService } from "../QueueService";
+
+const SEARCH_PARAMS = {
+  latitude: 35.71,
+  longitude: 139.78,
+  elevation: 0,
+  scene: "all" as const,
+  searchMode: "auto" as const,
+  startDate: new Date("2026-10-19T00:00:00Z"),
+  endDate: new Date("2026-11-19T00:00:00Z"),
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+// Redis・BullMQ のキューをメモリ上の代替に差し替える
+const createService = () => {
+  process.env.DISABLE_REDIS = "true";
+  const service = new QueueService(null, false);
+  const store = new Map<string, string>();
+  const redis = {
+    set: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+      return "OK";
+    }),
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+  };
+  const mapSearchQueue = {
+    add: jest.fn(async (_name: string, _data: unknown, options: { jobId: string }) => ({
+      id: options.jobId,
+    })),
+  };
+  Object.assign(service, { redis, mapSearchQueue });
+  return { service, store, mapSearchQueue };
+};
+
+describe("QueueService（地図検索ジョブのトークン）", () => {
+  const originalDisableRedis = process.env.DISABLE_REDIS;
+  afterAll(() => {
+    if (originalDisableRedis === undefined) {
+      delete process.env.DISABLE_REDIS;
+    } else {
+      process.env.DISABLE_REDIS = originalDisableRedis;
+    }
+  });
+
+  it("ジョブ ID は UUID で、キューにも同じ ID で登録する", async () => {
+    const { service, mapSearchQueue } = createService();
+
+    const job = await service.scheduleMapSearch(SEARCH_PARAMS);
+
+    expect(job?.jobId).toMatch(UUID_PATTERN);
+    expect(mapSearchQueue.add).toHaveBeenCalledWith("map-search", expect.anything(), {
+      jobId: job?.jobId,
+    });
+  });
+
+  it("登録時のトークンのみ受け付ける", async () => {
+    const { service } = createService();
+    const job = (await service.scheduleMapSearch(SEARCH_PARAMS))!;
+    const other = (await service.scheduleMapSearch(SEARCH_PARAMS))!;
+
+    await expect(service.verifyMapSearchToken(job.jobId, job.token)).resolves.toBe(true);
+    await expect(service.verifyMapSearchToken(job.jobId, other.token)).resolves.toBe(false);
+    await expect(service.verifyMapSearchToken(job.jobId, undefined)).resolves.toBe(false);
+    await expect(service.verifyMapSearchToken(job.jobId, "")).resolves.toBe(false);
+    await expect(service.verifyMapSearchToken("unknown", job.token)).resolves.toBe(false);
+  });
+
+  it("トークンそのものは Redis に保存しない", async () => {
+    const { service, store } = createService();
+
+    const job = (await service.scheduleMapSearch(SEARCH_PARAMS))!;
+
+    expect([...store.values()]).not.toContain(job.token);
+  });
+});
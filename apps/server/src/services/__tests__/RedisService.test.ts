@@ -0,0 +1,63 @@
+import { RedisService } from "../RedisService";
+
+describe("RedisService", () => {
+  describe("quantizeMapSearchPoint", () => {
+    it("緯度・経度は小数 5 桁（約 1m）、標高は 1m 単位に丸める", () => {
+      expect(
+        RedisService.quantizeMapSearchPoint({
+          latitude: 35.7100674,
+          longitude: 139.8107046,
+          elevation: 41.6,
+        }),
+      ).toEqual({ latitude: 35.71007, longitude: 139.8107, elevation: 42 });
+    });
+
+    it("丸めによる地点のずれは 1m 程度", () => {
+      const point = { latitude: 35.712345, longitude: 139.776655, elevation: 0 };
+      const quantized = RedisService.quantizeMapSearchPoint(point);
+      const metersPerDegree = 111_320;
+
+      expect(Math.abs(quantized.latitude - point.latitude) * metersPerDegree).toBeLessThan(1);
+      expect(Math.abs(quantized.longitude - point.longitude) * metersPerDegree).toBeLessThan(1);
+    });
+  });
+
+  describe("getCacheStats", () => {
+    // SCAN はカーソルごとに 2 件ずつ返す
+    const createService = (keys: string[]) => {
+      const service = new RedisService();
+      const redis = {
+        scan: jest.fn(async (cursor: string, _match: string, pattern: string) => {
+          const prefix = pattern.replace(/\*$/, "");
+          const matched = keys.filter((key) => key.startsWith(prefix));
+          const offset = parseInt(cursor);
+          const next = offset + 2 < matched.length ? String(offset + 2) : "0";
+          return [next, matched.slice(offset, offset + 2)];
+        }),
+        keys: jest.fn(),
+        mget: jest.fn(async () => ["3", "1"]),
+        info: jest.fn(async () => "used_memory_human:1.5M\r\nuptime_in_seconds:60\r\n"),
+      };
+      Object.assign(service, { redis });
+      return { service, redis };
+    };
+
+    it("キー数を KEYS を使わず SCAN で数える", async () => {
+      const { service, redis } = createService([
+        "monthly_events:2026-10",
+        "map_search_day:35.71007:139.8107:42:diamond:abc:2026-10-19",
+        "map_search_day:35.71007:139.8107:42:diamond:abc:2026-10-20",
+        "map_search_day:35.71007:139.8107:42:pearl:abc:2026-10-19",
+        "map_search_day:35.71007:139.8107:42:pearl:abc:2026-10-20",
+        "map_search_day:35.71007:139.8107:42:pearl:abc:2026-10-21",
+      ]);
+
+      const stats = await service.getCacheStats();
+
+      expect(redis.keys).not.toHaveBeenCalled();
+      expect(stats.monthlyEventsCount).toBe(1);
+      expect(stats.sessionsCount).toBe(0);
+      expect(stats.mapSearch).toEqual({ daysCount: 5, hits: 3, misses: 1, hitRate: 0.75 });
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import type { SkytreeEvent } from "@skytree-photo-planner/types";
+import type { MapSearchParams, MapSearchResult, MapSearchService } from "../MapSearchService";
+import { RegionRecommendationService } from "../RegionRecommendationService";
+
+type Vertex = { latitude: number; longitude: number };
+
+// スカイツリーの北約 5km（足立区付近）の L 字形の範囲。北東の角（緯度 35.76 以上・経度 139.81 以上）は範囲外
+const L_SHAPE: Vertex[] = [
+  { latitude: 35.75, longitude: 139.8 },
+  { latitude: 35.77, longitude: 139.8 },
+  { latitude: 35.77, longitude: 139.81 },
+  { latitude: 35.76, longitude: 139.81 },
+  { latitude: 35.76, longitude: 139.83 },
+  { latitude: 35.75, longitude: 139.83 },
+];
+
+const createEvent = (time: string, qualityScore: number): SkytreeEvent =>
+  ({ id: `diamond_${time}`, type: "diamond", time: new Date(time), qualityScore }) as unknown as SkytreeEvent;
+
+const createService = (
+  search: (params: MapSearchParams, callIndex: number) => Partial<MapSearchResult> = () => ({}),
+) => {
+  const searchMock = jest.fn(async (params: MapSearchParams) => ({
+    events: [],
+    searchInterval: 1,
+    cancelled: false,
+    ...search(params, searchMock.mock.calls.length - 1),
+  }));
+  const service = new RegionRecommendationService({
+    search: searchMock,
+  } as unknown as MapSearchService);
+  return { service, searchMock };
+};
+
+const recommendIn = (
+  service: RegionRecommendationService,
+  polygon: Vertex[],
+  startDate = "2026-01-01T00:00:00Z",
+  endDate = "2026-01-31T00:00:00Z",
+) =>
+  service.recommend({
+    polygon,
+    elevation: 10,
+    scene: "diamond",
+    startDate: new Date(startDate),
+    endDate: new Date(endDate),
+  });
+
+const searchedPoints = (searchMock: jest.Mock) =>
+  searchMock.mock.calls.map(([params]: [MapSearchParams]) => ({
+    latitude: params.latitude,
+    longitude: params.longitude,
+  }));
+
+describe("RegionRecommendationService", () => {
+  describe("格子点の配置", () => {
+    it("範囲の内側にのみ格子点を置き、凹んだ部分には置かない", async () => {
+      const { service, searchMock } = createService();
+
+      const { recommendation } = await recommendIn(service, L_SHAPE);
+
+      const points = searchedPoints(searchMock);
+      expect(points.length).toBeGreaterThan(20);
+      expect(points.length).toBeLessThanOrEqual(50);
+      for (const point of points) {
+        expect(point.latitude).toBeGreaterThan(35.75);
+        expect(point.latitude).toBeLessThan(35.77);
+        expect(point.longitude).toBeGreaterThan(139.8);
+        expect(point.longitude).toBeLessThan(139.83);
+        expect(point.latitude > 35.76 && point.longitude > 139.81).toBe(false);
+      }
+      expect(recommendation.candidates).toHaveLength(points.length);
+      expect(recommendation.gridSpacing).toBeGreaterThanOrEqual(100);
+    });
+
+    it("検索期間が長いほど格子点を減らし、格子点数 × 日数を一定以内に抑える", async () => {
+      const { service, searchMock } = createService();
+
+      await recommendIn(service, L_SHAPE, "2026-01-01T00:00:00Z", "2026-06-29T00:00:00Z");
+
+      // 180 日（181 日分）の場合は 2000 / 181 = 11 点まで
+      expect(searchMock.mock.calls.length).toBeGreaterThan(0);
+      expect(searchMock.mock.calls.length).toBeLessThanOrEqual(11);
+    });
+
+    it("格子の間隔より狭い範囲は頂点の重心で検索する", async () => {
+      const { service, searchMock } = createService();
+
+      await recommendIn(service, [
+        { latitude: 35.75, longitude: 139.8 },
+        { latitude: 35.7503, longitude: 139.8 },
+        { latitude: 35.75, longitude: 139.8003 },
+      ]);
+
+      expect(searchedPoints(searchMock)).toEqual([{ latitude: 35.7501, longitude: 139.8001 }]);
+    });
+
+    it("全格子点を高速モード・共通の標高と条件で検索する", async () => {
+      const { service, searchMock } = createService();
+
+      await recommendIn(service, L_SHAPE);
+
+      for (const [params] of searchMock.mock.calls) {
+        expect(params).toMatchObject({
+          elevation: 10,
+          scene: "diamond",
+          searchMode: "fast",
+          startDate: new Date("2026-01-01T00:00:00Z"),
+          endDate: new Date("2026-01-31T00:00:00Z"),
+        });
+      }
+    });
+  });
+
+  describe("順位付け", () => {
+    it("イベントが多く品質の高い地点を上位にし、スコアの高い順に順位を付ける", async () => {
+      const { service, searchMock } = createService((_params, callIndex) =>
+        callIndex === 3
+          ? {
+              events: [
+                createEvent("2026-01-10T07:40:00Z", 80),
+                createEvent("2026-01-11T07:41:00Z", 95),
+                createEvent("2026-01-11T07:42:00Z", 65),
+              ],
+            }
+          : {},
+      );
+
+      const { recommendation } = await recommendIn(service, L_SHAPE);
+
+      const [best, ...others] = recommendation.candidates;
+      const [fourthSearched] = searchedPoints(searchMock).slice(3, 4);
+      expect(best).toMatchObject({
+        rank: 1,
+        ...fourthSearched,
+        eventCount: 3,
+        eventDays: 2,
+        averageQualityScore: 80,
+      });
+      expect(best.bestEvent?.qualityScore).toBe(95);
+      // イベント数（40%）と品質（30%）が満点
+      expect(best.score).toBeGreaterThan(70);
+
+      others.forEach((candidate, index) => {
+        expect(candidate.rank).toBe(index + 2);
+        expect(candidate.eventCount).toBe(0);
+        expect(candidate.averageQualityScore).toBeUndefined();
+        // 見かけの大きさ（15%）と距離（15%）のみ。撮影しやすい 2〜20km の範囲なので距離は満点
+        expect(candidate.score).toBeGreaterThanOrEqual(15);
+        expect(candidate.score).toBeLessThanOrEqual(30);
+      });
+      const scores = recommendation.candidates.map((candidate) => candidate.score);
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    });
+
+    it("格子点のスカイツリーまでの距離・方位角・見かけの高さを返す", async () => {
+      const { service } = createService();
+
+      const { recommendation } = await recommendIn(service, L_SHAPE);
+
+      for (const candidate of recommendation.candidates) {
+        // 範囲はスカイツリーの北約 4.5〜7km
+        expect(candidate.distance).toBeGreaterThan(4000);
+        expect(candidate.distance).toBeLessThan(7500);
+        expect(candidate.azimuth).toBeGreaterThan(150);
+        expect(candidate.azimuth).toBeLessThan(210);
+        expect(candidate.apparentHeight).toBeGreaterThan(4);
+        expect(candidate.apparentHeight).toBeLessThan(9);
+      }
+    });
+  });
+
+  it("中断された場合は検索済みの格子点のみ返し、以降は検索しない", async () => {
+    const { service, searchMock } = createService((_params, callIndex) => ({
+      cancelled: callIndex === 1,
+    }));
+
+    const result = await recommendIn(service, L_SHAPE);
+
+    expect(result.cancelled).toBe(true);
+    expect(searchMock).toHaveBeenCalledTimes(2);
+    expect(result.recommendation.candidates).toHaveLength(2);
+  });
+});
@@ -0,0 +1,93 @@
+import type { AlignmentGeometry } from "@skytree-photo-planner/types";
+
+/**
+ * 整列時に天体の円盤とスカイツリーがどう重なるかを分類するクラス
+ *
+ * 塔を観測地点から見た鉛直の線分（基部の仰角〜頂部の仰角、方位差 0）とみなし、
+ * 天体中心までの方位角差・高度と視半径から、頂部・塔体・塔の外のどこに円盤が来るかを判定する
+ */
+export class AlignmentClassifier {
+  private static readonly TOWER_HEIGHT = 634; // 頂部の地上高（m）
+  private static readonly CENTERED_RATIO = 0.5; // 頂部が視半径のこの割合以内なら中心に乗っているとみなす
+  // 接触時間帯が求まらない場合の平均視半径（度）
+  private static readonly MEAN_SUN_RADIUS = 0.2666;
+  private static readonly MEAN_MOON_RADIUS = 0.2591;
+
+  /**
+   * 方位角差・天体の高度から重なり方を分類
+   */
+  classify(params: {
+    azimuthDiff: number; // 天体とスカイツリーの方位角差（度）
+    sunOrMoonElevation: number; // 天体中心の高度（度）
+    tipElevation: number; // 頂部への仰角（度）
+    baseElevation: number; // 基部への仰角（度）
+    body: "sun" | "moon";
+    angularRadius?: number; // 天体の見かけの視半径（度）
+  }): AlignmentGeometry {
+    const { sunOrMoonElevation, tipElevation, baseElevation } = params;
+    const radius =
+      params.angularRadius ??
+      (params.body === "sun"
+        ? AlignmentClassifier.MEAN_SUN_RADIUS
+        : AlignmentClassifier.MEAN_MOON_RADIUS);
+
+    // 方位角差を天球上の水平方向の角距離に換算
+    const horizontalOffset =
+      Math.abs(params.azimuthDiff) * Math.cos(this.toRadians(sunOrMoonElevation));
+
+    const distanceToTip = Math.hypot(horizontalOffset, sunOrMoonElevation - tipElevation);
+    if (distanceToTip <= radius * AlignmentClassifier.CENTERED_RATIO) {
+      return { classification: "centered" };
+    }
+    if (distanceToTip <= radius) {
+      return { classification: "touching" };
+    }
+
+    // 塔体（基部〜頂部の線分）までの最短角距離
+    const verticalOffset =
+      sunOrMoonElevation > tipElevation
+        ? sunOrMoonElevation - tipElevation
+        : sunOrMoonElevation < baseElevation
+          ? baseElevation - sunOrMoonElevation
+          : 0;
+    const distanceToTower = Math.hypot(horizontalOffset, verticalOffset);
+
+    if (distanceToTower <= radius) {
+      return {
+        classification: "crossing_shaft",
+        crossingHeight: this.getHeightAtElevation(
+          Math.min(Math.max(sunOrMoonElevation, baseElevation), tipElevation),
+          tipElevation,
+          baseElevation,
+        ),
+      };
+    }
+
+    return {
+      classification: "beside",
+      offsetDiameters: Math.round(((distanceToTower - radius) / (2 * radius)) * 10) / 10,
+    };
+  }
+
+  /**
+   * 仰角に対応する塔の高さ（m）
+   * 仰角の正接は塔の高さに比例するため、基部と頂部の正接から補間する
+   */
+  private getHeightAtElevation(
+    elevation: number,
+    tipElevation: number,
+    baseElevation: number,
+  ): number {
+    const tipTan = Math.tan(this.toRadians(tipElevation));
+    const baseTan = Math.tan(this.toRadians(baseElevation));
+    if (tipTan === baseTan) {
+      return AlignmentClassifier.TOWER_HEIGHT;
+    }
+    const ratio = (Math.tan(this.toRadians(elevation)) - baseTan) / (tipTan - baseTan);
+    return Math.round(ratio * AlignmentClassifier.TOWER_HEIGHT);
+  }
+
+  private toRadians(degrees: number): number {
+    return degrees * (Math.PI / 180);
+  }
+}
@@ -0,0 +1,154 @@
+import type {
+  AlignmentLine,
+  AlignmentLinePoint,
+  RefractionSettings,
+} from "@skytree-photo-planner/types";
+import { SKYTREE_COORDINATES } from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type { ISystemSettingsService } from "../interfaces/ISystemSettingsService";
+import { CelestialPositionCalculator } from "./CelestialPositionCalculator";
+import { CoordinateCalculator } from "./CoordinateCalculator";
+
+/**
+ * 整列線（逆検索）を計算するクラス
+ *
+ * 地図検索が「この地点でいつ重なるか」を求めるのに対し、日付から「どこに立てば重なるか」を求める
+ * 各時刻で天体の反対方向に延ばした線上のうち、スカイツリー頂部が天体と同じ高度に見える地点を並べる
+ * - 海抜 0m の観測者を基準に距離を決める
+ * - 天体が低く MAX_DISTANCE 以内に収まらない場合は MAX_DISTANCE の地点に置き、必要な観測者の高度を求める
+ */
+export class AlignmentLineCalculator {
+  static readonly DEFAULT_STEP_MINUTES = 5;
+  private static readonly MIN_DISTANCE = 300; // m（これより近いと塔の真下に近く撮影に向かない）
+  private static readonly MAX_DISTANCE = 80000; // m（頂部が地平線下に隠れない範囲）
+  private static readonly MAX_OBSERVER_HEIGHT = 3000; // m
+  private static readonly SKYTREE_HEIGHT = 634;
+
+  private logger = getComponentLogger("AlignmentLineCalculator");
+  private celestialCalc = new CelestialPositionCalculator();
+  private coordinateCalc = new CoordinateCalculator();
+
+  constructor(private settingsService: ISystemSettingsService) {}
+
+  /**
+   * 指定日（YYYY-MM-DD, JST）の時間帯（HH:mm, JST）の整列線を計算
+   * 時間帯を省略した場合は 0 時から 24 時まで
+   */
+  async calculateAlignmentLine(params: {
+    date: string;
+    type: "diamond" | "pearl";
+    startTime?: string;
+    endTime?: string;
+    stepMinutes?: number;
+  }): Promise<AlignmentLine> {
+    const { date, type } = params;
+    const stepMinutes = params.stepMinutes ?? AlignmentLineCalculator.DEFAULT_STEP_MINUTES;
+    const startTime = new Date(`${date}T${params.startTime ?? "00:00"}:00+09:00`);
+    const endTime = params.endTime
+      ? new Date(`${date}T${params.endTime}:00+09:00`)
+      : new Date(startTime.getTime() + 24 * 60 * 60 * 1000);
+    const refraction = await this.settingsService.getRefractionSettings();
+
+    const points: AlignmentLinePoint[] = [];
+    for (
+      let time = startTime.getTime();
+      time <= endTime.getTime();
+      time += stepMinutes * 60 * 1000
+    ) {
+      const point = this.calculatePoint(new Date(time), type, refraction);
+      if (point) {
+        points.push(point);
+      }
+    }
+
+    this.logger.info("整列線計算完了", {
+      date,
+      type,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      stepMinutes,
+      pointCount: points.length,
+    });
+
+    return { date, type, startTime, endTime, stepMinutes, points };
+  }
+
+  /**
+   * 指定時刻に天体が頂部に重なる地点を計算
+   * 撮影に使えない地点（近すぎる・必要な高度が高すぎる）の場合は null
+   */
+  private calculatePoint(
+    time: Date,
+    type: "diamond" | "pearl",
+    refraction: RefractionSettings,
+  ): AlignmentLinePoint | null {
+    // 1. スカイツリーの位置で天体位置を求めて仮の地点を決める
+    let observer: { latitude: number; longitude: number } = SKYTREE_COORDINATES;
+    let result: AlignmentLinePoint | null = null;
+
+    // 2. 仮の地点で天体位置を計算し直して地点を補正する（月の視差の補正）
+    for (let iteration = 0; iteration < 2; iteration++) {
+      const position =
+        type === "diamond"
+          ? this.celestialCalc.calculateSunPosition(time, observer, refraction)
+          : this.celestialCalc.calculateMoonPosition(time, observer, refraction);
+      if (!position) return null;
+
+      let distance = this.coordinateCalc.calculateDistanceForElevation(
+        position.elevation,
+        0,
+        AlignmentLineCalculator.SKYTREE_HEIGHT,
+      );
+      let requiredObserverHeight = 0;
+      if (!isFinite(distance) || distance < AlignmentLineCalculator.MIN_DISTANCE) {
+        return null;
+      }
+      if (distance > AlignmentLineCalculator.MAX_DISTANCE) {
+        distance = AlignmentLineCalculator.MAX_DISTANCE;
+        requiredObserverHeight = this.coordinateCalc.calculateObserverHeightForElevation(
+          position.elevation,
+          distance,
+          AlignmentLineCalculator.SKYTREE_HEIGHT,
+        );
+        if (requiredObserverHeight > AlignmentLineCalculator.MAX_OBSERVER_HEIGHT) {
+          return null;
+        }
+      }
+
+      // 撮影地点は天体と反対の方向にある
+      observer = this.calculateObserverPoint(position.azimuth, distance);
+      result = {
+        time,
+        latitude: observer.latitude,
+        longitude: observer.longitude,
+        distance: Math.round(distance),
+        bodyAzimuth: Math.round(position.azimuth * 100) / 100,
+        bodyElevation: Math.round(position.elevation * 1000) / 1000,
+        requiredObserverHeight: Math.round(requiredObserverHeight),
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * 撮影地点からスカイツリーを見る方位角が天体の方位角と一致する、指定距離の地点
+   * 大圏上では出発点と到着点の方位角が子午線収差の分（80km で約 0.5 度）ずれるため、出発方位を補正する
+   */
+  private calculateObserverPoint(
+    bodyAzimuth: number,
+    distance: number,
+  ): { latitude: number; longitude: number } {
+    let bearing = (bodyAzimuth + 180) % 360;
+    let point = this.coordinateCalc.calculatePointFromSkytree(bearing, distance);
+
+    for (let iteration = 0; iteration < 2; iteration++) {
+      const azimuthToSkytree = this.coordinateCalc.calculateAzimuthToSkytree(point);
+      const error = ((azimuthToSkytree - bodyAzimuth + 540) % 360) - 180;
+      bearing = (bearing - error + 360) % 360;
+      point = this.coordinateCalc.calculatePointFromSkytree(bearing, distance);
+    }
+
+    return point;
+  }
+}
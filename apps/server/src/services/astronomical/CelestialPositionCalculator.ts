@@ -1,6 +1,8 @@
 import * as Astronomy from "astronomy-engine";
 import { SunPosition, MoonPosition } from "@skytree-photo-planner/types";
+import type { RefractionSettings } from "@skytree-photo-planner/types";
 import { getComponentLogger } from "@skytree-photo-planner/utils";
+import { RefractionCalculator } from "./RefractionCalculator";
 
 /**
  * 天体位置計算を担当するクラス
@@ -8,6 +10,7 @@ import { getComponentLogger } from "@skytree-photo-planner/utils";
  */
 export class CelestialPositionCalculator {
   private logger = getComponentLogger("CelestialPositionCalculator");
+  private refractionCalc = new RefractionCalculator();
 
   /**
    * 指定した時刻・地点での太陽位置を計算
@@ -15,6 +18,7 @@ export class CelestialPositionCalculator {
   calculateSunPosition(
     date: Date,
     location: { latitude: number; longitude: number },
+    refraction?: RefractionSettings,
   ): SunPosition | null {
     try {
       const observer = new Astronomy.Observer(
@@ -29,13 +33,7 @@ export class CelestialPositionCalculator {
         true,
         true,
       );
-      const horizon = Astronomy.Horizon(
-        date,
-        observer,
-        equator.ra,
-        equator.dec,
-        "normal",
-      );
+      const horizon = this.calculateHorizon(date, observer, equator, refraction);
 
       return {
         azimuth: horizon.azimuth,
@@ -57,6 +55,7 @@ export class CelestialPositionCalculator {
   calculateMoonPosition(
     date: Date,
     location: { latitude: number; longitude: number },
+    refraction?: RefractionSettings,
   ): MoonPosition | null {
     try {
       const observer = new Astronomy.Observer(
@@ -71,13 +70,7 @@ export class CelestialPositionCalculator {
         true,
         true,
       );
-      const horizon = Astronomy.Horizon(
-        date,
-        observer,
-        equator.ra,
-        equator.dec,
-        "normal",
-      );
+      const horizon = this.calculateHorizon(date, observer, equator, refraction);
 
       // 月相計算
       const phaseInfo = Astronomy.MoonPhase(date);
@@ -99,6 +92,27 @@ export class CelestialPositionCalculator {
     }
   }
 
+  /**
+   * 赤道座標を地平座標に変換（大気屈折補正付き）
+   * 設定がない場合・標準モデルの場合は astronomy-engine の標準補正を使用
+   */
+  private calculateHorizon(
+    date: Date,
+    observer: Astronomy.Observer,
+    equator: Astronomy.EquatorialCoordinates,
+    refraction?: RefractionSettings,
+  ): { azimuth: number; altitude: number } {
+    if (!refraction || refraction.model === "standard") {
+      return Astronomy.Horizon(date, observer, equator.ra, equator.dec, "normal");
+    }
+
+    const horizon = Astronomy.Horizon(date, observer, equator.ra, equator.dec);
+    return {
+      azimuth: horizon.azimuth,
+      altitude: this.refractionCalc.toApparentAltitude(horizon.altitude, refraction),
+    };
+  }
+
   /**
    * 太陽の最高高度を計算
    */
@@ -54,11 +54,38 @@ export class CoordinateCalculator {
     return (azimuth + 360) % 360;
   }
 
+  /**
+   * 撮影地点からスカイツリーへの大円経路上の中間点を計算
+   * @param fraction 0（撮影地点）〜 1（スカイツリー）の割合
+   */
+  calculateIntermediatePointToSkytree(
+    location: { latitude: number; longitude: number },
+    fraction: number,
+  ): { latitude: number; longitude: number } {
+    const coords = SKYTREE_COORDINATES || FALLBACK_SKYTREE_COORDINATES;
+    const lat1 = this.toRadians(location.latitude);
+    const lon1 = this.toRadians(location.longitude);
+    const lat2 = this.toRadians(coords.latitude);
+    const lon2 = this.toRadians(coords.longitude);
 
+    const angularDistance =
+      this.calculateDistanceToSkytree(location) / CoordinateCalculator.EARTH_RADIUS;
+    if (angularDistance === 0) {
+      return { latitude: location.latitude, longitude: location.longitude };
+    }
 
+    const a = Math.sin((1 - fraction) * angularDistance) / Math.sin(angularDistance);
+    const b = Math.sin(fraction * angularDistance) / Math.sin(angularDistance);
 
+    const x = a * Math.cos(lat1) * Math.cos(lon1) + b * Math.cos(lat2) * Math.cos(lon2);
+    const y = a * Math.cos(lat1) * Math.sin(lon1) + b * Math.cos(lat2) * Math.sin(lon2);
+    const z = a * Math.sin(lat1) + b * Math.sin(lat2);
 
-
+    return {
+      latitude: this.toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+      longitude: this.toDegrees(Math.atan2(y, x)),
+    };
+  }
 
   /**
    * 撮影地点からスカイツリーへの距離を計算（ハバーサイン公式）
@@ -68,10 +95,20 @@ export class CoordinateCalculator {
     longitude: number;
   }): number {
     const coords = SKYTREE_COORDINATES || FALLBACK_SKYTREE_COORDINATES;
-    const lat1 = this.toRadians(location.latitude);
-    const lon1 = this.toRadians(location.longitude);
-    const lat2 = this.toRadians(coords.latitude);
-    const lon2 = this.toRadians(coords.longitude);
+    return this.calculateDistance(location, coords);
+  }
+
+  /**
+   * 2 地点間の距離を計算（ハバーサイン公式、メートル）
+   */
+  calculateDistance(
+    from: { latitude: number; longitude: number },
+    to: { latitude: number; longitude: number },
+  ): number {
+    const lat1 = this.toRadians(from.latitude);
+    const lon1 = this.toRadians(from.longitude);
+    const lat2 = this.toRadians(to.latitude);
+    const lon2 = this.toRadians(to.longitude);
 
     const deltaLat = lat2 - lat1;
     const deltaLon = lon2 - lon1;
@@ -90,26 +127,48 @@ export class CoordinateCalculator {
   /**
    * スカイツリー頂部への仰角を計算（地球曲率と大気屈折を考慮）
    */
-  calculateElevationToSkytreeSummit(location: {
-    latitude: number;
-    longitude: number;
-    elevation: number;
-  }): number {
+  calculateElevationToSkytreeSummit(
+    location: {
+      latitude: number;
+      longitude: number;
+      elevation: number;
+    },
+    refractionCoefficient: number = 0.13,
+  ): number {
+    // スカイツリーの高さは 634m（頂部までの構造物の高さ）
+    return this.calculateElevationToSkytreeTarget(
+      location,
+      634,
+      refractionCoefficient,
+    );
+  }
+
+  /**
+   * スカイツリーの指定した高さ（地上からの m）への仰角を計算（地球曲率と大気屈折を考慮）
+   * 展望台など頂部以外の目標点に天体を重ねる場合に使用
+   */
+  calculateElevationToSkytreeTarget(
+    location: {
+      latitude: number;
+      longitude: number;
+      elevation: number;
+    },
+    targetHeight: number,
+    refractionCoefficient: number = 0.13,
+  ): number {
     const distance = this.calculateDistanceToSkytree(location);
 
     // 観測者実効高度（アイレベル 1.7m を考慮）
     const coords = SKYTREE_COORDINATES || FALLBACK_SKYTREE_COORDINATES;
     const observerEffectiveHeight = location.elevation + 1.7;
-    // スカイツリーの高さは 634m（頂部までの構造物の高さ）
-    const skytreeHeight = 634; // 構造物の実際の高さを使用
-    const heightDifference = skytreeHeight - observerEffectiveHeight;
+    const heightDifference = targetHeight - observerEffectiveHeight;
 
     // 地球曲率による見かけの高度低下
     const curvatureDrop =
       Math.pow(distance, 2) / (2 * CoordinateCalculator.EARTH_RADIUS);
 
-    // 大気屈折による見かけの高度上昇（曲率の 13% を相殺）
-    const refractionLift = 0.13 * curvatureDrop;
+    // 大気屈折による見かけの高度上昇（標準大気では曲率の 13% を相殺）
+    const refractionLift = refractionCoefficient * curvatureDrop;
 
     // 正味の見かけ低下
     const netApparentDrop = curvatureDrop - refractionLift;
@@ -121,18 +180,19 @@ export class CoordinateCalculator {
     const elevationRadians = Math.atan2(apparentVerticalDistance, distance);
     const elevationDegrees = this.toDegrees(elevationRadians);
 
-    this.logger.debug("スカイツリー頂部仰角計算", {
+    this.logger.debug("スカイツリー目標点仰角計算", {
       inputLocation: {
         latitude: location.latitude,
         longitude: location.longitude,
         elevation: location.elevation,
       },
       skytreeCoords: coords,
-      skytreeActualHeight: skytreeHeight,
+      targetHeight,
       distance: Math.round(distance),
       observerEffectiveHeight,
       heightDifference,
       curvatureDrop: Math.round(curvatureDrop * 1000) / 1000,
+      refractionCoefficient,
       refractionLift: Math.round(refractionLift * 1000) / 1000,
       netApparentDrop: Math.round(netApparentDrop * 1000) / 1000,
       apparentVerticalDistance,
@@ -159,6 +219,73 @@ export class CoordinateCalculator {
     return elevationDegrees;
   }
 
+  /**
+   * スカイツリーから指定した方位角・距離（m）の地点を計算
+   */
+  calculatePointFromSkytree(
+    azimuth: number,
+    distance: number,
+  ): { latitude: number; longitude: number } {
+    const coords = SKYTREE_COORDINATES || FALLBACK_SKYTREE_COORDINATES;
+    const lat1 = this.toRadians(coords.latitude);
+    const lon1 = this.toRadians(coords.longitude);
+    const bearing = this.toRadians(azimuth);
+    const angularDistance = distance / CoordinateCalculator.EARTH_RADIUS;
+
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angularDistance) +
+        Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing),
+    );
+    const lon2 =
+      lon1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+        Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2),
+      );
+
+    return {
+      latitude: this.toDegrees(lat2),
+      longitude: this.toDegrees(lon2),
+    };
+  }
+
+  /**
+   * 指定した海抜高度の観測者からスカイツリーの目標点が指定仰角に見える距離（m）を計算
+   * calculateElevationToSkytreeTarget と同じ曲率・大気屈折のモデルを距離について解く
+   */
+  calculateDistanceForElevation(
+    elevation: number,
+    observerHeight: number,
+    targetHeight: number = 634,
+    refractionCoefficient: number = 0.13,
+  ): number {
+    // tan(仰角) * d = 高さの差 - (1 - k) * d^2 / 2R を d について解く
+    const a = (1 - refractionCoefficient) / (2 * CoordinateCalculator.EARTH_RADIUS);
+    const b = Math.tan(this.toRadians(elevation));
+    const c = targetHeight - (observerHeight + 1.7);
+    return (-b + Math.sqrt(b * b + 4 * a * c)) / (2 * a);
+  }
+
+  /**
+   * 指定距離（m）でスカイツリーの目標点が指定仰角に見えるための観測者の海抜高度（m）を計算
+   */
+  calculateObserverHeightForElevation(
+    elevation: number,
+    distance: number,
+    targetHeight: number = 634,
+    refractionCoefficient: number = 0.13,
+  ): number {
+    const netApparentDrop =
+      ((1 - refractionCoefficient) * Math.pow(distance, 2)) /
+      (2 * CoordinateCalculator.EARTH_RADIUS);
+    return (
+      targetHeight -
+      1.7 -
+      netApparentDrop -
+      distance * Math.tan(this.toRadians(elevation))
+    );
+  }
+
   /**
    * 方位角の差を計算（最短角度）
    */
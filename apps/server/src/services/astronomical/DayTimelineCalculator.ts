@@ -0,0 +1,217 @@
+import * as Astronomy from "astronomy-engine";
+import type {
+  DayTimeline,
+  Location,
+  TimelineCrossing,
+  TimelinePhase,
+  TimelinePhaseType,
+} from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import { CelestialPositionCalculator } from "./CelestialPositionCalculator";
+import { CoordinateCalculator } from "./CoordinateCalculator";
+import { RootFinder } from "./RootFinder";
+
+/**
+ * 撮影地点・日付ごとの 1 日のタイムラインを計算するクラス
+ *
+ * - 太陽・月の出入り
+ * - 薄明（天文・航海・市民）、ブルーアワー、ゴールデンアワー
+ * - 太陽・月がスカイツリーの方位角を横切る時刻
+ *
+ * 日付は JST の暦日（0 時から 24 時間）として扱う
+ */
+export class DayTimelineCalculator {
+  private static readonly CROSSING_BRACKET_STEP_MINUTES = 5; // 方位角横断の囲い込み刻み
+  private static readonly CROSSING_PRECISION_SECONDS = 1;
+
+  /**
+   * 時間帯ごとの太陽高度の範囲（度）
+   * 朝は low → high の順に、夕方は high → low の順に通過する
+   */
+  private static readonly PHASE_ALTITUDES: ReadonlyArray<{
+    type: TimelinePhaseType;
+    low: number;
+    high: number;
+  }> = [
+    { type: "astronomical_twilight", low: -18, high: -12 },
+    { type: "nautical_twilight", low: -12, high: -6 },
+    { type: "civil_twilight", low: -6, high: 0 },
+    { type: "blue_hour", low: -6, high: -4 },
+    { type: "golden_hour", low: -4, high: 6 },
+  ];
+
+  private logger = getComponentLogger("DayTimelineCalculator");
+  private celestialCalc = new CelestialPositionCalculator();
+  private coordinateCalc = new CoordinateCalculator();
+  private rootFinder = new RootFinder();
+
+  /**
+   * 指定地点・日付（YYYY-MM-DD, JST）のタイムラインを計算
+   */
+  calculateTimeline(location: Location, date: string): DayTimeline {
+    const dayStart = new Date(`${date}T00:00:00+09:00`);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+    const observer = new Astronomy.Observer(location.latitude, location.longitude, 0);
+
+    const timeline: DayTimeline = {
+      date,
+      locationId: location.id,
+      sun: {
+        rise: this.searchRiseSet(Astronomy.Body.Sun, observer, +1, dayStart, dayEnd),
+        set: this.searchRiseSet(Astronomy.Body.Sun, observer, -1, dayStart, dayEnd),
+      },
+      moon: {
+        rise: this.searchRiseSet(Astronomy.Body.Moon, observer, +1, dayStart, dayEnd),
+        set: this.searchRiseSet(Astronomy.Body.Moon, observer, -1, dayStart, dayEnd),
+      },
+      phases: this.calculatePhases(observer, dayStart, dayEnd),
+      skytreeCrossings: [
+        ...this.findSkytreeCrossings(location, "sun", dayStart, dayEnd),
+        ...this.findSkytreeCrossings(location, "moon", dayStart, dayEnd),
+      ].sort((a, b) => a.time.getTime() - b.time.getTime()),
+    };
+
+    this.logger.debug("タイムライン計算完了", {
+      locationId: location.id,
+      date,
+      phaseCount: timeline.phases.length,
+      crossingCount: timeline.skytreeCrossings.length,
+    });
+
+    return timeline;
+  }
+
+  /**
+   * 薄明・ブルーアワー・ゴールデンアワーを朝夕それぞれ計算
+   * 境界の高度に達しない日（白夜など）はその時間帯を省略する
+   */
+  private calculatePhases(
+    observer: Astronomy.Observer,
+    dayStart: Date,
+    dayEnd: Date,
+  ): TimelinePhase[] {
+    const phases: TimelinePhase[] = [];
+
+    for (const { type, low, high } of DayTimelineCalculator.PHASE_ALTITUDES) {
+      const morningStart = this.searchSunAltitude(observer, +1, low, dayStart, dayEnd);
+      const morningEnd = this.searchSunAltitude(observer, +1, high, dayStart, dayEnd);
+      if (morningStart && morningEnd && morningStart < morningEnd) {
+        phases.push({ type, period: "morning", start: morningStart, end: morningEnd });
+      }
+
+      const eveningStart = this.searchSunAltitude(observer, -1, high, dayStart, dayEnd);
+      const eveningEnd = this.searchSunAltitude(observer, -1, low, dayStart, dayEnd);
+      if (eveningStart && eveningEnd && eveningStart < eveningEnd) {
+        phases.push({ type, period: "evening", start: eveningStart, end: eveningEnd });
+      }
+    }
+
+    return phases.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * 天体がスカイツリーの方位角を横切る時刻を検索
+   * 地平線下（isVisible の判定外）の横断は除外する
+   */
+  private findSkytreeCrossings(
+    location: Location,
+    body: "sun" | "moon",
+    dayStart: Date,
+    dayEnd: Date,
+  ): TimelineCrossing[] {
+    const skytreeAzimuth = this.coordinateCalc.calculateAzimuthToSkytree(location);
+    const step = DayTimelineCalculator.CROSSING_BRACKET_STEP_MINUTES * 60;
+    const startMs = dayStart.getTime();
+    const totalSeconds = (dayEnd.getTime() - startMs) / 1000;
+
+    const positionAt = (seconds: number) => {
+      const time = new Date(startMs + seconds * 1000);
+      return body === "sun"
+        ? this.celestialCalc.calculateSunPosition(time, location)
+        : this.celestialCalc.calculateMoonPosition(time, location);
+    };
+    const offsetAt = (seconds: number): number | null => {
+      const position = positionAt(seconds);
+      if (!position) return null;
+      // -180〜180 度の符号付き方位角差
+      return ((position.azimuth - skytreeAzimuth + 540) % 360) - 180;
+    };
+
+    const crossings: TimelineCrossing[] = [];
+    let previous: { seconds: number; offset: number } | null = null;
+    for (let seconds = 0; seconds <= totalSeconds; seconds += step) {
+      const offset = offsetAt(seconds);
+      if (offset === null) {
+        previous = null;
+        continue;
+      }
+
+      // 方位角が反対側で折り返す点は横断ではないため除外
+      if (
+        previous &&
+        Math.sign(previous.offset) !== Math.sign(offset) &&
+        Math.abs(previous.offset) < 90 &&
+        Math.abs(offset) < 90
+      ) {
+        const root = this.rootFinder.findRoot(
+          offsetAt,
+          previous.seconds,
+          seconds,
+          DayTimelineCalculator.CROSSING_PRECISION_SECONDS,
+        );
+        const position = root !== null ? positionAt(root) : null;
+        if (root !== null && position && this.celestialCalc.isVisible(position.elevation)) {
+          crossings.push({
+            body,
+            time: new Date(startMs + Math.round(root) * 1000),
+            elevation: Math.round(position.elevation * 100) / 100,
+          });
+        }
+      }
+
+      previous = { seconds, offset };
+    }
+
+    return crossings;
+  }
+
+  /**
+   * 期間内の出（direction = +1）・入り（direction = -1）を検索
+   */
+  private searchRiseSet(
+    body: Astronomy.Body,
+    observer: Astronomy.Observer,
+    direction: 1 | -1,
+    dayStart: Date,
+    dayEnd: Date,
+  ): Date | undefined {
+    const time = Astronomy.SearchRiseSet(body, observer, direction, dayStart, 1);
+    return time && time.date < dayEnd ? time.date : undefined;
+  }
+
+  /**
+   * 期間内で太陽が指定高度を上昇（+1）・下降（-1）しながら通過する時刻を検索
+   * 高度 0 度は日の出・日の入り（上端・大気差を考慮）とそろえる
+   */
+  private searchSunAltitude(
+    observer: Astronomy.Observer,
+    direction: 1 | -1,
+    altitude: number,
+    dayStart: Date,
+    dayEnd: Date,
+  ): Date | undefined {
+    if (altitude === 0) {
+      return this.searchRiseSet(Astronomy.Body.Sun, observer, direction, dayStart, dayEnd);
+    }
+
+    const time = Astronomy.SearchAltitude(
+      Astronomy.Body.Sun,
+      observer,
+      direction,
+      dayStart,
+      1,
+      altitude,
+    );
+    return time && time.date < dayEnd ? time.date : undefined;
+  }
+}
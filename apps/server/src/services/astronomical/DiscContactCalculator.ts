@@ -0,0 +1,203 @@
+import type {
+  DiscContactWindow,
+  RefractionSettings,
+} from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import { CelestialPositionCalculator } from "./CelestialPositionCalculator";
+
+/**
+ * 太陽・月の円盤がスカイツリーのアンテナに接している時間帯を計算するクラス
+ *
+ * アンテナ（塔の鉛直軸）と天体中心の水平方向の角距離を時刻の関数として扱い、
+ * 角距離 0 の瞬間を中心、角距離が視半径と等しくなる瞬間を第 1・第 2 接触とする
+ * 水平方向の角距離を使うため、地平線付近で円盤が屈折により上下に潰れても影響を受けない
+ */
+export class DiscContactCalculator {
+  private static readonly AU_KM = 149597870.7;
+  private static readonly SUN_RADIUS_KM = 695700;
+  private static readonly MOON_RADIUS_KM = 1737.4;
+  private static readonly COARSE_STEP_SECONDS = 30; // 根の囲い込みに使う刻み
+  private static readonly MAX_SEARCH_SECONDS = 30 * 60; // 候補時刻から探索する最大範囲
+  private static readonly PRECISION_SECONDS = 0.5; // 二分法の収束精度
+
+  private logger = getComponentLogger("DiscContactCalculator");
+  private celestialCalc = new CelestialPositionCalculator();
+
+  /**
+   * 候補時刻の周辺で接触時間帯を計算
+   * 天体がアンテナの方位を横切らない場合は null を返す
+   */
+  calculateContactWindow(
+    candidateTime: Date,
+    location: { latitude: number; longitude: number },
+    body: "sun" | "moon",
+    skytreeAzimuth: number,
+    refraction?: RefractionSettings,
+  ): DiscContactWindow | null {
+    const offsetAt = (seconds: number): number | null => {
+      const position = this.getPosition(candidateTime, seconds, location, body, refraction);
+      return position ? this.getHorizontalOffset(position, skytreeAzimuth) : null;
+    };
+
+    // 1. 中心がアンテナを横切る瞬間（水平角距離の符号が変わる点）を囲い込む
+    const bracket = this.findCenterBracket(offsetAt);
+    if (!bracket) {
+      this.logger.debug("アンテナ方位の横断が見つからないため接触時間帯を省略", {
+        candidateTime: candidateTime.toISOString(),
+        body,
+        skytreeAzimuth,
+      });
+      return null;
+    }
+
+    const centerSeconds = this.bisect(offsetAt, bracket[0], bracket[1]);
+    const centerPosition = this.getPosition(candidateTime, centerSeconds, location, body, refraction);
+    if (!centerPosition) {
+      return null;
+    }
+    const angularRadius = this.getAngularRadius(centerPosition.distance, body);
+
+    // 2. 中心から前後に、水平角距離が視半径に達する瞬間を探す
+    const edgeAt = (seconds: number): number | null => {
+      const position = this.getPosition(candidateTime, seconds, location, body, refraction);
+      if (!position) return null;
+      return (
+        Math.abs(this.getHorizontalOffset(position, skytreeAzimuth)) -
+        this.getAngularRadius(position.distance, body)
+      );
+    };
+
+    const firstSeconds = this.findEdge(edgeAt, centerSeconds, -1);
+    const lastSeconds = this.findEdge(edgeAt, centerSeconds, 1);
+    if (firstSeconds === null || lastSeconds === null) {
+      return null;
+    }
+
+    const toDate = (seconds: number) =>
+      new Date(candidateTime.getTime() + Math.round(seconds * 1000));
+
+    return {
+      firstContact: toDate(firstSeconds),
+      center: toDate(centerSeconds),
+      lastContact: toDate(lastSeconds),
+      durationSeconds: Math.round(lastSeconds - firstSeconds),
+      angularRadius: Math.round(angularRadius * 10000) / 10000,
+    };
+  }
+
+  /**
+   * 候補時刻から前後に広げながら、中心の横断を含む区間を探す
+   */
+  private findCenterBracket(
+    offsetAt: (seconds: number) => number | null,
+  ): [number, number] | null {
+    const step = DiscContactCalculator.COARSE_STEP_SECONDS;
+    const origin = offsetAt(0);
+    if (origin === null) return null;
+    if (origin === 0) return [0, 0];
+
+    for (let distance = step; distance <= DiscContactCalculator.MAX_SEARCH_SECONDS; distance += step) {
+      for (const direction of [1, -1]) {
+        const inner = offsetAt(direction * (distance - step));
+        const outer = offsetAt(direction * distance);
+        if (inner === null || outer === null) continue;
+        if (Math.sign(inner) !== Math.sign(outer)) {
+          return direction > 0
+            ? [distance - step, distance]
+            : [-distance, -(distance - step)];
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 中心時刻から指定方向に、円盤の縁がアンテナに接する瞬間を探す
+   */
+  private findEdge(
+    edgeAt: (seconds: number) => number | null,
+    centerSeconds: number,
+    direction: 1 | -1,
+  ): number | null {
+    const step = DiscContactCalculator.COARSE_STEP_SECONDS;
+    let inner = centerSeconds;
+
+    for (let distance = step; distance <= DiscContactCalculator.MAX_SEARCH_SECONDS; distance += step) {
+      const outer = centerSeconds + direction * distance;
+      const value = edgeAt(outer);
+      if (value === null) return null;
+      if (value >= 0) {
+        return direction > 0
+          ? this.bisect(edgeAt, inner, outer)
+          : this.bisect(edgeAt, outer, inner);
+      }
+      inner = outer;
+    }
+
+    return null;
+  }
+
+  /**
+   * 二分法で符号が変わる点を求める
+   */
+  private bisect(
+    fn: (seconds: number) => number | null,
+    lower: number,
+    upper: number,
+  ): number {
+    let lowerValue = fn(lower);
+    while (upper - lower > DiscContactCalculator.PRECISION_SECONDS) {
+      const middle = (lower + upper) / 2;
+      const middleValue = fn(middle);
+      if (middleValue === null || lowerValue === null) break;
+      if (Math.sign(middleValue) === Math.sign(lowerValue)) {
+        lower = middle;
+        lowerValue = middleValue;
+      } else {
+        upper = middle;
+      }
+    }
+    return (lower + upper) / 2;
+  }
+
+  private getPosition(
+    baseTime: Date,
+    seconds: number,
+    location: { latitude: number; longitude: number },
+    body: "sun" | "moon",
+    refraction?: RefractionSettings,
+  ): { azimuth: number; elevation: number; distance: number } | null {
+    const time = new Date(baseTime.getTime() + seconds * 1000);
+    return body === "sun"
+      ? this.celestialCalc.calculateSunPosition(time, location, refraction)
+      : this.celestialCalc.calculateMoonPosition(time, location, refraction);
+  }
+
+  /**
+   * アンテナの方位から天体中心までの水平方向の角距離（度、東向き正）
+   */
+  private getHorizontalOffset(
+    position: { azimuth: number; elevation: number },
+    skytreeAzimuth: number,
+  ): number {
+    let diff = position.azimuth - skytreeAzimuth;
+    if (diff > 180) diff -= 360;
+    if (diff < -180) diff += 360;
+    return diff * Math.cos((position.elevation * Math.PI) / 180);
+  }
+
+  /**
+   * 見かけの視半径（度）を観測地点からの距離（AU）から計算
+   */
+  getAngularRadius(distanceAu: number, body: "sun" | "moon"): number {
+    const radiusKm =
+      body === "sun"
+        ? DiscContactCalculator.SUN_RADIUS_KM
+        : DiscContactCalculator.MOON_RADIUS_KM;
+    return (
+      Math.asin(radiusKm / (distanceAu * DiscContactCalculator.AU_KM)) *
+      (180 / Math.PI)
+    );
+  }
+}
@@ -0,0 +1,220 @@
+import { SKYTREE_COORDINATES } from "@skytree-photo-planner/types";
+import type {
+  LineOfSightResult,
+  TerrainOcclusionSettings,
+} from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type { ElevationProfileProvider } from "../interfaces/ElevationProfileProvider";
+import type { ISystemSettingsService } from "../interfaces/ISystemSettingsService";
+import { CoordinateCalculator } from "./CoordinateCalculator";
+
+/**
+ * 撮影地点からスカイツリーへの見通しを判定するクラス
+ *
+ * 大円経路に沿って標高をサンプリングし、地形（DSM の場合は建物も）が
+ * スカイツリーのどの高さまでを隠すかを計算する
+ */
+export class LineOfSightCalculator {
+  private static readonly EARTH_RADIUS = 6371000; // メートル
+  private static readonly REFRACTION_COEFFICIENT = 0.13; // 標準大気では曲率の 13% を大気屈折で相殺
+  private static readonly OBSERVER_EYE_HEIGHT = 1.7; // アイレベル（m）
+  private static readonly SKYTREE_STRUCTURE_HEIGHT = 634; // 構造物の高さ（m）
+  private static readonly MAX_CACHE_SIZE = 500;
+
+  static readonly DEFAULT_SETTINGS: TerrainOcclusionSettings = {
+    enabled: true,
+    sampleSpacing: 30,
+    towerClearance: 150,
+  };
+
+  private logger = getComponentLogger("LineOfSightCalculator");
+  private coordinateCalc = new CoordinateCalculator();
+  private resultCache = new Map<string, LineOfSightResult | null>();
+
+  constructor(
+    private readonly provider: ElevationProfileProvider,
+    private readonly settingsService: ISystemSettingsService,
+  ) {}
+
+  /**
+   * 撮影地点からスカイツリーへの見通しを判定
+   * 判定が無効化されている場合や標高データが取得できない場合は null を返す
+   */
+  async evaluate(
+    location: {
+      latitude: number;
+      longitude: number;
+      elevation: number;
+    },
+    refractionCoefficient: number = LineOfSightCalculator.REFRACTION_COEFFICIENT,
+  ): Promise<LineOfSightResult | null> {
+    const settings = await this.settingsService.getTerrainOcclusionSettings();
+    if (!settings.enabled) {
+      return null;
+    }
+
+    const cacheKey = `${location.latitude.toFixed(6)},${location.longitude.toFixed(6)},${(location.elevation || 0).toFixed(1)},${refractionCoefficient.toFixed(4)}`;
+    if (this.resultCache.has(cacheKey)) {
+      return this.resultCache.get(cacheKey) ?? null;
+    }
+
+    let result: LineOfSightResult | null = null;
+    try {
+      result = await this.calculate(location, refractionCoefficient, settings);
+    } catch (error) {
+      this.logger.warn("見通し判定エラー、判定をスキップ", {
+        error: error as Error,
+        provider: this.provider.name,
+        location,
+      });
+    }
+
+    if (this.resultCache.size >= LineOfSightCalculator.MAX_CACHE_SIZE) {
+      const oldestKey = this.resultCache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.resultCache.delete(oldestKey);
+      }
+    }
+    this.resultCache.set(cacheKey, result);
+
+    return result;
+  }
+
+  private async calculate(
+    location: {
+      latitude: number;
+      longitude: number;
+      elevation: number;
+    },
+    refractionCoefficient: number,
+    settings: TerrainOcclusionSettings,
+  ): Promise<LineOfSightResult | null> {
+    const { sampleSpacing, towerClearance } = settings;
+
+    const totalDistance = this.coordinateCalc.calculateDistanceToSkytree(location);
+    const observerHeight =
+      (location.elevation || 0) + LineOfSightCalculator.OBSERVER_EYE_HEIGHT;
+    const towerTop = SKYTREE_COORDINATES.elevation;
+    const towerBase = towerTop - LineOfSightCalculator.SKYTREE_STRUCTURE_HEIGHT;
+
+    // 撮影地点直近とスカイツリー敷地内（タワー自身の構造物）は除外してサンプリング
+    const distances: number[] = [];
+    for (
+      let distance = sampleSpacing;
+      distance < totalDistance - towerClearance;
+      distance += sampleSpacing
+    ) {
+      distances.push(distance);
+    }
+
+    if (distances.length === 0) {
+      return {
+        status: "clear",
+        visibleHeight: LineOfSightCalculator.SKYTREE_STRUCTURE_HEIGHT,
+      };
+    }
+
+    const points = distances.map((distance) =>
+      this.coordinateCalc.calculateIntermediatePointToSkytree(
+        location,
+        distance / totalDistance,
+      ),
+    );
+    const elevations = await this.provider.getElevations(points);
+
+    if (elevations.every((elevation) => elevation === null)) {
+      this.logger.debug("経路上の標高データなし", {
+        provider: this.provider.name,
+        location,
+      });
+      return null;
+    }
+
+    // 各サンプル点が作る見かけの仰角（tan）の最大値を求める
+    let maxSlope = -Infinity;
+    let obstructionIndex = -1;
+    for (let i = 0; i < distances.length; i++) {
+      const elevation = elevations[i];
+      if (elevation === null) continue;
+
+      const slope =
+        (elevation - observerHeight - this.getNetCurvatureDrop(distances[i], refractionCoefficient)) /
+        distances[i];
+      if (slope > maxSlope) {
+        maxSlope = slope;
+        obstructionIndex = i;
+      }
+    }
+
+    // 障害物の稜線をスカイツリーまで延長した高さより下は見えない
+    const lowestVisibleHeight =
+      observerHeight +
+      this.getNetCurvatureDrop(totalDistance, refractionCoefficient) +
+      totalDistance * maxSlope;
+    const visibleHeight = Math.max(
+      0,
+      Math.min(
+        LineOfSightCalculator.SKYTREE_STRUCTURE_HEIGHT,
+        towerTop - Math.max(lowestVisibleHeight, towerBase),
+      ),
+    );
+
+    const status: LineOfSightResult["status"] =
+      lowestVisibleHeight <= towerBase
+        ? "clear"
+        : visibleHeight > 0
+          ? "partial"
+          : "blocked";
+
+    const result: LineOfSightResult = {
+      status,
+      visibleHeight: Math.round(visibleHeight * 10) / 10,
+      obstructionDistance: Math.round(distances[obstructionIndex]),
+      obstructionElevation: elevations[obstructionIndex] ?? undefined,
+    };
+
+    this.logger.debug("見通し判定完了", {
+      provider: this.provider.name,
+      location,
+      totalDistance: Math.round(totalDistance),
+      sampleCount: distances.length,
+      lowestVisibleHeight: Math.round(lowestVisibleHeight * 10) / 10,
+      result,
+    });
+
+    return result;
+  }
+
+  /**
+   * 設定値を検証し、不正な値は既定値で補完する
+   * サンプル間隔が 0 以下だと経路のサンプリングが終わらないため、正の値に限る
+   */
+  static normalizeSettings(
+    settings: Partial<TerrainOcclusionSettings>,
+  ): TerrainOcclusionSettings {
+    const defaults = LineOfSightCalculator.DEFAULT_SETTINGS;
+    const isFiniteNumber = (value: unknown): value is number =>
+      typeof value === "number" && isFinite(value);
+
+    return {
+      enabled: typeof settings.enabled === "boolean" ? settings.enabled : defaults.enabled,
+      sampleSpacing:
+        isFiniteNumber(settings.sampleSpacing) && settings.sampleSpacing > 0
+          ? settings.sampleSpacing
+          : defaults.sampleSpacing,
+      towerClearance:
+        isFiniteNumber(settings.towerClearance) && settings.towerClearance >= 0
+          ? settings.towerClearance
+          : defaults.towerClearance,
+    };
+  }
+
+  /**
+   * 地球曲率による見かけの高度低下（大気屈折による相殺込み）
+   */
+  private getNetCurvatureDrop(distance: number, refractionCoefficient: number): number {
+    const curvatureDrop =
+      Math.pow(distance, 2) / (2 * LineOfSightCalculator.EARTH_RADIUS);
+    return curvatureDrop * (1 - refractionCoefficient);
+  }
+}
@@ -0,0 +1,85 @@
+import type {
+  PearlGatingRules,
+  PearlRejectionReason,
+} from "@skytree-photo-planner/types";
+
+/**
+ * パールスカイツリー候補の採否を判定するクラス
+ *
+ * 月の照度・空の明るさ（太陽高度）・満月からの月齢差の 3 つのルールで判定し、
+ * 満たさなかったルールを除外理由として返す（空配列なら採用）
+ */
+export class PearlGatingEvaluator {
+  static readonly SYNODIC_MONTH_DAYS = 29.530589; // 朔望月（日）
+
+  // 既定値は採否判定の導入前（照度 10% 以上のみ）と同じ結果になるよう、太陽高度・月齢差のルールは無効にしておく
+  // 太陽高度は 90 度、満月からの月齢差は最大でも朔望月の半分（約 14.8 日）のため、いずれも除外しない
+  static readonly DEFAULT_RULES: PearlGatingRules = {
+    minIllumination: 0.1,
+    maxSunElevation: 90,
+    maxDaysFromFull: 15,
+  };
+
+  /**
+   * 候補を判定して除外理由を返す
+   */
+  evaluate(
+    params: {
+      moonIllumination: number; // 月の照度（0-1）
+      moonPhase: number; // 月相角（0-360 度、180 度が満月）
+      sunElevation: number; // 候補時刻の太陽高度（度）
+    },
+    rules: PearlGatingRules,
+  ): PearlRejectionReason[] {
+    const reasons: PearlRejectionReason[] = [];
+
+    if (params.moonIllumination < rules.minIllumination) {
+      reasons.push("low_illumination");
+    }
+    if (params.sunElevation > rules.maxSunElevation) {
+      reasons.push("bright_sky");
+    }
+    if (this.getDaysFromFull(params.moonPhase) > rules.maxDaysFromFull) {
+      reasons.push("far_from_full");
+    }
+
+    return reasons;
+  }
+
+  /**
+   * 月相角から満月との月齢差（日）を計算
+   */
+  getDaysFromFull(moonPhase: number): number {
+    let normalizedPhase = moonPhase % 360;
+    if (normalizedPhase < 0) normalizedPhase += 360;
+
+    const days =
+      (Math.abs(normalizedPhase - 180) / 360) * PearlGatingEvaluator.SYNODIC_MONTH_DAYS;
+    return Math.round(days * 10) / 10;
+  }
+
+  /**
+   * 不正な値を既定値で補完
+   */
+  static normalizeRules(rules: Partial<PearlGatingRules>): PearlGatingRules {
+    const defaults = PearlGatingEvaluator.DEFAULT_RULES;
+    const isFiniteNumber = (value: unknown): value is number =>
+      typeof value === "number" && isFinite(value);
+
+    return {
+      minIllumination:
+        isFiniteNumber(rules.minIllumination) &&
+        rules.minIllumination >= 0 &&
+        rules.minIllumination <= 1
+          ? rules.minIllumination
+          : defaults.minIllumination,
+      maxSunElevation: isFiniteNumber(rules.maxSunElevation)
+        ? rules.maxSunElevation
+        : defaults.maxSunElevation,
+      maxDaysFromFull:
+        isFiniteNumber(rules.maxDaysFromFull) && rules.maxDaysFromFull >= 0
+          ? rules.maxDaysFromFull
+          : defaults.maxDaysFromFull,
+    };
+  }
+}
@@ -0,0 +1,177 @@
+import * as Astronomy from "astronomy-engine";
+import type {
+  RefractionModel,
+  RefractionSettings,
+} from "@skytree-photo-planner/types";
+
+/**
+ * 大気屈折補正を担当するクラス
+ *
+ * 天体の見かけの高度（天体屈折）と、地上の目標物を見る視線の曲がり（地上屈折）の
+ * 両方を同じモデル設定から求める
+ */
+export class RefractionCalculator {
+  static readonly DEFAULT_SETTINGS: RefractionSettings = {
+    model: "standard",
+    temperature: 10,
+    pressure: 1010,
+  };
+
+  static readonly MODELS: readonly RefractionModel[] = [
+    "none",
+    "standard",
+    "bennett",
+    "saemundsson",
+  ];
+
+  // 標準大気での地上屈折係数（地球曲率の 13% を相殺）
+  private static readonly STANDARD_TERRESTRIAL_COEFFICIENT = 0.13;
+  // 式の基準となる標準大気（気温 10℃、気圧 1010hPa）
+  private static readonly STANDARD_TEMPERATURE_KELVIN = 283;
+  private static readonly STANDARD_PRESSURE = 1010;
+  // 地平線より下の屈折量は -1 度の値で頭打ち（astronomy-engine と同じ扱い）
+  private static readonly MIN_ALTITUDE = -1;
+
+  /**
+   * 設定値を検証し、不正な値は標準値に置き換える
+   */
+  static normalizeSettings(settings: {
+    model?: string;
+    temperature?: number;
+    pressure?: number;
+  }): RefractionSettings {
+    const model = RefractionCalculator.MODELS.includes(
+      settings.model as RefractionModel,
+    )
+      ? (settings.model as RefractionModel)
+      : RefractionCalculator.DEFAULT_SETTINGS.model;
+
+    const temperature =
+      typeof settings.temperature === "number" &&
+      isFinite(settings.temperature) &&
+      settings.temperature > -60 &&
+      settings.temperature < 60
+        ? settings.temperature
+        : RefractionCalculator.DEFAULT_SETTINGS.temperature;
+
+    const pressure =
+      typeof settings.pressure === "number" &&
+      isFinite(settings.pressure) &&
+      settings.pressure > 500 &&
+      settings.pressure < 1100
+        ? settings.pressure
+        : RefractionCalculator.DEFAULT_SETTINGS.pressure;
+
+    return { model, temperature, pressure };
+  }
+
+  /**
+   * 真高度（大気がない場合の幾何学的高度、度）に対する天体屈折量（度）を計算
+   */
+  calculateCelestialRefraction(
+    trueAltitude: number,
+    settings: RefractionSettings = RefractionCalculator.DEFAULT_SETTINGS,
+  ): number {
+    if (trueAltitude < -90 || trueAltitude > 90) {
+      return 0;
+    }
+
+    switch (settings.model) {
+      case "none":
+        return 0;
+      case "bennett":
+        return this.bennettRefraction(trueAltitude);
+      case "saemundsson":
+        return (
+          this.saemundssonRefraction(trueAltitude) *
+          this.getDensityFactor(settings)
+        );
+      case "standard":
+      default:
+        return Astronomy.Refraction("normal", trueAltitude);
+    }
+  }
+
+  /**
+   * 真高度から見かけの高度（度）を計算
+   */
+  toApparentAltitude(
+    trueAltitude: number,
+    settings: RefractionSettings = RefractionCalculator.DEFAULT_SETTINGS,
+  ): number {
+    return trueAltitude + this.calculateCelestialRefraction(trueAltitude, settings);
+  }
+
+  /**
+   * 地上屈折係数（地球曲率のうち大気屈折で相殺される割合）を取得
+   */
+  getTerrestrialCoefficient(
+    settings: RefractionSettings = RefractionCalculator.DEFAULT_SETTINGS,
+  ): number {
+    switch (settings.model) {
+      case "none":
+        return 0;
+      case "saemundsson":
+        return (
+          RefractionCalculator.STANDARD_TERRESTRIAL_COEFFICIENT *
+          this.getDensityFactor(settings)
+        );
+      case "bennett":
+      case "standard":
+      default:
+        return RefractionCalculator.STANDARD_TERRESTRIAL_COEFFICIENT;
+    }
+  }
+
+  /**
+   * Bennett の式（見かけの高度 h0 を入力として屈折量 R を求める）
+   * R = cot(h0 + 7.31 / (h0 + 4.4)) 分角
+   * 真高度から求めるため h0 = h + R(h0) を反復計算する
+   */
+  private bennettRefraction(trueAltitude: number): number {
+    let refraction = 0;
+    for (let i = 0; i < 5; i++) {
+      const apparentAltitude = Math.max(
+        RefractionCalculator.MIN_ALTITUDE,
+        trueAltitude + refraction,
+      );
+      const next =
+        1 /
+        Math.tan(
+          this.toRadians(apparentAltitude + 7.31 / (apparentAltitude + 4.4)),
+        ) /
+        60;
+      if (Math.abs(next - refraction) < 1e-6) {
+        return next;
+      }
+      refraction = next;
+    }
+    return refraction;
+  }
+
+  /**
+   * Saemundsson の式（真高度 h を入力として屈折量 R を求める）
+   * R = 1.02 × cot(h + 10.3 / (h + 5.11)) 分角
+   */
+  private saemundssonRefraction(trueAltitude: number): number {
+    const altitude = Math.max(RefractionCalculator.MIN_ALTITUDE, trueAltitude);
+    return (
+      (1.02 / Math.tan(this.toRadians(altitude + 10.3 / (altitude + 5.11)))) / 60
+    );
+  }
+
+  /**
+   * 気温・気圧による空気密度の補正係数（標準大気で 1）
+   */
+  private getDensityFactor(settings: RefractionSettings): number {
+    return (
+      (settings.pressure / RefractionCalculator.STANDARD_PRESSURE) *
+      (RefractionCalculator.STANDARD_TEMPERATURE_KELVIN /
+        (273 + settings.temperature))
+    );
+  }
+
+  private toRadians(degrees: number): number {
+    return degrees * (Math.PI / 180);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * 一変数関数の根を求めるクラス
+ *
+ * 符号が変わる区間 [lower, upper] が与えられたとき、Brent 法（二分法・割線法・逆二次補間の併用）で
+ * 関数値が 0 になる点を求める。関数が評価できない点（null）に当たった場合は null を返す
+ */
+export class RootFinder {
+  private static readonly MAX_ITERATIONS = 100;
+
+  /**
+   * Brent 法で根を求める
+   * 区間の両端で符号が変わらない場合は null を返す
+   */
+  findRoot(
+    fn: (x: number) => number | null,
+    lower: number,
+    upper: number,
+    tolerance: number,
+  ): number | null {
+    let a = lower;
+    let b = upper;
+    let fa = fn(a);
+    let fb = fn(b);
+    if (fa === null || fb === null) return null;
+    if (fa === 0) return a;
+    if (fb === 0) return b;
+    if (Math.sign(fa) === Math.sign(fb)) return null;
+
+    let c = b;
+    let fc = fb;
+    let d = b - a;
+    let e = d;
+
+    for (let i = 0; i < RootFinder.MAX_ITERATIONS; i++) {
+      // b を最良推定値、c を b と符号の異なる点に保つ
+      if (Math.sign(fb) === Math.sign(fc)) {
+        c = a;
+        fc = fa;
+        d = b - a;
+        e = d;
+      }
+      if (Math.abs(fc) < Math.abs(fb)) {
+        a = b;
+        b = c;
+        c = a;
+        fa = fb;
+        fb = fc;
+        fc = fa;
+      }
+
+      const tol = 2 * Number.EPSILON * Math.abs(b) + tolerance / 2;
+      const mid = (c - b) / 2;
+      if (Math.abs(mid) <= tol || fb === 0) {
+        return b;
+      }
+
+      if (Math.abs(e) >= tol && Math.abs(fa) > Math.abs(fb)) {
+        // 割線法または逆二次補間
+        const s = fb / fa;
+        let p: number;
+        let q: number;
+        if (a === c) {
+          p = 2 * mid * s;
+          q = 1 - s;
+        } else {
+          const r = fb / fc;
+          const t = fa / fc;
+          p = s * (2 * mid * t * (t - r) - (b - a) * (r - 1));
+          q = (t - 1) * (r - 1) * (s - 1);
+        }
+        if (p > 0) {
+          q = -q;
+        } else {
+          p = -p;
+        }
+
+        if (2 * p < Math.min(3 * mid * q - Math.abs(tol * q), Math.abs(e * q))) {
+          e = d;
+          d = p / q;
+        } else {
+          // 補間が区間外に出る場合は二分法
+          d = mid;
+          e = d;
+        }
+      } else {
+        d = mid;
+        e = d;
+      }
+
+      a = b;
+      fa = fb;
+      b += Math.abs(d) > tol ? d : mid > 0 ? tol : -tol;
+
+      const next = fn(b);
+      if (next === null) return null;
+      fb = next;
+    }
+
+    return b;
+  }
+}
@@ -0,0 +1,137 @@
+import type {
+  Location,
+  RefractionSettings,
+  ShootPlan,
+  ShootPlanStep,
+  ShootPlanStepType,
+  SkyPosition,
+  TimelinePhase,
+} from "@skytree-photo-planner/types";
+import { JST_OFFSET, getComponentLogger } from "@skytree-photo-planner/utils";
+import { CelestialPositionCalculator } from "./CelestialPositionCalculator";
+import { DayTimelineCalculator } from "./DayTimelineCalculator";
+
+export interface ShootPlanParams {
+  eventTime: Date; // 天体が頂部に重なる時刻
+  window?: { start: Date; end: Date }; // 重なり始めから重なり終わりまで
+  travelMinutes: number;
+  setupMinutes: number;
+}
+
+/**
+ * イベントの時刻から逆算して撮影計画を作るクラス
+ *
+ * 撮影開始（設営完了）は重なり始めの時刻とし、同じ時間帯のブルーアワーが
+ * それより前に始まる場合（日の出側など）はブルーアワーの開始に合わせる
+ * 到着は撮影開始から設営時間を、出発は到着から移動時間をさかのぼった時刻
+ */
+export class ShootPlanCalculator {
+  static readonly MAX_TRAVEL_MINUTES = 24 * 60;
+  static readonly MAX_SETUP_MINUTES = 6 * 60;
+  // イベントからこの時間以上離れたブルーアワーは計画に含めない（深夜の月の出入りなど）
+  private static readonly BLUE_HOUR_RANGE_HOURS = 2;
+
+  private logger = getComponentLogger("ShootPlanCalculator");
+  private celestialCalc = new CelestialPositionCalculator();
+  private dayTimelineCalc = new DayTimelineCalculator();
+
+  calculatePlan(
+    location: Location,
+    params: ShootPlanParams,
+    refraction?: RefractionSettings,
+  ): ShootPlan {
+    const { eventTime, travelMinutes, setupMinutes } = params;
+    const windowStart = params.window?.start ?? eventTime;
+
+    const blueHour = this.findNearestBlueHour(location, eventTime);
+    const shootStart =
+      blueHour && blueHour.start < windowStart ? blueHour.start : windowStart;
+    const arrival = this.addMinutes(shootStart, -setupMinutes);
+    const departure = this.addMinutes(arrival, -travelMinutes);
+
+    const times: Array<{ type: ShootPlanStepType; time: Date }> = [
+      { type: "departure", time: departure },
+      { type: "arrival", time: arrival },
+      { type: "setup_complete", time: shootStart },
+      { type: "alignment", time: eventTime },
+    ];
+    if (blueHour) {
+      times.push(
+        { type: "blue_hour_start", time: blueHour.start },
+        { type: "blue_hour_end", time: blueHour.end },
+      );
+    }
+    if (params.window) {
+      times.push(
+        { type: "first_contact", time: params.window.start },
+        { type: "last_contact", time: params.window.end },
+      );
+    }
+
+    const steps: ShootPlanStep[] = times
+      .sort((a, b) => a.time.getTime() - b.time.getTime())
+      .map(({ type, time }) => ({
+        type,
+        time,
+        sun: this.toSkyPosition(this.celestialCalc.calculateSunPosition(time, location, refraction)),
+        moon: this.toSkyPosition(
+          this.celestialCalc.calculateMoonPosition(time, location, refraction),
+        ),
+      }));
+
+    this.logger.debug("撮影計画計算完了", {
+      locationId: location.id,
+      eventTime: eventTime.toISOString(),
+      departure: departure.toISOString(),
+      hasBlueHour: blueHour !== null,
+    });
+
+    return {
+      locationId: location.id,
+      eventTime,
+      travelMinutes,
+      setupMinutes,
+      steps,
+    };
+  }
+
+  /**
+   * イベントの日（JST）のブルーアワーのうち、イベントに近い側を返す
+   */
+  private findNearestBlueHour(location: Location, eventTime: Date): TimelinePhase | null {
+    const jstDate = new Date(eventTime.getTime() + JST_OFFSET * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+    const timeline = this.dayTimelineCalc.calculateTimeline(location, jstDate);
+    const distance = (phase: TimelinePhase) =>
+      Math.min(
+        Math.abs(phase.start.getTime() - eventTime.getTime()),
+        Math.abs(phase.end.getTime() - eventTime.getTime()),
+      );
+
+    const nearest = timeline.phases
+      .filter((phase) => phase.type === "blue_hour")
+      .sort((a, b) => distance(a) - distance(b))[0];
+    if (
+      !nearest ||
+      distance(nearest) > ShootPlanCalculator.BLUE_HOUR_RANGE_HOURS * 60 * 60 * 1000
+    ) {
+      return null;
+    }
+    return nearest;
+  }
+
+  private toSkyPosition(
+    position: { azimuth: number; elevation: number } | null,
+  ): SkyPosition | undefined {
+    if (!position) return undefined;
+    return {
+      azimuth: Math.round(position.azimuth * 100) / 100,
+      elevation: Math.round(position.elevation * 100) / 100,
+    };
+  }
+
+  private addMinutes(time: Date, minutes: number): Date {
+    return new Date(time.getTime() + minutes * 60 * 1000);
+  }
+}
@@ -0,0 +1,74 @@
+import type {
+  Location,
+  RefractionSettings,
+  SkyTrack,
+  SkyTrackSample,
+} from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import { CelestialPositionCalculator } from "./CelestialPositionCalculator";
+import { DiscContactCalculator } from "./DiscContactCalculator";
+
+/**
+ * 整列時刻の前後の太陽・月の軌跡を計算するクラス
+ * 構図の事前確認用に、一定間隔でサンプリングした方位角・高度を返す
+ */
+export class SkyTrackCalculator {
+  static readonly RANGE_MINUTES = 15; // 中心時刻から前後に計算する範囲
+  private static readonly STEP_SECONDS = 30;
+
+  private logger = getComponentLogger("SkyTrackCalculator");
+  private celestialCalc = new CelestialPositionCalculator();
+  private discContactCalc = new DiscContactCalculator();
+
+  /**
+   * 中心時刻の前後 RANGE_MINUTES 分の軌跡を計算
+   * 位置を計算できない時刻のサンプルは省略する
+   */
+  calculateTrack(
+    location: Location,
+    body: "sun" | "moon",
+    centerTime: Date,
+    refraction?: RefractionSettings,
+  ): SkyTrack {
+    const rangeSeconds = SkyTrackCalculator.RANGE_MINUTES * 60;
+    const samples: SkyTrackSample[] = [];
+    let angularRadius = 0;
+
+    for (
+      let seconds = -rangeSeconds;
+      seconds <= rangeSeconds;
+      seconds += SkyTrackCalculator.STEP_SECONDS
+    ) {
+      const time = new Date(centerTime.getTime() + seconds * 1000);
+      const position =
+        body === "sun"
+          ? this.celestialCalc.calculateSunPosition(time, location, refraction)
+          : this.celestialCalc.calculateMoonPosition(time, location, refraction);
+      if (!position) continue;
+
+      samples.push({
+        time,
+        azimuth: Math.round(position.azimuth * 10000) / 10000,
+        elevation: Math.round(position.elevation * 10000) / 10000,
+      });
+      if (seconds === 0) {
+        angularRadius = this.discContactCalc.getAngularRadius(position.distance, body);
+      }
+    }
+
+    this.logger.debug("軌跡計算完了", {
+      locationId: location.id,
+      body,
+      centerTime: centerTime.toISOString(),
+      sampleCount: samples.length,
+    });
+
+    return {
+      locationId: location.id,
+      body,
+      centerTime,
+      angularRadius: Math.round(angularRadius * 10000) / 10000,
+      samples,
+    };
+  }
+}
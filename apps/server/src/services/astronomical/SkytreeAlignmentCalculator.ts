@@ -2,28 +2,113 @@ import { getComponentLogger } from "@skytree-photo-planner/utils";
 import { timeUtils } from "@skytree-photo-planner/utils";
 import * as Astronomy from "astronomy-engine";
 import type {
+  AlignmentTarget,
   Location,
   MoonPosition,
+  RefractionSettings,
 } from "@skytree-photo-planner/types";
 import type { SkytreeEvent } from "@skytree-photo-planner/types";
 import type { ISystemSettingsService } from "../interfaces/ISystemSettingsService";
+import type { ElevationProfileProvider } from "../interfaces/ElevationProfileProvider";
+import type { PearlRejectionRecorder } from "../interfaces/PearlRejectionRecorder";
 import { CoordinateCalculator } from "./CoordinateCalculator";
 import { CelestialPositionCalculator } from "./CelestialPositionCalculator";
 import { SeasonCalculator } from "./SeasonCalculator";
+import { LineOfSightCalculator } from "./LineOfSightCalculator";
+import { RefractionCalculator } from "./RefractionCalculator";
+import { DiscContactCalculator } from "./DiscContactCalculator";
+import { RootFinder } from "./RootFinder";
+import { AlignmentClassifier } from "./AlignmentClassifier";
+import { PearlGatingEvaluator } from "./PearlGatingEvaluator";
+
+/**
+ * 整列検索の方式
+ * - scan: 検索間隔ごとに天体位置を評価する固定刻み走査
+ * - root_finding: 粗い刻みで方位角差の符号変化を囲い込み、Brent 法で横断時刻を求める
+ */
+export type AlignmentSearchStrategy = "scan" | "root_finding";
+
+/**
+ * 整列検索の精度設定
+ */
+export interface AlignmentPrecisionSettings {
+  searchInterval?: number;
+  toleranceLevel?: "high" | "medium" | "low";
+  strategy?: AlignmentSearchStrategy;
+  target?: AlignmentTarget; // 指定時は天体の高度を目標点への仰角に一致させる
+  recordPearlRejections?: boolean; // 採否判定で除外したパール候補を記録する（事前計算のバッチのみ）
+}
+
+/**
+ * 整列検索の候補
+ */
+interface AlignmentCandidate {
+  time: Date;
+  azimuthDiff: number;
+  elevationDiff: number;
+  sunOrMoonPosition: { azimuth: number; elevation: number };
+  moonPhase?: number;
+  moonIllumination?: number;
+  totalScore: number;
+}
+
+/**
+ * 候補収集に必要な検索条件
+ */
+interface AlignmentSearchContext {
+  location: Location;
+  eventType: "diamond" | "pearl";
+  startTime: Date;
+  endTime: Date;
+  skytreeAzimuth: number;
+  elevationAngleToSkytreeSummit: number;
+  targetElevation: number | null; // 目標点への仰角（目標点指定時のみ）
+  tolerances: { azimuthTolerance: number; elevationTolerance: number };
+  refraction: RefractionSettings;
+}
 
 /**
  * スカイツリーと天体の整列計算を担当するクラス
  * ダイヤモンドスカイツリー・パールスカイツリーの計算を実行
  */
 export class SkytreeAlignmentCalculator {
+  private static readonly ROOT_BRACKET_STEP_SECONDS = 300; // 求根方式の囲い込み刻み（5 分間に方位角が折り返すことはない）
+  private static readonly ROOT_PRECISION_SECONDS = 0.1; // 求根方式の収束精度
+
   private logger = getComponentLogger("SkytreeAlignmentCalculator");
   private coordinateCalc = new CoordinateCalculator();
   private celestialCalc = new CelestialPositionCalculator();
   private seasonCalc = new SeasonCalculator();
+  private refractionCalc = new RefractionCalculator();
+  private discContactCalc = new DiscContactCalculator();
+  private rootFinder = new RootFinder();
+  private alignmentClassifier = new AlignmentClassifier();
+  private pearlGatingEvaluator = new PearlGatingEvaluator();
   private settingsService: ISystemSettingsService;
-
-  constructor(settingsService: ISystemSettingsService) {
+  private lineOfSightCalc: LineOfSightCalculator | null;
+  private elevationProviderName: string | null;
+  private pearlRejectionRecorder: PearlRejectionRecorder | null;
+
+  constructor(
+    settingsService: ISystemSettingsService,
+    elevationProfileProvider?: ElevationProfileProvider | null,
+    pearlRejectionRecorder?: PearlRejectionRecorder | null,
+  ) {
     this.settingsService = settingsService;
+    // 標高データが提供されている場合のみ地形による遮蔽を判定
+    this.lineOfSightCalc = elevationProfileProvider
+      ? new LineOfSightCalculator(elevationProfileProvider, settingsService)
+      : null;
+    this.elevationProviderName = elevationProfileProvider?.name ?? null;
+    // 記録先が提供されている場合のみ除外したパール候補を記録
+    this.pearlRejectionRecorder = pearlRejectionRecorder ?? null;
+  }
+
+  /**
+   * 見通し判定に使う標高データのプロバイダー名（標高データがない場合は null）
+   */
+  getElevationProviderName(): string | null {
+    return this.elevationProviderName;
   }
 
   /**
@@ -33,7 +118,7 @@ export class SkytreeAlignmentCalculator {
   async findDiamondSkytree(
     date: Date,
     location: Location,
-    precisionSettings?: { searchInterval?: number; toleranceLevel?: "high" | "medium" | "low" }
+    precisionSettings?: AlignmentPrecisionSettings
   ): Promise<SkytreeEvent[]> {
     return this.findSkytreeAlignment(date, location, "diamond", precisionSettings);
   }
@@ -45,7 +130,7 @@ export class SkytreeAlignmentCalculator {
   async findPearlSkytree(
     date: Date,
     location: Location,
-    precisionSettings?: { searchInterval?: number; toleranceLevel?: "high" | "medium" | "low" }
+    precisionSettings?: AlignmentPrecisionSettings
   ): Promise<SkytreeEvent[]> {
     return this.findSkytreeAlignment(date, location, "pearl", precisionSettings);
   }
@@ -57,7 +142,7 @@ export class SkytreeAlignmentCalculator {
     date: Date,
     location: Location,
     eventType: "diamond" | "pearl",
-    precisionSettings?: { searchInterval?: number; toleranceLevel?: "high" | "medium" | "low" }
+    precisionSettings?: AlignmentPrecisionSettings
   ): Promise<SkytreeEvent[]> {
     const events: SkytreeEvent[] = [];
 
@@ -117,11 +202,35 @@ export class SkytreeAlignmentCalculator {
     location: Location,
     eventPhase: "sunrise" | "sunset" | "moonrise" | "moonset" | "sun_all_day" | "moon_all_day",
     eventType: "diamond" | "pearl",
-    precisionSettings?: { searchInterval?: number; toleranceLevel?: "high" | "medium" | "low" }
+    precisionSettings?: AlignmentPrecisionSettings
   ): Promise<SkytreeEvent[]> {
     const events: SkytreeEvent[] = [];
     const skytreeAzimuth = this.coordinateCalc.calculateAzimuthToSkytree(location);
-    const elevationAngleToSkytreeSummit = this.coordinateCalc.calculateElevationToSkytreeSummit(location);
+
+    // 大気屈折補正は天体の見かけの高度とスカイツリー頂部への仰角の両方に同じモデルを適用
+    const refraction = await this.settingsService.getRefractionSettings();
+    const pearlRules =
+      eventType === "pearl" ? await this.settingsService.getPearlGatingRules() : null;
+    const terrestrialRefractionCoefficient =
+      this.refractionCalc.getTerrestrialCoefficient(refraction);
+    const elevationAngleToSkytreeSummit = this.coordinateCalc.calculateElevationToSkytreeSummit(
+      location,
+      terrestrialRefractionCoefficient,
+    );
+    // 重なり方の分類に使う塔の基部への仰角
+    const elevationAngleToSkytreeBase = this.coordinateCalc.calculateElevationToSkytreeTarget(
+      location,
+      0,
+      terrestrialRefractionCoefficient,
+    );
+    const target = precisionSettings?.target;
+    const targetElevation = target
+      ? this.coordinateCalc.calculateElevationToSkytreeTarget(
+          location,
+          target.height,
+          terrestrialRefractionCoefficient,
+        )
+      : null;
 
     // 検索時間範囲を設定
     const { startTime, endTime } = this.getSearchTimeRange(
@@ -144,6 +253,7 @@ export class SkytreeAlignmentCalculator {
       eventPhase,
       skytreeAzimuth: skytreeAzimuth.toFixed(3),
       elevationAngleToSkytreeSummit: elevationAngleToSkytreeSummit.toFixed(3),
+      target: target ? { id: target.id, height: target.height, elevation: targetElevation?.toFixed(3) } : "未指定",
       elevationToSkytree: location.elevationToSkytree?.toFixed(3) || "未設定",
       searchRange: {
         start: this.astroTimeToDate(startTime).toISOString(),
@@ -151,7 +261,8 @@ export class SkytreeAlignmentCalculator {
         durationHours: ((this.astroTimeToDate(endTime).getTime() - this.astroTimeToDate(startTime).getTime()) / (1000 * 60 * 60)).toFixed(2)
       },
       searchInterval: `${searchInterval}秒`,
-      tolerances
+      tolerances,
+      refraction
     });
 
     this.logger.debug("天体整列検索開始", {
@@ -169,16 +280,185 @@ export class SkytreeAlignmentCalculator {
       }
     });
 
-    // 複数の候補を保持できるように配列に変更
-    const candidates: Array<{
-      time: Date;
-      azimuthDiff: number;
-      elevationDiff: number;
-      sunOrMoonPosition: { azimuth: number; elevation: number };
-      moonPhase?: number;
-      moonIllumination?: number;
-      totalScore: number;
-    }> = [];
+    // 検索方式に応じて候補を収集
+    const strategy = precisionSettings?.strategy ?? await this.getSearchStrategy();
+    const searchContext: AlignmentSearchContext = {
+      location,
+      eventType,
+      startTime,
+      endTime,
+      skytreeAzimuth,
+      elevationAngleToSkytreeSummit,
+      targetElevation,
+      tolerances,
+      refraction,
+    };
+    const candidates = strategy === "root_finding"
+      ? this.collectCandidatesByRootFinding(searchContext)
+      : this.collectCandidatesByScan(searchContext, searchInterval);
+
+    // 候補を高度レンジ × 昇る/沈むでグループ化して、各レンジで最も精度の良いものを選択
+    if (candidates.length > 0) {
+      // 見通し判定は地点ごとに一定のため、候補がある場合に 1 回だけ実行
+      const lineOfSight = this.lineOfSightCalc
+        ? (await this.lineOfSightCalc.evaluate(
+            location,
+            terrestrialRefractionCoefficient,
+          )) ?? undefined
+        : undefined;
+
+      const elevationRanges = await this.groupCandidatesByElevationRange(candidates, eventType, location);
+
+      for (const [rangeKey, rangeCandidates] of elevationRanges.entries()) {
+        // 各高度レンジ内で最も精度の良い候補を選択
+        rangeCandidates.sort((a, b) => a.totalScore - b.totalScore);
+        const bestCandidate = rangeCandidates[0];
+
+        this.logger.debug(`高度レンジ ${rangeKey} の最適候補`, {
+          time: this.astroTimeToDate(bestCandidate.time).toISOString(),
+          sunOrMoonElevation: bestCandidate.sunOrMoonPosition.elevation.toFixed(3),
+          totalScore: bestCandidate.totalScore,
+          azimuthDiff: bestCandidate.azimuthDiff,
+          elevationDiff: bestCandidate.elevationDiff,
+          candidatesInRange: rangeCandidates.length
+        });
+
+        // 実際の天体の昇降時刻に基づいて subType を判定
+        let subType: "sunrise" | "sunset" | "rising" | "setting";
+
+        if (eventType === "diamond") {
+          // 太陽の場合
+          subType = await this.determineSunSubType(bestCandidate.time, location);
+        } else {
+          // 月の場合
+          subType = await this.determineMoonSubType(bestCandidate.time, location);
+        }
+
+        // パールスカイツリーの場合は採否判定ルールを適用
+        if (
+          pearlRules &&
+          bestCandidate.moonIllumination !== undefined &&
+          bestCandidate.moonPhase !== undefined
+        ) {
+          const sunElevation =
+            this.celestialCalc.calculateSunPosition(bestCandidate.time, location, refraction)
+              ?.elevation ?? -90;
+          const reasons = this.pearlGatingEvaluator.evaluate(
+            {
+              moonIllumination: bestCandidate.moonIllumination,
+              moonPhase: bestCandidate.moonPhase,
+              sunElevation,
+            },
+            pearlRules,
+          );
+
+          if (reasons.length > 0) {
+            this.logger.debug("パール候補を除外", {
+              locationId: location.id,
+              time: bestCandidate.time.toISOString(),
+              moonIllumination: bestCandidate.moonIllumination,
+              sunElevation,
+              reasons,
+            });
+            // リアルタイム計算（日別・目標点指定など）では記録しない
+            if (this.pearlRejectionRecorder && precisionSettings?.recordPearlRejections) {
+              await this.pearlRejectionRecorder.record({
+                locationId: location.id,
+                eventTime: bestCandidate.time,
+                subType: subType === "rising" ? "rising" : "setting",
+                azimuth: bestCandidate.sunOrMoonPosition.azimuth,
+                moonIllumination: bestCandidate.moonIllumination,
+                daysFromFull: this.pearlGatingEvaluator.getDaysFromFull(bestCandidate.moonPhase),
+                sunElevation,
+                reasons,
+              });
+            }
+            continue;
+          }
+        }
+
+        // イベント詳細をデバッグ出力
+        this.logger.debug("イベント作成詳細", {
+          locationId: location.id,
+          locationName: location.name,
+          eventType, // diamond, pearl
+          celestialBody: eventType === "diamond" ? "太陽" : "月",
+          elevationRange: rangeKey,
+          finalSubType: subType, // sunrise, sunset, rising, setting
+          time: bestCandidate.time,
+          sunOrMoonAzimuth: bestCandidate.sunOrMoonPosition.azimuth,
+          sunOrMoonElevation: bestCandidate.sunOrMoonPosition.elevation,
+          elevationAngleToSkytreeSummit: elevationAngleToSkytreeSummit,
+          azimuthDiff: bestCandidate.azimuthDiff,
+          elevationDiff: bestCandidate.elevationDiff,
+          totalScore: bestCandidate.totalScore
+        });
+
+        const contactWindow =
+          this.discContactCalc.calculateContactWindow(
+            bestCandidate.time,
+            location,
+            eventType === "diamond" ? "sun" : "moon",
+            skytreeAzimuth,
+            refraction,
+          ) ?? undefined;
+
+        events.push({
+          id: `${location.id}-${timeUtils.formatDateString(date)}-${eventType}-${this.astroTimeToDate(bestCandidate.time).getTime()}-${rangeKey}${target ? `-${target.id}` : ""}`,
+          type: eventType,
+          subType,
+          time: bestCandidate.time,
+          location: location,
+          azimuth: bestCandidate.sunOrMoonPosition.azimuth,
+          elevation: targetElevation ?? elevationAngleToSkytreeSummit,  // スカイツリー（目標点）への仰角を使用
+          accuracy: await this.getOverallAccuracy(
+            bestCandidate.azimuthDiff,
+            bestCandidate.elevationDiff,
+          ),
+          qualityScore: await this.calculateQualityScore(
+            bestCandidate.azimuthDiff,
+            bestCandidate.sunOrMoonPosition.elevation,
+          ),
+          moonPhase: bestCandidate.moonPhase,
+          moonIllumination: bestCandidate.moonIllumination,
+          lineOfSight,
+          refractionModel: refraction.model,
+          contactWindow,
+          target,
+          alignment: this.alignmentClassifier.classify({
+            azimuthDiff: bestCandidate.azimuthDiff,
+            sunOrMoonElevation: bestCandidate.sunOrMoonPosition.elevation,
+            tipElevation: elevationAngleToSkytreeSummit,
+            baseElevation: elevationAngleToSkytreeBase,
+            body: eventType === "diamond" ? "sun" : "moon",
+            angularRadius: contactWindow?.angularRadius,
+          }),
+        });
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * 検索間隔ごとに天体位置を評価して候補を収集（固定刻み走査）
+   */
+  private collectCandidatesByScan(
+    context: AlignmentSearchContext,
+    searchInterval: number,
+  ): AlignmentCandidate[] {
+    const {
+      location,
+      eventType,
+      startTime,
+      endTime,
+      skytreeAzimuth,
+      elevationAngleToSkytreeSummit,
+      targetElevation,
+      tolerances,
+      refraction,
+    } = context;
+    const candidates: AlignmentCandidate[] = [];
 
     let searchCount = 0;
     let validPositionCount = 0;
@@ -192,8 +472,8 @@ export class SkytreeAlignmentCalculator {
       searchCount++;
 
       const sunOrMoonPosition = eventType === "diamond"
-        ? this.celestialCalc.calculateSunPosition(time, location)
-        : this.celestialCalc.calculateMoonPosition(time, location);
+        ? this.celestialCalc.calculateSunPosition(time, location, refraction)
+        : this.celestialCalc.calculateMoonPosition(time, location, refraction);
 
       if (!sunOrMoonPosition || !this.celestialCalc.isVisible(sunOrMoonPosition.elevation)) {
         continue;
@@ -213,15 +493,11 @@ export class SkytreeAlignmentCalculator {
       // 天体の仰角がスカイツリーの見える範囲内かチェック
       const isWithinElevationRange = sunOrMoonPosition.elevation >= minSunOrMoonElevation && sunOrMoonPosition.elevation <= maxSunOrMoonElevation;
 
-      // 仰角差は範囲外の場合のみ計算（範囲内なら 0 とする）
-      let elevationDiff = 0;
-      if (!isWithinElevationRange) {
-        if (sunOrMoonPosition.elevation < minSunOrMoonElevation) {
-          elevationDiff = minSunOrMoonElevation - sunOrMoonPosition.elevation;
-        } else if (sunOrMoonPosition.elevation > maxSunOrMoonElevation) {
-          elevationDiff = sunOrMoonPosition.elevation - maxSunOrMoonElevation;
-        }
-      }
+      const elevationDiff = this.getElevationDiff(
+        sunOrMoonPosition.elevation,
+        eventType,
+        targetElevation,
+      );
 
       // デバッグ用：最初の数回の計算結果をログ出力
       if (searchCount <= 5 || (searchCount % 100 === 0)) {
@@ -355,87 +631,177 @@ export class SkytreeAlignmentCalculator {
       tolerances
     });
 
-    // 候補を高度レンジ × 昇る/沈むでグループ化して、各レンジで最も精度の良いものを選択
-    if (candidates.length > 0) {
-      const elevationRanges = await this.groupCandidatesByElevationRange(candidates, eventType, location);
+    return candidates;
+  }
 
-      for (const [rangeKey, rangeCandidates] of elevationRanges.entries()) {
-        // 各高度レンジ内で最も精度の良い候補を選択
-        rangeCandidates.sort((a, b) => a.totalScore - b.totalScore);
-        const bestCandidate = rangeCandidates[0];
+  /**
+   * 方位角差の符号変化を粗い刻みで囲い込み、Brent 法で横断時刻を求めて候補を収集
+   * 検索範囲全体を細かく走査しないため、検索間隔によらずサブ秒精度の時刻が得られる
+   */
+  private collectCandidatesByRootFinding(
+    context: AlignmentSearchContext,
+  ): AlignmentCandidate[] {
+    const {
+      location,
+      eventType,
+      startTime,
+      endTime,
+      skytreeAzimuth,
+      targetElevation,
+      tolerances,
+      refraction,
+    } = context;
+    const candidates: AlignmentCandidate[] = [];
+    const step = SkytreeAlignmentCalculator.ROOT_BRACKET_STEP_SECONDS;
+    const startMs = startTime.getTime();
+    const totalSeconds = (endTime.getTime() - startMs) / 1000;
+    let evaluationCount = 0;
+
+    const positionAt = (seconds: number) => {
+      evaluationCount++;
+      const time = new Date(startMs + seconds * 1000);
+      return eventType === "diamond"
+        ? this.celestialCalc.calculateSunPosition(time, location, refraction)
+        : this.celestialCalc.calculateMoonPosition(time, location, refraction);
+    };
+    const offsetAt = (seconds: number): number | null => {
+      const position = positionAt(seconds);
+      return position ? this.getSignedAzimuthOffset(position.azimuth, skytreeAzimuth) : null;
+    };
 
-        this.logger.debug(`高度レンジ ${rangeKey} の最適候補`, {
-          time: this.astroTimeToDate(bestCandidate.time).toISOString(),
-          sunOrMoonElevation: bestCandidate.sunOrMoonPosition.elevation.toFixed(3),
-          totalScore: bestCandidate.totalScore,
-          azimuthDiff: bestCandidate.azimuthDiff,
-          elevationDiff: bestCandidate.elevationDiff,
-          candidatesInRange: rangeCandidates.length
-        });
+    // 1. 粗い刻みで方位角差の符号変化を探す（方位角が 180 度反対側で折り返す点は除外）
+    const roots: number[] = [];
+    let previous: { seconds: number; offset: number } | null = null;
+    for (let seconds = 0; seconds < totalSeconds + step; seconds += step) {
+      const current = Math.min(seconds, totalSeconds);
+      const offset = offsetAt(current);
+      if (offset === null) {
+        previous = null;
+        continue;
+      }
 
-        // パールスカイツリーの場合は月相チェック
-        if (
-          eventType === "pearl" &&
-          bestCandidate.moonIllumination !== undefined
-        ) {
-          if (
-            !this.celestialCalc.isVisibleMoonPhase(bestCandidate.moonIllumination)
-          ) {
-            continue; // 月が暗すぎる場合はこのレンジをスキップ
-          }
+      if (
+        previous &&
+        Math.sign(previous.offset) !== Math.sign(offset) &&
+        Math.abs(previous.offset) < 90 &&
+        Math.abs(offset) < 90
+      ) {
+        // 2. 囲い込んだ区間で横断時刻を求める
+        const root = this.rootFinder.findRoot(
+          offsetAt,
+          previous.seconds,
+          current,
+          SkytreeAlignmentCalculator.ROOT_PRECISION_SECONDS,
+        );
+        if (root !== null) {
+          roots.push(root);
         }
+      }
 
-        // 実際の天体の昇降時刻に基づいて subType を判定
-        let subType: "sunrise" | "sunset" | "rising" | "setting";
+      previous = { seconds: current, offset };
+      if (current >= totalSeconds) break;
+    }
 
-        if (eventType === "diamond") {
-          // 太陽の場合
-          subType = await this.determineSunSubType(bestCandidate.time, location);
-        } else {
-          // 月の場合
-          subType = await this.determineMoonSubType(bestCandidate.time, location);
-        }
+    // 3. 横断時刻の天体位置を走査方式と同じ条件で評価
+    for (const root of roots) {
+      const sunOrMoonPosition = positionAt(root);
+      if (!sunOrMoonPosition || !this.celestialCalc.isVisible(sunOrMoonPosition.elevation)) {
+        continue;
+      }
 
-        // イベント詳細をデバッグ出力
-        this.logger.debug("イベント作成詳細", {
-          locationId: location.id,
-          locationName: location.name,
-          eventType, // diamond, pearl
-          celestialBody: eventType === "diamond" ? "太陽" : "月",
-          elevationRange: rangeKey,
-          finalSubType: subType, // sunrise, sunset, rising, setting
-          time: bestCandidate.time,
-          sunOrMoonAzimuth: bestCandidate.sunOrMoonPosition.azimuth,
-          sunOrMoonElevation: bestCandidate.sunOrMoonPosition.elevation,
-          elevationAngleToSkytreeSummit: elevationAngleToSkytreeSummit,
-          azimuthDiff: bestCandidate.azimuthDiff,
-          elevationDiff: bestCandidate.elevationDiff,
-          totalScore: bestCandidate.totalScore
-        });
+      const azimuthDiff = this.coordinateCalc.getAzimuthDifference(
+        sunOrMoonPosition.azimuth,
+        skytreeAzimuth,
+      );
+      const elevationDiff = this.getElevationDiff(
+        sunOrMoonPosition.elevation,
+        eventType,
+        targetElevation,
+      );
 
-        events.push({
-          id: `${location.id}-${timeUtils.formatDateString(date)}-${eventType}-${this.astroTimeToDate(bestCandidate.time).getTime()}-${rangeKey}`,
-          type: eventType,
-          subType,
-          time: bestCandidate.time,
-          location: location,
-          azimuth: bestCandidate.sunOrMoonPosition.azimuth,
-          elevation: elevationAngleToSkytreeSummit,  // スカイツリーへの仰角を使用
-          accuracy: await this.getOverallAccuracy(
-            bestCandidate.azimuthDiff,
-            bestCandidate.elevationDiff,
-          ),
-          qualityScore: await this.calculateQualityScore(
-            bestCandidate.azimuthDiff,
-            bestCandidate.sunOrMoonPosition.elevation,
-          ),
-          moonPhase: bestCandidate.moonPhase,
-          moonIllumination: bestCandidate.moonIllumination,
-        });
+      if (
+        azimuthDiff > tolerances.azimuthTolerance ||
+        elevationDiff > tolerances.elevationTolerance
+      ) {
+        continue;
       }
+
+      candidates.push({
+        time: new Date(startMs + Math.round(root * 1000)),
+        azimuthDiff,
+        elevationDiff,
+        sunOrMoonPosition,
+        totalScore: azimuthDiff + elevationDiff * 2,
+        moonPhase:
+          "phase" in sunOrMoonPosition
+            ? (sunOrMoonPosition as MoonPosition).phase
+            : undefined,
+        moonIllumination:
+          "illumination" in sunOrMoonPosition
+            ? (sunOrMoonPosition as MoonPosition).illumination
+            : undefined,
+      });
     }
 
-    return events;
+    this.logger.debug("天体整列検索完了（求根）", {
+      locationId: location.id,
+      locationName: location.name,
+      eventType,
+      searchStatistics: {
+        evaluations: evaluationCount,
+        crossings: roots.length,
+        candidatesFound: candidates.length,
+      },
+      bracketStep: step,
+      tolerances,
+    });
+
+    return candidates;
+  }
+
+  /**
+   * 天体の高度と許容範囲との差（度）
+   * 目標点指定時は目標点への仰角との差、未指定時は見える高度範囲（太陽: 0-35 度、月: 0-65 度）からのはみ出し量
+   */
+  private getElevationDiff(
+    sunOrMoonElevation: number,
+    eventType: "diamond" | "pearl",
+    targetElevation: number | null,
+  ): number {
+    if (targetElevation !== null) {
+      return Math.abs(sunOrMoonElevation - targetElevation);
+    }
+
+    const maxSunOrMoonElevation = eventType === "diamond" ? 35 : 65;
+    const minSunOrMoonElevation = 0;
+    if (sunOrMoonElevation < minSunOrMoonElevation) {
+      return minSunOrMoonElevation - sunOrMoonElevation;
+    }
+    if (sunOrMoonElevation > maxSunOrMoonElevation) {
+      return sunOrMoonElevation - maxSunOrMoonElevation;
+    }
+    return 0;
+  }
+
+  /**
+   * 整列検索の方式を取得
+   */
+  private async getSearchStrategy(): Promise<AlignmentSearchStrategy> {
+    const strategy = await this.settingsService.getStringSetting(
+      "alignment_search_strategy",
+      "scan",
+    );
+    return strategy === "root_finding" ? "root_finding" : "scan";
+  }
+
+  /**
+   * 天体の方位角とスカイツリー方位角の符号付きの差（-180〜180 度）
+   */
+  private getSignedAzimuthOffset(azimuth: number, skytreeAzimuth: number): number {
+    let diff = azimuth - skytreeAzimuth;
+    if (diff > 180) diff -= 360;
+    if (diff < -180) diff += 360;
+    return diff;
   }
 
   /**
@@ -837,15 +1203,7 @@ export class SkytreeAlignmentCalculator {
    * 候補を高度レンジ × 昇る/沈むでグループ化
    */
   private async groupCandidatesByElevationRange(
-    candidates: Array<{
-      time: Date;
-      azimuthDiff: number;
-      elevationDiff: number;
-      sunOrMoonPosition: { azimuth: number; elevation: number };
-      moonPhase?: number;
-      moonIllumination?: number;
-      totalScore: number;
-    }>,
+    candidates: AlignmentCandidate[],
     eventType: "diamond" | "pearl",
     location: Location
   ): Promise<Map<string, typeof candidates>> {
@@ -0,0 +1,147 @@
+import * as Astronomy from "astronomy-engine";
+import { SKYTREE_COORDINATES } from "@skytree-photo-planner/types";
+import type { SpecialEvent } from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import { CelestialPositionCalculator } from "./CelestialPositionCalculator";
+
+/**
+ * 日食・月食・スーパームーンを検索するクラス
+ *
+ * astronomy-engine の食の検索を使い、スカイツリー（東京）から見える現象のみを返す
+ * - 日食: スカイツリーの位置での局所的な食で、食の間に太陽が地平線上にあるもの
+ * - 月食: 半影食の始まりから終わりまでの間に月が地平線上にあるもの
+ * - スーパームーン: 地心距離が SUPERMOON_MAX_DISTANCE_KM 以下の満月
+ */
+export class SpecialEventCalculator {
+  static readonly SUPERMOON_MAX_DISTANCE_KM = 360000;
+  private static readonly VISIBILITY_STEP_MINUTES = 10; // 月食の可視判定の刻み
+
+  private logger = getComponentLogger("SpecialEventCalculator");
+  private celestialCalc = new CelestialPositionCalculator();
+  private observer = new Astronomy.Observer(
+    SKYTREE_COORDINATES.latitude,
+    SKYTREE_COORDINATES.longitude,
+    0,
+  );
+
+  /**
+   * 期間内の特別な天文現象を時刻順に検索
+   */
+  findSpecialEvents(startDate: Date, endDate: Date): SpecialEvent[] {
+    const events = [
+      ...this.findSolarEclipses(startDate, endDate),
+      ...this.findLunarEclipses(startDate, endDate),
+      ...this.findSupermoons(startDate, endDate),
+    ];
+
+    this.logger.debug("特別な天文現象の検索完了", {
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      count: events.length,
+    });
+
+    return events.sort((a, b) => a.peakTime.getTime() - b.peakTime.getTime());
+  }
+
+  /**
+   * スカイツリーから見える日食を検索
+   */
+  private findSolarEclipses(startDate: Date, endDate: Date): SpecialEvent[] {
+    const events: SpecialEvent[] = [];
+    let eclipse = Astronomy.SearchLocalSolarEclipse(startDate, this.observer);
+
+    while (eclipse.peak.time.date <= endDate) {
+      // 食の間に太陽が一度でも地平線上にあれば観測可能
+      const visible = [eclipse.partial_begin, eclipse.peak, eclipse.partial_end].some(
+        (phase) => phase.altitude > 0,
+      );
+      if (visible) {
+        events.push({
+          id: `solar_eclipse-${eclipse.peak.time.date.getTime()}`,
+          type: "solar_eclipse",
+          peakTime: eclipse.peak.time.date,
+          startTime: eclipse.partial_begin.time.date,
+          endTime: eclipse.partial_end.time.date,
+          kind: eclipse.kind,
+          obscuration: Math.round(eclipse.obscuration * 1000) / 1000,
+        });
+      }
+      eclipse = Astronomy.NextLocalSolarEclipse(eclipse.peak.time, this.observer);
+    }
+
+    return events;
+  }
+
+  /**
+   * スカイツリーから見える月食を検索
+   */
+  private findLunarEclipses(startDate: Date, endDate: Date): SpecialEvent[] {
+    const events: SpecialEvent[] = [];
+    let eclipse = Astronomy.SearchLunarEclipse(startDate);
+
+    while (eclipse.peak.date <= endDate) {
+      const startTime = eclipse.peak.AddDays(-eclipse.sd_penum / (24 * 60)).date;
+      const endTime = eclipse.peak.AddDays(eclipse.sd_penum / (24 * 60)).date;
+
+      if (this.isMoonAboveHorizonDuring(startTime, endTime)) {
+        events.push({
+          id: `lunar_eclipse-${eclipse.peak.date.getTime()}`,
+          type: "lunar_eclipse",
+          peakTime: eclipse.peak.date,
+          startTime,
+          endTime,
+          kind: eclipse.kind,
+          obscuration: Math.round(eclipse.obscuration * 1000) / 1000,
+        });
+      }
+      eclipse = Astronomy.NextLunarEclipse(eclipse.peak);
+    }
+
+    return events;
+  }
+
+  /**
+   * 期間内のスーパームーン（地球に近い満月）を検索
+   */
+  private findSupermoons(startDate: Date, endDate: Date): SpecialEvent[] {
+    const events: SpecialEvent[] = [];
+    let quarter = Astronomy.SearchMoonQuarter(startDate);
+
+    while (quarter.time.date <= endDate) {
+      // quarter 2 が満月
+      if (quarter.quarter === 2) {
+        const moonDistance = Astronomy.GeoMoon(quarter.time).Length() * Astronomy.KM_PER_AU;
+        if (moonDistance <= SpecialEventCalculator.SUPERMOON_MAX_DISTANCE_KM) {
+          events.push({
+            id: `supermoon-${quarter.time.date.getTime()}`,
+            type: "supermoon",
+            peakTime: quarter.time.date,
+            startTime: quarter.time.date,
+            endTime: quarter.time.date,
+            moonDistance: Math.round(moonDistance),
+          });
+        }
+      }
+      quarter = Astronomy.NextMoonQuarter(quarter);
+    }
+
+    return events;
+  }
+
+  /**
+   * 期間中に月が地平線上に出ている時刻があるか
+   */
+  private isMoonAboveHorizonDuring(startTime: Date, endTime: Date): boolean {
+    const stepMs = SpecialEventCalculator.VISIBILITY_STEP_MINUTES * 60 * 1000;
+    for (let time = startTime.getTime(); time <= endTime.getTime(); time += stepMs) {
+      const moonPosition = this.celestialCalc.calculateMoonPosition(
+        new Date(time),
+        SKYTREE_COORDINATES,
+      );
+      if (moonPosition && moonPosition.elevation > 0) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,154 @@
+import { AlignmentClassifier } from "../AlignmentClassifier";
+
+const classifier = new AlignmentClassifier();
+
+// 境界で浮動小数点の誤差が出ないよう、視半径・角距離は 2 進数で正確に表せる値を使う
+const RADIUS = 0.25;
+const EPSILON = 1e-9;
+
+// 天体の高度 0 度では方位角差がそのまま水平方向の角距離になる
+// 高台の観測地点を想定し、基部は地平線の下に見える
+const classifyAtHorizon = (azimuthDiff: number, tipElevation: number, baseElevation: number) =>
+  classifier.classify({
+    azimuthDiff,
+    sunOrMoonElevation: 0,
+    tipElevation,
+    baseElevation,
+    body: "sun",
+    angularRadius: RADIUS,
+  });
+
+// 方位角差 0 で、頂部の真上・真下に天体中心がある場合
+const classifyVertically = (sunOrMoonElevation: number) =>
+  classifier.classify({
+    azimuthDiff: 0,
+    sunOrMoonElevation,
+    tipElevation: 2,
+    baseElevation: 1,
+    body: "sun",
+    angularRadius: RADIUS,
+  });
+
+describe("AlignmentClassifier", () => {
+  describe("頂部からの角距離の境界", () => {
+    it("視半径の半分ちょうどは centered", () => {
+      expect(classifyAtHorizon(RADIUS / 2, 0, -1).classification).toBe("centered");
+      expect(classifyVertically(2 + RADIUS / 2).classification).toBe("centered");
+    });
+
+    it("視半径の半分を超えると touching", () => {
+      expect(classifyAtHorizon(RADIUS / 2 + EPSILON, 0, -1).classification).toBe("touching");
+      expect(classifyVertically(2 + RADIUS / 2 + EPSILON).classification).toBe("touching");
+    });
+
+    it("視半径ちょうどは touching", () => {
+      expect(classifyAtHorizon(RADIUS, 0, -1).classification).toBe("touching");
+      expect(classifyVertically(2 + RADIUS).classification).toBe("touching");
+    });
+
+    it("頂部の上で視半径を超えると beside", () => {
+      expect(classifyVertically(2 + RADIUS + EPSILON)).toEqual({
+        classification: "beside",
+        offsetDiameters: 0,
+      });
+    });
+  });
+
+  describe("塔体からの角距離の境界", () => {
+    it("塔体まで視半径ちょうどは crossing_shaft", () => {
+      expect(classifyAtHorizon(RADIUS, 1, -0.5).classification).toBe("crossing_shaft");
+    });
+
+    it("塔体まで視半径を超えると beside", () => {
+      expect(classifyAtHorizon(RADIUS + EPSILON, 1, -0.5)).toEqual({
+        classification: "beside",
+        offsetDiameters: 0,
+      });
+    });
+
+    it("視半径 1 つ分離れると 0.5 直径", () => {
+      expect(classifyAtHorizon(RADIUS * 2, 1, -0.5)).toEqual({
+        classification: "beside",
+        offsetDiameters: 0.5,
+      });
+    });
+
+    it("基部の下で視半径ちょうどは基部（0m）の crossing_shaft", () => {
+      expect(classifyVertically(1 - RADIUS)).toEqual({
+        classification: "crossing_shaft",
+        crossingHeight: 0,
+      });
+      expect(classifyVertically(1 - RADIUS - EPSILON).classification).toBe("beside");
+    });
+  });
+
+  describe("頂部（アンテナ）と塔体の境界", () => {
+    it("頂部と同じ高度で水平に視半径離れると touching、わずかに下では頂部付近の crossing_shaft", () => {
+      expect(classifyAtHorizon(RADIUS, 0, -1).classification).toBe("touching");
+
+      const belowTip = classifier.classify({
+        azimuthDiff: RADIUS,
+        sunOrMoonElevation: -0.01,
+        tipElevation: 0,
+        baseElevation: -1,
+        body: "sun",
+        angularRadius: RADIUS,
+      });
+      expect(belowTip.classification).toBe("crossing_shaft");
+      expect(belowTip.crossingHeight).toBeGreaterThan(620);
+      expect(belowTip.crossingHeight).toBeLessThan(634);
+    });
+
+    it.each([
+      { height: 634, label: "頂部" },
+      { height: 500, label: "ゲイン塔（アンテナ）の下端" },
+      { height: 350, label: "天望デッキ" },
+    ])("$label（$height m）の仰角を通る天体の crossingHeight は $height", ({ height }) => {
+      const tipElevation = 5;
+      const baseElevation = -0.5;
+      const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+      const tipTan = Math.tan(toRadians(tipElevation));
+      const baseTan = Math.tan(toRadians(baseElevation));
+      const elevation =
+        (Math.atan(baseTan + (height / 634) * (tipTan - baseTan)) * 180) / Math.PI;
+
+      const result = classifier.classify({
+        azimuthDiff: 0.2,
+        sunOrMoonElevation: elevation,
+        tipElevation,
+        baseElevation,
+        body: "sun",
+        angularRadius: RADIUS,
+      });
+
+      // 頂部は視半径以内のため touching になり、塔体の高さは付かない
+      if (height === 634) {
+        expect(result).toEqual({ classification: "touching" });
+      } else {
+        expect(result).toEqual({ classification: "crossing_shaft", crossingHeight: height });
+      }
+    });
+  });
+
+  it("視半径の指定がない場合は平均視半径を使う", () => {
+    const result = classifier.classify({
+      azimuthDiff: 0.26,
+      sunOrMoonElevation: 0,
+      tipElevation: 1,
+      baseElevation: -1,
+      body: "moon",
+    });
+
+    // 塔体までの角距離 0.26 度は月の平均視半径 0.2591 度を超え、太陽の 0.2666 度以内
+    expect(result.classification).toBe("beside");
+    expect(
+      classifier.classify({
+        azimuthDiff: 0.26,
+        sunOrMoonElevation: 0,
+        tipElevation: 1,
+        baseElevation: -1,
+        body: "sun",
+      }).classification,
+    ).toBe("crossing_shaft");
+  });
+});
@@ -0,0 +1,83 @@
+import type { AlignmentLine } from "@skytree-photo-planner/types";
+import type { ISystemSettingsService } from "../../interfaces/ISystemSettingsService";
+import { AlignmentLineCalculator } from "../AlignmentLineCalculator";
+import { CelestialPositionCalculator } from "../CelestialPositionCalculator";
+import { CoordinateCalculator } from "../CoordinateCalculator";
+import { RefractionCalculator } from "../RefractionCalculator";
+
+const settingsService = {
+  getRefractionSettings: async () => RefractionCalculator.DEFAULT_SETTINGS,
+} as unknown as ISystemSettingsService;
+const calculator = new AlignmentLineCalculator(settingsService);
+const coordinateCalc = new CoordinateCalculator();
+const celestialCalc = new CelestialPositionCalculator();
+
+// 方位角・高度は小数 2〜3 桁に丸めて返すため、その分を許容する
+const AZIMUTH_TOLERANCE = 0.02;
+const ELEVATION_TOLERANCE = 0.02;
+
+const bodyPositionAt = (line: AlignmentLine, point: AlignmentLine["points"][number]) =>
+  (line.type === "diamond"
+    ? celestialCalc.calculateSunPosition(point.time, point, RefractionCalculator.DEFAULT_SETTINGS)
+    : celestialCalc.calculateMoonPosition(point.time, point, RefractionCalculator.DEFAULT_SETTINGS))!;
+
+describe("AlignmentLineCalculator", () => {
+  describe.each(["diamond", "pearl"] as const)("%s", (type) => {
+    let line: AlignmentLine;
+
+    beforeAll(async () => {
+      line = await calculator.calculateAlignmentLine({ date: "2026-01-20", type, stepMinutes: 20 });
+    });
+
+    it("指定日の時刻を刻みどおりに並べ、天体が見える時刻の地点を返す", () => {
+      expect(line.points.length).toBeGreaterThan(10);
+      for (const point of line.points) {
+        expect((point.time.getTime() - line.startTime.getTime()) % (20 * 60 * 1000)).toBe(0);
+        expect(point.time.getTime()).toBeLessThanOrEqual(line.endTime.getTime());
+      }
+    });
+
+    it("各地点からスカイツリーを見る方位角はその時刻の天体の方位角と一致する", () => {
+      for (const point of line.points) {
+        const azimuthToSkytree = coordinateCalc.calculateAzimuthToSkytree(point);
+        const bodyPosition = bodyPositionAt(line, point);
+
+        expect(Math.abs(azimuthToSkytree - point.bodyAzimuth)).toBeLessThanOrEqual(AZIMUTH_TOLERANCE);
+        expect(Math.abs(bodyPosition.azimuth - point.bodyAzimuth)).toBeLessThanOrEqual(AZIMUTH_TOLERANCE);
+      }
+    });
+
+    it("各地点から見たスカイツリー頂部の仰角は天体の高度と一致し、距離も一致する", () => {
+      for (const point of line.points) {
+        const elevationToSummit = coordinateCalc.calculateElevationToSkytreeSummit({
+          latitude: point.latitude,
+          longitude: point.longitude,
+          elevation: point.requiredObserverHeight,
+        });
+
+        expect(Math.abs(elevationToSummit - point.bodyElevation)).toBeLessThanOrEqual(ELEVATION_TOLERANCE);
+        expect(
+          Math.abs(bodyPositionAt(line, point).elevation - point.bodyElevation),
+        ).toBeLessThanOrEqual(ELEVATION_TOLERANCE);
+        expect(Math.abs(coordinateCalc.calculateDistanceToSkytree(point) - point.distance)).toBeLessThan(1);
+      }
+    });
+  });
+
+  it("天体が低く 80km 以内に収まらない地点は 80km に置き、必要な観測者の高度を返す", async () => {
+    const line = await calculator.calculateAlignmentLine({
+      date: "2026-01-20",
+      type: "diamond",
+      startTime: "16:55",
+      endTime: "17:00",
+      stepMinutes: 5,
+    });
+
+    const capped = line.points.filter((point) => point.distance === 80000);
+    expect(capped.length).toBeGreaterThan(0);
+    for (const point of capped) {
+      expect(point.requiredObserverHeight).toBeGreaterThan(0);
+      expect(point.requiredObserverHeight).toBeLessThanOrEqual(3000);
+    }
+  });
+});
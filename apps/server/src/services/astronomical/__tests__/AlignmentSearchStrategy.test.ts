@@ -0,0 +1,121 @@
+import type { SkytreeEvent } from "@skytree-photo-planner/types";
+import { DefaultSettingsService } from "../../../benchmarks/DefaultSettingsService";
+import { compareAlignmentEvents } from "../../../benchmarks/compareAlignmentEvents";
+import { benchmarkLocations } from "../../../benchmarks/fixtures/benchmarkLocations";
+import { CelestialPositionCalculator } from "../CelestialPositionCalculator";
+import { RefractionCalculator } from "../RefractionCalculator";
+import type {
+  AlignmentPrecisionSettings,
+  AlignmentSearchStrategy,
+} from "../SkytreeAlignmentCalculator";
+import { SkytreeAlignmentCalculator } from "../SkytreeAlignmentCalculator";
+
+const SEARCH_INTERVAL = 60;
+const ELEVATION_TOLERANCE = 0.5; // toleranceLevel: high の仰角許容範囲
+// 走査の 1 回の横断で許容範囲に入っている時間（方位角 ±1 度）の上限の目安
+const SAME_CROSSING_WINDOW_MS = 10 * 60 * 1000;
+
+// 北（荒川）・東（江戸川）の 2 方向から 2026 年 1 月 20 日以降の 2 週間分
+// 高度レンジの境界をまたぐ横断と、高度範囲の境界付近での近接の両方を含む期間
+const LOCATIONS = benchmarkLocations.filter((location) =>
+  ["荒川河川敷（足立区）", "江戸川河川敷（市川市）"].includes(location.name),
+);
+const START_DAY = 20;
+const DAYS = 14;
+
+const calculator = new SkytreeAlignmentCalculator(new DefaultSettingsService());
+const celestialCalc = new CelestialPositionCalculator();
+
+const search = async (strategy: AlignmentSearchStrategy): Promise<SkytreeEvent[][]> => {
+  const precisionSettings: AlignmentPrecisionSettings = {
+    searchInterval: SEARCH_INTERVAL,
+    toleranceLevel: "high",
+    strategy,
+  };
+  const results: SkytreeEvent[][] = [];
+  for (const location of LOCATIONS) {
+    const events: SkytreeEvent[] = [];
+    for (let day = 0; day < DAYS; day++) {
+      const date = new Date(Date.UTC(2026, 0, START_DAY + day));
+      events.push(...(await calculator.findDiamondSkytree(date, location, precisionSettings)));
+      events.push(...(await calculator.findPearlSkytree(date, location, precisionSettings)));
+    }
+    results.push(events);
+  }
+  return results;
+};
+
+/**
+ * 天体の高度が見える高度範囲（太陽: 0-35 度、月: 0-65 度）の境界から仰角の許容範囲内にあるか
+ */
+const isAtElevationRangeEdge = (event: SkytreeEvent): boolean => {
+  const position =
+    event.type === "diamond"
+      ? celestialCalc.calculateSunPosition(event.time, event.location, RefractionCalculator.DEFAULT_SETTINGS)
+      : celestialCalc.calculateMoonPosition(event.time, event.location, RefractionCalculator.DEFAULT_SETTINGS);
+  const maxElevation = event.type === "diamond" ? 35 : 65;
+  return [0, maxElevation].some(
+    (edge) => Math.abs(position!.elevation - edge) <= ELEVATION_TOLERANCE,
+  );
+};
+
+describe("整列検索方式（scan / root_finding）の比較", () => {
+  let comparisons: ReturnType<typeof compareAlignmentEvents>[];
+  let scanResults: SkytreeEvent[][];
+  let rootResults: SkytreeEvent[][];
+
+  beforeAll(async () => {
+    scanResults = await search("scan");
+    rootResults = await search("root_finding");
+    comparisons = scanResults.map((scanEvents, index) =>
+      compareAlignmentEvents(scanEvents, rootResults[index]),
+    );
+  }, 120000);
+
+  it("求根方式のイベントはすべて走査方式でも検出される", () => {
+    expect(comparisons.map((comparison) => comparison.rootOnly)).toEqual(
+      LOCATIONS.map(() => 0),
+    );
+    expect(comparisons.every((comparison) => comparison.matched > 0)).toBe(true);
+  });
+
+  it("求根方式の横断時刻から検索間隔以内に走査方式のイベントがある", () => {
+    scanResults.forEach((scanEvents, index) => {
+      const scanTimes = scanEvents.map((event) => event.time.getTime());
+      for (const rootEvent of rootResults[index]) {
+        const nearest = Math.min(
+          ...scanTimes.map((time) => Math.abs(time - rootEvent.time.getTime())),
+        );
+        expect(nearest).toBeLessThanOrEqual(SEARCH_INTERVAL * 1000);
+      }
+    });
+  });
+
+  it("走査方式のみのイベントは同じ横断の重複か、高度範囲の境界での許容範囲内の近接に限られる", () => {
+    const scanOnlyEvents = comparisons.flatMap((comparison) => comparison.scanOnlyEvents);
+    const isSameCrossing = (event: SkytreeEvent) => {
+      const locationIndex = LOCATIONS.findIndex((location) => location.id === event.location.id);
+      return rootResults[locationIndex].some(
+        (rootEvent) =>
+          rootEvent.type === event.type &&
+          Math.abs(rootEvent.time.getTime() - event.time.getTime()) <= SAME_CROSSING_WINDOW_MS,
+      );
+    };
+
+    // 走査方式は許容範囲内の候補を 5 度刻みの高度レンジ × 昇降で分けるため、
+    // 1 回の横断がレンジの境界をまたぐと 2 件のイベントになる
+    expect(scanOnlyEvents.some(isSameCrossing)).toBe(true);
+    // 横断時刻に天体が高度範囲外にある場合、求根方式は検出しないが
+    // 走査方式は横断前後の許容範囲内の時刻を検出する
+    expect(
+      scanOnlyEvents.some((event) => !isSameCrossing(event) && isAtElevationRangeEdge(event)),
+    ).toBe(true);
+
+    const unexplained = scanOnlyEvents.filter(
+      (event) => !isSameCrossing(event) && !isAtElevationRangeEdge(event),
+    );
+    expect(
+      unexplained.map((event) => `${event.location.name} ${event.type} ${event.time.toISOString()}`),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import type { Location, TimelinePhase } from "@skytree-photo-planner/types";
+import { DayTimelineCalculator } from "../DayTimelineCalculator";
+
+const calculator = new DayTimelineCalculator();
+const MINUTE = 60 * 1000;
+
+const createLocation = (latitude: number, longitude: number): Location => ({
+  id: 1,
+  name: "テスト地点",
+  prefecture: "東京都",
+  latitude,
+  longitude,
+  elevation: 0,
+  azimuthToSkytree: 0,
+  elevationToSkytree: 0,
+  distanceToSkytree: 0,
+  status: "active",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+});
+
+// 荒川河川敷（足立区）、トロムソ（北緯 69.6 度）、ロンドン（北緯 51.5 度）
+const ARAKAWA = createLocation(35.7367, 139.8361);
+const TROMSO = createLocation(69.6492, 18.9553);
+const LONDON = createLocation(51.5, -0.12);
+
+const phaseOf = (phases: TimelinePhase[], type: TimelinePhase["type"], period: TimelinePhase["period"]) =>
+  phases.find((phase) => phase.type === type && phase.period === period);
+
+const expectNear = (actual: Date | undefined, expected: string, toleranceMs: number) => {
+  expect(actual).toBeDefined();
+  expect(Math.abs(actual!.getTime() - new Date(expected).getTime())).toBeLessThanOrEqual(
+    toleranceMs,
+  );
+};
+
+describe("DayTimelineCalculator", () => {
+  describe("通常の日（東京、2026 年 1 月 20 日）", () => {
+    const timeline = calculator.calculateTimeline(ARAKAWA, "2026-01-20");
+
+    it("日の出・日の入りは国立天文台の暦（東京 6:48・16:55）と数分以内で一致する", () => {
+      expectNear(timeline.sun.rise, "2026-01-20T06:48:00+09:00", 3 * MINUTE);
+      expectNear(timeline.sun.set, "2026-01-20T16:55:00+09:00", 3 * MINUTE);
+    });
+
+    it("時間帯は開始時刻の順に並び、薄明は朝夕とも隙間なく続く", () => {
+      const starts = timeline.phases.map((phase) => phase.start.getTime());
+      expect(starts).toEqual([...starts].sort((a, b) => a - b));
+      expect(timeline.phases).toHaveLength(10);
+
+      const morning = ["astronomical_twilight", "nautical_twilight", "civil_twilight"] as const;
+      for (let i = 1; i < morning.length; i++) {
+        expect(phaseOf(timeline.phases, morning[i], "morning")!.start).toEqual(
+          phaseOf(timeline.phases, morning[i - 1], "morning")!.end,
+        );
+        expect(phaseOf(timeline.phases, morning[i - 1], "evening")!.start).toEqual(
+          phaseOf(timeline.phases, morning[i], "evening")!.end,
+        );
+      }
+    });
+
+    it("市民薄明は日の出で終わり日の入りで始まり、ブルーアワーはその中にある", () => {
+      const civilMorning = phaseOf(timeline.phases, "civil_twilight", "morning")!;
+      const civilEvening = phaseOf(timeline.phases, "civil_twilight", "evening")!;
+      const blueMorning = phaseOf(timeline.phases, "blue_hour", "morning")!;
+      const blueEvening = phaseOf(timeline.phases, "blue_hour", "evening")!;
+      const goldenMorning = phaseOf(timeline.phases, "golden_hour", "morning")!;
+
+      expect(civilMorning.end).toEqual(timeline.sun.rise);
+      expect(civilEvening.start).toEqual(timeline.sun.set);
+      expect(blueMorning.start).toEqual(civilMorning.start);
+      expect(blueMorning.end.getTime()).toBeLessThan(civilMorning.end.getTime());
+      expect(blueEvening.end).toEqual(civilEvening.end);
+      // ゴールデンアワーはブルーアワーの直後に始まり、日の出をまたぐ
+      expect(goldenMorning.start).toEqual(blueMorning.end);
+      expect(goldenMorning.end.getTime()).toBeGreaterThan(timeline.sun.rise!.getTime());
+    });
+
+    it("スカイツリーの方位角の横断は地平線上のもののみ時刻順に返す", () => {
+      const times = timeline.skytreeCrossings.map((crossing) => crossing.time.getTime());
+      expect(times).toEqual([...times].sort((a, b) => a - b));
+      for (const crossing of timeline.skytreeCrossings) {
+        expect(crossing.elevation).toBeGreaterThan(0);
+        expect(crossing.time.getTime()).toBeGreaterThanOrEqual(
+          new Date("2026-01-20T00:00:00+09:00").getTime(),
+        );
+        expect(crossing.time.getTime()).toBeLessThan(
+          new Date("2026-01-21T00:00:00+09:00").getTime(),
+        );
+      }
+    });
+  });
+
+  describe("極地・境界の日", () => {
+    it("白夜の日は日の出・日の入りも薄明もない", () => {
+      const timeline = calculator.calculateTimeline(TROMSO, "2026-06-21");
+
+      expect(timeline.sun).toEqual({});
+      expect(timeline.phases).toEqual([]);
+    });
+
+    it("極夜の日は太陽が 0 度に達しないため市民薄明とゴールデンアワーを省略する", () => {
+      const timeline = calculator.calculateTimeline(TROMSO, "2026-12-21");
+
+      expect(timeline.sun).toEqual({});
+      // 夕方の天文薄明は JST の日付の終わり（15:00 UTC）より後に終わるため含まない
+      expect(timeline.phases.map((phase) => `${phase.period}:${phase.type}`)).toEqual([
+        "morning:astronomical_twilight",
+        "morning:nautical_twilight",
+        "morning:blue_hour",
+        "evening:blue_hour",
+        "evening:nautical_twilight",
+      ]);
+    });
+
+    it("夏至のロンドンは太陽が -18 度に達しないため天文薄明のみ省略する", () => {
+      const timeline = calculator.calculateTimeline(LONDON, "2026-06-21");
+      const types = new Set(timeline.phases.map((phase) => phase.type));
+
+      expect(types.has("astronomical_twilight")).toBe(false);
+      expect(phaseOf(timeline.phases, "nautical_twilight", "morning")).toBeDefined();
+      expect(phaseOf(timeline.phases, "nautical_twilight", "evening")).toBeDefined();
+      for (const phase of timeline.phases) {
+        expect(phase.start.getTime()).toBeLessThan(phase.end.getTime());
+      }
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { CelestialPositionCalculator } from "../CelestialPositionCalculator";
+import { DiscContactCalculator } from "../DiscContactCalculator";
+
+const AU_KM = 149597870.7;
+// 荒川河川敷（足立区）
+const LOCATION = { latitude: 35.7367, longitude: 139.8361 };
+
+const calculator = new DiscContactCalculator();
+const celestialCalc = new CelestialPositionCalculator();
+
+const positionAt = (body: "sun" | "moon", time: Date) =>
+  (body === "sun"
+    ? celestialCalc.calculateSunPosition(time, LOCATION)
+    : celestialCalc.calculateMoonPosition(time, LOCATION))!;
+
+/**
+ * 中心時刻の前後 1 分の方位角の変化から、円盤の直径分だけ水平に動くのにかかる秒数を求める
+ */
+const expectedDurationSeconds = (body: "sun" | "moon", center: Date, radius: number) => {
+  const before = positionAt(body, new Date(center.getTime() - 60 * 1000));
+  const after = positionAt(body, new Date(center.getTime() + 60 * 1000));
+  const elevation = positionAt(body, center).elevation;
+  const rate =
+    ((after.azimuth - before.azimuth) * Math.cos((elevation * Math.PI) / 180)) / 120;
+  return (2 * radius) / Math.abs(rate);
+};
+
+describe("DiscContactCalculator", () => {
+  describe("視半径", () => {
+    it.each([
+      // 太陽（IAU の公称半径 695,700km）は 1 AU で 959.2″、月は平均距離 384,400km で 932.3″
+      { body: "sun" as const, distanceKm: AU_KM, radius: 959.2 / 3600 },
+      { body: "sun" as const, distanceKm: 0.98329 * AU_KM, radius: 975.5 / 3600 }, // 近日点
+      { body: "sun" as const, distanceKm: 1.01671 * AU_KM, radius: 943.5 / 3600 }, // 遠日点
+      { body: "moon" as const, distanceKm: 384400, radius: 932.3 / 3600 },
+      { body: "moon" as const, distanceKm: 356500, radius: 1005.3 / 3600 }, // 近地点付近
+    ])("$body（距離 $distanceKm km）", ({ body, distanceKm, radius }) => {
+      expect(calculator.getAngularRadius(distanceKm / AU_KM, body)).toBeCloseTo(radius, 4);
+    });
+  });
+
+  describe("接触時間帯", () => {
+    // 2026 年 1 月 20 日の日没前（太陽）・月没前（月）と正午付近（太陽、高度約 34 度）
+    it.each([
+      { body: "sun" as const, center: "2026-01-20T07:40:00Z", minSeconds: 180, maxSeconds: 240 },
+      { body: "moon" as const, center: "2026-01-20T09:00:00Z", minSeconds: 180, maxSeconds: 240 },
+      { body: "sun" as const, center: "2026-01-20T03:00:00Z", minSeconds: 120, maxSeconds: 160 },
+    ])(
+      "$body が $center にアンテナを横切る場合の第 1・第 2 接触",
+      ({ body, center, minSeconds, maxSeconds }) => {
+        const centerTime = new Date(center);
+        const antennaAzimuth = positionAt(body, centerTime).azimuth;
+
+        // 候補時刻は実際の横断から 5 分ずれていてもよい
+        const window = calculator.calculateContactWindow(
+          new Date(centerTime.getTime() + 5 * 60 * 1000),
+          LOCATION,
+          body,
+          antennaAzimuth,
+        );
+
+        expect(window).not.toBeNull();
+        expect(Math.abs(window!.center.getTime() - centerTime.getTime())).toBeLessThanOrEqual(1000);
+        expect(window!.angularRadius).toBeCloseTo(
+          calculator.getAngularRadius(positionAt(body, centerTime).distance, body),
+          4,
+        );
+
+        // 中心は第 1・第 2 接触のほぼ中間で、継続時間は直径 ÷ 水平方向の移動速度
+        const firstHalf = window!.center.getTime() - window!.firstContact.getTime();
+        const secondHalf = window!.lastContact.getTime() - window!.center.getTime();
+        expect(Math.abs(firstHalf - secondHalf)).toBeLessThanOrEqual(2000);
+        expect(window!.durationSeconds).toBeGreaterThanOrEqual(minSeconds);
+        expect(window!.durationSeconds).toBeLessThanOrEqual(maxSeconds);
+        expect(
+          Math.abs(
+            window!.durationSeconds -
+              expectedDurationSeconds(body, centerTime, window!.angularRadius),
+          ),
+        ).toBeLessThanOrEqual(2);
+      },
+    );
+
+    it.each([
+      { body: "sun" as const, center: "2026-01-20T07:40:00Z" },
+      { body: "moon" as const, center: "2026-01-20T09:00:00Z" },
+    ])("$body の横断が候補時刻の前後 30 分の外にある場合は null", ({ body, center }) => {
+      const centerTime = new Date(center);
+      const antennaAzimuth = positionAt(body, centerTime).azimuth;
+
+      for (const offsetMinutes of [-45, 45]) {
+        expect(
+          calculator.calculateContactWindow(
+            new Date(centerTime.getTime() + offsetMinutes * 60 * 1000),
+            LOCATION,
+            body,
+            antennaAzimuth,
+          ),
+        ).toBeNull();
+      }
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import path from "path";
+import type { TerrainOcclusionSettings } from "@skytree-photo-planner/types";
+import type { ISystemSettingsService } from "../../interfaces/ISystemSettingsService";
+import { FileElevationProfileProvider } from "../../terrain/FileElevationProfileProvider";
+import { LineOfSightCalculator } from "../LineOfSightCalculator";
+
+// スカイツリーの真西約 3km、地上 40m のビル屋上（経路上のサンプルは 30m 間隔）
+const OBSERVER = { latitude: 35.710007, longitude: 139.777621, elevation: 40 };
+
+const createCalculator = (
+  fixture: string,
+  settings: Partial<TerrainOcclusionSettings> = {},
+): LineOfSightCalculator => {
+  const provider = new FileElevationProfileProvider(
+    path.join(__dirname, "fixtures", fixture),
+  );
+  const settingsService = {
+    getTerrainOcclusionSettings: async () => ({
+      ...LineOfSightCalculator.DEFAULT_SETTINGS,
+      ...settings,
+    }),
+  } as unknown as ISystemSettingsService;
+  return new LineOfSightCalculator(provider, settingsService);
+};
+
+describe("LineOfSightCalculator", () => {
+  it("低地を挟んでいる場合は基部まで見通せる", async () => {
+    const result = await createCalculator("flat-lowland-profile.json").evaluate(OBSERVER);
+
+    expect(result).toMatchObject({ status: "clear", visibleHeight: 634 });
+  });
+
+  it("990m 先の高さ 150m の建物で下部が隠れる", async () => {
+    const result = await createCalculator("mid-rise-profile.json").evaluate(OBSERVER);
+
+    // 稜線の延長: 41.7 + 0.61（曲率）+ 2996.6 × (150 - 41.7 - 0.07) / 990 ≈ 369.9m → 638 - 369.9
+    expect(result?.status).toBe("partial");
+    expect(result?.visibleHeight).toBeCloseTo(268.1, 0);
+    expect(result?.obstructionDistance).toBe(990);
+    expect(result?.obstructionElevation).toBe(150);
+  });
+
+  it("300m 先の高さ 250m の建物で頂部まで隠れる", async () => {
+    const result = await createCalculator("high-rise-profile.json").evaluate(OBSERVER);
+
+    expect(result).toMatchObject({
+      status: "blocked",
+      visibleHeight: 0,
+      obstructionDistance: 300,
+      obstructionElevation: 250,
+    });
+  });
+
+  it("見通し判定が無効の場合は判定しない", async () => {
+    const result = await createCalculator("high-rise-profile.json", {
+      enabled: false,
+    }).evaluate(OBSERVER);
+
+    expect(result).toBeNull();
+  });
+
+  it("経路上に標高データがない場合は判定しない", async () => {
+    const result = await createCalculator("missing-profile.json").evaluate(OBSERVER);
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import type { PearlGatingRules } from "@skytree-photo-planner/types";
+import { DefaultSettingsService } from "../../../benchmarks/DefaultSettingsService";
+import { benchmarkLocations } from "../../../benchmarks/fixtures/benchmarkLocations";
+import type { PearlRejectionRecorder } from "../../interfaces/PearlRejectionRecorder";
+import { PearlGatingEvaluator } from "../PearlGatingEvaluator";
+import { SkytreeAlignmentCalculator } from "../SkytreeAlignmentCalculator";
+
+const evaluator = new PearlGatingEvaluator();
+const defaults = PearlGatingEvaluator.DEFAULT_RULES;
+
+describe("PearlGatingEvaluator", () => {
+  describe("既定値", () => {
+    it("照度 10% 以上の候補は太陽高度・月齢差によらず採用する", () => {
+      for (const moonPhase of [0, 45, 90, 180, 270, 359]) {
+        for (const sunElevation of [-90, -6, 0, 10, 30, 90]) {
+          expect(
+            evaluator.evaluate({ moonIllumination: 0.1, moonPhase, sunElevation }, defaults),
+          ).toEqual([]);
+        }
+      }
+    });
+
+    it("照度 10% 未満の候補のみ除外する", () => {
+      expect(
+        evaluator.evaluate({ moonIllumination: 0.09, moonPhase: 0, sunElevation: 50 }, defaults),
+      ).toEqual(["low_illumination"]);
+    });
+  });
+
+  it("満たさないルールをすべて除外理由にする", () => {
+    const rules: PearlGatingRules = {
+      minIllumination: 0.5,
+      maxSunElevation: 0,
+      maxDaysFromFull: 7,
+    };
+
+    expect(
+      evaluator.evaluate({ moonIllumination: 0.3, moonPhase: 60, sunElevation: 5 }, rules),
+    ).toEqual(["low_illumination", "bright_sky", "far_from_full"]);
+    expect(
+      evaluator.evaluate({ moonIllumination: 0.9, moonPhase: 180, sunElevation: -10 }, rules),
+    ).toEqual([]);
+  });
+
+  it("満月からの月齢差は最大で朔望月の半分", () => {
+    expect(evaluator.getDaysFromFull(180)).toBe(0);
+    expect(evaluator.getDaysFromFull(0)).toBe(14.8);
+    expect(evaluator.getDaysFromFull(-90)).toBe(evaluator.getDaysFromFull(270));
+  });
+});
+
+describe("除外したパール候補の記録", () => {
+  // 照度 100% を超える最小照度で、すべての候補を除外する
+  class RejectAllSettingsService extends DefaultSettingsService {
+    async getPearlGatingRules() {
+      return { ...PearlGatingEvaluator.DEFAULT_RULES, minIllumination: 1.01 };
+    }
+  }
+
+  // 月が塔の方位を見える高度で横断する北側の地点
+  const location = benchmarkLocations.find((location) => location.name === "荒川河川敷（足立区）")!;
+  const record = jest.fn<
+    ReturnType<PearlRejectionRecorder["record"]>,
+    Parameters<PearlRejectionRecorder["record"]>
+  >();
+  const calculator = new SkytreeAlignmentCalculator(new RejectAllSettingsService(), null, {
+    record,
+  });
+
+  // 月が地点の方位を横断する日を含むよう 1 朔望月分を検索する
+  const searchMonth = async (recordPearlRejections?: boolean) => {
+    for (let day = 0; day < 30; day++) {
+      const events = await calculator.findPearlSkytree(
+        new Date(Date.UTC(2026, 0, 1 + day)),
+        location,
+        { strategy: "root_finding", recordPearlRejections },
+      );
+      expect(events).toEqual([]);
+    }
+  };
+
+  beforeEach(() => record.mockClear());
+
+  it("事前計算のバッチ（recordPearlRejections）では記録する", async () => {
+    await searchMonth(true);
+
+    expect(record).toHaveBeenCalled();
+    expect(record.mock.calls[0][0]).toMatchObject({
+      locationId: location.id,
+      reasons: ["low_illumination"],
+    });
+  }, 60000);
+
+  it("リアルタイム計算では記録しない", async () => {
+    await searchMonth();
+
+    expect(record).not.toHaveBeenCalled();
+  }, 60000);
+});
@@ -0,0 +1,133 @@
+import type { RefractionSettings } from "@skytree-photo-planner/types";
+import { RefractionCalculator } from "../RefractionCalculator";
+
+const calculator = new RefractionCalculator();
+
+const settingsFor = (
+  model: RefractionSettings["model"],
+  overrides: Partial<RefractionSettings> = {},
+): RefractionSettings => ({
+  ...RefractionCalculator.DEFAULT_SETTINGS,
+  model,
+  ...overrides,
+});
+
+const toArcminutes = (degrees: number): number => degrees * 60;
+
+describe("RefractionCalculator", () => {
+  // Meeus『Astronomical Algorithms』(1998) 16 章の式による屈折量（分角）
+  // Bennett は見かけの高度、Saemundsson は真高度が入力
+  describe("bennett", () => {
+    it.each([
+      { apparentAltitude: 0, refraction: 34.48 },
+      { apparentAltitude: 5, refraction: 9.88 },
+      { apparentAltitude: 30, refraction: 1.72 },
+    ])(
+      "見かけの高度 $apparentAltitude° で $refraction′",
+      ({ apparentAltitude, refraction }) => {
+        // 真高度を入力とするため、見かけの高度から屈折量を引いた値で計算する
+        const trueAltitude = apparentAltitude - refraction / 60;
+        const result = calculator.calculateCelestialRefraction(
+          trueAltitude,
+          settingsFor("bennett"),
+        );
+
+        expect(toArcminutes(result)).toBeCloseTo(refraction, 1);
+        expect(calculator.toApparentAltitude(trueAltitude, settingsFor("bennett"))).toBeCloseTo(
+          apparentAltitude,
+          3,
+        );
+      },
+    );
+  });
+
+  describe("saemundsson", () => {
+    it.each([
+      { trueAltitude: 0, refraction: 28.98 },
+      { trueAltitude: 5, refraction: 9.67 },
+      { trueAltitude: 30, refraction: 1.75 },
+    ])("真高度 $trueAltitude° で $refraction′", ({ trueAltitude, refraction }) => {
+      const result = calculator.calculateCelestialRefraction(
+        trueAltitude,
+        settingsFor("saemundsson"),
+      );
+
+      expect(toArcminutes(result)).toBeCloseTo(refraction, 1);
+    });
+
+    it.each([
+      { pressure: 909, temperature: 10, factor: 0.9 },
+      { pressure: 1010, temperature: -10, factor: 283 / 263 },
+      { pressure: 950, temperature: 30, factor: (950 / 1010) * (283 / 303) },
+    ])(
+      "気圧 $pressure hPa・気温 $temperature℃ で空気密度に比例して補正",
+      ({ pressure, temperature, factor }) => {
+        const standard = calculator.calculateCelestialRefraction(5, settingsFor("saemundsson"));
+        const adjusted = calculator.calculateCelestialRefraction(
+          5,
+          settingsFor("saemundsson", { pressure, temperature }),
+        );
+
+        expect(adjusted / standard).toBeCloseTo(factor, 6);
+        expect(
+          calculator.getTerrestrialCoefficient(
+            settingsFor("saemundsson", { pressure, temperature }),
+          ),
+        ).toBeCloseTo(0.13 * factor, 6);
+      },
+    );
+
+    it("標準大気（10℃、1010hPa）では補正しない", () => {
+      expect(calculator.getTerrestrialCoefficient(settingsFor("saemundsson"))).toBeCloseTo(
+        0.13,
+        6,
+      );
+    });
+  });
+
+  describe("none", () => {
+    it.each([-1, 0, 5, 30])("真高度 %d° で補正しない", (trueAltitude) => {
+      const settings = settingsFor("none");
+
+      expect(calculator.calculateCelestialRefraction(trueAltitude, settings)).toBe(0);
+      expect(calculator.toApparentAltitude(trueAltitude, settings)).toBe(trueAltitude);
+    });
+
+    it("地上屈折係数は 0", () => {
+      expect(calculator.getTerrestrialCoefficient(settingsFor("none"))).toBe(0);
+    });
+  });
+
+  it("気温・気圧は bennett・standard の屈折量に影響しない", () => {
+    for (const model of ["bennett", "standard"] as const) {
+      expect(
+        calculator.calculateCelestialRefraction(
+          5,
+          settingsFor(model, { pressure: 909, temperature: -10 }),
+        ),
+      ).toBe(calculator.calculateCelestialRefraction(5, settingsFor(model)));
+    }
+  });
+
+  describe("normalizeSettings", () => {
+    it("不正な値は標準大気の値に置き換える", () => {
+      expect(
+        RefractionCalculator.normalizeSettings({
+          model: "unknown",
+          temperature: 80,
+          pressure: NaN,
+        }),
+      ).toEqual(RefractionCalculator.DEFAULT_SETTINGS);
+    });
+
+    it("有効な値はそのまま使う", () => {
+      expect(
+        RefractionCalculator.normalizeSettings({
+          model: "saemundsson",
+          temperature: -5,
+          pressure: 990,
+        }),
+      ).toEqual({ model: "saemundsson", temperature: -5, pressure: 990 });
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { RootFinder } from "../RootFinder";
+
+const finder = new RootFinder();
+
+describe("RootFinder", () => {
+  describe("囲い込みの失敗", () => {
+    it("両端の符号が同じ場合は null を返す", () => {
+      expect(finder.findRoot((x) => x * x + 1, -10, 10, 0.1)).toBeNull();
+      expect(finder.findRoot((x) => x - 500, 0, 300, 0.1)).toBeNull();
+    });
+
+    it("両端で関数が評価できない場合は null を返す", () => {
+      expect(finder.findRoot((x) => (x === 0 ? null : x - 100), 0, 300, 0.1)).toBeNull();
+      expect(finder.findRoot((x) => (x === 300 ? null : x - 100), 0, 300, 0.1)).toBeNull();
+    });
+
+    it("反復中に関数が評価できない点に当たった場合は null を返す", () => {
+      expect(finder.findRoot((x) => (x > 0 && x < 300 ? null : x - 100), 0, 300, 0.1)).toBeNull();
+    });
+  });
+
+  describe("端点の根", () => {
+    it("下端が根の場合は下端を返す", () => {
+      expect(finder.findRoot((x) => x - 120, 120, 420, 0.1)).toBe(120);
+    });
+
+    it("上端が根の場合は上端を返す", () => {
+      expect(finder.findRoot((x) => x - 420, 120, 420, 0.1)).toBe(420);
+    });
+  });
+
+  describe("収束精度 0.1 秒", () => {
+    // 求根方式と同じく 300 秒の区間・0.1 秒の精度で、方位角差に近い形の関数を解く
+    it.each([
+      { name: "線形", fn: (t: number) => 0.004 * (t - 123.456), root: 123.456 },
+      { name: "三次", fn: (t: number) => Math.pow(t - 250.5, 3), root: 250.5 },
+      { name: "正接（南中付近の方位角変化）", fn: (t: number) => Math.atan((t - 41.3) / 5), root: 41.3 },
+      { name: "正弦", fn: (t: number) => Math.sin(((t - 287.9) / 600) * Math.PI), root: 287.9 },
+    ])("$name関数の根を 0.1 秒以内で求める", ({ fn, root }) => {
+      const result = finder.findRoot(fn, 0, 300, 0.1);
+
+      expect(result).not.toBeNull();
+      expect(Math.abs((result as number) - root)).toBeLessThanOrEqual(0.1);
+    });
+
+    it("二分法より少ない評価回数で収束する", () => {
+      let evaluations = 0;
+      const result = finder.findRoot(
+        (t) => {
+          evaluations++;
+          return Math.sin(((t - 287.9) / 600) * Math.PI);
+        },
+        0,
+        300,
+        0.1,
+      );
+
+      expect(Math.abs((result as number) - 287.9)).toBeLessThanOrEqual(0.1);
+      // 二分法では log2(300 / 0.1) ≈ 12 回の反復が必要
+      expect(evaluations).toBeLessThan(12);
+    });
+  });
+});
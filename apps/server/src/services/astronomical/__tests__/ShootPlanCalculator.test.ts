@@ -0,0 +1,146 @@
+import type { Location, ShootPlan, ShootPlanStepType } from "@skytree-photo-planner/types";
+import { CoordinateCalculator } from "../CoordinateCalculator";
+import { RefractionCalculator } from "../RefractionCalculator";
+import { ShootPlanCalculator } from "../ShootPlanCalculator";
+
+const calculator = new ShootPlanCalculator();
+const coordinateCalc = new CoordinateCalculator();
+const MINUTE = 60 * 1000;
+
+const createLocation = (name: string, latitude: number, longitude: number, elevation: number): Location => ({
+  id: 1,
+  name,
+  prefecture: "東京都",
+  latitude,
+  longitude,
+  elevation,
+  azimuthToSkytree: 0,
+  elevationToSkytree: 0,
+  distanceToSkytree: 0,
+  status: "active",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+});
+
+// SkytreeAlignmentCalculator（root_finding）で求めたダイヤモンドスカイツリーと、DiscContactCalculator で求めた重なりの時間帯
+const EDOGAWA = createLocation("江戸川河川敷（市川市）", 35.73, 139.905, 4);
+const SUNSET_DIAMOND = {
+  eventTime: new Date("2026-02-16T08:22:15.970Z"), // 17:22 JST
+  window: { start: new Date("2026-02-16T08:20:24.876Z"), end: new Date("2026-02-16T08:24:07.533Z") },
+};
+const BUNKYO = createLocation("文京シビックセンター", 35.7081, 139.7521, 105);
+const SUNRISE_DIAMOND = {
+  eventTime: new Date("2026-03-23T20:38:44.716Z"), // 3 月 24 日 5:38 JST
+  window: { start: new Date("2026-03-23T20:36:54.560Z"), end: new Date("2026-03-23T20:40:34.872Z") },
+};
+
+const stepTime = (plan: ShootPlan, type: ShootPlanStepType): Date => {
+  const step = plan.steps.find((candidate) => candidate.type === type);
+  expect(step).toBeDefined();
+  return step!.time;
+};
+
+const expectNear = (actual: Date, expected: string, toleranceMs: number) => {
+  expect(Math.abs(actual.getTime() - new Date(expected).getTime())).toBeLessThanOrEqual(toleranceMs);
+};
+
+describe("ShootPlanCalculator", () => {
+  describe("日の入りのダイヤモンドスカイツリー（ブルーアワーはイベントの後）", () => {
+    const plan = calculator.calculatePlan(
+      EDOGAWA,
+      { ...SUNSET_DIAMOND, travelMinutes: 60, setupMinutes: 30 },
+      RefractionCalculator.DEFAULT_SETTINGS,
+    );
+
+    it("重なり始めに設営を終え、設営時間・移動時間をさかのぼって到着・出発する", () => {
+      expect(stepTime(plan, "setup_complete")).toEqual(SUNSET_DIAMOND.window.start);
+      expect(stepTime(plan, "arrival")).toEqual(new Date("2026-02-16T07:50:24.876Z"));
+      expect(stepTime(plan, "departure")).toEqual(new Date("2026-02-16T06:50:24.876Z"));
+      expect(plan).toMatchObject({ locationId: 1, travelMinutes: 60, setupMinutes: 30 });
+    });
+
+    it("工程を時刻順に並べ、日の入り後のブルーアワー（17:38 JST 頃から約 10 分）を含める", () => {
+      expect(plan.steps.map((step) => step.type)).toEqual([
+        "departure",
+        "arrival",
+        "setup_complete",
+        "first_contact",
+        "alignment",
+        "last_contact",
+        "blue_hour_start",
+        "blue_hour_end",
+      ]);
+      expectNear(stepTime(plan, "blue_hour_start"), "2026-02-16T17:38:00+09:00", 3 * MINUTE);
+      expectNear(stepTime(plan, "blue_hour_end"), "2026-02-16T17:48:00+09:00", 3 * MINUTE);
+    });
+
+    it("重なる時刻の太陽はスカイツリーの方向の地平線付近にある", () => {
+      const alignment = plan.steps.find((step) => step.type === "alignment")!;
+
+      expect(alignment.sun!.azimuth).toBeCloseTo(coordinateCalc.calculateAzimuthToSkytree(EDOGAWA), 1);
+      expect(alignment.sun!.elevation).toBeGreaterThan(-1);
+      expect(alignment.sun!.elevation).toBeLessThan(1);
+      // 出発時（約 1.5 時間前）の太陽はまだ高い
+      expect(plan.steps[0].sun!.elevation).toBeGreaterThan(10);
+    });
+  });
+
+  describe("日の出のダイヤモンドスカイツリー（ブルーアワーはイベントの前）", () => {
+    const plan = calculator.calculatePlan(
+      BUNKYO,
+      { ...SUNRISE_DIAMOND, travelMinutes: 45, setupMinutes: 20 },
+      RefractionCalculator.DEFAULT_SETTINGS,
+    );
+
+    it("日の出前のブルーアワー（5:14 JST 頃）の開始に設営を終える", () => {
+      const blueHourStart = stepTime(plan, "blue_hour_start");
+
+      expectNear(blueHourStart, "2026-03-24T05:14:00+09:00", 3 * MINUTE);
+      expect(stepTime(plan, "setup_complete")).toEqual(blueHourStart);
+      expect(stepTime(plan, "arrival").getTime()).toBe(blueHourStart.getTime() - 20 * MINUTE);
+      expect(stepTime(plan, "departure").getTime()).toBe(blueHourStart.getTime() - 65 * MINUTE);
+    });
+
+    it("ブルーアワーを重なり始めより前に並べる", () => {
+      expect(plan.steps.map((step) => step.type)).toEqual([
+        "departure",
+        "arrival",
+        "setup_complete",
+        "blue_hour_start",
+        "blue_hour_end",
+        "first_contact",
+        "alignment",
+        "last_contact",
+      ]);
+    });
+  });
+
+  it("重なりの時間帯を指定しない場合はイベントの時刻に設営を終える", () => {
+    const plan = calculator.calculatePlan(EDOGAWA, {
+      eventTime: SUNSET_DIAMOND.eventTime,
+      travelMinutes: 0,
+      setupMinutes: 15,
+    });
+
+    expect(stepTime(plan, "setup_complete")).toEqual(SUNSET_DIAMOND.eventTime);
+    expect(stepTime(plan, "arrival").getTime()).toBe(SUNSET_DIAMOND.eventTime.getTime() - 15 * MINUTE);
+    expect(stepTime(plan, "departure")).toEqual(stepTime(plan, "arrival"));
+    expect(plan.steps.some((step) => step.type === "first_contact")).toBe(false);
+  });
+
+  it("ブルーアワーから 2 時間以上離れたイベント（深夜の月の入りなど）はブルーアワーを含めない", () => {
+    const plan = calculator.calculatePlan(EDOGAWA, {
+      eventTime: new Date("2026-02-16T15:30:00Z"), // 2 月 17 日 0:30 JST
+      travelMinutes: 30,
+      setupMinutes: 10,
+    });
+
+    expect(plan.steps.map((step) => step.type)).toEqual([
+      "departure",
+      "arrival",
+      "setup_complete",
+      "alignment",
+    ]);
+    expect(plan.steps.every((step) => step.sun!.elevation < 0)).toBe(true);
+  });
+});
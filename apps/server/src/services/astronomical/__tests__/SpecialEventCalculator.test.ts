@@ -0,0 +1,88 @@
+import type { SpecialEvent } from "@skytree-photo-planner/types";
+import { SpecialEventCalculator } from "../SpecialEventCalculator";
+
+const calculator = new SpecialEventCalculator();
+const FIVE_MINUTES = 5 * 60 * 1000;
+
+const findIn = (start: string, end: string, type: SpecialEvent["type"]) =>
+  calculator
+    .findSpecialEvents(new Date(start), new Date(end))
+    .filter((event) => event.type === type);
+
+const expectPeakNear = (event: SpecialEvent | undefined, peak: string) => {
+  expect(event).toBeDefined();
+  expect(Math.abs(event!.peakTime.getTime() - new Date(peak).getTime())).toBeLessThan(
+    FIVE_MINUTES,
+  );
+};
+
+describe("SpecialEventCalculator", () => {
+  // 食の最大の時刻は NASA の Five Millennium Canon の値（UTC）
+  describe("月食", () => {
+    it("東京で見える 2025 年 9 月 8 日・2026 年 3 月 3 日の皆既月食を返す", () => {
+      const eclipses = findIn("2025-09-01T00:00:00Z", "2026-03-31T00:00:00Z", "lunar_eclipse");
+
+      expect(eclipses).toHaveLength(2);
+      expectPeakNear(eclipses[0], "2025-09-07T18:11:00Z");
+      expectPeakNear(eclipses[1], "2026-03-03T11:33:00Z");
+      for (const eclipse of eclipses) {
+        expect(eclipse).toMatchObject({ kind: "total", obscuration: 1 });
+        expect(eclipse.startTime.getTime()).toBeLessThan(eclipse.peakTime.getTime());
+        expect(eclipse.endTime.getTime()).toBeGreaterThan(eclipse.peakTime.getTime());
+      }
+    });
+
+    it("東京で月が沈んでいる 2026 年 8 月 28 日の部分月食は返さない", () => {
+      expect(findIn("2026-08-01T00:00:00Z", "2026-09-30T00:00:00Z", "lunar_eclipse")).toEqual([]);
+    });
+  });
+
+  describe("日食", () => {
+    it("東京で見える 2030 年 6 月 1 日の部分日食を返す", () => {
+      const [eclipse] = findIn("2030-05-01T00:00:00Z", "2030-07-01T00:00:00Z", "solar_eclipse");
+
+      expectPeakNear(eclipse, "2030-06-01T08:08:00Z");
+      expect(eclipse.kind).toBe("partial");
+      expect(eclipse.obscuration).toBeGreaterThan(0.5);
+      expect(eclipse.obscuration).toBeLessThan(1);
+    });
+
+    it("東京で見えない 2026 年 2 月 17 日・8 月 12 日の日食は返さない", () => {
+      expect(findIn("2026-01-01T00:00:00Z", "2026-12-31T00:00:00Z", "solar_eclipse")).toEqual([]);
+    });
+  });
+
+  describe("スーパームーン", () => {
+    it("地心距離 360,000km 以下の満月のみ返す", () => {
+      const supermoons = findIn("2025-10-01T00:00:00Z", "2026-12-31T00:00:00Z", "supermoon");
+
+      // 2025 年 11 月 5 日（約 357,000km）が 2025 年、2026 年 12 月 24 日（約 356,700km）が 2026 年で最も近い満月
+      expect(supermoons.map((event) => event.peakTime.toISOString().slice(0, 10))).toEqual([
+        "2025-11-05",
+        "2025-12-04",
+        "2026-12-24",
+      ]);
+      for (const supermoon of supermoons) {
+        expect(supermoon.moonDistance).toBeLessThanOrEqual(
+          SpecialEventCalculator.SUPERMOON_MAX_DISTANCE_KM,
+        );
+      }
+      expect(supermoons[0].moonDistance).toBeGreaterThan(356000);
+      expect(supermoons[0].moonDistance).toBeLessThan(358000);
+    });
+  });
+
+  it("種類が異なる現象も時刻順に返す", () => {
+    const events = calculator.findSpecialEvents(
+      new Date("2030-05-01T00:00:00Z"),
+      new Date("2030-07-01T00:00:00Z"),
+    );
+
+    expect(events.map((event) => event.type)).toEqual([
+      "supermoon",
+      "solar_eclipse",
+      "lunar_eclipse",
+      "supermoon",
+    ]);
+  });
+});
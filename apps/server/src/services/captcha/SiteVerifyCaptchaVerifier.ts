@@ -0,0 +1,68 @@
+import type { CaptchaProvider } from "@skytree-photo-planner/types";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type { CaptchaVerifier } from "../interfaces/CaptchaVerifier";
+
+// 各サービスの検証エンドポイント（いずれも secret・response・remoteip を form で受け取る）
+const SITEVERIFY_URLS: Record<CaptchaProvider, string> = {
+  turnstile: "https://challenges.cloudflare.com/turnstile/v0/siteverify",
+  recaptcha: "https://www.google.com/recaptcha/api/siteverify",
+  hcaptcha: "https://api.hcaptcha.com/siteverify",
+};
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * siteverify 形式のキャプチャ検証
+ *
+ * Cloudflare Turnstile・Google reCAPTCHA（v2）・hCaptcha は同じ形式の検証 API を持つため、
+ * エンドポイントだけを切り替えて共通の実装で検証する
+ */
+export class SiteVerifyCaptchaVerifier implements CaptchaVerifier {
+  static readonly PROVIDERS = Object.keys(SITEVERIFY_URLS) as CaptchaProvider[];
+
+  private logger = getComponentLogger("SiteVerifyCaptchaVerifier");
+
+  constructor(
+    readonly name: CaptchaProvider,
+    readonly siteKey: string,
+    private readonly secretKey: string,
+  ) {}
+
+  async verify(token: string, remoteIp?: string): Promise<boolean> {
+    if (!token) {
+      return false;
+    }
+
+    const body = new URLSearchParams({ secret: this.secretKey, response: token });
+    if (remoteIp) {
+      body.set("remoteip", remoteIp);
+    }
+
+    try {
+      const response = await fetch(SITEVERIFY_URLS[this.name], {
+        method: "POST",
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        this.logger.warn("キャプチャ検証 API エラー", {
+          provider: this.name,
+          status: response.status,
+        });
+        return false;
+      }
+
+      const result = (await response.json()) as { success?: boolean; "error-codes"?: string[] };
+      if (!result.success) {
+        this.logger.info("キャプチャ検証失敗", {
+          provider: this.name,
+          errorCodes: result["error-codes"],
+        });
+      }
+      return result.success === true;
+    } catch (error) {
+      this.logger.error("キャプチャ検証 API 接続エラー", error, { provider: this.name });
+      return false;
+    }
+  }
+}
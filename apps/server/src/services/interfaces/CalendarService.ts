@@ -1,10 +1,23 @@
-import { SkytreeEvent, CalendarStats } from "@skytree-photo-planner/types";
+import {
+  SkytreeEvent,
+  CalendarStats,
+  AlignmentTarget,
+  AlignmentClassification,
+  SpecialEvent,
+} from "@skytree-photo-planner/types";
+
+// カレンダー取得時の条件
+export interface CalendarQueryOptions {
+  target?: AlignmentTarget; // 目標点（指定時はリアルタイム計算）
+  alignments?: AlignmentClassification[]; // 重なり方で絞り込み（未指定なら全件）
+}
 
 export interface CalendarService {
   // 月間カレンダーデータを取得
   getMonthlyCalendar(
     year: number,
     month: number,
+    options?: CalendarQueryOptions,
   ): Promise<{
     year: number;
     month: number;
@@ -12,11 +25,15 @@ export interface CalendarService {
       date: string;
       type: string;
       events: SkytreeEvent[];
+      specialEvents: SpecialEvent[]; // その日に最大となる日食・月食・スーパームーン
     }>;
   }>;
 
   // 日別イベント取得
-  getDayEvents(date: string): Promise<{ events: SkytreeEvent[] }>;
+  getDayEvents(
+    date: string,
+    options?: CalendarQueryOptions,
+  ): Promise<{ events: SkytreeEvent[] }>;
 
   // 今後のイベント取得
   getUpcomingEvents(limit?: number): Promise<SkytreeEvent[]>;
@@ -25,6 +42,14 @@ export interface CalendarService {
   getLocationYearlyEvents(
     locationId: number,
     year: number,
+    options?: CalendarQueryOptions,
+  ): Promise<SkytreeEvent[]>;
+
+  // 期間内のイベント取得（事前計算済みのイベントのみ）
+  getEventsInRange(
+    startTime: Date,
+    endTime: Date,
+    options?: { locationId?: number; alignments?: AlignmentClassification[] },
   ): Promise<SkytreeEvent[]>;
 
   // カレンダー統計情報取得
@@ -0,0 +1,24 @@
+import type { CaptchaProvider } from "@skytree-photo-planner/types";
+
+/**
+ * キャプチャ検証インターフェース
+ * 公開フォーム（撮影地点の追加リクエスト）で送られたトークンを検証する
+ * Turnstile・reCAPTCHA・hCaptcha など、サービスを差し替え可能にする
+ */
+export interface CaptchaVerifier {
+  /**
+   * サービス名（クライアントのウィジェット選択・ログ用）
+   */
+  readonly name: CaptchaProvider;
+
+  /**
+   * クライアントのウィジェットに渡すサイトキー（公開してよい値）
+   */
+  readonly siteKey: string;
+
+  /**
+   * トークンを検証
+   * 検証サービスに接続できない場合も false を返す
+   */
+  verify(token: string, remoteIp?: string): Promise<boolean>;
+}
@@ -0,0 +1,19 @@
+/**
+ * 標高データ提供インターフェース
+ * 見通し判定で撮影地点からスカイツリーまでの経路上の標高を取得する
+ * DEM タイルやテスト用の固定ファイルなど、データソースを差し替え可能にする
+ */
+export interface ElevationProfileProvider {
+  /**
+   * プロバイダー名（ログ・診断用）
+   */
+  readonly name: string;
+
+  /**
+   * 指定した地点群の標高（m）を取得
+   * データが存在しない地点は null を返す
+   */
+  getElevations(
+    points: Array<{ latitude: number; longitude: number }>,
+  ): Promise<Array<number | null>>;
+}
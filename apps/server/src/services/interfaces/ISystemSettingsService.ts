@@ -1,3 +1,10 @@
+import type {
+  LocationDuplicateRules,
+  PearlGatingRules,
+  RefractionSettings,
+  TerrainOcclusionSettings,
+} from "@skytree-photo-planner/types";
+
 /**
  * システム設定サービスのインターフェース
  * 本格版とダミー版の両方で共通利用
@@ -16,5 +23,13 @@ export interface ISystemSettingsService {
     maxActiveJobs: number;
   }>;
   
+  getRefractionSettings(): Promise<RefractionSettings>;
+
+  getPearlGatingRules(): Promise<PearlGatingRules>;
+
+  getLocationDuplicateRules(): Promise<LocationDuplicateRules>;
+
+  getTerrainOcclusionSettings(): Promise<TerrainOcclusionSettings>;
+
   updateSetting(key: string, value: string | number | boolean, type: string): Promise<void>;
 }
\ No newline at end of file
@@ -0,0 +1,14 @@
+import type { PearlRejection } from "@skytree-photo-planner/types";
+
+/**
+ * パールスカイツリー除外候補の記録インターフェース
+ * 整列計算で採否判定により除外した候補を、管理画面で理由を確認できるよう記録する
+ */
+export interface PearlRejectionRecorder {
+  /**
+   * 除外候補を記録
+   */
+  record(
+    rejection: Omit<PearlRejection, "id" | "locationName" | "createdAt">,
+  ): Promise<void>;
+}
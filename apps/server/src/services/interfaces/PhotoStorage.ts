@@ -0,0 +1,32 @@
+/**
+ * 写真ファイル保存インターフェース
+ * 撮影地点の参考写真（元画像・サムネイル）の保存先を差し替え可能にする
+ * キーは "locations/{地点 ID}/{ファイル名}" 形式の相対パス
+ */
+export interface PhotoStorage {
+  /**
+   * ストレージ名（ログ・診断用）
+   */
+  readonly name: string;
+
+  /**
+   * ファイルを保存（同じキーがある場合は上書き）
+   */
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * ファイルを読み込む
+   * 存在しない場合は null を返す
+   */
+  read(key: string): Promise<Buffer | null>;
+
+  /**
+   * ファイルを削除（存在しない場合は何もしない）
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * クライアントから参照する URL
+   */
+  getUrl(key: string): string;
+}
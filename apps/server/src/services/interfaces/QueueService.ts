@@ -1,4 +1,20 @@
+import type {
+  MapComparison,
+  MapSearchJobHandle,
+  MapSearchJobStatus,
+  RegionRecommendation,
+  SkytreeEvent,
+} from "@skytree-photo-planner/types";
 import { EventService } from "./EventService";
+import type {
+  MapCompareParams,
+  MapSearchParams,
+  MapSearchService,
+} from "../MapSearchService";
+import type {
+  RegionRecommendationParams,
+  RegionRecommendationService,
+} from "../RegionRecommendationService";
 
 /**
  * QueueService インターフェース
@@ -10,6 +26,12 @@ export interface QueueService {
    */
   setEventService(eventService: EventService): void;
 
+  /**
+   * MapSearchService を後から注入（ワーカーで地図検索ジョブを処理するため）
+   */
+  setMapSearchService(mapSearchService: MapSearchService): void;
+  setRegionRecommendationService(regionRecommendationService: RegionRecommendationService): void;
+
   /**
    * SystemSettingsService を後から注入（循環依存対策）
    */
@@ -34,6 +56,78 @@ export interface QueueService {
     priority?: "low" | "normal" | "high",
   ): Promise<string | null>;
 
+  /**
+   * 地図検索ジョブを登録（キューが無効の場合は null）
+   */
+  scheduleMapSearch(params: MapSearchParams): Promise<MapSearchJobHandle | null>;
+
+  /**
+   * 比較検索ジョブを登録（キューが無効の場合は null）
+   */
+  scheduleMapCompare(params: MapCompareParams): Promise<MapSearchJobHandle | null>;
+
+  /**
+   * 範囲内のおすすめ地点ジョブを登録（キューが無効の場合は null）
+   */
+  scheduleRegionRecommendation(
+    params: RegionRecommendationParams,
+  ): Promise<MapSearchJobHandle | null>;
+
+  /**
+   * 地図検索ジョブのトークンを検証（ジョブ登録時に返したトークンと一致するか）
+   */
+  verifyMapSearchToken(jobId: string, token: string | undefined): Promise<boolean>;
+
+  /**
+   * 地図検索ジョブの状態と進捗を取得
+   */
+  getMapSearchJobStatus(jobId: string): Promise<MapSearchJobStatus | null>;
+
+  /**
+   * 完了した地図検索ジョブの結果をページ単位で取得
+   */
+  getMapSearchResults(
+    jobId: string,
+    page: number,
+    limit: number,
+  ): Promise<{
+    events: SkytreeEvent[];
+    searchParams: Omit<MapSearchParams, "startDate" | "endDate"> & {
+      startDate: string;
+      endDate: string;
+    };
+    searchInterval: number;
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  } | null>;
+
+  /**
+   * 完了した比較検索ジョブの比較表を行単位のページで取得
+   */
+  getMapCompareResults(
+    jobId: string,
+    page: number,
+    limit: number,
+  ): Promise<{
+    comparison: MapComparison;
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  } | null>;
+
+  /**
+   * 完了したおすすめ地点ジョブの結果を取得
+   */
+  getRegionRecommendationResults(jobId: string): Promise<RegionRecommendation | null>;
+
+  /**
+   * 地図検索ジョブを中断
+   */
+  cancelMapSearch(jobId: string): Promise<boolean>;
+
   /**
    * キューの統計情報を取得
    */
@@ -0,0 +1,63 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type { PhotoStorage } from "../interfaces/PhotoStorage";
+
+/**
+ * ローカルファイルシステムへの写真保存
+ *
+ * {baseDir}/{キー} に保存し、ファイルは API サーバーが publicPath 以下で配信する
+ * キーがディレクトリ外を指す場合（".." を含むなど）は読み書きしない
+ */
+export class LocalPhotoStorage implements PhotoStorage {
+  readonly name = "local";
+  private logger = getComponentLogger("LocalPhotoStorage");
+  private readonly baseDir: string;
+
+  constructor(
+    baseDir: string,
+    private readonly publicPath: string = "/api/photos",
+  ) {
+    this.baseDir = path.resolve(baseDir);
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolvePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.logger.warn("写真ファイルの削除に失敗", { key, error });
+        throw error;
+      }
+    }
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicPath}/${key}`;
+  }
+
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.baseDir, key);
+    if (!filePath.startsWith(this.baseDir + path.sep)) {
+      throw new Error(`不正な写真キー: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,62 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { LocalPhotoStorage } from "../LocalPhotoStorage";
+
+describe("LocalPhotoStorage", () => {
+  let rootDir: string;
+  let storage: LocalPhotoStorage;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "photo-storage-"));
+    storage = new LocalPhotoStorage(path.join(rootDir, "photos"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("キーのディレクトリを作成して保存し、読み込み・削除できる", async () => {
+    const key = "locations/1/photo.jpg";
+
+    await storage.save(key, Buffer.from("image"));
+
+    expect(await storage.read(key)).toEqual(Buffer.from("image"));
+    expect(storage.getUrl(key)).toBe("/api/photos/locations/1/photo.jpg");
+
+    await storage.delete(key);
+
+    expect(await storage.read(key)).toBeNull();
+  });
+
+  it("存在しないファイルの読み込みは null を返し、削除は何もしない", async () => {
+    expect(await storage.read("locations/1/missing.jpg")).toBeNull();
+    await expect(storage.delete("locations/1/missing.jpg")).resolves.toBeUndefined();
+  });
+
+  describe("保存先ディレクトリの外を指すキー", () => {
+    const secret = () => path.join(rootDir, "secret.txt");
+
+    beforeEach(async () => {
+      await fs.writeFile(secret(), "secret");
+    });
+
+    it.each(["../secret.txt", "locations/../../secret.txt", "/etc/passwd", ""])(
+      "%s は読み書き・削除しない",
+      async (key) => {
+        await expect(storage.read(key)).rejects.toThrow("不正な写真キー");
+        await expect(storage.save(key, Buffer.from("overwrite"))).rejects.toThrow("不正な写真キー");
+        await expect(storage.delete(key)).rejects.toThrow("不正な写真キー");
+
+        expect(await fs.readFile(secret(), "utf8")).toBe("secret");
+      },
+    );
+
+    it("保存先と名前が前方一致する隣のディレクトリも指せない", async () => {
+      await fs.mkdir(path.join(rootDir, "photos-other"));
+      await fs.writeFile(path.join(rootDir, "photos-other", "a.jpg"), "other");
+
+      await expect(storage.read("../photos-other/a.jpg")).rejects.toThrow("不正な写真キー");
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { promises as fs } from "fs";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type { ElevationProfileProvider } from "../interfaces/ElevationProfileProvider";
+
+/**
+ * 標高サンプルファイルの形式
+ */
+interface ElevationSampleFile {
+  defaultElevation?: number; // サンプル範囲外の標高（m）
+  searchRadius?: number; // 最近傍サンプルの探索半径（m）
+  samples: Array<{ latitude: number; longitude: number; elevation: number }>;
+}
+
+/**
+ * ファイルベースの標高プロバイダー（テスト・検証用）
+ *
+ * JSON ファイルに記述した標高サンプルから最近傍の値を返す
+ * 堤防や尾根など、特定の障害物を再現した見通し判定の検証に使用する
+ */
+export class FileElevationProfileProvider implements ElevationProfileProvider {
+  readonly name = "file";
+  private logger = getComponentLogger("FileElevationProfileProvider");
+  private data: ElevationSampleFile | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async getElevations(
+    points: Array<{ latitude: number; longitude: number }>,
+  ): Promise<Array<number | null>> {
+    const data = await this.load();
+    const searchRadius = data.searchRadius ?? 100;
+    const defaultElevation = data.defaultElevation ?? null;
+
+    return points.map((point) => {
+      let nearest: { distance: number; elevation: number } | null = null;
+
+      for (const sample of data.samples) {
+        const distance = this.approximateDistance(point, sample);
+        if (distance <= searchRadius && (!nearest || distance < nearest.distance)) {
+          nearest = { distance, elevation: sample.elevation };
+        }
+      }
+
+      return nearest ? nearest.elevation : defaultElevation;
+    });
+  }
+
+  private async load(): Promise<ElevationSampleFile> {
+    if (this.data) {
+      return this.data;
+    }
+
+    try {
+      const content = await fs.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(content) as ElevationSampleFile;
+      this.data = {
+        ...parsed,
+        samples: Array.isArray(parsed.samples) ? parsed.samples : [],
+      };
+      this.logger.info("標高サンプルファイル読み込み完了", {
+        filePath: this.filePath,
+        sampleCount: this.data.samples.length,
+      });
+    } catch (error) {
+      this.logger.error("標高サンプルファイル読み込みエラー", error, {
+        filePath: this.filePath,
+      });
+      this.data = { samples: [] };
+    }
+
+    return this.data;
+  }
+
+  /**
+   * 近距離用の簡易距離計算（正距円筒近似、m）
+   */
+  private approximateDistance(
+    a: { latitude: number; longitude: number },
+    b: { latitude: number; longitude: number },
+  ): number {
+    const meanLat = ((a.latitude + b.latitude) / 2) * (Math.PI / 180);
+    const dx = (b.longitude - a.longitude) * Math.cos(meanLat) * 111320;
+    const dy = (b.latitude - a.latitude) * 110540;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
@@ -0,0 +1,138 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getComponentLogger } from "@skytree-photo-planner/utils";
+import type { ElevationProfileProvider } from "../interfaces/ElevationProfileProvider";
+
+const TILE_SIZE = 256;
+
+/**
+ * ローカル DEM タイル読み込みプロバイダー
+ *
+ * 国土地理院の標高タイル（テキスト形式）をローカルディレクトリから読み込む
+ * ディレクトリ構成: {tileDir}/{z}/{x}/{y}.txt
+ * 各タイルは 256×256 のカンマ区切り標高値（m）で、欠測値は "e"
+ *
+ * DEM5A（z=15）・DEM10B（z=14）のほか、建物高を含む DSM タイルも同じ形式で利用可能
+ */
+export class LocalDemTileProvider implements ElevationProfileProvider {
+  readonly name = "local-dem-tile";
+  private logger = getComponentLogger("LocalDemTileProvider");
+  private tileCache = new Map<string, Float32Array | null>();
+  private readonly maxCachedTiles: number;
+
+  constructor(
+    private readonly tileDir: string,
+    private readonly zoom: number = 15,
+    maxCachedTiles: number = 64,
+  ) {
+    this.maxCachedTiles = maxCachedTiles;
+  }
+
+  async getElevations(
+    points: Array<{ latitude: number; longitude: number }>,
+  ): Promise<Array<number | null>> {
+    const results: Array<number | null> = [];
+
+    for (const point of points) {
+      const { tileX, tileY, pixelX, pixelY } = this.toTilePixel(
+        point.latitude,
+        point.longitude,
+      );
+      const tile = await this.loadTile(tileX, tileY);
+      if (!tile) {
+        results.push(null);
+        continue;
+      }
+
+      const value = tile[pixelY * TILE_SIZE + pixelX];
+      results.push(Number.isNaN(value) ? null : value);
+    }
+
+    return results;
+  }
+
+  /**
+   * 緯度経度をタイル座標・タイル内ピクセル座標に変換（Web メルカトル）
+   */
+  private toTilePixel(
+    latitude: number,
+    longitude: number,
+  ): { tileX: number; tileY: number; pixelX: number; pixelY: number } {
+    const scale = Math.pow(2, this.zoom) * TILE_SIZE;
+    const latRad = (latitude * Math.PI) / 180;
+
+    const worldX = ((longitude + 180) / 360) * scale;
+    const worldY =
+      ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) *
+      scale;
+
+    const tileX = Math.floor(worldX / TILE_SIZE);
+    const tileY = Math.floor(worldY / TILE_SIZE);
+
+    return {
+      tileX,
+      tileY,
+      pixelX: Math.min(TILE_SIZE - 1, Math.floor(worldX - tileX * TILE_SIZE)),
+      pixelY: Math.min(TILE_SIZE - 1, Math.floor(worldY - tileY * TILE_SIZE)),
+    };
+  }
+
+  /**
+   * タイルを読み込み（キャッシュ付き）
+   */
+  private async loadTile(tileX: number, tileY: number): Promise<Float32Array | null> {
+    const key = `${tileX}/${tileY}`;
+    if (this.tileCache.has(key)) {
+      return this.tileCache.get(key) ?? null;
+    }
+
+    const filePath = path.join(
+      this.tileDir,
+      String(this.zoom),
+      String(tileX),
+      `${tileY}.txt`,
+    );
+
+    let tile: Float32Array | null = null;
+    try {
+      const content = await fs.readFile(filePath, "utf8");
+      tile = this.parseTile(content);
+    } catch (error) {
+      // タイルが存在しない範囲（海上など）は欠測扱い
+      this.logger.debug("DEM タイル読み込み失敗", {
+        filePath,
+        error: error as Error,
+      });
+    }
+
+    if (this.tileCache.size >= this.maxCachedTiles) {
+      const oldestKey = this.tileCache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.tileCache.delete(oldestKey);
+      }
+    }
+    this.tileCache.set(key, tile);
+
+    return tile;
+  }
+
+  /**
+   * テキスト形式のタイルをパース
+   */
+  private parseTile(content: string): Float32Array {
+    const tile = new Float32Array(TILE_SIZE * TILE_SIZE).fill(NaN);
+    const rows = content.trim().split(/\r?\n/);
+
+    for (let y = 0; y < Math.min(rows.length, TILE_SIZE); y++) {
+      const values = rows[y].split(",");
+      for (let x = 0; x < Math.min(values.length, TILE_SIZE); x++) {
+        const value = values[x].trim();
+        if (value !== "e" && value !== "") {
+          tile[y * TILE_SIZE + x] = parseFloat(value);
+        }
+      }
+    }
+
+    return tile;
+  }
+}
@@ -0,0 +1,2 @@
+// テスト中はログを抑制する（LOG_LEVEL を指定した場合はそのレベルで出力）
+process.env.LOG_LEVEL ??= "fatal";
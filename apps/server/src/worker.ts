@@ -92,6 +92,10 @@ async function main() {
     const eventService = diContainer.resolve("EventService");
     logger.info("EventService 解決完了", { hasEventService: !!eventService });
 
+    // MapSearchService・RegionRecommendationService を解決して地図検索ジョブの処理に備える
+    diContainer.resolve("MapSearchService");
+    diContainer.resolve("RegionRecommendationService");
+
     // QueueService を取得（この時点で EventService が注入済み）
     queueService = diContainer.resolve<QueueService>("QueueService");
 
@@ -39,6 +39,12 @@ export interface BaseSkytreeEvent {
   accuracy?: "perfect" | "excellent" | "good" | "fair";
   moonPhase?: number;
   moonIllumination?: number;
+  lineOfSight?: LineOfSightResult;
+  refractionModel?: RefractionModel;
+  contactWindow?: DiscContactWindow;
+  target?: AlignmentTarget;
+  alignment?: AlignmentGeometry;
+  specialEvents?: SpecialEventType[]; // 同時に起こる日食・月食・スーパームーン
 }
 
 /**
@@ -53,16 +59,432 @@ export interface SkytreeEvent extends BaseSkytreeEvent {
  */
 export type CalculationAccuracy = "perfect" | "excellent" | "good" | "fair";
 
+/**
+ * 特別な天文現象のタイプ
+ * - solar_eclipse: 日食
+ * - lunar_eclipse: 月食
+ * - supermoon: スーパームーン（地球に近い満月）
+ */
+export type SpecialEventType = "solar_eclipse" | "lunar_eclipse" | "supermoon";
+
 /**
  * イベントタイプ
  */
-export type EventType = "diamond" | "pearl";
+export type EventType = "diamond" | "pearl" | SpecialEventType;
+
+/**
+ * 東京（スカイツリー）から見える特別な天文現象
+ */
+export interface SpecialEvent {
+  id: string;
+  type: SpecialEventType;
+  peakTime: Date; // 食の最大・満月の時刻
+  startTime: Date; // 食の始まり（スーパームーンは peakTime と同じ）
+  endTime: Date; // 食の終わり（スーパームーンは peakTime と同じ）
+  kind?: "penumbral" | "partial" | "annular" | "total"; // 食の種類
+  obscuration?: number; // 食分（太陽・月の面積が隠される割合、0-1）
+  moonDistance?: number; // スーパームーンの地心距離（km）
+}
 
 /**
  * イベントサブタイプ
  */
 export type EventSubType = "sunrise" | "sunset" | "rising" | "setting";
 
+/**
+ * 地形・建物によるスカイツリーの遮蔽状態
+ * - clear: 基部から頂部まで見通せる
+ * - partial: 下部が隠れ、上部のみ見える
+ * - blocked: 頂部まで隠れて見えない
+ */
+export type OcclusionStatus = "clear" | "partial" | "blocked";
+
+/**
+ * 撮影地点からスカイツリーへの見通し判定結果
+ */
+export interface LineOfSightResult {
+  status: OcclusionStatus;
+  visibleHeight: number; // 見えているスカイツリーの高さ（m、頂部から下方向）
+  obstructionDistance?: number; // 最も視線を遮る地点までの距離（m）
+  obstructionElevation?: number; // 最も視線を遮る地点の標高（m）
+}
+
+/**
+ * 見通し判定（地形・建物による遮蔽）の設定
+ */
+export interface TerrainOcclusionSettings {
+  enabled: boolean; // 見通し判定を行うか
+  sampleSpacing: number; // 経路上の標高サンプル間隔（m）
+  towerClearance: number; // サンプリングから除外するスカイツリー敷地の半径（m）
+}
+
+/**
+ * 太陽・月の円盤がスカイツリーのアンテナに接している時間帯
+ * 見かけの視半径から、縁が接する瞬間（第 1 接触）・中心が重なる瞬間・縁が離れる瞬間（第 2 接触）を求める
+ */
+export interface DiscContactWindow {
+  firstContact: Date;
+  center: Date;
+  lastContact: Date;
+  durationSeconds: number; // 第 1 接触から第 2 接触までの秒数
+  angularRadius: number; // 天体の見かけの視半径（度）
+}
+
+/**
+ * 天体とスカイツリーの重なり方の分類
+ * - centered: 円盤の中心付近に頂部がある
+ * - touching: 頂部が円盤にかかっている
+ * - crossing_shaft: 円盤が頂部より下で塔体に重なる
+ * - beside: 円盤が塔から離れて通過する
+ */
+export type AlignmentClassification =
+  | "centered"
+  | "touching"
+  | "crossing_shaft"
+  | "beside";
+
+/**
+ * 整列時の天体と塔の幾何学的な位置関係
+ */
+export interface AlignmentGeometry {
+  classification: AlignmentClassification;
+  crossingHeight?: number; // crossing_shaft の場合、円盤の中心が重なる塔の高さ（m）
+  offsetDiameters?: number; // beside の場合、円盤の縁から塔までの距離（視直径単位）
+}
+
+/**
+ * 大気屈折補正モデル
+ * - none: 補正なし（幾何学的な高度）
+ * - standard: 標準大気（astronomy-engine の標準補正、地上視線は係数 0.13）
+ * - bennett: Bennett の式（視高度から屈折量を求める）
+ * - saemundsson: Saemundsson の式（気温・気圧で補正）
+ */
+export type RefractionModel = "none" | "standard" | "bennett" | "saemundsson";
+
+/**
+ * 大気屈折補正の設定
+ */
+export interface RefractionSettings {
+  model: RefractionModel;
+  temperature: number; // 気温（℃）
+  pressure: number; // 気圧（hPa）
+}
+
+/**
+ * 整列判定の目標点（スカイツリーのどの高さに天体を重ねるか）
+ */
+export interface AlignmentTarget {
+  id: string; // tip, tembo_deck などの識別子（任意高度の場合は custom）
+  name: string; // 表示名
+  height: number; // スカイツリー地上からの高さ（m）
+}
+
+/**
+ * 標準の目標点一覧
+ * システム設定 alignment_targets が未設定の場合に使用
+ */
+export const DEFAULT_ALIGNMENT_TARGETS: readonly AlignmentTarget[] = [
+  { id: "tip", name: "頂部", height: 634 },
+  { id: "gain_tower", name: "ゲイン塔", height: 500 },
+  { id: "tembo_galleria", name: "天望回廊", height: 450 },
+  { id: "tembo_deck", name: "天望デッキ", height: 350 },
+];
+
+/**
+ * パールスカイツリー候補を除外した理由
+ * - low_illumination: 月の照度が最小照度に満たない
+ * - bright_sky: 太陽高度が高く空が明るすぎる
+ * - far_from_full: 満月からの月齢差が大きすぎる
+ */
+export type PearlRejectionReason =
+  | "low_illumination"
+  | "bright_sky"
+  | "far_from_full";
+
+/**
+ * パールスカイツリーの採否判定ルール
+ */
+export interface PearlGatingRules {
+  minIllumination: number; // 最小照度（0-1）
+  maxSunElevation: number; // 許容する太陽高度の上限（度）
+  maxDaysFromFull: number; // 満月からの月齢差の上限（日）
+}
+
+/**
+ * 採否判定で除外されたパールスカイツリー候補
+ */
+export interface PearlRejection {
+  id: number;
+  locationId: number;
+  locationName?: string;
+  eventTime: Date;
+  subType: "rising" | "setting";
+  azimuth: number;
+  moonIllumination: number;
+  daysFromFull: number; // 満月からの月齢差（日）
+  sunElevation: number; // 候補時刻の太陽高度（度）
+  reasons: PearlRejectionReason[];
+  createdAt: Date;
+}
+
+/**
+ * 1 日のタイムライン上の時間帯の種類
+ * - astronomical_twilight: 天文薄明（太陽高度 -18°〜-12°）
+ * - nautical_twilight: 航海薄明（-12°〜-6°）
+ * - civil_twilight: 市民薄明（-6°〜0°）
+ * - blue_hour: ブルーアワー（-6°〜-4°）
+ * - golden_hour: ゴールデンアワー（-4°〜+6°）
+ */
+export type TimelinePhaseType =
+  | "astronomical_twilight"
+  | "nautical_twilight"
+  | "civil_twilight"
+  | "blue_hour"
+  | "golden_hour";
+
+/**
+ * タイムライン上の時間帯（朝・夕それぞれ）
+ */
+export interface TimelinePhase {
+  type: TimelinePhaseType;
+  period: "morning" | "evening";
+  start: Date;
+  end: Date;
+}
+
+/**
+ * 太陽・月がスカイツリー方向（方位角）を通過する時刻
+ */
+export interface TimelineCrossing {
+  body: "sun" | "moon";
+  time: Date;
+  elevation: number; // 通過時の天体の高度（度）
+}
+
+/**
+ * 撮影地点・日付ごとの 1 日のタイムライン
+ * 出没がない日（白夜・極夜や月の出がない日）は該当する時刻を省略する
+ */
+export interface DayTimeline {
+  date: string; // YYYY-MM-DD（JST）
+  locationId: number;
+  sun: { rise?: Date; set?: Date };
+  moon: { rise?: Date; set?: Date };
+  phases: TimelinePhase[];
+  skytreeCrossings: TimelineCrossing[];
+}
+
+/**
+ * 天体の軌跡の 1 サンプル
+ */
+export interface SkyTrackSample {
+  time: Date;
+  azimuth: number;
+  elevation: number;
+}
+
+/**
+ * 整列時刻の前後の太陽・月の軌跡（スカイツリーとの重なりのプレビュー用）
+ */
+export interface SkyTrack {
+  locationId: number;
+  body: "sun" | "moon";
+  centerTime: Date;
+  angularRadius: number; // 中心時刻の視半径（度）
+  samples: SkyTrackSample[];
+}
+
+/**
+ * 撮影計画の工程
+ * - departure / arrival: 出発・到着（移動時間から逆算）
+ * - setup_complete: 機材の設営完了（撮影開始の時刻）
+ * - blue_hour_start / blue_hour_end: イベントに近い側のブルーアワー
+ * - first_contact / alignment / last_contact: 重なり始め・頂部に重なる時刻・重なり終わり
+ */
+export type ShootPlanStepType =
+  | "departure"
+  | "arrival"
+  | "setup_complete"
+  | "blue_hour_start"
+  | "blue_hour_end"
+  | "first_contact"
+  | "alignment"
+  | "last_contact";
+
+/**
+ * 撮影地点から見た天体の位置（度）
+ */
+export interface SkyPosition {
+  azimuth: number;
+  elevation: number;
+}
+
+/**
+ * 撮影計画の 1 工程と、その時刻の太陽・月の位置
+ */
+export interface ShootPlanStep {
+  type: ShootPlanStepType;
+  time: Date;
+  sun?: SkyPosition;
+  moon?: SkyPosition;
+}
+
+/**
+ * イベントの時刻から移動・設営の時間を逆算した撮影計画
+ */
+export interface ShootPlan {
+  locationId: number;
+  eventTime: Date;
+  travelMinutes: number;
+  setupMinutes: number;
+  steps: ShootPlanStep[]; // 時刻順
+}
+
+/**
+ * 整列線（指定日に天体がスカイツリー頂部に重なる撮影地点の軌跡）上の 1 点
+ */
+export interface AlignmentLinePoint {
+  time: Date; // この地点で天体が頂部に重なる時刻
+  latitude: number;
+  longitude: number;
+  distance: number; // スカイツリーからの距離（m）
+  bodyAzimuth: number; // 天体の方位角（撮影地点からスカイツリーを見る方向と同じ）
+  bodyElevation: number; // 天体の高度（度）
+  requiredObserverHeight: number; // 頂部に重ねるために必要な観測者の海抜高度（m）。0 は海抜 0m（アイレベルのみ）
+}
+
+/**
+ * 指定日・イベント種別の整列線
+ */
+export interface AlignmentLine {
+  date: string; // YYYY-MM-DD（JST）
+  type: "diamond" | "pearl";
+  startTime: Date;
+  endTime: Date;
+  stepMinutes: number;
+  points: AlignmentLinePoint[];
+}
+
+/**
+ * 地図検索ジョブの状態
+ */
+export type MapSearchJobState =
+  | "waiting"
+  | "active"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+/**
+ * 地図検索ジョブの進捗（日付ループの処理済み日数）
+ */
+export interface MapSearchJobProgress {
+  processedDays: number;
+  totalDays: number;
+  eventsFound: number; // 絞り込み前のイベント数
+}
+
+/**
+ * 地図検索ジョブの状態と進捗
+ * kind は単一地点の検索（search）、複数地点の比較（compare）、範囲内のおすすめ地点（region）のいずれか
+ */
+export interface MapSearchJobStatus {
+  jobId: string;
+  kind: "search" | "compare" | "region";
+  state: MapSearchJobState;
+  progress: MapSearchJobProgress;
+  totalEvents?: number; // 完了時の結果件数（比較の場合はイベントのある日数、範囲の場合は候補地点数）
+  error?: string; // 失敗時のメッセージ
+}
+
+/**
+ * 登録した地図検索ジョブ
+ * token は登録時のレスポンスでのみ返り、進捗・結果の取得と中断に必要
+ */
+export interface MapSearchJobHandle {
+  jobId: string;
+  token: string;
+}
+
+/**
+ * 比較検索の候補地点
+ */
+export interface MapComparisonPoint {
+  id: string; // p1, p2, ...（リクエスト順）
+  label: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+}
+
+/**
+ * 比較表の 1 セル（日付 × 地点）
+ */
+export interface MapComparisonCell {
+  pointId: string;
+  eventCount: number;
+  bestEvent?: SkytreeEvent; // qualityScore が最も高いイベント
+}
+
+/**
+ * 比較表の 1 行（いずれかの地点でイベントがある日のみ）
+ */
+export interface MapComparisonRow {
+  date: string; // YYYY-MM-DD（JST）
+  cells: MapComparisonCell[]; // points と同じ順
+}
+
+/**
+ * 地点ごとの集計
+ */
+export interface MapComparisonPointSummary {
+  pointId: string;
+  eventDays: number; // イベントがある日数
+  totalEvents: number;
+  bestQualityScore?: number;
+  averageQualityScore?: number; // 各日の最良イベントの平均
+}
+
+/**
+ * 複数地点の比較検索の結果（日付 × 地点の比較表）
+ */
+export interface MapComparison {
+  scene: "all" | "diamond" | "pearl";
+  startDate: Date;
+  endDate: Date;
+  points: MapComparisonPoint[];
+  rows: MapComparisonRow[];
+  summaries: MapComparisonPointSummary[];
+}
+
+/**
+ * 範囲内のおすすめ地点の候補（格子点）
+ */
+export interface RegionCandidate {
+  rank: number; // 1 から
+  latitude: number;
+  longitude: number;
+  distance: number; // スカイツリーまでの距離（m）
+  azimuth: number; // 候補地点からスカイツリーへの方位角（度）
+  apparentHeight: number; // スカイツリーの見かけの高さ（度）
+  eventCount: number;
+  eventDays: number;
+  averageQualityScore?: number; // イベントの品質スコアの平均
+  bestEvent?: SkytreeEvent;
+  score: number; // 総合スコア（0-100）
+}
+
+/**
+ * 範囲内のおすすめ地点（総合スコアの高い順）
+ */
+export interface RegionRecommendation {
+  scene: "all" | "diamond" | "pearl";
+  startDate: Date;
+  endDate: Date;
+  polygon: Array<{ latitude: number; longitude: number }>;
+  gridSpacing: number; // 格子の間隔（m）
+  candidates: RegionCandidate[];
+}
 
 /**
  * 東京スカイツリーの座標定数
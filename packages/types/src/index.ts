@@ -1,5 +1,27 @@
 // 共通型定義をインポート
 export * from "./common";
+import type {
+  AlignmentGeometry,
+  AlignmentLine,
+  AlignmentLinePoint,
+  AlignmentTarget,
+  DiscContactWindow,
+  MapComparison,
+  MapComparisonCell,
+  MapComparisonRow,
+  RegionCandidate,
+  RegionRecommendation,
+  LineOfSightResult,
+  RefractionModel,
+  ShootPlan,
+  ShootPlanStep,
+  SkyTrack,
+  SkyTrackSample,
+  SpecialEvent,
+  SpecialEventType,
+  TimelineCrossing,
+  TimelinePhase,
+} from "./common";
 
 // 明示的なエクスポート（IDE の補完用）
 export { SKYTREE_COORDINATES } from "./common";
@@ -43,6 +65,12 @@ export interface SkytreeEvent {
   accuracy?: "perfect" | "excellent" | "good" | "fair";
   moonPhase?: number;
   moonIllumination?: number;
+  lineOfSight?: LineOfSightResult;
+  refractionModel?: RefractionModel;
+  contactWindow?: DiscContactWindow;
+  target?: AlignmentTarget;
+  alignment?: AlignmentGeometry;
+  specialEvents?: SpecialEventType[]; // 同時に起こる日食・月食・スーパームーン
 }
 
 // 後方互換性のための型エイリアス
@@ -55,6 +83,7 @@ export interface CalendarEvent {
   date: Date;
   type: "diamond" | "pearl" | "both";
   events: SkytreeEvent[];
+  specialEvents?: SpecialEvent[]; // その日の日食・月食・スーパームーン
 }
 
 // API response 用の型（日付文字列版）
@@ -62,6 +91,7 @@ export interface CalendarEventResponse {
   date: string;
   type: "diamond" | "pearl" | "both";
   events: SkytreeEventResponse[];
+  specialEvents?: SpecialEventResponse[];
   diamondFujiSeason?: boolean; // ダイヤモンドスカイツリーの観測期間かどうか
   seasonMessage?: string; // 観測期間外の場合のメッセージ
 }
@@ -74,6 +104,66 @@ export interface SkytreeEventResponse {
   location: Location;
   azimuth: number;
   elevation?: number;
+  lineOfSight?: LineOfSightResult;
+  refractionModel?: RefractionModel;
+  contactWindow?: {
+    firstContact: string;
+    center: string;
+    lastContact: string;
+    durationSeconds: number;
+    angularRadius: number;
+  };
+  target?: AlignmentTarget;
+  alignment?: AlignmentGeometry;
+  specialEvents?: SpecialEventType[];
+}
+
+export interface SpecialEventResponse extends Omit<SpecialEvent, "peakTime" | "startTime" | "endTime"> {
+  peakTime: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface DayTimelineResponse {
+  date: string;
+  locationId: number;
+  sun: { rise?: string; set?: string };
+  moon: { rise?: string; set?: string };
+  phases: Array<Omit<TimelinePhase, "start" | "end"> & { start: string; end: string }>;
+  skytreeCrossings: Array<Omit<TimelineCrossing, "time"> & { time: string }>;
+}
+
+export interface ShootPlanResponse extends Omit<ShootPlan, "eventTime" | "steps"> {
+  eventTime: string;
+  steps: Array<Omit<ShootPlanStep, "time"> & { time: string }>;
+}
+
+export interface SkyTrackResponse extends Omit<SkyTrack, "centerTime" | "samples"> {
+  centerTime: string;
+  samples: Array<Omit<SkyTrackSample, "time"> & { time: string }>;
+}
+
+export interface AlignmentLineResponse extends Omit<AlignmentLine, "startTime" | "endTime" | "points"> {
+  startTime: string;
+  endTime: string;
+  points: Array<Omit<AlignmentLinePoint, "time"> & { time: string }>;
+}
+
+export interface MapComparisonResponse extends Omit<MapComparison, "startDate" | "endDate" | "rows"> {
+  startDate: string;
+  endDate: string;
+  rows: Array<
+    Omit<MapComparisonRow, "cells"> & {
+      cells: Array<Omit<MapComparisonCell, "bestEvent"> & { bestEvent?: SkytreeEventResponse }>;
+    }
+  >;
+}
+
+export interface RegionRecommendationResponse
+  extends Omit<RegionRecommendation, "startDate" | "endDate" | "candidates"> {
+  startDate: string;
+  endDate: string;
+  candidates: Array<Omit<RegionCandidate, "bestEvent"> & { bestEvent?: SkytreeEventResponse }>;
 }
 
 // 過去データ用の型定義
@@ -167,6 +257,9 @@ export interface Admin {
   lockedUntil?: Date;
 }
 
+// 撮影地点の追加リクエストの審査状態
+export type LocationRequestStatus = "pending" | "approved" | "rejected";
+
 export interface LocationRequest {
   id: number;
   name: string;
@@ -175,10 +268,11 @@ export interface LocationRequest {
   suggestedLatitude?: number;
   suggestedLongitude?: number;
   requesterIp: string;
-  status: "pending" | "approved" | "rejected";
+  status: LocationRequestStatus;
   createdAt: Date;
   processedAt?: Date;
   processedBy?: number;
+  locationId?: number; // 承認して作成した地点の ID
 }
 
 
@@ -198,6 +292,24 @@ export interface LocationsResponse {
   locations: Location[];
 }
 
+// 撮影地点の範囲検索（条件はすべて AND。距離はメートル、方位角は度）
+export interface LocationSpatialQuery {
+  center?: { latitude: number; longitude: number; radiusMeters?: number }; // 指定時は中心からの距離順
+  bounds?: { south: number; west: number; north: number; east: number }; // 地図の表示範囲
+  distanceToSkytree?: { min?: number; max?: number };
+  azimuthToSkytree?: { from: number; to: number }; // from から時計回りに to まで（360 度をまたいでもよい）
+  limit?: number;
+}
+
+export interface LocationSearchResult extends Location {
+  distanceFromCenter?: number; // center 指定時の中心からの距離（メートル）
+}
+
+export interface LocationSearchResponse {
+  locations: LocationSearchResult[];
+  count: number;
+}
+
 // API リクエスト型
 export interface CreateLocationRequest {
   name: string;
@@ -229,8 +341,101 @@ export interface UpdateLocationRequest {
   distanceToSkytree?: number;
 }
 
+// 撮影地点のエクスポート・インポートのファイル形式
+export type LocationFileFormat = "json" | "csv" | "geojson";
+
+// インポートの行ごとの処理（invalid の行がある場合は何も反映しない）
+export type LocationImportAction = "create" | "update" | "unchanged" | "invalid";
+
+export interface LocationFieldChange {
+  field: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface LocationImportRowDiff {
+  row: number; // ファイル内の行番号（CSV はヘッダーの次を 1、JSON・GeoJSON は要素の順番）
+  action: LocationImportAction;
+  id?: number;
+  name?: string;
+  changes: LocationFieldChange[]; // create は設定する値、update は変わる項目のみ
+  errors: string[];
+  warnings: string[]; // 近くにある地点・名前が似ている地点（反映は妨げない）
+}
+
+export interface LocationImportResult {
+  dryRun: boolean;
+  applied: boolean;
+  summary: {
+    totalCount: number;
+    createdCount: number;
+    updatedCount: number;
+    unchangedCount: number;
+    errorCount: number;
+  };
+  rows: LocationImportRowDiff[];
+}
+
+// 重複の疑いがある地点の判定ルール（システム設定で変更可能）
+export interface LocationDuplicateRules {
+  radiusMeters: number; // この距離以内の地点を重複候補にする
+  nameSimilarity: number; // 名前の類似度（0-1）がこの値以上の地点を重複候補にする
+}
+
+export type LocationDuplicateReason = "nearby" | "similar_name";
+
+export interface LocationDuplicateCandidate {
+  id: number;
+  name: string;
+  prefecture: string;
+  latitude: number;
+  longitude: number;
+  distanceMeters: number;
+  nameSimilarity: number;
+  reasons: LocationDuplicateReason[];
+}
+
+// 地点の統合結果（統合元のイベントは統合先に付け替え、統合元は削除する）
+export interface LocationMergeResult {
+  location: Location;
+  sourceId: number;
+  movedEventCount: number;
+  droppedEventCount: number; // 統合先に同じ日・種類のイベントがあったため削除した件数
+  movedRejectionCount: number;
+  movedPhotoCount: number;
+}
+
+// 撮影地点の参考写真の種類（スカイツリー方向の眺め・駐車場・過去の作例）
+export type LocationPhotoCategory = "skytree_view" | "parking" | "sample_shot";
+
+// 撮影地点の参考写真（撮影日時・GPS 位置は EXIF から取得し、ない場合は null）
+export interface LocationPhoto {
+  id: number;
+  locationId: number;
+  category: LocationPhotoCategory;
+  caption: string | null;
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+  takenAt: Date | null;
+  gpsLatitude: number | null;
+  gpsLongitude: number | null;
+  createdAt: Date;
+}
+
+export interface LocationPhotoResponse extends Omit<LocationPhoto, "takenAt" | "createdAt"> {
+  takenAt: string | null;
+  createdAt: string;
+}
+
+export interface LocationPhotosResponse {
+  photos: LocationPhotoResponse[];
+}
+
 export interface LocationRequestBody {
   name: string;
+  prefecture: string;
   description: string;
   suggestedCoordinates?: {
     latitude: number;
@@ -239,6 +444,32 @@ export interface LocationRequestBody {
   captchaToken: string;
 }
 
+export interface LocationRequestResponse extends Omit<LocationRequest, "createdAt" | "processedAt"> {
+  createdAt: string;
+  processedAt?: string;
+}
+
+export interface LocationRequestsResponse {
+  requests: LocationRequestResponse[];
+}
+
+// 追加リクエストの承認時に管理者が確定する地点情報（地点名・都道府県・説明は未指定ならリクエストの値を使う）
+export interface ApproveLocationRequestBody
+  extends Omit<CreateLocationRequest, "name" | "prefecture"> {
+  name?: string;
+  prefecture?: string;
+}
+
+// 追加リクエストのフォームで使うキャプチャの設定（未設定の場合は null）
+export type CaptchaProvider = "turnstile" | "recaptcha" | "hcaptcha";
+
+export interface LocationRequestConfig {
+  captcha: {
+    provider: CaptchaProvider;
+    siteKey: string;
+  } | null;
+}
+
 // 認証関連型
 export interface AuthResult {
   success: boolean;
@@ -328,9 +559,23 @@ export interface FavoriteEvent {
   addedAt: string; // ISO 文字列
 }
 
+// 名前を付けて保存した撮影計画（時刻は ISO 文字列）
+export interface FavoriteShootPlan {
+  id: string;
+  name: string;
+  event: Omit<FavoriteEvent, "addedAt">;
+  accessInfo?: string | null;
+  parkingInfo?: string | null;
+  travelMinutes: number;
+  setupMinutes: number;
+  steps: Array<Omit<ShootPlanStep, "time"> & { time: string }>;
+  createdAt: string; // ISO 文字列
+}
+
 export interface Favorites {
   locations: FavoriteLocation[];
   events: FavoriteEvent[];
+  plans?: FavoriteShootPlan[]; // 撮影計画の追加前に保存したデータにはない
 }
 
 // システム設定関連型
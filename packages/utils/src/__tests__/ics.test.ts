@@ -0,0 +1,119 @@
+import { buildIcsCalendar, createSkytreeEventUid, type IcsEvent } from "../ics";
+
+const GENERATED_AT = new Date("2026-10-19T00:00:00Z");
+
+const buildWithSummary = (summary: string): string => {
+  const event: IcsEvent = {
+    uid: "test@skytree-photo-planner",
+    start: new Date("2026-10-20T07:40:00Z"),
+    end: new Date("2026-10-20T07:50:00Z"),
+    summary,
+  };
+  return buildIcsCalendar([event], { name: "テスト", generatedAt: GENERATED_AT });
+};
+
+// 折り返し（CRLF + 空白 1 文字）を戻した論理行
+const unfold = (ics: string): string[] => ics.replace(/\r\n /g, "").split("\r\n");
+
+// SUMMARY の物理行（折り返した続きの行を含む）
+const summaryLines = (ics: string): string[] => {
+  const lines = ics.split("\r\n");
+  const start = lines.findIndex((line) => line.startsWith("SUMMARY:"));
+  let end = start + 1;
+  while (lines[end].startsWith(" ")) end++;
+  return lines.slice(start, end);
+};
+
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+describe("buildIcsCalendar", () => {
+  describe("行の折り返し", () => {
+    it("75 オクテットちょうどの行は折り返さず、超える行は折り返す", () => {
+      // "SUMMARY:" は 8 オクテット
+      expect(summaryLines(buildWithSummary("a".repeat(67)))).toEqual([`SUMMARY:${"a".repeat(67)}`]);
+      expect(summaryLines(buildWithSummary("a".repeat(68)))).toEqual([
+        `SUMMARY:${"a".repeat(67)}`,
+        " a",
+      ]);
+    });
+
+    it("日本語・絵文字を含む行は UTF-8 の 75 オクテット以内で文字の途中を切らずに折り返す", () => {
+      const summary = `ダイヤモンドスカイツリー（日の入り）🌅${"荒川河川敷・".repeat(12)}📷`;
+      const ics = buildWithSummary(summary);
+      const lines = summaryLines(ics);
+
+      expect(lines.length).toBeGreaterThan(3);
+      for (const line of lines) {
+        expect(Buffer.byteLength(line, "utf8")).toBeLessThanOrEqual(75);
+        expect(line).not.toMatch(LONE_SURROGATE);
+      }
+      expect(unfold(ics)).toContain(`SUMMARY:${summary}`);
+    });
+
+    it("75 オクテット目が文字の途中になる場合はその文字の前で折り返す", () => {
+      // "SUMMARY:aa" の 10 オクテット + 3 オクテット × 21 文字 = 73 オクテット（22 文字目は 76 オクテット目で終わる）
+      expect(summaryLines(buildWithSummary(`aa${"あ".repeat(30)}`))).toEqual([
+        `SUMMARY:aa${"あ".repeat(21)}`,
+        ` ${"あ".repeat(9)}`,
+      ]);
+    });
+
+    it("行は CRLF で区切り、最後も CRLF で終える", () => {
+      const ics = buildWithSummary("ダイヤモンドスカイツリー");
+
+      expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+      expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+    });
+  });
+
+  it("TEXT 値のバックスラッシュ・セミコロン・カンマ・改行をエスケープする", () => {
+    const ics = buildWithSummary("a,b;c\\d\ne\r\nf");
+
+    expect(unfold(ics)).toContain("SUMMARY:a\\,b\\;c\\\\d\\ne\\nf");
+  });
+});
+
+describe("createSkytreeEventUid", () => {
+  const source = {
+    locationId: 12,
+    type: "diamond" as const,
+    subType: "sunset",
+    time: new Date("2026-10-20T07:41:12Z"),
+  };
+
+  it("地点・種類・日本時間の日付から作り、再計算で時刻がずれても変わらない", () => {
+    expect(createSkytreeEventUid(source)).toBe("12-diamond-sunset-20261020@skytree-photo-planner");
+    expect(
+      createSkytreeEventUid({ ...source, time: new Date("2026-10-20T07:43:40Z") }),
+    ).toBe(createSkytreeEventUid(source));
+  });
+
+  it("日付は日本時間で数える", () => {
+    // 2026-10-19T15:30Z は日本時間 10 月 20 日 0:30
+    expect(
+      createSkytreeEventUid({ ...source, subType: "rising", type: "pearl", time: new Date("2026-10-19T15:30:00Z") }),
+    ).toBe("12-pearl-rising-20261020@skytree-photo-planner");
+  });
+
+  it("目標点ごとに異なる UID になる", () => {
+    const uids = [
+      createSkytreeEventUid(source),
+      createSkytreeEventUid({ ...source, targetId: "gain_tower" }),
+      createSkytreeEventUid({ ...source, targetId: "tembo_deck" }),
+    ];
+
+    expect(uids[1]).toBe("12-diamond-sunset-20261020-gain_tower@skytree-photo-planner");
+    expect(new Set(uids).size).toBe(3);
+  });
+
+  it("地点・種類・日付が異なれば異なる UID になる", () => {
+    const uids = [
+      createSkytreeEventUid(source),
+      createSkytreeEventUid({ ...source, locationId: 13 }),
+      createSkytreeEventUid({ ...source, subType: "sunrise" }),
+      createSkytreeEventUid({ ...source, time: new Date("2026-10-21T07:41:12Z") }),
+    ];
+
+    expect(new Set(uids).size).toBe(4);
+  });
+});
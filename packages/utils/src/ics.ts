@@ -0,0 +1,228 @@
+/**
+ * iCalendar（RFC 5545）形式の出力
+ * サーバーの購読用フィードとクライアントのお気に入りの書き出しで共通
+ */
+
+import { JST_OFFSET, JST_TIMEZONE } from "./timeUtils";
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: { latitude: number; longitude: number };
+  url?: string;
+  alarmMinutesBefore?: number; // 開始の何分前に通知するか（未指定・0 は通知なし）
+}
+
+export interface IcsCalendarOptions {
+  name: string;
+  description?: string;
+  refreshIntervalHours?: number; // 購読するカレンダーアプリの再取得間隔の目安
+  generatedAt?: Date; // DTSTAMP（未指定なら現在時刻）
+}
+
+/**
+ * スカイツリーのイベントを VEVENT にするための情報
+ */
+export interface SkytreeIcsEventSource {
+  type: "diamond" | "pearl";
+  subType: string;
+  time: Date; // 天体が頂部に重なる時刻
+  window?: { start: Date; end: Date }; // 重なり始めから重なり終わりまで（未指定なら時刻の前後数分）
+  azimuth: number;
+  elevation?: number;
+  qualityScore?: number;
+  targetId?: string;
+  location: {
+    id: number;
+    name: string;
+    prefecture?: string;
+    latitude?: number;
+    longitude?: number;
+    accessInfo?: string | null;
+    parkingInfo?: string | null;
+  };
+}
+
+const ICS_PRODUCT_ID = "-//skytree-photo-planner//Skytree Photo Planner//JA";
+const UID_DOMAIN = "skytree-photo-planner";
+const MAX_LINE_OCTETS = 75;
+// 重なりの時間帯が不明なイベントの前後の幅（分）
+const DEFAULT_WINDOW_MINUTES = 5;
+
+const EVENT_TYPE_LABELS: Record<SkytreeIcsEventSource["type"], string> = {
+  diamond: "ダイヤモンドスカイツリー",
+  pearl: "パールスカイツリー",
+};
+
+const EVENT_SUBTYPE_LABELS: Record<string, string> = {
+  sunrise: "日の出",
+  sunset: "日の入り",
+  rising: "月の出",
+  setting: "月の入り",
+};
+
+/**
+ * TEXT 値のエスケープ
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * UTC の DATE-TIME 形式（例: 20261019T211500Z）
+ */
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function getUtf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * 75 オクテットを超える行を折り返す（続きの行は空白 1 文字で始める）
+ * 日本語を含むため、文字の途中で切らないよう UTF-8 のバイト数で数える
+ */
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const length = getUtf8Length(char);
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + length > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += length;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+/**
+ * イベント一覧を iCalendar 形式の文字列にする
+ */
+export function buildIcsCalendar(events: IcsEvent[], options: IcsCalendarOptions): string {
+  const timestamp = formatUtcDateTime(options.generatedAt ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICS_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${JST_TIMEZONE}`,
+  ];
+  if (options.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+  }
+  if (options.refreshIntervalHours) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshIntervalHours}H`,
+      `X-PUBLISHED-TTL:PT${options.refreshIntervalHours}H`,
+    );
+  }
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${timestamp}`,
+      `DTSTART:${formatUtcDateTime(event.start)}`,
+      `DTEND:${formatUtcDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.geo) {
+      lines.push(`GEO:${event.geo.latitude.toFixed(6)};${event.geo.longitude.toFixed(6)}`);
+    }
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.alarmMinutesBefore && event.alarmMinutesBefore > 0) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:-PT${Math.round(event.alarmMinutesBefore)}M`,
+        "END:VALARM",
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * スカイツリーのイベントの UID
+ * イベントの ID は再計算で変わるため、地点・種類・日付（日本時間）・目標点から作る
+ * 同じ地点で同じ種類のイベントは 1 日に 1 回のため、再計算後も同じ UID になる
+ */
+export function createSkytreeEventUid(
+  source: Pick<SkytreeIcsEventSource, "type" | "subType" | "time" | "targetId"> & {
+    locationId: number;
+  },
+): string {
+  const jstDate = new Date(source.time.getTime() + JST_OFFSET * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10)
+    .replace(/-/g, "");
+  const parts = [source.locationId, source.type, source.subType, jstDate];
+  if (source.targetId) parts.push(source.targetId);
+  return `${parts.join("-")}@${UID_DOMAIN}`;
+}
+
+/**
+ * スカイツリーのイベントの VEVENT
+ * 説明に時刻・天体の方位角と高度・品質スコア・地点のアクセス情報を入れる
+ */
+export function createSkytreeIcsEvent(
+  source: SkytreeIcsEventSource,
+  options: { alarmMinutesBefore?: number; url?: string } = {},
+): IcsEvent {
+  const { location } = source;
+  const typeLabel = EVENT_TYPE_LABELS[source.type];
+  const subTypeLabel = EVENT_SUBTYPE_LABELS[source.subType] ?? source.subType;
+  const windowMs = DEFAULT_WINDOW_MINUTES * 60 * 1000;
+
+  const description = [
+    `${typeLabel}（${subTypeLabel}）`,
+    `時刻: ${source.time.toLocaleString("ja-JP", { timeZone: JST_TIMEZONE })}（日本時間）`,
+    `方位角: ${source.azimuth.toFixed(1)}°`,
+    source.elevation !== undefined ? `高度: ${source.elevation.toFixed(1)}°` : null,
+    source.qualityScore !== undefined ? `品質スコア: ${source.qualityScore}` : null,
+    location.accessInfo ? `アクセス: ${location.accessInfo}` : null,
+    location.parkingInfo ? `駐車場: ${location.parkingInfo}` : null,
+  ].filter((line): line is string => line !== null);
+
+  return {
+    uid: createSkytreeEventUid({ ...source, locationId: location.id }),
+    start: source.window?.start ?? new Date(source.time.getTime() - windowMs),
+    end: source.window?.end ?? new Date(source.time.getTime() + windowMs),
+    summary: `${typeLabel}（${subTypeLabel}）${location.name}`,
+    description: description.join("\n"),
+    location: location.prefecture ? `${location.name}（${location.prefecture}）` : location.name,
+    geo:
+      location.latitude !== undefined && location.longitude !== undefined
+        ? { latitude: location.latitude, longitude: location.longitude }
+        : undefined,
+    url: options.url,
+    alarmMinutesBefore: options.alarmMinutesBefore,
+  };
+}
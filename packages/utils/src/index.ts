@@ -3,3 +3,4 @@ export * from "./timeUtils";
 export * from "./logger";
 export * from "./formatters";
 export * from "./errorHandler";
+export * from "./ics";
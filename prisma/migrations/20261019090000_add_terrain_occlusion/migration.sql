@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "public"."OcclusionStatus" AS ENUM ('clear', 'partial', 'blocked');
+
+-- AlterTable
+ALTER TABLE "public"."location_events" ADD COLUMN     "occlusion_status" "public"."OcclusionStatus",
+ADD COLUMN     "visible_height" DOUBLE PRECISION;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."RefractionModel" AS ENUM ('none', 'standard', 'bennett', 'saemundsson');
+
+-- AlterTable
+ALTER TABLE "public"."location_events" ADD COLUMN     "refraction_model" "public"."RefractionModel";
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."location_events" ADD COLUMN     "first_contact_time" TIMESTAMPTZ(6),
+ADD COLUMN     "center_time" TIMESTAMPTZ(6),
+ADD COLUMN     "last_contact_time" TIMESTAMPTZ(6),
+ADD COLUMN     "angular_radius" DOUBLE PRECISION;
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "public"."AlignmentClassification" AS ENUM ('centered', 'touching', 'crossing_shaft', 'beside');
+
+-- AlterTable
+ALTER TABLE "public"."location_events" ADD COLUMN     "alignment_classification" "public"."AlignmentClassification",
+ADD COLUMN     "crossing_height" DOUBLE PRECISION,
+ADD COLUMN     "offset_diameters" DOUBLE PRECISION;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "public"."PearlRejectionReason" AS ENUM ('low_illumination', 'bright_sky', 'far_from_full');
+
+-- CreateTable
+CREATE TABLE "public"."pearl_rejections" (
+    "id" SERIAL NOT NULL,
+    "location_id" INTEGER NOT NULL,
+    "event_date" DATE NOT NULL,
+    "event_time" TIMESTAMPTZ(6) NOT NULL,
+    "event_type" "public"."EventType" NOT NULL,
+    "azimuth" DOUBLE PRECISION NOT NULL,
+    "moon_illumination" DOUBLE PRECISION NOT NULL,
+    "days_from_full" DOUBLE PRECISION NOT NULL,
+    "sun_elevation" DOUBLE PRECISION NOT NULL,
+    "reasons" "public"."PearlRejectionReason"[],
+    "calculation_year" INTEGER NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "pearl_rejections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pearl_rejections_location_id_idx" ON "public"."pearl_rejections"("location_id");
+
+-- CreateIndex
+CREATE INDEX "pearl_rejections_event_date_idx" ON "public"."pearl_rejections"("event_date");
+
+-- CreateIndex
+CREATE INDEX "pearl_rejections_calculation_year_idx" ON "public"."pearl_rejections"("calculation_year");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pearl_rejections_location_id_event_time_event_type_key" ON "public"."pearl_rejections"("location_id", "event_time", "event_type");
+
+-- AddForeignKey
+ALTER TABLE "public"."pearl_rejections" ADD CONSTRAINT "pearl_rejections_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
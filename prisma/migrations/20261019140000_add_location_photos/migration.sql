@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "public"."LocationPhotoCategory" AS ENUM ('skytree_view', 'parking', 'sample_shot');
+
+-- CreateTable
+CREATE TABLE "public"."location_photos" (
+    "id" SERIAL NOT NULL,
+    "location_id" INTEGER NOT NULL,
+    "category" "public"."LocationPhotoCategory" NOT NULL,
+    "caption" VARCHAR(200),
+    "storage_key" VARCHAR(255) NOT NULL,
+    "thumbnail_key" VARCHAR(255) NOT NULL,
+    "content_type" VARCHAR(50) NOT NULL,
+    "file_size" INTEGER NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "taken_at" TIMESTAMPTZ(6),
+    "gps_latitude" DOUBLE PRECISION,
+    "gps_longitude" DOUBLE PRECISION,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "location_photos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "location_photos_location_id_idx" ON "public"."location_photos"("location_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."location_photos" ADD CONSTRAINT "location_photos_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
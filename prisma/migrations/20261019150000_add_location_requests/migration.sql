@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."LocationRequestStatus" AS ENUM ('pending', 'approved', 'rejected');
+
+-- CreateTable
+CREATE TABLE "public"."location_requests" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "prefecture" VARCHAR(20) NOT NULL,
+    "description" TEXT NOT NULL,
+    "suggested_latitude" DOUBLE PRECISION,
+    "suggested_longitude" DOUBLE PRECISION,
+    "requester_ip" VARCHAR(45) NOT NULL,
+    "status" "public"."LocationRequestStatus" NOT NULL DEFAULT 'pending',
+    "processed_at" TIMESTAMPTZ(6),
+    "processed_by" INTEGER,
+    "location_id" INTEGER,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "location_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "location_requests_status_idx" ON "public"."location_requests"("status");
+
+-- CreateIndex
+CREATE INDEX "location_requests_requester_ip_idx" ON "public"."location_requests"("requester_ip");
+
+-- AddForeignKey
+ALTER TABLE "public"."location_requests" ADD CONSTRAINT "location_requests_processed_by_fkey" FOREIGN KEY ("processed_by") REFERENCES "public"."admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."location_requests" ADD CONSTRAINT "location_requests_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
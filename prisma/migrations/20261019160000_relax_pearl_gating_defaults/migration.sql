@@ -0,0 +1,13 @@
+-- パール採否判定の既定値を、導入前と同じ結果になる値（太陽高度・月齢差のルールは無効）に変更
+-- 導入時の既定値のまま変更されていない設定のみ更新する
+UPDATE "public"."system_settings"
+SET "number_value" = 90,
+    "description" = 'パールスカイツリー候補時刻の太陽高度の上限（度）。上回る候補は空が明るすぎる（bright_sky）として除外。既定値 90 では除外しない',
+    "updated_at" = CURRENT_TIMESTAMP
+WHERE "setting_key" = 'pearl_max_sun_elevation' AND "number_value" = 10;
+
+UPDATE "public"."system_settings"
+SET "number_value" = 15,
+    "description" = '満月からの月齢差の上限（日）。上回る候補は far_from_full として除外。既定値 15（朔望月の半分以上）では除外しない',
+    "updated_at" = CURRENT_TIMESTAMP
+WHERE "setting_key" = 'pearl_max_days_from_full' AND "number_value" = 14;